@@ -21,6 +21,9 @@ async function clearSentences() {
     ) as any;
     
     console.log(`✓ Deleted ${result.affectedRows} sentences`);
+
+    // The word index of the sentences goes with them
+    await connection.query('DELETE FROM sentence_words');
     
   } finally {
     await connection.end();
@@ -36,6 +36,7 @@ async function createTables() {
         secret_phrase_hash VARCHAR(255) NOT NULL,
         role ENUM('admin', 'parent', 'child') DEFAULT 'parent',
         parent_id INT,
+        daily_new_limit INT,
         is_active TINYINT(1) DEFAULT 1,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
@@ -46,6 +47,19 @@ async function createTables() {
       ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
     `);
 
+    // Add daily_new_limit column if it doesn't exist (per-user cap on new words per day)
+    try {
+      await connection.query(`
+        ALTER TABLE auth_users 
+        ADD COLUMN daily_new_limit INT AFTER parent_id;
+      `);
+      console.log('auth_users daily_new_limit column added');
+    } catch (error: any) {
+      if (error.errno !== 1060) {
+        console.error('Error adding daily_new_limit to auth_users:', error.message);
+      }
+    }
+
     // Create legacy users table (for backward compatibility with existing vocabulary)
     await connection.query(`
       CREATE TABLE IF NOT EXISTS users (
@@ -55,14 +69,19 @@ async function createTables() {
       ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
     `);
 
+    // Full-text indexes are built without the InnoDB stopword list: the ngram parser would otherwise
+    // drop every token containing a stopword such as "a" or "i" from the vocabulary search index
+    await connection.query('SET SESSION innodb_ft_enable_stopword = OFF;');
+
     // Create vocabulary_entries table
     await connection.query(`
       CREATE TABLE IF NOT EXISTS vocabulary_entries (
         id VARCHAR(36) PRIMARY KEY,
         user_id INT NOT NULL,
         username VARCHAR(255) NOT NULL,
-        chinese_character VARCHAR(10) NOT NULL,
+        chinese_character VARCHAR(64) NOT NULL,
         pinyin VARCHAR(255) NOT NULL,
+        pinyin_letters VARCHAR(255) AS (REGEXP_REPLACE(pinyin, '[^[:alpha:]]', '')) STORED,
         han_vietnamese TEXT,
         modern_vietnamese TEXT,
         english_meaning TEXT,
@@ -73,9 +92,17 @@ async function createTables() {
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
         shared_from VARCHAR(255),
+        deleted_at DATETIME,
         INDEX idx_user_id_chapter (user_id, chapter),
+        INDEX idx_user_chapter_pinyin (user_id, chapter, pinyin),
+        INDEX idx_user_pinyin (user_id, pinyin),
+        INDEX idx_user_character (user_id, chinese_character),
+        INDEX idx_user_created (user_id, created_at),
+        INDEX idx_user_updated (user_id, updated_at),
+        INDEX idx_deleted_at (deleted_at),
         INDEX idx_username_chapter (username, chapter),
-        INDEX idx_chapter (chapter)
+        INDEX idx_chapter (chapter),
+        FULLTEXT INDEX ft_vocabulary_text (chinese_character, pinyin_letters, han_vietnamese, modern_vietnamese, english_meaning, learning_note) WITH PARSER ngram
       ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
     `);
 
@@ -138,6 +165,126 @@ async function createTables() {
       }
     }
 
+    // Widen chinese_character for multi-word expressions, chengyu and patterns (was VARCHAR(10))
+    try {
+      await connection.query(`
+        ALTER TABLE vocabulary_entries 
+        MODIFY COLUMN chinese_character VARCHAR(64) NOT NULL;
+      `);
+    } catch (error: any) {
+      console.error('Error widening chinese_character column:', error.message);
+    }
+
+    // Add deleted_at column if it doesn't exist (trash: set while an entry awaits purging)
+    try {
+      await connection.query(`
+        ALTER TABLE vocabulary_entries 
+        ADD COLUMN deleted_at DATETIME AFTER shared_from;
+      `);
+      console.log('deleted_at column added successfully');
+    } catch (error: any) {
+      if (error.errno !== 1060) {
+        console.error('Error adding deleted_at column:', error.message);
+      }
+    }
+
+    // Add pinyin_letters column if it doesn't exist (pinyin without spaces, apostrophes and tone numbers, for search)
+    try {
+      await connection.query(`
+        ALTER TABLE vocabulary_entries 
+        ADD COLUMN pinyin_letters VARCHAR(255) AS (REGEXP_REPLACE(pinyin, '[^[:alpha:]]', '')) STORED AFTER pinyin;
+      `);
+      console.log('pinyin_letters column added successfully');
+    } catch (error: any) {
+      if (error.errno !== 1060) {
+        console.error('Error adding pinyin_letters column:', error.message);
+      }
+    }
+
+    // Add the full-text index behind vocabulary search (for existing databases)
+    try {
+      await connection.query(`
+        ALTER TABLE vocabulary_entries 
+        ADD FULLTEXT INDEX ft_vocabulary_text (chinese_character, pinyin_letters, han_vietnamese, modern_vietnamese, english_meaning, learning_note) WITH PARSER ngram;
+      `);
+      console.log('vocabulary_entries full-text index added');
+    } catch (error: any) {
+      // Index might already exist (error code 1061), ignore error
+      if (error.errno !== 1061) {
+        console.error('Error adding full-text index:', error.message);
+      }
+    }
+
+    // Add the indexes behind sorted, paginated vocabulary lists, duplicate checks and trash purging (for existing databases)
+    const vocabularyIndexes: [string, string][] = [
+      ['idx_user_chapter_pinyin', 'user_id, chapter, pinyin'],
+      ['idx_user_pinyin', 'user_id, pinyin'],
+      ['idx_user_character', 'user_id, chinese_character'],
+      ['idx_user_created', 'user_id, created_at'],
+      ['idx_user_updated', 'user_id, updated_at'],
+      ['idx_deleted_at', 'deleted_at']
+    ];
+    for (const [name, columns] of vocabularyIndexes) {
+      try {
+        await connection.query(`ALTER TABLE vocabulary_entries ADD INDEX ${name} (${columns});`);
+        console.log(`vocabulary_entries index ${name} added`);
+      } catch (error: any) {
+        // Index might already exist (error code 1061), ignore error
+        if (error.errno !== 1061) {
+          console.error(`Error adding index ${name}:`, error.message);
+        }
+      }
+    }
+
+    // Create vocabulary_characters table (component characters of each entry, for "words containing 好")
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS vocabulary_characters (
+        vocabulary_id VARCHAR(36) NOT NULL,
+        user_id INT NOT NULL,
+        hanzi VARCHAR(4) COLLATE utf8mb4_bin NOT NULL,
+        position INT NOT NULL,
+        PRIMARY KEY (vocabulary_id, hanzi),
+        INDEX idx_user_hanzi (user_id, hanzi)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    // Create vocabulary_revisions table (edit history: changed fields and the content before each change)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS vocabulary_revisions (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        vocabulary_id VARCHAR(36) NOT NULL,
+        user_id INT NOT NULL,
+        changed_by INT,
+        action VARCHAR(20) NOT NULL,
+        changes JSON NOT NULL,
+        snapshot JSON NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_vocabulary_id (vocabulary_id, id),
+        INDEX idx_user_id (user_id)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    // Create tags table (free-form tags of a user's vocabulary, e.g. "food", "HSK2", "exam week 3")
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS tags (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        user_id INT NOT NULL,
+        name VARCHAR(50) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY unique_user_tag (user_id, name)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    // Create vocabulary_tags table (which entries carry which tags)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS vocabulary_tags (
+        vocabulary_id VARCHAR(36) NOT NULL,
+        tag_id INT NOT NULL,
+        PRIMARY KEY (vocabulary_id, tag_id),
+        INDEX idx_tag_id (tag_id)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
     // Create vocabulary_sharing table
     await connection.query(`
       CREATE TABLE IF NOT EXISTS vocabulary_sharing (
@@ -203,6 +350,80 @@ async function createTables() {
       }
     };
 
+    // Create sentence_words table (vocabulary words used by each generated sentence, for example sentences)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS sentence_words (
+        sentence_id VARCHAR(36) NOT NULL,
+        user_id INT NOT NULL,
+        word VARCHAR(64) NOT NULL,
+        PRIMARY KEY (sentence_id, word),
+        INDEX idx_user_word (user_id, word)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    // Create review_states table (spaced-repetition schedule per user, word and flashcard mode)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS review_states (
+        user_id INT NOT NULL,
+        vocabulary_id VARCHAR(36) NOT NULL,
+        mode VARCHAR(50) NOT NULL,
+        ease_factor DOUBLE NOT NULL DEFAULT 2.5,
+        interval_days INT NOT NULL DEFAULT 0,
+        repetitions INT NOT NULL DEFAULT 0,
+        lapses INT NOT NULL DEFAULT 0,
+        due_at DATETIME NOT NULL,
+        last_grade VARCHAR(10),
+        last_reviewed_at DATETIME,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (user_id, vocabulary_id, mode),
+        INDEX idx_user_mode_due (user_id, mode, due_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    // Create flashcard_sessions table (issued flashcards awaiting reveal/grade, expire after a TTL)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS flashcard_sessions (
+        id VARCHAR(36) PRIMARY KEY,
+        user_id INT NOT NULL,
+        vocabulary_id VARCHAR(36) NOT NULL,
+        mode VARCHAR(50) NOT NULL,
+        correct_option INT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME NOT NULL,
+        INDEX idx_user_id (user_id),
+        INDEX idx_expires_at (expires_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    // Create decks table (shuffled study order and cursor, resumable on any device)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS decks (
+        id VARCHAR(36) PRIMARY KEY,
+        user_id INT NOT NULL,
+        owner_id INT NOT NULL,
+        filter JSON NOT NULL,
+        vocabulary_ids JSON NOT NULL,
+        cursor_position INT NOT NULL DEFAULT -1,
+        round INT NOT NULL DEFAULT 1,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        INDEX idx_user_owner_updated (user_id, owner_id, updated_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
+    // Create tone_drill_results table (tone drill answers per learner, expected and answered tone pair)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS tone_drill_results (
+        user_id INT NOT NULL,
+        expected_tones VARCHAR(3) NOT NULL,
+        answered_tones VARCHAR(3) NOT NULL,
+        count INT NOT NULL DEFAULT 0,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (user_id, expected_tones, answered_tones)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+    `);
+
     // Migrate existing users from vocabulary_entries to users table
     await connection.query(`
       INSERT IGNORE INTO users (username)
@@ -14,6 +14,19 @@ export const config = {
     get port() { return parseInt(process.env.PORT || '3000'); },
     get nodeEnv() { return process.env.NODE_ENV || 'development'; }
   },
+  flashcard: {
+    get sessionTtlHours() { return parseInt(process.env.FLASHCARD_SESSION_TTL_HOURS || '24'); },
+    get leechLapseThreshold() { return parseInt(process.env.LEECH_LAPSE_THRESHOLD || '4'); },
+    get dailyNewLimit() { return parseInt(process.env.DAILY_NEW_CARD_LIMIT || '20'); }
+  },
+  vocabulary: {
+    get trashRetentionDays() { return parseInt(process.env.VOCABULARY_TRASH_RETENTION_DAYS || '30'); }
+  },
+  translation: {
+    // 'dictionary' (English from CC-CEDICT first) or 'google' (Google Translate first, dictionary as fallback)
+    get provider() { return process.env.TRANSLATION_PROVIDER === 'google' ? 'google' : 'dictionary'; },
+    get cedictPath() { return process.env.CEDICT_PATH || ''; }
+  },
   admin: {
     get password() { return process.env.ADMIN_PASSWORD || 'BoyaChineseBach'; }
   },
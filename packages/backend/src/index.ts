@@ -20,6 +20,14 @@ import { join } from 'path';
 import { mkdir } from 'fs/promises';
 import { initDatabase } from './config/database';
 import flashcardRoutes from './routes/flashcard.routes';
+import deckRoutes from './routes/deck.routes';
+import studyRoutes from './routes/study.routes';
+import clozeRoutes from './routes/cloze.routes';
+import writingRoutes from './routes/writing.routes';
+import toneDrillRoutes from './routes/tone-drill.routes';
+import importRoutes from './routes/import.routes';
+import exportRoutes from './routes/export.routes';
+import tagRoutes from './routes/tag.routes';
 import vocabularyRoutes from './routes/vocabulary.routes';
 import comprehensionRoutes from './routes/comprehension.routes';
 import ttsRoutes from './routes/tts.routes';
@@ -35,14 +43,17 @@ import { config } from './config/env';
 
 // Import scheduler and phrase generator services
 import { GenerationScheduler } from './services/GenerationScheduler';
+import { TrashService } from './services/TrashService';
 import { PhraseGeneratorService } from './services/PhraseGeneratorService';
 import { videoProcessor } from './services/VideoProcessor';
+import { ExpressionService } from './services/ExpressionService';
+import { ExampleSentenceService } from './services/ExampleSentenceService';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
 // Middleware
-app.use(cors());
+app.use(cors({ exposedHeaders: ['Content-Disposition'] })); // lets the frontend read export file names
 app.use(express.json({ limit: '50mb' })); // Increased limit for database imports and large payloads
 
 // Create temp audio directory if it doesn't exist
@@ -70,6 +81,14 @@ app.get('/health', (req, res) => {
 
 // API Routes
 app.use('/api', flashcardRoutes);
+app.use('/api', deckRoutes);
+app.use('/api', studyRoutes);
+app.use('/api', clozeRoutes);
+app.use('/api', writingRoutes);
+app.use('/api', toneDrillRoutes);
+app.use('/api', importRoutes);
+app.use('/api', exportRoutes);
+app.use('/api', tagRoutes);
 app.use('/api', vocabularyRoutes);
 app.use('/api', comprehensionRoutes);
 app.use('/api', ttsRoutes);
@@ -85,6 +104,25 @@ async function startServer() {
   try {
     await initDatabase();
     console.log('Database initialized successfully');
+
+    // Link entries created before the vocabulary_characters table to their characters
+    try {
+      const linked = await ExpressionService.linkUnlinkedEntries();
+      if (linked > 0) console.log(`[ExpressionService] Linked ${linked} vocabulary entries to their characters`);
+    } catch (linkError) {
+      console.error('[ExpressionService] Failed to link vocabulary characters:', linkError);
+    }
+
+    // Index the words of sentences generated before the sentence_words table
+    try {
+      const indexed = await ExampleSentenceService.indexUnindexedSentences();
+      if (indexed > 0) console.log(`[ExampleSentenceService] Indexed the words of ${indexed} sentences`);
+    } catch (indexError) {
+      console.error('[ExampleSentenceService] Failed to index sentence words:', indexError);
+    }
+
+    // Purge vocabulary that has been in the trash longer than the retention period, now and nightly
+    TrashService.startAutoPurge();
     
     // Initialize video processor
     try {
@@ -115,6 +115,19 @@ export function canAccessChildData(req: AuthRequest, res: Response, next: NextFu
   return res.status(403).json({ error: 'Access denied' });
 }
 
+/**
+ * Whether the signed-in user may study a user's vocabulary
+ * Same rule as GET /:username/vocabulary: their own words, their parent's words (children), or anyone's (admins).
+ * @param user - Signed-in user
+ * @param ownerId - Owner of the vocabulary
+ */
+export function canStudyVocabulary(user: JWTPayload, ownerId: number): boolean {
+  if (user.role === 'admin' || user.userId === ownerId) {
+    return true;
+  }
+  return user.role === 'child' && !!user.parentId && user.parentId === ownerId;
+}
+
 /**
  * Optional JWT - doesn't fail if token is missing, but validates if present
  */
@@ -0,0 +1,166 @@
+/**
+ * Deck Model
+ *
+ * TypeScript interfaces and data access layer for shuffled study decks.
+ * A deck stores a shuffled order of vocabulary IDs and a cursor, so a learner can
+ * continue a shuffled pass where they left off, after a reload or on another device.
+ * Decks belong to the learner; the words come from the owner of the vocabulary, which is
+ * the learner themselves or, for a child, their parent.
+ */
+
+import { getPool } from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+
+/**
+ * Which words a deck contains
+ * Either a chapter range, a chapter label or a tag (tag wins over label, label over range),
+ * optionally favorites only.
+ */
+export interface DeckFilter {
+  chapterStart?: number;
+  chapterEnd?: number;
+  chapterLabel?: string;
+  tag?: string;
+  favoritesOnly?: boolean;
+}
+
+/**
+ * Complete deck interface matching database schema
+ */
+export interface Deck {
+  id: string;
+  userId: number;          // learner whose cursor this is
+  ownerId: number;         // owner of the vocabulary
+  filter: DeckFilter;
+  vocabularyIds: string[]; // shuffled order
+  cursor: number;          // index of the current card, -1 before the first card
+  round: number;           // number of passes started (reshuffled at the end of each pass)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Database row interface for type-safe queries
+ */
+interface DeckRow extends RowDataPacket {
+  id: string;
+  user_id: number;
+  owner_id: number;
+  filter: string | DeckFilter;
+  vocabulary_ids: string | string[];
+  cursor_position: number;
+  round: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Parse a JSON column (mysql2 returns JSON columns already parsed)
+ */
+function parseJson<T>(value: string | T): T {
+  return typeof value === 'string' ? JSON.parse(value) : value;
+}
+
+/**
+ * Convert database row to Deck interface
+ */
+function rowToDeck(row: DeckRow): Deck {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    ownerId: row.owner_id,
+    filter: parseJson<DeckFilter>(row.filter),
+    vocabularyIds: parseJson<string[]>(row.vocabulary_ids),
+    cursor: row.cursor_position,
+    round: row.round,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Data Access Layer for Deck
+ */
+export class DeckDAO {
+  /**
+   * Create a deck with a shuffled order, positioned before the first card
+   */
+  static async create(userId: number, ownerId: number, filter: DeckFilter, vocabularyIds: string[]): Promise<Deck> {
+    const pool = getPool();
+    const id = uuidv4();
+
+    await pool.query<ResultSetHeader>(
+      `INSERT INTO decks (id, user_id, owner_id, filter, vocabulary_ids, cursor_position, round)
+       VALUES (?, ?, ?, ?, ?, -1, 1)`,
+      [id, userId, ownerId, JSON.stringify(filter), JSON.stringify(vocabularyIds)]
+    );
+
+    const created = await this.findById(userId, id);
+    if (!created) {
+      throw new Error('Failed to create deck');
+    }
+    return created;
+  }
+
+  /**
+   * Find a deck by ID with user isolation
+   */
+  static async findById(userId: number, id: string): Promise<Deck | null> {
+    const pool = getPool();
+
+    const [rows] = await pool.query<DeckRow[]>(
+      `SELECT * FROM decks WHERE id = ? AND user_id = ?`,
+      [id, userId]
+    );
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    return rowToDeck(rows[0]);
+  }
+
+  /**
+   * Find all decks of a user over one owner's vocabulary, most recently used first
+   */
+  static async findByUserId(userId: number, ownerId: number): Promise<Deck[]> {
+    const pool = getPool();
+
+    const [rows] = await pool.query<DeckRow[]>(
+      `SELECT * FROM decks WHERE user_id = ? AND owner_id = ? ORDER BY updated_at DESC`,
+      [userId, ownerId]
+    );
+
+    return rows.map(rowToDeck);
+  }
+
+  /**
+   * Save the order, cursor and round of a deck
+   */
+  static async update(deck: Deck): Promise<Deck> {
+    const pool = getPool();
+
+    await pool.query<ResultSetHeader>(
+      `UPDATE decks SET vocabulary_ids = ?, cursor_position = ?, round = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND user_id = ?`,
+      [JSON.stringify(deck.vocabularyIds), deck.cursor, deck.round, deck.id, deck.userId]
+    );
+
+    return deck;
+  }
+
+  /**
+   * Delete a deck with user isolation
+   */
+  static async delete(userId: number, id: string): Promise<boolean> {
+    const pool = getPool();
+
+    const [result] = await pool.query<ResultSetHeader>(
+      `DELETE FROM decks WHERE id = ? AND user_id = ?`,
+      [id, userId]
+    );
+
+    return result.affectedRows > 0;
+  }
+}
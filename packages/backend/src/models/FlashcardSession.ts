@@ -0,0 +1,156 @@
+/**
+ * FlashcardSession Model
+ *
+ * TypeScript interfaces and data access layer for issued flashcards.
+ * A session row lives from the moment a card is issued until it is graded or expires,
+ * so answers can be revealed after a restart or on another instance.
+ */
+
+import { getPool } from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+
+/**
+ * Input interface for issuing a flashcard
+ */
+export interface FlashcardSessionInput {
+  vocabularyId: string;
+  mode: string;
+  correctOption?: number; // index of the right option for multiple-choice cards
+}
+
+/**
+ * Complete flashcard session interface matching database schema
+ */
+export interface FlashcardSession extends FlashcardSessionInput {
+  id: string;
+  userId: number;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Database row interface for type-safe queries
+ */
+interface FlashcardSessionRow extends RowDataPacket {
+  id: string;
+  user_id: number;
+  vocabulary_id: string;
+  mode: string;
+  correct_option: number | null;
+  created_at: Date;
+  expires_at: Date;
+}
+
+/**
+ * Convert database row to FlashcardSession interface
+ */
+function rowToSession(row: FlashcardSessionRow): FlashcardSession {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    vocabularyId: row.vocabulary_id,
+    mode: row.mode,
+    correctOption: row.correct_option ?? undefined,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at
+  };
+}
+
+/**
+ * Data Access Layer for FlashcardSession
+ */
+export class FlashcardSessionDAO {
+  /**
+   * Issue a new flashcard session
+   * @param userId - Owner user ID
+   * @param input - Vocabulary entry, mode and (for multiple choice) correct option of the card
+   * @param ttlHours - Hours until the session expires
+   */
+  static async create(userId: number, input: FlashcardSessionInput, ttlHours: number): Promise<FlashcardSession> {
+    const pool = getPool();
+    const id = uuidv4();
+
+    await pool.query<ResultSetHeader>(
+      `INSERT INTO flashcard_sessions (id, user_id, vocabulary_id, mode, correct_option, expires_at)
+       VALUES (?, ?, ?, ?, ?, DATE_ADD(NOW(), INTERVAL ? HOUR))`,
+      [id, userId, input.vocabularyId, input.mode, input.correctOption ?? null, ttlHours]
+    );
+
+    const created = await this.findActiveById(id);
+    if (!created) {
+      throw new Error('Failed to create flashcard session');
+    }
+    return created;
+  }
+
+  /**
+   * Find a session by ID, ignoring expired sessions
+   */
+  static async findActiveById(id: string): Promise<FlashcardSession | null> {
+    const pool = getPool();
+
+    const [rows] = await pool.query<FlashcardSessionRow[]>(
+      `SELECT * FROM flashcard_sessions WHERE id = ? AND expires_at > NOW()`,
+      [id]
+    );
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    return rowToSession(rows[0]);
+  }
+
+  /**
+   * Delete a session (after the card has been graded)
+   */
+  static async delete(id: string): Promise<boolean> {
+    const pool = getPool();
+
+    const [result] = await pool.query<ResultSetHeader>(
+      `DELETE FROM flashcard_sessions WHERE id = ?`,
+      [id]
+    );
+
+    return result.affectedRows > 0;
+  }
+
+  /**
+   * Delete all expired sessions
+   * @returns Number of sessions deleted
+   */
+  static async deleteExpired(): Promise<number> {
+    const pool = getPool();
+
+    const [result] = await pool.query<ResultSetHeader>(
+      `DELETE FROM flashcard_sessions WHERE expires_at <= NOW()`
+    );
+
+    return result.affectedRows;
+  }
+
+  /**
+   * Delete the sessions issued for purged entries
+   */
+  static async deleteForVocabulary(vocabularyIds: string[]): Promise<void> {
+    if (vocabularyIds.length === 0) {
+      return;
+    }
+
+    const pool = getPool();
+    await pool.query<ResultSetHeader>('DELETE FROM flashcard_sessions WHERE vocabulary_id IN (?)', [vocabularyIds]);
+  }
+
+  /**
+   * Delete the sessions issued for every entry owned by a user
+   * Runs before the entries themselves are deleted.
+   */
+  static async deleteAllForUser(userId: number): Promise<void> {
+    const pool = getPool();
+    await pool.query<ResultSetHeader>(
+      'DELETE s FROM flashcard_sessions s JOIN vocabulary_entries v ON v.id = s.vocabulary_id WHERE v.user_id = ?',
+      [userId]
+    );
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * PreGeneratedSentence Model
+ *
+ * TypeScript interfaces and data access layer for the sentences generated ahead of time
+ * for each vocab group. Each sentence records the vocabulary words it uses.
+ */
+
+import { getPool } from '../config/database';
+import { RowDataPacket } from 'mysql2';
+
+/**
+ * Complete sentence interface matching database schema
+ */
+export interface PreGeneratedSentence {
+  id: string;
+  userId: number;
+  vocabGroupId: number;
+  chineseText: string;
+  pinyin: string;
+  englishMeaning?: string;
+  modernVietnamese?: string;
+  usedCharacters: string[]; // vocabulary words used in the sentence
+  generationTimestamp: Date;
+}
+
+/**
+ * A sentence using a word, with the number of the other words in it the learner has not met yet
+ */
+export interface ExampleSentence extends PreGeneratedSentence {
+  newWordCount: number;
+}
+
+/**
+ * Database row interface for type-safe queries
+ */
+interface PreGeneratedSentenceRow extends RowDataPacket {
+  id: string;
+  user_id: number;
+  vocab_group_id: number;
+  chinese_text: string;
+  pinyin: string;
+  english_meaning: string | null;
+  modern_vietnamese: string | null;
+  used_characters: string | string[];
+  generation_timestamp: Date;
+}
+
+/**
+ * Convert database row to PreGeneratedSentence interface
+ */
+function rowToSentence(row: PreGeneratedSentenceRow): PreGeneratedSentence {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    vocabGroupId: row.vocab_group_id,
+    chineseText: row.chinese_text,
+    pinyin: row.pinyin,
+    englishMeaning: row.english_meaning || undefined,
+    modernVietnamese: row.modern_vietnamese || undefined,
+    // MySQL2 automatically parses JSON columns, so check if it's already an array
+    usedCharacters: typeof row.used_characters === 'string' ? JSON.parse(row.used_characters) : row.used_characters,
+    generationTimestamp: row.generation_timestamp
+  };
+}
+
+/**
+ * Data Access Layer for PreGeneratedSentence
+ */
+export class PreGeneratedSentenceDAO {
+  /**
+   * Find a sentence by ID with user isolation
+   */
+  static async findById(userId: number, id: string): Promise<PreGeneratedSentence | null> {
+    const pool = getPool();
+
+    const [rows] = await pool.query<PreGeneratedSentenceRow[]>(
+      `SELECT * FROM pre_generated_sentences WHERE id = ? AND user_id = ?`,
+      [id, userId]
+    );
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    return rowToSentence(rows[0]);
+  }
+
+  /**
+   * Find every sentence of a user that uses at least one of the given words
+   */
+  static async findUsingCharacters(userId: number, characters: string[]): Promise<PreGeneratedSentence[]> {
+    if (characters.length === 0) {
+      return [];
+    }
+
+    const pool = getPool();
+    const conditions = characters.map(() => 'JSON_CONTAINS(used_characters, JSON_QUOTE(?))').join(' OR ');
+
+    const [rows] = await pool.query<PreGeneratedSentenceRow[]>(
+      `SELECT * FROM pre_generated_sentences
+       WHERE user_id = ? AND (${conditions})
+       ORDER BY generation_timestamp DESC`,
+      [userId, ...characters]
+    );
+
+    return rows.map(rowToSentence);
+  }
+
+  /**
+   * Find every sentence of a user that uses a word, through the sentence_words index
+   */
+  static async findByWord(userId: number, word: string): Promise<PreGeneratedSentence[]> {
+    const pool = getPool();
+
+    const [rows] = await pool.query<PreGeneratedSentenceRow[]>(
+      `SELECT s.* FROM sentence_words sw
+       JOIN pre_generated_sentences s ON s.id = sw.sentence_id
+       WHERE sw.user_id = ? AND sw.word = ?`,
+      [userId, word]
+    );
+
+    return rows.map(rowToSentence);
+  }
+
+  /**
+   * Replace the pinyin of a sentence
+   */
+  static async updatePinyin(id: string, pinyin: string): Promise<void> {
+    const pool = getPool();
+    await pool.query('UPDATE pre_generated_sentences SET pinyin = ? WHERE id = ?', [pinyin, id]);
+  }
+
+  /**
+   * Find example sentences for a word through the sentence_words index
+   * Sentences with the fewest other new words come first, then the shortest. A word counts as new when
+   * the user has no entry for it in the word's chapter or an earlier one.
+   * @param chapter - Chapter of the word the examples are for
+   */
+  static async findExamples(userId: number, word: string, chapter: number, limit: number): Promise<ExampleSentence[]> {
+    const pool = getPool();
+
+    const [rows] = await pool.query<(PreGeneratedSentenceRow & { new_word_count: number })[]>(
+      `SELECT s.*,
+         (SELECT COUNT(*) FROM sentence_words other
+          WHERE other.sentence_id = s.id AND other.word <> sw.word
+            AND NOT EXISTS (
+              SELECT 1 FROM vocabulary_entries ve
+              WHERE ve.user_id = s.user_id AND ve.chinese_character = other.word
+                AND ve.chapter <= ? AND ve.deleted_at IS NULL
+            )) AS new_word_count
+       FROM sentence_words sw
+       JOIN pre_generated_sentences s ON s.id = sw.sentence_id
+       WHERE sw.user_id = ? AND sw.word = ?
+       ORDER BY new_word_count ASC, CHAR_LENGTH(s.chinese_text) ASC, s.id ASC
+       LIMIT ?`,
+      [chapter, userId, word, limit]
+    );
+
+    return rows.map(row => ({ ...rowToSentence(row), newWordCount: Number(row.new_word_count) }));
+  }
+}
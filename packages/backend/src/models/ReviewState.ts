@@ -0,0 +1,276 @@
+/**
+ * ReviewState Model
+ *
+ * TypeScript interfaces and data access layer for spaced-repetition review state.
+ * One row per (learner, vocabulary entry, flashcard mode), so each mode keeps its own schedule.
+ * The learner is not necessarily the owner of the entry: children study their parent's words.
+ */
+
+import { getPool } from '../config/database';
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+
+/**
+ * Self-assessed review grade, from worst to best recall
+ */
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+/**
+ * Complete review state interface matching database schema
+ */
+export interface ReviewState {
+  userId: number;
+  vocabularyId: string;
+  mode: string;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: Date;
+  lastGrade?: ReviewGrade;
+  lastReviewedAt?: Date;
+}
+
+/**
+ * A word the learner keeps failing, with its worst lapse count across modes
+ */
+export interface Leech {
+  vocabularyId: string;
+  chineseCharacter: string;
+  pinyin: string;
+  englishMeaning?: string;
+  modernVietnamese?: string;
+  chapter: number;
+  isFavorite: boolean;
+  lapses: number;
+  modes: string[];
+  lastReviewedAt?: Date;
+}
+
+/**
+ * Database row interface for type-safe queries
+ */
+interface ReviewStateRow extends RowDataPacket {
+  user_id: number;
+  vocabulary_id: string;
+  mode: string;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: Date;
+  last_grade: ReviewGrade | null;
+  last_reviewed_at: Date | null;
+}
+
+/**
+ * Database row interface for leech report queries
+ */
+interface LeechRow extends RowDataPacket {
+  vocabulary_id: string;
+  chinese_character: string;
+  pinyin: string;
+  english_meaning: string | null;
+  modern_vietnamese: string | null;
+  chapter: number;
+  is_favorite: number;
+  lapses: number;
+  modes: string;
+  last_reviewed_at: Date | null;
+}
+
+/**
+ * Convert database row to ReviewState interface
+ */
+function rowToReviewState(row: ReviewStateRow): ReviewState {
+  return {
+    userId: row.user_id,
+    vocabularyId: row.vocabulary_id,
+    mode: row.mode,
+    easeFactor: Number(row.ease_factor),
+    intervalDays: row.interval_days,
+    repetitions: row.repetitions,
+    lapses: row.lapses,
+    dueAt: row.due_at,
+    lastGrade: row.last_grade || undefined,
+    lastReviewedAt: row.last_reviewed_at || undefined
+  };
+}
+
+/**
+ * Data Access Layer for ReviewState
+ */
+export class ReviewStateDAO {
+  /**
+   * Find the review state of one vocabulary entry in one mode
+   */
+  static async find(userId: number, vocabularyId: string, mode: string): Promise<ReviewState | null> {
+    const pool = getPool();
+
+    const [rows] = await pool.query<ReviewStateRow[]>(
+      `SELECT * FROM review_states WHERE user_id = ? AND vocabulary_id = ? AND mode = ?`,
+      [userId, vocabularyId, mode]
+    );
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    return rowToReviewState(rows[0]);
+  }
+
+  /**
+   * Find review states for a set of vocabulary entries in one mode
+   */
+  static async findByVocabularyIds(userId: number, mode: string, vocabularyIds: string[]): Promise<ReviewState[]> {
+    if (vocabularyIds.length === 0) {
+      return [];
+    }
+
+    const pool = getPool();
+
+    const [rows] = await pool.query<ReviewStateRow[]>(
+      `SELECT * FROM review_states
+       WHERE user_id = ? AND mode = ? AND vocabulary_id IN (?)
+       ORDER BY due_at ASC`,
+      [userId, mode, vocabularyIds]
+    );
+
+    return rows.map(rowToReviewState);
+  }
+
+  /**
+   * Count words seen for the first time in one mode since a point in time
+   * (a review state is created when a word is graded for the first time)
+   */
+  static async countCreatedSince(userId: number, mode: string, since: Date): Promise<number> {
+    const pool = getPool();
+
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT COUNT(*) AS count FROM review_states
+       WHERE user_id = ? AND mode = ? AND created_at >= ?`,
+      [userId, mode, since]
+    );
+
+    return Number(rows[0].count);
+  }
+
+  /**
+   * Find words a learner lapsed on at least `minLapses` times in any mode, worst first
+   * The words may belong to someone else's vocabulary (a child studying their parent's words).
+   * @param userId - Learner user ID
+   * @param minLapses - Lapse count from which a word is a leech
+   */
+  static async findLeeches(userId: number, minLapses: number): Promise<Leech[]> {
+    const pool = getPool();
+
+    const [rows] = await pool.query<LeechRow[]>(
+      `SELECT r.vocabulary_id, v.chinese_character, v.pinyin, v.english_meaning, v.modern_vietnamese,
+              v.chapter, v.is_favorite, MAX(r.lapses) AS lapses,
+              GROUP_CONCAT(r.mode ORDER BY r.mode SEPARATOR ',') AS modes,
+              MAX(r.last_reviewed_at) AS last_reviewed_at
+       FROM review_states r
+       JOIN vocabulary_entries v ON v.id = r.vocabulary_id
+       WHERE r.user_id = ? AND r.lapses >= ? AND v.deleted_at IS NULL
+       GROUP BY r.vocabulary_id, v.chinese_character, v.pinyin, v.english_meaning,
+                v.modern_vietnamese, v.chapter, v.is_favorite
+       ORDER BY lapses DESC, v.chapter ASC`,
+      [userId, minLapses]
+    );
+
+    return rows.map(row => ({
+      vocabularyId: row.vocabulary_id,
+      chineseCharacter: row.chinese_character,
+      pinyin: row.pinyin,
+      englishMeaning: row.english_meaning || undefined,
+      modernVietnamese: row.modern_vietnamese || undefined,
+      chapter: row.chapter,
+      isFavorite: row.is_favorite === 1,
+      lapses: row.lapses,
+      modes: row.modes.split(','),
+      lastReviewedAt: row.last_reviewed_at || undefined
+    }));
+  }
+
+  /**
+   * Insert or replace the review state of one vocabulary entry in one mode
+   */
+  static async save(state: ReviewState): Promise<ReviewState> {
+    const pool = getPool();
+
+    await pool.query<ResultSetHeader>(
+      `INSERT INTO review_states
+       (user_id, vocabulary_id, mode, ease_factor, interval_days, repetitions, lapses,
+        due_at, last_grade, last_reviewed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE
+        ease_factor = VALUES(ease_factor),
+        interval_days = VALUES(interval_days),
+        repetitions = VALUES(repetitions),
+        lapses = VALUES(lapses),
+        due_at = VALUES(due_at),
+        last_grade = VALUES(last_grade),
+        last_reviewed_at = VALUES(last_reviewed_at),
+        updated_at = CURRENT_TIMESTAMP`,
+      [
+        state.userId,
+        state.vocabularyId,
+        state.mode,
+        state.easeFactor,
+        state.intervalDays,
+        state.repetitions,
+        state.lapses,
+        state.dueAt,
+        state.lastGrade || null,
+        state.lastReviewedAt || null
+      ]
+    );
+
+    return state;
+  }
+
+  /**
+   * Move the review states of merged vocabulary entries to the entry that was kept
+   * Where a learner already has a state for the kept entry in a mode, that state wins.
+   * @param fromIds - IDs of the entries that are removed
+   * @param toId - ID of the kept entry
+   */
+  static async moveToVocabulary(fromIds: string[], toId: string): Promise<void> {
+    if (fromIds.length === 0) {
+      return;
+    }
+
+    const pool = getPool();
+    await pool.query<ResultSetHeader>(
+      'UPDATE IGNORE review_states SET vocabulary_id = ? WHERE vocabulary_id IN (?)',
+      [toId, fromIds]
+    );
+    await pool.query<ResultSetHeader>(
+      'DELETE FROM review_states WHERE vocabulary_id IN (?)',
+      [fromIds]
+    );
+  }
+
+  /**
+   * Remove the review states of purged entries, for every learner
+   */
+  static async deleteForVocabulary(vocabularyIds: string[]): Promise<void> {
+    if (vocabularyIds.length === 0) {
+      return;
+    }
+
+    const pool = getPool();
+    await pool.query<ResultSetHeader>('DELETE FROM review_states WHERE vocabulary_id IN (?)', [vocabularyIds]);
+  }
+
+  /**
+   * Remove the review states of every entry owned by a user, for every learner
+   * Runs before the entries themselves are deleted.
+   */
+  static async deleteAllForUser(userId: number): Promise<void> {
+    const pool = getPool();
+    await pool.query<ResultSetHeader>(
+      'DELETE r FROM review_states r JOIN vocabulary_entries v ON v.id = r.vocabulary_id WHERE v.user_id = ?',
+      [userId]
+    );
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * SentenceWord Model
+ *
+ * Links each pre-generated sentence to the vocabulary words it uses (its used_characters), so the
+ * example sentences of a word can be found without scanning the JSON column of every sentence.
+ * One row per (sentence, distinct word).
+ */
+
+import mysql from 'mysql2/promise';
+import { getPool } from '../config/database';
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { MAX_CHINESE_CHARACTER_LENGTH } from './VocabularyEntry';
+
+/**
+ * Sentence whose words have been indexed or still need to be
+ */
+export interface IndexableSentence {
+  id: string;
+  userId: number;
+  usedCharacters: string[];
+}
+
+/**
+ * Distinct words of a sentence that fit the index
+ */
+function indexableWords(usedCharacters: string[]): string[] {
+  const words = usedCharacters
+    .map(word => (typeof word === 'string' ? word.trim() : ''))
+    .filter(word => word && Array.from(word).length <= MAX_CHINESE_CHARACTER_LENGTH);
+  return Array.from(new Set(words));
+}
+
+/**
+ * Data Access Layer for the sentence-to-word links
+ */
+export class SentenceWordDAO {
+  /**
+   * Link sentences to the words they use
+   * @param connection - Optional connection, to take part in the caller's transaction
+   */
+  static async index(sentences: IndexableSentence[], connection?: mysql.PoolConnection): Promise<void> {
+    const rows = sentences.flatMap(sentence =>
+      indexableWords(sentence.usedCharacters).map(word => [sentence.id, sentence.userId, word]));
+    if (rows.length === 0) {
+      return;
+    }
+
+    const conn = connection || getPool();
+    await conn.query<ResultSetHeader>('INSERT IGNORE INTO sentence_words (sentence_id, user_id, word) VALUES ?', [rows]);
+  }
+
+  /**
+   * Remove the links of a vocab group's sentences, before the sentences are replaced
+   */
+  static async unindexGroup(vocabGroupId: number, userId: number, connection?: mysql.PoolConnection): Promise<void> {
+    const conn = connection || getPool();
+    await conn.query<ResultSetHeader>(
+      `DELETE sw FROM sentence_words sw
+       JOIN pre_generated_sentences s ON s.id = sw.sentence_id
+       WHERE s.vocab_group_id = ? AND s.user_id = ?`,
+      [vocabGroupId, userId]
+    );
+  }
+
+  /**
+   * Sentences without word links (generated before the links existed)
+   */
+  static async findUnindexed(): Promise<IndexableSentence[]> {
+    const pool = getPool();
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT s.id, s.user_id, s.used_characters
+       FROM pre_generated_sentences s
+       LEFT JOIN sentence_words sw ON sw.sentence_id = s.id
+       WHERE sw.sentence_id IS NULL`
+    );
+
+    return rows.map(row => ({
+      id: row.id as string,
+      userId: row.user_id as number,
+      // MySQL2 automatically parses JSON columns, so check if it's already an array
+      usedCharacters: typeof row.used_characters === 'string' ? JSON.parse(row.used_characters) : row.used_characters
+    }));
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * Tag Model
+ *
+ * Free-form tags on vocabulary entries ("food", "HSK2", "measure words", "exam week 3"), next to the
+ * chapter and chapter label. Tags belong to the owner of the vocabulary and are linked to entries
+ * many-to-many through vocabulary_tags. Names are unique per user, ignoring case.
+ */
+
+import { getPool } from '../config/database';
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+
+/**
+ * Complete tag interface matching database schema
+ */
+export interface Tag {
+  id: number;
+  userId: number;
+  name: string;
+  entryCount: number; // entries carrying the tag, not counting the trash
+  createdAt: Date;
+}
+
+/**
+ * Database row interface for type-safe queries
+ */
+interface TagRow extends RowDataPacket {
+  id: number;
+  user_id: number;
+  name: string;
+  entry_count: number | string;
+  created_at: Date;
+}
+
+/**
+ * Convert database row to Tag interface
+ */
+function rowToTag(row: TagRow): Tag {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    entryCount: Number(row.entry_count),
+    createdAt: row.created_at
+  };
+}
+
+const SELECT_TAG = `SELECT t.*, COUNT(ve.id) AS entry_count
+  FROM tags t
+  LEFT JOIN vocabulary_tags vt ON vt.tag_id = t.id
+  LEFT JOIN vocabulary_entries ve ON ve.id = vt.vocabulary_id AND ve.deleted_at IS NULL`;
+
+/**
+ * Data Access Layer for Tag
+ */
+export class TagDAO {
+  /**
+   * Find the tags of a user, alphabetically
+   */
+  static async findByUserId(userId: number): Promise<Tag[]> {
+    const pool = getPool();
+
+    const [rows] = await pool.query<TagRow[]>(
+      `${SELECT_TAG} WHERE t.user_id = ? GROUP BY t.id ORDER BY t.name ASC`,
+      [userId]
+    );
+
+    return rows.map(rowToTag);
+  }
+
+  /**
+   * Find a tag by ID with user isolation
+   */
+  static async findById(userId: number, id: number): Promise<Tag | null> {
+    const pool = getPool();
+
+    const [rows] = await pool.query<TagRow[]>(
+      `${SELECT_TAG} WHERE t.id = ? AND t.user_id = ? GROUP BY t.id`,
+      [id, userId]
+    );
+
+    return rows.length > 0 ? rowToTag(rows[0]) : null;
+  }
+
+  /**
+   * Find a tag by name (ignoring case) with user isolation
+   */
+  static async findByName(userId: number, name: string): Promise<Tag | null> {
+    const pool = getPool();
+
+    const [rows] = await pool.query<TagRow[]>(
+      `${SELECT_TAG} WHERE t.user_id = ? AND t.name = ? GROUP BY t.id`,
+      [userId, name]
+    );
+
+    return rows.length > 0 ? rowToTag(rows[0]) : null;
+  }
+
+  /**
+   * Create a tag
+   * @throws Error when the user already has a tag with this name
+   */
+  static async create(userId: number, name: string): Promise<Tag> {
+    const pool = getPool();
+
+    try {
+      const [result] = await pool.query<ResultSetHeader>(
+        'INSERT INTO tags (user_id, name) VALUES (?, ?)',
+        [userId, name]
+      );
+      const created = await this.findById(userId, result.insertId);
+      if (!created) {
+        throw new Error('Failed to create tag');
+      }
+      return created;
+    } catch (error: any) {
+      if (error.code === 'ER_DUP_ENTRY') {
+        throw new Error(`Tag "${name}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find the tags with the given names, creating the missing ones
+   * @returns IDs of the tags
+   */
+  static async ensure(userId: number, names: string[]): Promise<number[]> {
+    if (names.length === 0) {
+      return [];
+    }
+
+    const pool = getPool();
+    await pool.query<ResultSetHeader>(
+      'INSERT IGNORE INTO tags (user_id, name) VALUES ?',
+      [names.map(name => [userId, name])]
+    );
+
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT id FROM tags WHERE user_id = ? AND name IN (?)',
+      [userId, names]
+    );
+    return rows.map(row => row.id as number);
+  }
+
+  /**
+   * Rename a tag
+   * @returns False when the tag does not exist
+   * @throws Error when the user already has a tag with the new name
+   */
+  static async rename(userId: number, id: number, name: string): Promise<boolean> {
+    const pool = getPool();
+
+    try {
+      const [result] = await pool.query<ResultSetHeader>(
+        'UPDATE tags SET name = ? WHERE id = ? AND user_id = ?',
+        [name, id, userId]
+      );
+      return result.affectedRows > 0;
+    } catch (error: any) {
+      if (error.code === 'ER_DUP_ENTRY') {
+        throw new Error(`Tag "${name}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a tag and remove it from every entry
+   */
+  static async delete(userId: number, id: number): Promise<boolean> {
+    const pool = getPool();
+
+    const [result] = await pool.query<ResultSetHeader>(
+      'DELETE FROM tags WHERE id = ? AND user_id = ?',
+      [id, userId]
+    );
+    if (result.affectedRows === 0) {
+      return false;
+    }
+
+    await pool.query<ResultSetHeader>('DELETE FROM vocabulary_tags WHERE tag_id = ?', [id]);
+    return true;
+  }
+
+  /**
+   * Add tags to entries; tags an entry already carries are left as they are
+   */
+  static async addToEntries(tagIds: number[], vocabularyIds: string[]): Promise<void> {
+    if (tagIds.length === 0 || vocabularyIds.length === 0) {
+      return;
+    }
+
+    const pool = getPool();
+    await pool.query<ResultSetHeader>(
+      'INSERT IGNORE INTO vocabulary_tags (vocabulary_id, tag_id) VALUES ?',
+      [vocabularyIds.flatMap(vocabularyId => tagIds.map(tagId => [vocabularyId, tagId]))]
+    );
+  }
+
+  /**
+   * Remove tags from entries
+   */
+  static async removeFromEntries(tagIds: number[], vocabularyIds: string[]): Promise<void> {
+    if (tagIds.length === 0 || vocabularyIds.length === 0) {
+      return;
+    }
+
+    const pool = getPool();
+    await pool.query<ResultSetHeader>(
+      'DELETE FROM vocabulary_tags WHERE tag_id IN (?) AND vocabulary_id IN (?)',
+      [tagIds, vocabularyIds]
+    );
+  }
+
+  /**
+   * Replace the tags of an entry
+   */
+  static async setForEntry(vocabularyId: string, tagIds: number[]): Promise<void> {
+    const pool = getPool();
+    await pool.query<ResultSetHeader>('DELETE FROM vocabulary_tags WHERE vocabulary_id = ?', [vocabularyId]);
+    await this.addToEntries(tagIds, [vocabularyId]);
+  }
+
+  /**
+   * Tag names of entries, alphabetically
+   * @returns Tag names per entry ID; entries without tags are left out
+   */
+  static async findNamesByVocabularyIds(vocabularyIds: string[]): Promise<Record<string, string[]>> {
+    if (vocabularyIds.length === 0) {
+      return {};
+    }
+
+    const pool = getPool();
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT vt.vocabulary_id, t.name
+       FROM vocabulary_tags vt
+       JOIN tags t ON t.id = vt.tag_id
+       WHERE vt.vocabulary_id IN (?)
+       ORDER BY t.name ASC`,
+      [vocabularyIds]
+    );
+
+    const names: Record<string, string[]> = {};
+    for (const row of rows) {
+      (names[row.vocabulary_id] = names[row.vocabulary_id] || []).push(row.name);
+    }
+    return names;
+  }
+
+  /**
+   * Remove the tags of purged entries
+   */
+  static async unlink(vocabularyIds: string[]): Promise<void> {
+    if (vocabularyIds.length === 0) {
+      return;
+    }
+
+    const pool = getPool();
+    await pool.query<ResultSetHeader>('DELETE FROM vocabulary_tags WHERE vocabulary_id IN (?)', [vocabularyIds]);
+  }
+
+  /**
+   * Delete all tags of a user and their links
+   */
+  static async deleteAllForUser(userId: number): Promise<void> {
+    const pool = getPool();
+    await pool.query<ResultSetHeader>(
+      'DELETE vt FROM vocabulary_tags vt JOIN tags t ON t.id = vt.tag_id WHERE t.user_id = ?',
+      [userId]
+    );
+    await pool.query<ResultSetHeader>('DELETE FROM tags WHERE user_id = ?', [userId]);
+  }
+}
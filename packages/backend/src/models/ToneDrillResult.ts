@@ -0,0 +1,68 @@
+/**
+ * ToneDrillResult Model
+ *
+ * TypeScript interfaces and data access layer for tone drill results.
+ * Answers are counted per learner, expected tone pair and answered tone pair ("3-3" answered as "2-3"),
+ * so both the accuracy and the typical confusions of each tone pair can be reported.
+ */
+
+import { getPool } from '../config/database';
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+
+/**
+ * How often a learner answered an expected tone pair with a given tone pair
+ */
+export interface ToneDrillResult {
+  userId: number;
+  expectedTones: string; // e.g. "3-3", or "3" for a one-syllable word
+  answeredTones: string;
+  count: number;
+}
+
+/**
+ * Database row interface for type-safe queries
+ */
+interface ToneDrillResultRow extends RowDataPacket {
+  user_id: number;
+  expected_tones: string;
+  answered_tones: string;
+  count: number;
+}
+
+/**
+ * Data Access Layer for ToneDrillResult
+ */
+export class ToneDrillResultDAO {
+  /**
+   * Count one answer for a tone pair
+   */
+  static async record(userId: number, expectedTones: string, answeredTones: string): Promise<void> {
+    const pool = getPool();
+
+    await pool.query<ResultSetHeader>(
+      `INSERT INTO tone_drill_results (user_id, expected_tones, answered_tones, count)
+       VALUES (?, ?, ?, 1)
+       ON DUPLICATE KEY UPDATE count = count + 1`,
+      [userId, expectedTones, answeredTones]
+    );
+  }
+
+  /**
+   * Find all results of a learner
+   */
+  static async findByUserId(userId: number): Promise<ToneDrillResult[]> {
+    const pool = getPool();
+
+    const [rows] = await pool.query<ToneDrillResultRow[]>(
+      `SELECT * FROM tone_drill_results WHERE user_id = ? ORDER BY expected_tones ASC, count DESC`,
+      [userId]
+    );
+
+    return rows.map(row => ({
+      userId: row.user_id,
+      expectedTones: row.expected_tones,
+      answeredTones: row.answered_tones,
+      count: row.count
+    }));
+  }
+}
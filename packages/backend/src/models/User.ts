@@ -34,6 +34,7 @@ export interface User {
   secretPhraseHash: string;
   role: UserRole;
   parentId: number | null;
+  dailyNewLimit: number | null; // new words per day in today's session, null for the default
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -47,6 +48,7 @@ export interface UserResponse {
   username: string;
   role: UserRole;
   parentId: number | null;
+  dailyNewLimit: number | null;
   isActive: boolean;
   createdAt: Date;
 }
@@ -70,6 +72,7 @@ interface UserRow extends RowDataPacket {
   secret_phrase_hash: string;
   role: UserRole;
   parent_id: number | null;
+  daily_new_limit: number | null;
   is_active: number;
   created_at: Date;
   updated_at: Date;
@@ -85,6 +88,7 @@ function rowToUser(row: UserRow): User {
     secretPhraseHash: row.secret_phrase_hash,
     role: row.role,
     parentId: row.parent_id,
+    dailyNewLimit: row.daily_new_limit ?? null,
     isActive: row.is_active === 1,
     createdAt: row.created_at,
     updatedAt: row.updated_at
@@ -100,6 +104,7 @@ function userToResponse(user: User): UserResponse {
     username: user.username,
     role: user.role,
     parentId: user.parentId,
+    dailyNewLimit: user.dailyNewLimit,
     isActive: user.isActive,
     createdAt: user.createdAt
   };
@@ -281,6 +286,23 @@ export class UserDAO {
     return this.findById(id);
   }
 
+  /**
+   * Set the daily new-word limit of a user
+   * @param id - User ID
+   * @param dailyNewLimit - New words per day, or null for the default limit
+   * @returns True if updated, false if not found
+   */
+  static async setDailyNewLimit(id: number, dailyNewLimit: number | null): Promise<boolean> {
+    const pool = getPool();
+    
+    const [result] = await pool.query<ResultSetHeader>(
+      `UPDATE auth_users SET daily_new_limit = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      [dailyNewLimit, id]
+    );
+
+    return result.affectedRows > 0;
+  }
+
   /**
    * Deactivate user (soft delete)
    * @param id - User ID
@@ -0,0 +1,116 @@
+/**
+ * VocabularyCharacter Model
+ *
+ * Links each vocabulary entry to the Chinese characters it is written with, so the words, chengyu and
+ * patterns (e.g. 越。。。越) containing a character can be found without scanning every entry.
+ * One row per (entry, distinct character); the position is the character's first occurrence.
+ */
+
+import { getPool } from '../config/database';
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+
+/**
+ * Entry whose characters have not been linked yet
+ */
+export interface UnlinkedEntry {
+  id: string;
+  userId: number;
+  chineseCharacter: string;
+}
+
+const HAN_CHARACTER = /\p{Script=Han}/u;
+
+/**
+ * Distinct Chinese characters of a word or pattern, in order of first occurrence
+ * Placeholders, punctuation and Latin letters are left out.
+ */
+export function componentCharacters(text: string): string[] {
+  const characters: string[] = [];
+  for (const char of Array.from(text)) {
+    if (HAN_CHARACTER.test(char) && !characters.includes(char)) {
+      characters.push(char);
+    }
+  }
+  return characters;
+}
+
+/**
+ * Data Access Layer for the entry-to-character links
+ */
+export class VocabularyCharacterDAO {
+  /**
+   * Replace the character links of an entry
+   * @param userId - Owner user ID
+   * @param vocabularyId - Entry ID
+   * @param chineseCharacter - The entry's written form
+   */
+  static async link(userId: number, vocabularyId: string, chineseCharacter: string): Promise<void> {
+    const pool = getPool();
+    await pool.query<ResultSetHeader>('DELETE FROM vocabulary_characters WHERE vocabulary_id = ?', [vocabularyId]);
+
+    const characters = componentCharacters(chineseCharacter);
+    if (characters.length === 0) {
+      return;
+    }
+
+    await pool.query<ResultSetHeader>(
+      'INSERT INTO vocabulary_characters (vocabulary_id, user_id, hanzi, position) VALUES ?',
+      [characters.map((hanzi, position) => [vocabularyId, userId, hanzi, position])]
+    );
+  }
+
+  /**
+   * Remove the character links of deleted entries
+   */
+  static async unlink(vocabularyIds: string[]): Promise<void> {
+    if (vocabularyIds.length === 0) {
+      return;
+    }
+
+    const pool = getPool();
+    await pool.query<ResultSetHeader>('DELETE FROM vocabulary_characters WHERE vocabulary_id IN (?)', [vocabularyIds]);
+  }
+
+  /**
+   * Remove all character links of a user
+   */
+  static async unlinkAllForUser(userId: number): Promise<void> {
+    const pool = getPool();
+    await pool.query<ResultSetHeader>('DELETE FROM vocabulary_characters WHERE user_id = ?', [userId]);
+  }
+
+  /**
+   * Distinct characters written in a user's vocabulary
+   */
+  static async findCharacters(userId: number): Promise<string[]> {
+    const pool = getPool();
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT DISTINCT vc.hanzi FROM vocabulary_characters vc
+       JOIN vocabulary_entries ve ON ve.id = vc.vocabulary_id
+       WHERE vc.user_id = ? AND ve.deleted_at IS NULL`,
+      [userId]
+    );
+
+    return rows.map(row => row.hanzi as string);
+  }
+
+  /**
+   * Entries without character links (created before the links existed, or restored from a backup)
+   * Entries without any Chinese character are returned too, they have nothing to link.
+   */
+  static async findUnlinked(): Promise<UnlinkedEntry[]> {
+    const pool = getPool();
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT ve.id, ve.user_id, ve.chinese_character
+       FROM vocabulary_entries ve
+       LEFT JOIN vocabulary_characters vc ON vc.vocabulary_id = ve.id
+       WHERE vc.vocabulary_id IS NULL`
+    );
+
+    return rows.map(row => ({
+      id: row.id as string,
+      userId: row.user_id as number,
+      chineseCharacter: row.chinese_character as string
+    }));
+  }
+}
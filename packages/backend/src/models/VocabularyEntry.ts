@@ -8,6 +8,11 @@
 import { getPool } from '../config/database';
 import { v4 as uuidv4 } from 'uuid';
 import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { VocabularyCharacterDAO } from './VocabularyCharacter';
+import { VocabularyRevisionDAO, RevisionAction } from './VocabularyRevision';
+import { TagDAO } from './Tag';
+import { ReviewStateDAO } from './ReviewState';
+import { FlashcardSessionDAO } from './FlashcardSession';
 
 /**
  * Input interface for creating or updating vocabulary entries
@@ -37,6 +42,8 @@ export interface VocabularyEntry extends VocabularyInput {
   createdAt: Date;
   updatedAt: Date;
   sharedFrom?: string;
+  deletedAt?: Date;  // set while the entry is in the trash
+  tags?: string[];   // tag names, filled in where lists show them
 }
 
 /**
@@ -58,6 +65,7 @@ interface VocabularyEntryRow extends RowDataPacket {
   created_at: Date;
   updated_at: Date;
   shared_from: string | null;
+  deleted_at: Date | null;
 }
 
 /**
@@ -79,13 +87,21 @@ function rowToEntry(row: VocabularyEntryRow): VocabularyEntry {
     chapterLabel: row.chapter_label || undefined,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
-    sharedFrom: row.shared_from || undefined
+    sharedFrom: row.shared_from || undefined,
+    deletedAt: row.deleted_at || undefined
   };
 }
 
+// vocabulary_entries.chinese_character is VARCHAR(64): words, chengyu and patterns like 越。。。越
+export const MAX_CHINESE_CHARACTER_LENGTH = 64;
+
 /**
  * Data Access Layer for VocabularyEntry
  * All methods use userId (number) for user isolation.
+ * The component-character links (vocabulary_characters) follow creates, updates and deletes,
+ * and updates and deletes are recorded in the edit history (vocabulary_revisions).
+ * Deleting moves an entry to the trash (deleted_at is set); every query except the trash methods
+ * leaves trashed entries out, and only purging removes them for good.
  */
 export class VocabularyEntryDAO {
   /**
@@ -116,6 +132,7 @@ export class VocabularyEntryDAO {
         null
       ]
     );
+    await VocabularyCharacterDAO.link(userId, id, entry.chineseCharacter);
 
     const created = await this.findById(userId, id);
     if (!created) {
@@ -131,7 +148,7 @@ export class VocabularyEntryDAO {
     const pool = getPool();
     
     const [rows] = await pool.query<VocabularyEntryRow[]>(
-      `SELECT * FROM vocabulary_entries WHERE id = ? AND user_id = ?`,
+      `SELECT * FROM vocabulary_entries WHERE id = ? AND user_id = ? AND deleted_at IS NULL`,
       [id, userId]
     );
 
@@ -142,6 +159,78 @@ export class VocabularyEntryDAO {
     return rowToEntry(rows[0]);
   }
 
+  /**
+   * Find the entries of a user with the given Chinese characters, earliest chapter first
+   */
+  static async findByCharacter(userId: number, chineseCharacter: string): Promise<VocabularyEntry[]> {
+    const pool = getPool();
+
+    const [rows] = await pool.query<VocabularyEntryRow[]>(
+      `SELECT * FROM vocabulary_entries WHERE user_id = ? AND chinese_character = ? AND deleted_at IS NULL
+       ORDER BY chapter ASC, created_at ASC`,
+      [userId, chineseCharacter]
+    );
+
+    return rows.map(rowToEntry);
+  }
+
+  /**
+   * Find the multi-character words, chengyu and patterns of a user that contain a character,
+   * earliest chapter first
+   */
+  static async findContainingCharacter(userId: number, hanzi: string): Promise<VocabularyEntry[]> {
+    const pool = getPool();
+
+    const [rows] = await pool.query<VocabularyEntryRow[]>(
+      `SELECT ve.* FROM vocabulary_characters vc
+       JOIN vocabulary_entries ve ON ve.id = vc.vocabulary_id AND ve.user_id = vc.user_id
+       WHERE vc.user_id = ? AND vc.hanzi = ? AND CHAR_LENGTH(ve.chinese_character) > 1 AND ve.deleted_at IS NULL
+       ORDER BY ve.chapter ASC, ve.created_at ASC`,
+      [userId, hanzi]
+    );
+
+    return rows.map(rowToEntry);
+  }
+
+  /**
+   * Find the entries of a user written with any of the given characters, earliest chapter first
+   */
+  static async findContainingCharacters(userId: number, hanzi: string[]): Promise<VocabularyEntry[]> {
+    if (hanzi.length === 0) {
+      return [];
+    }
+
+    const pool = getPool();
+    const [rows] = await pool.query<VocabularyEntryRow[]>(
+      `SELECT DISTINCT ve.* FROM vocabulary_characters vc
+       JOIN vocabulary_entries ve ON ve.id = vc.vocabulary_id AND ve.user_id = vc.user_id
+       WHERE vc.user_id = ? AND vc.hanzi IN (?) AND ve.deleted_at IS NULL
+       ORDER BY ve.chapter ASC, ve.created_at ASC`,
+      [userId, hanzi]
+    );
+
+    return rows.map(rowToEntry);
+  }
+
+  /**
+   * Stored pinyin of a user's words; for a word entered more than once the earliest chapter's reading is used
+   */
+  static async findReadings(userId: number, chineseCharacters: string[]): Promise<Map<string, string>> {
+    if (chineseCharacters.length === 0) {
+      return new Map();
+    }
+
+    const pool = getPool();
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT chinese_character, pinyin FROM vocabulary_entries
+       WHERE user_id = ? AND chinese_character IN (?) AND deleted_at IS NULL
+       ORDER BY chapter DESC, created_at DESC`,
+      [userId, chineseCharacters]
+    );
+
+    return new Map(rows.map(row => [row.chinese_character as string, row.pinyin as string]));
+  }
+
   /**
    * Find all vocabulary entries for a user with optional chapter filtering
    */
@@ -151,7 +240,7 @@ export class VocabularyEntryDAO {
     chapterEnd?: number
   ): Promise<VocabularyEntry[]> {
     const pool = getPool();
-    let query = 'SELECT * FROM vocabulary_entries WHERE user_id = ?';
+    let query = 'SELECT * FROM vocabulary_entries WHERE user_id = ? AND deleted_at IS NULL';
     const params: any[] = [userId];
 
     if (chapterStart !== undefined && chapterEnd !== undefined) {
@@ -172,6 +261,43 @@ export class VocabularyEntryDAO {
     return rows.map(rowToEntry);
   }
 
+  /**
+   * Find a page of the entries of one or more users
+   * @param userIds - Owner user IDs (a child also sees the parent's words)
+   * @param clause - Extra conditions, each prefixed with " AND ", and their parameters
+   * @param orderBy - ORDER BY expression; only whitelisted columns may be passed
+   * @param limit - Maximum number of entries
+   */
+  static async findPage(
+    userIds: number[],
+    clause: { sql: string; params: unknown[] },
+    orderBy: string,
+    limit: number
+  ): Promise<VocabularyEntry[]> {
+    const pool = getPool();
+
+    const [rows] = await pool.query<VocabularyEntryRow[]>(
+      `SELECT * FROM vocabulary_entries WHERE user_id IN (?) AND deleted_at IS NULL${clause.sql} ORDER BY ${orderBy} LIMIT ?`,
+      [userIds, ...clause.params, limit]
+    );
+
+    return rows.map(rowToEntry);
+  }
+
+  /**
+   * Count the entries of one or more users matching extra conditions
+   */
+  static async count(userIds: number[], clause: { sql: string; params: unknown[] }): Promise<number> {
+    const pool = getPool();
+
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT COUNT(*) AS count FROM vocabulary_entries WHERE user_id IN (?) AND deleted_at IS NULL${clause.sql}`,
+      [userIds, ...clause.params]
+    );
+
+    return Number(rows[0].count);
+  }
+
   /**
    * @deprecated Use findByUserId instead. Kept for backward compatibility during migration.
    */
@@ -181,7 +307,7 @@ export class VocabularyEntryDAO {
     chapterEnd?: number
   ): Promise<VocabularyEntry[]> {
     const pool = getPool();
-    let query = 'SELECT * FROM vocabulary_entries WHERE username = ?';
+    let query = 'SELECT * FROM vocabulary_entries WHERE username = ? AND deleted_at IS NULL';
     const params: any[] = [username];
 
     if (chapterStart !== undefined && chapterEnd !== undefined) {
@@ -204,11 +330,15 @@ export class VocabularyEntryDAO {
 
   /**
    * Update a vocabulary entry with user isolation
+   * @param changedBy - User making the change, for the edit history
+   * @param action - How the change is recorded in the edit history
    */
   static async update(
     userId: number,
     id: string,
-    updates: Partial<VocabularyInput>
+    updates: Partial<VocabularyInput>,
+    changedBy: number | null = null,
+    action: RevisionAction = 'update'
   ): Promise<VocabularyEntry | null> {
     const pool = getPool();
     
@@ -256,33 +386,145 @@ export class VocabularyEntryDAO {
       return this.findById(userId, id);
     }
 
+    const before = await this.findById(userId, id);
+    if (!before) {
+      return null;
+    }
+
     updateFields.push('updated_at = CURRENT_TIMESTAMP');
     params.push(id, userId);
 
-    const query = `UPDATE vocabulary_entries SET ${updateFields.join(', ')} WHERE id = ? AND user_id = ?`;
+    const query = `UPDATE vocabulary_entries SET ${updateFields.join(', ')} WHERE id = ? AND user_id = ? AND deleted_at IS NULL`;
     const [result] = await pool.query<ResultSetHeader>(query, params);
 
     if (result.affectedRows === 0) {
       return null;
     }
 
-    return this.findById(userId, id);
+    if (updates.chineseCharacter !== undefined) {
+      await VocabularyCharacterDAO.link(userId, id, updates.chineseCharacter);
+    }
+
+    const after = await this.findById(userId, id);
+    if (after) {
+      await VocabularyRevisionDAO.record(before, after, action, changedBy);
+    }
+    return after;
   }
 
   /**
-   * Delete a vocabulary entry with user isolation
+   * Move a vocabulary entry to the trash with user isolation
+   * @param changedBy - User deleting the entry, for the edit history
    */
-  static async delete(userId: number, id: string): Promise<boolean> {
+  static async delete(userId: number, id: string, changedBy: number | null = null): Promise<boolean> {
     const pool = getPool();
-    
+
+    const entry = await this.findById(userId, id);
+    if (!entry) {
+      return false;
+    }
+
     const [result] = await pool.query<ResultSetHeader>(
-      `DELETE FROM vocabulary_entries WHERE id = ? AND user_id = ?`,
+      `UPDATE vocabulary_entries SET deleted_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ? AND deleted_at IS NULL`,
       [id, userId]
     );
 
+    if (result.affectedRows > 0) {
+      await VocabularyRevisionDAO.record(entry, entry, 'delete', changedBy);
+    }
+
     return result.affectedRows > 0;
   }
 
+  /**
+   * Find the entries in a user's trash, most recently deleted first
+   */
+  static async findDeleted(userId: number): Promise<VocabularyEntry[]> {
+    const pool = getPool();
+
+    const [rows] = await pool.query<VocabularyEntryRow[]>(
+      `SELECT * FROM vocabulary_entries WHERE user_id = ? AND deleted_at IS NOT NULL
+       ORDER BY deleted_at DESC, chapter ASC`,
+      [userId]
+    );
+
+    return rows.map(rowToEntry);
+  }
+
+  /**
+   * Take an entry out of the trash with user isolation
+   * @param changedBy - User restoring the entry, for the edit history
+   * @returns The restored entry, or null if it is not in the trash
+   */
+  static async restoreDeleted(userId: number, id: string, changedBy: number | null = null): Promise<VocabularyEntry | null> {
+    const pool = getPool();
+
+    const [result] = await pool.query<ResultSetHeader>(
+      `UPDATE vocabulary_entries SET deleted_at = NULL WHERE id = ? AND user_id = ? AND deleted_at IS NOT NULL`,
+      [id, userId]
+    );
+
+    if (result.affectedRows === 0) {
+      return null;
+    }
+
+    const entry = await this.findById(userId, id);
+    if (entry) {
+      await VocabularyRevisionDAO.record(entry, entry, 'undelete', changedBy);
+    }
+    return entry;
+  }
+
+  /**
+   * Remove entries from a user's trash for good, with their character links and history
+   * Entries that are not in the trash are left alone.
+   * @returns Number of entries purged
+   */
+  static async purge(userId: number, ids: string[]): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    const pool = getPool();
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT id FROM vocabulary_entries WHERE user_id = ? AND id IN (?) AND deleted_at IS NOT NULL`,
+      [userId, ids]
+    );
+    return this.purgeIds(rows.map(row => row.id as string));
+  }
+
+  /**
+   * Remove every entry that was moved to the trash before a point in time, for all users
+   * @returns Number of entries purged
+   */
+  static async purgeDeletedBefore(cutoff: Date): Promise<number> {
+    const pool = getPool();
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT id FROM vocabulary_entries WHERE deleted_at IS NOT NULL AND deleted_at < ?`,
+      [cutoff]
+    );
+    return this.purgeIds(rows.map(row => row.id as string));
+  }
+
+  private static async purgeIds(ids: string[]): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    const pool = getPool();
+    const [result] = await pool.query<ResultSetHeader>(
+      `DELETE FROM vocabulary_entries WHERE id IN (?) AND deleted_at IS NOT NULL`,
+      [ids]
+    );
+    await VocabularyCharacterDAO.unlink(ids);
+    await VocabularyRevisionDAO.deleteForVocabulary(ids);
+    await TagDAO.unlink(ids);
+    await ReviewStateDAO.deleteForVocabulary(ids);
+    await FlashcardSessionDAO.deleteForVocabulary(ids);
+
+    return result.affectedRows;
+  }
+
   /**
    * Get all unique chapters for a user
    */
@@ -290,7 +532,7 @@ export class VocabularyEntryDAO {
     const pool = getPool();
     
     const [rows] = await pool.query<RowDataPacket[]>(
-      `SELECT DISTINCT chapter FROM vocabulary_entries WHERE user_id = ? ORDER BY chapter ASC`,
+      `SELECT DISTINCT chapter FROM vocabulary_entries WHERE user_id = ? AND deleted_at IS NULL ORDER BY chapter ASC`,
       [userId]
     );
 
@@ -304,7 +546,7 @@ export class VocabularyEntryDAO {
     const pool = getPool();
     
     const [rows] = await pool.query<RowDataPacket[]>(
-      `SELECT COUNT(*) as count FROM vocabulary_entries WHERE user_id = ? AND chapter = ?`,
+      `SELECT COUNT(*) as count FROM vocabulary_entries WHERE user_id = ? AND chapter = ? AND deleted_at IS NULL`,
       [userId, chapter]
     );
 
@@ -339,6 +581,7 @@ export class VocabularyEntryDAO {
         sharedFrom
       ]
     );
+    await VocabularyCharacterDAO.link(userId, id, entry.chineseCharacter);
 
     const created = await this.findById(userId, id);
     if (!created) {
@@ -354,7 +597,7 @@ export class VocabularyEntryDAO {
     const pool = getPool();
     
     const [rows] = await pool.query<RowDataPacket[]>(
-      `SELECT DISTINCT username FROM vocabulary_entries WHERE chapter = ? ORDER BY username ASC`,
+      `SELECT DISTINCT username FROM vocabulary_entries WHERE chapter = ? AND deleted_at IS NULL ORDER BY username ASC`,
       [chapter]
     );
 
@@ -363,12 +606,14 @@ export class VocabularyEntryDAO {
 
   /**
    * Toggle favorite status for a vocabulary entry
+   * Duplicates of the word all get the flipped status of the earliest one.
    */
   static async toggleFavorite(userId: number, chineseCharacter: string): Promise<VocabularyEntry | null> {
     const pool = getPool();
     
     const [rows] = await pool.query<VocabularyEntryRow[]>(
-      `SELECT * FROM vocabulary_entries WHERE user_id = ? AND chinese_character = ? LIMIT 1`,
+      `SELECT * FROM vocabulary_entries WHERE user_id = ? AND chinese_character = ? AND deleted_at IS NULL
+       ORDER BY chapter ASC, created_at ASC LIMIT 1`,
       [userId, chineseCharacter]
     );
 
@@ -381,13 +626,29 @@ export class VocabularyEntryDAO {
 
     await pool.query<ResultSetHeader>(
       `UPDATE vocabulary_entries SET is_favorite = ?, updated_at = CURRENT_TIMESTAMP 
-       WHERE user_id = ? AND chinese_character = ?`,
+       WHERE user_id = ? AND chinese_character = ? AND deleted_at IS NULL`,
       [newFavoriteStatus ? 1 : 0, userId, chineseCharacter]
     );
 
     return this.findById(userId, currentEntry.id);
   }
 
+  /**
+   * Set favorite status for a vocabulary entry by ID
+   * @returns True if the entry exists
+   */
+  static async setFavorite(userId: number, id: string, isFavorite: boolean): Promise<boolean> {
+    const pool = getPool();
+
+    const [result] = await pool.query<ResultSetHeader>(
+      `UPDATE vocabulary_entries SET is_favorite = ?, updated_at = CURRENT_TIMESTAMP 
+       WHERE user_id = ? AND id = ? AND deleted_at IS NULL`,
+      [isFavorite ? 1 : 0, userId, id]
+    );
+
+    return result.affectedRows > 0;
+  }
+
   /**
    * Get a random favorite vocabulary entry for a user
    */
@@ -395,7 +656,7 @@ export class VocabularyEntryDAO {
     const pool = getPool();
 
     const [rows] = await pool.query<VocabularyEntryRow[]>(
-      `SELECT * FROM vocabulary_entries WHERE user_id = ? AND is_favorite = 1 ORDER BY RAND() LIMIT 1`,
+      `SELECT * FROM vocabulary_entries WHERE user_id = ? AND is_favorite = 1 AND deleted_at IS NULL ORDER BY RAND() LIMIT 1`,
       [userId]
     );
 
@@ -409,7 +670,7 @@ export class VocabularyEntryDAO {
   static async getRandomFavoriteByChapters(userId: number, chapterStart?: number, chapterEnd?: number): Promise<VocabularyEntry | null> {
     const pool = getPool();
 
-    let query = `SELECT * FROM vocabulary_entries WHERE user_id = ? AND is_favorite = 1`;
+    let query = `SELECT * FROM vocabulary_entries WHERE user_id = ? AND is_favorite = 1 AND deleted_at IS NULL`;
     const params: any[] = [userId];
 
     if (chapterStart !== undefined && chapterEnd !== undefined) {
@@ -431,7 +692,7 @@ export class VocabularyEntryDAO {
     const pool = getPool();
 
     const [rows] = await pool.query<VocabularyEntryRow[]>(
-      `SELECT * FROM vocabulary_entries WHERE user_id = ? AND chapter >= ? AND chapter <= ? ORDER BY RAND() LIMIT 1`,
+      `SELECT * FROM vocabulary_entries WHERE user_id = ? AND chapter >= ? AND chapter <= ? AND deleted_at IS NULL ORDER BY RAND() LIMIT 1`,
       [userId, chapterStart, chapterEnd]
     );
 
@@ -447,7 +708,7 @@ export class VocabularyEntryDAO {
 
     const [rows] = await pool.query<RowDataPacket[]>(
       `SELECT DISTINCT chapter_label FROM vocabulary_entries
-       WHERE user_id = ? AND chapter_label IS NOT NULL AND chapter_label != ''
+       WHERE user_id = ? AND chapter_label IS NOT NULL AND chapter_label != '' AND deleted_at IS NULL
        ORDER BY chapter_label ASC`,
       [userId]
     );
@@ -463,7 +724,7 @@ export class VocabularyEntryDAO {
 
     const [rows] = await pool.query<VocabularyEntryRow[]>(
       `SELECT * FROM vocabulary_entries
-       WHERE user_id = ? AND chapter_label = ?
+       WHERE user_id = ? AND chapter_label = ? AND deleted_at IS NULL
        ORDER BY chapter ASC, created_at ASC`,
       [userId, chapterLabel]
     );
@@ -479,7 +740,7 @@ export class VocabularyEntryDAO {
 
     const [rows] = await pool.query<VocabularyEntryRow[]>(
       `SELECT * FROM vocabulary_entries
-       WHERE user_id = ? AND is_favorite = 1 AND chapter_label = ?
+       WHERE user_id = ? AND is_favorite = 1 AND chapter_label = ? AND deleted_at IS NULL
        ORDER BY RAND() LIMIT 1`,
       [userId, chapterLabel]
     );
@@ -496,7 +757,7 @@ export class VocabularyEntryDAO {
 
     const [rows] = await pool.query<VocabularyEntryRow[]>(
       `SELECT * FROM vocabulary_entries
-       WHERE user_id = ? AND chapter_label = ?
+       WHERE user_id = ? AND chapter_label = ? AND deleted_at IS NULL
        ORDER BY RAND() LIMIT 1`,
       [userId, chapterLabel]
     );
@@ -505,16 +766,58 @@ export class VocabularyEntryDAO {
     return rowToEntry(rows[0]);
   }
 
+  /**
+   * Find vocabulary entries carrying a tag
+   */
+  static async findByTag(userId: number, tag: string): Promise<VocabularyEntry[]> {
+    const pool = getPool();
+
+    const [rows] = await pool.query<VocabularyEntryRow[]>(
+      `SELECT ve.* FROM vocabulary_entries ve
+       JOIN vocabulary_tags vt ON vt.vocabulary_id = ve.id
+       JOIN tags t ON t.id = vt.tag_id
+       WHERE ve.user_id = ? AND t.name = ? AND ve.deleted_at IS NULL
+       ORDER BY ve.chapter ASC, ve.created_at ASC`,
+      [userId, tag]
+    );
+
+    return rows.map(rowToEntry);
+  }
+
+  /**
+   * Get a random vocabulary entry carrying a tag
+   */
+  static async getRandomByTag(userId: number, tag: string): Promise<VocabularyEntry | null> {
+    const pool = getPool();
+
+    const [rows] = await pool.query<VocabularyEntryRow[]>(
+      `SELECT ve.* FROM vocabulary_entries ve
+       JOIN vocabulary_tags vt ON vt.vocabulary_id = ve.id
+       JOIN tags t ON t.id = vt.tag_id
+       WHERE ve.user_id = ? AND t.name = ? AND ve.deleted_at IS NULL
+       ORDER BY RAND() LIMIT 1`,
+      [userId, tag]
+    );
+
+    if (rows.length === 0) return null;
+    return rowToEntry(rows[0]);
+  }
+
   /**
    * Delete all vocabulary for a user
    */
   static async deleteAllForUser(userId: number): Promise<number> {
     const pool = getPool();
-    
+    await ReviewStateDAO.deleteAllForUser(userId);
+    await FlashcardSessionDAO.deleteAllForUser(userId);
+
     const [result] = await pool.query<ResultSetHeader>(
       `DELETE FROM vocabulary_entries WHERE user_id = ?`,
       [userId]
     );
+    await VocabularyCharacterDAO.unlinkAllForUser(userId);
+    await VocabularyRevisionDAO.deleteAllForUser(userId);
+    await TagDAO.deleteAllForUser(userId);
 
     return result.affectedRows;
   }
@@ -0,0 +1,218 @@
+/**
+ * VocabularyRevision Model
+ *
+ * Edit history of vocabulary entries. Every update that changes an entry's content records who changed
+ * which fields, from what to what, together with the entry's content before the change, so an entry can
+ * be put back the way it was. Moving an entry into and out of the trash is recorded too.
+ * The favorite flag is not tracked; it is a toggle, not content that could be lost.
+ */
+
+import { getPool } from '../config/database';
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { VocabularyEntry, VocabularyInput } from './VocabularyEntry';
+
+// delete and undelete move an entry into and out of the trash and leave its content as it is
+export type RevisionAction = 'update' | 'delete' | 'undelete' | 'restore';
+
+/**
+ * Entry fields covered by the history
+ */
+export type RevisionField = 'chineseCharacter' | 'pinyin' | 'hanVietnamese' | 'modernVietnamese' | 'englishMeaning' | 'learningNote' | 'chapter' | 'chapterLabel';
+
+export const REVISION_FIELDS: RevisionField[] = [
+  'chineseCharacter',
+  'pinyin',
+  'hanVietnamese',
+  'modernVietnamese',
+  'englishMeaning',
+  'learningNote',
+  'chapter',
+  'chapterLabel'
+];
+
+/**
+ * Content of an entry at one point in time; empty fields are null
+ */
+export type VocabularySnapshot = Record<RevisionField, string | number | null>;
+
+/**
+ * Old and new value of a changed field
+ */
+export interface FieldChange {
+  from: string | number | null;
+  to: string | number | null;
+}
+
+/**
+ * Complete revision interface matching database schema
+ */
+export interface VocabularyRevision {
+  id: number;
+  vocabularyId: string;
+  userId: number;                   // owner of the entry
+  changedBy: number | null;         // user who made the change, null for system changes
+  changedByUsername: string | null;
+  action: RevisionAction;
+  changes: Partial<Record<RevisionField, FieldChange>>;
+  snapshot: VocabularySnapshot;     // content before the change
+  createdAt: Date;
+}
+
+/**
+ * Database row interface for type-safe queries
+ */
+interface VocabularyRevisionRow extends RowDataPacket {
+  id: number;
+  vocabulary_id: string;
+  user_id: number;
+  changed_by: number | null;
+  changed_by_username: string | null;
+  action: RevisionAction;
+  changes: string | Partial<Record<RevisionField, FieldChange>>;
+  snapshot: string | VocabularySnapshot;
+  created_at: Date;
+}
+
+/**
+ * Parse a JSON column (mysql2 returns JSON columns already parsed)
+ */
+function parseJson<T>(value: string | T): T {
+  return typeof value === 'string' ? JSON.parse(value) : value;
+}
+
+/**
+ * Convert database row to VocabularyRevision interface
+ */
+function rowToRevision(row: VocabularyRevisionRow): VocabularyRevision {
+  return {
+    id: row.id,
+    vocabularyId: row.vocabulary_id,
+    userId: row.user_id,
+    changedBy: row.changed_by,
+    changedByUsername: row.changed_by_username,
+    action: row.action,
+    changes: parseJson(row.changes),
+    snapshot: parseJson(row.snapshot),
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Content of an entry, with empty fields as null
+ */
+export function snapshotOf(entry: Partial<VocabularyInput>): VocabularySnapshot {
+  const snapshot = {} as VocabularySnapshot;
+  for (const field of REVISION_FIELDS) {
+    const value = entry[field];
+    snapshot[field] = value === undefined || value === '' ? null : value;
+  }
+  return snapshot;
+}
+
+/**
+ * Fields that differ between two snapshots
+ */
+export function diffSnapshots(before: VocabularySnapshot, after: VocabularySnapshot): Partial<Record<RevisionField, FieldChange>> {
+  const changes: Partial<Record<RevisionField, FieldChange>> = {};
+  for (const field of REVISION_FIELDS) {
+    if (before[field] !== after[field]) {
+      changes[field] = { from: before[field], to: after[field] };
+    }
+  }
+  return changes;
+}
+
+const SELECT_REVISION = `SELECT vr.*, au.username AS changed_by_username
+  FROM vocabulary_revisions vr
+  LEFT JOIN auth_users au ON au.id = vr.changed_by`;
+
+/**
+ * Data Access Layer for VocabularyRevision
+ */
+export class VocabularyRevisionDAO {
+  /**
+   * Record a change of an entry
+   * An update or restore that leaves the tracked fields as they were is not recorded.
+   * @param before - The entry before the change
+   * @param after - The entry after the change
+   * @param action - What happened to the entry
+   * @param changedBy - User who made the change
+   */
+  static async record(
+    before: VocabularyEntry,
+    after: VocabularyEntry,
+    action: RevisionAction,
+    changedBy: number | null = null
+  ): Promise<void> {
+    const snapshot = snapshotOf(before);
+    const changes = diffSnapshots(snapshot, snapshotOf(after));
+    if (Object.keys(changes).length === 0 && (action === 'update' || action === 'restore')) {
+      return;
+    }
+
+    const pool = getPool();
+    await pool.query<ResultSetHeader>(
+      `INSERT INTO vocabulary_revisions (vocabulary_id, user_id, changed_by, action, changes, snapshot)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [before.id, before.userId, changedBy, action, JSON.stringify(changes), JSON.stringify(snapshot)]
+    );
+  }
+
+  /**
+   * Find the history of an entry with user isolation, newest first
+   */
+  static async findByVocabularyId(userId: number, vocabularyId: string): Promise<VocabularyRevision[]> {
+    const pool = getPool();
+
+    const [rows] = await pool.query<VocabularyRevisionRow[]>(
+      `${SELECT_REVISION} WHERE vr.vocabulary_id = ? AND vr.user_id = ? ORDER BY vr.id DESC`,
+      [vocabularyId, userId]
+    );
+
+    return rows.map(rowToRevision);
+  }
+
+  /**
+   * Find one revision of an entry with user isolation
+   */
+  static async findById(userId: number, vocabularyId: string, id: number): Promise<VocabularyRevision | null> {
+    const pool = getPool();
+
+    const [rows] = await pool.query<VocabularyRevisionRow[]>(
+      `${SELECT_REVISION} WHERE vr.id = ? AND vr.vocabulary_id = ? AND vr.user_id = ?`,
+      [id, vocabularyId, userId]
+    );
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    return rowToRevision(rows[0]);
+  }
+
+  /**
+   * Delete the history of purged entries
+   */
+  static async deleteForVocabulary(vocabularyIds: string[]): Promise<void> {
+    if (vocabularyIds.length === 0) {
+      return;
+    }
+
+    const pool = getPool();
+    await pool.query<ResultSetHeader>('DELETE FROM vocabulary_revisions WHERE vocabulary_id IN (?)', [vocabularyIds]);
+  }
+
+  /**
+   * Delete the whole history of a user
+   */
+  static async deleteAllForUser(userId: number): Promise<number> {
+    const pool = getPool();
+
+    const [result] = await pool.query<ResultSetHeader>(
+      `DELETE FROM vocabulary_revisions WHERE user_id = ?`,
+      [userId]
+    );
+
+    return result.affectedRows;
+  }
+}
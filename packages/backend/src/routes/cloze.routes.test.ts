@@ -0,0 +1,170 @@
+/**
+ * Cloze Routes Tests
+ *
+ * Tests for fill-the-gap exercise API endpoints
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import clozeRoutes from './cloze.routes';
+import { ClozeService } from '../services/ClozeService';
+import { UserDAO } from '../models/User';
+import { AuthService } from '../services/AuthService';
+
+jest.mock('../services/ClozeService');
+jest.mock('../models/User');
+jest.mock('../services/AuthService');
+
+describe('Cloze Routes', () => {
+  let app: Express;
+
+  const mockCard = {
+    sentenceId: 's-1',
+    vocabularyId: 'vocab-1',
+    clozeText: '我＿＿喝茶',
+    blankLength: 2,
+    hint: 'to like',
+    hintLanguage: 'english'
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', clozeRoutes);
+    jest.clearAllMocks();
+    (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 1, username: 'testuser', role: 'parent', parentId: null });
+    (UserDAO.findByUsername as jest.Mock).mockResolvedValue({ id: 1, username: 'testuser' });
+  });
+
+  describe('GET /api/:username/cloze/next', () => {
+    it('should return a cloze card with an English hint by default', async () => {
+      (ClozeService.getCard as jest.Mock).mockResolvedValue(mockCard);
+
+      const response = await request(app)
+        .get('/api/testuser/cloze/next')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(mockCard);
+      expect(ClozeService.getCard).toHaveBeenCalledWith(1, {}, 'english', undefined);
+    });
+
+    it('should pass the selection, hint language and target word', async () => {
+      (ClozeService.getCard as jest.Mock).mockResolvedValue(mockCard);
+
+      await request(app)
+        .get('/api/testuser/cloze/next?hint=vietnamese&ranges=1-3&vocabularyId=vocab-1')
+        .set('Authorization', 'Bearer token');
+
+      expect(ClozeService.getCard).toHaveBeenCalledWith(
+        1,
+        { ranges: [{ start: 1, end: 3 }] },
+        'vietnamese',
+        'vocab-1'
+      );
+    });
+
+    it('should return 400 for an invalid hint language', async () => {
+      const response = await request(app)
+        .get('/api/testuser/cloze/next?hint=french')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(400);
+      expect(ClozeService.getCard).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid selection', async () => {
+      const response = await request(app)
+        .get('/api/testuser/cloze/next?ranges=5-1')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 when no sentence uses the selected words', async () => {
+      (ClozeService.getCard as jest.Mock).mockRejectedValue(new Error('No sentences found for the selected vocabulary'));
+
+      const response = await request(app)
+        .get('/api/testuser/cloze/next')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      (UserDAO.findByUsername as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/api/nobody/cloze/next')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 401 without a token', async () => {
+      const response = await request(app).get('/api/testuser/cloze/next');
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('POST /api/:username/cloze/check', () => {
+    it('should check the answer', async () => {
+      const mockResult = { correct: true, chineseText: '我喜欢喝茶', pinyin: 'wǒ xǐhuan hē chá' };
+      (ClozeService.checkAnswer as jest.Mock).mockResolvedValue(mockResult);
+
+      const response = await request(app)
+        .post('/api/testuser/cloze/check')
+        .set('Authorization', 'Bearer token')
+        .send({ sentenceId: 's-1', vocabularyId: 'vocab-1', answer: '喜欢' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(mockResult);
+      expect(ClozeService.checkAnswer).toHaveBeenCalledWith(1, 's-1', 'vocab-1', '喜欢');
+    });
+
+    it('should return 400 without an answer', async () => {
+      const response = await request(app)
+        .post('/api/testuser/cloze/check')
+        .set('Authorization', 'Bearer token')
+        .send({ sentenceId: 's-1', vocabularyId: 'vocab-1', answer: '  ' });
+
+      expect(response.status).toBe(400);
+      expect(ClozeService.checkAnswer).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when the word is not in the sentence', async () => {
+      (ClozeService.checkAnswer as jest.Mock).mockRejectedValue(new Error('Vocabulary word does not appear in this sentence'));
+
+      const response = await request(app)
+        .post('/api/testuser/cloze/check')
+        .set('Authorization', 'Bearer token')
+        .send({ sentenceId: 's-1', vocabularyId: 'vocab-9', answer: '喜欢' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for an unknown sentence', async () => {
+      (ClozeService.checkAnswer as jest.Mock).mockRejectedValue(new Error('Sentence not found'));
+
+      const response = await request(app)
+        .post('/api/testuser/cloze/check')
+        .set('Authorization', 'Bearer token')
+        .send({ sentenceId: 'missing', vocabularyId: 'vocab-1', answer: '喜欢' });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 500 for unexpected errors', async () => {
+      (ClozeService.checkAnswer as jest.Mock).mockRejectedValue(new Error('Database error'));
+
+      const response = await request(app)
+        .post('/api/testuser/cloze/check')
+        .set('Authorization', 'Bearer token')
+        .send({ sentenceId: 's-1', vocabularyId: 'vocab-1', answer: '喜欢' });
+
+      expect(response.status).toBe(500);
+      expect(response.body.error).toBe('Failed to check cloze answer');
+    });
+  });
+});
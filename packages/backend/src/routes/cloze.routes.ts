@@ -0,0 +1,130 @@
+/**
+ * Cloze API Routes
+ *
+ * Fill-the-gap exercises built from pre-generated sentences:
+ * - GET /api/:username/cloze/next - Get a sentence with a vocabulary word blanked out
+ * - POST /api/:username/cloze/check - Check the word filled into the gap
+ */
+
+import { Router, Response } from 'express';
+import { ClozeService, ClozeHintLanguage } from '../services/ClozeService';
+import { ChapterFilter, ChapterSelection } from '../services/ChapterFilter';
+import { authenticateJWT, AuthRequest } from '../middleware/auth';
+import { UserDAO } from '../models/User';
+
+const router = Router();
+
+const HINT_LANGUAGES: ClozeHintLanguage[] = ['english', 'vietnamese'];
+
+/**
+ * Helper: resolve username to userId. Returns null if user not found.
+ */
+async function resolveUserId(username: string): Promise<number | null> {
+  const user = await UserDAO.findByUsername(username);
+  return user ? user.id : null;
+}
+
+/**
+ * Map ClozeService errors to HTTP status codes
+ */
+function sendClozeError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof Error) {
+    if (error.message.includes('not found') || error.message.includes('No vocabulary') || error.message.includes('No sentences')) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message.includes('does not appear')) {
+      return res.status(400).json({ error: error.message });
+    }
+  }
+  res.status(500).json({ error: fallback });
+}
+
+/**
+ * GET /api/:username/cloze/next
+ *
+ * Pick a pre-generated sentence that uses a target word and blank the word out
+ *
+ * Query Parameters:
+ * - hint: 'english' (default) or 'vietnamese' - language of the meaning shown as a hint
+ * - vocabularyId: target word (optional, a random word from the selection otherwise)
+ * - chapters, ranges, chapterLabel, tags, favoritesOnly, excludeChapters, excludeChapterLabel, excludeTags:
+ *   chapter selection (optional, all of the user's words when omitted)
+ *
+ * Response:
+ * - 200: ClozeCard { sentenceId, vocabularyId, clozeText, blankLength, hint, hintLanguage }
+ * - 400: Invalid hint language or selection
+ * - 404: User or word not found, or no sentence uses the selected words
+ * - 500: Server error
+ */
+router.get('/:username/cloze/next', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username } = req.params;
+    const { hint = 'english', vocabularyId } = req.query;
+
+    if (typeof hint !== 'string' || !HINT_LANGUAGES.includes(hint as ClozeHintLanguage)) {
+      return res.status(400).json({ error: `Invalid hint. Must be one of: ${HINT_LANGUAGES.join(', ')}` });
+    }
+
+    if (vocabularyId !== undefined && typeof vocabularyId !== 'string') {
+      return res.status(400).json({ error: 'vocabularyId must be a string' });
+    }
+
+    let selection: ChapterSelection;
+    try {
+      selection = ChapterFilter.parseSelection(req.query);
+    } catch (parseError) {
+      return res.status(400).json({ error: (parseError as Error).message });
+    }
+
+    const userId = await resolveUserId(username);
+    if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
+
+    const card = await ClozeService.getCard(userId, selection, hint as ClozeHintLanguage, vocabularyId);
+    res.json(card);
+  } catch (error) {
+    console.error('Error getting cloze card:', error);
+    sendClozeError(res, error, 'Failed to get cloze card');
+  }
+});
+
+/**
+ * POST /api/:username/cloze/check
+ *
+ * Check the word filled into the gap of a cloze card
+ *
+ * Request Body:
+ * - sentenceId: string (required)
+ * - vocabularyId: string (required)
+ * - answer: string in hanzi or pinyin (required)
+ *
+ * Response:
+ * - 200: ClozeResult { correct, check, chineseText, pinyin, englishMeaning, modernVietnamese }
+ * - 400: Missing fields, or the word does not appear in the sentence
+ * - 404: User, sentence or word not found
+ * - 500: Server error
+ */
+router.post('/:username/cloze/check', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username } = req.params;
+    const { sentenceId, vocabularyId, answer } = req.body;
+
+    if (typeof sentenceId !== 'string' || typeof vocabularyId !== 'string') {
+      return res.status(400).json({ error: 'sentenceId and vocabularyId are required' });
+    }
+
+    if (typeof answer !== 'string' || answer.trim().length === 0) {
+      return res.status(400).json({ error: 'answer is required' });
+    }
+
+    const userId = await resolveUserId(username);
+    if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
+
+    const result = await ClozeService.checkAnswer(userId, sentenceId, vocabularyId, answer);
+    res.json(result);
+  } catch (error) {
+    console.error('Error checking cloze answer:', error);
+    sendClozeError(res, error, 'Failed to check cloze answer');
+  }
+});
+
+export default router;
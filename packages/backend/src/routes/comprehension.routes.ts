@@ -7,6 +7,7 @@
 
 import { Router, Request, Response } from 'express';
 import { VocabularyEntryDAO } from '../models/VocabularyEntry';
+import { CharacterDecompositionService } from '../services/CharacterDecompositionService';
 
 const router = Router();
 
@@ -19,7 +20,9 @@ const router = Router();
  * - character: string (required) - Single Chinese character
  * 
  * Response:
- * - 200: Character details object
+ * - 200: Character details object; besides the entry's own fields:
+ *   - characters: radical, strokeCount and components of each character
+ *   - sharedComponentWords: other words of the user sharing a component (chineseCharacter, pinyin, sharedComponents)
  * - 400: Invalid parameters
  * - 404: Character not found
  * - 500: Server error
@@ -66,6 +69,12 @@ router.get('/:username/comprehension/character-info', async (req: Request, res:
       });
     }
 
+    // Radical, strokes and components are extras; the entry is still returned without them
+    const breakdown = await CharacterDecompositionService.breakdown(user.id, entry.chineseCharacter).catch(error => {
+      console.error('Error decomposing character:', error);
+      return { characters: [], sharedComponentWords: [] };
+    });
+
     res.json({
       chineseCharacter: entry.chineseCharacter,
       pinyin: entry.pinyin,
@@ -74,7 +83,9 @@ router.get('/:username/comprehension/character-info', async (req: Request, res:
       englishMeaning: entry.englishMeaning,
       isFavorite: entry.isFavorite,
       learningNote: entry.learningNote,
-      chapter: entry.chapter
+      chapter: entry.chapter,
+      characters: breakdown.characters,
+      sharedComponentWords: breakdown.sharedComponentWords
     });
   } catch (error) {
     console.error('Error getting character info:', error);
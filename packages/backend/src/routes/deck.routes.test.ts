@@ -0,0 +1,228 @@
+/**
+ * Deck Routes Tests
+ *
+ * Tests for shuffled deck API endpoints
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import deckRoutes from './deck.routes';
+import { DeckService } from '../services/DeckService';
+import { UserDAO } from '../models/User';
+import { AuthService } from '../services/AuthService';
+
+jest.mock('../services/DeckService');
+jest.mock('../models/User');
+jest.mock('../services/AuthService');
+
+describe('Deck Routes', () => {
+  let app: Express;
+
+  const mockSummary = {
+    id: 'deck-1',
+    filter: { chapterStart: 1, chapterEnd: 3 },
+    position: 0,
+    total: 12,
+    round: 1
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', deckRoutes);
+    jest.clearAllMocks();
+    (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 1, username: 'testuser', role: 'parent', parentId: null });
+    (UserDAO.findByUsername as jest.Mock).mockResolvedValue({ id: 1, username: 'testuser' });
+  });
+
+  describe('POST /api/:username/decks', () => {
+    it('should create a deck from a chapter range', async () => {
+      (DeckService.createDeck as jest.Mock).mockResolvedValue(mockSummary);
+
+      const response = await request(app)
+        .post('/api/testuser/decks')
+        .set('Authorization', 'Bearer token')
+        .send({ chapterStart: 1, chapterEnd: 3, favoritesOnly: false });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toEqual(mockSummary);
+      expect(DeckService.createDeck).toHaveBeenCalledWith(1, 1, { chapterStart: 1, chapterEnd: 3, favoritesOnly: false });
+    });
+
+    it('should create a deck from a chapter label', async () => {
+      (DeckService.createDeck as jest.Mock).mockResolvedValue(mockSummary);
+
+      await request(app)
+        .post('/api/testuser/decks')
+        .set('Authorization', 'Bearer token')
+        .send({ chapterLabel: 'HSK 1' });
+
+      expect(DeckService.createDeck).toHaveBeenCalledWith(1, 1, { chapterLabel: 'HSK 1' });
+    });
+
+    it('should return 400 for half a chapter range', async () => {
+      const response = await request(app)
+        .post('/api/testuser/decks')
+        .set('Authorization', 'Bearer token')
+        .send({ chapterStart: 1 });
+
+      expect(response.status).toBe(400);
+      expect(DeckService.createDeck).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a reversed chapter range', async () => {
+      const response = await request(app)
+        .post('/api/testuser/decks')
+        .set('Authorization', 'Bearer token')
+        .send({ chapterStart: 5, chapterEnd: 1 });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 when no words match', async () => {
+      (DeckService.createDeck as jest.Mock).mockRejectedValue(new Error('No vocabulary found for deck filter'));
+
+      const response = await request(app)
+        .post('/api/testuser/decks')
+        .set('Authorization', 'Bearer token')
+        .send({ favoritesOnly: true });
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should return 403 for another family's words", async () => {
+      (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 5, username: 'stranger', role: 'parent', parentId: null });
+
+      const response = await request(app)
+        .post('/api/testuser/decks')
+        .set('Authorization', 'Bearer stranger-token')
+        .send({});
+
+      expect(response.status).toBe(403);
+      expect(DeckService.createDeck).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 without a token', async () => {
+      const response = await request(app)
+        .post('/api/testuser/decks')
+        .send({});
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('GET /api/:username/decks', () => {
+    it('should list decks', async () => {
+      (DeckService.listDecks as jest.Mock).mockResolvedValue([mockSummary]);
+
+      const response = await request(app)
+        .get('/api/testuser/decks')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([mockSummary]);
+      expect(DeckService.listDecks).toHaveBeenCalledWith(1, 1);
+    });
+
+    it("should list a child's own decks over their parent's words", async () => {
+      (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 2, username: 'kid', role: 'child', parentId: 1 });
+      (DeckService.listDecks as jest.Mock).mockResolvedValue([]);
+
+      await request(app)
+        .get('/api/testuser/decks')
+        .set('Authorization', 'Bearer kid-token');
+
+      expect(DeckService.listDecks).toHaveBeenCalledWith(1, 2);
+    });
+  });
+
+  describe('deck navigation', () => {
+    const mockCard = { deck: { ...mockSummary, position: 4 }, entry: { id: 'vocab-1', chineseCharacter: '你好' } };
+
+    it('should return the current card', async () => {
+      (DeckService.getDeck as jest.Mock).mockResolvedValue(mockCard);
+
+      const response = await request(app)
+        .get('/api/testuser/decks/deck-1')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(mockCard);
+      expect(DeckService.getDeck).toHaveBeenCalledWith(1, 1, 'deck-1');
+    });
+
+    it('should move to the next card', async () => {
+      (DeckService.next as jest.Mock).mockResolvedValue(mockCard);
+
+      const response = await request(app)
+        .post('/api/testuser/decks/deck-1/next')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(DeckService.next).toHaveBeenCalledWith(1, 1, 'deck-1');
+    });
+
+    it("should advance a child's deck over their parent's words", async () => {
+      (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 2, username: 'kid', role: 'child', parentId: 1 });
+      (DeckService.next as jest.Mock).mockResolvedValue(mockCard);
+
+      await request(app)
+        .post('/api/testuser/decks/deck-1/next')
+        .set('Authorization', 'Bearer kid-token');
+
+      expect(DeckService.next).toHaveBeenCalledWith(1, 2, 'deck-1');
+    });
+
+    it('should return 400 when there is no previous card', async () => {
+      (DeckService.previous as jest.Mock).mockRejectedValue(new Error('Already at the first card of this round'));
+
+      const response = await request(app)
+        .post('/api/testuser/decks/deck-1/previous')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for an unknown deck', async () => {
+      (DeckService.next as jest.Mock).mockRejectedValue(new Error('Deck not found'));
+
+      const response = await request(app)
+        .post('/api/testuser/decks/unknown/next')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should not let a child read through another family's deck", async () => {
+      (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 6, username: 'otherkid', role: 'child', parentId: 5 });
+
+      const response = await request(app)
+        .post('/api/testuser/decks/deck-1/next')
+        .set('Authorization', 'Bearer otherkid-token');
+
+      expect(response.status).toBe(403);
+      expect(DeckService.next).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 for unexpected errors', async () => {
+      (DeckService.next as jest.Mock).mockRejectedValue(new Error('Database error'));
+
+      const response = await request(app)
+        .post('/api/testuser/decks/deck-1/next')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(500);
+      expect(response.body.error).toBe('Failed to get next card');
+    });
+
+    it('should delete a deck', async () => {
+      (DeckService.deleteDeck as jest.Mock).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .delete('/api/testuser/decks/deck-1')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(204);
+    });
+  });
+});
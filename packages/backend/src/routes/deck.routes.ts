@@ -0,0 +1,261 @@
+/**
+ * Deck API Routes
+ *
+ * Server-side shuffled decks with a resumable cursor:
+ * - POST /api/:username/decks - Create a shuffled deck
+ * - GET /api/:username/decks - List decks (most recently used first)
+ * - GET /api/:username/decks/:id - Get a deck and its current card
+ * - POST /api/:username/decks/:id/next - Move to the next card
+ * - POST /api/:username/decks/:id/previous - Move to the previous card
+ * - DELETE /api/:username/decks/:id - Delete a deck
+ *
+ * :username is the owner of the vocabulary; the decks and their cursors belong to the signed-in
+ * learner, so a child studying their parent's words keeps their own place.
+ * PROTECTED: The owner, one of their children, or an admin
+ */
+
+import { Router, Response } from 'express';
+import { DeckService } from '../services/DeckService';
+import { DeckFilter } from '../models/Deck';
+import { authenticateJWT, AuthRequest, canStudyVocabulary } from '../middleware/auth';
+import { UserDAO } from '../models/User';
+
+const router = Router();
+
+/**
+ * Helper: resolve username to userId. Returns null if user not found.
+ */
+async function resolveUserId(username: string): Promise<number | null> {
+  const user = await UserDAO.findByUsername(username);
+  return user ? user.id : null;
+}
+
+/**
+ * Map DeckService errors to HTTP status codes
+ */
+function sendDeckError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof Error) {
+    if (error.message.includes('not found') || error.message.includes('No vocabulary')) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message.includes('Already at the first card')) {
+      return res.status(400).json({ error: error.message });
+    }
+  }
+  res.status(500).json({ error: fallback });
+}
+
+/**
+ * POST /api/:username/decks
+ *
+ * Create a shuffled deck
+ *
+ * Request Body:
+ * - chapterStart, chapterEnd: number (optional, both or neither)
+ * - chapterLabel: string (optional, takes precedence over the chapter range)
+ * - tag: string (optional, takes precedence over the chapter label and range)
+ * - favoritesOnly: boolean (optional)
+ *
+ * Response:
+ * - 201: DeckSummary (positioned before the first card; call next to start)
+ * - 400: Invalid filter
+ * - 403: Not allowed to study this user's words
+ * - 404: User not found or no vocabulary matches the filter
+ * - 500: Server error
+ */
+router.post('/:username/decks', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username } = req.params;
+    const { chapterStart, chapterEnd, chapterLabel, tag, favoritesOnly } = req.body;
+
+    const filter: DeckFilter = {};
+
+    if (chapterStart !== undefined || chapterEnd !== undefined) {
+      const start = Number(chapterStart);
+      const end = Number(chapterEnd);
+      if (!Number.isInteger(start) || !Number.isInteger(end)) {
+        return res.status(400).json({ error: 'chapterStart and chapterEnd must both be integers' });
+      }
+      if (start > end) {
+        return res.status(400).json({ error: 'chapterStart must be less than or equal to chapterEnd' });
+      }
+      filter.chapterStart = start;
+      filter.chapterEnd = end;
+    }
+
+    if (chapterLabel !== undefined) {
+      if (typeof chapterLabel !== 'string' || chapterLabel.trim().length === 0) {
+        return res.status(400).json({ error: 'chapterLabel must be a non-empty string' });
+      }
+      filter.chapterLabel = chapterLabel;
+    }
+
+    if (tag !== undefined) {
+      if (typeof tag !== 'string' || tag.trim().length === 0) {
+        return res.status(400).json({ error: 'tag must be a non-empty string' });
+      }
+      filter.tag = tag;
+    }
+
+    if (favoritesOnly !== undefined) {
+      if (typeof favoritesOnly !== 'boolean') {
+        return res.status(400).json({ error: 'favoritesOnly must be a boolean' });
+      }
+      filter.favoritesOnly = favoritesOnly;
+    }
+
+    const userId = await resolveUserId(username);
+    if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
+    if (!req.user || !canStudyVocabulary(req.user, userId)) return res.status(403).json({ error: 'Access denied' });
+
+    const learnerId = req.user.userId;
+    const deck = await DeckService.createDeck(userId, learnerId, filter);
+    res.status(201).json(deck);
+  } catch (error) {
+    console.error('Error creating deck:', error);
+    sendDeckError(res, error, 'Failed to create deck');
+  }
+});
+
+/**
+ * GET /api/:username/decks
+ *
+ * List decks, most recently used first
+ *
+ * Response:
+ * - 200: DeckSummary[]
+ * - 403: Not allowed to study this user's words
+ * - 404: User not found
+ * - 500: Server error
+ */
+router.get('/:username/decks', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username } = req.params;
+
+    const userId = await resolveUserId(username);
+    if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
+    if (!req.user || !canStudyVocabulary(req.user, userId)) return res.status(403).json({ error: 'Access denied' });
+
+    const learnerId = req.user.userId;
+    const decks = await DeckService.listDecks(userId, learnerId);
+    res.json(decks);
+  } catch (error) {
+    console.error('Error listing decks:', error);
+    sendDeckError(res, error, 'Failed to list decks');
+  }
+});
+
+/**
+ * GET /api/:username/decks/:id
+ *
+ * Get a deck and its current card (entry is null before the first card)
+ *
+ * Response:
+ * - 200: { deck: DeckSummary, entry: VocabularyEntry | null }
+ * - 403: Not allowed to study this user's words
+ * - 404: User or deck not found
+ * - 500: Server error
+ */
+router.get('/:username/decks/:id', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username, id } = req.params;
+
+    const userId = await resolveUserId(username);
+    if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
+    if (!req.user || !canStudyVocabulary(req.user, userId)) return res.status(403).json({ error: 'Access denied' });
+
+    const learnerId = req.user.userId;
+    const card = await DeckService.getDeck(userId, learnerId, id);
+    res.json(card);
+  } catch (error) {
+    console.error('Error getting deck:', error);
+    sendDeckError(res, error, 'Failed to get deck');
+  }
+});
+
+/**
+ * POST /api/:username/decks/:id/next
+ *
+ * Move to the next card. At the end of the deck it is reshuffled and a new round starts.
+ *
+ * Response:
+ * - 200: { deck: DeckSummary, entry: VocabularyEntry }
+ * - 403: Not allowed to study this user's words
+ * - 404: User or deck not found, or every word in the deck was deleted
+ * - 500: Server error
+ */
+router.post('/:username/decks/:id/next', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username, id } = req.params;
+
+    const userId = await resolveUserId(username);
+    if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
+    if (!req.user || !canStudyVocabulary(req.user, userId)) return res.status(403).json({ error: 'Access denied' });
+
+    const learnerId = req.user.userId;
+    const card = await DeckService.next(userId, learnerId, id);
+    res.json(card);
+  } catch (error) {
+    console.error('Error moving to next deck card:', error);
+    sendDeckError(res, error, 'Failed to get next card');
+  }
+});
+
+/**
+ * POST /api/:username/decks/:id/previous
+ *
+ * Move to the previous card of the current round
+ *
+ * Response:
+ * - 200: { deck: DeckSummary, entry: VocabularyEntry }
+ * - 400: Already at the first card of this round
+ * - 403: Not allowed to study this user's words
+ * - 404: User or deck not found
+ * - 500: Server error
+ */
+router.post('/:username/decks/:id/previous', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username, id } = req.params;
+
+    const userId = await resolveUserId(username);
+    if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
+    if (!req.user || !canStudyVocabulary(req.user, userId)) return res.status(403).json({ error: 'Access denied' });
+
+    const learnerId = req.user.userId;
+    const card = await DeckService.previous(userId, learnerId, id);
+    res.json(card);
+  } catch (error) {
+    console.error('Error moving to previous deck card:', error);
+    sendDeckError(res, error, 'Failed to get previous card');
+  }
+});
+
+/**
+ * DELETE /api/:username/decks/:id
+ *
+ * Delete a deck
+ *
+ * Response:
+ * - 204: Deleted
+ * - 403: Not allowed to study this user's words
+ * - 404: User or deck not found
+ * - 500: Server error
+ */
+router.delete('/:username/decks/:id', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username, id } = req.params;
+
+    const userId = await resolveUserId(username);
+    if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
+    if (!req.user || !canStudyVocabulary(req.user, userId)) return res.status(403).json({ error: 'Access denied' });
+
+    const learnerId = req.user.userId;
+    await DeckService.deleteDeck(userId, learnerId, id);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting deck:', error);
+    sendDeckError(res, error, 'Failed to delete deck');
+  }
+});
+
+export default router;
@@ -0,0 +1,92 @@
+/**
+ * Vocabulary Export Routes Tests
+ *
+ * Tests for vocabulary export API endpoints
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import exportRoutes from './export.routes';
+import { VocabularyExporter } from '../services/VocabularyExporter';
+import { UserDAO } from '../models/User';
+import { AuthService } from '../services/AuthService';
+
+jest.mock('../services/VocabularyExporter', () => ({
+  ...jest.requireActual('../services/VocabularyExporter'),
+  VocabularyExporter: { exportVocabulary: jest.fn() }
+}));
+jest.mock('../models/User');
+jest.mock('../services/AuthService');
+
+describe('Vocabulary Export Routes', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', exportRoutes);
+    jest.clearAllMocks();
+    (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 1, username: 'parent', role: 'parent', parentId: null });
+    (UserDAO.findByUsername as jest.Mock).mockResolvedValue({ id: 1, username: 'parent', role: 'parent' });
+  });
+
+  describe('GET /api/:username/vocabulary/export', () => {
+    it('should download the selection as a file', async () => {
+      (VocabularyExporter.exportVocabulary as jest.Mock).mockResolvedValue({
+        filename: 'parent-vocabulary-chapters-1-3.csv',
+        contentType: 'text/csv; charset=utf-8',
+        data: Buffer.from('Hanzi\r\n你好\r\n')
+      });
+
+      const response = await request(app)
+        .get('/api/parent/vocabulary/export?format=csv&ranges=1-3&favoritesOnly=true')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.headers['content-disposition']).toContain('attachment; filename="parent-vocabulary-chapters-1-3.csv"');
+      expect(response.text).toBe('Hanzi\r\n你好\r\n');
+      expect(VocabularyExporter.exportVocabulary).toHaveBeenCalledWith(
+        1,
+        'parent',
+        { ranges: [{ start: 1, end: 3 }], favoritesOnly: true },
+        'csv'
+      );
+    });
+
+    it('should return 400 for an unknown format', async () => {
+      const response = await request(app)
+        .get('/api/parent/vocabulary/export?format=xlsx')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(400);
+      expect(VocabularyExporter.exportVocabulary).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when the selection has no words', async () => {
+      (VocabularyExporter.exportVocabulary as jest.Mock).mockRejectedValue(new Error('No vocabulary found for export'));
+
+      const response = await request(app)
+        .get('/api/parent/vocabulary/export?format=pdf&chapterLabel=Nothing')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      (UserDAO.findByUsername as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/api/nobody/vocabulary/export?format=apkg')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should require authentication', async () => {
+      const response = await request(app).get('/api/parent/vocabulary/export?format=csv');
+
+      expect(response.status).toBe(401);
+    });
+  });
+});
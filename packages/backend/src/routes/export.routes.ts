@@ -0,0 +1,67 @@
+/**
+ * Vocabulary Export API Routes
+ *
+ * - GET /api/:username/vocabulary/export - Download a chapter selection as CSV, Anki package or PDF
+ */
+
+import { Router, Response } from 'express';
+import { VocabularyExporter, ExportFormat, EXPORT_FORMATS } from '../services/VocabularyExporter';
+import { ChapterFilter, ChapterSelection } from '../services/ChapterFilter';
+import { authenticateJWT, AuthRequest } from '../middleware/auth';
+import { UserDAO } from '../models/User';
+
+const router = Router();
+
+/**
+ * GET /api/:username/vocabulary/export
+ *
+ * Download vocabulary as a file
+ *
+ * Query Parameters:
+ * - format: csv | apkg | pdf (required)
+ * - chapters, ranges, chapterLabel, tags, favoritesOnly, excludeChapters, excludeChapterLabel, excludeTags:
+ *   chapter selection (optional, all of the user's words when omitted)
+ *
+ * Response:
+ * - 200: File download (Content-Disposition: attachment)
+ * - 400: Invalid format or selection
+ * - 404: User not found or no words in the selection
+ * - 500: Server error
+ */
+router.get('/:username/vocabulary/export', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username } = req.params;
+    const format = req.query.format as ExportFormat;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+    }
+
+    let selection: ChapterSelection;
+    try {
+      selection = ChapterFilter.parseSelection(req.query);
+    } catch (parseError) {
+      return res.status(400).json({ error: (parseError as Error).message });
+    }
+
+    const user = await UserDAO.findByUsername(username);
+    if (!user) return res.status(404).json({ error: `User "${username}" not found` });
+
+    const file = await VocabularyExporter.exportVocabulary(user.id, user.username, selection, format);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${file.filename.replace(/[^\x20-\x7e]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(file.filename)}`
+    );
+    res.send(file.data);
+  } catch (error) {
+    console.error('Error exporting vocabulary:', error);
+    if (error instanceof Error && error.message.includes('No vocabulary found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to export vocabulary' });
+  }
+});
+
+export default router;
@@ -8,9 +8,17 @@ import request from 'supertest';
 import express, { Express } from 'express';
 import flashcardRoutes from './flashcard.routes';
 import { FlashcardEngine, FlashcardMode } from '../services/FlashcardEngine';
+import { UserDAO } from '../models/User';
+import { LeechDetector } from '../services/LeechDetector';
+import { AuthService } from '../services/AuthService';
 
 // Mock FlashcardEngine
 jest.mock('../services/FlashcardEngine');
+// Mock UserDAO so username resolution does not need a database
+jest.mock('../models/User');
+jest.mock('../services/LeechDetector');
+// Mock token verification; the token value picks the signed-in user
+jest.mock('../services/AuthService');
 
 describe('Flashcard Routes', () => {
   let app: Express;
@@ -20,6 +28,8 @@ describe('Flashcard Routes', () => {
     app.use(express.json());
     app.use('/api', flashcardRoutes);
     jest.clearAllMocks();
+    (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 1, username: 'testuser', role: 'parent', parentId: null });
+    (UserDAO.findByUsername as jest.Mock).mockResolvedValue({ id: 1, username: 'testuser' });
   });
 
   describe('GET /api/:username/flashcard/next', () => {
@@ -38,6 +48,7 @@ describe('Flashcard Routes', () => {
 
       const response = await request(app)
         .get('/api/testuser/flashcard/next')
+        .set('Authorization', 'Bearer token')
         .query({
           mode: 'ChineseToMeanings',
           chapterStart: '1',
@@ -47,15 +58,27 @@ describe('Flashcard Routes', () => {
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockFlashcard);
       expect(FlashcardEngine.getNextCard).toHaveBeenCalledWith(
-        'testuser',
+        1,
+        1,
         FlashcardMode.ChineseToMeanings,
-        { start: 1, end: 5 }
+        { start: 1, end: 5 },
+        undefined
       );
     });
 
+    it('should return 401 without a token', async () => {
+      const response = await request(app)
+        .get('/api/testuser/flashcard/next')
+        .query({ mode: 'ChineseToMeanings', chapterStart: '1', chapterEnd: '5' });
+
+      expect(response.status).toBe(401);
+      expect(FlashcardEngine.getNextCard).not.toHaveBeenCalled();
+    });
+
     it('should return 400 if mode is missing', async () => {
       const response = await request(app)
         .get('/api/testuser/flashcard/next')
+        .set('Authorization', 'Bearer token')
         .query({
           chapterStart: '1',
           chapterEnd: '5'
@@ -68,6 +91,7 @@ describe('Flashcard Routes', () => {
     it('should return 400 if mode is invalid', async () => {
       const response = await request(app)
         .get('/api/testuser/flashcard/next')
+        .set('Authorization', 'Bearer token')
         .query({
           mode: 'InvalidMode',
           chapterStart: '1',
@@ -81,6 +105,7 @@ describe('Flashcard Routes', () => {
     it('should return 400 if chapterStart is missing', async () => {
       const response = await request(app)
         .get('/api/testuser/flashcard/next')
+        .set('Authorization', 'Bearer token')
         .query({
           mode: 'ChineseToMeanings',
           chapterEnd: '5'
@@ -93,6 +118,7 @@ describe('Flashcard Routes', () => {
     it('should return 400 if chapterEnd is missing', async () => {
       const response = await request(app)
         .get('/api/testuser/flashcard/next')
+        .set('Authorization', 'Bearer token')
         .query({
           mode: 'ChineseToMeanings',
           chapterStart: '1'
@@ -105,6 +131,7 @@ describe('Flashcard Routes', () => {
     it('should return 400 if chapter numbers are not valid integers', async () => {
       const response = await request(app)
         .get('/api/testuser/flashcard/next')
+        .set('Authorization', 'Bearer token')
         .query({
           mode: 'ChineseToMeanings',
           chapterStart: 'abc',
@@ -118,6 +145,7 @@ describe('Flashcard Routes', () => {
     it('should return 400 if chapter numbers are not positive', async () => {
       const response = await request(app)
         .get('/api/testuser/flashcard/next')
+        .set('Authorization', 'Bearer token')
         .query({
           mode: 'ChineseToMeanings',
           chapterStart: '0',
@@ -131,6 +159,7 @@ describe('Flashcard Routes', () => {
     it('should return 400 if chapterStart is greater than chapterEnd', async () => {
       const response = await request(app)
         .get('/api/testuser/flashcard/next')
+        .set('Authorization', 'Bearer token')
         .query({
           mode: 'ChineseToMeanings',
           chapterStart: '10',
@@ -148,6 +177,7 @@ describe('Flashcard Routes', () => {
 
       const response = await request(app)
         .get('/api/testuser/flashcard/next')
+        .set('Authorization', 'Bearer token')
         .query({
           mode: 'ChineseToMeanings',
           chapterStart: '1',
@@ -158,6 +188,24 @@ describe('Flashcard Routes', () => {
       expect(response.body.error).toContain('No vocabulary found');
     });
 
+    it('should return 404 if the range has too few words for multiple choice', async () => {
+      (FlashcardEngine.getNextCard as jest.Mock).mockRejectedValue(
+        new Error('Not enough vocabulary for multiple choice (need 4 distinct words in range)')
+      );
+
+      const response = await request(app)
+        .get('/api/testuser/flashcard/next')
+        .set('Authorization', 'Bearer token')
+        .query({
+          mode: 'EnglishToChineseMultipleChoice',
+          chapterStart: '1',
+          chapterEnd: '1'
+        });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toContain('Not enough vocabulary');
+    });
+
     it('should return 404 if chapter range is invalid', async () => {
       (FlashcardEngine.getNextCard as jest.Mock).mockRejectedValue(
         new Error('Invalid chapter range or no vocabulary available')
@@ -165,6 +213,7 @@ describe('Flashcard Routes', () => {
 
       const response = await request(app)
         .get('/api/testuser/flashcard/next')
+        .set('Authorization', 'Bearer token')
         .query({
           mode: 'ChineseToMeanings',
           chapterStart: '1',
@@ -175,6 +224,104 @@ describe('Flashcard Routes', () => {
       expect(response.body.error).toContain('Invalid chapter range');
     });
 
+    it('should pass a chapter selection to the engine', async () => {
+      (FlashcardEngine.getNextCard as jest.Mock).mockResolvedValue({ id: 'test-flashcard-id' });
+
+      const response = await request(app)
+        .get('/api/testuser/flashcard/next?mode=ChineseToMeanings&chapters=3,7,12&chapterLabel=Boya%20II&chapterLabel=HSK%201&favoritesOnly=true&excludeChapters=7')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(FlashcardEngine.getNextCard).toHaveBeenCalledWith(1, 1, FlashcardMode.ChineseToMeanings, {
+        chapters: [3, 7, 12],
+        chapterLabels: ['Boya II', 'HSK 1'],
+        favoritesOnly: true,
+        excludeChapters: [7]
+      }, undefined);
+    });
+
+    it('should add the chapter range to the other selection parameters', async () => {
+      (FlashcardEngine.getNextCard as jest.Mock).mockResolvedValue({ id: 'test-flashcard-id' });
+
+      await request(app)
+        .get('/api/testuser/flashcard/next')
+        .set('Authorization', 'Bearer token')
+        .query({ mode: 'ChineseToMeanings', chapterStart: '1', chapterEnd: '5', ranges: '8-10' });
+
+      expect(FlashcardEngine.getNextCard).toHaveBeenCalledWith(1, 1, FlashcardMode.ChineseToMeanings, {
+        ranges: [{ start: 8, end: 10 }, { start: 1, end: 5 }]
+      }, undefined);
+    });
+
+    it("should serve today's session with the owner's daily new-word limit", async () => {
+      (UserDAO.findByUsername as jest.Mock).mockResolvedValue({ id: 1, username: 'testuser', dailyNewLimit: 5 });
+      (FlashcardEngine.getNextCard as jest.Mock).mockResolvedValue({ id: 'test-flashcard-id' });
+
+      const response = await request(app)
+        .get('/api/testuser/flashcard/next')
+        .set('Authorization', 'Bearer token')
+        .query({ mode: 'ChineseToMeanings', chapterStart: '1', chapterEnd: '5', session: 'today' });
+
+      expect(response.status).toBe(200);
+      expect(FlashcardEngine.getNextCard).toHaveBeenCalledWith(1, 1, FlashcardMode.ChineseToMeanings, { start: 1, end: 5 }, 5);
+    });
+
+    it("should pace a child studying their parent's words by the child's own limit", async () => {
+      (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 2, username: 'kid', role: 'child', parentId: 1 });
+      (UserDAO.findByUsername as jest.Mock).mockResolvedValue({ id: 1, username: 'testuser', dailyNewLimit: 5 });
+      (UserDAO.findById as jest.Mock).mockResolvedValue({ id: 2, username: 'kid', dailyNewLimit: 3 });
+      (FlashcardEngine.getNextCard as jest.Mock).mockResolvedValue({ id: 'test-flashcard-id' });
+
+      await request(app)
+        .get('/api/testuser/flashcard/next')
+        .query({ mode: 'ChineseToMeanings', chapterStart: '1', chapterEnd: '5', session: 'today' })
+        .set('Authorization', 'Bearer kid-token');
+
+      expect(FlashcardEngine.getNextCard).toHaveBeenCalledWith(1, 2, FlashcardMode.ChineseToMeanings, { start: 1, end: 5 }, 3);
+    });
+
+    it("should return 404 when today's session is complete", async () => {
+      (FlashcardEngine.getNextCard as jest.Mock).mockRejectedValue(new Error("Today's session is complete"));
+
+      const response = await request(app)
+        .get('/api/testuser/flashcard/next')
+        .set('Authorization', 'Bearer token')
+        .query({ mode: 'ChineseToMeanings', chapterStart: '1', chapterEnd: '5', session: 'today' });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe("Today's session is complete");
+    });
+
+    it('should return 400 for an unknown session', async () => {
+      const response = await request(app)
+        .get('/api/testuser/flashcard/next')
+        .set('Authorization', 'Bearer token')
+        .query({ mode: 'ChineseToMeanings', chapterStart: '1', chapterEnd: '5', session: 'forever' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 400 if no chapter range or selection is given', async () => {
+      const response = await request(app)
+        .get('/api/testuser/flashcard/next')
+        .set('Authorization', 'Bearer token')
+        .query({ mode: 'ChineseToMeanings' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('chapter range or selection is required');
+      expect(FlashcardEngine.getNextCard).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a malformed chapter selection', async () => {
+      const response = await request(app)
+        .get('/api/testuser/flashcard/next')
+        .set('Authorization', 'Bearer token')
+        .query({ mode: 'ChineseToMeanings', chapters: '3,abc' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid chapter selection: chapters must be non-negative integers');
+    });
+
     it('should return 500 for unexpected errors', async () => {
       (FlashcardEngine.getNextCard as jest.Mock).mockRejectedValue(
         new Error('Database connection failed')
@@ -182,6 +329,7 @@ describe('Flashcard Routes', () => {
 
       const response = await request(app)
         .get('/api/testuser/flashcard/next')
+        .set('Authorization', 'Bearer token')
         .query({
           mode: 'ChineseToMeanings',
           chapterStart: '1',
@@ -207,6 +355,7 @@ describe('Flashcard Routes', () => {
 
       const response = await request(app)
         .get('/api/testuser/flashcard/next')
+        .set('Authorization', 'Bearer token')
         .query({
           mode: 'EnglishToChinese',
           chapterStart: '1',
@@ -232,6 +381,7 @@ describe('Flashcard Routes', () => {
 
       const response = await request(app)
         .get('/api/testuser/flashcard/next')
+        .set('Authorization', 'Bearer token')
         .query({
           mode: 'VietnameseToChinese',
           chapterStart: '1',
@@ -241,6 +391,65 @@ describe('Flashcard Routes', () => {
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockFlashcard);
     });
+
+    it('should work with AudioToMeaning mode', async () => {
+      const mockFlashcard = {
+        id: 'test-flashcard-id',
+        mode: FlashcardMode.AudioToMeaning,
+        question: {
+          displayText: '',
+          fieldType: 'audio' as const,
+          audioUrl: '/audio/abc.mp3'
+        },
+        vocabularyId: 'vocab-id-123'
+      };
+
+      (FlashcardEngine.getNextCard as jest.Mock).mockResolvedValue(mockFlashcard);
+
+      const response = await request(app)
+        .get('/api/testuser/flashcard/next')
+        .set('Authorization', 'Bearer token')
+        .query({
+          mode: 'AudioToMeaning',
+          chapterStart: '1',
+          chapterEnd: '5'
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(mockFlashcard);
+    });
+
+    it('should accept PinyinToChinese and HanVietnameseToChinese modes', async () => {
+      (FlashcardEngine.getNextCard as jest.Mock).mockResolvedValue({ id: 'test-flashcard-id' });
+
+      for (const mode of ['PinyinToChinese', 'HanVietnameseToChinese']) {
+        const response = await request(app)
+          .get('/api/testuser/flashcard/next')
+          .set('Authorization', 'Bearer token')
+          .query({ mode, chapterStart: '1', chapterEnd: '5' });
+
+        expect(response.status).toBe(200);
+        expect(FlashcardEngine.getNextCard).toHaveBeenCalledWith(1, 1, mode, { start: 1, end: 5 }, undefined);
+      }
+    });
+
+    it('should return 502 if audio cannot be generated', async () => {
+      (FlashcardEngine.getNextCard as jest.Mock).mockRejectedValue(
+        new Error('Failed to generate pronunciation: timeout')
+      );
+
+      const response = await request(app)
+        .get('/api/testuser/flashcard/next')
+        .set('Authorization', 'Bearer token')
+        .query({
+          mode: 'AudioToMeaning',
+          chapterStart: '1',
+          chapterEnd: '5'
+        });
+
+      expect(response.status).toBe(502);
+      expect(response.body.error).toContain('Failed to generate pronunciation');
+    });
   });
 
   describe('GET /api/:username/flashcard/:id/answer', () => {
@@ -261,7 +470,7 @@ describe('Flashcard Routes', () => {
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockAnswer);
-      expect(FlashcardEngine.revealAnswer).toHaveBeenCalledWith('test-flashcard-id');
+      expect(FlashcardEngine.revealAnswer).toHaveBeenCalledWith(1, 1, 'test-flashcard-id', undefined);
     });
 
     it('should return 404 if flashcard not found', async () => {
@@ -276,6 +485,28 @@ describe('Flashcard Routes', () => {
       expect(response.body.error).toContain('not found');
     });
 
+    it('should return 403 if flashcard belongs to another user', async () => {
+      (FlashcardEngine.revealAnswer as jest.Mock).mockRejectedValue(
+        new Error('Flashcard does not belong to this user')
+      );
+
+      const response = await request(app)
+        .get('/api/testuser/flashcard/other-users-id/answer');
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toContain('does not belong');
+    });
+
+    it('should return 404 if user not found', async () => {
+      (UserDAO.findByUsername as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/api/nobody/flashcard/test-flashcard-id/answer');
+
+      expect(response.status).toBe(404);
+      expect(FlashcardEngine.revealAnswer).not.toHaveBeenCalled();
+    });
+
     it('should return 500 for unexpected errors', async () => {
       (FlashcardEngine.revealAnswer as jest.Mock).mockRejectedValue(
         new Error('Database error')
@@ -304,5 +535,338 @@ describe('Flashcard Routes', () => {
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockAnswer);
     });
+
+    it('should pass the selected option of a multiple-choice card', async () => {
+      const mockAnswer = {
+        chinese: '你好',
+        pinyin: 'nǐ hǎo',
+        correctOption: 2,
+        selectedOption: 1,
+        isCorrect: false
+      };
+
+      (FlashcardEngine.revealAnswer as jest.Mock).mockResolvedValue(mockAnswer);
+
+      const response = await request(app)
+        .get('/api/testuser/flashcard/test-flashcard-id/answer?selectedOption=1');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(mockAnswer);
+      expect(FlashcardEngine.revealAnswer).toHaveBeenCalledWith(1, 1, 'test-flashcard-id', 1);
+    });
+
+    it('should return 400 if selectedOption is not an integer', async () => {
+      const response = await request(app)
+        .get('/api/testuser/flashcard/test-flashcard-id/answer?selectedOption=abc');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('selectedOption');
+      expect(FlashcardEngine.revealAnswer).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if the card is not multiple choice', async () => {
+      (FlashcardEngine.revealAnswer as jest.Mock).mockRejectedValue(
+        new Error('Flashcard mode is not multiple choice')
+      );
+
+      const response = await request(app)
+        .get('/api/testuser/flashcard/test-flashcard-id/answer?selectedOption=0');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('not multiple choice');
+    });
+  });
+
+  describe('POST /api/:username/flashcard/:id/grade', () => {
+    it('should grade flashcard and return the new review state', async () => {
+      const mockReviewState = {
+        userId: 1,
+        vocabularyId: 'vocab-id-123',
+        mode: FlashcardMode.ChineseToMeanings,
+        easeFactor: 2.5,
+        intervalDays: 1,
+        repetitions: 1,
+        lapses: 0,
+        dueAt: '2026-01-02T00:00:00.000Z',
+        lastGrade: 'good'
+      };
+
+      (FlashcardEngine.gradeCard as jest.Mock).mockResolvedValue(mockReviewState);
+
+      const response = await request(app)
+        .post('/api/testuser/flashcard/test-flashcard-id/grade')
+        .set('Authorization', 'Bearer token')
+        .send({ grade: 'good' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(mockReviewState);
+      expect(FlashcardEngine.gradeCard).toHaveBeenCalledWith(1, 1, 'test-flashcard-id', 'good');
+    });
+
+    it('should return 401 without a token', async () => {
+      const response = await request(app)
+        .post('/api/testuser/flashcard/test-flashcard-id/grade')
+        .send({ grade: 'good' });
+
+      expect(response.status).toBe(401);
+      expect(FlashcardEngine.gradeCard).not.toHaveBeenCalled();
+    });
+
+    it("should return 403 for a user grading another family's words", async () => {
+      (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 5, username: 'stranger', role: 'parent', parentId: null });
+
+      const response = await request(app)
+        .post('/api/testuser/flashcard/test-flashcard-id/grade')
+        .set('Authorization', 'Bearer stranger-token')
+        .send({ grade: 'good' });
+
+      expect(response.status).toBe(403);
+      expect(FlashcardEngine.gradeCard).not.toHaveBeenCalled();
+    });
+
+    it("should record the grade for a child studying their parent's words", async () => {
+      (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 2, username: 'kid', role: 'child', parentId: 1 });
+      (FlashcardEngine.gradeCard as jest.Mock).mockResolvedValue({ userId: 2, vocabularyId: 'vocab-id-123' });
+
+      const response = await request(app)
+        .post('/api/testuser/flashcard/test-flashcard-id/grade')
+        .set('Authorization', 'Bearer kid-token')
+        .send({ grade: 'again' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.userId).toBe(2);
+      expect(FlashcardEngine.gradeCard).toHaveBeenCalledWith(1, 2, 'test-flashcard-id', 'again');
+    });
+
+    it('should return 400 if grade is missing', async () => {
+      const response = await request(app)
+        .post('/api/testuser/flashcard/test-flashcard-id/grade')
+        .set('Authorization', 'Bearer token')
+        .send({});
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('Invalid grade');
+      expect(FlashcardEngine.gradeCard).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if grade is invalid', async () => {
+      const response = await request(app)
+        .post('/api/testuser/flashcard/test-flashcard-id/grade')
+        .set('Authorization', 'Bearer token')
+        .send({ grade: 'perfect' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('Invalid grade');
+    });
+
+    it('should return 404 if user not found', async () => {
+      (UserDAO.findByUsername as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/nobody/flashcard/test-flashcard-id/grade')
+        .set('Authorization', 'Bearer token')
+        .send({ grade: 'easy' });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toContain('not found');
+    });
+
+    it('should return 404 if flashcard not found', async () => {
+      (FlashcardEngine.gradeCard as jest.Mock).mockRejectedValue(
+        new Error('Flashcard not found or expired')
+      );
+
+      const response = await request(app)
+        .post('/api/testuser/flashcard/invalid-id/grade')
+        .set('Authorization', 'Bearer token')
+        .send({ grade: 'again' });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toContain('not found');
+    });
+
+    it('should return 500 for unexpected errors', async () => {
+      (FlashcardEngine.gradeCard as jest.Mock).mockRejectedValue(
+        new Error('Database error')
+      );
+
+      const response = await request(app)
+        .post('/api/testuser/flashcard/test-id/grade')
+        .set('Authorization', 'Bearer token')
+        .send({ grade: 'hard' });
+
+      expect(response.status).toBe(500);
+      expect(response.body.error).toBe('Failed to grade flashcard');
+    });
+  });
+
+  describe('POST /api/:username/flashcard/:id/check', () => {
+    it('should check the typed answer and return the result', async () => {
+      const mockOutcome = {
+        result: 'tone-wrong',
+        answerType: 'pinyin',
+        syllables: [
+          { index: 0, expected: 'nǐ', given: 'nǐ', status: 'correct' },
+          { index: 1, expected: 'hǎo', given: 'hào', status: 'tone-wrong' }
+        ],
+        correctChinese: '你好',
+        correctPinyin: 'nǐ hǎo',
+        grade: 'hard',
+        reviewState: { userId: 1, vocabularyId: 'vocab-id-123', mode: FlashcardMode.EnglishToChineseTyped }
+      };
+
+      (FlashcardEngine.checkTypedAnswer as jest.Mock).mockResolvedValue(mockOutcome);
+
+      const response = await request(app)
+        .post('/api/testuser/flashcard/test-flashcard-id/check')
+        .set('Authorization', 'Bearer token')
+        .send({ answer: 'ni3 hao4' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(mockOutcome);
+      expect(FlashcardEngine.checkTypedAnswer).toHaveBeenCalledWith(1, 1, 'test-flashcard-id', 'ni3 hao4');
+    });
+
+    it("should return 403 for a child checking answers on another family's words", async () => {
+      (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 6, username: 'otherkid', role: 'child', parentId: 5 });
+
+      const response = await request(app)
+        .post('/api/testuser/flashcard/test-flashcard-id/check')
+        .set('Authorization', 'Bearer otherkid-token')
+        .send({ answer: 'ni3 hao3' });
+
+      expect(response.status).toBe(403);
+      expect(FlashcardEngine.checkTypedAnswer).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if answer is missing or blank', async () => {
+      const response = await request(app)
+        .post('/api/testuser/flashcard/test-flashcard-id/check')
+        .set('Authorization', 'Bearer token')
+        .send({ answer: '   ' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('answer is required');
+      expect(FlashcardEngine.checkTypedAnswer).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a flashcard that is not a typed-answer mode', async () => {
+      (FlashcardEngine.checkTypedAnswer as jest.Mock).mockRejectedValue(
+        new Error('Flashcard mode does not accept typed answers')
+      );
+
+      const response = await request(app)
+        .post('/api/testuser/flashcard/test-flashcard-id/check')
+        .set('Authorization', 'Bearer token')
+        .send({ answer: '你好' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('does not accept typed answers');
+    });
+
+    it('should return 403 if flashcard belongs to another user', async () => {
+      (FlashcardEngine.checkTypedAnswer as jest.Mock).mockRejectedValue(
+        new Error('Flashcard does not belong to this user')
+      );
+
+      const response = await request(app)
+        .post('/api/testuser/flashcard/test-flashcard-id/check')
+        .set('Authorization', 'Bearer token')
+        .send({ answer: '你好' });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should return 404 if flashcard not found', async () => {
+      (FlashcardEngine.checkTypedAnswer as jest.Mock).mockRejectedValue(
+        new Error('Flashcard not found or expired')
+      );
+
+      const response = await request(app)
+        .post('/api/testuser/flashcard/invalid-id/check')
+        .set('Authorization', 'Bearer token')
+        .send({ answer: 'ni3 hao3' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/:username/flashcard/leeches', () => {
+    const tokens: Record<string, object> = {
+      parent: { userId: 10, username: 'mum', role: 'parent', parentId: null },
+      otherParent: { userId: 11, username: 'other', role: 'parent', parentId: null },
+      child: { userId: 1, username: 'testuser', role: 'child', parentId: 10 },
+      admin: { userId: 99, username: 'admin', role: 'admin', parentId: null }
+    };
+
+    const mockLeeches = [
+      {
+        vocabularyId: 'vocab-id-123',
+        chineseCharacter: '你好',
+        pinyin: 'nǐ hǎo',
+        chapter: 1,
+        isFavorite: true,
+        lapses: 5,
+        modes: ['ChineseToMeanings']
+      }
+    ];
+
+    beforeEach(() => {
+      (AuthService.verifyToken as jest.Mock).mockImplementation((token: string) => tokens[token] || null);
+      (UserDAO.findByUsername as jest.Mock).mockResolvedValue({ id: 1, username: 'testuser', parentId: 10 });
+      (LeechDetector.getReport as jest.Mock).mockResolvedValue(mockLeeches);
+    });
+
+    it("should return a child's leeches to their parent", async () => {
+      const response = await request(app)
+        .get('/api/testuser/flashcard/leeches')
+        .set('Authorization', 'Bearer parent');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ username: 'testuser', threshold: 4, leeches: mockLeeches });
+      expect(LeechDetector.getReport).toHaveBeenCalledWith(1);
+    });
+
+    it('should allow admins to see any report', async () => {
+      const response = await request(app)
+        .get('/api/testuser/flashcard/leeches')
+        .set('Authorization', 'Bearer admin');
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should return 403 to a parent of another child', async () => {
+      const response = await request(app)
+        .get('/api/testuser/flashcard/leeches')
+        .set('Authorization', 'Bearer otherParent');
+
+      expect(response.status).toBe(403);
+      expect(LeechDetector.getReport).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 to children', async () => {
+      const response = await request(app)
+        .get('/api/testuser/flashcard/leeches')
+        .set('Authorization', 'Bearer child');
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should return 401 without a token', async () => {
+      const response = await request(app)
+        .get('/api/testuser/flashcard/leeches');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should return 404 if user not found', async () => {
+      (UserDAO.findByUsername as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/api/nobody/flashcard/leeches')
+        .set('Authorization', 'Bearer parent');
+
+      expect(response.status).toBe(404);
+    });
   });
 });
@@ -4,34 +4,62 @@
  * Provides REST API endpoints for flashcard functionality:
  * - GET /api/:username/flashcard/next - Get next flashcard
  * - GET /api/:username/flashcard/:id/answer - Reveal flashcard answer
+ * - POST /api/:username/flashcard/:id/grade - Grade flashcard and schedule next review
+ * - POST /api/:username/flashcard/:id/check - Check a typed answer and grade flashcard from it
+ * - GET /api/:username/flashcard/leeches - List words the user keeps forgetting (parents/admins)
+ *
+ * :username names the owner of the vocabulary. Review state and issued cards belong to the signed-in
+ * learner, so a child studying their parent's words keeps their own schedule. Issuing and grading cards
+ * requires a learner allowed to study the owner's words (themselves, their child, or an admin).
  */
 
-import { Router, Request, Response } from 'express';
+import { Router, Response } from 'express';
 import { FlashcardEngine, FlashcardMode } from '../services/FlashcardEngine';
-import { ChapterRange } from '../services/ChapterFilter';
+import { ChapterFilter, ChapterRange, ChapterSelection, ChapterScope } from '../services/ChapterFilter';
+import { ReviewScheduler, REVIEW_GRADES } from '../services/ReviewScheduler';
+import { LeechDetector } from '../services/LeechDetector';
+import { StudyService } from '../services/StudyService';
+import { authenticateJWT, optionalJWT, AuthRequest, requireRole, canStudyVocabulary } from '../middleware/auth';
+import { config } from '../config/env';
 
 const router = Router();
 
 /**
  * GET /api/:username/flashcard/next
  * 
- * Get next flashcard for specified mode and chapter range
+ * Get next flashcard for specified mode and chapter range or selection
  * 
  * Query Parameters:
- * - mode: FlashcardMode (ChineseToMeanings, EnglishToChinese, VietnameseToChinese)
- * - chapterStart: number (required)
- * - chapterEnd: number (required)
+ * - mode: FlashcardMode (ChineseToMeanings, EnglishToChinese, VietnameseToChinese,
+ *         EnglishToChineseTyped, VietnameseToChineseTyped, ChineseToMeaningsMultipleChoice,
+ *         EnglishToChineseMultipleChoice, VietnameseToChineseMultipleChoice,
+ *         AudioToMeaning, PinyinToChinese, HanVietnameseToChinese)
+ * - chapterStart, chapterEnd: number (chapter range, both or neither)
+ * - chapters: comma-separated chapter numbers (e.g. 3,7,12)
+ * - ranges: comma-separated chapter ranges (e.g. 1-5,8-10)
+ * - chapterLabel: chapter label (repeat the parameter for several labels)
+ * - tags: comma-separated tags; only words carrying one of them (e.g. food,HSK2)
+ * - favoritesOnly: true/false
+ * - excludeChapters: comma-separated chapter numbers to leave out
+ * - excludeChapterLabel: chapter label to leave out (repeatable)
+ * - excludeTags: comma-separated tags to leave out
+ * At least a chapter range or one of the selection parameters is required.
+ * - session: 'today' (optional) - only due cards and new cards within the daily new-word limit
+ *            (paced by the signed-in learner's own limit, also when a child studies their parent's words)
  * 
  * Response:
- * - 200: Flashcard object
+ * - 200: Flashcard object (multiple-choice modes include 4 options)
  * - 400: Invalid parameters
- * - 404: No vocabulary found
+ * - 401: Not signed in
+ * - 403: Not allowed to study this user's words
+ * - 404: No vocabulary found (or too few words for multiple choice), or today's session is complete
  * - 500: Server error
+ * - 502: Audio could not be generated (AudioToMeaning)
  */
-router.get('/:username/flashcard/next', async (req: Request, res: Response) => {
+router.get('/:username/flashcard/next', authenticateJWT, async (req: AuthRequest, res: Response) => {
   try {
     const { username } = req.params;
-    const { mode, chapterStart, chapterEnd } = req.query;
+    const { mode, chapterStart, chapterEnd, session } = req.query;
 
     // Validate username
     if (!username || typeof username !== 'string') {
@@ -49,39 +77,76 @@ router.get('/:username/flashcard/next', async (req: Request, res: Response) => {
 
     if (!Object.values(FlashcardMode).includes(mode as FlashcardMode)) {
       return res.status(400).json({ 
-        error: 'Invalid mode. Must be one of: ChineseToMeanings, EnglishToChinese, VietnameseToChinese' 
+        error: `Invalid mode. Must be one of: ${Object.values(FlashcardMode).join(', ')}` 
       });
     }
 
-    // Validate chapter range
-    if (!chapterStart || !chapterEnd) {
+    // Validate session
+    if (session !== undefined && session !== 'today') {
       return res.status(400).json({ 
-        error: 'chapterStart and chapterEnd parameters are required' 
+        error: "Invalid session. Must be 'today'" 
       });
     }
 
-    const start = parseInt(chapterStart as string, 10);
-    const end = parseInt(chapterEnd as string, 10);
+    // Validate chapter range (optional when another selection is given)
+    let chapterRange: ChapterRange | undefined;
+    if (chapterStart !== undefined || chapterEnd !== undefined) {
+      if (!chapterStart || !chapterEnd) {
+        return res.status(400).json({ 
+          error: 'chapterStart and chapterEnd parameters are required' 
+        });
+      }
 
-    if (isNaN(start) || isNaN(end)) {
-      return res.status(400).json({ 
-        error: 'chapterStart and chapterEnd must be valid numbers' 
-      });
+      const start = parseInt(chapterStart as string, 10);
+      const end = parseInt(chapterEnd as string, 10);
+
+      if (isNaN(start) || isNaN(end)) {
+        return res.status(400).json({ 
+          error: 'chapterStart and chapterEnd must be valid numbers' 
+        });
+      }
+
+      if (start < 1 || end < 1) {
+        return res.status(400).json({ 
+          error: 'Chapter numbers must be positive integers' 
+        });
+      }
+
+      if (start > end) {
+        return res.status(400).json({ 
+          error: 'chapterStart must be less than or equal to chapterEnd' 
+        });
+      }
+
+      chapterRange = { start, end };
     }
 
-    if (start < 1 || end < 1) {
+    // Validate chapter selection (chapter lists, ranges, labels, favorites, exclusions)
+    let selection: ChapterSelection;
+    try {
+      selection = ChapterFilter.parseSelection(req.query);
+    } catch (parseError) {
       return res.status(400).json({ 
-        error: 'Chapter numbers must be positive integers' 
+        error: (parseError as Error).message 
       });
     }
 
-    if (start > end) {
+    const hasSelection = Object.keys(selection).length > 0;
+    if (!chapterRange && !hasSelection) {
       return res.status(400).json({ 
-        error: 'chapterStart must be less than or equal to chapterEnd' 
+        error: 'A chapter range or selection is required (chapterStart and chapterEnd, chapters, ranges, chapterLabel, tags or favoritesOnly)' 
       });
     }
 
-    const chapterRange: ChapterRange = { start, end };
+    // A plain chapter range is passed as is; otherwise the range joins the selection
+    let scope: ChapterScope;
+    if (chapterRange && !hasSelection) {
+      scope = chapterRange;
+    } else {
+      scope = chapterRange
+        ? { ...selection, ranges: [...(selection.ranges || []), chapterRange] }
+        : selection;
+    }
 
     // Resolve username to userId
     const { UserDAO } = await import('../models/User');
@@ -90,11 +155,24 @@ router.get('/:username/flashcard/next', async (req: Request, res: Response) => {
       return res.status(404).json({ error: `User "${username}" not found` });
     }
 
+    // Only the owner, their children and admins study these words
+    if (!req.user || !canStudyVocabulary(req.user, user.id)) {
+      return res.status(403).json({ error: 'Access denied.' });
+    }
+
+    // Today's session caps new cards by the learner's own limit and ends when nothing is left
+    const learnerId = req.user.userId;
+    const dailyNewLimit = session === 'today'
+      ? await StudyService.resolveDailyNewLimit(user, learnerId)
+      : undefined;
+
     // Get next flashcard
     const flashcard = await FlashcardEngine.getNextCard(
       user.id,
+      learnerId,
       mode as FlashcardMode,
-      chapterRange
+      scope,
+      dailyNewLimit
     );
 
     res.json(flashcard);
@@ -103,11 +181,18 @@ router.get('/:username/flashcard/next', async (req: Request, res: Response) => {
     
     if (error instanceof Error) {
       if (error.message.includes('No vocabulary found') || 
-          error.message.includes('Invalid chapter range')) {
+          error.message.includes('Invalid chapter range') ||
+          error.message.includes('Not enough vocabulary') ||
+          error.message.includes("Today's session is complete")) {
         return res.status(404).json({ 
           error: error.message 
         });
       }
+      if (error.message.includes('Failed to generate pronunciation')) {
+        return res.status(502).json({ 
+          error: error.message 
+        });
+      }
     }
     
     res.status(500).json({ 
@@ -125,15 +210,20 @@ router.get('/:username/flashcard/next', async (req: Request, res: Response) => {
  * - username: string (required)
  * - id: string (flashcard ID, required)
  * 
+ * Query Parameters:
+ * - selectedOption: number (optional, multiple-choice cards only) - index of the chosen option
+ * 
  * Response:
- * - 200: FlashcardAnswer object
- * - 400: Invalid parameters
- * - 404: Flashcard not found
+ * - 200: FlashcardAnswer object (multiple-choice cards include correctOption, and isCorrect when an option was sent)
+ * - 400: Invalid parameters or option
+ * - 403: Flashcard was issued to another user
+ * - 404: User or flashcard not found (or expired)
  * - 500: Server error
  */
-router.get('/:username/flashcard/:id/answer', async (req: Request, res: Response) => {
+router.get('/:username/flashcard/:id/answer', optionalJWT, async (req: AuthRequest, res: Response) => {
   try {
     const { username, id } = req.params;
+    const { selectedOption } = req.query;
 
     // Validate username
     if (!username || typeof username !== 'string') {
@@ -149,14 +239,44 @@ router.get('/:username/flashcard/:id/answer', async (req: Request, res: Response
       });
     }
 
-    // Reveal answer
-    const answer = await FlashcardEngine.revealAnswer(id);
+    // Validate selected option
+    let option: number | undefined;
+    if (selectedOption !== undefined) {
+      option = Number(selectedOption);
+      if (typeof selectedOption !== 'string' || !Number.isInteger(option)) {
+        return res.status(400).json({ 
+          error: 'selectedOption must be an integer' 
+        });
+      }
+    }
+
+    // Resolve username to userId
+    const { UserDAO } = await import('../models/User');
+    const user = await UserDAO.findByUsername(username);
+    if (!user) {
+      return res.status(404).json({ error: `User "${username}" not found` });
+    }
+
+    // Reveal answer (and check the selected option)
+    const learnerId = req.user?.userId || user.id;
+    const answer = await FlashcardEngine.revealAnswer(user.id, learnerId, id, option);
 
     res.json(answer);
   } catch (error) {
     console.error('Error revealing flashcard answer:', error);
     
     if (error instanceof Error) {
+      if (error.message.includes('not multiple choice') ||
+          error.message.includes('Invalid option')) {
+        return res.status(400).json({ 
+          error: error.message 
+        });
+      }
+      if (error.message.includes('does not belong')) {
+        return res.status(403).json({ 
+          error: error.message 
+        });
+      }
       if (error.message.includes('not found') || 
           error.message.includes('expired')) {
         return res.status(404).json({ 
@@ -171,4 +291,229 @@ router.get('/:username/flashcard/:id/answer', async (req: Request, res: Response
   }
 });
 
+/**
+ * POST /api/:username/flashcard/:id/grade
+ * 
+ * Grade a flashcard and schedule its next review for the signed-in learner
+ * 
+ * Path Parameters:
+ * - username: string (required)
+ * - id: string (flashcard ID, required)
+ * 
+ * Request Body:
+ * - grade: 'again' | 'hard' | 'good' | 'easy' (required)
+ * 
+ * Response:
+ * - 200: Updated review state (ease, interval, due date, lapses)
+ * - 400: Invalid parameters
+ * - 401: Not signed in
+ * - 403: Not allowed to study this user's words, or flashcard was issued to another user
+ * - 404: User or flashcard not found (or expired)
+ * - 500: Server error
+ */
+router.post('/:username/flashcard/:id/grade', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username, id } = req.params;
+    const { grade } = req.body;
+
+    // Validate username
+    if (!username || typeof username !== 'string') {
+      return res.status(400).json({ 
+        error: 'Invalid username' 
+      });
+    }
+
+    // Validate flashcard ID
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ 
+        error: 'Invalid flashcard ID' 
+      });
+    }
+
+    // Validate grade
+    if (!ReviewScheduler.isValidGrade(grade)) {
+      return res.status(400).json({ 
+        error: `Invalid grade. Must be one of: ${REVIEW_GRADES.join(', ')}` 
+      });
+    }
+
+    // Resolve username to userId
+    const { UserDAO } = await import('../models/User');
+    const user = await UserDAO.findByUsername(username);
+    if (!user) {
+      return res.status(404).json({ error: `User "${username}" not found` });
+    }
+
+    // Only the owner, their children and admins study these words
+    if (!req.user || !canStudyVocabulary(req.user, user.id)) {
+      return res.status(403).json({ error: 'Access denied.' });
+    }
+
+    const learnerId = req.user.userId;
+    const reviewState = await FlashcardEngine.gradeCard(user.id, learnerId, id, grade);
+
+    res.json(reviewState);
+  } catch (error) {
+    console.error('Error grading flashcard:', error);
+    
+    if (error instanceof Error) {
+      if (error.message.includes('does not belong')) {
+        return res.status(403).json({ 
+          error: error.message 
+        });
+      }
+      if (error.message.includes('not found') || 
+          error.message.includes('expired')) {
+        return res.status(404).json({ 
+          error: error.message 
+        });
+      }
+    }
+    
+    res.status(500).json({ 
+      error: 'Failed to grade flashcard' 
+    });
+  }
+});
+
+/**
+ * POST /api/:username/flashcard/:id/check
+ * 
+ * Check a typed answer for a typed-answer flashcard and grade it automatically
+ * (exact → good, tone-wrong → hard, wrong → again)
+ * 
+ * Path Parameters:
+ * - username: string (required)
+ * - id: string (flashcard ID, required)
+ * 
+ * Request Body:
+ * - answer: string (required) - hanzi, or pinyin with tone numbers ("ni3 hao3") or tone marks ("nǐ hǎo")
+ * 
+ * Response:
+ * - 200: Result (exact, tone-wrong, wrong), per-syllable details, correct answer and review state
+ * - 400: Invalid parameters or flashcard is not a typed-answer mode
+ * - 401: Not signed in
+ * - 403: Not allowed to study this user's words, or flashcard was issued to another user
+ * - 404: User or flashcard not found (or expired)
+ * - 500: Server error
+ */
+router.post('/:username/flashcard/:id/check', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username, id } = req.params;
+    const { answer } = req.body;
+
+    // Validate username
+    if (!username || typeof username !== 'string') {
+      return res.status(400).json({ 
+        error: 'Invalid username' 
+      });
+    }
+
+    // Validate flashcard ID
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ 
+        error: 'Invalid flashcard ID' 
+      });
+    }
+
+    // Validate answer
+    if (typeof answer !== 'string' || answer.trim().length === 0) {
+      return res.status(400).json({ 
+        error: 'answer is required' 
+      });
+    }
+
+    // Resolve username to userId
+    const { UserDAO } = await import('../models/User');
+    const user = await UserDAO.findByUsername(username);
+    if (!user) {
+      return res.status(404).json({ error: `User "${username}" not found` });
+    }
+
+    // Only the owner, their children and admins study these words
+    if (!req.user || !canStudyVocabulary(req.user, user.id)) {
+      return res.status(403).json({ error: 'Access denied.' });
+    }
+
+    const learnerId = req.user.userId;
+    const result = await FlashcardEngine.checkTypedAnswer(user.id, learnerId, id, answer);
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error checking flashcard answer:', error);
+    
+    if (error instanceof Error) {
+      if (error.message.includes('does not accept typed answers')) {
+        return res.status(400).json({ 
+          error: error.message 
+        });
+      }
+      if (error.message.includes('does not belong')) {
+        return res.status(403).json({ 
+          error: error.message 
+        });
+      }
+      if (error.message.includes('not found') || 
+          error.message.includes('expired')) {
+        return res.status(404).json({ 
+          error: error.message 
+        });
+      }
+    }
+    
+    res.status(500).json({ 
+      error: 'Failed to check flashcard answer' 
+    });
+  }
+});
+
+/**
+ * GET /api/:username/flashcard/leeches
+ * 
+ * List the user's leeches as a learner: words they lapsed on LEECH_LAPSE_THRESHOLD times or more in a mode,
+ * including words of their parent's vocabulary they study.
+ * Leeches are marked as favorites automatically when they are detected.
+ * PROTECTED: Admin, or parent looking at themselves or one of their children
+ * 
+ * Path Parameters:
+ * - username: string (required)
+ * 
+ * Response:
+ * - 200: { username, threshold, leeches: Leech[] } (worst first)
+ * - 403: Not the user's parent
+ * - 404: User not found
+ * - 500: Server error
+ */
+router.get('/:username/flashcard/leeches', authenticateJWT, requireRole(['admin', 'parent']), async (req: AuthRequest, res: Response) => {
+  try {
+    const { username } = req.params;
+
+    // Resolve username to userId
+    const { UserDAO } = await import('../models/User');
+    const user = await UserDAO.findByUsername(username);
+    if (!user) {
+      return res.status(404).json({ error: `User "${username}" not found` });
+    }
+
+    // Parents can only see their own report and their children's
+    if (req.user && req.user.role === 'parent' &&
+        user.id !== req.user.userId && user.parentId !== req.user.userId) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const leeches = await LeechDetector.getReport(user.id);
+
+    res.json({
+      username: user.username,
+      threshold: config.flashcard.leechLapseThreshold,
+      leeches
+    });
+  } catch (error) {
+    console.error('Error getting leech report:', error);
+    res.status(500).json({ 
+      error: 'Failed to get leech report' 
+    });
+  }
+});
+
 export default router;
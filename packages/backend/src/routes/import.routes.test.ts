@@ -0,0 +1,194 @@
+/**
+ * Vocabulary Import Routes Tests
+ *
+ * Tests for vocabulary file import API endpoints
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import importRoutes from './import.routes';
+import { VocabularyImporter, ImportTable } from '../services/VocabularyImporter';
+import { UserDAO } from '../models/User';
+import { AuthService } from '../services/AuthService';
+
+jest.mock('../services/VocabularyImporter');
+jest.mock('../models/User');
+jest.mock('../services/AuthService');
+
+describe('Vocabulary Import Routes', () => {
+  let app: Express;
+
+  const table: ImportTable = {
+    format: 'csv',
+    headers: ['Hanzi', 'English'],
+    rows: [['你好', 'hello']],
+    hasHeader: true
+  };
+  const csv = Buffer.from('Hanzi,English\n你好,hello\n');
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', importRoutes);
+    jest.clearAllMocks();
+    (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 1, username: 'parent', role: 'parent', parentId: null });
+    (UserDAO.findByUsername as jest.Mock).mockResolvedValue({ id: 1, username: 'parent', role: 'parent' });
+    (VocabularyImporter.parseFile as jest.Mock).mockResolvedValue(table);
+  });
+
+  describe('POST /api/:username/vocabulary/import/preview', () => {
+    it('should return the headers, suggested mapping and mapped rows', async () => {
+      (VocabularyImporter.suggestMapping as jest.Mock).mockReturnValue({ chineseCharacter: 0, englishMeaning: 1 });
+      (VocabularyImporter.buildEntries as jest.Mock).mockReturnValue({
+        rows: [{ row: 2, entry: { chineseCharacter: '你好', englishMeaning: 'hello', chapter: 1 } }],
+        errors: []
+      });
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary/import/preview')
+        .set('Authorization', 'Bearer token')
+        .field('chapter', '1')
+        .attach('file', csv, 'list.csv');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        format: 'csv',
+        headers: ['Hanzi', 'English'],
+        mapping: { chineseCharacter: 0, englishMeaning: 1 },
+        rowCount: 1,
+        errors: []
+      });
+      expect(VocabularyImporter.parseFile).toHaveBeenCalledWith(expect.any(Buffer), 'list.csv', undefined);
+      expect(VocabularyImporter.buildEntries).toHaveBeenCalledWith(table, { chineseCharacter: 0, englishMeaning: 1 }, { chapter: 1 });
+    });
+
+    it('should use the given mapping and header setting', async () => {
+      (VocabularyImporter.buildEntries as jest.Mock).mockReturnValue({ rows: [], errors: [] });
+
+      await request(app)
+        .post('/api/parent/vocabulary/import/preview')
+        .set('Authorization', 'Bearer token')
+        .field('mapping', JSON.stringify({ chineseCharacter: 1 }))
+        .field('hasHeader', 'false')
+        .attach('file', csv, 'list.csv');
+
+      expect(VocabularyImporter.parseFile).toHaveBeenCalledWith(expect.any(Buffer), 'list.csv', false);
+      expect(VocabularyImporter.suggestMapping).not.toHaveBeenCalled();
+      expect(VocabularyImporter.buildEntries).toHaveBeenCalledWith(table, { chineseCharacter: 1 }, {});
+    });
+
+    it('should return 400 without a file', async () => {
+      const response = await request(app)
+        .post('/api/parent/vocabulary/import/preview')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 400 for an unsupported file', async () => {
+      (VocabularyImporter.parseFile as jest.Mock).mockRejectedValue(new Error('Unsupported file type ".xlsx"'));
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary/import/preview')
+        .set('Authorization', 'Bearer token')
+        .attach('file', csv, 'list.xlsx');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should not let children import', async () => {
+      (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 2, username: 'child', role: 'child', parentId: 1 });
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary/import/preview')
+        .set('Authorization', 'Bearer token')
+        .attach('file', csv, 'list.csv');
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('POST /api/:username/vocabulary/import', () => {
+    it('should import the file with the mapping and defaults', async () => {
+      const summary = { total: 1, imported: 1, updated: 0, skipped: 0, failed: 0, results: [{ row: 2, chineseCharacter: '你好', success: true, status: 'created', id: 'v1' }] };
+      (VocabularyImporter.importTable as jest.Mock).mockResolvedValue(summary);
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary/import')
+        .set('Authorization', 'Bearer token')
+        .field('mapping', JSON.stringify({ chineseCharacter: 0, englishMeaning: 1 }))
+        .field('chapter', '4')
+        .field('chapterLabel', ' HSK 1 ')
+        .field('autoTranslate', 'true')
+        .field('onDuplicate', 'update')
+        .field('tags', 'food, HSK2')
+        .attach('file', csv, 'list.csv');
+
+      expect(response.status).toBe(201);
+      expect(response.body).toEqual(summary);
+      expect(VocabularyImporter.importTable).toHaveBeenCalledWith(
+        1,
+        'parent',
+        table,
+        { chineseCharacter: 0, englishMeaning: 1 },
+        { chapter: 4, chapterLabel: 'HSK 1' },
+        { autoTranslate: true, onDuplicate: 'update', changedBy: 1, tags: ['food', 'HSK2'] }
+      );
+    });
+
+    it('should return 400 without a mapping', async () => {
+      const response = await request(app)
+        .post('/api/parent/vocabulary/import')
+        .set('Authorization', 'Bearer token')
+        .attach('file', csv, 'list.csv');
+
+      expect(response.status).toBe(400);
+      expect(VocabularyImporter.importTable).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid mapping', async () => {
+      const response = await request(app)
+        .post('/api/parent/vocabulary/import')
+        .set('Authorization', 'Bearer token')
+        .field('mapping', 'not json')
+        .attach('file', csv, 'list.csv');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 400 for an unknown duplicate action', async () => {
+      const response = await request(app)
+        .post('/api/parent/vocabulary/import')
+        .set('Authorization', 'Bearer token')
+        .field('mapping', JSON.stringify({ chineseCharacter: 0 }))
+        .field('onDuplicate', 'replace')
+        .attach('file', csv, 'list.csv');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 400 when the file has too many rows', async () => {
+      (VocabularyImporter.importTable as jest.Mock).mockRejectedValue(new Error('Maximum 2000 rows per import'));
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary/import')
+        .set('Authorization', 'Bearer token')
+        .field('mapping', JSON.stringify({ chineseCharacter: 0 }))
+        .attach('file', csv, 'list.csv');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      (UserDAO.findByUsername as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/nobody/vocabulary/import')
+        .set('Authorization', 'Bearer token')
+        .field('mapping', JSON.stringify({ chineseCharacter: 0 }))
+        .attach('file', csv, 'list.csv');
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
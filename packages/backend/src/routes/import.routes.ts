@@ -0,0 +1,186 @@
+/**
+ * Vocabulary Import API Routes
+ *
+ * File import of vocabulary lists (CSV, TSV, Anki text exports and .apkg packages):
+ * - POST /api/:username/vocabulary/import/preview - Parse a file and preview the mapped rows
+ * - POST /api/:username/vocabulary/import - Import a file with a column mapping
+ *
+ * Both take multipart/form-data with the file in the "file" field.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { VocabularyImporter, ColumnMapping, ImportDefaults, ImportTable } from '../services/VocabularyImporter';
+import { authenticateJWT, AuthRequest, requireRole } from '../middleware/auth';
+import { UserDAO } from '../models/User';
+import { DuplicateAction, DUPLICATE_ACTIONS } from '../services/DuplicateService';
+import { TagService } from '../services/TagService';
+
+const router = Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 20 * 1024 * 1024 } // 20MB, .apkg files can include media
+});
+
+/**
+ * Helper: accept a single uploaded file, answering 400 for upload errors
+ */
+function uploadFile(req: Request, res: Response, next: NextFunction) {
+  upload.single('file')(req, res, (error: unknown) => {
+    if (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid upload' });
+    }
+    next();
+  });
+}
+
+/**
+ * Helper: read the form fields shared by preview and import
+ * Throws with a message suitable for a 400 response.
+ */
+function parseImportForm(body: Record<string, string | undefined>): { hasHeader?: boolean; mapping?: ColumnMapping; defaults: ImportDefaults; onDuplicate?: DuplicateAction } {
+  const hasHeader = body.hasHeader === undefined || body.hasHeader === '' ? undefined : body.hasHeader === 'true';
+
+  let mapping: ColumnMapping | undefined;
+  if (body.mapping) {
+    try {
+      mapping = JSON.parse(body.mapping);
+    } catch {
+      throw new Error('mapping must be a JSON object');
+    }
+    if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+      throw new Error('mapping must be a JSON object');
+    }
+  }
+
+  const defaults: ImportDefaults = {};
+  if (body.chapter) {
+    const chapter = Number(body.chapter);
+    if (!Number.isInteger(chapter) || chapter < 1) {
+      throw new Error('chapter must be a valid integer');
+    }
+    defaults.chapter = chapter;
+  }
+  if (body.chapterLabel && body.chapterLabel.trim()) {
+    defaults.chapterLabel = body.chapterLabel.trim();
+  }
+
+  const onDuplicate = body.onDuplicate ? body.onDuplicate as DuplicateAction : undefined;
+  if (onDuplicate && !DUPLICATE_ACTIONS.includes(onDuplicate)) {
+    throw new Error(`onDuplicate must be one of: ${DUPLICATE_ACTIONS.join(', ')}`);
+  }
+
+  return { hasHeader, mapping, defaults, onDuplicate };
+}
+
+/**
+ * POST /api/:username/vocabulary/import/preview
+ *
+ * Parse a file and show how its rows would be imported
+ * PROTECTED: Admin and parent only
+ *
+ * Form Fields:
+ * - file: .csv, .tsv, .txt (Anki text export) or .apkg (required)
+ * - hasHeader: "true" | "false" - first row holds column names (optional, detected when omitted)
+ * - mapping: JSON { [field]: columnIndex } (optional, suggested from the headers when omitted)
+ * - chapter, chapterLabel: defaults for rows without them (optional)
+ *
+ * Response:
+ * - 200: { format, headers, hasHeader, mapping, rowCount, sampleRows, entries, errors }
+ * - 400: No file, unsupported or unreadable file, invalid mapping
+ * - 404: User not found
+ * - 500: Server error
+ */
+router.post('/:username/vocabulary/import/preview', authenticateJWT, requireRole(['admin', 'parent']), uploadFile, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username } = req.params;
+    const file = (req as Request).file;
+    if (!file) return res.status(400).json({ error: 'file is required' });
+
+    const user = await UserDAO.findByUsername(username);
+    if (!user) return res.status(404).json({ error: `User "${username}" not found` });
+
+    const form = parseImportForm(req.body);
+    const table: ImportTable = await VocabularyImporter.parseFile(file.buffer, file.originalname, form.hasHeader);
+    const mapping = form.mapping || VocabularyImporter.suggestMapping(table);
+
+    const built = mapping.chineseCharacter !== undefined
+      ? VocabularyImporter.buildEntries(table, mapping, form.defaults)
+      : { rows: [], errors: [] };
+
+    res.json({
+      format: table.format,
+      headers: table.headers,
+      hasHeader: table.hasHeader,
+      mapping,
+      rowCount: table.rows.length,
+      sampleRows: table.rows.slice(0, VocabularyImporter.PREVIEW_ROWS),
+      entries: built.rows.slice(0, VocabularyImporter.PREVIEW_ROWS),
+      errors: built.errors
+    });
+  } catch (error) {
+    console.error('Error previewing vocabulary import:', error);
+    if (error instanceof Error && /Unsupported|Invalid|mapping|chapter|onDuplicate|no rows|no notes|must be mapped/.test(error.message)) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to preview import' });
+  }
+});
+
+/**
+ * POST /api/:username/vocabulary/import
+ *
+ * Import a file into the user's vocabulary
+ * PROTECTED: Admin and parent only
+ *
+ * Form Fields:
+ * - file: .csv, .tsv, .txt (Anki text export) or .apkg (required)
+ * - mapping: JSON { [field]: columnIndex }, chineseCharacter required (required)
+ *   fields: chineseCharacter, pinyin, hanVietnamese, modernVietnamese, englishMeaning, learningNote, chapter, chapterLabel
+ * - hasHeader: "true" | "false" (optional, detected when omitted)
+ * - chapter, chapterLabel: defaults for rows without them (optional)
+ * - autoTranslate: "true" to translate missing meanings (optional, default false)
+ * - onDuplicate: skip | update | keepBoth - words that already exist or repeat in the file (optional, default skip)
+ * - tags: comma-separated tags added to every imported word, including skipped existing words (optional)
+ *
+ * Response:
+ * - 201: { total, imported, updated, skipped, failed, results: [{ row, chineseCharacter, success, status?, id?, error? }] }
+ * - 400: No file or mapping, unsupported file, invalid mapping, too many rows
+ * - 404: User not found
+ * - 500: Server error
+ */
+router.post('/:username/vocabulary/import', authenticateJWT, requireRole(['admin', 'parent']), uploadFile, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username } = req.params;
+    const file = (req as Request).file;
+    if (!file) return res.status(400).json({ error: 'file is required' });
+
+    const form = parseImportForm(req.body);
+    if (!form.mapping) return res.status(400).json({ error: 'mapping is required' });
+    const tags = TagService.parseNames(req.body.tags ?? []);
+
+    const user = await UserDAO.findByUsername(username);
+    if (!user) return res.status(404).json({ error: `User "${username}" not found` });
+
+    const table = await VocabularyImporter.parseFile(file.buffer, file.originalname, form.hasHeader);
+    const summary = await VocabularyImporter.importTable(
+      user.id,
+      user.username,
+      table,
+      form.mapping,
+      form.defaults,
+      { autoTranslate: req.body.autoTranslate === 'true', onDuplicate: form.onDuplicate, changedBy: req.user?.userId, tags }
+    );
+
+    res.status(201).json(summary);
+  } catch (error) {
+    console.error('Error importing vocabulary:', error);
+    if (error instanceof Error && /Unsupported|Invalid|mapping|chapter|onDuplicate|no rows|no notes|must be mapped|Maximum/.test(error.message)) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to import vocabulary' });
+  }
+});
+
+export default router;
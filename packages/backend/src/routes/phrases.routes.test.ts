@@ -25,8 +25,17 @@ jest.mock('../services/PhraseGeneratorService', () => ({
   }))
 }));
 
+// Mock token verification for endpoints that require a signed-in user
+jest.mock('../services/AuthService');
+
+// Mock the decomposition lookups of the character details
+jest.mock('../services/CharacterDecompositionService');
+
 // Import routes after mocks are set up
 import phrasesRoutes from './phrases.routes';
+import { AuthService } from '../services/AuthService';
+import { ChapterFilter } from '../services/ChapterFilter';
+import { CharacterDecompositionService } from '../services/CharacterDecompositionService';
 
 describe('Phrases Routes', () => {
   let app: Express;
@@ -174,6 +183,76 @@ describe('Phrases Routes', () => {
     });
   });
 
+  describe('GET /api/phrases/sentences', () => {
+    const sentenceRows = [
+      {
+        id: 'uuid-1',
+        vocab_group_id: 1,
+        chinese_text: '我喜欢学习中文',
+        pinyin: 'wǒ xǐhuān xuéxí zhōngwén',
+        used_characters: JSON.stringify(['我', '喜欢', '学习', '中文']),
+        generation_timestamp: new Date('2024-01-01T00:00:00Z')
+      },
+      {
+        id: 'uuid-2',
+        vocab_group_id: 2,
+        chinese_text: '今天天气很好',
+        pinyin: 'jīntiān tiānqì hěn hǎo',
+        used_characters: ['今天', '天气', '很', '好'],
+        generation_timestamp: new Date('2024-01-01T00:00:00Z')
+      }
+    ] as RowDataPacket[];
+
+    beforeEach(() => {
+      (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 7, username: 'parent', role: 'parent', parentId: null });
+      jest.spyOn(ChapterFilter, 'getCharactersInRange').mockResolvedValue(['学习', '天气']);
+    });
+
+    it('should return sentences that use words from the selection', async () => {
+      mockQuery.mockResolvedValue([sentenceRows]);
+
+      const response = await request(app)
+        .get('/api/phrases/sentences')
+        .query({ chapters: '3,7', chapterLabel: 'Boya II' })
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.map((s: any) => s.matchedCharacters)).toEqual([['学习'], ['天气']]);
+      expect(ChapterFilter.getCharactersInRange).toHaveBeenCalledWith(7, { chapters: [3, 7], chapterLabels: ['Boya II'] });
+    });
+
+    it('should leave out sentences without selected words', async () => {
+      (ChapterFilter.getCharactersInRange as jest.Mock).mockResolvedValue(['中文']);
+      mockQuery.mockResolvedValue([sentenceRows]);
+
+      const response = await request(app)
+        .get('/api/phrases/sentences')
+        .query({ ranges: '1-2' })
+        .set('Authorization', 'Bearer token');
+
+      expect(response.body.map((s: any) => s.id)).toEqual(['uuid-1']);
+    });
+
+    it('should return 400 without a selection', async () => {
+      const response = await request(app)
+        .get('/api/phrases/sentences')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(400);
+      expect(ChapterFilter.getCharactersInRange).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a malformed selection', async () => {
+      const response = await request(app)
+        .get('/api/phrases/sentences')
+        .query({ ranges: '5-1' })
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('Invalid chapter selection');
+    });
+  });
+
   describe('GET /api/phrases/sentences/:vocabGroupId', () => {
     it('should return sentences for valid vocab group', async () => {
       const mockSentences: RowDataPacket[] = [
@@ -257,6 +336,11 @@ describe('Phrases Routes', () => {
   });
 
   describe('GET /api/phrases/character-info/:character', () => {
+    beforeEach(() => {
+      (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 7, username: 'parent', role: 'parent', parentId: null });
+      (CharacterDecompositionService.breakdown as jest.Mock).mockResolvedValue({ characters: [], sharedComponentWords: [] });
+    });
+
     it('should return character info for existing character', async () => {
       const mockCharacterInfo: RowDataPacket[] = [
         {
@@ -270,7 +354,9 @@ describe('Phrases Routes', () => {
       
       mockQuery.mockResolvedValue([mockCharacterInfo]);
       
-      const response = await request(app).get('/api/phrases/character-info/我');
+      const response = await request(app)
+        .get('/api/phrases/character-info/我')
+        .set('Authorization', 'Bearer token');
       
       expect(response.status).toBe(200);
       expect(response.body).toEqual({
@@ -278,19 +364,82 @@ describe('Phrases Routes', () => {
         pinyin: 'wǒ',
         hanVietnamese: 'ngã',
         modernVietnamese: 'tôi',
-        englishMeaning: 'I, me'
+        englishMeaning: 'I, me',
+        isFavorite: false,
+        characters: [],
+        sharedComponentWords: []
       });
       
       expect(mockQuery).toHaveBeenCalledWith(
-        expect.stringContaining('WHERE chinese_character = ?'),
-        ['我']
+        expect.stringContaining('WHERE user_id = ? AND chinese_character = ?'),
+        [7, '我']
       );
     });
 
+    it('should add the decomposition and the user\'s words sharing a component', async () => {
+      mockQuery.mockResolvedValue([[
+        { chinese_character: '好', pinyin: 'hǎo', han_vietnamese: 'hảo', modern_vietnamese: 'tốt', english_meaning: 'good', is_favorite: 0, chapter: 1 }
+      ]]);
+      (CharacterDecompositionService.breakdown as jest.Mock).mockResolvedValue({
+        characters: [{ character: '好', radical: '女', strokeCount: 6, components: ['女', '子'] }],
+        sharedComponentWords: [{ chineseCharacter: '妈妈', pinyin: 'māma', sharedComponents: ['女'] }]
+      });
+
+      const response = await request(app)
+        .get('/api/phrases/character-info/好')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        chineseCharacter: '好',
+        characters: [{ character: '好', radical: '女', strokeCount: 6, components: ['女', '子'] }],
+        sharedComponentWords: [{ chineseCharacter: '妈妈', pinyin: 'māma', sharedComponents: ['女'] }]
+      });
+      expect(CharacterDecompositionService.breakdown).toHaveBeenCalledWith(7, '好');
+    });
+
+    it('should still return the character details when decomposition fails', async () => {
+      mockQuery.mockResolvedValue([[
+        { chinese_character: '好', pinyin: 'hǎo', han_vietnamese: 'hảo', modern_vietnamese: 'tốt', english_meaning: 'good', is_favorite: 0, chapter: 1 }
+      ]]);
+      (CharacterDecompositionService.breakdown as jest.Mock).mockRejectedValue(new Error('ENOENT'));
+
+      const response = await request(app)
+        .get('/api/phrases/character-info/好')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ chineseCharacter: '好', pinyin: 'hǎo', characters: [], sharedComponentWords: [] });
+    });
+
+    it('should look up a child\'s characters in their parent\'s vocabulary', async () => {
+      (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 9, username: 'kid', role: 'child', parentId: 7 });
+      mockQuery.mockResolvedValue([[
+        { chinese_character: '好', pinyin: 'hǎo', han_vietnamese: 'hảo', modern_vietnamese: 'tốt', english_meaning: 'good', is_favorite: 0, chapter: 1 }
+      ]]);
+
+      const response = await request(app)
+        .get('/api/phrases/character-info/好')
+        .set('Authorization', 'Bearer kid-token');
+
+      expect(response.status).toBe(200);
+      expect(mockQuery).toHaveBeenCalledWith(expect.any(String), [7, '好']);
+      expect(CharacterDecompositionService.breakdown).toHaveBeenCalledWith(7, '好');
+    });
+
+    it('should return 401 without a token', async () => {
+      const response = await request(app).get('/api/phrases/character-info/好');
+
+      expect(response.status).toBe(401);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
     it('should return 404 for non-existent character', async () => {
       mockQuery.mockResolvedValue([[]]);
       
-      const response = await request(app).get('/api/phrases/character-info/不存在');
+      const response = await request(app)
+        .get('/api/phrases/character-info/不存在')
+        .set('Authorization', 'Bearer token');
       
       expect(response.status).toBe(404);
       expect(response.body.error).toBe('Character not found');
@@ -299,7 +448,9 @@ describe('Phrases Routes', () => {
     it('should return 500 if database query fails', async () => {
       mockQuery.mockRejectedValue(new Error('Query failed'));
       
-      const response = await request(app).get('/api/phrases/character-info/我');
+      const response = await request(app)
+        .get('/api/phrases/character-info/我')
+        .set('Authorization', 'Bearer token');
       
       expect(response.status).toBe(500);
       expect(response.body.error).toBe('Failed to get character info');
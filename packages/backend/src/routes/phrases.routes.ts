@@ -3,8 +3,9 @@
  * 
  * Provides REST API endpoints for pre-generated phrases feature:
  * - GET /api/phrases/vocab-groups - Get all vocab groups with sentence counts
+ * - GET /api/phrases/sentences - Get sentences that use words from a chapter selection
  * - GET /api/phrases/sentences/:vocabGroupId - Get all sentences for a vocab group
- * - GET /api/phrases/character-info/:character - Get character details from vocabulary
+ * - GET /api/phrases/character-info/:character - Get character details from the user's vocabulary
  * - POST /api/phrases/generate - Manually trigger sentence generation
  */
 
@@ -13,6 +14,8 @@ import { PhraseGeneratorService } from '../services/PhraseGeneratorService';
 import { getPool } from '../config/database';
 import { RowDataPacket } from 'mysql2';
 import { translationService } from '../services/TranslationService';
+import { CharacterDecompositionService } from '../services/CharacterDecompositionService';
+import { ChapterFilter, ChapterSelection } from '../services/ChapterFilter';
 import { authenticateJWT, AuthRequest, requireRole } from '../middleware/auth';
 
 const router = Router();
@@ -83,6 +86,95 @@ router.get('/phrases/vocab-groups', authenticateJWT, async (req: AuthRequest, re
   }
 });
 
+/**
+ * GET /api/phrases/sentences
+ * 
+ * Get sentences (from every vocab group) that use at least one word from a chapter selection
+ * 
+ * Query Parameters (at least one selection parameter is required):
+ * - chapters: comma-separated chapter numbers (e.g. 3,7,12)
+ * - ranges: comma-separated chapter ranges (e.g. 1-5,8-10)
+ * - chapterLabel: chapter label (repeat the parameter for several labels)
+ * - tags: comma-separated tags; only words carrying one of them (e.g. food,HSK2)
+ * - favoritesOnly: true/false
+ * - excludeChapters: comma-separated chapter numbers to leave out
+ * - excludeChapterLabel: chapter label to leave out (repeatable)
+ * - excludeTags: comma-separated tags to leave out
+ * 
+ * Response:
+ * - 200: Array of sentences, each with matchedCharacters (selected words used in the sentence)
+ * - 400: Missing or invalid selection
+ * - 500: Server error
+ */
+router.get('/phrases/sentences', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    let userId = req.user?.userId || 0;
+    
+    // If child user, use parent's userId for phrases
+    if (req.user?.role === 'child' && req.user?.parentId) {
+      userId = req.user.parentId;
+    } else if (req.user?.role === 'child') {
+      // Fallback: look up parent from database if not in JWT
+      const { UserDAO } = await import('../models/User');
+      const currentUser = await UserDAO.findById(req.user?.userId || 0);
+      if (currentUser && currentUser.parentId) {
+        userId = currentUser.parentId;
+      }
+    }
+    
+    // Validate chapter selection
+    let selection: ChapterSelection;
+    try {
+      selection = ChapterFilter.parseSelection(req.query);
+    } catch (parseError) {
+      return res.status(400).json({ error: (parseError as Error).message });
+    }
+    
+    if (Object.keys(selection).length === 0) {
+      return res.status(400).json({ error: 'A chapter selection is required (chapters, ranges, chapterLabel, tags or favoritesOnly)' });
+    }
+    
+    const selectedCharacters = new Set(await ChapterFilter.getCharactersInRange(userId, selection));
+    if (selectedCharacters.size === 0) {
+      return res.json([]);
+    }
+    
+    const pool = getPool();
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT id, vocab_group_id, chinese_text, pinyin, english_meaning, modern_vietnamese, used_characters, generation_timestamp
+       FROM pre_generated_sentences
+       WHERE user_id = ?
+       ORDER BY generation_timestamp DESC`,
+      [userId]
+    );
+    
+    const sentences = rows
+      .map((row) => {
+        // MySQL2 automatically parses JSON columns, so check if it's already an array
+        const usedCharacters: string[] = typeof row.used_characters === 'string'
+          ? JSON.parse(row.used_characters)
+          : row.used_characters;
+        return {
+          id: row.id,
+          vocabGroupId: row.vocab_group_id,
+          chineseText: row.chinese_text,
+          pinyin: row.pinyin,
+          englishMeaning: row.english_meaning,
+          modernVietnamese: row.modern_vietnamese,
+          usedCharacters,
+          matchedCharacters: usedCharacters.filter(character => selectedCharacters.has(character)),
+          generationTimestamp: row.generation_timestamp
+        };
+      })
+      .filter(sentence => sentence.matchedCharacters.length > 0);
+    
+    res.json(sentences);
+  } catch (error) {
+    console.error('Error getting sentences for chapter selection:', error);
+    res.status(500).json({ error: 'Failed to get sentences' });
+  }
+});
+
 /**
  * GET /api/phrases/sentences/:vocabGroupId
  * 
@@ -153,28 +245,43 @@ router.get('/phrases/sentences/:vocabGroupId', authenticateJWT, async (req: Auth
 /**
  * GET /api/phrases/character-info/:character
  * 
- * Get character details from vocabulary database
+ * Get character details from the vocabulary of the signed-in user (children: their parent's, like the phrases)
  * 
  * Parameters:
  * - character: Chinese character to look up
  * 
  * Response:
- * - 200: Character details (chineseCharacter, pinyin, hanVietnamese, modernVietnamese, englishMeaning, isFavorite)
+ * - 200: Character details (chineseCharacter, pinyin, hanVietnamese, modernVietnamese, englishMeaning, isFavorite),
+ *        with the radical, strokeCount and components of each character (characters) and the user's other words
+ *        sharing a component (sharedComponentWords)
  * - 404: Character not found
  * - 500: Server error
  */
-router.get('/phrases/character-info/:character', async (req: Request, res: Response) => {
+router.get('/phrases/character-info/:character', authenticateJWT, async (req: AuthRequest, res: Response) => {
   try {
     const character = req.params.character;
+    let userId = req.user?.userId || 0;
+    
+    // If child user, use parent's userId for phrases
+    if (req.user?.role === 'child' && req.user?.parentId) {
+      userId = req.user.parentId;
+    } else if (req.user?.role === 'child') {
+      // Fallback: look up parent from database if not in JWT
+      const { UserDAO } = await import('../models/User');
+      const currentUser = await UserDAO.findById(req.user?.userId || 0);
+      if (currentUser && currentUser.parentId) {
+        userId = currentUser.parentId;
+      }
+    }
     
     // Query vocabulary database for character details
     const pool = getPool();
     const [rows] = await pool.query<RowDataPacket[]>(
       `SELECT chinese_character, pinyin, han_vietnamese, modern_vietnamese, english_meaning, is_favorite, chapter
        FROM vocabulary_entries
-       WHERE chinese_character = ?
+       WHERE user_id = ? AND chinese_character = ? AND deleted_at IS NULL
        LIMIT 1`,
-      [character]
+      [userId, character]
     );
     
     if (rows.length === 0) {
@@ -182,6 +289,13 @@ router.get('/phrases/character-info/:character', async (req: Request, res: Respo
     }
     
     const row = rows[0];
+
+    // Decomposition is best effort, a missing data file must not hide the vocabulary details
+    const breakdown = await CharacterDecompositionService.breakdown(userId, row.chinese_character).catch(error => {
+      console.error('Error decomposing character:', error);
+      return { characters: [], sharedComponentWords: [] };
+    });
+
     const response = {
       chineseCharacter: row.chinese_character,
       pinyin: row.pinyin,
@@ -189,7 +303,9 @@ router.get('/phrases/character-info/:character', async (req: Request, res: Respo
       modernVietnamese: row.modern_vietnamese,
       englishMeaning: row.english_meaning,
       isFavorite: row.is_favorite === 1,
-      chapter: row.chapter
+      chapter: row.chapter,
+      characters: breakdown.characters,
+      sharedComponentWords: breakdown.sharedComponentWords
     };
     
     res.json(response);
@@ -0,0 +1,178 @@
+/**
+ * Study Routes Tests
+ *
+ * Tests for the daily review queue and study settings endpoints
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import studyRoutes from './study.routes';
+import { StudyService } from '../services/StudyService';
+import { UserDAO } from '../models/User';
+import { AuthService } from '../services/AuthService';
+
+jest.mock('../services/StudyService');
+jest.mock('../models/User');
+jest.mock('../services/AuthService');
+
+describe('Study Routes', () => {
+  let app: Express;
+
+  const tokens: Record<string, object> = {
+    parent: { userId: 1, username: 'parent', role: 'parent', parentId: null },
+    otherParent: { userId: 5, username: 'other', role: 'parent', parentId: null },
+    child: { userId: 2, username: 'kid', role: 'child', parentId: 1 }
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', studyRoutes);
+    jest.clearAllMocks();
+    (AuthService.verifyToken as jest.Mock).mockImplementation((token: string) => tokens[token] || null);
+    (UserDAO.findByUsername as jest.Mock).mockImplementation(async (username: string) =>
+      username === 'kid' ? { id: 2, username: 'kid', parentId: 1, dailyNewLimit: 3 } : null
+    );
+  });
+
+  describe('GET /api/:username/study/today', () => {
+    it("should return today's queue with the resolved limit", async () => {
+      const summary = { mode: 'ChineseToMeanings', dueReviews: 4, newIntroducedToday: 1, dailyNewLimit: 3, newAvailable: 10, newRemaining: 2, remaining: 6 };
+      (StudyService.resolveDailyNewLimit as jest.Mock).mockResolvedValue(3);
+      (StudyService.getToday as jest.Mock).mockResolvedValue(summary);
+
+      const response = await request(app)
+        .get('/api/kid/study/today')
+        .query({ mode: 'ChineseToMeanings', ranges: '1-5' })
+        .set('Authorization', 'Bearer child');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(summary);
+      expect(StudyService.getToday).toHaveBeenCalledWith(2, 2, 'ChineseToMeanings', { ranges: [{ start: 1, end: 5 }] }, 3);
+      expect(StudyService.resolveDailyNewLimit).toHaveBeenCalledWith(expect.objectContaining({ id: 2 }), 2);
+    });
+
+    it("should pace a child studying their parent's words by the child's limit and counts", async () => {
+      (UserDAO.findByUsername as jest.Mock).mockResolvedValue({ id: 1, username: 'parent', parentId: null, dailyNewLimit: 10 });
+      (StudyService.resolveDailyNewLimit as jest.Mock).mockResolvedValue(3);
+      (StudyService.getToday as jest.Mock).mockResolvedValue({});
+
+      const response = await request(app)
+        .get('/api/parent/study/today')
+        .query({ mode: 'ChineseToMeanings' })
+        .set('Authorization', 'Bearer child');
+
+      expect(response.status).toBe(200);
+      expect(StudyService.resolveDailyNewLimit).toHaveBeenCalledWith(expect.objectContaining({ id: 1 }), 2);
+      expect(StudyService.getToday).toHaveBeenCalledWith(1, 2, 'ChineseToMeanings', {}, 3);
+    });
+
+    it("should return 403 for another family's queue", async () => {
+      const response = await request(app)
+        .get('/api/kid/study/today')
+        .query({ mode: 'ChineseToMeanings' })
+        .set('Authorization', 'Bearer otherParent');
+
+      expect(response.status).toBe(403);
+      expect(StudyService.getToday).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid mode', async () => {
+      const response = await request(app)
+        .get('/api/kid/study/today')
+        .query({ mode: 'Nope' })
+        .set('Authorization', 'Bearer child');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 400 for an invalid selection', async () => {
+      const response = await request(app)
+        .get('/api/kid/study/today')
+        .query({ mode: 'ChineseToMeanings', chapters: 'x' })
+        .set('Authorization', 'Bearer child');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      const response = await request(app)
+        .get('/api/nobody/study/today')
+        .query({ mode: 'ChineseToMeanings' })
+        .set('Authorization', 'Bearer parent');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 401 without a token', async () => {
+      const response = await request(app)
+        .get('/api/kid/study/today')
+        .query({ mode: 'ChineseToMeanings' });
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('study settings', () => {
+    it("should let a parent set their child's limit", async () => {
+      (UserDAO.setDailyNewLimit as jest.Mock).mockResolvedValue(true);
+
+      const response = await request(app)
+        .put('/api/kid/study/settings')
+        .set('Authorization', 'Bearer parent')
+        .send({ dailyNewLimit: 5 });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ username: 'kid', dailyNewLimit: 5 });
+      expect(UserDAO.setDailyNewLimit).toHaveBeenCalledWith(2, 5);
+    });
+
+    it('should reset the limit to the default with null', async () => {
+      (UserDAO.setDailyNewLimit as jest.Mock).mockResolvedValue(true);
+
+      await request(app)
+        .put('/api/kid/study/settings')
+        .set('Authorization', 'Bearer parent')
+        .send({ dailyNewLimit: null });
+
+      expect(UserDAO.setDailyNewLimit).toHaveBeenCalledWith(2, null);
+    });
+
+    it('should return 400 for an invalid limit', async () => {
+      const response = await request(app)
+        .put('/api/kid/study/settings')
+        .set('Authorization', 'Bearer parent')
+        .send({ dailyNewLimit: -1 });
+
+      expect(response.status).toBe(400);
+      expect(UserDAO.setDailyNewLimit).not.toHaveBeenCalled();
+    });
+
+    it("should not let a parent change someone else's child", async () => {
+      const response = await request(app)
+        .put('/api/kid/study/settings')
+        .set('Authorization', 'Bearer otherParent')
+        .send({ dailyNewLimit: 5 });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should not let a child change their own limit', async () => {
+      const response = await request(app)
+        .put('/api/kid/study/settings')
+        .set('Authorization', 'Bearer child')
+        .send({ dailyNewLimit: 50 });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should return the current limit', async () => {
+      const response = await request(app)
+        .get('/api/kid/study/settings')
+        .set('Authorization', 'Bearer parent');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ username: 'kid', dailyNewLimit: 3 });
+    });
+  });
+});
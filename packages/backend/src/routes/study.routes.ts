@@ -0,0 +1,153 @@
+/**
+ * Study API Routes
+ *
+ * Daily review queue ("today's session") and its per-user pacing:
+ * - GET /api/:username/study/today - Reviews due and new words introduced today
+ * - GET /api/:username/study/settings - Daily new-word limit of a user (parents/admins)
+ * - PUT /api/:username/study/settings - Set the daily new-word limit of a user (parents/admins)
+ *
+ * Cards of today's session are served by GET /api/:username/flashcard/next?session=today.
+ */
+
+import { Router, Response } from 'express';
+import { FlashcardMode } from '../services/FlashcardEngine';
+import { ChapterFilter, ChapterSelection } from '../services/ChapterFilter';
+import { StudyService } from '../services/StudyService';
+import { authenticateJWT, AuthRequest, requireRole, canStudyVocabulary } from '../middleware/auth';
+import { UserDAO, User } from '../models/User';
+import { config } from '../config/env';
+
+const router = Router();
+
+/**
+ * Helper: parents may only manage themselves and their own children
+ */
+function canManage(req: AuthRequest, user: User): boolean {
+  if (!req.user || req.user.role !== 'parent') return true;
+  return user.id === req.user.userId || user.parentId === req.user.userId;
+}
+
+/**
+ * GET /api/:username/study/today
+ *
+ * Today's queue of the signed-in learner for one flashcard mode: reviews due now and new words within the
+ * learner's own daily limit. A child studying their parent's words is paced by their own limit and their own new words.
+ * PROTECTED: The owner, one of their children, or an admin
+ *
+ * Query Parameters:
+ * - mode: FlashcardMode (required)
+ * - chapters, ranges, chapterLabel, tags, favoritesOnly, excludeChapters, excludeChapterLabel, excludeTags:
+ *   chapter selection (optional, all of the user's words when omitted)
+ *
+ * Response:
+ * - 200: TodaySummary { mode, dueReviews, newIntroducedToday, dailyNewLimit, newAvailable, newRemaining, remaining }
+ * - 400: Invalid mode or selection
+ * - 403: Not allowed to study this user's words
+ * - 404: User not found
+ * - 500: Server error
+ */
+router.get('/:username/study/today', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username } = req.params;
+    const { mode } = req.query;
+
+    if (!mode || typeof mode !== 'string' || !Object.values(FlashcardMode).includes(mode as FlashcardMode)) {
+      return res.status(400).json({ error: `Invalid mode. Must be one of: ${Object.values(FlashcardMode).join(', ')}` });
+    }
+
+    let selection: ChapterSelection;
+    try {
+      selection = ChapterFilter.parseSelection(req.query);
+    } catch (parseError) {
+      return res.status(400).json({ error: (parseError as Error).message });
+    }
+
+    const user = await UserDAO.findByUsername(username);
+    if (!user) return res.status(404).json({ error: `User "${username}" not found` });
+    if (!req.user || !canStudyVocabulary(req.user, user.id)) return res.status(403).json({ error: 'Access denied' });
+
+    const learnerId = req.user.userId;
+    const dailyNewLimit = await StudyService.resolveDailyNewLimit(user, learnerId);
+    const summary = await StudyService.getToday(user.id, learnerId, mode, selection, dailyNewLimit);
+
+    res.json(summary);
+  } catch (error) {
+    console.error("Error getting today's study queue:", error);
+    res.status(500).json({ error: "Failed to get today's study queue" });
+  }
+});
+
+/**
+ * GET /api/:username/study/settings
+ *
+ * Daily new-word limit of a user
+ * PROTECTED: Admin, or parent looking at themselves or one of their children
+ *
+ * Response:
+ * - 200: { username, dailyNewLimit (null when the default applies), defaultDailyNewLimit }
+ * - 403: Not the user's parent
+ * - 404: User not found
+ * - 500: Server error
+ */
+router.get('/:username/study/settings', authenticateJWT, requireRole(['admin', 'parent']), async (req: AuthRequest, res: Response) => {
+  try {
+    const { username } = req.params;
+
+    const user = await UserDAO.findByUsername(username);
+    if (!user) return res.status(404).json({ error: `User "${username}" not found` });
+    if (!canManage(req, user)) return res.status(403).json({ error: 'Access denied' });
+
+    res.json({
+      username: user.username,
+      dailyNewLimit: user.dailyNewLimit,
+      defaultDailyNewLimit: config.flashcard.dailyNewLimit
+    });
+  } catch (error) {
+    console.error('Error getting study settings:', error);
+    res.status(500).json({ error: 'Failed to get study settings' });
+  }
+});
+
+/**
+ * PUT /api/:username/study/settings
+ *
+ * Set the daily new-word limit of a user
+ * PROTECTED: Admin, or parent managing themselves or one of their children
+ *
+ * Request Body:
+ * - dailyNewLimit: non-negative integer, or null to use the default limit
+ *
+ * Response:
+ * - 200: { username, dailyNewLimit, defaultDailyNewLimit }
+ * - 400: Invalid limit
+ * - 403: Not the user's parent
+ * - 404: User not found
+ * - 500: Server error
+ */
+router.put('/:username/study/settings', authenticateJWT, requireRole(['admin', 'parent']), async (req: AuthRequest, res: Response) => {
+  try {
+    const { username } = req.params;
+    const { dailyNewLimit } = req.body;
+
+    if (dailyNewLimit !== null && (!Number.isInteger(dailyNewLimit) || dailyNewLimit < 0)) {
+      return res.status(400).json({ error: 'dailyNewLimit must be a non-negative integer or null' });
+    }
+
+    const user = await UserDAO.findByUsername(username);
+    if (!user) return res.status(404).json({ error: `User "${username}" not found` });
+    if (!canManage(req, user)) return res.status(403).json({ error: 'Access denied' });
+
+    await UserDAO.setDailyNewLimit(user.id, dailyNewLimit);
+
+    res.json({
+      username: user.username,
+      dailyNewLimit,
+      defaultDailyNewLimit: config.flashcard.dailyNewLimit
+    });
+  } catch (error) {
+    console.error('Error updating study settings:', error);
+    res.status(500).json({ error: 'Failed to update study settings' });
+  }
+});
+
+export default router;
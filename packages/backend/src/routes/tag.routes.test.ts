@@ -0,0 +1,161 @@
+/**
+ * Tag Routes Tests
+ *
+ * Tests for tag management and tag assignment endpoints
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import tagRoutes from './tag.routes';
+import { TagService } from '../services/TagService';
+import { UserDAO } from '../models/User';
+import { AuthService } from '../services/AuthService';
+
+jest.mock('../models/User');
+jest.mock('../services/AuthService');
+
+describe('Tag Routes', () => {
+  let app: Express;
+
+  const food = { id: 3, userId: 1, name: 'food', entryCount: 2, createdAt: '2026-10-01T00:00:00.000Z' };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', tagRoutes);
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+    (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 1, username: 'parent', role: 'parent', parentId: null });
+    (UserDAO.findByUsername as jest.Mock).mockResolvedValue({ id: 1, username: 'parent', role: 'parent' });
+  });
+
+  describe('GET /api/:username/tags', () => {
+    it('should list the tags', async () => {
+      jest.spyOn(TagService, 'list').mockResolvedValue([food] as any);
+
+      const response = await request(app).get('/api/parent/tags').set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ tags: [food] });
+      expect(TagService.list).toHaveBeenCalledWith(1);
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      (UserDAO.findByUsername as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app).get('/api/nobody/tags').set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/:username/tags', () => {
+    it('should create a tag', async () => {
+      jest.spyOn(TagService, 'create').mockResolvedValue(food as any);
+
+      const response = await request(app)
+        .post('/api/parent/tags')
+        .set('Authorization', 'Bearer token')
+        .send({ name: 'food' });
+
+      expect(response.status).toBe(201);
+      expect(TagService.create).toHaveBeenCalledWith(1, 'food');
+    });
+
+    it('should return 409 for a name that is taken and 400 for an invalid one', async () => {
+      jest.spyOn(TagService, 'create')
+        .mockRejectedValueOnce(new Error('Tag "food" already exists'))
+        .mockRejectedValueOnce(new Error('Invalid tag: name is required'));
+
+      const taken = await request(app).post('/api/parent/tags').set('Authorization', 'Bearer token').send({ name: 'food' });
+      const invalid = await request(app).post('/api/parent/tags').set('Authorization', 'Bearer token').send({ name: '' });
+
+      expect(taken.status).toBe(409);
+      expect(invalid.status).toBe(400);
+    });
+
+    it('should return 403 for a child', async () => {
+      (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 2, username: 'kid', role: 'child', parentId: 1 });
+
+      const response = await request(app).post('/api/parent/tags').set('Authorization', 'Bearer token').send({ name: 'food' });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('PUT and DELETE /api/:username/tags/:id', () => {
+    it('should rename a tag', async () => {
+      jest.spyOn(TagService, 'rename').mockResolvedValue({ ...food, name: 'snacks' } as any);
+
+      const response = await request(app)
+        .put('/api/parent/tags/3')
+        .set('Authorization', 'Bearer token')
+        .send({ name: 'snacks' });
+
+      expect(response.status).toBe(200);
+      expect(TagService.rename).toHaveBeenCalledWith(1, 3, 'snacks');
+    });
+
+    it('should delete a tag and return 404 for an unknown one', async () => {
+      jest.spyOn(TagService, 'delete')
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('Tag not found'));
+
+      const deleted = await request(app).delete('/api/parent/tags/3').set('Authorization', 'Bearer token');
+      const unknown = await request(app).delete('/api/parent/tags/9').set('Authorization', 'Bearer token');
+
+      expect(deleted.status).toBe(204);
+      expect(unknown.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/:username/vocabulary/tags', () => {
+    it('should add and remove tags on the entries', async () => {
+      jest.spyOn(TagService, 'assign').mockResolvedValue(2);
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary/tags')
+        .set('Authorization', 'Bearer token')
+        .send({ ids: ['v1', 'v2'], add: 'food, HSK2', remove: ['exam week 3'] });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ updated: 2 });
+      expect(TagService.assign).toHaveBeenCalledWith(1, ['v1', 'v2'], { add: ['food', 'HSK2'], remove: ['exam week 3'] });
+    });
+
+    it('should return 400 without entry IDs', async () => {
+      const response = await request(app)
+        .post('/api/parent/vocabulary/tags')
+        .set('Authorization', 'Bearer token')
+        .send({ add: ['food'] });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('PUT /api/:username/vocabulary/:id/tags', () => {
+    it('should replace the tags of the entry', async () => {
+      jest.spyOn(TagService, 'setEntryTags').mockResolvedValue(['HSK2', 'food']);
+
+      const response = await request(app)
+        .put('/api/parent/vocabulary/v1/tags')
+        .set('Authorization', 'Bearer token')
+        .send({ tags: ['food', 'HSK2'] });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ tags: ['HSK2', 'food'] });
+      expect(TagService.setEntryTags).toHaveBeenCalledWith(1, 'v1', ['food', 'HSK2']);
+    });
+
+    it('should return 404 for an unknown entry', async () => {
+      jest.spyOn(TagService, 'setEntryTags').mockRejectedValue(new Error('Vocabulary entry not found'));
+
+      const response = await request(app)
+        .put('/api/parent/vocabulary/nope/tags')
+        .set('Authorization', 'Bearer token')
+        .send({ tags: [] });
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
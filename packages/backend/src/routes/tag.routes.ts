@@ -0,0 +1,236 @@
+/**
+ * Tag API Routes
+ *
+ * Free-form tags on vocabulary for themed review sets:
+ * - GET /api/:username/tags - List tags with their entry counts
+ * - POST /api/:username/tags - Create a tag
+ * - PUT /api/:username/tags/:id - Rename a tag
+ * - DELETE /api/:username/tags/:id - Delete a tag (the entries stay)
+ * - PUT /api/:username/vocabulary/:id/tags - Replace the tags of an entry
+ * - POST /api/:username/vocabulary/tags - Add and remove tags on many entries
+ *
+ * Filtering by tag is part of the chapter selection (tags, excludeTags) accepted by the vocabulary
+ * list, flashcards, study, cloze, tone drill, export and phrases.
+ */
+
+import { Router, Response } from 'express';
+import { TagService } from '../services/TagService';
+import { authenticateJWT, AuthRequest, requireRole } from '../middleware/auth';
+import { UserDAO } from '../models/User';
+
+const router = Router();
+
+/**
+ * Helper: resolve username to userId. Returns null if user not found.
+ */
+async function resolveUserId(username: string): Promise<number | null> {
+  const user = await UserDAO.findByUsername(username);
+  return user ? user.id : null;
+}
+
+/**
+ * Map TagService errors to HTTP status codes
+ */
+function sendTagError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof Error) {
+    if (error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message.includes('already exists')) {
+      return res.status(409).json({ error: error.message });
+    }
+    if (error.message.startsWith('Invalid tag') || error.message.startsWith('At least')) {
+      return res.status(400).json({ error: error.message });
+    }
+  }
+  res.status(500).json({ error: fallback });
+}
+
+/**
+ * GET /api/:username/tags
+ *
+ * List the user's tags, alphabetically
+ *
+ * Response:
+ * - 200: { tags: [{ id, name, entryCount, createdAt }] }
+ * - 404: User not found
+ * - 500: Server error
+ */
+router.get('/:username/tags', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username } = req.params;
+
+    const userId = await resolveUserId(username);
+    if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
+
+    const tags = await TagService.list(userId);
+    res.json({ tags });
+  } catch (error) {
+    console.error('Error listing tags:', error);
+    sendTagError(res, error, 'Failed to list tags');
+  }
+});
+
+/**
+ * POST /api/:username/tags
+ *
+ * Create a tag
+ * PROTECTED: Admin and parent only
+ *
+ * Request Body:
+ * - name: string (required, at most 50 characters, no commas)
+ *
+ * Response:
+ * - 201: Tag
+ * - 400: Invalid name
+ * - 404: User not found
+ * - 409: A tag with this name already exists
+ * - 500: Server error
+ */
+router.post('/:username/tags', authenticateJWT, requireRole(['admin', 'parent']), async (req: AuthRequest, res: Response) => {
+  try {
+    const { username } = req.params;
+
+    const userId = await resolveUserId(username);
+    if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
+
+    const tag = await TagService.create(userId, req.body.name);
+    res.status(201).json(tag);
+  } catch (error) {
+    console.error('Error creating tag:', error);
+    sendTagError(res, error, 'Failed to create tag');
+  }
+});
+
+/**
+ * PUT /api/:username/tags/:id
+ *
+ * Rename a tag; tagged entries keep it under the new name
+ * PROTECTED: Admin and parent only
+ *
+ * Request Body:
+ * - name: string (required)
+ *
+ * Response:
+ * - 200: Tag
+ * - 400: Invalid name
+ * - 404: User or tag not found
+ * - 409: A tag with this name already exists
+ * - 500: Server error
+ */
+router.put('/:username/tags/:id', authenticateJWT, requireRole(['admin', 'parent']), async (req: AuthRequest, res: Response) => {
+  try {
+    const { username, id } = req.params;
+    const tagId = parseInt(id, 10);
+    if (isNaN(tagId)) return res.status(400).json({ error: 'Invalid tag ID' });
+
+    const userId = await resolveUserId(username);
+    if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
+
+    const tag = await TagService.rename(userId, tagId, req.body.name);
+    res.json(tag);
+  } catch (error) {
+    console.error('Error renaming tag:', error);
+    sendTagError(res, error, 'Failed to rename tag');
+  }
+});
+
+/**
+ * DELETE /api/:username/tags/:id
+ *
+ * Delete a tag and remove it from every entry; the entries themselves stay
+ * PROTECTED: Admin and parent only
+ *
+ * Response:
+ * - 204: Deleted
+ * - 404: User or tag not found
+ * - 500: Server error
+ */
+router.delete('/:username/tags/:id', authenticateJWT, requireRole(['admin', 'parent']), async (req: AuthRequest, res: Response) => {
+  try {
+    const { username, id } = req.params;
+    const tagId = parseInt(id, 10);
+    if (isNaN(tagId)) return res.status(400).json({ error: 'Invalid tag ID' });
+
+    const userId = await resolveUserId(username);
+    if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
+
+    await TagService.delete(userId, tagId);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting tag:', error);
+    sendTagError(res, error, 'Failed to delete tag');
+  }
+});
+
+/**
+ * POST /api/:username/vocabulary/tags
+ *
+ * Add and remove tags on many entries; added tags that do not exist yet are created
+ * PROTECTED: Admin and parent only
+ *
+ * Request Body:
+ * - ids: string[] - entry IDs (required)
+ * - add: string[] | string - tags to add (optional)
+ * - remove: string[] | string - tags to remove (optional, at least one of add and remove)
+ *
+ * Response:
+ * - 200: { updated: number }
+ * - 400: Missing entries or tags, invalid tag
+ * - 404: User or an entry not found (nothing is changed)
+ * - 500: Server error
+ */
+router.post('/:username/vocabulary/tags', authenticateJWT, requireRole(['admin', 'parent']), async (req: AuthRequest, res: Response) => {
+  try {
+    const { username } = req.params;
+    const { ids, add, remove } = req.body;
+    if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string')) {
+      return res.status(400).json({ error: 'ids must be an array of entry IDs' });
+    }
+
+    const userId = await resolveUserId(username);
+    if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
+
+    const updated = await TagService.assign(userId, ids, {
+      add: TagService.parseNames(add ?? []),
+      remove: TagService.parseNames(remove ?? [])
+    });
+    res.json({ updated });
+  } catch (error) {
+    console.error('Error assigning tags:', error);
+    sendTagError(res, error, 'Failed to assign tags');
+  }
+});
+
+/**
+ * PUT /api/:username/vocabulary/:id/tags
+ *
+ * Replace the tags of an entry; tags that do not exist yet are created
+ * PROTECTED: Admin and parent only
+ *
+ * Request Body:
+ * - tags: string[] | string - tag names (required, may be empty to remove all tags)
+ *
+ * Response:
+ * - 200: { tags: string[] }
+ * - 400: Invalid tag
+ * - 404: User or entry not found
+ * - 500: Server error
+ */
+router.put('/:username/vocabulary/:id/tags', authenticateJWT, requireRole(['admin', 'parent']), async (req: AuthRequest, res: Response) => {
+  try {
+    const { username, id } = req.params;
+    if (req.body.tags === undefined) return res.status(400).json({ error: 'tags is required' });
+
+    const userId = await resolveUserId(username);
+    if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
+
+    const tags = await TagService.setEntryTags(userId, id, TagService.parseNames(req.body.tags));
+    res.json({ tags });
+  } catch (error) {
+    console.error('Error setting entry tags:', error);
+    sendTagError(res, error, 'Failed to set tags');
+  }
+});
+
+export default router;
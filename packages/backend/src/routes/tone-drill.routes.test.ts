@@ -0,0 +1,170 @@
+/**
+ * Tone Drill Routes Tests
+ *
+ * Tests for tone drill API endpoints
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import toneDrillRoutes from './tone-drill.routes';
+import { ToneDrillService } from '../services/ToneDrillService';
+import { UserDAO } from '../models/User';
+import { AuthService } from '../services/AuthService';
+
+jest.mock('../services/ToneDrillService');
+jest.mock('../models/User');
+jest.mock('../services/AuthService');
+
+describe('Tone Drill Routes', () => {
+  let app: Express;
+
+  const parent = { id: 1, username: 'parent', role: 'parent', parentId: null };
+  const child = { id: 2, username: 'child', role: 'child', parentId: 1 };
+
+  const signInAs = (user: { id: number; username: string; role: string; parentId: number | null }) => {
+    (AuthService.verifyToken as jest.Mock).mockReturnValue({
+      userId: user.id, username: user.username, role: user.role, parentId: user.parentId
+    });
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', toneDrillRoutes);
+    jest.clearAllMocks();
+    signInAs(parent);
+    (UserDAO.findByUsername as jest.Mock).mockImplementation(async (username: string) =>
+      [parent, child].find(user => user.username === username) || null
+    );
+  });
+
+  describe('GET /api/:username/tone-drill', () => {
+    it('should return drill words from the selection', async () => {
+      const items = [{ vocabularyId: 'v1', chineseCharacter: '你好', syllableCount: 2 }];
+      (ToneDrillService.getDrill as jest.Mock).mockResolvedValue(items);
+
+      const response = await request(app)
+        .get('/api/parent/tone-drill?ranges=1-3&count=5')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(items);
+      expect(ToneDrillService.getDrill).toHaveBeenCalledWith(1, { ranges: [{ start: 1, end: 3 }] }, 5);
+    });
+
+    it('should default to 10 words', async () => {
+      (ToneDrillService.getDrill as jest.Mock).mockResolvedValue([]);
+
+      await request(app)
+        .get('/api/parent/tone-drill')
+        .set('Authorization', 'Bearer token');
+
+      expect(ToneDrillService.getDrill).toHaveBeenCalledWith(1, {}, 10);
+    });
+
+    it('should return 400 for an invalid count', async () => {
+      const response = await request(app)
+        .get('/api/parent/tone-drill?count=500')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 when the selection has no words', async () => {
+      (ToneDrillService.getDrill as jest.Mock).mockRejectedValue(new Error('No vocabulary found for tone drill'));
+
+      const response = await request(app)
+        .get('/api/parent/tone-drill')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/:username/tone-drill/check', () => {
+    it("should record a child's answers for the child while using the parent's words", async () => {
+      signInAs(child);
+      const result = { correct: true, pinyin: 'nǐ hǎo', syllables: [], tonePairs: [] };
+      (ToneDrillService.checkAnswer as jest.Mock).mockResolvedValue(result);
+
+      const response = await request(app)
+        .post('/api/parent/tone-drill/check')
+        .set('Authorization', 'Bearer token')
+        .send({ vocabularyId: 'v1', tones: [3, 3] });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(result);
+      expect(ToneDrillService.checkAnswer).toHaveBeenCalledWith(1, 2, 'v1', [3, 3]);
+    });
+
+    it('should return 400 for invalid tones', async () => {
+      const response = await request(app)
+        .post('/api/parent/tone-drill/check')
+        .set('Authorization', 'Bearer token')
+        .send({ vocabularyId: 'v1', tones: [3, 6] });
+
+      expect(response.status).toBe(400);
+      expect(ToneDrillService.checkAnswer).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for the wrong number of tones', async () => {
+      (ToneDrillService.checkAnswer as jest.Mock).mockRejectedValue(new Error('Expected 2 tones for "你好"'));
+
+      const response = await request(app)
+        .post('/api/parent/tone-drill/check')
+        .set('Authorization', 'Bearer token')
+        .send({ vocabularyId: 'v1', tones: [3] });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for an unknown word', async () => {
+      (ToneDrillService.checkAnswer as jest.Mock).mockRejectedValue(new Error('Vocabulary entry not found'));
+
+      const response = await request(app)
+        .post('/api/parent/tone-drill/check')
+        .set('Authorization', 'Bearer token')
+        .send({ vocabularyId: 'missing', tones: [1] });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/:username/tone-drill/stats', () => {
+    const stats = [{ tonePair: '3-3', attempts: 4, correct: 1, accuracy: 0.25, confusions: [{ answered: '2-3', count: 3 }] }];
+
+    it("should let a parent see their child's stats", async () => {
+      (ToneDrillService.getStats as jest.Mock).mockResolvedValue(stats);
+
+      const response = await request(app)
+        .get('/api/child/tone-drill/stats')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(stats);
+      expect(ToneDrillService.getStats).toHaveBeenCalledWith(2);
+    });
+
+    it('should let a child see their own stats', async () => {
+      signInAs(child);
+      (ToneDrillService.getStats as jest.Mock).mockResolvedValue(stats);
+
+      const response = await request(app)
+        .get('/api/child/tone-drill/stats')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+    });
+
+    it("should not let a child see someone else's stats", async () => {
+      signInAs(child);
+
+      const response = await request(app)
+        .get('/api/parent/tone-drill/stats')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(403);
+      expect(ToneDrillService.getStats).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Tone Drill API Routes
+ *
+ * Tone training from vocabulary pinyin:
+ * - GET /api/:username/tone-drill - Pick words from a chapter selection to drill
+ * - POST /api/:username/tone-drill/check - Check the tones chosen for a word
+ * - GET /api/:username/tone-drill/stats - Accuracy per tone pair of a learner
+ *
+ * Words come from :username's vocabulary (children use their parent's), while answers are
+ * recorded for the signed-in learner.
+ */
+
+import { Router, Response } from 'express';
+import { ToneDrillService } from '../services/ToneDrillService';
+import { ChapterFilter, ChapterSelection } from '../services/ChapterFilter';
+import { authenticateJWT, AuthRequest } from '../middleware/auth';
+import { UserDAO } from '../models/User';
+
+const router = Router();
+
+const MAX_COUNT = 50;
+
+/**
+ * GET /api/:username/tone-drill
+ *
+ * Pick random words to drill
+ *
+ * Query Parameters:
+ * - count: number of words (optional, default 10, at most 50)
+ * - chapters, ranges, chapterLabel, tags, favoritesOnly, excludeChapters, excludeChapterLabel, excludeTags:
+ *   chapter selection (optional, all of the user's words when omitted)
+ *
+ * Response:
+ * - 200: ToneDrillItem[] { vocabularyId, chineseCharacter, syllableCount, englishMeaning, modernVietnamese }
+ * - 400: Invalid count or selection
+ * - 404: User not found or no words in the selection
+ * - 500: Server error
+ */
+router.get('/:username/tone-drill', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username } = req.params;
+    const count = req.query.count !== undefined ? Number(req.query.count) : ToneDrillService.DEFAULT_COUNT;
+
+    if (!Number.isInteger(count) || count < 1 || count > MAX_COUNT) {
+      return res.status(400).json({ error: `count must be an integer between 1 and ${MAX_COUNT}` });
+    }
+
+    let selection: ChapterSelection;
+    try {
+      selection = ChapterFilter.parseSelection(req.query);
+    } catch (parseError) {
+      return res.status(400).json({ error: (parseError as Error).message });
+    }
+
+    const user = await UserDAO.findByUsername(username);
+    if (!user) return res.status(404).json({ error: `User "${username}" not found` });
+
+    const items = await ToneDrillService.getDrill(user.id, selection, count);
+    res.json(items);
+  } catch (error) {
+    console.error('Error getting tone drill:', error);
+    if (error instanceof Error && error.message.includes('No vocabulary found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to get tone drill' });
+  }
+});
+
+/**
+ * POST /api/:username/tone-drill/check
+ *
+ * Check the tones chosen for a word and record them for the signed-in learner
+ *
+ * Request Body:
+ * - vocabularyId: string (required)
+ * - tones: number[] - tone of each syllable, 1-4 or 5 for neutral (required)
+ *
+ * Response:
+ * - 200: { correct, pinyin, syllables: [{ pinyin, expected, given, correct }], tonePairs: [{ expected, answered, correct }] }
+ * - 400: Missing fields, invalid tones or wrong number of tones
+ * - 404: User or vocabulary entry not found
+ * - 500: Server error
+ */
+router.post('/:username/tone-drill/check', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username } = req.params;
+    const { vocabularyId, tones } = req.body;
+
+    if (typeof vocabularyId !== 'string') {
+      return res.status(400).json({ error: 'vocabularyId is required' });
+    }
+
+    if (!Array.isArray(tones) || tones.length === 0 || !tones.every(tone => Number.isInteger(tone) && tone >= 1 && tone <= 5)) {
+      return res.status(400).json({ error: 'tones must be a list of tones from 1 to 5 (5 = neutral)' });
+    }
+
+    const user = await UserDAO.findByUsername(username);
+    if (!user) return res.status(404).json({ error: `User "${username}" not found` });
+
+    const learnerId = req.user?.userId || user.id;
+    const result = await ToneDrillService.checkAnswer(user.id, learnerId, vocabularyId, tones);
+    res.json(result);
+  } catch (error) {
+    console.error('Error checking tone drill answer:', error);
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error.message.includes('Expected')) {
+        return res.status(400).json({ error: error.message });
+      }
+    }
+    res.status(500).json({ error: 'Failed to check tone drill answer' });
+  }
+});
+
+/**
+ * GET /api/:username/tone-drill/stats
+ *
+ * Accuracy per tone pair of a learner, weakest pair first
+ * PROTECTED: The learner, their parent, or an admin
+ *
+ * Response:
+ * - 200: TonePairStats[] { tonePair, attempts, correct, accuracy, confusions: [{ answered, count }] }
+ * - 403: Not the learner or their parent
+ * - 404: User not found
+ * - 500: Server error
+ */
+router.get('/:username/tone-drill/stats', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username } = req.params;
+
+    const user = await UserDAO.findByUsername(username);
+    if (!user) return res.status(404).json({ error: `User "${username}" not found` });
+
+    const requester = req.user;
+    if (!requester || (requester.role !== 'admin' && requester.userId !== user.id && user.parentId !== requester.userId)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const stats = await ToneDrillService.getStats(user.id);
+    res.json(stats);
+  } catch (error) {
+    console.error('Error getting tone drill stats:', error);
+    res.status(500).json({ error: 'Failed to get tone drill stats' });
+  }
+});
+
+export default router;
@@ -0,0 +1,122 @@
+/**
+ * Vocabulary Routes Tests - characters and expressions
+ *
+ * Tests for the character lookup endpoint and the validation of long words, chengyu and patterns
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import vocabularyRoutes from './vocabulary.routes';
+import { vocabularyManager } from '../services/VocabularyManager';
+import { DuplicateService } from '../services/DuplicateService';
+import { ExpressionService } from '../services/ExpressionService';
+import { UserDAO } from '../models/User';
+import { AuthService } from '../services/AuthService';
+
+jest.mock('../services/VocabularyManager', () => ({
+  vocabularyManager: {
+    createEntry: jest.fn(),
+    updateEntry: jest.fn()
+  }
+}));
+jest.mock('../services/DuplicateService', () => ({
+  ...jest.requireActual('../services/DuplicateService'),
+  DuplicateService: {
+    check: jest.fn()
+  }
+}));
+jest.mock('../models/User');
+jest.mock('../services/AuthService');
+
+describe('Vocabulary Routes - characters', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', vocabularyRoutes);
+    jest.clearAllMocks();
+    (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 1, username: 'parent', role: 'parent', parentId: null });
+    (UserDAO.findByUsername as jest.Mock).mockResolvedValue({ id: 1, username: 'parent', role: 'parent' });
+    jest.spyOn(ExpressionService, 'lookupCharacter');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('GET /api/:username/vocabulary/characters/:character', () => {
+    it('should return the entries and expressions of the character', async () => {
+      const lookup = {
+        character: '心',
+        entries: [{ id: 'v1', chineseCharacter: '心', chapter: 1 }],
+        expressions: [{ id: 'v2', chineseCharacter: '一心一意', chapter: 3 }]
+      };
+      (ExpressionService.lookupCharacter as jest.Mock).mockResolvedValue(lookup);
+
+      const response = await request(app)
+        .get(`/api/parent/vocabulary/characters/${encodeURIComponent('心')}`)
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(lookup);
+      expect(ExpressionService.lookupCharacter).toHaveBeenCalledWith(1, '心');
+    });
+
+    it('should return 400 for more than one character', async () => {
+      (ExpressionService.lookupCharacter as jest.Mock).mockRejectedValue(new Error('character must be a single Chinese character'));
+
+      const response = await request(app)
+        .get(`/api/parent/vocabulary/characters/${encodeURIComponent('小心')}`)
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      (UserDAO.findByUsername as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app)
+        .get(`/api/nobody/vocabulary/characters/${encodeURIComponent('心')}`)
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/:username/vocabulary', () => {
+    it('should create a pattern entry', async () => {
+      (DuplicateService.check as jest.Mock).mockResolvedValue({ outcome: 'create', existing: [] });
+      (vocabularyManager.createEntry as jest.Mock).mockResolvedValue({ id: 'v1', chineseCharacter: '越。。。越', chapter: 2 });
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary')
+        .set('Authorization', 'Bearer token')
+        .send({ chineseCharacter: '越。。。越', chapter: 2 });
+
+      expect(response.status).toBe(201);
+    });
+
+    it('should return 400 for an expression longer than 64 characters', async () => {
+      const response = await request(app)
+        .post('/api/parent/vocabulary')
+        .set('Authorization', 'Bearer token')
+        .send({ chineseCharacter: '好'.repeat(65), chapter: 2 });
+
+      expect(response.status).toBe(400);
+      expect(vocabularyManager.createEntry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /api/:username/vocabulary/:id', () => {
+    it('should return 400 for an expression longer than 64 characters', async () => {
+      const response = await request(app)
+        .put('/api/parent/vocabulary/v1')
+        .set('Authorization', 'Bearer token')
+        .send({ chineseCharacter: '好'.repeat(65) });
+
+      expect(response.status).toBe(400);
+      expect(vocabularyManager.updateEntry).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Vocabulary Routes Tests - duplicates
+ *
+ * Tests for duplicate handling when adding, batch uploading and sharing vocabulary,
+ * and for the duplicate report and merge endpoints
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import vocabularyRoutes from './vocabulary.routes';
+import { vocabularyManager } from '../services/VocabularyManager';
+import { DuplicateService } from '../services/DuplicateService';
+import { UserDAO } from '../models/User';
+import { AuthService } from '../services/AuthService';
+
+jest.mock('../services/VocabularyManager', () => ({
+  vocabularyManager: {
+    createEntry: jest.fn(),
+    shareChapter: jest.fn()
+  }
+}));
+jest.mock('../services/DuplicateService', () => ({
+  ...jest.requireActual('../services/DuplicateService'),
+  DuplicateService: {
+    check: jest.fn(),
+    findDuplicates: jest.fn(),
+    merge: jest.fn()
+  }
+}));
+jest.mock('../models/User');
+jest.mock('../services/AuthService');
+
+describe('Vocabulary Routes - duplicates', () => {
+  let app: Express;
+
+  const existing = { id: 'v1', chineseCharacter: '你好', chapter: 1 };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', vocabularyRoutes);
+    jest.clearAllMocks();
+    (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 1, username: 'parent', role: 'parent', parentId: null });
+    (UserDAO.findByUsername as jest.Mock).mockImplementation(async (username: string) =>
+      ({ id: username === 'teacher' ? 3 : 1, username, role: 'parent' }));
+  });
+
+  describe('POST /api/:username/vocabulary', () => {
+    it('should return 409 with the existing entries when the word exists', async () => {
+      (DuplicateService.check as jest.Mock).mockResolvedValue({ outcome: 'duplicate', existing: [existing] });
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary')
+        .set('Authorization', 'Bearer token')
+        .send({ chineseCharacter: '你好', chapter: 2 });
+
+      expect(response.status).toBe(409);
+      expect(response.body.existing).toEqual([existing]);
+      expect(vocabularyManager.createEntry).not.toHaveBeenCalled();
+    });
+
+    it('should return the updated entry when asked to update', async () => {
+      (DuplicateService.check as jest.Mock).mockResolvedValue({ outcome: 'updated', existing: [existing], entry: existing });
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary')
+        .set('Authorization', 'Bearer token')
+        .send({ chineseCharacter: '你好', chapter: 2, englishMeaning: 'hi', onDuplicate: 'update' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(existing);
+      expect(DuplicateService.check).toHaveBeenCalledWith(1, { chineseCharacter: '你好', chapter: 2, englishMeaning: 'hi' }, 'update', 1);
+    });
+
+    it('should create the entry when keeping both', async () => {
+      (DuplicateService.check as jest.Mock).mockResolvedValue({ outcome: 'create', existing: [existing] });
+      (vocabularyManager.createEntry as jest.Mock).mockResolvedValue({ ...existing, id: 'v2', chapter: 2 });
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary')
+        .set('Authorization', 'Bearer token')
+        .send({ chineseCharacter: '你好', chapter: 2, onDuplicate: 'keepBoth' });
+
+      expect(response.status).toBe(201);
+      expect(vocabularyManager.createEntry).toHaveBeenCalledWith(1, 'parent', { chineseCharacter: '你好', chapter: 2 });
+    });
+
+    it('should return 400 for an unknown duplicate action', async () => {
+      const response = await request(app)
+        .post('/api/parent/vocabulary')
+        .set('Authorization', 'Bearer token')
+        .send({ chineseCharacter: '你好', chapter: 2, onDuplicate: 'replace' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/:username/vocabulary/batch', () => {
+    it('should skip existing and repeated words by default', async () => {
+      (DuplicateService.check as jest.Mock).mockImplementation(async (_userId: number, input: { chineseCharacter: string }) =>
+        (input.chineseCharacter === '你好' ? { outcome: 'skipped', existing: [existing], entry: existing } : { outcome: 'create', existing: [] }));
+      (vocabularyManager.createEntry as jest.Mock).mockResolvedValue({ id: 'v2', chineseCharacter: '谢谢' });
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary/batch')
+        .set('Authorization', 'Bearer token')
+        .send({ characters: '你好,谢谢,谢谢', chapter: 2 });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toMatchObject({ total: 2, success: 2, failed: 0, skipped: 1, updated: 0 });
+      expect(DuplicateService.check).toHaveBeenCalledWith(1, expect.objectContaining({ chineseCharacter: '你好' }), 'skip', 1);
+      expect(vocabularyManager.createEntry).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('POST /api/:username/vocabulary/share', () => {
+    it('should pass the duplicate action and report the counts', async () => {
+      (vocabularyManager.shareChapter as jest.Mock).mockResolvedValue({ copied: 3, skipped: 2, updated: 0 });
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary/share')
+        .set('Authorization', 'Bearer token')
+        .send({ sourceUsername: 'teacher', chapter: 4 });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true, copiedCount: 3, skippedCount: 2, updatedCount: 0 });
+      expect(vocabularyManager.shareChapter).toHaveBeenCalledWith(3, 1, 'parent', 4, 'skip', 1);
+    });
+  });
+
+  describe('GET /api/:username/vocabulary/duplicates', () => {
+    it('should return the duplicate groups', async () => {
+      const groups = [{ chineseCharacter: '你好', entries: [existing, { ...existing, id: 'v2', chapter: 3 }] }];
+      (DuplicateService.findDuplicates as jest.Mock).mockResolvedValue(groups);
+
+      const response = await request(app)
+        .get('/api/parent/vocabulary/duplicates')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(groups);
+      expect(DuplicateService.findDuplicates).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('POST /api/:username/vocabulary/merge', () => {
+    it('should merge the entries', async () => {
+      (DuplicateService.merge as jest.Mock).mockResolvedValue(existing);
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary/merge')
+        .set('Authorization', 'Bearer token')
+        .send({ ids: ['v1', 'v2'] });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(existing);
+      expect(DuplicateService.merge).toHaveBeenCalledWith(1, ['v1', 'v2'], 1);
+    });
+
+    it('should return 400 for different words', async () => {
+      (DuplicateService.merge as jest.Mock).mockRejectedValue(new Error('Only entries with the same Chinese characters can be merged'));
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary/merge')
+        .set('Authorization', 'Bearer token')
+        .send({ ids: ['v1', 'v2'] });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 400 without ids', async () => {
+      const response = await request(app)
+        .post('/api/parent/vocabulary/merge')
+        .set('Authorization', 'Bearer token')
+        .send({});
+
+      expect(response.status).toBe(400);
+      expect(DuplicateService.merge).not.toHaveBeenCalled();
+    });
+
+    it('should not let children merge', async () => {
+      (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 2, username: 'child', role: 'child', parentId: 1 });
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary/merge')
+        .set('Authorization', 'Bearer token')
+        .send({ ids: ['v1', 'v2'] });
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
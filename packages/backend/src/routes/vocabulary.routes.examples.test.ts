@@ -0,0 +1,71 @@
+/**
+ * Vocabulary Routes Tests - example sentences
+ *
+ * Tests for the example sentences of an entry
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import vocabularyRoutes from './vocabulary.routes';
+import { ExampleSentenceService } from '../services/ExampleSentenceService';
+import { UserDAO } from '../models/User';
+import { AuthService } from '../services/AuthService';
+
+jest.mock('../services/ExampleSentenceService');
+jest.mock('../models/User');
+jest.mock('../services/AuthService');
+
+describe('Vocabulary Routes - example sentences', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', vocabularyRoutes);
+    jest.clearAllMocks();
+    (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 2, username: 'kid', role: 'child', parentId: 1 });
+    (UserDAO.findByUsername as jest.Mock).mockResolvedValue({ id: 1, username: 'parent', role: 'parent' });
+  });
+
+  describe('GET /api/:username/vocabulary/:id/examples', () => {
+    it('should return the examples of the entry', async () => {
+      const examples = [{ id: 's-1', chineseText: '我喜欢茶。', usedCharacters: ['我', '喜欢', '茶'], newWordCount: 0 }];
+      (ExampleSentenceService.getExamples as jest.Mock).mockResolvedValue(examples);
+
+      const response = await request(app)
+        .get('/api/parent/vocabulary/v1/examples')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ examples });
+      expect(ExampleSentenceService.getExamples).toHaveBeenCalledWith(1, 'v1', 3);
+    });
+
+    it('should accept a limit and reject one out of range', async () => {
+      (ExampleSentenceService.getExamples as jest.Mock).mockResolvedValue([]);
+
+      const limited = await request(app)
+        .get('/api/parent/vocabulary/v1/examples')
+        .query({ limit: 5 })
+        .set('Authorization', 'Bearer token');
+      const invalid = await request(app)
+        .get('/api/parent/vocabulary/v1/examples')
+        .query({ limit: 50 })
+        .set('Authorization', 'Bearer token');
+
+      expect(limited.status).toBe(200);
+      expect(ExampleSentenceService.getExamples).toHaveBeenCalledWith(1, 'v1', 5);
+      expect(invalid.status).toBe(400);
+    });
+
+    it('should return 404 for an unknown entry', async () => {
+      (ExampleSentenceService.getExamples as jest.Mock).mockRejectedValue(new Error('Vocabulary entry not found'));
+
+      const response = await request(app)
+        .get('/api/parent/vocabulary/missing/examples')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
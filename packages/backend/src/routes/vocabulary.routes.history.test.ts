@@ -0,0 +1,99 @@
+/**
+ * Vocabulary Routes Tests - edit history
+ *
+ * Tests for the entry history and restore endpoints
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import vocabularyRoutes from './vocabulary.routes';
+import { VocabularyHistory } from '../services/VocabularyHistory';
+import { UserDAO } from '../models/User';
+import { AuthService } from '../services/AuthService';
+
+jest.mock('../services/VocabularyHistory');
+jest.mock('../models/User');
+jest.mock('../services/AuthService');
+
+describe('Vocabulary Routes - history', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', vocabularyRoutes);
+    jest.clearAllMocks();
+    (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 1, username: 'parent', role: 'parent', parentId: null });
+    (UserDAO.findByUsername as jest.Mock).mockResolvedValue({ id: 1, username: 'parent', role: 'parent' });
+  });
+
+  describe('GET /api/:username/vocabulary/:id/history', () => {
+    it('should return the revisions of the entry', async () => {
+      const revisions = [{ id: 5, vocabularyId: 'v1', action: 'update', changes: { learningNote: { from: 'note', to: null } } }];
+      (VocabularyHistory.getHistory as jest.Mock).mockResolvedValue(revisions);
+
+      const response = await request(app)
+        .get('/api/parent/vocabulary/v1/history')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ revisions });
+      expect(VocabularyHistory.getHistory).toHaveBeenCalledWith(1, 'v1');
+    });
+
+    it('should return 404 for an unknown entry', async () => {
+      (VocabularyHistory.getHistory as jest.Mock).mockRejectedValue(new Error('Vocabulary entry not found'));
+
+      const response = await request(app)
+        .get('/api/parent/vocabulary/missing/history')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/:username/vocabulary/:id/history/:revisionId/restore', () => {
+    it('should restore the entry as the current user', async () => {
+      const restored = { id: 'v1', chineseCharacter: '你好', learningNote: 'note' };
+      (VocabularyHistory.restore as jest.Mock).mockResolvedValue(restored);
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary/v1/history/5/restore')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(restored);
+      expect(VocabularyHistory.restore).toHaveBeenCalledWith(1, 'v1', 5, 1);
+    });
+
+    it('should return 400 for an invalid revision ID', async () => {
+      const response = await request(app)
+        .post('/api/parent/vocabulary/v1/history/latest/restore')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(400);
+      expect(VocabularyHistory.restore).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown revision', async () => {
+      (VocabularyHistory.restore as jest.Mock).mockRejectedValue(new Error('Revision not found'));
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary/v1/history/99/restore')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should not let children restore', async () => {
+      (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 2, username: 'child', role: 'child', parentId: 1 });
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary/v1/history/5/restore')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(403);
+      expect(VocabularyHistory.restore).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Vocabulary Routes Tests - search
+ *
+ * Tests for server-side search, sorting and cursor pagination of the vocabulary list
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import vocabularyRoutes from './vocabulary.routes';
+import { vocabularyManager } from '../services/VocabularyManager';
+import { VocabularySearch } from '../services/VocabularySearch';
+import { UserDAO } from '../models/User';
+import { AuthService } from '../services/AuthService';
+
+jest.mock('../services/VocabularyManager', () => ({
+  vocabularyManager: {
+    getEntries: jest.fn(),
+    getEntriesByChapterLabel: jest.fn()
+  }
+}));
+jest.mock('../models/User');
+jest.mock('../services/AuthService');
+
+describe('Vocabulary Routes - search', () => {
+  let app: Express;
+
+  const page = {
+    entries: [{ id: 'v1', chineseCharacter: '好', pinyin: 'hǎo', chapter: 1 }],
+    total: 12,
+    nextCursor: 'abc'
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', vocabularyRoutes);
+    jest.clearAllMocks();
+    (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 1, username: 'parent', role: 'parent', parentId: null });
+    (UserDAO.findByUsername as jest.Mock).mockResolvedValue({ id: 1, username: 'parent', role: 'parent' });
+    jest.spyOn(VocabularySearch, 'search').mockResolvedValue(page as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('GET /api/:username/vocabulary', () => {
+    it('should return a page of search results', async () => {
+      const response = await request(app)
+        .get('/api/parent/vocabulary')
+        .query({ q: 'hao', sort: 'pinyin', order: 'desc', limit: '25' })
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(page);
+      expect(VocabularySearch.search).toHaveBeenCalledWith([1], expect.objectContaining({
+        q: 'hao',
+        sort: 'pinyin',
+        order: 'desc',
+        limit: 25
+      }));
+      expect(vocabularyManager.getEntries).not.toHaveBeenCalled();
+    });
+
+    it('should search the parent vocabulary too for a child', async () => {
+      (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 2, username: 'child', role: 'child', parentId: 1 });
+      (UserDAO.findByUsername as jest.Mock).mockResolvedValue({ id: 2, username: 'child', role: 'child' });
+
+      const response = await request(app)
+        .get('/api/child/vocabulary')
+        .query({ limit: '100' })
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(VocabularySearch.search).toHaveBeenCalledWith([2, 1], expect.anything());
+    });
+
+    it('should return 400 for an unknown sort field', async () => {
+      const response = await request(app)
+        .get('/api/parent/vocabulary')
+        .query({ sort: 'meaning' })
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('sort must be one of');
+      expect(VocabularySearch.search).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 for another family', async () => {
+      (UserDAO.findByUsername as jest.Mock).mockResolvedValue({ id: 5, username: 'other', role: 'parent' });
+
+      const response = await request(app)
+        .get('/api/other/vocabulary')
+        .query({ q: 'hao' })
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should keep returning the full list without search parameters', async () => {
+      (vocabularyManager.getEntries as jest.Mock).mockResolvedValue(page.entries);
+
+      const response = await request(app)
+        .get('/api/parent/vocabulary')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(page.entries);
+      expect(VocabularySearch.search).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Vocabulary Routes Tests - tags
+ *
+ * Tests for tagging batch uploads and for random words by tag
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import vocabularyRoutes from './vocabulary.routes';
+import { vocabularyManager } from '../services/VocabularyManager';
+import { DuplicateService } from '../services/DuplicateService';
+import { TagService } from '../services/TagService';
+import { UserDAO } from '../models/User';
+import { AuthService } from '../services/AuthService';
+
+jest.mock('../services/VocabularyManager', () => ({
+  vocabularyManager: {
+    createEntry: jest.fn(),
+    getRandomByTag: jest.fn(),
+    getRandomByChapterLabel: jest.fn()
+  }
+}));
+jest.mock('../services/DuplicateService', () => ({
+  ...jest.requireActual('../services/DuplicateService'),
+  DuplicateService: {
+    check: jest.fn()
+  }
+}));
+jest.mock('../models/User');
+jest.mock('../services/AuthService');
+
+describe('Vocabulary Routes - tags', () => {
+  let app: Express;
+
+  const existing = { id: 'v1', chineseCharacter: '你好', chapter: 1 };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', vocabularyRoutes);
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+    (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 1, username: 'parent', role: 'parent', parentId: null });
+    (UserDAO.findByUsername as jest.Mock).mockResolvedValue({ id: 1, username: 'parent', role: 'parent' });
+  });
+
+  describe('POST /api/:username/vocabulary/batch', () => {
+    it('should tag every word of the batch, including skipped ones', async () => {
+      const addToEntries = jest.spyOn(TagService, 'addToEntries').mockResolvedValue();
+      (DuplicateService.check as jest.Mock).mockImplementation(async (_userId: number, input: { chineseCharacter: string }) =>
+        (input.chineseCharacter === '你好' ? { outcome: 'skipped', existing: [existing], entry: existing } : { outcome: 'create', existing: [] }));
+      (vocabularyManager.createEntry as jest.Mock).mockResolvedValue({ id: 'v2', chineseCharacter: '谢谢' });
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary/batch')
+        .set('Authorization', 'Bearer token')
+        .send({ characters: '你好,谢谢', chapter: 2, tags: 'food, exam week 3' });
+
+      expect(response.status).toBe(201);
+      expect(addToEntries).toHaveBeenCalledWith(1, ['v1', 'v2'], ['food', 'exam week 3']);
+    });
+
+    it('should not touch tags when none are given', async () => {
+      const addToEntries = jest.spyOn(TagService, 'addToEntries').mockResolvedValue();
+      (DuplicateService.check as jest.Mock).mockResolvedValue({ outcome: 'create', existing: [] });
+      (vocabularyManager.createEntry as jest.Mock).mockResolvedValue({ id: 'v2', chineseCharacter: '谢谢' });
+
+      await request(app)
+        .post('/api/parent/vocabulary/batch')
+        .set('Authorization', 'Bearer token')
+        .send({ characters: '谢谢', chapter: 2 });
+
+      expect(addToEntries).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid tag', async () => {
+      const response = await request(app)
+        .post('/api/parent/vocabulary/batch')
+        .set('Authorization', 'Bearer token')
+        .send({ characters: '谢谢', chapter: 2, tags: ['x'.repeat(51)] });
+
+      expect(response.status).toBe(400);
+      expect(DuplicateService.check).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/:username/vocabulary/chapters/random', () => {
+    it('should pick a random word carrying the tag', async () => {
+      (vocabularyManager.getRandomByTag as jest.Mock).mockResolvedValue(existing);
+
+      const response = await request(app)
+        .get('/api/parent/vocabulary/chapters/random')
+        .query({ tag: 'food', chapterLabel: 'HSK 1' })
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(existing);
+      expect(vocabularyManager.getRandomByTag).toHaveBeenCalledWith(1, 'food');
+      expect(vocabularyManager.getRandomByChapterLabel).not.toHaveBeenCalled();
+    });
+  });
+});
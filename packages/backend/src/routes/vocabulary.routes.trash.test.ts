@@ -0,0 +1,140 @@
+/**
+ * Vocabulary Routes Tests - trash
+ *
+ * Tests for the trash listing, restore and purge endpoints
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import vocabularyRoutes from './vocabulary.routes';
+import { TrashService } from '../services/TrashService';
+import { UserDAO } from '../models/User';
+import { AuthService } from '../services/AuthService';
+
+jest.mock('../services/TrashService');
+jest.mock('../models/User');
+jest.mock('../services/AuthService');
+
+describe('Vocabulary Routes - trash', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', vocabularyRoutes);
+    jest.clearAllMocks();
+    (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 1, username: 'parent', role: 'parent', parentId: null });
+    (UserDAO.findByUsername as jest.Mock).mockResolvedValue({ id: 1, username: 'parent', role: 'parent' });
+  });
+
+  describe('GET /api/:username/vocabulary/trash', () => {
+    it('should list the trash', async () => {
+      const trash = { retentionDays: 30, entries: [{ id: 'v1', chineseCharacter: '你好' }] };
+      (TrashService.list as jest.Mock).mockResolvedValue(trash);
+
+      const response = await request(app)
+        .get('/api/parent/vocabulary/trash')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(trash);
+      expect(TrashService.list).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('POST /api/:username/vocabulary/trash/restore', () => {
+    it('should restore the entries as the current user', async () => {
+      const restored = [{ id: 'v1', chineseCharacter: '你好' }];
+      (TrashService.restore as jest.Mock).mockResolvedValue(restored);
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary/trash/restore')
+        .set('Authorization', 'Bearer token')
+        .send({ ids: ['v1'] });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ restored });
+      expect(TrashService.restore).toHaveBeenCalledWith(1, ['v1'], 1);
+    });
+
+    it('should return 400 without ids', async () => {
+      const response = await request(app)
+        .post('/api/parent/vocabulary/trash/restore')
+        .set('Authorization', 'Bearer token')
+        .send({});
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for an entry that is not in the trash', async () => {
+      (TrashService.restore as jest.Mock).mockRejectedValue(new Error('Vocabulary entry v9 not found in the trash'));
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary/trash/restore')
+        .set('Authorization', 'Bearer token')
+        .send({ ids: ['v9'] });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should not let children restore', async () => {
+      (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 2, username: 'child', role: 'child', parentId: 1 });
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary/trash/restore')
+        .set('Authorization', 'Bearer token')
+        .send({ ids: ['v1'] });
+
+      expect(response.status).toBe(403);
+      expect(TrashService.restore).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/:username/vocabulary/trash/purge', () => {
+    it('should purge the given entries', async () => {
+      (TrashService.purge as jest.Mock).mockResolvedValue(1);
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary/trash/purge')
+        .set('Authorization', 'Bearer token')
+        .send({ ids: ['v1'] });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ purged: 1 });
+      expect(TrashService.purge).toHaveBeenCalledWith(1, ['v1']);
+    });
+
+    it('should empty the trash', async () => {
+      (TrashService.purge as jest.Mock).mockResolvedValue(4);
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary/trash/purge')
+        .set('Authorization', 'Bearer token')
+        .send({ all: true });
+
+      expect(response.status).toBe(200);
+      expect(TrashService.purge).toHaveBeenCalledWith(1, 'all');
+    });
+
+    it('should return 400 without ids or all', async () => {
+      const response = await request(app)
+        .post('/api/parent/vocabulary/trash/purge')
+        .set('Authorization', 'Bearer token')
+        .send({});
+
+      expect(response.status).toBe(400);
+      expect(TrashService.purge).not.toHaveBeenCalled();
+    });
+
+    it('should not let children purge', async () => {
+      (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 2, username: 'child', role: 'child', parentId: 1 });
+
+      const response = await request(app)
+        .post('/api/parent/vocabulary/trash/purge')
+        .set('Authorization', 'Bearer token')
+        .send({ all: true });
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
@@ -10,6 +10,13 @@ import { vocabularyManager } from '../services/VocabularyManager';
 import { VocabularyInput, VocabularyEntry } from '../models/VocabularyEntry';
 import { authenticateJWT, AuthRequest, requireRole } from '../middleware/auth';
 import { UserDAO } from '../models/User';
+import { DuplicateService, DuplicateAction, DUPLICATE_ACTIONS } from '../services/DuplicateService';
+import { ExpressionService } from '../services/ExpressionService';
+import { VocabularySearch, VocabularySearchQuery } from '../services/VocabularySearch';
+import { VocabularyHistory } from '../services/VocabularyHistory';
+import { TrashService } from '../services/TrashService';
+import { TagService } from '../services/TagService';
+import { ExampleSentenceService } from '../services/ExampleSentenceService';
 
 const router = Router();
 
@@ -21,6 +28,13 @@ async function resolveUserId(username: string): Promise<number | null> {
   return user ? user.id : null;
 }
 
+/**
+ * Helper: validate an optional onDuplicate value. Returns false if it is invalid.
+ */
+function isDuplicateAction(value: unknown): value is DuplicateAction | undefined {
+  return value === undefined || DUPLICATE_ACTIONS.includes(value as DuplicateAction);
+}
+
 // ==================== Public / non-username routes ====================
 
 router.get('/vocabulary/users', async (_req: Request, res: Response) => {
@@ -28,7 +42,7 @@ router.get('/vocabulary/users', async (_req: Request, res: Response) => {
     const { getPool } = await import('../config/database');
     const pool = getPool();
     const [rows] = await pool.query<any[]>(
-      `SELECT DISTINCT au.username FROM vocabulary_entries ve JOIN auth_users au ON ve.user_id = au.id ORDER BY au.username ASC`
+      `SELECT DISTINCT au.username FROM vocabulary_entries ve JOIN auth_users au ON ve.user_id = au.id WHERE ve.deleted_at IS NULL ORDER BY au.username ASC`
     );
     res.json(rows.map((r: any) => r.username));
   } catch (error) {
@@ -88,16 +102,24 @@ router.get('/vocabulary/shared', async (req: Request, res: Response) => {
 router.post('/:username/vocabulary/batch', authenticateJWT, requireRole(['admin', 'parent']), async (req: AuthRequest, res: Response) => {
   try {
     const { username } = req.params;
-    const { characters, chapter, chapterLabel } = req.body;
+    const { characters, chapter, chapterLabel, onDuplicate = 'skip' } = req.body;
+    let tags: string[];
+    try {
+      tags = TagService.parseNames(req.body.tags ?? []);
+    } catch (parseError) {
+      return res.status(400).json({ error: (parseError as Error).message });
+    }
 
     if (!username || typeof username !== 'string') return res.status(400).json({ error: 'Invalid username' });
     if (!characters || typeof characters !== 'string') return res.status(400).json({ error: 'characters is required' });
     if (!chapter || typeof chapter !== 'number' || isNaN(chapter)) return res.status(400).json({ error: 'chapter must be a valid integer' });
+    if (!isDuplicateAction(onDuplicate)) return res.status(400).json({ error: `onDuplicate must be one of: ${DUPLICATE_ACTIONS.join(', ')}` });
 
     const userId = await resolveUserId(username);
     if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
 
-    const charArray = characters.split(/[,;，；\n\r]/).map((c: string) => c.trim()).filter((c: string) => c.length > 0);
+    let charArray: string[] = characters.split(/[,;，；\n\r]/).map((c: string) => c.trim()).filter((c: string) => c.length > 0);
+    if (onDuplicate !== 'keepBoth') charArray = Array.from(new Set(charArray));
     if (charArray.length === 0) return res.status(400).json({ error: 'No valid characters found' });
     if (charArray.length > 100) return res.status(400).json({ error: 'Maximum 100 characters per batch' });
 
@@ -108,12 +130,18 @@ router.post('/:username/vocabulary/batch', authenticateJWT, requireRole(['admin'
       const batch = charArray.slice(i, i + BATCH_SIZE);
       const batchPromises = batch.map(async (char: string) => {
         try {
-          const entry = await vocabularyManager.createEntry(userId, username, {
+          ExpressionService.validate(char);
+          const input: VocabularyInput = {
             chineseCharacter: char,
             chapter: chapter,
             chapterLabel: chapterLabel || undefined
-          });
-          return { character: char, success: true, entry };
+          };
+          const duplicate = await DuplicateService.check(userId, input, onDuplicate, req.user?.userId);
+          if (duplicate.outcome !== 'create') {
+            return { character: char, success: true, status: duplicate.outcome, entry: duplicate.entry };
+          }
+          const entry = await vocabularyManager.createEntry(userId, username, input);
+          return { character: char, success: true, status: 'created', entry };
         } catch (error) {
           return { character: char, success: false, error: error instanceof Error ? error.message : 'Unknown error' };
         }
@@ -121,10 +149,18 @@ router.post('/:username/vocabulary/batch', authenticateJWT, requireRole(['admin'
       results.push(...await Promise.all(batchPromises));
     }
 
+    // Tags go on every word of the batch, including existing words that were skipped
+    if (tags.length > 0) {
+      const taggedIds = results.map(r => r.entry?.id).filter((id): id is string => !!id);
+      await TagService.addToEntries(userId, taggedIds, tags);
+    }
+
     const successCount = results.filter(r => r.success).length;
     const failCount = results.filter(r => !r.success).length;
+    const skippedCount = results.filter(r => r.status === 'skipped').length;
+    const updatedCount = results.filter(r => r.status === 'updated').length;
 
-    res.status(201).json({ total: charArray.length, success: successCount, failed: failCount, results });
+    res.status(201).json({ total: charArray.length, success: successCount, failed: failCount, skipped: skippedCount, updated: updatedCount, results });
   } catch (error) {
     console.error('Error in batch upload:', error);
     res.status(500).json({ error: 'Failed to process batch upload' });
@@ -136,15 +172,30 @@ router.post('/:username/vocabulary/batch', authenticateJWT, requireRole(['admin'
 router.post('/:username/vocabulary', authenticateJWT, requireRole(['admin', 'parent']), async (req: AuthRequest, res: Response) => {
   try {
     const { username } = req.params;
-    const entry: VocabularyInput = req.body;
+    const { onDuplicate, ...entry }: VocabularyInput & { onDuplicate?: DuplicateAction } = req.body;
 
     if (!username) return res.status(400).json({ error: 'Invalid username' });
     if (!entry.chineseCharacter) return res.status(400).json({ error: 'chineseCharacter is required' });
     if (!entry.chapter || isNaN(entry.chapter)) return res.status(400).json({ error: 'chapter must be a valid integer' });
+    try {
+      ExpressionService.validate(entry.chineseCharacter);
+    } catch (validationError) {
+      return res.status(400).json({ error: (validationError as Error).message });
+    }
+    if (!isDuplicateAction(onDuplicate)) return res.status(400).json({ error: `onDuplicate must be one of: ${DUPLICATE_ACTIONS.join(', ')}` });
 
     const userId = await resolveUserId(username);
     if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
 
+    // Without onDuplicate, an existing word is reported so the client can choose skip/update/keepBoth
+    const duplicate = await DuplicateService.check(userId, entry, onDuplicate, req.user?.userId);
+    if (duplicate.outcome === 'duplicate') {
+      return res.status(409).json({ error: `"${entry.chineseCharacter}" already exists`, existing: duplicate.existing });
+    }
+    if (duplicate.outcome !== 'create') {
+      return res.json(duplicate.entry);
+    }
+
     const createdEntry = await vocabularyManager.createEntry(userId, username, entry);
     res.status(201).json(createdEntry);
   } catch (error) {
@@ -153,6 +204,32 @@ router.post('/:username/vocabulary', authenticateJWT, requireRole(['admin', 'par
   }
 });
 
+/**
+ * GET /api/:username/vocabulary
+ *
+ * List a user's vocabulary (a child also gets the parent's words)
+ *
+ * Query Parameters (whole vocabulary as an array):
+ * - chapterStart, chapterEnd: chapter range (optional)
+ * - chapterLabel: chapter label (optional)
+ *
+ * Query Parameters (a page; used when any of q, sort, order, limit, cursor, favorite or a field filter is given):
+ * - q: search text matched against hanzi, pinyin (tone-insensitive), Hán-Việt, Vietnamese, English and notes
+ * - chineseCharacter, pinyin, hanVietnamese, modernVietnamese, englishMeaning, learningNote: per-field filters
+ * - favorite: true | false
+ * - chapter selection: chapterStart/chapterEnd, chapters, ranges, chapterLabel, tags, favoritesOnly, exclusions
+ * - sort: chapter | chineseCharacter | pinyin | createdAt | updatedAt (default chapter, then pinyin)
+ * - order: asc | desc (default asc)
+ * - limit: 1-500 (default 100)
+ * - cursor: nextCursor of the previous page
+ *
+ * Response:
+ * - 200: VocabularyEntry[], or { entries, total, nextCursor } for a page
+ * - 400: Invalid parameters
+ * - 403: Not the user's own (or parent's) vocabulary
+ * - 404: User not found
+ * - 500: Server error
+ */
 router.get('/:username/vocabulary', authenticateJWT, async (req: AuthRequest, res: Response) => {
   try {
     const { username } = req.params;
@@ -180,6 +257,20 @@ router.get('/:username/vocabulary', authenticateJWT, async (req: AuthRequest, re
       return res.status(403).json({ error: 'Access denied.' });
     }
 
+    if (VocabularySearch.isSearchRequest(req.query)) {
+      let search: VocabularySearchQuery;
+      try {
+        search = VocabularySearch.parseQuery(req.query);
+      } catch (parseError) {
+        return res.status(400).json({ error: (parseError as Error).message });
+      }
+
+      // Child user requesting own vocabulary: search the parent's vocabulary too
+      const userIds = currentRole === 'child' && isOwnVocabulary && currentParentId ? [userId, currentParentId] : [userId];
+      const page = await VocabularySearch.search(userIds, search);
+      return res.json(page);
+    }
+
     let entries;
 
     if (chapterLabel && typeof chapterLabel === 'string') {
@@ -229,13 +320,15 @@ router.get('/:username/vocabulary', authenticateJWT, async (req: AuthRequest, re
 router.get('/:username/vocabulary/chapters/random', authenticateJWT, async (req: AuthRequest, res: Response) => {
   try {
     const { username } = req.params;
-    const { chapterStart, chapterEnd, chapterLabel } = req.query;
+    const { chapterStart, chapterEnd, chapterLabel, tag } = req.query;
 
     const userId = await resolveUserId(username);
     if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
 
     let randomEntry;
-    if (chapterLabel && typeof chapterLabel === 'string') {
+    if (tag && typeof tag === 'string') {
+      randomEntry = await vocabularyManager.getRandomByTag(userId, tag);
+    } else if (chapterLabel && typeof chapterLabel === 'string') {
       randomEntry = await vocabularyManager.getRandomByChapterLabel(userId, chapterLabel);
     } else {
       if (!chapterStart || !chapterEnd) return res.status(400).json({ error: 'chapterStart and chapterEnd are required' });
@@ -286,9 +379,9 @@ router.get('/:username/vocabulary/chapter-labels', authenticateJWT, async (req:
 
 router.post('/:username/vocabulary/translate', authenticateJWT, async (req: AuthRequest, res: Response) => {
   try {
-    const { chineseCharacter, pinyin, modernVietnamese, englishMeaning } = req.body;
+    const { chineseCharacter, pinyin, modernVietnamese, englishMeaning, hanVietnamese } = req.body;
     if (!chineseCharacter) return res.status(400).json({ error: 'chineseCharacter is required' });
-    const preview = await vocabularyManager.previewTranslations(chineseCharacter, pinyin, modernVietnamese, englishMeaning);
+    const preview = await vocabularyManager.previewTranslations(chineseCharacter, pinyin, modernVietnamese, englishMeaning, hanVietnamese);
     res.json(preview);
   } catch (error) {
     console.error('Error generating translation preview:', error);
@@ -301,9 +394,10 @@ router.post('/:username/vocabulary/translate', authenticateJWT, async (req: Auth
 router.post('/:username/vocabulary/share', authenticateJWT, async (req: AuthRequest, res: Response) => {
   try {
     const { username } = req.params;
-    const { sourceUsername, chapter } = req.body;
+    const { sourceUsername, chapter, onDuplicate = 'skip' } = req.body;
 
     if (!sourceUsername || !chapter) return res.status(400).json({ error: 'sourceUsername and chapter are required' });
+    if (!isDuplicateAction(onDuplicate)) return res.status(400).json({ error: `onDuplicate must be one of: ${DUPLICATE_ACTIONS.join(', ')}` });
 
     const targetUserId = await resolveUserId(username);
     if (!targetUserId) return res.status(404).json({ error: `Target user "${username}" not found` });
@@ -311,8 +405,8 @@ router.post('/:username/vocabulary/share', authenticateJWT, async (req: AuthRequ
     const sourceUserId = await resolveUserId(sourceUsername);
     if (!sourceUserId) return res.status(404).json({ error: `Source user "${sourceUsername}" not found` });
 
-    const copiedCount = await vocabularyManager.shareChapter(sourceUserId, targetUserId, username, chapter);
-    res.json({ success: true, copiedCount });
+    const shared = await vocabularyManager.shareChapter(sourceUserId, targetUserId, username, chapter, onDuplicate, req.user?.userId);
+    res.json({ success: true, copiedCount: shared.copied, skippedCount: shared.skipped, updatedCount: shared.updated });
   } catch (error) {
     console.error('Error sharing vocabulary:', error);
     res.status(500).json({ error: 'Failed to share vocabulary' });
@@ -439,6 +533,307 @@ router.post('/:username/vocabulary/toggle-favorite', authenticateJWT, async (req
   }
 });
 
+// ==================== Duplicates ====================
+
+/**
+ * GET /api/:username/vocabulary/duplicates
+ *
+ * Words the user has more than once
+ *
+ * Response:
+ * - 200: DuplicateGroup[] { chineseCharacter, entries } (entries earliest chapter first)
+ * - 404: User not found
+ * - 500: Server error
+ */
+router.get('/:username/vocabulary/duplicates', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username } = req.params;
+    const userId = await resolveUserId(username);
+    if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
+
+    const groups = await DuplicateService.findDuplicates(userId);
+    res.json(groups);
+  } catch (error) {
+    console.error('Error finding duplicate vocabulary:', error);
+    res.status(500).json({ error: 'Failed to find duplicate vocabulary' });
+  }
+});
+
+/**
+ * POST /api/:username/vocabulary/merge
+ *
+ * Merge duplicate entries into the one with the earliest chapter
+ * PROTECTED: Admin and parent only
+ *
+ * Request Body:
+ * - ids: string[] - at least two entries with the same Chinese characters (required)
+ *
+ * Response:
+ * - 200: The kept VocabularyEntry with the combined fields
+ * - 400: Fewer than two entries or different words
+ * - 404: User or an entry not found
+ * - 500: Server error
+ */
+router.post('/:username/vocabulary/merge', authenticateJWT, requireRole(['admin', 'parent']), async (req: AuthRequest, res: Response) => {
+  try {
+    const { username } = req.params;
+    const { ids } = req.body;
+
+    if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string')) {
+      return res.status(400).json({ error: 'ids must be a list of vocabulary entry IDs' });
+    }
+
+    const userId = await resolveUserId(username);
+    if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
+
+    const merged = await DuplicateService.merge(userId, ids, req.user?.userId);
+    res.json(merged);
+  } catch (error) {
+    console.error('Error merging vocabulary entries:', error);
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error.message.includes('At least two') || error.message.includes('same Chinese characters')) {
+        return res.status(400).json({ error: error.message });
+      }
+    }
+    res.status(500).json({ error: 'Failed to merge vocabulary entries' });
+  }
+});
+
+// ==================== Characters ====================
+
+/**
+ * GET /api/:username/vocabulary/characters/:character
+ *
+ * Look up a single character: the user's entries for it and every word, chengyu or pattern containing it
+ *
+ * Response:
+ * - 200: { character, entries: VocabularyEntry[], expressions: VocabularyEntry[] } (earliest chapter first)
+ * - 400: Not a single Chinese character
+ * - 404: User not found
+ * - 500: Server error
+ */
+router.get('/:username/vocabulary/characters/:character', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username, character } = req.params;
+    const userId = await resolveUserId(username);
+    if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
+
+    const lookup = await ExpressionService.lookupCharacter(userId, character);
+    res.json(lookup);
+  } catch (error) {
+    console.error('Error looking up character:', error);
+    if (error instanceof Error && error.message.includes('single Chinese character')) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to look up character' });
+  }
+});
+
+// ==================== Trash ====================
+
+/**
+ * GET /api/:username/vocabulary/trash
+ *
+ * Deleted entries awaiting purging, most recently deleted first
+ *
+ * Response:
+ * - 200: { retentionDays, entries: (VocabularyEntry & { deletedAt, purgeAt })[] }
+ * - 404: User not found
+ * - 500: Server error
+ */
+router.get('/:username/vocabulary/trash', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username } = req.params;
+    const userId = await resolveUserId(username);
+    if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
+
+    const trash = await TrashService.list(userId);
+    res.json(trash);
+  } catch (error) {
+    console.error('Error listing vocabulary trash:', error);
+    res.status(500).json({ error: 'Failed to list vocabulary trash' });
+  }
+});
+
+/**
+ * POST /api/:username/vocabulary/trash/restore
+ *
+ * Take entries out of the trash (parents and admins only)
+ *
+ * Body:
+ * - ids: string[]
+ *
+ * Response:
+ * - 200: { restored: VocabularyEntry[] }
+ * - 400: No IDs given
+ * - 404: User not found, or an entry is not in the trash
+ * - 500: Server error
+ */
+router.post('/:username/vocabulary/trash/restore', authenticateJWT, requireRole(['admin', 'parent']), async (req: AuthRequest, res: Response) => {
+  try {
+    const { username } = req.params;
+    const { ids } = req.body;
+
+    if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string')) {
+      return res.status(400).json({ error: 'ids must be a list of vocabulary entry IDs' });
+    }
+
+    const userId = await resolveUserId(username);
+    if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
+
+    const restored = await TrashService.restore(userId, ids, req.user?.userId);
+    res.json({ restored });
+  } catch (error) {
+    console.error('Error restoring vocabulary from the trash:', error);
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) return res.status(404).json({ error: error.message });
+      if (error.message.includes('At least one')) return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to restore vocabulary' });
+  }
+});
+
+/**
+ * POST /api/:username/vocabulary/trash/purge
+ *
+ * Remove entries from the trash for good (parents and admins only)
+ *
+ * Body:
+ * - ids: string[] - entries to purge, or
+ * - all: true - empty the trash
+ *
+ * Response:
+ * - 200: { purged: number }
+ * - 400: Neither ids nor all given
+ * - 404: User not found
+ * - 500: Server error
+ */
+router.post('/:username/vocabulary/trash/purge', authenticateJWT, requireRole(['admin', 'parent']), async (req: AuthRequest, res: Response) => {
+  try {
+    const { username } = req.params;
+    const { ids, all } = req.body;
+
+    if (all !== true && (!Array.isArray(ids) || !ids.every(id => typeof id === 'string'))) {
+      return res.status(400).json({ error: 'Either ids (a list of vocabulary entry IDs) or all: true is required' });
+    }
+
+    const userId = await resolveUserId(username);
+    if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
+
+    const purged = await TrashService.purge(userId, all === true ? 'all' : ids);
+    res.json({ purged });
+  } catch (error) {
+    console.error('Error purging vocabulary trash:', error);
+    res.status(500).json({ error: 'Failed to purge vocabulary' });
+  }
+});
+
+// ==================== Example sentences ====================
+
+/**
+ * GET /api/:username/vocabulary/:id/examples
+ *
+ * Stored practice sentences that use the entry's word, easiest first: the fewest other words
+ * the learner has not met by the word's chapter, then the shortest
+ *
+ * Query Parameters:
+ * - limit: number of sentences (optional, default 3, at most 20)
+ *
+ * Response:
+ * - 200: { examples: [{ id, chineseText, pinyin, englishMeaning, modernVietnamese, usedCharacters, newWordCount, ... }] }
+ * - 400: Invalid limit
+ * - 404: User or entry not found
+ * - 500: Server error
+ */
+router.get('/:username/vocabulary/:id/examples', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username, id } = req.params;
+    let limit: number = ExampleSentenceService.DEFAULT_LIMIT;
+    if (req.query.limit !== undefined) {
+      limit = parseInt(req.query.limit as string, 10);
+      if (isNaN(limit) || limit < 1 || limit > ExampleSentenceService.MAX_LIMIT) {
+        return res.status(400).json({ error: `limit must be a number from 1 to ${ExampleSentenceService.MAX_LIMIT}` });
+      }
+    }
+
+    const userId = await resolveUserId(username);
+    if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
+
+    const examples = await ExampleSentenceService.getExamples(userId, id, limit);
+    res.json({ examples });
+  } catch (error) {
+    console.error('Error getting example sentences:', error);
+    if (error instanceof Error && error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to get example sentences' });
+  }
+});
+
+// ==================== Edit history ====================
+
+/**
+ * GET /api/:username/vocabulary/:id/history
+ *
+ * Edit history of an entry: who changed which fields and when, newest first
+ *
+ * Response:
+ * - 200: { revisions: VocabularyRevision[] } with { id, action, changedBy, changedByUsername, changes: { field: { from, to } }, snapshot, createdAt }
+ * - 404: User or entry not found
+ * - 500: Server error
+ */
+router.get('/:username/vocabulary/:id/history', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username, id } = req.params;
+    const userId = await resolveUserId(username);
+    if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
+
+    const revisions = await VocabularyHistory.getHistory(userId, id);
+    res.json({ revisions });
+  } catch (error) {
+    console.error('Error getting vocabulary history:', error);
+    if (error instanceof Error && error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to get vocabulary history' });
+  }
+});
+
+/**
+ * POST /api/:username/vocabulary/:id/history/:revisionId/restore
+ *
+ * Put an entry back to its content before a revision, undoing that change and all later ones
+ * (parents and admins only)
+ *
+ * Response:
+ * - 200: The restored VocabularyEntry
+ * - 400: Invalid revision ID
+ * - 404: User, entry or revision not found
+ * - 500: Server error
+ */
+router.post('/:username/vocabulary/:id/history/:revisionId/restore', authenticateJWT, requireRole(['admin', 'parent']), async (req: AuthRequest, res: Response) => {
+  try {
+    const { username, id } = req.params;
+    const revisionId = parseInt(req.params.revisionId, 10);
+    if (isNaN(revisionId)) return res.status(400).json({ error: 'revisionId must be a number' });
+
+    const userId = await resolveUserId(username);
+    if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
+
+    const restored = await VocabularyHistory.restore(userId, id, revisionId, req.user?.userId);
+    res.json(restored);
+  } catch (error) {
+    console.error('Error restoring vocabulary entry:', error);
+    if (error instanceof Error && error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to restore vocabulary entry' });
+  }
+});
+
 // ==================== Single entry CRUD ====================
 
 router.get('/:username/vocabulary/:id', authenticateJWT, async (req: AuthRequest, res: Response) => {
@@ -461,10 +856,18 @@ router.put('/:username/vocabulary/:id', authenticateJWT, async (req: AuthRequest
     const { username, id } = req.params;
     const updates: Partial<VocabularyInput> = req.body;
 
+    if (updates.chineseCharacter !== undefined) {
+      try {
+        ExpressionService.validate(updates.chineseCharacter);
+      } catch (validationError) {
+        return res.status(400).json({ error: (validationError as Error).message });
+      }
+    }
+
     const userId = await resolveUserId(username);
     if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
 
-    const updated = await vocabularyManager.updateEntry(userId, id, updates);
+    const updated = await vocabularyManager.updateEntry(userId, id, updates, req.user?.userId);
     if (!updated) return res.status(404).json({ error: 'Entry not found' });
     res.json(updated);
   } catch (error) {
@@ -479,7 +882,7 @@ router.delete('/:username/vocabulary/:id', authenticateJWT, async (req: AuthRequ
     const userId = await resolveUserId(username);
     if (!userId) return res.status(404).json({ error: `User "${username}" not found` });
 
-    const deleted = await vocabularyManager.deleteEntry(userId, id);
+    const deleted = await vocabularyManager.deleteEntry(userId, id, req.user?.userId);
     if (!deleted) return res.status(404).json({ error: 'Entry not found' });
     res.status(204).send();
   } catch (error) {
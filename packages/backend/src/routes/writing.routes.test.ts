@@ -0,0 +1,105 @@
+/**
+ * Writing Routes Tests
+ *
+ * Tests for stroke-order data API endpoints
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import writingRoutes from './writing.routes';
+import { StrokeDataService } from '../services/StrokeDataService';
+import { UserDAO } from '../models/User';
+import { AuthService } from '../services/AuthService';
+
+jest.mock('../services/StrokeDataService');
+jest.mock('../models/User');
+jest.mock('../services/AuthService');
+
+describe('Writing Routes', () => {
+  let app: Express;
+
+  const mockStrokes = { character: '你', strokes: ['M 0 0 Z'], medians: [[[0, 0], [10, 10]]], radicalStrokes: [0] };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', writingRoutes);
+    jest.clearAllMocks();
+    (AuthService.verifyToken as jest.Mock).mockReturnValue({ userId: 1, username: 'testuser', role: 'parent', parentId: null });
+    (UserDAO.findByUsername as jest.Mock).mockResolvedValue({ id: 1, username: 'testuser' });
+  });
+
+  describe('GET /api/:username/vocabulary/:id/strokes', () => {
+    it('should return the writing sheet of an entry', async () => {
+      const mockSheet = { vocabularyId: 'vocab-1', chineseCharacter: '你', pinyin: 'nǐ', characters: [mockStrokes], missing: [] };
+      (StrokeDataService.getWritingSheet as jest.Mock).mockResolvedValue(mockSheet);
+
+      const response = await request(app)
+        .get('/api/testuser/vocabulary/vocab-1/strokes')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(mockSheet);
+      expect(StrokeDataService.getWritingSheet).toHaveBeenCalledWith(1, 'vocab-1');
+    });
+
+    it('should return 404 for an unknown entry', async () => {
+      (StrokeDataService.getWritingSheet as jest.Mock).mockRejectedValue(new Error('Vocabulary entry not found'));
+
+      const response = await request(app)
+        .get('/api/testuser/vocabulary/missing/strokes')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      (UserDAO.findByUsername as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/api/nobody/vocabulary/vocab-1/strokes')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(404);
+      expect(StrokeDataService.getWritingSheet).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 without a token', async () => {
+      const response = await request(app).get('/api/testuser/vocabulary/vocab-1/strokes');
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('GET /api/strokes/:character', () => {
+    it('should return the strokes of a character', async () => {
+      (StrokeDataService.getCharacterStrokes as jest.Mock).mockResolvedValue(mockStrokes);
+
+      const response = await request(app)
+        .get(`/api/strokes/${encodeURIComponent('你')}`)
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(mockStrokes);
+      expect(StrokeDataService.getCharacterStrokes).toHaveBeenCalledWith('你');
+    });
+
+    it('should return 400 for more than one character', async () => {
+      const response = await request(app)
+        .get(`/api/strokes/${encodeURIComponent('你好')}`)
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 when there is no stroke data', async () => {
+      (StrokeDataService.getCharacterStrokes as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/api/strokes/a')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Writing API Routes
+ *
+ * Stroke-order data for handwriting practice (bundled offline dataset):
+ * - GET /api/:username/vocabulary/:id/strokes - Stroke data for every character of a vocabulary entry
+ * - GET /api/strokes/:character - Stroke data for a single character
+ */
+
+import { Router, Response } from 'express';
+import { StrokeDataService } from '../services/StrokeDataService';
+import { authenticateJWT, AuthRequest } from '../middleware/auth';
+import { UserDAO } from '../models/User';
+
+const router = Router();
+
+/**
+ * GET /api/:username/vocabulary/:id/strokes
+ *
+ * Stroke data for every character of a vocabulary entry
+ *
+ * Response:
+ * - 200: WritingSheet { vocabularyId, chineseCharacter, pinyin, characters: CharacterStrokes[], missing }
+ * - 404: User or vocabulary entry not found
+ * - 500: Server error
+ */
+router.get('/:username/vocabulary/:id/strokes', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username, id } = req.params;
+
+    const user = await UserDAO.findByUsername(username);
+    if (!user) return res.status(404).json({ error: `User "${username}" not found` });
+
+    const sheet = await StrokeDataService.getWritingSheet(user.id, id);
+    res.json(sheet);
+  } catch (error) {
+    console.error('Error getting stroke data:', error);
+    if (error instanceof Error && error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to get stroke data' });
+  }
+});
+
+/**
+ * GET /api/strokes/:character
+ *
+ * Stroke data for a single character
+ *
+ * Response:
+ * - 200: CharacterStrokes { character, strokes, medians, radicalStrokes }
+ * - 400: Not a single Chinese character
+ * - 404: No stroke data for the character
+ * - 500: Server error
+ */
+router.get('/strokes/:character', authenticateJWT, async (req: AuthRequest, res: Response) => {
+  try {
+    const { character } = req.params;
+
+    if (Array.from(character).length !== 1) {
+      return res.status(400).json({ error: 'Exactly one Chinese character is required' });
+    }
+
+    const strokes = await StrokeDataService.getCharacterStrokes(character);
+    if (!strokes) return res.status(404).json({ error: `No stroke data for "${character}"` });
+
+    res.json(strokes);
+  } catch (error) {
+    console.error('Error getting character strokes:', error);
+    res.status(500).json({ error: 'Failed to get stroke data' });
+  }
+});
+
+export default router;
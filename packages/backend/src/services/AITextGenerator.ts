@@ -1,6 +1,6 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import pinyin from 'pinyin';
 import { TranslationService } from './TranslationService';
+import { PinyinUtils } from './PinyinUtils';
 
 /**
  * Generated sentence for batch generation
@@ -123,6 +123,7 @@ export class AITextGenerator {
       vocabGroupId: number;
       batches: string[][]; // 4 batches, each with 300 characters
       allVocabCharacters: string[]; // Full vocabulary list for validation
+      wordReadings?: Map<string, string>; // Stored pinyin of the vocabulary words, for sentence pinyin
     }>
   ): Promise<Map<number, GeneratedSentence[]>> {
     // Validate input
@@ -350,7 +351,7 @@ IMPORTANT: Output ONLY "SENTENCE_N: [sentence]" lines. No other text whatsoever.
               }
             }
 
-            const pinyinText = this.generatePinyin(chineseText);
+            const pinyinText = this.generatePinyin(chineseText, groupData.wordReadings);
 
             batchCandidates.push({
               chineseText,
@@ -499,7 +500,7 @@ IMPORTANT: Output ONLY "SENTENCE_N: [sentence]" lines. No other text whatsoever.
               if (!hasInvalid) {
                 retryCandidates.push({
                   chineseText,
-                  pinyin: this.generatePinyin(chineseText),
+                  pinyin: this.generatePinyin(chineseText, groupData.wordReadings),
                   usedCharacters
                 });
               }
@@ -639,15 +640,13 @@ IMPORTANT: Output ONLY "SENTENCE_N: [sentence]" lines. No other text whatsoever.
 
   /**
    * Generate pinyin for Chinese text
+   * Vocabulary words are read as their entries say, so a reading chosen for a polyphone carries over.
    * @param text - Chinese text
+   * @param wordReadings - Stored pinyin of the vocabulary words
    * @returns Pinyin with tone marks
    */
-  private generatePinyin(text: string): string {
-    const pinyinArray = pinyin(text, {
-      style: pinyin.STYLE_TONE,
-      heteronym: false
-    });
-    return pinyinArray.map(p => p[0]).join(' ');
+  private generatePinyin(text: string, wordReadings?: Map<string, string>): string {
+    return PinyinUtils.sentencePinyin(text, wordReadings);
   }
 }
 
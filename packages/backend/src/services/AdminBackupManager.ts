@@ -86,6 +86,7 @@ export class AdminBackupManager {
                is_favorite as isFavorite, chapter, chapter_label as chapterLabel,
                created_at as createdAt, updated_at as updatedAt, shared_from as sharedFrom
         FROM vocabulary_entries
+        WHERE deleted_at IS NULL
       `);
 
       // Entries already have userId from the SQL query - use it directly
@@ -181,6 +182,7 @@ export class AdminBackupManager {
         // Delete all existing data
         console.log('[AdminBackupManager] Clearing existing data...');
         await connection.query('DELETE FROM vocabulary_entries');
+        await connection.query('DELETE FROM vocabulary_characters');
         await connection.query('DELETE FROM vocabulary_sharing');
         await connection.query('DELETE FROM auth_users');
         await connection.query('DELETE FROM users');
@@ -293,6 +295,10 @@ export class AdminBackupManager {
 
         console.log(`[AdminBackupManager] Import successful: ${usersRestored} users, ${entriesRestored} entries`);
 
+        // Link the restored entries to their component characters
+        const { ExpressionService } = await import('./ExpressionService');
+        await ExpressionService.linkUnlinkedEntries();
+
         // Restore AI model config if present in backup
         if (backupFile.modelConfig) {
           try {
@@ -0,0 +1,80 @@
+/**
+ * AnswerChecker Tests
+ *
+ * Unit tests for grading typed hanzi and pinyin answers.
+ */
+
+import { AnswerChecker } from './AnswerChecker';
+
+describe('AnswerChecker', () => {
+  describe('pinyin answers', () => {
+    it('should accept numeric tones', () => {
+      const check = AnswerChecker.checkTypedAnswer('你好', 'nǐ hǎo', 'ni3 hao3');
+
+      expect(check.result).toBe('exact');
+      expect(check.answerType).toBe('pinyin');
+      expect(check.syllables.map(s => s.status)).toEqual(['correct', 'correct']);
+    });
+
+    it('should accept tone marks', () => {
+      expect(AnswerChecker.checkTypedAnswer('你好', 'nǐ hǎo', 'nǐ hǎo').result).toBe('exact');
+    });
+
+    it('should accept joined syllables', () => {
+      expect(AnswerChecker.checkTypedAnswer('你好', 'nǐ hǎo', 'ni3hao3').result).toBe('exact');
+      expect(AnswerChecker.checkTypedAnswer('你好', 'nǐ hǎo', 'nǐhǎo').result).toBe('exact');
+    });
+
+    it('should report tone-wrong syllables', () => {
+      const check = AnswerChecker.checkTypedAnswer('你好', 'nǐ hǎo', 'ni3 hao4');
+
+      expect(check.result).toBe('tone-wrong');
+      expect(check.syllables[1]).toEqual({ index: 1, expected: 'hǎo', given: 'hào', status: 'tone-wrong' });
+    });
+
+    it('should treat a missing tone as tone-wrong', () => {
+      expect(AnswerChecker.checkTypedAnswer('你好', 'nǐ hǎo', 'ni hao').result).toBe('tone-wrong');
+    });
+
+    it('should report wrong and missing syllables', () => {
+      const check = AnswerChecker.checkTypedAnswer('你好', 'nǐ hǎo', 'ma3');
+
+      expect(check.result).toBe('wrong');
+      expect(check.syllables.map(s => s.status)).toEqual(['wrong', 'missing']);
+    });
+
+    it('should report extra syllables', () => {
+      const check = AnswerChecker.checkTypedAnswer('你好', 'nǐ hǎo', 'ni3 hao3 ma');
+
+      expect(check.result).toBe('wrong');
+      expect(check.syllables[2].status).toBe('extra');
+    });
+
+    it('should fall back to generated pinyin when none is stored', () => {
+      const check = AnswerChecker.checkTypedAnswer('你好', '', 'ni3 hao3');
+
+      expect(check.result).toBe('exact');
+      expect(check.correctPinyin).toBe('nǐ hǎo');
+    });
+  });
+
+  describe('hanzi answers', () => {
+    it('should accept the exact characters', () => {
+      const check = AnswerChecker.checkTypedAnswer('你好', 'nǐ hǎo', '你好');
+
+      expect(check.result).toBe('exact');
+      expect(check.answerType).toBe('hanzi');
+    });
+
+    it('should report which characters are wrong', () => {
+      const check = AnswerChecker.checkTypedAnswer('你好', 'nǐ hǎo', '你们');
+
+      expect(check.result).toBe('wrong');
+      expect(check.syllables[1]).toEqual({ index: 1, expected: '好', given: '们', status: 'wrong' });
+    });
+  });
+
+  it('should treat an empty answer as wrong', () => {
+    expect(AnswerChecker.checkTypedAnswer('你好', 'nǐ hǎo', '  ').result).toBe('wrong');
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * AnswerChecker Service
+ *
+ * Checks answers typed by the learner against a vocabulary entry.
+ * Accepts hanzi, or pinyin with either tone numbers ("ni3 hao3") or tone marks ("nǐ hǎo"),
+ * and reports which syllables were wrong.
+ */
+
+import { PinyinUtils, PinyinSyllable } from './PinyinUtils';
+
+/**
+ * Overall result of a typed answer
+ * - exact: every syllable (or character) is right
+ * - tone-wrong: all syllables are right but at least one tone is not
+ * - wrong: at least one syllable or character is wrong, missing or extra
+ */
+export type TypedAnswerResult = 'exact' | 'tone-wrong' | 'wrong';
+
+/**
+ * Result for one syllable of the answer
+ */
+export type SyllableStatus = 'correct' | 'tone-wrong' | 'wrong' | 'missing' | 'extra';
+
+/**
+ * Comparison of one expected syllable with what the learner typed
+ */
+export interface SyllableCheck {
+  index: number;
+  expected?: string;
+  given?: string;
+  status: SyllableStatus;
+}
+
+/**
+ * Full typed answer check
+ */
+export interface TypedAnswerCheck {
+  result: TypedAnswerResult;
+  answerType: 'hanzi' | 'pinyin';
+  syllables: SyllableCheck[];
+  correctChinese: string;
+  correctPinyin: string;
+}
+
+/**
+ * A pinyin letter typed by the learner, with the tone attached to it (if any)
+ */
+interface TypedLetter {
+  letter: string;
+  markTone?: number;   // tone from a diacritic on this letter
+  numberTone?: number; // tone number typed right after this letter
+}
+
+/**
+ * AnswerChecker class for grading typed answers
+ */
+export class AnswerChecker {
+  /**
+   * Check a typed answer against a vocabulary word
+   * @param chineseCharacter - Expected Chinese word
+   * @param storedPinyin - Pinyin stored with the word (may be empty)
+   * @param answer - Learner's answer in hanzi or pinyin
+   * @returns Overall result and per-syllable details
+   */
+  static checkTypedAnswer(chineseCharacter: string, storedPinyin: string | undefined, answer: string): TypedAnswerCheck {
+    const expected = PinyinUtils.syllablesOf(chineseCharacter, storedPinyin);
+    const correctPinyin = expected.map(syllable => PinyinUtils.toToneMarked(syllable)).join(' ');
+
+    const syllables = PinyinUtils.containsHanzi(answer)
+      ? this.compareHanzi(PinyinUtils.hanziCharacters(chineseCharacter), PinyinUtils.hanziCharacters(answer))
+      : this.comparePinyin(expected, this.segmentPinyin(answer, expected));
+
+    return {
+      result: this.overallResult(syllables),
+      answerType: PinyinUtils.containsHanzi(answer) ? 'hanzi' : 'pinyin',
+      syllables,
+      correctChinese: chineseCharacter,
+      correctPinyin
+    };
+  }
+
+  /**
+   * Compare typed characters one by one with the expected characters
+   */
+  private static compareHanzi(expected: string[], given: string[]): SyllableCheck[] {
+    const checks: SyllableCheck[] = [];
+    const length = Math.max(expected.length, given.length);
+
+    for (let i = 0; i < length; i++) {
+      let status: SyllableStatus;
+      if (i >= given.length) {
+        status = 'missing';
+      } else if (i >= expected.length) {
+        status = 'extra';
+      } else {
+        status = expected[i] === given[i] ? 'correct' : 'wrong';
+      }
+      checks.push({ index: i, expected: expected[i], given: given[i], status });
+    }
+
+    return checks;
+  }
+
+  /**
+   * Compare typed syllables one by one with the expected syllables
+   */
+  private static comparePinyin(expected: PinyinSyllable[], given: PinyinSyllable[]): SyllableCheck[] {
+    const checks: SyllableCheck[] = [];
+    const length = Math.max(expected.length, given.length);
+
+    for (let i = 0; i < length; i++) {
+      const want = expected[i];
+      const got = given[i];
+      let status: SyllableStatus;
+
+      if (!got) {
+        status = 'missing';
+      } else if (!want) {
+        status = 'extra';
+      } else if (want.base !== got.base) {
+        status = 'wrong';
+      } else {
+        status = want.tone === got.tone ? 'correct' : 'tone-wrong';
+      }
+
+      checks.push({
+        index: i,
+        expected: want ? PinyinUtils.toToneMarked(want) : undefined,
+        given: got ? PinyinUtils.toToneMarked(got) : undefined,
+        status
+      });
+    }
+
+    return checks;
+  }
+
+  /**
+   * Split a pinyin answer into syllables
+   * Uses separators and tone numbers first; if that does not line up with the expected word
+   * but the letters do ("nǐhǎo"), the letters are cut at the expected syllable lengths.
+   */
+  private static segmentPinyin(answer: string, expected: PinyinSyllable[]): PinyinSyllable[] {
+    const tokens = PinyinUtils.splitSyllables(answer);
+    const parsed = tokens.map(token => PinyinUtils.parseSyllable(token));
+
+    if (parsed.length === expected.length) {
+      return parsed;
+    }
+
+    const letters = this.toTypedLetters(tokens);
+    const typedBases = letters.map(l => l.letter).join('');
+    const expectedBases = expected.map(syllable => syllable.base).join('');
+
+    if (typedBases !== expectedBases) {
+      return parsed;
+    }
+
+    const segmented: PinyinSyllable[] = [];
+    let position = 0;
+    for (const syllable of expected) {
+      const segment = letters.slice(position, position + syllable.base.length);
+      const marked = segment.find(l => l.markTone !== undefined);
+      const last = segment[segment.length - 1];
+      segmented.push({
+        base: syllable.base,
+        tone: last.numberTone ?? marked?.markTone ?? 5
+      });
+      position += syllable.base.length;
+    }
+
+    return segmented;
+  }
+
+  /**
+   * Flatten typed tokens into letters, keeping tone marks and tone numbers on their letters
+   */
+  private static toTypedLetters(tokens: string[]): TypedLetter[] {
+    const letters: TypedLetter[] = [];
+
+    for (const token of tokens) {
+      for (const char of token) {
+        if (/[0-5]/.test(char)) {
+          if (letters.length > 0) {
+            letters[letters.length - 1].numberTone = char === '0' ? 5 : parseInt(char, 10);
+          }
+          continue;
+        }
+        const parsed = PinyinUtils.parseSyllable(char);
+        for (const letter of parsed.base) {
+          letters.push({ letter, markTone: parsed.tone === 5 ? undefined : parsed.tone });
+        }
+      }
+    }
+
+    return letters;
+  }
+
+  /**
+   * Derive the overall result from the per-syllable checks
+   */
+  private static overallResult(syllables: SyllableCheck[]): TypedAnswerResult {
+    if (syllables.length === 0 || syllables.some(s => s.status === 'wrong' || s.status === 'missing' || s.status === 'extra')) {
+      return 'wrong';
+    }
+    if (syllables.some(s => s.status === 'tone-wrong')) {
+      return 'tone-wrong';
+    }
+    return 'exact';
+  }
+}
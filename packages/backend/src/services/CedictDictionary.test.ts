@@ -0,0 +1,64 @@
+/**
+ * CedictDictionary Tests
+ *
+ * Unit tests for parsing CC-CEDICT and looking words up in the bundled dictionary.
+ */
+
+import { CedictDictionary } from './CedictDictionary';
+
+describe('CedictDictionary', () => {
+  describe('parse', () => {
+    it('should read traditional, simplified, pinyin and definitions', () => {
+      const entries = CedictDictionary.parse([
+        '# CC-CEDICT',
+        '你好 你好 [ni3 hao3] /hello; hi/',
+        '綠色 绿色 [lu:4 se4] /green/',
+        'not an entry'
+      ].join('\n'));
+
+      expect(entries).toEqual([
+        { traditional: '你好', simplified: '你好', pinyin: 'nǐ hǎo', pinyinNumbered: 'ni3 hao3', definitions: ['hello; hi'] },
+        { traditional: '綠色', simplified: '绿色', pinyin: 'lǜ sè', pinyinNumbered: 'lu:4 se4', definitions: ['green'] }
+      ]);
+    });
+  });
+
+  describe('lookup', () => {
+    it('should find a word by its simplified or traditional form', async () => {
+      const simplified = await CedictDictionary.lookup('学习');
+      const traditional = await CedictDictionary.lookup('學習');
+
+      expect(simplified[0]).toMatchObject({ traditional: '學習', simplified: '学习', pinyin: 'xué xí' });
+      expect(traditional).toEqual(simplified);
+    });
+
+    it('should return nothing for text that is not a headword', async () => {
+      await expect(CedictDictionary.lookup('我喜欢喝茶')).resolves.toEqual([]);
+    });
+  });
+
+  describe('gloss', () => {
+    it('should join the first definitions of a word', async () => {
+      await expect(CedictDictionary.gloss('你好')).resolves.toBe('hello; hi');
+    });
+
+    it('should pick the entries of the given reading', async () => {
+      const liao = await CedictDictionary.gloss('了', 'liǎo');
+      const le = await CedictDictionary.gloss('了', 'le');
+
+      expect(liao).toMatch(/^to finish/);
+      expect(le).toMatch(/^\(completed action marker\)/);
+    });
+
+    it('should leave out cross-references and prefer common words to names', async () => {
+      const gloss = await CedictDictionary.gloss('李');
+
+      expect(gloss).toMatch(/plum/);
+      expect(gloss).not.toMatch(/surname|\[/);
+    });
+
+    it('should return null for unknown words', async () => {
+      await expect(CedictDictionary.gloss('龘龘龘')).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * CedictDictionary
+ *
+ * Offline Chinese-English dictionary read from the bundled CC-CEDICT file (data/cedict_ts.u8.gz, CC BY-SA 4.0,
+ * https://cc-cedict.org), so English glosses work without network access. CEDICT_PATH points to another
+ * copy of the file (plain or gzipped), e.g. a newer release.
+ *
+ * Words are looked up by their simplified or traditional form. The file is loaded on first use and kept
+ * in memory.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { gunzipSync } from 'zlib';
+import { config } from '../config/env';
+import { PinyinUtils } from './PinyinUtils';
+
+/**
+ * One dictionary entry (one reading of a word)
+ */
+export interface DictionaryEntry {
+  traditional: string;
+  simplified: string;
+  pinyin: string;         // tone-marked, one syllable per character ("nǐ hǎo")
+  pinyinNumbered: string; // as in the file ("ni3 hao3")
+  definitions: string[];
+}
+
+const BUNDLED_FILE = path.join(__dirname, '../../data/cedict_ts.u8.gz');
+
+// Definitions joined into an English gloss
+const MAX_GLOSS_DEFINITIONS = 3;
+
+// Traditional Simplified [pin1 yin1] /definition/definition/
+const ENTRY_PATTERN = /^(\S+) (\S+) \[([^\]]*)\] \/(.*)\/$/;
+
+// Cross-references such as 瞭|了[liao3] or 得[de2] inside definitions
+const REFERENCE_PATTERN = /(?:[^\s|[\]()]+\|)?([^\s|[\]()]+)\[[^\]]*\]/g;
+
+// Definitions that only point to another word or give a surname or classifier
+const REFERENCE_ONLY_PATTERN = /^(old |archaic |Japanese |erroneous )?variant of |^(see|see also|used in|abbr\. for|surname) |^CL:/;
+
+/**
+ * Key a pinyin reading by toneless base + tone number, ignoring spacing and case
+ */
+function readingKey(pinyin: string): string {
+  return PinyinUtils.splitSyllables(pinyin)
+    .map(syllable => {
+      const { base, tone } = PinyinUtils.parseSyllable(syllable);
+      return `${base}${tone}`;
+    })
+    .join(' ');
+}
+
+/**
+ * Whether an entry is a proper noun (names and places have capitalised pinyin)
+ */
+function isProperNoun(entry: DictionaryEntry): boolean {
+  return /^[A-Z]/.test(entry.pinyinNumbered);
+}
+
+/**
+ * CedictDictionary class with static dictionary lookups
+ */
+export class CedictDictionary {
+  private static index: Promise<Map<string, DictionaryEntry[]>> | null = null;
+
+  /**
+   * Parse CC-CEDICT text; comment lines and malformed lines are skipped
+   */
+  static parse(text: string): DictionaryEntry[] {
+    const entries: DictionaryEntry[] = [];
+    for (const line of text.split(/\r?\n/)) {
+      const match = ENTRY_PATTERN.exec(line);
+      if (!match || line.startsWith('#')) {
+        continue;
+      }
+
+      const [, traditional, simplified, pinyinNumbered, definitions] = match;
+      entries.push({
+        traditional,
+        simplified,
+        pinyin: pinyinNumbered
+          .split(' ')
+          .map(syllable => (/[0-5]$/.test(syllable) ? PinyinUtils.toToneMarked(PinyinUtils.parseSyllable(syllable)) : syllable))
+          .join(' '),
+        pinyinNumbered,
+        definitions: definitions.split('/').filter(definition => definition.length > 0)
+      });
+    }
+    return entries;
+  }
+
+  /**
+   * Entries for a word, by its simplified or traditional form
+   * Common words come before proper nouns; otherwise the order of the file is kept.
+   */
+  static async lookup(word: string): Promise<DictionaryEntry[]> {
+    const index = await this.load();
+    const entries = index.get(word.trim()) || [];
+    return [...entries.filter(entry => !isProperNoun(entry)), ...entries.filter(isProperNoun)];
+  }
+
+  /**
+   * Short English gloss of a word ("hello; hi")
+   * @param pinyin - Reading of the word, to pick the matching entries of a polyphone (得 dé / de / děi);
+   *                 the generated reading when not given
+   * @returns null when the word is not in the dictionary
+   */
+  static async gloss(word: string, pinyin?: string): Promise<string | null> {
+    let entries = await this.lookup(word);
+    if (entries.length === 0) {
+      return null;
+    }
+
+    const key = readingKey(pinyin || PinyinUtils.toneMarkedSyllables(word.trim()).join(' '));
+    const matching = entries.filter(entry => readingKey(entry.pinyinNumbered) === key);
+    if (matching.length > 0) {
+      entries = matching;
+    }
+    if (entries.some(entry => !isProperNoun(entry))) {
+      entries = entries.filter(entry => !isProperNoun(entry));
+    }
+
+    const definitions = entries
+      .flatMap(entry => entry.definitions)
+      .map(definition => definition.replace(REFERENCE_PATTERN, '$1'));
+    const meaningful = definitions.filter(definition => !REFERENCE_ONLY_PATTERN.test(definition));
+    const chosen = Array.from(new Set(meaningful.length > 0 ? meaningful : definitions));
+    return chosen.slice(0, MAX_GLOSS_DEFINITIONS).join('; ');
+  }
+
+  /**
+   * Load and index the dictionary file (once)
+   */
+  private static load(): Promise<Map<string, DictionaryEntry[]>> {
+    if (!this.index) {
+      this.index = this.readFile().catch(error => {
+        // Let a later lookup try again, e.g. after a missing CEDICT_PATH file has been put in place
+        this.index = null;
+        throw error;
+      });
+    }
+    return this.index;
+  }
+
+  /**
+   * Read the dictionary file and index its entries under both forms
+   */
+  private static async readFile(): Promise<Map<string, DictionaryEntry[]>> {
+    const file = config.translation.cedictPath || BUNDLED_FILE;
+    const content = await fs.readFile(file);
+    const text = (file.endsWith('.gz') ? gunzipSync(content) : content).toString('utf8');
+
+    const index = new Map<string, DictionaryEntry[]>();
+    for (const entry of this.parse(text)) {
+      for (const form of new Set([entry.simplified, entry.traditional])) {
+        const entries = index.get(form);
+        if (entries) {
+          entries.push(entry);
+        } else {
+          index.set(form, [entry]);
+        }
+      }
+    }
+    console.log(`[Dictionary] Loaded ${index.size} words from ${path.basename(file)}`);
+    return index;
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * ChapterFilter Selection Tests
+ *
+ * Unit tests for parsing chapter selections and building their SQL conditions. They need no database,
+ * unlike the range queries in ChapterFilter.test.ts.
+ */
+
+import { ChapterFilter } from './ChapterFilter';
+
+describe('ChapterFilter selections', () => {
+  describe('parseSelection', () => {
+    it('should parse comma-separated chapters, ranges and exclusions from a query', () => {
+      const selection = ChapterFilter.parseSelection({
+        chapters: '3, 7,12',
+        ranges: '1-5,20 - 22',
+        excludeChapters: '4',
+        mode: 'ChineseToMeanings'
+      });
+
+      expect(selection).toEqual({
+        chapters: [3, 7, 12],
+        ranges: [{ start: 1, end: 5 }, { start: 20, end: 22 }],
+        excludeChapters: [4]
+      });
+    });
+
+    it('should keep commas inside chapter labels and accept repeated labels', () => {
+      const selection = ChapterFilter.parseSelection({
+        chapterLabel: ['Boya II, part 1', 'HSK 1'],
+        excludeChapterLabel: 'Review'
+      });
+
+      expect(selection.chapterLabels).toEqual(['Boya II, part 1', 'HSK 1']);
+      expect(selection.excludeChapterLabels).toEqual(['Review']);
+    });
+
+    it('should split tags on commas and accept repeated tags', () => {
+      const selection = ChapterFilter.parseSelection({
+        tags: ['food, HSK2', 'measure words'],
+        excludeTag: 'exam week 3'
+      });
+
+      expect(selection.tags).toEqual(['food', 'HSK2', 'measure words']);
+      expect(selection.excludeTags).toEqual(['exam week 3']);
+    });
+
+    it('should accept a JSON selection object', () => {
+      const selection = ChapterFilter.parseSelection({
+        chapters: [3, 7],
+        ranges: [{ start: 1, end: 2 }],
+        chapterLabels: ['Boya II'],
+        favoritesOnly: true
+      });
+
+      expect(selection).toEqual({
+        chapters: [3, 7],
+        ranges: [{ start: 1, end: 2 }],
+        chapterLabels: ['Boya II'],
+        favoritesOnly: true
+      });
+    });
+
+    it('should parse favoritesOnly from a query string', () => {
+      expect(ChapterFilter.parseSelection({ favoritesOnly: 'true' }).favoritesOnly).toBe(true);
+      expect(ChapterFilter.parseSelection({ favoritesOnly: '0' }).favoritesOnly).toBe(false);
+    });
+
+    it('should reject malformed values', () => {
+      expect(() => ChapterFilter.parseSelection({ chapters: '3,x' })).toThrow('Invalid chapter selection');
+      expect(() => ChapterFilter.parseSelection({ chapters: '-1' })).toThrow('Invalid chapter selection');
+      expect(() => ChapterFilter.parseSelection({ ranges: '5-1' })).toThrow('Invalid chapter selection');
+      expect(() => ChapterFilter.parseSelection({ ranges: '5' })).toThrow('Invalid chapter selection');
+      expect(() => ChapterFilter.parseSelection({ favoritesOnly: 'yes' })).toThrow('Invalid chapter selection');
+      expect(() => ChapterFilter.parseSelection({ chapterLabels: [1] })).toThrow('Invalid chapter selection');
+    });
+
+    it('should return an empty selection when no selection keys are present', () => {
+      expect(ChapterFilter.parseSelection({ mode: 'ChineseToMeanings' })).toEqual({});
+    });
+  });
+
+  describe('buildScopeClause', () => {
+    it('should build the same condition as before for a plain chapter range', () => {
+      const clause = ChapterFilter.buildScopeClause({ start: 1, end: 5 });
+
+      expect(clause).toEqual({ sql: ' AND (chapter >= ? AND chapter <= ?)', params: [1, 5] });
+    });
+
+    it('should OR the included chapters, ranges and labels and AND the other conditions', () => {
+      const clause = ChapterFilter.buildScopeClause({
+        chapters: [3, 7],
+        ranges: [{ start: 10, end: 12 }],
+        chapterLabels: ['Boya II'],
+        favoritesOnly: true,
+        excludeChapters: [11],
+        excludeChapterLabels: ['Review']
+      });
+
+      expect(clause.sql).toBe(
+        ' AND (chapter IN (?, ?) OR (chapter >= ? AND chapter <= ?) OR chapter_label IN (?))' +
+        ' AND is_favorite = 1' +
+        ' AND chapter NOT IN (?)' +
+        ' AND (chapter_label IS NULL OR chapter_label NOT IN (?))'
+      );
+      expect(clause.params).toEqual([3, 7, 10, 12, 'Boya II', 11, 'Review']);
+    });
+
+    it('should narrow the chapters down to tagged words and leave out excluded tags', () => {
+      const clause = ChapterFilter.buildScopeClause({
+        ranges: [{ start: 1, end: 5 }],
+        tags: ['food', 'HSK2'],
+        excludeTags: ['measure words']
+      });
+
+      expect(clause.sql).toBe(
+        ' AND (chapter >= ? AND chapter <= ?)' +
+        ' AND id IN (SELECT vt.vocabulary_id FROM vocabulary_tags vt JOIN tags t ON t.id = vt.tag_id WHERE t.name IN (?, ?))' +
+        ' AND NOT id IN (SELECT vt.vocabulary_id FROM vocabulary_tags vt JOIN tags t ON t.id = vt.tag_id WHERE t.name IN (?))'
+      );
+      expect(clause.params).toEqual([1, 5, 'food', 'HSK2', 'measure words']);
+    });
+
+    it('should not restrict chapters for an empty selection', () => {
+      expect(ChapterFilter.buildScopeClause({})).toEqual({ sql: '', params: [] });
+    });
+  });
+});
@@ -1,8 +1,10 @@
 /**
  * ChapterFilter Service
  * 
- * Filters vocabulary based on user-selected chapter range.
- * Provides chapter range validation and random character sampling for AI text generation.
+ * Filters vocabulary based on a user-selected chapter range or chapter selection
+ * (chapter lists, ranges, chapter labels, tags, favorites only and exclusions).
+ * Provides selection parsing and validation, random character sampling for AI text generation
+ * and distractor candidates for multiple-choice flashcards.
  * Uses user_id for all queries.
  */
 
@@ -18,47 +20,316 @@ export interface ChapterRange {
 }
 
 /**
- * ChapterFilter class for filtering vocabulary by chapter range
+ * Chapter selection interface
+ * Words match when they are in any of the listed chapters, ranges or chapter labels
+ * (every chapter when none are given), carry any of the tags if tags are given, are favorites
+ * if favoritesOnly is set, and are not in an excluded chapter or chapter label nor carry an excluded tag.
+ */
+export interface ChapterSelection {
+  chapters?: number[];
+  ranges?: ChapterRange[];
+  chapterLabels?: string[];
+  tags?: string[];
+  favoritesOnly?: boolean;
+  excludeChapters?: number[];
+  excludeChapterLabels?: string[];
+  excludeTags?: string[];
+}
+
+/**
+ * Anything ChapterFilter can filter by: a plain chapter range or a chapter selection
+ */
+export type ChapterScope = ChapterRange | ChapterSelection;
+
+/**
+ * SQL conditions for a chapter scope, to be appended to a WHERE clause
+ */
+export interface ScopeClause {
+  sql: string;
+  params: (string | number)[];
+}
+
+/**
+ * Vocabulary fields that may be left empty, and their columns
+ */
+export type OptionalField = 'englishMeaning' | 'modernVietnamese' | 'hanVietnamese';
+
+const OPTIONAL_FIELD_COLUMNS: Record<OptionalField, string> = {
+  englishMeaning: 'english_meaning',
+  modernVietnamese: 'modern_vietnamese',
+  hanVietnamese: 'han_vietnamese'
+};
+
+/**
+ * Vocabulary word that can be offered as a wrong option in a multiple-choice flashcard
+ */
+export interface DistractorCandidate {
+  id: string;
+  chineseCharacter: string;
+  pinyin: string;
+  englishMeaning?: string;
+  modernVietnamese?: string;
+}
+
+/**
+ * Convert a query-string or JSON value into a flat list of trimmed, non-empty strings
+ * Strings are split on commas when splitCommas is set (chapter numbers and ranges, not labels).
+ */
+function toList(value: unknown, splitCommas: boolean): unknown[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .flatMap(item => (typeof item === 'string' && splitCommas ? item.split(',') : [item]))
+    .map(item => (typeof item === 'string' ? item.trim() : item))
+    .filter(item => item !== '');
+}
+
+/**
+ * Parse a list of chapter numbers ("3,7,12", ['3', '7'] or [3, 7])
+ */
+function parseChapters(value: unknown, field: string): number[] {
+  return toList(value, true).map(item => {
+    const chapter = typeof item === 'string' ? Number(item) : item;
+    if (typeof chapter !== 'number' || !Number.isInteger(chapter) || chapter < 0) {
+      throw new Error(`Invalid chapter selection: ${field} must be non-negative integers`);
+    }
+    return chapter;
+  });
+}
+
+/**
+ * Parse a list of chapter ranges ("1-5,8-10" or [{ start: 1, end: 5 }])
+ */
+function parseRanges(value: unknown): ChapterRange[] {
+  return toList(value, true).map(item => {
+    let range: ChapterRange | null = null;
+
+    if (typeof item === 'string') {
+      const match = item.match(/^(\d+)\s*-\s*(\d+)$/);
+      if (match) range = { start: Number(match[1]), end: Number(match[2]) };
+    } else if (item && typeof item === 'object') {
+      const { start, end } = item as Record<string, unknown>;
+      if (Number.isInteger(start) && Number.isInteger(end)) range = { start: start as number, end: end as number };
+    }
+
+    if (!range || range.start < 0 || range.start > range.end) {
+      throw new Error('Invalid chapter selection: ranges must look like "start-end" with start <= end');
+    }
+    return range;
+  });
+}
+
+/**
+ * Parse a list of chapter labels or tags (a string, or repeated query parameters / an array)
+ * Tags are split on commas as well, since tag names cannot contain one.
+ */
+function parseLabels(value: unknown, field: string, splitCommas = false): string[] {
+  return toList(value, splitCommas).map(item => {
+    if (typeof item !== 'string') {
+      throw new Error(`Invalid chapter selection: ${field} must be non-empty strings`);
+    }
+    return item;
+  });
+}
+
+/**
+ * Build "?, ?, ?" for an IN list
+ */
+function placeholders(count: number): string {
+  return new Array(count).fill('?').join(', ');
+}
+
+/**
+ * Condition matching entries that carry any of a number of tags
+ */
+function taggedWith(count: number): string {
+  return `id IN (SELECT vt.vocabulary_id FROM vocabulary_tags vt JOIN tags t ON t.id = vt.tag_id WHERE t.name IN (${placeholders(count)}))`;
+}
+
+/**
+ * ChapterFilter class for filtering vocabulary by chapter range or selection
  */
 export class ChapterFilter {
   /**
-   * Get vocabulary IDs within chapter range
+   * Parse a chapter selection from query parameters or a JSON body
+   *
+   * Accepted keys (all optional):
+   * - chapters: "3,7,12" or [3, 7, 12]
+   * - ranges: "1-5,8-10" or [{ start: 1, end: 5 }]
+   * - chapterLabel / chapterLabels: a label, repeated query parameters or an array
+   * - tag / tags: "food,HSK2", repeated query parameters or an array
+   * - favoritesOnly: true/false
+   * - excludeChapters: same format as chapters
+   * - excludeChapterLabel / excludeChapterLabels: same format as chapterLabel
+   * - excludeTag / excludeTags: same format as tags
+   *
+   * Only keys that are present are set on the result; other keys are ignored.
+   * @param input - Query or body object
+   * @returns Parsed selection
+   * @throws Error starting with "Invalid chapter selection" when a value is malformed
+   */
+  static parseSelection(input: Record<string, unknown>): ChapterSelection {
+    const selection: ChapterSelection = {};
+
+    if (input.chapters !== undefined) {
+      selection.chapters = parseChapters(input.chapters, 'chapters');
+    }
+    if (input.ranges !== undefined) {
+      selection.ranges = parseRanges(input.ranges);
+    }
+    const labels = input.chapterLabels !== undefined ? input.chapterLabels : input.chapterLabel;
+    if (labels !== undefined) {
+      selection.chapterLabels = parseLabels(labels, 'chapterLabels');
+    }
+    const tags = input.tags !== undefined ? input.tags : input.tag;
+    if (tags !== undefined) {
+      selection.tags = parseLabels(tags, 'tags', true);
+    }
+    if (input.favoritesOnly !== undefined) {
+      const value = input.favoritesOnly;
+      if (value === true || value === 'true' || value === '1') {
+        selection.favoritesOnly = true;
+      } else if (value === false || value === 'false' || value === '0') {
+        selection.favoritesOnly = false;
+      } else {
+        throw new Error('Invalid chapter selection: favoritesOnly must be true or false');
+      }
+    }
+    if (input.excludeChapters !== undefined) {
+      selection.excludeChapters = parseChapters(input.excludeChapters, 'excludeChapters');
+    }
+    const excludedLabels = input.excludeChapterLabels !== undefined ? input.excludeChapterLabels : input.excludeChapterLabel;
+    if (excludedLabels !== undefined) {
+      selection.excludeChapterLabels = parseLabels(excludedLabels, 'excludeChapterLabels');
+    }
+    const excludedTags = input.excludeTags !== undefined ? input.excludeTags : input.excludeTag;
+    if (excludedTags !== undefined) {
+      selection.excludeTags = parseLabels(excludedTags, 'excludeTags', true);
+    }
+
+    return selection;
+  }
+
+  /**
+   * Convert a chapter scope to a selection
+   */
+  static toSelection(scope: ChapterScope): ChapterSelection {
+    return 'start' in scope ? { ranges: [{ start: scope.start, end: scope.end }] } : scope;
+  }
+
+  /**
+   * Build the SQL conditions for a chapter scope
+   * @param scope - Chapter range or selection
+   * @returns Conditions (each prefixed with " AND ") and their parameters
+   */
+  static buildScopeClause(scope: ChapterScope): ScopeClause {
+    const selection = this.toSelection(scope);
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    // Included chapters, ranges and labels are alternatives
+    const included: string[] = [];
+    if (selection.chapters && selection.chapters.length > 0) {
+      included.push(`chapter IN (${placeholders(selection.chapters.length)})`);
+      params.push(...selection.chapters);
+    }
+    for (const range of selection.ranges || []) {
+      included.push('(chapter >= ? AND chapter <= ?)');
+      params.push(range.start, range.end);
+    }
+    if (selection.chapterLabels && selection.chapterLabels.length > 0) {
+      included.push(`chapter_label IN (${placeholders(selection.chapterLabels.length)})`);
+      params.push(...selection.chapterLabels);
+    }
+    if (included.length > 0) {
+      conditions.push(included.length === 1 ? included[0] : `(${included.join(' OR ')})`);
+    }
+
+    // Tags narrow the chapters down, e.g. the food words of chapters 1-5
+    if (selection.tags && selection.tags.length > 0) {
+      conditions.push(taggedWith(selection.tags.length));
+      params.push(...selection.tags);
+    }
+    if (selection.favoritesOnly) {
+      conditions.push('is_favorite = 1');
+    }
+    if (selection.excludeChapters && selection.excludeChapters.length > 0) {
+      conditions.push(`chapter NOT IN (${placeholders(selection.excludeChapters.length)})`);
+      params.push(...selection.excludeChapters);
+    }
+    if (selection.excludeChapterLabels && selection.excludeChapterLabels.length > 0) {
+      conditions.push(`(chapter_label IS NULL OR chapter_label NOT IN (${placeholders(selection.excludeChapterLabels.length)}))`);
+      params.push(...selection.excludeChapterLabels);
+    }
+    if (selection.excludeTags && selection.excludeTags.length > 0) {
+      conditions.push(`NOT ${taggedWith(selection.excludeTags.length)}`);
+      params.push(...selection.excludeTags);
+    }
+
+    return { sql: conditions.map(condition => ` AND ${condition}`).join(''), params };
+  }
+
+  /**
+   * Get vocabulary IDs within chapter range or selection
    * @param userId - Owner user ID
-   * @param range - Chapter range (inclusive)
+   * @param range - Chapter range (inclusive) or selection
+   * @param requiredField - Only words where this field is filled in (optional)
    * @returns Array of vocabulary entry IDs
    */
-  static async getVocabularyInRange(userId: number, range: ChapterRange): Promise<string[]> {
+  static async getVocabularyInRange(userId: number, range: ChapterScope, requiredField?: OptionalField): Promise<string[]> {
     const pool = getPool();
+    const scope = this.buildScopeClause(range);
+    const column = requiredField ? OPTIONAL_FIELD_COLUMNS[requiredField] : null;
+    const filled = column ? ` AND ${column} IS NOT NULL AND ${column} != ''` : '';
     
     const [rows] = await pool.query<RowDataPacket[]>(
       `SELECT id FROM vocabulary_entries 
-       WHERE user_id = ? AND chapter >= ? AND chapter <= ?
+       WHERE user_id = ? AND deleted_at IS NULL${scope.sql}${filled}
        ORDER BY chapter ASC, created_at ASC`,
-      [userId, range.start, range.end]
+      [userId, ...scope.params]
     );
 
     return rows.map(row => row.id as string);
   }
 
   /**
-   * Get random sample of characters from chapter range
+   * Get every distinct Chinese word within chapter range or selection
+   * @param userId - Owner user ID
+   * @param range - Chapter range (inclusive) or selection
+   * @returns Array of Chinese characters
+   */
+  static async getCharactersInRange(userId: number, range: ChapterScope): Promise<string[]> {
+    const pool = getPool();
+    const scope = this.buildScopeClause(range);
+
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT DISTINCT chinese_character FROM vocabulary_entries 
+       WHERE user_id = ? AND deleted_at IS NULL${scope.sql}`,
+      [userId, ...scope.params]
+    );
+
+    return rows.map(row => row.chinese_character as string);
+  }
+
+  /**
+   * Get random sample of characters from chapter range or selection
    * Prioritizes favorite words - includes ALL favorites first, then fills remaining with random words
    * @param userId - Owner user ID
-   * @param range - Chapter range (inclusive)
+   * @param range - Chapter range (inclusive) or selection
    * @param count - Maximum number of characters to return (up to 300)
    * @returns Array of Chinese characters (favorites + random)
    */
-  static async getRandomCharacters(userId: number, range: ChapterRange, count: number): Promise<string[]> {
+  static async getRandomCharacters(userId: number, range: ChapterScope, count: number): Promise<string[]> {
     const pool = getPool();
+    const scope = this.buildScopeClause(range);
     
     const limitedCount = Math.min(count, 300);
     
     // First, get ALL favorite words from the chapter range
     const [favoriteRows] = await pool.query<RowDataPacket[]>(
       `SELECT chinese_character FROM vocabulary_entries 
-       WHERE user_id = ? AND chapter >= ? AND chapter <= ? AND is_favorite = 1
+       WHERE user_id = ? AND deleted_at IS NULL${scope.sql} AND is_favorite = 1
        ORDER BY chinese_character ASC`,
-      [userId, range.start, range.end]
+      [userId, ...scope.params]
     );
     
     const favoriteCharacters = favoriteRows.map(row => row.chinese_character as string);
@@ -74,10 +345,10 @@ export class ChapterFilter {
     // Get random non-favorite characters to fill the remaining slots
     const [randomRows] = await pool.query<RowDataPacket[]>(
       `SELECT chinese_character FROM vocabulary_entries 
-       WHERE user_id = ? AND chapter >= ? AND chapter <= ? AND is_favorite = 0
+       WHERE user_id = ? AND deleted_at IS NULL${scope.sql} AND is_favorite = 0
        ORDER BY RAND()
        LIMIT ?`,
-      [userId, range.start, range.end, remainingCount]
+      [userId, ...scope.params, remainingCount]
     );
     
     const randomCharacters = randomRows.map(row => row.chinese_character as string);
@@ -90,21 +361,63 @@ export class ChapterFilter {
   }
 
   /**
-   * Validate chapter range
+   * Get distractor candidates from chapter range or selection
+   * @param userId - Owner user ID
+   * @param range - Chapter range (inclusive) or selection
+   * @param excludeId - Vocabulary entry ID of the correct answer
+   * @returns Other words in the range
+   */
+  static async getDistractorCandidates(userId: number, range: ChapterScope, excludeId: string): Promise<DistractorCandidate[]> {
+    const pool = getPool();
+    const scope = this.buildScopeClause(range);
+
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT id, chinese_character, pinyin, english_meaning, modern_vietnamese FROM vocabulary_entries 
+       WHERE user_id = ? AND deleted_at IS NULL${scope.sql} AND id != ?`,
+      [userId, ...scope.params, excludeId]
+    );
+
+    return rows.map(row => ({
+      id: row.id as string,
+      chineseCharacter: row.chinese_character as string,
+      pinyin: row.pinyin as string,
+      englishMeaning: row.english_meaning || undefined,
+      modernVietnamese: row.modern_vietnamese || undefined
+    }));
+  }
+
+  /**
+   * Validate chapter range or selection
    * @param userId - Owner user ID
-   * @param range - Chapter range to validate
+   * @param range - Chapter range or selection to validate
    * @returns True if range is valid and contains vocabulary, false otherwise
    */
-  static async validateRange(userId: number, range: ChapterRange): Promise<boolean> {
-    if (range.start < 0 || range.end < 0) return false;
-    if (range.start > range.end) return false;
+  static async validateRange(userId: number, range: ChapterScope): Promise<boolean> {
+    const selection = this.toSelection(range);
+
+    const chapters = [...(selection.chapters || []), ...(selection.excludeChapters || [])];
+    if (chapters.some(chapter => !Number.isInteger(chapter) || chapter < 0)) return false;
+
+    for (const { start, end } of selection.ranges || []) {
+      if (start < 0 || end < 0) return false;
+      if (start > end) return false;
+    }
+
+    const labels = [
+      ...(selection.chapterLabels || []),
+      ...(selection.excludeChapterLabels || []),
+      ...(selection.tags || []),
+      ...(selection.excludeTags || [])
+    ];
+    if (labels.some(label => label.trim().length === 0)) return false;
 
     const pool = getPool();
+    const scope = this.buildScopeClause(selection);
     
     const [rows] = await pool.query<RowDataPacket[]>(
       `SELECT COUNT(*) as count FROM vocabulary_entries 
-       WHERE user_id = ? AND chapter >= ? AND chapter <= ?`,
-      [userId, range.start, range.end]
+       WHERE user_id = ? AND deleted_at IS NULL${scope.sql}`,
+      [userId, ...scope.params]
     );
 
     const count = rows[0].count as number;
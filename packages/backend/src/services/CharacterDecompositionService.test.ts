@@ -0,0 +1,117 @@
+/**
+ * CharacterDecompositionService Tests
+ *
+ * Unit tests for decomposing characters with the bundled data and finding words that share a component.
+ */
+
+import { CharacterDecompositionService } from './CharacterDecompositionService';
+import { VocabularyEntryDAO, VocabularyEntry } from '../models/VocabularyEntry';
+import { VocabularyCharacterDAO } from '../models/VocabularyCharacter';
+
+jest.mock('../models/VocabularyEntry');
+jest.mock('../models/VocabularyCharacter');
+
+function entry(chineseCharacter: string, pinyin: string): VocabularyEntry {
+  return {
+    id: `id-${chineseCharacter}`,
+    userId: 1,
+    chineseCharacter,
+    pinyin,
+    hanVietnamese: '',
+    modernVietnamese: '',
+    englishMeaning: '',
+    learningNote: '',
+    chapter: 1,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  } as VocabularyEntry;
+}
+
+describe('CharacterDecompositionService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('parse', () => {
+    it('should read the components of each character', () => {
+      const decompositions = CharacterDecompositionService.parse([
+        '好:a(女,子)',
+        '37044:d(⺍,冖)',
+        '一:c()',
+        'not a line'
+      ].join('\n'));
+
+      expect(decompositions).toEqual(new Map([
+        ['好', ['女', '子']],
+        ['37044', ['⺍', '冖']],
+        ['一', []]
+      ]));
+    });
+  });
+
+  describe('decompose', () => {
+    it('should return radical, stroke count and components', async () => {
+      await expect(CharacterDecompositionService.decompose('好')).resolves.toEqual({
+        character: '好',
+        radical: '女',
+        strokeCount: 6,
+        components: ['女', '子']
+      });
+    });
+
+    it('should replace shapes without a glyph by their components', async () => {
+      const decomposition = await CharacterDecompositionService.decompose('学');
+
+      expect(decomposition.components).toEqual(['⺍', '冖', '子']);
+      expect(decomposition.radical).toBe('子');
+      expect(decomposition.strokeCount).toBe(8);
+    });
+
+    it('should find a radical written last or below a shape without a glyph', async () => {
+      await expect(CharacterDecompositionService.decompose('这')).resolves.toMatchObject({ radical: '辶', components: ['辶', '文'] });
+      await expect(CharacterDecompositionService.decompose('爱')).resolves.toMatchObject({ radical: '爫' });
+      await expect(CharacterDecompositionService.decompose('问')).resolves.toMatchObject({ radical: '门' });
+    });
+
+    it('should treat a basic character as its own radical without components', async () => {
+      await expect(CharacterDecompositionService.decompose('一')).resolves.toEqual({
+        character: '一',
+        radical: '一',
+        strokeCount: 1,
+        components: []
+      });
+    });
+  });
+
+  describe('breakdown', () => {
+    it('should list other words sharing a component, with the shared parts', async () => {
+      (VocabularyCharacterDAO.findCharacters as jest.Mock).mockResolvedValue(['好', '妈', '女', '字', '你', '们']);
+      (VocabularyEntryDAO.findContainingCharacters as jest.Mock).mockResolvedValue([
+        entry('妈妈', 'māma'),
+        entry('女', 'nǚ'),
+        entry('汉字', 'hànzì')
+      ]);
+
+      const breakdown = await CharacterDecompositionService.breakdown(1, '好');
+
+      expect(breakdown.characters.map(character => character.character)).toEqual(['好']);
+      expect(VocabularyEntryDAO.findContainingCharacters).toHaveBeenCalledWith(1, ['妈', '女', '字']);
+      expect(breakdown.sharedComponentWords).toEqual([
+        { chineseCharacter: '妈妈', pinyin: 'māma', sharedComponents: ['女'] },
+        { chineseCharacter: '女', pinyin: 'nǚ', sharedComponents: ['女'] },
+        { chineseCharacter: '汉字', pinyin: 'hànzì', sharedComponents: ['子'] }
+      ]);
+    });
+
+    it('should decompose every character of a word', async () => {
+      (VocabularyCharacterDAO.findCharacters as jest.Mock).mockResolvedValue(['你', '好']);
+      (VocabularyEntryDAO.findContainingCharacters as jest.Mock).mockResolvedValue([]);
+
+      const breakdown = await CharacterDecompositionService.breakdown(1, '你好');
+
+      expect(breakdown.characters.map(character => character.character)).toEqual(['你', '好']);
+      expect(VocabularyEntryDAO.findContainingCharacters).toHaveBeenCalledWith(1, []);
+      expect(breakdown.sharedComponentWords).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * CharacterDecompositionService
+ *
+ * Radical, stroke count and components of characters, so a learner can remember a character by its parts
+ * (好 = 女 + 子) and see the other words of their vocabulary built from the same parts (妈, 字).
+ *
+ * Components come from the bundled CJK decomposition data (data/cjk-decomp.txt.gz, Gavin Grover's CJK
+ * Decompositions, Apache License 2.0); stroke counts and the radical come from the hanzi-writer-data stroke
+ * data (see StrokeDataService). The decomposition file is loaded on first use and kept in memory.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { gunzipSync } from 'zlib';
+import { StrokeDataService } from './StrokeDataService';
+import { PinyinUtils } from './PinyinUtils';
+import { VocabularyEntryDAO } from '../models/VocabularyEntry';
+import { VocabularyCharacterDAO } from '../models/VocabularyCharacter';
+
+/**
+ * Radical, stroke count and components of one character
+ */
+export interface CharacterDecomposition {
+  character: string;
+  radical: string | null;      // null when no component matches the radical strokes of the stroke data
+  strokeCount: number | null;  // null when the character has no stroke data
+  components: string[];        // parts the character is built from, in writing order; empty for a basic character
+}
+
+/**
+ * A word of the user's vocabulary sharing components with the looked-up characters
+ */
+export interface SharedComponentWord {
+  chineseCharacter: string;
+  pinyin: string;
+  sharedComponents: string[];
+}
+
+/**
+ * Decomposition of the characters of a word, with the related words of the same user
+ */
+export interface CharacterBreakdown {
+  characters: CharacterDecomposition[];      // one per distinct character, in order
+  sharedComponentWords: SharedComponentWord[];
+}
+
+/**
+ * Component in the decomposition tree of a character
+ */
+interface ComponentNode {
+  component: string;
+  first: boolean; // on the path of first-written parts
+  last: boolean;  // on the path of last-written parts
+}
+
+const BUNDLED_FILE = path.join(__dirname, '../../data/cjk-decomp.txt.gz');
+
+// Words returned as sharing a component
+const MAX_SHARED_COMPONENT_WORDS = 20;
+
+// Levels of the decomposition tree searched for the radical (爱 → 爫 sits below a shape without a glyph)
+const MAX_RADICAL_DEPTH = 3;
+
+// Nested shapes without a glyph followed when listing components
+const MAX_UNNAMED_DEPTH = 3;
+
+// 好:a(女,子) - character, composition type, components (numbers stand for shapes without a glyph)
+const LINE_PATTERN = /^([^:]+):[^(]*\(([^)]*)\)$/;
+
+// Shapes without a Unicode glyph, referenced by number
+const UNNAMED_SHAPE = /^\d+$/;
+
+// Single strokes (CJK Strokes block), too small to be worth remembering as a part
+const STROKE = /^[\u31c0-\u31ef]$/;
+
+/**
+ * CharacterDecompositionService class with static decomposition lookups
+ */
+export class CharacterDecompositionService {
+  private static decompositions: Promise<Map<string, string[]>> | null = null;
+
+  /**
+   * Parse the decomposition file into character → direct components
+   * Malformed lines are skipped.
+   */
+  static parse(text: string): Map<string, string[]> {
+    const decompositions = new Map<string, string[]>();
+    for (const line of text.split(/\r?\n/)) {
+      const match = LINE_PATTERN.exec(line.trim());
+      if (match) {
+        decompositions.set(match[1], match[2].split(',').filter(component => component.length > 0));
+      }
+    }
+    return decompositions;
+  }
+
+  /**
+   * Radical, stroke count and components of a single character
+   */
+  static async decompose(character: string): Promise<CharacterDecomposition> {
+    const decompositions = await this.load();
+    const strokes = await StrokeDataService.getCharacterStrokes(character);
+
+    return {
+      character,
+      radical: strokes ? await this.findRadical(decompositions, character, strokes.strokes.length, strokes.radicalStrokes) : null,
+      strokeCount: strokes ? strokes.strokes.length : null,
+      components: this.componentsOf(decompositions, character)
+    };
+  }
+
+  /**
+   * Decompose the characters of a word and find the user's other words sharing a component with them
+   * Words written with the same character are left out; those are listed as "words containing" it.
+   * @param userId - Owner user ID
+   * @param text - Character or word looked up
+   */
+  static async breakdown(userId: number, text: string): Promise<CharacterBreakdown> {
+    const characters = Array.from(new Set(PinyinUtils.hanziCharacters(text)));
+    const decompositions = await Promise.all(characters.map(character => this.decompose(character)));
+
+    // A character counts as a part of itself, so 女 relates to 好 just as 妈 does
+    const wanted = new Set(decompositions.flatMap(decomposition => decomposition.components));
+    if (wanted.size === 0) {
+      return { characters: decompositions, sharedComponentWords: [] };
+    }
+
+    const index = await this.load();
+    const shared = new Map<string, string[]>();
+    for (const hanzi of await VocabularyCharacterDAO.findCharacters(userId)) {
+      if (characters.includes(hanzi)) {
+        continue;
+      }
+      const parts = [hanzi, ...this.componentsOf(index, hanzi)].filter(part => wanted.has(part));
+      if (parts.length > 0) {
+        shared.set(hanzi, parts);
+      }
+    }
+
+    const entries = await VocabularyEntryDAO.findContainingCharacters(userId, Array.from(shared.keys()));
+    const sharedComponentWords: SharedComponentWord[] = [];
+    for (const entry of entries) {
+      if (entry.chineseCharacter === text || sharedComponentWords.some(word => word.chineseCharacter === entry.chineseCharacter)) {
+        continue;
+      }
+      const sharedComponents = Array.from(new Set(Array.from(entry.chineseCharacter).flatMap(hanzi => shared.get(hanzi) || [])));
+      sharedComponentWords.push({ chineseCharacter: entry.chineseCharacter, pinyin: entry.pinyin, sharedComponents });
+      if (sharedComponentWords.length >= MAX_SHARED_COMPONENT_WORDS) {
+        break;
+      }
+    }
+
+    return { characters: decompositions, sharedComponentWords };
+  }
+
+  /**
+   * Direct components of a character, shapes without a glyph replaced by their own components
+   * Single strokes are left out.
+   */
+  private static componentsOf(decompositions: Map<string, string[]>, character: string): string[] {
+    const components: string[] = [];
+    const collect = (parts: string[], depth: number) => {
+      for (const part of parts) {
+        if (UNNAMED_SHAPE.test(part)) {
+          if (depth < MAX_UNNAMED_DEPTH) {
+            collect(decompositions.get(part) || [], depth + 1);
+          }
+        } else if (!STROKE.test(part) && part !== character && !components.includes(part)) {
+          components.push(part);
+        }
+      }
+    };
+    collect(decompositions.get(character) || [], 1);
+    return components;
+  }
+
+  /**
+   * Find the radical among the components of a character
+   * The stroke data marks which strokes form the radical but not which character they are, so the radical
+   * is the component with that many strokes, preferring one written first (or last) when those strokes
+   * start (or end) the character.
+   */
+  private static async findRadical(
+    decompositions: Map<string, string[]>,
+    character: string,
+    strokeCount: number,
+    radicalStrokes: number[]
+  ): Promise<string | null> {
+    // Radicals themselves have no radical strokes marked
+    if (radicalStrokes.length === 0 || radicalStrokes.length === strokeCount) {
+      return character;
+    }
+
+    const startsCharacter = radicalStrokes[0] === 0;
+    const endsCharacter = radicalStrokes[radicalStrokes.length - 1] === strokeCount - 1;
+    const candidates: ComponentNode[] = [];
+    let level: ComponentNode[] = [{ component: character, first: true, last: true }];
+
+    for (let depth = 1; depth <= MAX_RADICAL_DEPTH && level.length > 0; depth++) {
+      const next: ComponentNode[] = [];
+      for (const parent of level) {
+        const children = decompositions.get(parent.component) || [];
+        children.forEach((component, index) => {
+          next.push({
+            component,
+            first: parent.first && index === 0,
+            last: parent.last && index === children.length - 1
+          });
+        });
+      }
+
+      for (const node of next) {
+        if (UNNAMED_SHAPE.test(node.component) || STROKE.test(node.component)) {
+          continue;
+        }
+        const strokes = await StrokeDataService.getCharacterStrokes(node.component);
+        if (strokes && strokes.strokes.length === radicalStrokes.length) {
+          candidates.push(node);
+        }
+      }
+      level = next;
+    }
+
+    const preferred = candidates.find(node => (startsCharacter && node.first) || (endsCharacter && node.last));
+    return (preferred || candidates[0])?.component ?? null;
+  }
+
+  /**
+   * Load the decomposition file (once)
+   */
+  private static load(): Promise<Map<string, string[]>> {
+    if (!this.decompositions) {
+      this.decompositions = fs.readFile(BUNDLED_FILE)
+        .then(content => {
+          const decompositions = this.parse(gunzipSync(content).toString('utf8'));
+          console.log(`[Decomposition] Loaded ${decompositions.size} characters from ${path.basename(BUNDLED_FILE)}`);
+          return decompositions;
+        })
+        .catch(error => {
+          this.decompositions = null;
+          throw error;
+        });
+    }
+    return this.decompositions;
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * ClozeService Tests
+ *
+ * Unit tests for building cloze cards from pre-generated sentences and checking answers.
+ */
+
+import { ClozeService } from './ClozeService';
+import { ChapterFilter } from './ChapterFilter';
+import { VocabularyEntryDAO, VocabularyEntry } from '../models/VocabularyEntry';
+import { PreGeneratedSentenceDAO, PreGeneratedSentence } from '../models/PreGeneratedSentence';
+
+jest.mock('./ChapterFilter');
+jest.mock('../models/VocabularyEntry');
+jest.mock('../models/PreGeneratedSentence');
+
+const mockChapterFilter = ChapterFilter as jest.Mocked<typeof ChapterFilter>;
+const mockVocabularyEntryDAO = VocabularyEntryDAO as jest.Mocked<typeof VocabularyEntryDAO>;
+const mockSentenceDAO = PreGeneratedSentenceDAO as jest.Mocked<typeof PreGeneratedSentenceDAO>;
+
+describe('ClozeService', () => {
+  const testUserId = 1;
+
+  const makeEntry = (id: string, chineseCharacter: string, pinyin: string, englishMeaning?: string, modernVietnamese?: string): VocabularyEntry => ({
+    id,
+    userId: testUserId,
+    username: 'testuser',
+    chineseCharacter,
+    pinyin,
+    englishMeaning,
+    modernVietnamese,
+    chapter: 1,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+  const makeSentence = (id: string, chineseText: string, usedCharacters: string[]): PreGeneratedSentence => ({
+    id,
+    userId: testUserId,
+    vocabGroupId: 1,
+    chineseText,
+    pinyin: 'wǒ xǐhuan hē chá',
+    englishMeaning: 'I like drinking tea',
+    usedCharacters,
+    generationTimestamp: new Date()
+  });
+
+  const xihuan = makeEntry('vocab-1', '喜欢', 'xǐ huan', 'to like', 'thích');
+  const cha = makeEntry('vocab-2', '茶', 'chá', 'tea');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockChapterFilter.getVocabularyInRange.mockResolvedValue(['vocab-1', 'vocab-2']);
+    mockVocabularyEntryDAO.findByUserId.mockResolvedValue([xihuan, cha]);
+    mockVocabularyEntryDAO.findById.mockImplementation(async (_userId: number, id: string) =>
+      [xihuan, cha].find(entry => entry.id === id) || null
+    );
+  });
+
+  describe('blankOut', () => {
+    it('should replace every occurrence of the word with one blank per character', () => {
+      expect(ClozeService.blankOut('我喜欢你，你喜欢我', '喜欢')).toBe('我＿＿你，你＿＿我');
+    });
+  });
+
+  describe('getCard', () => {
+    it('should blank out a word from the selection and hint its meaning', async () => {
+      mockSentenceDAO.findUsingCharacters.mockResolvedValue([makeSentence('s-1', '我喜欢喝水', ['喜欢'])]);
+
+      const card = await ClozeService.getCard(testUserId, { chapters: [1] }, 'english');
+
+      expect(card).toEqual({
+        sentenceId: 's-1',
+        vocabularyId: 'vocab-1',
+        clozeText: '我＿＿喝水',
+        blankLength: 2,
+        hint: 'to like',
+        hintLanguage: 'english'
+      });
+      expect(mockChapterFilter.getVocabularyInRange).toHaveBeenCalledWith(testUserId, { chapters: [1] });
+      expect(mockSentenceDAO.findUsingCharacters).toHaveBeenCalledWith(testUserId, ['喜欢', '茶']);
+    });
+
+    it('should only pick words with a meaning in the hint language', async () => {
+      mockSentenceDAO.findUsingCharacters.mockResolvedValue([makeSentence('s-1', '我喜欢喝茶', ['喜欢', '茶'])]);
+
+      const card = await ClozeService.getCard(testUserId, {}, 'vietnamese');
+
+      expect(card.vocabularyId).toBe('vocab-1');
+      expect(card.hint).toBe('thích');
+      expect(mockSentenceDAO.findUsingCharacters).toHaveBeenCalledWith(testUserId, ['喜欢']);
+    });
+
+    it('should use the requested word', async () => {
+      mockSentenceDAO.findUsingCharacters.mockResolvedValue([makeSentence('s-1', '我喜欢喝茶', ['喜欢', '茶'])]);
+
+      const card = await ClozeService.getCard(testUserId, {}, 'english', 'vocab-2');
+
+      expect(card.clozeText).toBe('我喜欢喝＿');
+      expect(mockChapterFilter.getVocabularyInRange).not.toHaveBeenCalled();
+    });
+
+    it('should skip sentences that record the word without containing it', async () => {
+      mockSentenceDAO.findUsingCharacters.mockResolvedValue([makeSentence('s-1', '我爱喝水', ['喜欢'])]);
+
+      await expect(ClozeService.getCard(testUserId, {}, 'english')).rejects.toThrow('No sentences found');
+    });
+
+    it('should throw when no word has a hint', async () => {
+      mockVocabularyEntryDAO.findByUserId.mockResolvedValue([makeEntry('vocab-3', '水', 'shuǐ')]);
+      mockChapterFilter.getVocabularyInRange.mockResolvedValue(['vocab-3']);
+
+      await expect(ClozeService.getCard(testUserId, {}, 'english')).rejects.toThrow('No vocabulary found');
+      expect(mockSentenceDAO.findUsingCharacters).not.toHaveBeenCalled();
+    });
+
+    it('should throw for an unknown word', async () => {
+      await expect(ClozeService.getCard(testUserId, {}, 'english', 'missing')).rejects.toThrow('Vocabulary entry not found');
+    });
+  });
+
+  describe('checkAnswer', () => {
+    beforeEach(() => {
+      mockSentenceDAO.findById.mockResolvedValue(makeSentence('s-1', '我喜欢喝茶', ['喜欢', '茶']));
+    });
+
+    it('should accept the hidden word in hanzi and reveal the sentence', async () => {
+      const result = await ClozeService.checkAnswer(testUserId, 's-1', 'vocab-1', '喜欢');
+
+      expect(result.correct).toBe(true);
+      expect(result.chineseText).toBe('我喜欢喝茶');
+      expect(result.englishMeaning).toBe('I like drinking tea');
+    });
+
+    it('should accept the hidden word in pinyin', async () => {
+      const result = await ClozeService.checkAnswer(testUserId, 's-1', 'vocab-1', 'xi3huan');
+
+      expect(result.correct).toBe(true);
+      expect(result.check.answerType).toBe('pinyin');
+    });
+
+    it('should reject a wrong word', async () => {
+      const result = await ClozeService.checkAnswer(testUserId, 's-1', 'vocab-1', '喜爱');
+
+      expect(result.correct).toBe(false);
+      expect(result.check.correctChinese).toBe('喜欢');
+    });
+
+    it('should throw when the word is not in the sentence', async () => {
+      mockSentenceDAO.findById.mockResolvedValue(makeSentence('s-2', '我喝水', ['喝']));
+
+      await expect(ClozeService.checkAnswer(testUserId, 's-2', 'vocab-1', '喜欢')).rejects.toThrow('does not appear');
+    });
+
+    it('should throw for an unknown sentence', async () => {
+      mockSentenceDAO.findById.mockResolvedValue(null);
+
+      await expect(ClozeService.checkAnswer(testUserId, 'missing', 'vocab-1', '喜欢')).rejects.toThrow('Sentence not found');
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * ClozeService
+ *
+ * Fill-the-gap exercises built from pre-generated sentences: a sentence that uses a target
+ * vocabulary word is shown with the word blanked out and its meaning as a hint, and the
+ * learner's answer is checked on the server. Answers may be typed in hanzi or pinyin.
+ */
+
+import { ChapterFilter, ChapterScope } from './ChapterFilter';
+import { AnswerChecker, TypedAnswerCheck } from './AnswerChecker';
+import { VocabularyEntryDAO, VocabularyEntry } from '../models/VocabularyEntry';
+import { PreGeneratedSentenceDAO, PreGeneratedSentence } from '../models/PreGeneratedSentence';
+
+/**
+ * Language of the meaning shown as a hint
+ */
+export type ClozeHintLanguage = 'english' | 'vietnamese';
+
+/**
+ * Character shown in place of each hidden character
+ */
+export const CLOZE_BLANK = '＿';
+
+/**
+ * A sentence with one vocabulary word blanked out
+ */
+export interface ClozeCard {
+  sentenceId: string;
+  vocabularyId: string;
+  clozeText: string;   // sentence with every occurrence of the word blanked out
+  blankLength: number; // characters in the hidden word
+  hint: string;        // meaning of the hidden word
+  hintLanguage: ClozeHintLanguage;
+}
+
+/**
+ * Result of a cloze answer, revealing the full sentence
+ */
+export interface ClozeResult {
+  correct: boolean;
+  check: TypedAnswerCheck;
+  chineseText: string;
+  pinyin: string;
+  englishMeaning?: string;
+  modernVietnamese?: string;
+}
+
+/**
+ * Meaning of a word in the hint language (empty when missing)
+ */
+function hintOf(entry: VocabularyEntry, language: ClozeHintLanguage): string {
+  const hint = language === 'english' ? entry.englishMeaning : entry.modernVietnamese;
+  return hint?.trim() || '';
+}
+
+/**
+ * ClozeService class for fill-the-gap exercises
+ */
+export class ClozeService {
+  /**
+   * Blank out every occurrence of a word in a sentence
+   */
+  static blankOut(text: string, word: string): string {
+    return text.split(word).join(CLOZE_BLANK.repeat(Array.from(word).length));
+  }
+
+  /**
+   * Pick a sentence containing a target word and blank the word out
+   * @param userId - Owner user ID
+   * @param scope - Chapter range or selection to pick the target word from
+   * @param hintLanguage - Language of the meaning shown as a hint
+   * @param vocabularyId - Target word (optional, a random word in the scope otherwise)
+   * @returns A cloze card; the hidden word is only revealed by checkAnswer
+   */
+  static async getCard(
+    userId: number,
+    scope: ChapterScope,
+    hintLanguage: ClozeHintLanguage,
+    vocabularyId?: string
+  ): Promise<ClozeCard> {
+    const words = (await this.getTargetWords(userId, scope, vocabularyId))
+      .filter(entry => hintOf(entry, hintLanguage).length > 0);
+
+    if (words.length === 0) {
+      throw new Error(`No vocabulary found with a ${hintLanguage} meaning for the cloze hint`);
+    }
+
+    const byCharacter = new Map(words.map(entry => [entry.chineseCharacter, entry]));
+    const sentences = await PreGeneratedSentenceDAO.findUsingCharacters(userId, Array.from(byCharacter.keys()));
+
+    // Every (sentence, word) pair where the word is both recorded and literally present in the sentence
+    const candidates: { sentence: PreGeneratedSentence; entry: VocabularyEntry }[] = [];
+    for (const sentence of sentences) {
+      for (const character of sentence.usedCharacters) {
+        const entry = byCharacter.get(character);
+        if (entry && sentence.chineseText.includes(character)) {
+          candidates.push({ sentence, entry });
+        }
+      }
+    }
+
+    if (candidates.length === 0) {
+      throw new Error('No sentences found for the selected vocabulary');
+    }
+
+    const { sentence, entry } = candidates[Math.floor(Math.random() * candidates.length)];
+
+    return {
+      sentenceId: sentence.id,
+      vocabularyId: entry.id,
+      clozeText: this.blankOut(sentence.chineseText, entry.chineseCharacter),
+      blankLength: Array.from(entry.chineseCharacter).length,
+      hint: hintOf(entry, hintLanguage),
+      hintLanguage
+    };
+  }
+
+  /**
+   * Check the learner's answer for a cloze card
+   * @param userId - Owner user ID
+   * @param sentenceId - Sentence of the card
+   * @param vocabularyId - Hidden word of the card
+   * @param answer - Learner's answer in hanzi or pinyin
+   */
+  static async checkAnswer(userId: number, sentenceId: string, vocabularyId: string, answer: string): Promise<ClozeResult> {
+    const sentence = await PreGeneratedSentenceDAO.findById(userId, sentenceId);
+    if (!sentence) {
+      throw new Error('Sentence not found');
+    }
+
+    const entry = await VocabularyEntryDAO.findById(userId, vocabularyId);
+    if (!entry) {
+      throw new Error('Vocabulary entry not found');
+    }
+
+    if (!sentence.chineseText.includes(entry.chineseCharacter)) {
+      throw new Error('Vocabulary word does not appear in this sentence');
+    }
+
+    const check = AnswerChecker.checkTypedAnswer(entry.chineseCharacter, entry.pinyin, answer);
+
+    return {
+      correct: check.result === 'exact',
+      check,
+      chineseText: sentence.chineseText,
+      pinyin: sentence.pinyin,
+      englishMeaning: sentence.englishMeaning,
+      modernVietnamese: sentence.modernVietnamese
+    };
+  }
+
+  /**
+   * Words the target may be picked from: one given word, or every word in the scope
+   */
+  private static async getTargetWords(userId: number, scope: ChapterScope, vocabularyId?: string): Promise<VocabularyEntry[]> {
+    if (vocabularyId) {
+      const entry = await VocabularyEntryDAO.findById(userId, vocabularyId);
+      if (!entry) {
+        throw new Error('Vocabulary entry not found');
+      }
+      return [entry];
+    }
+
+    const ids = new Set(await ChapterFilter.getVocabularyInRange(userId, scope));
+    const entries = await VocabularyEntryDAO.findByUserId(userId);
+    return entries.filter(entry => ids.has(entry.id));
+  }
+}
@@ -6,6 +6,7 @@
  */
 
 import { VocabularyEntryDAO, VocabularyEntry } from '../models/VocabularyEntry';
+import { ExpressionService } from './ExpressionService';
 import crypto from 'crypto';
 
 /**
@@ -98,7 +99,7 @@ export class DatabaseBackupManager {
       const { getPool } = await import('../config/database');
       const pool = getPool();
       const [rows] = await pool.query<any[]>(
-        'SELECT * FROM vocabulary_entries WHERE user_id = ? ORDER BY chapter, created_at',
+        'SELECT * FROM vocabulary_entries WHERE user_id = ? AND deleted_at IS NULL ORDER BY chapter, created_at',
         [user.id]
       );
       entries = rows.map(row => ({
@@ -221,6 +222,7 @@ export class DatabaseBackupManager {
         targetUserId!,
         targetUsername!
       );
+      await ExpressionService.linkUnlinkedEntries();
 
       return {
         success: true,
@@ -368,7 +370,7 @@ export class DatabaseBackupManager {
     const pool = getPool();
 
     const [rows] = await pool.query<any[]>(
-      'SELECT * FROM vocabulary_entries ORDER BY user_id, chapter, created_at'
+      'SELECT * FROM vocabulary_entries WHERE deleted_at IS NULL ORDER BY user_id, chapter, created_at'
     );
 
     const entries = rows.map(row => ({
@@ -413,6 +415,7 @@ export class DatabaseBackupManager {
     const pool = getPool();
 
     await pool.query('DELETE FROM vocabulary_entries');
+    await pool.query('DELETE FROM vocabulary_characters');
   }
 
   /**
@@ -424,6 +427,7 @@ export class DatabaseBackupManager {
     const pool = getPool();
 
     await pool.query('DELETE FROM vocabulary_entries WHERE user_id = ?', [userId]);
+    await pool.query('DELETE FROM vocabulary_characters WHERE user_id = ?', [userId]);
     console.log(`[DatabaseBackupManager] Erased vocabulary for userId: ${userId}`);
   }
 
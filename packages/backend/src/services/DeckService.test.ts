@@ -0,0 +1,209 @@
+/**
+ * DeckService Tests
+ *
+ * Unit tests for shuffled decks: creation from filters, cursor movement,
+ * reshuffling at the end of a round and dropping deleted words.
+ */
+
+import { DeckService } from './DeckService';
+import { DeckDAO, Deck, DeckFilter } from '../models/Deck';
+import { VocabularyEntryDAO, VocabularyEntry } from '../models/VocabularyEntry';
+
+jest.mock('../models/Deck');
+jest.mock('../models/VocabularyEntry');
+
+const mockDeckDAO = DeckDAO as jest.Mocked<typeof DeckDAO>;
+const mockVocabularyEntryDAO = VocabularyEntryDAO as jest.Mocked<typeof VocabularyEntryDAO>;
+
+describe('DeckService', () => {
+  const testUserId = 1;
+
+  const makeEntry = (id: string, isFavorite = false): VocabularyEntry => ({
+    id,
+    userId: testUserId,
+    username: 'testuser',
+    chineseCharacter: id,
+    pinyin: '',
+    chapter: 1,
+    isFavorite,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+  // In-memory stand-ins for the decks and vocabulary_entries tables
+  let decks: Map<string, Deck>;
+  let entries: Map<string, VocabularyEntry>;
+
+  const storeDeck = (vocabularyIds: string[], cursor: number): Deck => {
+    const deck: Deck = {
+      id: 'deck-1',
+      userId: testUserId,
+      ownerId: testUserId,
+      filter: {},
+      vocabularyIds,
+      cursor,
+      round: 1,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    decks.set(deck.id, deck);
+    return deck;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    decks = new Map();
+    entries = new Map(['a', 'b', 'c'].map(id => [id, makeEntry(id, id === 'a')]));
+
+    mockDeckDAO.create.mockImplementation(async (userId: number, ownerId: number, filter: DeckFilter, vocabularyIds: string[]) => {
+      const deck: Deck = {
+        id: 'deck-1', userId, ownerId, filter, vocabularyIds, cursor: -1, round: 1, createdAt: new Date(), updatedAt: new Date()
+      };
+      decks.set(deck.id, deck);
+      return deck;
+    });
+    mockDeckDAO.findById.mockImplementation(async (userId: number, id: string) => {
+      const deck = decks.get(id);
+      return deck && deck.userId === userId ? { ...deck, vocabularyIds: [...deck.vocabularyIds] } : null;
+    });
+    mockDeckDAO.update.mockImplementation(async (deck: Deck) => {
+      decks.set(deck.id, deck);
+      return deck;
+    });
+    mockVocabularyEntryDAO.findById.mockImplementation(async (_userId: number, id: string) => entries.get(id) || null);
+    mockVocabularyEntryDAO.findByUserId.mockImplementation(async () => Array.from(entries.values()));
+    mockVocabularyEntryDAO.findByChapterLabel.mockResolvedValue([makeEntry('b')]);
+  });
+
+  describe('createDeck', () => {
+    it('should store a shuffled order of every word in the range', async () => {
+      const deck = await DeckService.createDeck(testUserId, testUserId, { chapterStart: 1, chapterEnd: 3 });
+
+      expect(deck).toMatchObject({ id: 'deck-1', position: 0, total: 3, round: 1 });
+      expect(mockVocabularyEntryDAO.findByUserId).toHaveBeenCalledWith(testUserId, 1, 3);
+      expect([...decks.get('deck-1')!.vocabularyIds].sort()).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should use the chapter label when given', async () => {
+      const deck = await DeckService.createDeck(testUserId, testUserId, { chapterLabel: 'HSK 1' });
+
+      expect(mockVocabularyEntryDAO.findByChapterLabel).toHaveBeenCalledWith(testUserId, 'HSK 1');
+      expect(deck.total).toBe(1);
+    });
+
+    it('should use the tag when given', async () => {
+      mockVocabularyEntryDAO.findByTag.mockResolvedValue([makeEntry('a'), makeEntry('c')]);
+
+      const deck = await DeckService.createDeck(testUserId, testUserId, { tag: 'food', chapterLabel: 'HSK 1' });
+
+      expect(mockVocabularyEntryDAO.findByTag).toHaveBeenCalledWith(testUserId, 'food');
+      expect(mockVocabularyEntryDAO.findByChapterLabel).not.toHaveBeenCalled();
+      expect(deck.total).toBe(2);
+    });
+
+    it('should keep only favorites when asked', async () => {
+      await DeckService.createDeck(testUserId, testUserId, { favoritesOnly: true });
+
+      expect(decks.get('deck-1')!.vocabularyIds).toEqual(['a']);
+    });
+
+    it('should throw when no words match', async () => {
+      mockVocabularyEntryDAO.findByUserId.mockResolvedValue([]);
+
+      await expect(DeckService.createDeck(testUserId, testUserId, {})).rejects.toThrow('No vocabulary found for deck filter');
+      expect(mockDeckDAO.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('next and previous', () => {
+    it('should move the cursor forward and save it', async () => {
+      storeDeck(['a', 'b', 'c'], -1);
+
+      const first = await DeckService.next(testUserId, testUserId, 'deck-1');
+      const second = await DeckService.next(testUserId, testUserId, 'deck-1');
+
+      expect(first.entry!.id).toBe('a');
+      expect(second.entry!.id).toBe('b');
+      expect(second.deck.position).toBe(2);
+      expect(decks.get('deck-1')!.cursor).toBe(1);
+    });
+
+    it('should resume from the stored cursor', async () => {
+      storeDeck(['a', 'b', 'c'], 1);
+
+      const current = await DeckService.getDeck(testUserId, testUserId, 'deck-1');
+      const next = await DeckService.next(testUserId, testUserId, 'deck-1');
+
+      expect(current.entry!.id).toBe('b');
+      expect(next.entry!.id).toBe('c');
+    });
+
+    it('should reshuffle for a new round at the end of the deck', async () => {
+      storeDeck(['a', 'b', 'c'], 2);
+
+      const card = await DeckService.next(testUserId, testUserId, 'deck-1');
+
+      expect(card.deck).toMatchObject({ position: 1, round: 2, total: 3 });
+      expect(card.entry!.id).not.toBe('c');
+    });
+
+    it('should drop words deleted since the deck was created', async () => {
+      storeDeck(['a', 'gone', 'c'], 0);
+
+      const card = await DeckService.next(testUserId, testUserId, 'deck-1');
+
+      expect(card.entry!.id).toBe('c');
+      expect(decks.get('deck-1')!.vocabularyIds).toEqual(['a', 'c']);
+    });
+
+    it('should move back to the previous card', async () => {
+      storeDeck(['a', 'b', 'c'], 2);
+
+      const card = await DeckService.previous(testUserId, testUserId, 'deck-1');
+
+      expect(card.entry!.id).toBe('b');
+      expect(decks.get('deck-1')!.cursor).toBe(1);
+    });
+
+    it('should not move before the first card', async () => {
+      storeDeck(['a', 'b', 'c'], 0);
+
+      await expect(DeckService.previous(testUserId, testUserId, 'deck-1')).rejects.toThrow('Already at the first card');
+    });
+
+    it('should not return decks of other users', async () => {
+      storeDeck(['a', 'b', 'c'], 0);
+
+      await expect(DeckService.next(testUserId, testUserId + 1, 'deck-1')).rejects.toThrow('Deck not found');
+    });
+
+    it('should not return a deck over another owner\'s words', async () => {
+      storeDeck(['a', 'b', 'c'], 0);
+
+      await expect(DeckService.next(testUserId + 1, testUserId, 'deck-1')).rejects.toThrow('Deck not found');
+    });
+  });
+
+  describe('decks per learner', () => {
+    it("should keep a child's deck and cursor apart from the owner of the words", async () => {
+      const childId = testUserId + 1;
+
+      await DeckService.createDeck(testUserId, childId, {});
+      const card = await DeckService.next(testUserId, childId, 'deck-1');
+
+      expect(mockDeckDAO.create).toHaveBeenCalledWith(childId, testUserId, {}, expect.any(Array));
+      expect(mockVocabularyEntryDAO.findByUserId).toHaveBeenCalledWith(testUserId, undefined, undefined);
+      expect(mockVocabularyEntryDAO.findById).toHaveBeenCalledWith(testUserId, card.entry!.id);
+      expect(decks.get('deck-1')).toMatchObject({ userId: childId, ownerId: testUserId, cursor: 0 });
+      await expect(DeckService.next(testUserId, testUserId, 'deck-1')).rejects.toThrow('Deck not found');
+    });
+
+    it('should list only the learner\'s decks over the owner\'s words', async () => {
+      mockDeckDAO.findByUserId.mockResolvedValue([]);
+
+      await DeckService.listDecks(testUserId, testUserId + 1);
+
+      expect(mockDeckDAO.findByUserId).toHaveBeenCalledWith(testUserId + 1, testUserId);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * DeckService
+ *
+ * Server-side shuffled decks. A deck is created from a chapter range, chapter label or
+ * favorites filter, stores its shuffled order and a cursor, and serves cards one by one.
+ * When a pass is finished the deck is reshuffled for the next round.
+ * Decks are kept per learner, so children studying their parent's words each have their own
+ * decks and cursors; the words are read from the owner of the vocabulary.
+ */
+
+import { DeckDAO, Deck, DeckFilter } from '../models/Deck';
+import { VocabularyEntryDAO, VocabularyEntry } from '../models/VocabularyEntry';
+
+/**
+ * Deck without its full order, as returned to clients
+ */
+export interface DeckSummary {
+  id: string;
+  filter: DeckFilter;
+  position: number; // 1-based position of the current card, 0 before the first card
+  total: number;
+  round: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Deck summary with the current card
+ */
+export interface DeckCard {
+  deck: DeckSummary;
+  entry: VocabularyEntry | null;
+}
+
+/**
+ * DeckService class for shuffled decks
+ */
+export class DeckService {
+  /**
+   * Create a shuffled deck
+   * @param ownerId - Owner of the vocabulary
+   * @param learnerId - User studying the deck
+   * @param filter - Chapter range, chapter label and/or favorites filter
+   * @returns New deck, positioned before the first card
+   */
+  static async createDeck(ownerId: number, learnerId: number, filter: DeckFilter): Promise<DeckSummary> {
+    const entries = await this.findEntries(ownerId, filter);
+
+    if (entries.length === 0) {
+      throw new Error('No vocabulary found for deck filter');
+    }
+
+    const deck = await DeckDAO.create(learnerId, ownerId, filter, this.shuffle(entries.map(entry => entry.id)));
+    return this.toSummary(deck);
+  }
+
+  /**
+   * List a learner's decks over the owner's vocabulary, most recently used first
+   */
+  static async listDecks(ownerId: number, learnerId: number): Promise<DeckSummary[]> {
+    const decks = await DeckDAO.findByUserId(learnerId, ownerId);
+    return decks.map(deck => this.toSummary(deck));
+  }
+
+  /**
+   * Get a deck with its current card (null before the first card)
+   */
+  static async getDeck(ownerId: number, learnerId: number, deckId: string): Promise<DeckCard> {
+    const deck = await this.getOwnedDeck(ownerId, learnerId, deckId);
+    const entry = deck.cursor >= 0
+      ? await VocabularyEntryDAO.findById(ownerId, deck.vocabularyIds[deck.cursor])
+      : null;
+
+    return { deck: this.toSummary(deck), entry };
+  }
+
+  /**
+   * Move to the next card, reshuffling for a new round at the end of the deck
+   * Words deleted since the deck was created are dropped from the order.
+   */
+  static async next(ownerId: number, learnerId: number, deckId: string): Promise<DeckCard> {
+    const deck = await this.getOwnedDeck(ownerId, learnerId, deckId);
+
+    while (deck.vocabularyIds.length > 0) {
+      deck.cursor++;
+
+      if (deck.cursor >= deck.vocabularyIds.length) {
+        const lastShown = deck.vocabularyIds[deck.vocabularyIds.length - 1];
+        deck.vocabularyIds = this.shuffle(deck.vocabularyIds, lastShown);
+        deck.cursor = 0;
+        deck.round++;
+      }
+
+      const entry = await VocabularyEntryDAO.findById(ownerId, deck.vocabularyIds[deck.cursor]);
+      if (entry) {
+        await DeckDAO.update(deck);
+        return { deck: this.toSummary(deck), entry };
+      }
+
+      deck.vocabularyIds.splice(deck.cursor, 1);
+      deck.cursor--;
+    }
+
+    await DeckDAO.update(deck);
+    throw new Error('No vocabulary left in deck');
+  }
+
+  /**
+   * Move back to the previous card of the current round
+   */
+  static async previous(ownerId: number, learnerId: number, deckId: string): Promise<DeckCard> {
+    const deck = await this.getOwnedDeck(ownerId, learnerId, deckId);
+
+    while (deck.cursor > 0) {
+      deck.cursor--;
+
+      const entry = await VocabularyEntryDAO.findById(ownerId, deck.vocabularyIds[deck.cursor]);
+      if (entry) {
+        await DeckDAO.update(deck);
+        return { deck: this.toSummary(deck), entry };
+      }
+
+      deck.vocabularyIds.splice(deck.cursor, 1);
+    }
+
+    throw new Error('Already at the first card of this round');
+  }
+
+  /**
+   * Delete a deck
+   */
+  static async deleteDeck(ownerId: number, learnerId: number, deckId: string): Promise<void> {
+    await this.getOwnedDeck(ownerId, learnerId, deckId);
+    const deleted = await DeckDAO.delete(learnerId, deckId);
+    if (!deleted) {
+      throw new Error('Deck not found');
+    }
+  }
+
+  /**
+   * Load a deck of the learner over the owner's vocabulary
+   */
+  private static async getOwnedDeck(ownerId: number, learnerId: number, deckId: string): Promise<Deck> {
+    const deck = await DeckDAO.findById(learnerId, deckId);
+    if (!deck || deck.ownerId !== ownerId) {
+      throw new Error('Deck not found');
+    }
+    return deck;
+  }
+
+  /**
+   * Find the words matching a deck filter
+   */
+  private static async findEntries(userId: number, filter: DeckFilter): Promise<VocabularyEntry[]> {
+    let entries: VocabularyEntry[];
+
+    if (filter.tag) {
+      entries = await VocabularyEntryDAO.findByTag(userId, filter.tag);
+    } else if (filter.chapterLabel) {
+      entries = await VocabularyEntryDAO.findByChapterLabel(userId, filter.chapterLabel);
+    } else {
+      entries = await VocabularyEntryDAO.findByUserId(userId, filter.chapterStart, filter.chapterEnd);
+    }
+
+    if (filter.favoritesOnly) {
+      entries = entries.filter(entry => entry.isFavorite);
+    }
+
+    return entries;
+  }
+
+  /**
+   * Fisher-Yates shuffle
+   * @param ids - IDs to shuffle
+   * @param avoidFirst - ID that should not come first (the last card of the previous round)
+   */
+  private static shuffle(ids: string[], avoidFirst?: string): string[] {
+    const shuffled = [...ids];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+
+    if (avoidFirst !== undefined && shuffled.length > 1 && shuffled[0] === avoidFirst) {
+      [shuffled[0], shuffled[1]] = [shuffled[1], shuffled[0]];
+    }
+
+    return shuffled;
+  }
+
+  /**
+   * Convert a deck to its client summary
+   */
+  private static toSummary(deck: Deck): DeckSummary {
+    return {
+      id: deck.id,
+      filter: deck.filter,
+      position: deck.cursor + 1,
+      total: deck.vocabularyIds.length,
+      round: deck.round,
+      createdAt: deck.createdAt,
+      updatedAt: deck.updatedAt
+    };
+  }
+}
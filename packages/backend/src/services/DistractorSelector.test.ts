@@ -0,0 +1,66 @@
+/**
+ * DistractorSelector Tests
+ *
+ * Unit tests for picking multiple-choice distractors by similarity.
+ */
+
+import { DistractorSelector } from './DistractorSelector';
+import { DistractorCandidate } from './ChapterFilter';
+
+describe('DistractorSelector', () => {
+  const correct: DistractorCandidate = {
+    id: 'vocab-1',
+    chineseCharacter: '你好',
+    pinyin: 'nǐ hǎo',
+    englishMeaning: 'hello',
+    modernVietnamese: 'xin chào'
+  };
+
+  const sharesCharacter: DistractorCandidate = {
+    id: 'vocab-2', chineseCharacter: '好吃', pinyin: 'hǎo chī', englishMeaning: 'tasty', modernVietnamese: 'ngon'
+  };
+  const unrelated: DistractorCandidate = {
+    id: 'vocab-3', chineseCharacter: '图书馆', pinyin: 'tú shū guǎn', englishMeaning: 'library building', modernVietnamese: 'thư viện lớn'
+  };
+
+  describe('optionText', () => {
+    it('should show the Chinese word for chinese options', () => {
+      expect(DistractorSelector.optionText(correct, 'chinese')).toBe('你好');
+    });
+
+    it('should show Vietnamese and English meanings for meaning options', () => {
+      expect(DistractorSelector.optionText(correct, 'meaning')).toBe('xin chào / hello');
+      expect(DistractorSelector.optionText({ ...correct, modernVietnamese: undefined }, 'meaning')).toBe('hello');
+    });
+  });
+
+  describe('similarity', () => {
+    it('should score words with shared characters and pinyin higher', () => {
+      expect(DistractorSelector.similarity(correct, sharesCharacter))
+        .toBeGreaterThan(DistractorSelector.similarity(correct, unrelated) + 1);
+    });
+  });
+
+  describe('pick', () => {
+    it('should prefer the most similar words', () => {
+      const picked = DistractorSelector.pick(correct, [unrelated, sharesCharacter], 'chinese', 1);
+
+      expect(picked).toEqual([sharesCharacter]);
+    });
+
+    it('should skip candidates with the same text as the answer or an earlier pick', () => {
+      const sameWord = { ...sharesCharacter, id: 'vocab-4', chineseCharacter: '你好' };
+      const duplicate = { ...sharesCharacter, id: 'vocab-5' };
+
+      const picked = DistractorSelector.pick(correct, [sameWord, sharesCharacter, duplicate], 'chinese', 3);
+
+      expect(picked.map(word => word.chineseCharacter)).toEqual(['好吃']);
+    });
+
+    it('should skip candidates without a meaning for meaning options', () => {
+      const noMeaning = { ...sharesCharacter, englishMeaning: undefined, modernVietnamese: undefined };
+
+      expect(DistractorSelector.pick(correct, [noMeaning], 'meaning', 3)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * DistractorSelector Service
+ *
+ * Picks wrong options for multiple-choice flashcards.
+ * Prefers words that look like the correct answer: shared characters, similar pinyin
+ * and meanings of similar length, so the right option cannot be spotted by its shape alone.
+ */
+
+import { DistractorCandidate } from './ChapterFilter';
+import { PinyinUtils } from './PinyinUtils';
+
+/**
+ * What the options show:
+ * - chinese: the Chinese word (question is a meaning)
+ * - meaning: the Vietnamese / English meaning (question is the Chinese word)
+ */
+export type OptionField = 'chinese' | 'meaning';
+
+/**
+ * DistractorSelector class for choosing multiple-choice distractors
+ */
+export class DistractorSelector {
+  /**
+   * Text shown for a word as a multiple-choice option
+   * @param word - Vocabulary word
+   * @param field - What the options show
+   */
+  static optionText(word: DistractorCandidate, field: OptionField): string {
+    if (field === 'chinese') {
+      return word.chineseCharacter;
+    }
+    return [word.modernVietnamese, word.englishMeaning]
+      .filter(text => text && text.trim().length > 0)
+      .join(' / ');
+  }
+
+  /**
+   * Pick the most similar distractors for a word
+   * Candidates with an empty option text, or the same text as the answer or another pick, are skipped.
+   * @param correct - Correct vocabulary word
+   * @param candidates - Other words in the chapter range
+   * @param field - What the options show
+   * @param count - Number of distractors wanted
+   * @returns Up to `count` distractors, most similar first
+   */
+  static pick(
+    correct: DistractorCandidate,
+    candidates: DistractorCandidate[],
+    field: OptionField,
+    count: number
+  ): DistractorCandidate[] {
+    const correctText = this.optionText(correct, field);
+    const scored = candidates
+      .map(candidate => ({
+        candidate,
+        // A little noise so the same word does not always get the same distractors
+        score: this.similarity(correct, candidate) + Math.random()
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    const picked: DistractorCandidate[] = [];
+    const usedTexts = new Set([correctText]);
+
+    for (const { candidate } of scored) {
+      if (picked.length >= count) {
+        break;
+      }
+      const text = this.optionText(candidate, field);
+      if (!text || usedTexts.has(text)) {
+        continue;
+      }
+      usedTexts.add(text);
+      picked.push(candidate);
+    }
+
+    return picked;
+  }
+
+  /**
+   * Score how similar a candidate is to the correct word
+   * - 3 points per shared character
+   * - 2 points per shared toneless syllable, 1 for the same syllable count
+   * - up to 2 points for a meaning of similar length
+   */
+  static similarity(correct: DistractorCandidate, candidate: DistractorCandidate): number {
+    let score = 0;
+
+    const correctChars = new Set(PinyinUtils.hanziCharacters(correct.chineseCharacter));
+    for (const char of new Set(PinyinUtils.hanziCharacters(candidate.chineseCharacter))) {
+      if (correctChars.has(char)) {
+        score += 3;
+      }
+    }
+
+    const correctSyllables = PinyinUtils.syllablesOf(correct.chineseCharacter, correct.pinyin).map(s => s.base);
+    const candidateSyllables = PinyinUtils.syllablesOf(candidate.chineseCharacter, candidate.pinyin).map(s => s.base);
+    for (const base of new Set(candidateSyllables)) {
+      if (correctSyllables.includes(base)) {
+        score += 2;
+      }
+    }
+    if (correctSyllables.length === candidateSyllables.length) {
+      score += 1;
+    }
+
+    const correctLength = this.optionText(correct, 'meaning').length;
+    const candidateLength = this.optionText(candidate, 'meaning').length;
+    const longest = Math.max(correctLength, candidateLength);
+    if (longest > 0) {
+      score += 2 * (1 - Math.abs(correctLength - candidateLength) / longest);
+    }
+
+    return score;
+  }
+}
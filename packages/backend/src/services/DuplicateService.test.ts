@@ -0,0 +1,177 @@
+/**
+ * DuplicateService Tests
+ *
+ * Unit tests for duplicate checks with skip/update/keepBoth, duplicate reports and merges.
+ */
+
+import { DuplicateService } from './DuplicateService';
+import { VocabularyEntryDAO, VocabularyEntry } from '../models/VocabularyEntry';
+import { ReviewStateDAO } from '../models/ReviewState';
+import { ExampleSentenceService } from './ExampleSentenceService';
+
+jest.mock('../models/VocabularyEntry');
+jest.mock('../models/ReviewState');
+jest.mock('./ExampleSentenceService');
+
+const mockVocabularyEntryDAO = VocabularyEntryDAO as jest.Mocked<typeof VocabularyEntryDAO>;
+const mockReviewStateDAO = ReviewStateDAO as jest.Mocked<typeof ReviewStateDAO>;
+
+describe('DuplicateService', () => {
+  const makeEntry = (id: string, chineseCharacter: string, chapter: number, extra: Partial<VocabularyEntry> = {}): VocabularyEntry => ({
+    id,
+    userId: 1,
+    username: 'parent',
+    chineseCharacter,
+    pinyin: 'nǐ hǎo',
+    chapter,
+    createdAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01'),
+    ...extra
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('check', () => {
+    const input = { chineseCharacter: '你好', chapter: 5, englishMeaning: 'hi there', modernVietnamese: '' };
+
+    it('should let a new word be created', async () => {
+      mockVocabularyEntryDAO.findByCharacter.mockResolvedValue([]);
+
+      const result = await DuplicateService.check(1, input);
+
+      expect(result).toEqual({ outcome: 'create', existing: [] });
+    });
+
+    it('should report an existing word when no action is given', async () => {
+      const existing = [makeEntry('v1', '你好', 1)];
+      mockVocabularyEntryDAO.findByCharacter.mockResolvedValue(existing);
+
+      const result = await DuplicateService.check(1, input);
+
+      expect(result).toEqual({ outcome: 'duplicate', existing });
+    });
+
+    it('should keep the existing entry when skipping', async () => {
+      const existing = [makeEntry('v1', '你好', 1)];
+      mockVocabularyEntryDAO.findByCharacter.mockResolvedValue(existing);
+
+      const result = await DuplicateService.check(1, input, 'skip');
+
+      expect(result).toEqual({ outcome: 'skipped', existing, entry: existing[0] });
+      expect(mockVocabularyEntryDAO.update).not.toHaveBeenCalled();
+    });
+
+    it('should write only non-empty values into the earliest entry when updating', async () => {
+      const existing = [makeEntry('v1', '你好', 1), makeEntry('v2', '你好', 3)];
+      const updated = makeEntry('v1', '你好', 1, { englishMeaning: 'hi there' });
+      mockVocabularyEntryDAO.findByCharacter.mockResolvedValue(existing);
+      mockVocabularyEntryDAO.update.mockResolvedValue(updated);
+
+      const result = await DuplicateService.check(1, input, 'update', 7);
+
+      expect(mockVocabularyEntryDAO.update).toHaveBeenCalledWith(1, 'v1', { englishMeaning: 'hi there' }, 7);
+      expect(result).toEqual({ outcome: 'updated', existing, entry: updated });
+    });
+
+    it('should refresh the sentence pinyin when the update gives the word a new reading', async () => {
+      mockVocabularyEntryDAO.findByCharacter.mockResolvedValue([makeEntry('v1', '还', 1, { pinyin: 'hái' })]);
+      mockVocabularyEntryDAO.update.mockResolvedValue(makeEntry('v1', '还', 1, { pinyin: 'huán' }));
+
+      await DuplicateService.check(1, { chineseCharacter: '还', chapter: 2, pinyin: 'huán' }, 'update');
+
+      expect(ExampleSentenceService.refreshPinyin).toHaveBeenCalledWith(1, '还');
+    });
+
+    it('should not refresh the sentence pinyin when the reading stays the same', async () => {
+      mockVocabularyEntryDAO.findByCharacter.mockResolvedValue([makeEntry('v1', '你好', 1)]);
+      mockVocabularyEntryDAO.update.mockResolvedValue(makeEntry('v1', '你好', 1, { englishMeaning: 'hi there' }));
+
+      await DuplicateService.check(1, input, 'update');
+
+      expect(ExampleSentenceService.refreshPinyin).not.toHaveBeenCalled();
+    });
+
+    it('should let the word be created again when keeping both', async () => {
+      mockVocabularyEntryDAO.findByCharacter.mockResolvedValue([makeEntry('v1', '你好', 1)]);
+
+      const result = await DuplicateService.check(1, input, 'keepBoth');
+
+      expect(result.outcome).toBe('create');
+    });
+  });
+
+  describe('findDuplicates', () => {
+    it('should group words that appear more than once, earliest chapter first', async () => {
+      mockVocabularyEntryDAO.findByUserId.mockResolvedValue([
+        makeEntry('v1', '谢谢', 4),
+        makeEntry('v2', '你好', 3),
+        makeEntry('v3', '再见', 1),
+        makeEntry('v4', '谢谢', 2),
+        makeEntry('v5', '你好 ', 1)
+      ]);
+
+      const groups = await DuplicateService.findDuplicates(1);
+
+      expect(groups.map(group => group.chineseCharacter)).toEqual(['你好', '谢谢']);
+      expect(groups[0].entries.map(entry => entry.id)).toEqual(['v5', 'v2']);
+      expect(groups[1].entries.map(entry => entry.id)).toEqual(['v4', 'v1']);
+    });
+  });
+
+  describe('mergeFields', () => {
+    it('should keep the earliest chapter and join distinct meanings', () => {
+      const merged = DuplicateService.mergeFields([
+        makeEntry('v1', '你好', 1, { englishMeaning: 'hello', modernVietnamese: 'xin chào', learningNote: 'greeting' }),
+        makeEntry('v2', '你好', 3, { englishMeaning: 'hi', modernVietnamese: 'xin chào', chapterLabel: 'Review', isFavorite: true })
+      ]);
+
+      expect(merged).toEqual({
+        pinyin: 'nǐ hǎo',
+        chapter: 1,
+        chapterLabel: 'Review',
+        isFavorite: true,
+        hanVietnamese: '',
+        modernVietnamese: 'xin chào',
+        englishMeaning: 'hello; hi',
+        learningNote: 'greeting'
+      });
+    });
+  });
+
+  describe('merge', () => {
+    it('should keep the earliest entry, move review history to it and delete the others', async () => {
+      const later = makeEntry('v2', '你好', 3, { englishMeaning: 'hi' });
+      const earliest = makeEntry('v1', '你好', 1, { englishMeaning: 'hello' });
+      mockVocabularyEntryDAO.findById.mockImplementation(async (_userId, id) => (id === 'v1' ? earliest : later));
+      mockVocabularyEntryDAO.update.mockResolvedValue({ ...earliest, englishMeaning: 'hello; hi' });
+
+      const merged = await DuplicateService.merge(1, ['v2', 'v1'], 7);
+
+      expect(mockVocabularyEntryDAO.update).toHaveBeenCalledWith(1, 'v1', expect.objectContaining({ englishMeaning: 'hello; hi', chapter: 1 }), 7);
+      expect(mockReviewStateDAO.moveToVocabulary).toHaveBeenCalledWith(['v2'], 'v1');
+      expect(mockVocabularyEntryDAO.delete).toHaveBeenCalledWith(1, 'v2', 7);
+      expect(mockVocabularyEntryDAO.delete).toHaveBeenCalledTimes(1);
+      expect(merged.englishMeaning).toBe('hello; hi');
+    });
+
+    it('should refuse to merge different words', async () => {
+      mockVocabularyEntryDAO.findById.mockImplementation(async (_userId, id) =>
+        (id === 'v1' ? makeEntry('v1', '你好', 1) : makeEntry('v2', '谢谢', 2)));
+
+      await expect(DuplicateService.merge(1, ['v1', 'v2'])).rejects.toThrow('same Chinese characters');
+      expect(mockVocabularyEntryDAO.delete).not.toHaveBeenCalled();
+    });
+
+    it('should require at least two entries', async () => {
+      await expect(DuplicateService.merge(1, ['v1', 'v1'])).rejects.toThrow('At least two entries');
+    });
+
+    it('should throw for an unknown entry', async () => {
+      mockVocabularyEntryDAO.findById.mockResolvedValue(null);
+
+      await expect(DuplicateService.merge(1, ['v1', 'v2'])).rejects.toThrow('not found');
+    });
+  });
+});
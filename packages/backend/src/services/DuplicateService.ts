@@ -0,0 +1,187 @@
+/**
+ * DuplicateService
+ *
+ * Keeps a user's vocabulary free of accidental duplicates (the same chinese_character more than once).
+ * Adding a word that already exists is resolved with a DuplicateAction:
+ * - skip: keep the existing entry, add nothing
+ * - update: write the new non-empty values into the existing entry (its chapter is kept)
+ * - keepBoth: add the word anyway
+ *
+ * Existing duplicates are reported per word and can be merged into the entry with the earliest chapter.
+ */
+
+import { VocabularyEntryDAO, VocabularyEntry, VocabularyInput } from '../models/VocabularyEntry';
+import { ReviewStateDAO } from '../models/ReviewState';
+import { ExampleSentenceService } from './ExampleSentenceService';
+
+export type DuplicateAction = 'skip' | 'update' | 'keepBoth';
+
+export const DUPLICATE_ACTIONS: DuplicateAction[] = ['skip', 'update', 'keepBoth'];
+
+/**
+ * Result of checking a new word against the existing vocabulary
+ * - create: no duplicate (or keepBoth), the caller creates the entry
+ * - skipped / updated: the existing entry was kept or updated, see `entry`
+ * - duplicate: the word exists and no action was given
+ */
+export interface DuplicateCheck {
+  outcome: 'create' | 'skipped' | 'updated' | 'duplicate';
+  existing: VocabularyEntry[];
+  entry?: VocabularyEntry;
+}
+
+/**
+ * All entries of one word, earliest chapter first
+ */
+export interface DuplicateGroup {
+  chineseCharacter: string;
+  entries: VocabularyEntry[];
+}
+
+// Fields that are combined when merging; meanings are joined, pinyin keeps the first value
+const JOINED_FIELDS: { field: 'hanVietnamese' | 'modernVietnamese' | 'englishMeaning' | 'learningNote'; separator: string }[] = [
+  { field: 'hanVietnamese', separator: '; ' },
+  { field: 'modernVietnamese', separator: '; ' },
+  { field: 'englishMeaning', separator: '; ' },
+  { field: 'learningNote', separator: '\n' }
+];
+
+/**
+ * DuplicateService class for duplicate checks, reports and merges
+ */
+export class DuplicateService {
+  /**
+   * Check a new word against the user's vocabulary and apply the duplicate action
+   * @param userId - Owner user ID
+   * @param input - Word to add
+   * @param action - What to do if the word exists (undefined: report it as a duplicate)
+   * @param changedBy - User adding the word, for the edit history of an updated entry
+   */
+  static async check(userId: number, input: VocabularyInput, action?: DuplicateAction, changedBy?: number): Promise<DuplicateCheck> {
+    const existing = await VocabularyEntryDAO.findByCharacter(userId, input.chineseCharacter.trim());
+
+    if (existing.length === 0 || action === 'keepBoth') {
+      return { outcome: 'create', existing };
+    }
+
+    if (action === 'skip') {
+      return { outcome: 'skipped', existing, entry: existing[0] };
+    }
+
+    if (action === 'update') {
+      const updates: Partial<VocabularyInput> = {};
+      for (const field of ['pinyin', 'hanVietnamese', 'modernVietnamese', 'englishMeaning', 'learningNote', 'chapterLabel'] as const) {
+        const value = input[field];
+        if (value !== undefined && value.trim() !== '') {
+          updates[field] = value;
+        }
+      }
+      const entry = await VocabularyEntryDAO.update(userId, existing[0].id, updates, changedBy);
+
+      // A new reading carries over to the sentences using the word, as when editing the entry
+      if (entry && entry.pinyin !== existing[0].pinyin) {
+        await ExampleSentenceService.refreshPinyin(userId, entry.chineseCharacter);
+      }
+      return { outcome: 'updated', existing, entry: entry || existing[0] };
+    }
+
+    return { outcome: 'duplicate', existing };
+  }
+
+  /**
+   * Find the words a user has more than once
+   * @param userId - Owner user ID
+   * @returns One group per word, in order of its earliest chapter
+   */
+  static async findDuplicates(userId: number): Promise<DuplicateGroup[]> {
+    const groups = new Map<string, VocabularyEntry[]>();
+
+    for (const entry of await VocabularyEntryDAO.findByUserId(userId)) {
+      const key = entry.chineseCharacter.trim();
+      const group = groups.get(key);
+      if (group) {
+        group.push(entry);
+      } else {
+        groups.set(key, [entry]);
+      }
+    }
+
+    return Array.from(groups.entries())
+      .filter(([, entries]) => entries.length > 1)
+      .map(([chineseCharacter, entries]) => ({ chineseCharacter, entries: entries.sort(this.compareEarliest) }))
+      .sort((a, b) => this.compareEarliest(a.entries[0], b.entries[0]));
+  }
+
+  /**
+   * Combine the fields of duplicate entries
+   * The earliest entry's pinyin, chapter and label win; distinct meanings and notes are joined in
+   * chapter order, and the word is a favorite if any of the entries was.
+   * @param entries - Entries of one word, earliest first
+   */
+  static mergeFields(entries: VocabularyEntry[]): Partial<VocabularyInput> {
+    const [kept] = entries;
+    const merged: Partial<VocabularyInput> = {
+      pinyin: entries.find(entry => entry.pinyin)?.pinyin || kept.pinyin,
+      chapter: kept.chapter,
+      chapterLabel: kept.chapterLabel || entries.find(entry => entry.chapterLabel)?.chapterLabel,
+      isFavorite: entries.some(entry => entry.isFavorite)
+    };
+
+    for (const { field, separator } of JOINED_FIELDS) {
+      const values: string[] = [];
+      for (const entry of entries) {
+        const value = entry[field]?.trim();
+        if (value && !values.includes(value)) {
+          values.push(value);
+        }
+      }
+      merged[field] = values.join(separator);
+    }
+
+    return merged;
+  }
+
+  /**
+   * Merge duplicate entries into the one with the earliest chapter
+   * Review history of the removed entries moves to the kept entry.
+   * @param userId - Owner user ID
+   * @param ids - IDs of at least two entries of the same word
+   * @param changedBy - User merging the entries, for the edit history
+   * @returns The kept entry with the combined fields
+   */
+  static async merge(userId: number, ids: string[], changedBy?: number): Promise<VocabularyEntry> {
+    const uniqueIds = Array.from(new Set(ids));
+    if (uniqueIds.length < 2) {
+      throw new Error('At least two entries are required to merge');
+    }
+
+    const entries: VocabularyEntry[] = [];
+    for (const id of uniqueIds) {
+      const entry = await VocabularyEntryDAO.findById(userId, id);
+      if (!entry) {
+        throw new Error(`Vocabulary entry ${id} not found`);
+      }
+      entries.push(entry);
+    }
+
+    if (new Set(entries.map(entry => entry.chineseCharacter.trim())).size > 1) {
+      throw new Error('Only entries with the same Chinese characters can be merged');
+    }
+
+    entries.sort(this.compareEarliest);
+    const [kept, ...removed] = entries;
+    const removedIds = removed.map(entry => entry.id);
+
+    const merged = await VocabularyEntryDAO.update(userId, kept.id, this.mergeFields(entries), changedBy);
+    await ReviewStateDAO.moveToVocabulary(removedIds, kept.id);
+    for (const id of removedIds) {
+      await VocabularyEntryDAO.delete(userId, id, changedBy);
+    }
+
+    return merged || kept;
+  }
+
+  private static compareEarliest(a: VocabularyEntry, b: VocabularyEntry): number {
+    return a.chapter - b.chapter || new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * ExampleSentenceService Tests
+ *
+ * Unit tests for example sentence lookups and indexing the words of older sentences.
+ */
+
+import { ExampleSentenceService } from './ExampleSentenceService';
+import { PreGeneratedSentenceDAO, ExampleSentence } from '../models/PreGeneratedSentence';
+import { SentenceWordDAO } from '../models/SentenceWord';
+import { VocabularyEntryDAO, VocabularyEntry } from '../models/VocabularyEntry';
+
+jest.mock('../models/PreGeneratedSentence');
+jest.mock('../models/SentenceWord');
+jest.mock('../models/VocabularyEntry');
+
+const mockSentenceDAO = PreGeneratedSentenceDAO as jest.Mocked<typeof PreGeneratedSentenceDAO>;
+const mockSentenceWordDAO = SentenceWordDAO as jest.Mocked<typeof SentenceWordDAO>;
+const mockVocabularyEntryDAO = VocabularyEntryDAO as jest.Mocked<typeof VocabularyEntryDAO>;
+
+describe('ExampleSentenceService', () => {
+  const entry = { id: 'v1', userId: 1, chineseCharacter: '喜欢', chapter: 3 } as VocabularyEntry;
+  const example: ExampleSentence = {
+    id: 's-1',
+    userId: 1,
+    vocabGroupId: 2,
+    chineseText: '我喜欢茶。',
+    pinyin: 'wǒ xǐ huan chá.',
+    usedCharacters: ['我', '喜欢', '茶'],
+    generationTimestamp: new Date('2026-10-01'),
+    newWordCount: 0
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getExamples', () => {
+    it('should look up sentences for the word and chapter of the entry', async () => {
+      mockVocabularyEntryDAO.findById.mockResolvedValue(entry);
+      mockSentenceDAO.findExamples.mockResolvedValue([example]);
+
+      await expect(ExampleSentenceService.getExamples(1, 'v1')).resolves.toEqual([example]);
+      expect(mockSentenceDAO.findExamples).toHaveBeenCalledWith(1, '喜欢', 3, 3);
+    });
+
+    it('should pass the limit on', async () => {
+      mockVocabularyEntryDAO.findById.mockResolvedValue(entry);
+      mockSentenceDAO.findExamples.mockResolvedValue([]);
+
+      await ExampleSentenceService.getExamples(1, 'v1', 10);
+
+      expect(mockSentenceDAO.findExamples).toHaveBeenCalledWith(1, '喜欢', 3, 10);
+    });
+
+    it('should throw for an unknown entry', async () => {
+      mockVocabularyEntryDAO.findById.mockResolvedValue(null);
+
+      await expect(ExampleSentenceService.getExamples(1, 'missing')).rejects.toThrow('Vocabulary entry not found');
+      expect(mockSentenceDAO.findExamples).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refreshPinyin', () => {
+    it('should regenerate the pinyin with the stored readings of the words', async () => {
+      const sentence = { ...example, chineseText: '我觉得好。', pinyin: 'wǒ jué dé hǎo.', usedCharacters: ['我', '觉得', '好'] };
+      mockSentenceDAO.findByWord.mockResolvedValue([sentence]);
+      mockVocabularyEntryDAO.findReadings.mockResolvedValue(new Map([['觉得', 'jué de']]));
+
+      const changed = await ExampleSentenceService.refreshPinyin(1, '觉得');
+
+      expect(changed).toBe(1);
+      expect(mockVocabularyEntryDAO.findReadings).toHaveBeenCalledWith(1, ['我', '觉得', '好']);
+      expect(mockSentenceDAO.updatePinyin).toHaveBeenCalledWith('s-1', expect.stringContaining('jué de'));
+    });
+
+    it('should do nothing when no sentence uses the word', async () => {
+      mockSentenceDAO.findByWord.mockResolvedValue([]);
+
+      await expect(ExampleSentenceService.refreshPinyin(1, '觉得')).resolves.toBe(0);
+      expect(mockVocabularyEntryDAO.findReadings).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('indexUnindexedSentences', () => {
+    it('should index the sentences that use words', async () => {
+      mockSentenceWordDAO.findUnindexed.mockResolvedValue([
+        { id: 's-1', userId: 1, usedCharacters: ['我', '喜欢'] },
+        { id: 's-2', userId: 1, usedCharacters: [] }
+      ]);
+
+      const indexed = await ExampleSentenceService.indexUnindexedSentences();
+
+      expect(indexed).toBe(1);
+      expect(mockSentenceWordDAO.index).toHaveBeenCalledWith([{ id: 's-1', userId: 1, usedCharacters: ['我', '喜欢'] }]);
+    });
+  });
+});
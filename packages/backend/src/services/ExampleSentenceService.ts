@@ -0,0 +1,78 @@
+/**
+ * ExampleSentenceService
+ *
+ * Example sentences for a vocabulary word, taken from the pre-generated practice sentences. Sentences are
+ * linked to the words they use in sentence_words when they are stored, and the examples easiest to read
+ * for the word (fewest other new words, then shortest) are picked from there. The same links keep the
+ * pinyin of the sentences in step when the reading of a word changes.
+ */
+
+import { PreGeneratedSentenceDAO, ExampleSentence } from '../models/PreGeneratedSentence';
+import { SentenceWordDAO } from '../models/SentenceWord';
+import { VocabularyEntryDAO } from '../models/VocabularyEntry';
+import { PinyinUtils } from './PinyinUtils';
+
+/**
+ * ExampleSentenceService class for example sentence lookups
+ */
+export class ExampleSentenceService {
+  static readonly DEFAULT_LIMIT = 3;
+  static readonly MAX_LIMIT = 20;
+
+  /**
+   * Find example sentences using a vocabulary entry's word
+   * @param userId - Owner user ID
+   * @param vocabularyId - Entry ID
+   * @param limit - Number of sentences to return
+   * @throws Error when the entry does not exist
+   */
+  static async getExamples(
+    userId: number,
+    vocabularyId: string,
+    limit: number = this.DEFAULT_LIMIT
+  ): Promise<ExampleSentence[]> {
+    const entry = await VocabularyEntryDAO.findById(userId, vocabularyId);
+    if (!entry) {
+      throw new Error('Vocabulary entry not found');
+    }
+
+    return PreGeneratedSentenceDAO.findExamples(userId, entry.chineseCharacter, entry.chapter, limit);
+  }
+
+  /**
+   * Regenerate the pinyin of the sentences using a word, after the word's reading changed
+   * Every vocabulary word in the sentences is read as its entry says.
+   * @returns Number of sentences whose pinyin changed
+   */
+  static async refreshPinyin(userId: number, word: string): Promise<number> {
+    const sentences = await PreGeneratedSentenceDAO.findByWord(userId, word);
+    if (sentences.length === 0) {
+      return 0;
+    }
+
+    const words = Array.from(new Set(sentences.flatMap(sentence => sentence.usedCharacters)));
+    const readings = await VocabularyEntryDAO.findReadings(userId, words);
+
+    let changed = 0;
+    for (const sentence of sentences) {
+      const pinyin = PinyinUtils.sentencePinyin(sentence.chineseText, readings);
+      if (pinyin !== sentence.pinyin) {
+        await PreGeneratedSentenceDAO.updatePinyin(sentence.id, pinyin);
+        changed++;
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Index the words of sentences that have no word links yet
+   * Run at startup, for sentences generated before the links existed.
+   * @returns Number of sentences indexed
+   */
+  static async indexUnindexedSentences(): Promise<number> {
+    // Sentences without any word have nothing to index
+    const sentences = (await SentenceWordDAO.findUnindexed()).filter(sentence => sentence.usedCharacters.length > 0);
+    await SentenceWordDAO.index(sentences);
+    return sentences.length;
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * ExpressionService Tests
+ *
+ * Unit tests for expression validation, component characters and character lookups.
+ */
+
+import { ExpressionService } from './ExpressionService';
+import { VocabularyEntryDAO, VocabularyEntry } from '../models/VocabularyEntry';
+import { VocabularyCharacterDAO, componentCharacters } from '../models/VocabularyCharacter';
+
+jest.mock('../models/VocabularyEntry');
+jest.mock('../models/VocabularyCharacter', () => ({
+  ...jest.requireActual('../models/VocabularyCharacter'),
+  VocabularyCharacterDAO: {
+    link: jest.fn(),
+    findUnlinked: jest.fn()
+  }
+}));
+
+const mockVocabularyEntryDAO = VocabularyEntryDAO as jest.Mocked<typeof VocabularyEntryDAO>;
+const mockVocabularyCharacterDAO = VocabularyCharacterDAO as jest.Mocked<typeof VocabularyCharacterDAO>;
+
+describe('ExpressionService', () => {
+  const makeEntry = (id: string, chineseCharacter: string, chapter: number): VocabularyEntry => ({
+    id,
+    userId: 1,
+    username: 'parent',
+    chineseCharacter,
+    pinyin: '',
+    chapter,
+    createdAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01')
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('componentCharacters', () => {
+    it('should return the distinct characters in order', () => {
+      expect(componentCharacters('一心一意')).toEqual(['一', '心', '意']);
+    });
+
+    it('should leave out the pattern placeholder and punctuation', () => {
+      expect(componentCharacters('越。。。越')).toEqual(['越']);
+      expect(componentCharacters('因为。。。所以。。。')).toEqual(['因', '为', '所', '以']);
+      expect(componentCharacters('A型!')).toEqual(['型']);
+    });
+
+    it('should keep characters outside the basic block', () => {
+      expect(componentCharacters('𠮷野家')).toEqual(['𠮷', '野', '家']);
+    });
+  });
+
+  describe('isPattern', () => {
+    it('should detect the 。。。 placeholder', () => {
+      expect(ExpressionService.isPattern('越。。。越')).toBe(true);
+      expect(ExpressionService.isPattern('画蛇添足')).toBe(false);
+    });
+  });
+
+  describe('validate', () => {
+    it('should accept chengyu and long expressions', () => {
+      expect(() => ExpressionService.validate('画蛇添足')).not.toThrow();
+      expect(() => ExpressionService.validate('不管三七二十一')).not.toThrow();
+      expect(() => ExpressionService.validate('一方面。。。另一方面。。。')).not.toThrow();
+    });
+
+    it('should reject expressions longer than the column', () => {
+      expect(() => ExpressionService.validate('好'.repeat(65))).toThrow('at most 64 characters');
+    });
+
+    it('should count characters outside the basic block once', () => {
+      expect(() => ExpressionService.validate('𠮷'.repeat(64))).not.toThrow();
+    });
+
+    it('should reject a placeholder without characters', () => {
+      expect(() => ExpressionService.validate('。。。')).toThrow('pattern');
+    });
+  });
+
+  describe('lookupCharacter', () => {
+    it('should return the entries of the character and the expressions containing it', async () => {
+      const entries = [makeEntry('v1', '心', 1)];
+      const expressions = [makeEntry('v2', '小心', 2), makeEntry('v3', '一心一意', 4)];
+      mockVocabularyEntryDAO.findByCharacter.mockResolvedValue(entries);
+      mockVocabularyEntryDAO.findContainingCharacter.mockResolvedValue(expressions);
+
+      const result = await ExpressionService.lookupCharacter(1, ' 心 ');
+
+      expect(result).toEqual({ character: '心', entries, expressions });
+      expect(mockVocabularyEntryDAO.findByCharacter).toHaveBeenCalledWith(1, '心');
+      expect(mockVocabularyEntryDAO.findContainingCharacter).toHaveBeenCalledWith(1, '心');
+    });
+
+    it('should reject words and non-Chinese text', async () => {
+      await expect(ExpressionService.lookupCharacter(1, '小心')).rejects.toThrow('single Chinese character');
+      await expect(ExpressionService.lookupCharacter(1, 'a')).rejects.toThrow('single Chinese character');
+    });
+  });
+
+  describe('linkUnlinkedEntries', () => {
+    it('should link entries that have Chinese characters', async () => {
+      mockVocabularyCharacterDAO.findUnlinked.mockResolvedValue([
+        { id: 'v1', userId: 1, chineseCharacter: '一石二鸟' },
+        { id: 'v2', userId: 2, chineseCharacter: 'OK' }
+      ]);
+
+      const linked = await ExpressionService.linkUnlinkedEntries();
+
+      expect(linked).toBe(1);
+      expect(mockVocabularyCharacterDAO.link).toHaveBeenCalledTimes(1);
+      expect(mockVocabularyCharacterDAO.link).toHaveBeenCalledWith(1, 'v1', '一石二鸟');
+    });
+  });
+});
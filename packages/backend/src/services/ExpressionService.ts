@@ -0,0 +1,83 @@
+/**
+ * ExpressionService
+ *
+ * Multi-character vocabulary: words, chengyu and grammar patterns with a 。。。 placeholder (越。。。越,
+ * 因为。。。所以). Every entry is linked to the characters it is written with, so looking up a single
+ * character shows each expression it appears in.
+ */
+
+import { VocabularyEntryDAO, VocabularyEntry, MAX_CHINESE_CHARACTER_LENGTH } from '../models/VocabularyEntry';
+import { VocabularyCharacterDAO, componentCharacters } from '../models/VocabularyCharacter';
+
+/**
+ * A character with the user's entries for it and the expressions containing it
+ */
+export interface CharacterExpressions {
+  character: string;
+  entries: VocabularyEntry[];     // single-character entries of the character itself
+  expressions: VocabularyEntry[]; // words, chengyu and patterns that contain it
+}
+
+/**
+ * ExpressionService class for expression validation and character lookups
+ */
+export class ExpressionService {
+  // Stands for the free part of a grammar pattern, as used by AITextGenerator
+  static readonly PATTERN_PLACEHOLDER = '。。。';
+
+  /**
+   * Whether a vocabulary entry is a grammar pattern
+   */
+  static isPattern(chineseCharacter: string): boolean {
+    return chineseCharacter.includes(this.PATTERN_PLACEHOLDER);
+  }
+
+  /**
+   * Check that a word, chengyu or pattern fits the vocabulary
+   * Throws with a message suitable for a 400 response.
+   */
+  static validate(chineseCharacter: string): void {
+    const text = chineseCharacter.trim();
+    if (Array.from(text).length > MAX_CHINESE_CHARACTER_LENGTH) {
+      throw new Error(`chineseCharacter must be at most ${MAX_CHINESE_CHARACTER_LENGTH} characters`);
+    }
+    if (this.isPattern(text) && componentCharacters(text).length === 0) {
+      throw new Error('A pattern needs Chinese characters around the 。。。 placeholder');
+    }
+  }
+
+  /**
+   * Look up a character in a user's vocabulary
+   * @param userId - Owner user ID
+   * @param character - A single Chinese character
+   */
+  static async lookupCharacter(userId: number, character: string): Promise<CharacterExpressions> {
+    const components = componentCharacters(character);
+    if (components.length !== 1 || Array.from(character.trim()).length !== 1) {
+      throw new Error('character must be a single Chinese character');
+    }
+
+    const [entries, expressions] = await Promise.all([
+      VocabularyEntryDAO.findByCharacter(userId, components[0]),
+      VocabularyEntryDAO.findContainingCharacter(userId, components[0])
+    ]);
+
+    return { character: components[0], entries, expressions };
+  }
+
+  /**
+   * Link the entries that have no character links yet
+   * Run at startup and after a backup restore, which write vocabulary_entries directly.
+   * @returns Number of entries linked
+   */
+  static async linkUnlinkedEntries(): Promise<number> {
+    let linked = 0;
+    for (const entry of await VocabularyCharacterDAO.findUnlinked()) {
+      if (componentCharacters(entry.chineseCharacter).length > 0) {
+        await VocabularyCharacterDAO.link(entry.userId, entry.id, entry.chineseCharacter);
+        linked++;
+      }
+    }
+    return linked;
+  }
+}
@@ -7,22 +7,32 @@
 
 import { FlashcardEngine, FlashcardMode, Flashcard, FlashcardAnswer } from './FlashcardEngine';
 import { VocabularyEntryDAO, VocabularyEntry } from '../models/VocabularyEntry';
+import { ReviewStateDAO, ReviewState } from '../models/ReviewState';
+import { FlashcardSessionDAO, FlashcardSession } from '../models/FlashcardSession';
 import { ChapterFilter, ChapterRange } from './ChapterFilter';
+import { ttsService } from './TTSService';
 
 // Mock dependencies
 jest.mock('../models/VocabularyEntry');
+jest.mock('../models/ReviewState');
+jest.mock('../models/FlashcardSession');
 jest.mock('./ChapterFilter');
+jest.mock('./TTSService');
 
 const mockVocabularyEntryDAO = VocabularyEntryDAO as jest.Mocked<typeof VocabularyEntryDAO>;
+const mockReviewStateDAO = ReviewStateDAO as jest.Mocked<typeof ReviewStateDAO>;
+const mockFlashcardSessionDAO = FlashcardSessionDAO as jest.Mocked<typeof FlashcardSessionDAO>;
 const mockChapterFilter = ChapterFilter as jest.Mocked<typeof ChapterFilter>;
+const mockTtsService = ttsService as jest.Mocked<typeof ttsService>;
 
 describe('FlashcardEngine', () => {
-  const testUsername = 'testuser';
+  const testUserId = 1;
   const testChapterRange: ChapterRange = { start: 1, end: 5 };
 
   const mockVocabularyEntry: VocabularyEntry = {
     id: 'vocab-123',
-    username: testUsername,
+    userId: testUserId,
+    username: 'testuser',
     chineseCharacter: '你好',
     pinyin: 'nǐ hǎo',
     hanVietnamese: 'nhĩ hảo',
@@ -34,9 +44,33 @@ describe('FlashcardEngine', () => {
     updatedAt: new Date()
   };
 
+  // In-memory stand-in for the flashcard_sessions table
+  let sessions: Map<string, FlashcardSession>;
+  let sessionCounter: number;
+
   beforeEach(() => {
     jest.clearAllMocks();
-    FlashcardEngine.clearCache();
+    sessions = new Map();
+    sessionCounter = 0;
+    mockFlashcardSessionDAO.create.mockImplementation(async (userId, input) => {
+      const session: FlashcardSession = {
+        id: `flashcard-${++sessionCounter}`,
+        userId,
+        vocabularyId: input.vocabularyId,
+        mode: input.mode,
+        correctOption: input.correctOption,
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + 86400 * 1000)
+      };
+      sessions.set(session.id, session);
+      return session;
+    });
+    mockFlashcardSessionDAO.findActiveById.mockImplementation(async (id) => sessions.get(id) || null);
+    mockFlashcardSessionDAO.delete.mockImplementation(async (id) => sessions.delete(id));
+    mockFlashcardSessionDAO.deleteExpired.mockResolvedValue(0);
+    mockReviewStateDAO.findByVocabularyIds.mockResolvedValue([]);
+    mockReviewStateDAO.find.mockResolvedValue(null);
+    mockReviewStateDAO.save.mockImplementation(async (state: ReviewState) => state);
   });
 
   describe('getNextCard', () => {
@@ -48,7 +82,8 @@ describe('FlashcardEngine', () => {
 
       // Act
       const flashcard = await FlashcardEngine.getNextCard(
-        testUsername,
+        testUserId,
+        testUserId,
         FlashcardMode.ChineseToMeanings,
         testChapterRange
       );
@@ -59,8 +94,8 @@ describe('FlashcardEngine', () => {
       expect(flashcard.question.displayText).toBe('你好');
       expect(flashcard.question.fieldType).toBe('chinese');
       expect(flashcard.vocabularyId).toBe('vocab-123');
-      expect(mockChapterFilter.validateRange).toHaveBeenCalledWith(testUsername, testChapterRange);
-      expect(mockChapterFilter.getVocabularyInRange).toHaveBeenCalledWith(testUsername, testChapterRange);
+      expect(mockChapterFilter.validateRange).toHaveBeenCalledWith(testUserId, testChapterRange);
+      expect(mockChapterFilter.getVocabularyInRange).toHaveBeenCalledWith(testUserId, testChapterRange, undefined);
     });
 
     it('should return a flashcard with English question for EnglishToChinese mode', async () => {
@@ -71,7 +106,8 @@ describe('FlashcardEngine', () => {
 
       // Act
       const flashcard = await FlashcardEngine.getNextCard(
-        testUsername,
+        testUserId,
+        testUserId,
         FlashcardMode.EnglishToChinese,
         testChapterRange
       );
@@ -90,7 +126,8 @@ describe('FlashcardEngine', () => {
 
       // Act
       const flashcard = await FlashcardEngine.getNextCard(
-        testUsername,
+        testUserId,
+        testUserId,
         FlashcardMode.VietnameseToChinese,
         testChapterRange
       );
@@ -101,13 +138,86 @@ describe('FlashcardEngine', () => {
       expect(flashcard.question.fieldType).toBe('vietnamese');
     });
 
+    it('should return a flashcard with only a TTS URL for AudioToMeaning mode', async () => {
+      // Arrange
+      mockChapterFilter.validateRange.mockResolvedValue(true);
+      mockChapterFilter.getVocabularyInRange.mockResolvedValue(['vocab-123']);
+      mockVocabularyEntryDAO.findById.mockResolvedValue(mockVocabularyEntry);
+      mockTtsService.pronounce.mockResolvedValue({ audioUrl: '/audio/abc.mp3', format: 'mp3', duration: 1 });
+
+      // Act
+      const flashcard = await FlashcardEngine.getNextCard(
+        testUserId,
+        testUserId,
+        FlashcardMode.AudioToMeaning,
+        testChapterRange
+      );
+
+      // Assert
+      expect(flashcard.mode).toBe(FlashcardMode.AudioToMeaning);
+      expect(flashcard.question).toEqual({ displayText: '', fieldType: 'audio', audioUrl: '/audio/abc.mp3' });
+      expect(mockTtsService.pronounce).toHaveBeenCalledWith('你好');
+    });
+
+    it('should not issue a flashcard when audio generation fails', async () => {
+      // Arrange
+      mockChapterFilter.validateRange.mockResolvedValue(true);
+      mockChapterFilter.getVocabularyInRange.mockResolvedValue(['vocab-123']);
+      mockVocabularyEntryDAO.findById.mockResolvedValue(mockVocabularyEntry);
+      mockTtsService.pronounce.mockRejectedValue(new Error('Failed to generate pronunciation: timeout'));
+
+      // Act & Assert
+      await expect(
+        FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.AudioToMeaning, testChapterRange)
+      ).rejects.toThrow('Failed to generate pronunciation');
+      expect(mockFlashcardSessionDAO.create).not.toHaveBeenCalled();
+    });
+
+    it('should return a flashcard with pinyin question for PinyinToChinese mode', async () => {
+      // Arrange
+      mockChapterFilter.validateRange.mockResolvedValue(true);
+      mockChapterFilter.getVocabularyInRange.mockResolvedValue(['vocab-123']);
+      mockVocabularyEntryDAO.findById.mockResolvedValue(mockVocabularyEntry);
+
+      // Act
+      const flashcard = await FlashcardEngine.getNextCard(
+        testUserId,
+        testUserId,
+        FlashcardMode.PinyinToChinese,
+        testChapterRange
+      );
+
+      // Assert
+      expect(flashcard.question.displayText).toBe('nǐ hǎo');
+      expect(flashcard.question.fieldType).toBe('pinyin');
+    });
+
+    it('should return a flashcard with Hán-Việt question for HanVietnameseToChinese mode', async () => {
+      // Arrange
+      mockChapterFilter.validateRange.mockResolvedValue(true);
+      mockChapterFilter.getVocabularyInRange.mockResolvedValue(['vocab-123']);
+      mockVocabularyEntryDAO.findById.mockResolvedValue(mockVocabularyEntry);
+
+      // Act
+      const flashcard = await FlashcardEngine.getNextCard(
+        testUserId,
+        testUserId,
+        FlashcardMode.HanVietnameseToChinese,
+        testChapterRange
+      );
+
+      // Assert
+      expect(flashcard.question.displayText).toBe('nhĩ hảo');
+      expect(flashcard.question.fieldType).toBe('hanVietnamese');
+    });
+
     it('should throw error when chapter range is invalid', async () => {
       // Arrange
       mockChapterFilter.validateRange.mockResolvedValue(false);
 
       // Act & Assert
       await expect(
-        FlashcardEngine.getNextCard(testUsername, FlashcardMode.ChineseToMeanings, testChapterRange)
+        FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.ChineseToMeanings, testChapterRange)
       ).rejects.toThrow('Invalid chapter range or no vocabulary available');
     });
 
@@ -118,10 +228,34 @@ describe('FlashcardEngine', () => {
 
       // Act & Assert
       await expect(
-        FlashcardEngine.getNextCard(testUsername, FlashcardMode.ChineseToMeanings, testChapterRange)
+        FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.ChineseToMeanings, testChapterRange)
       ).rejects.toThrow('No vocabulary found in specified chapter range');
     });
 
+    it('should only pick words that have the field the question shows', async () => {
+      mockChapterFilter.validateRange.mockResolvedValue(true);
+      mockChapterFilter.getVocabularyInRange.mockResolvedValue(['vocab-123']);
+      mockVocabularyEntryDAO.findById.mockResolvedValue(mockVocabularyEntry);
+
+      await FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.HanVietnameseToChinese, testChapterRange);
+      await FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.EnglishToChineseTyped, testChapterRange);
+      await FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.VietnameseToChinese, testChapterRange);
+
+      expect(mockChapterFilter.getVocabularyInRange).toHaveBeenNthCalledWith(1, testUserId, testChapterRange, 'hanVietnamese');
+      expect(mockChapterFilter.getVocabularyInRange).toHaveBeenNthCalledWith(2, testUserId, testChapterRange, 'englishMeaning');
+      expect(mockChapterFilter.getVocabularyInRange).toHaveBeenNthCalledWith(3, testUserId, testChapterRange, 'modernVietnamese');
+    });
+
+    it('should throw error when no word in range has the field the question shows', async () => {
+      mockChapterFilter.validateRange.mockResolvedValue(true);
+      mockChapterFilter.getVocabularyInRange.mockResolvedValue([]);
+
+      await expect(
+        FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.HanVietnameseToChinese, testChapterRange)
+      ).rejects.toThrow('No vocabulary found in specified chapter range');
+      expect(mockFlashcardSessionDAO.create).not.toHaveBeenCalled();
+    });
+
     it('should throw error when selected vocabulary entry not found', async () => {
       // Arrange
       mockChapterFilter.validateRange.mockResolvedValue(true);
@@ -130,7 +264,7 @@ describe('FlashcardEngine', () => {
 
       // Act & Assert
       await expect(
-        FlashcardEngine.getNextCard(testUsername, FlashcardMode.ChineseToMeanings, testChapterRange)
+        FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.ChineseToMeanings, testChapterRange)
       ).rejects.toThrow('Selected vocabulary entry not found');
     });
 
@@ -143,7 +277,8 @@ describe('FlashcardEngine', () => {
 
       // Act
       const flashcard = await FlashcardEngine.getNextCard(
-        testUsername,
+        testUserId,
+        testUserId,
         FlashcardMode.ChineseToMeanings,
         testChapterRange
       );
@@ -151,7 +286,7 @@ describe('FlashcardEngine', () => {
       // Assert
       expect(flashcard).toBeDefined();
       expect(mockVocabularyEntryDAO.findById).toHaveBeenCalledWith(
-        testUsername,
+        testUserId,
         expect.stringMatching(/vocab-\d/)
       );
     });
@@ -160,7 +295,8 @@ describe('FlashcardEngine', () => {
       // Arrange
       const minimalEntry: VocabularyEntry = {
         id: 'vocab-minimal',
-        username: testUsername,
+        userId: testUserId,
+        username: 'testuser',
         chineseCharacter: '好',
         pinyin: 'hǎo',
         chapter: 1,
@@ -174,7 +310,8 @@ describe('FlashcardEngine', () => {
 
       // Act
       const flashcard = await FlashcardEngine.getNextCard(
-        testUsername,
+        testUserId,
+        testUserId,
         FlashcardMode.EnglishToChinese,
         testChapterRange
       );
@@ -193,13 +330,14 @@ describe('FlashcardEngine', () => {
       mockVocabularyEntryDAO.findById.mockResolvedValue(mockVocabularyEntry);
 
       const flashcard = await FlashcardEngine.getNextCard(
-        testUsername,
+        testUserId,
+        testUserId,
         FlashcardMode.ChineseToMeanings,
         testChapterRange
       );
 
       // Act
-      const answer = await FlashcardEngine.revealAnswer(flashcard.id);
+      const answer = await FlashcardEngine.revealAnswer(testUserId, testUserId, flashcard.id);
 
       // Assert
       expect(answer).toEqual({
@@ -219,13 +357,14 @@ describe('FlashcardEngine', () => {
       mockVocabularyEntryDAO.findById.mockResolvedValue(mockVocabularyEntry);
 
       const flashcard = await FlashcardEngine.getNextCard(
-        testUsername,
+        testUserId,
+        testUserId,
         FlashcardMode.EnglishToChinese,
         testChapterRange
       );
 
       // Act
-      const answer = await FlashcardEngine.revealAnswer(flashcard.id);
+      const answer = await FlashcardEngine.revealAnswer(testUserId, testUserId, flashcard.id);
 
       // Assert
       expect(answer.chinese).toBe('你好');
@@ -239,13 +378,14 @@ describe('FlashcardEngine', () => {
       mockVocabularyEntryDAO.findById.mockResolvedValue(mockVocabularyEntry);
 
       const flashcard = await FlashcardEngine.getNextCard(
-        testUsername,
+        testUserId,
+        testUserId,
         FlashcardMode.VietnameseToChinese,
         testChapterRange
       );
 
       // Act
-      const answer = await FlashcardEngine.revealAnswer(flashcard.id);
+      const answer = await FlashcardEngine.revealAnswer(testUserId, testUserId, flashcard.id);
 
       // Assert
       expect(answer.chinese).toBe('你好');
@@ -255,36 +395,38 @@ describe('FlashcardEngine', () => {
     it('should throw error when flashcard ID not found', async () => {
       // Act & Assert
       await expect(
-        FlashcardEngine.revealAnswer('non-existent-id')
+        FlashcardEngine.revealAnswer(testUserId, testUserId, 'non-existent-id')
       ).rejects.toThrow('Flashcard not found or expired');
     });
 
-    it('should remove flashcard from cache after revealing answer', async () => {
+    it('should keep the flashcard session open after revealing answer so it can be graded', async () => {
       // Arrange
       mockChapterFilter.validateRange.mockResolvedValue(true);
       mockChapterFilter.getVocabularyInRange.mockResolvedValue(['vocab-123']);
       mockVocabularyEntryDAO.findById.mockResolvedValue(mockVocabularyEntry);
 
       const flashcard = await FlashcardEngine.getNextCard(
-        testUsername,
+        testUserId,
+        testUserId,
         FlashcardMode.ChineseToMeanings,
         testChapterRange
       );
 
       // Act
-      await FlashcardEngine.revealAnswer(flashcard.id);
+      await FlashcardEngine.revealAnswer(testUserId, testUserId, flashcard.id);
 
-      // Assert - second call should fail
+      // Assert - grading after reveal still works
       await expect(
-        FlashcardEngine.revealAnswer(flashcard.id)
-      ).rejects.toThrow('Flashcard not found or expired');
+        FlashcardEngine.gradeCard(testUserId, testUserId, flashcard.id, 'good')
+      ).resolves.toMatchObject({ vocabularyId: 'vocab-123', lastGrade: 'good' });
     });
 
     it('should handle answer with undefined optional fields', async () => {
       // Arrange
       const minimalEntry: VocabularyEntry = {
         id: 'vocab-minimal',
-        username: testUsername,
+        userId: testUserId,
+        username: 'testuser',
         chineseCharacter: '好',
         pinyin: 'hǎo',
         chapter: 1,
@@ -297,13 +439,14 @@ describe('FlashcardEngine', () => {
       mockVocabularyEntryDAO.findById.mockResolvedValue(minimalEntry);
 
       const flashcard = await FlashcardEngine.getNextCard(
-        testUsername,
+        testUserId,
+        testUserId,
         FlashcardMode.ChineseToMeanings,
         testChapterRange
       );
 
       // Act
-      const answer = await FlashcardEngine.revealAnswer(flashcard.id);
+      const answer = await FlashcardEngine.revealAnswer(testUserId, testUserId, flashcard.id);
 
       // Assert
       expect(answer.chinese).toBe('好');
@@ -315,29 +458,412 @@ describe('FlashcardEngine', () => {
     });
   });
 
-  describe('clearCache', () => {
-    it('should clear all cached flashcards', async () => {
-      // Arrange
+  describe('spaced repetition selection', () => {
+    const reviewState = (vocabularyId: string, dueAt: Date): ReviewState => ({
+      userId: testUserId,
+      vocabularyId,
+      mode: FlashcardMode.ChineseToMeanings,
+      easeFactor: 2.5,
+      intervalDays: 1,
+      repetitions: 1,
+      lapses: 0,
+      dueAt
+    });
+
+    beforeEach(() => {
+      mockChapterFilter.validateRange.mockResolvedValue(true);
+      mockChapterFilter.getVocabularyInRange.mockResolvedValue(['vocab-1', 'vocab-2', 'vocab-3']);
+      mockVocabularyEntryDAO.findById.mockImplementation(async (_userId, id) => ({ ...mockVocabularyEntry, id }));
+    });
+
+    it('should return the most overdue card first', async () => {
+      mockReviewStateDAO.findByVocabularyIds.mockResolvedValue([
+        reviewState('vocab-1', new Date(Date.now() - 60 * 1000)),
+        reviewState('vocab-2', new Date(Date.now() - 2 * 86400 * 1000)),
+        reviewState('vocab-3', new Date(Date.now() + 86400 * 1000))
+      ]);
+
+      const flashcard = await FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.ChineseToMeanings, testChapterRange);
+
+      expect(flashcard.vocabularyId).toBe('vocab-2');
+      expect(flashcard.queue).toBe('due');
+    });
+
+    it('should return a new card when nothing is due', async () => {
+      mockReviewStateDAO.findByVocabularyIds.mockResolvedValue([
+        reviewState('vocab-1', new Date(Date.now() + 86400 * 1000)),
+        reviewState('vocab-2', new Date(Date.now() + 86400 * 1000))
+      ]);
+
+      const flashcard = await FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.ChineseToMeanings, testChapterRange);
+
+      expect(flashcard.vocabularyId).toBe('vocab-3');
+      expect(flashcard.queue).toBe('new');
+    });
+
+    it('should fall back to practice when every card is scheduled in the future', async () => {
+      mockReviewStateDAO.findByVocabularyIds.mockResolvedValue(
+        ['vocab-1', 'vocab-2', 'vocab-3'].map(id => reviewState(id, new Date(Date.now() + 86400 * 1000)))
+      );
+
+      const flashcard = await FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.ChineseToMeanings, testChapterRange);
+
+      expect(flashcard.queue).toBe('practice');
+    });
+
+    describe("today's session", () => {
+      it('should serve a new card while under the daily limit', async () => {
+        mockReviewStateDAO.findByVocabularyIds.mockResolvedValue([
+          reviewState('vocab-1', new Date(Date.now() + 86400 * 1000))
+        ]);
+        mockReviewStateDAO.countCreatedSince.mockResolvedValue(2);
+
+        const flashcard = await FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.ChineseToMeanings, testChapterRange, 3);
+
+        expect(flashcard.queue).toBe('new');
+        expect(mockReviewStateDAO.countCreatedSince).toHaveBeenCalledWith(
+          testUserId, FlashcardMode.ChineseToMeanings, expect.any(Date)
+        );
+      });
+
+      it('should still serve due cards once the daily limit is reached', async () => {
+        mockReviewStateDAO.findByVocabularyIds.mockResolvedValue([
+          reviewState('vocab-1', new Date(Date.now() - 60 * 1000))
+        ]);
+        mockReviewStateDAO.countCreatedSince.mockResolvedValue(3);
+
+        const flashcard = await FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.ChineseToMeanings, testChapterRange, 3);
+
+        expect(flashcard.vocabularyId).toBe('vocab-1');
+        expect(flashcard.queue).toBe('due');
+      });
+
+      it('should end instead of serving new cards over the limit or practice cards', async () => {
+        mockReviewStateDAO.findByVocabularyIds.mockResolvedValue([
+          reviewState('vocab-1', new Date(Date.now() + 86400 * 1000))
+        ]);
+        mockReviewStateDAO.countCreatedSince.mockResolvedValue(3);
+
+        await expect(
+          FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.ChineseToMeanings, testChapterRange, 3)
+        ).rejects.toThrow("Today's session is complete");
+        expect(mockFlashcardSessionDAO.create).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should look up review state for the requested mode only', async () => {
+      await FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.VietnameseToChinese, testChapterRange);
+
+      expect(mockReviewStateDAO.findByVocabularyIds).toHaveBeenCalledWith(
+        testUserId,
+        FlashcardMode.VietnameseToChinese,
+        ['vocab-1', 'vocab-2', 'vocab-3']
+      );
+    });
+  });
+
+  describe('gradeCard', () => {
+    beforeEach(() => {
       mockChapterFilter.validateRange.mockResolvedValue(true);
       mockChapterFilter.getVocabularyInRange.mockResolvedValue(['vocab-123']);
       mockVocabularyEntryDAO.findById.mockResolvedValue(mockVocabularyEntry);
+    });
+
+    it('should save the rescheduled review state for the card mode', async () => {
+      const flashcard = await FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.EnglishToChinese, testChapterRange);
+
+      const state = await FlashcardEngine.gradeCard(testUserId, testUserId, flashcard.id, 'good');
+
+      expect(state.mode).toBe(FlashcardMode.EnglishToChinese);
+      expect(state.intervalDays).toBe(1);
+      expect(mockReviewStateDAO.find).toHaveBeenCalledWith(testUserId, 'vocab-123', FlashcardMode.EnglishToChinese);
+      expect(mockReviewStateDAO.save).toHaveBeenCalledWith(state);
+    });
+
+    it("should keep a child's review state apart from the owner of the vocabulary", async () => {
+      const childId = testUserId + 1;
+      const flashcard = await FlashcardEngine.getNextCard(testUserId, childId, FlashcardMode.ChineseToMeanings, testChapterRange);
 
+      const state = await FlashcardEngine.gradeCard(testUserId, childId, flashcard.id, 'good');
+
+      expect(mockChapterFilter.getVocabularyInRange).toHaveBeenCalledWith(testUserId, testChapterRange, undefined);
+      expect(mockVocabularyEntryDAO.findById).toHaveBeenCalledWith(testUserId, 'vocab-123');
+      expect(mockReviewStateDAO.findByVocabularyIds).toHaveBeenCalledWith(childId, FlashcardMode.ChineseToMeanings, ['vocab-123']);
+      expect(mockFlashcardSessionDAO.create).toHaveBeenCalledWith(childId, expect.anything(), expect.any(Number));
+      expect(mockReviewStateDAO.find).toHaveBeenCalledWith(childId, 'vocab-123', FlashcardMode.ChineseToMeanings);
+      expect(state.userId).toBe(childId);
+    });
+
+    it('should not allow a card to be graded twice', async () => {
+      const flashcard = await FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.ChineseToMeanings, testChapterRange);
+      await FlashcardEngine.gradeCard(testUserId, testUserId, flashcard.id, 'easy');
+
+      await expect(
+        FlashcardEngine.gradeCard(testUserId, testUserId, flashcard.id, 'easy')
+      ).rejects.toThrow('Flashcard not found or expired');
+    });
+
+    it('should mark the word as favorite when it becomes a leech', async () => {
+      mockReviewStateDAO.find.mockResolvedValue({
+        userId: testUserId,
+        vocabularyId: 'vocab-123',
+        mode: FlashcardMode.ChineseToMeanings,
+        easeFactor: 1.5,
+        intervalDays: 3,
+        repetitions: 2,
+        lapses: 3,
+        dueAt: new Date()
+      });
+      const flashcard = await FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.ChineseToMeanings, testChapterRange);
+
+      const state = await FlashcardEngine.gradeCard(testUserId, testUserId, flashcard.id, 'again');
+
+      expect(state.lapses).toBe(4);
+      expect(mockVocabularyEntryDAO.setFavorite).toHaveBeenCalledWith(testUserId, 'vocab-123', true);
+    });
+
+    it('should not touch favorites for words that are not leeches', async () => {
+      const flashcard = await FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.ChineseToMeanings, testChapterRange);
+
+      await FlashcardEngine.gradeCard(testUserId, testUserId, flashcard.id, 'again');
+
+      expect(mockVocabularyEntryDAO.setFavorite).not.toHaveBeenCalled();
+    });
+
+    it('should reject grading a card issued to another user', async () => {
+      const flashcard = await FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.ChineseToMeanings, testChapterRange);
+
+      await expect(
+        FlashcardEngine.gradeCard(testUserId, testUserId + 1, flashcard.id, 'good')
+      ).rejects.toThrow('Flashcard does not belong to this user');
+      expect(mockReviewStateDAO.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('flashcard sessions', () => {
+    beforeEach(() => {
+      mockChapterFilter.validateRange.mockResolvedValue(true);
+      mockChapterFilter.getVocabularyInRange.mockResolvedValue(['vocab-123']);
+      mockVocabularyEntryDAO.findById.mockResolvedValue(mockVocabularyEntry);
+    });
+
+    it('should store the issued card with user, mode and TTL', async () => {
       const flashcard = await FlashcardEngine.getNextCard(
-        testUsername,
-        FlashcardMode.ChineseToMeanings,
+        testUserId,
+        testUserId,
+        FlashcardMode.VietnameseToChinese,
         testChapterRange
       );
 
-      // Act
-      FlashcardEngine.clearCache();
+      expect(mockFlashcardSessionDAO.create).toHaveBeenCalledWith(
+        testUserId,
+        { vocabularyId: 'vocab-123', mode: FlashcardMode.VietnameseToChinese },
+        24
+      );
+      expect(flashcard.id).toBe('flashcard-1');
+    });
+
+    it('should purge expired sessions when issuing a card', async () => {
+      await FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.ChineseToMeanings, testChapterRange);
+
+      expect(mockFlashcardSessionDAO.deleteExpired).toHaveBeenCalled();
+    });
+
+    it('should reveal a card from a stored session without it being issued in this process', async () => {
+      sessions.set('stored-id', {
+        id: 'stored-id',
+        userId: testUserId,
+        vocabularyId: 'vocab-123',
+        mode: FlashcardMode.ChineseToMeanings,
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + 3600 * 1000)
+      });
+
+      const answer = await FlashcardEngine.revealAnswer(testUserId, testUserId, 'stored-id');
+
+      expect(answer.chinese).toBe('你好');
+      expect(mockVocabularyEntryDAO.findById).toHaveBeenCalledWith(testUserId, 'vocab-123');
+    });
+
+    it('should refuse to reveal a card issued to another user', async () => {
+      const flashcard = await FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.ChineseToMeanings, testChapterRange);
 
-      // Assert
       await expect(
-        FlashcardEngine.revealAnswer(flashcard.id)
+        FlashcardEngine.revealAnswer(testUserId, testUserId + 1, flashcard.id)
+      ).rejects.toThrow('Flashcard does not belong to this user');
+    });
+
+    it('should delete the session once the card is graded', async () => {
+      const flashcard = await FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.ChineseToMeanings, testChapterRange);
+
+      await FlashcardEngine.gradeCard(testUserId, testUserId, flashcard.id, 'good');
+
+      expect(mockFlashcardSessionDAO.delete).toHaveBeenCalledWith(flashcard.id);
+      await expect(
+        FlashcardEngine.revealAnswer(testUserId, testUserId, flashcard.id)
       ).rejects.toThrow('Flashcard not found or expired');
     });
   });
 
+  describe('checkTypedAnswer', () => {
+    beforeEach(() => {
+      mockChapterFilter.validateRange.mockResolvedValue(true);
+      mockChapterFilter.getVocabularyInRange.mockResolvedValue(['vocab-123']);
+      mockVocabularyEntryDAO.findById.mockResolvedValue(mockVocabularyEntry);
+    });
+
+    it('should show the same question as the self-graded mode', async () => {
+      const flashcard = await FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.EnglishToChineseTyped, testChapterRange);
+
+      expect(flashcard.question).toEqual({ displayText: 'hello', fieldType: 'english' });
+    });
+
+    it('should grade an exact pinyin answer as good', async () => {
+      const flashcard = await FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.EnglishToChineseTyped, testChapterRange);
+
+      const outcome = await FlashcardEngine.checkTypedAnswer(testUserId, testUserId, flashcard.id, 'ni3 hao3');
+
+      expect(outcome.result).toBe('exact');
+      expect(outcome.grade).toBe('good');
+      expect(outcome.reviewState.mode).toBe(FlashcardMode.EnglishToChineseTyped);
+      expect(mockReviewStateDAO.save).toHaveBeenCalledWith(outcome.reviewState);
+      expect(mockFlashcardSessionDAO.delete).toHaveBeenCalledWith(flashcard.id);
+    });
+
+    it('should grade a tone-wrong answer as hard', async () => {
+      const flashcard = await FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.VietnameseToChineseTyped, testChapterRange);
+
+      const outcome = await FlashcardEngine.checkTypedAnswer(testUserId, testUserId, flashcard.id, 'nǐ hāo');
+
+      expect(outcome.result).toBe('tone-wrong');
+      expect(outcome.grade).toBe('hard');
+      expect(outcome.syllables[1].status).toBe('tone-wrong');
+    });
+
+    it('should grade a wrong hanzi answer as again', async () => {
+      const flashcard = await FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.VietnameseToChineseTyped, testChapterRange);
+
+      const outcome = await FlashcardEngine.checkTypedAnswer(testUserId, testUserId, flashcard.id, '你们');
+
+      expect(outcome.result).toBe('wrong');
+      expect(outcome.grade).toBe('again');
+      expect(outcome.reviewState.intervalDays).toBe(0);
+    });
+
+    it('should reject typed answers for self-graded modes', async () => {
+      const flashcard = await FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.EnglishToChinese, testChapterRange);
+
+      await expect(
+        FlashcardEngine.checkTypedAnswer(testUserId, testUserId, flashcard.id, 'ni3 hao3')
+      ).rejects.toThrow('Flashcard mode does not accept typed answers');
+      expect(mockReviewStateDAO.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('multiple choice', () => {
+    const candidates = [
+      { id: 'vocab-2', chineseCharacter: '你们', pinyin: 'nǐ men', englishMeaning: 'you (plural)', modernVietnamese: 'các bạn' },
+      { id: 'vocab-3', chineseCharacter: '好吃', pinyin: 'hǎo chī', englishMeaning: 'delicious', modernVietnamese: 'ngon' },
+      { id: 'vocab-4', chineseCharacter: '再见', pinyin: 'zài jiàn', englishMeaning: 'goodbye', modernVietnamese: 'tạm biệt' },
+      { id: 'vocab-5', chineseCharacter: '谢谢', pinyin: 'xiè xie', englishMeaning: 'thank you', modernVietnamese: 'cảm ơn' }
+    ];
+
+    beforeEach(() => {
+      mockChapterFilter.validateRange.mockResolvedValue(true);
+      mockChapterFilter.getVocabularyInRange.mockResolvedValue(['vocab-123']);
+      mockChapterFilter.getDistractorCandidates.mockResolvedValue(candidates);
+      mockVocabularyEntryDAO.findById.mockResolvedValue(mockVocabularyEntry);
+    });
+
+    it('should return 4 options including the correct word', async () => {
+      const flashcard = await FlashcardEngine.getNextCard(
+        testUserId,
+        testUserId,
+        FlashcardMode.EnglishToChineseMultipleChoice,
+        testChapterRange
+      );
+
+      expect(flashcard.question).toEqual({ displayText: 'hello', fieldType: 'english' });
+      expect(flashcard.options).toHaveLength(4);
+      expect(flashcard.options!.map(o => o.index)).toEqual([0, 1, 2, 3]);
+      expect(flashcard.options!.map(o => o.text)).toContain('你好');
+      expect(mockChapterFilter.getDistractorCandidates).toHaveBeenCalledWith(testUserId, testChapterRange, 'vocab-123');
+    });
+
+    it('should store the correct option in the session without returning it', async () => {
+      const flashcard = await FlashcardEngine.getNextCard(
+        testUserId,
+        testUserId,
+        FlashcardMode.EnglishToChineseMultipleChoice,
+        testChapterRange
+      );
+
+      const correctIndex = flashcard.options!.find(o => o.text === '你好')!.index;
+      expect(sessions.get(flashcard.id)!.correctOption).toBe(correctIndex);
+      expect(flashcard).not.toHaveProperty('correctOption');
+    });
+
+    it('should show meanings as options when the question is Chinese', async () => {
+      const flashcard = await FlashcardEngine.getNextCard(
+        testUserId,
+        testUserId,
+        FlashcardMode.ChineseToMeaningsMultipleChoice,
+        testChapterRange
+      );
+
+      expect(flashcard.question.displayText).toBe('你好');
+      expect(flashcard.options!.map(o => o.text)).toContain('xin chào / hello');
+    });
+
+    it('should check the selected option on reveal', async () => {
+      const flashcard = await FlashcardEngine.getNextCard(
+        testUserId,
+        testUserId,
+        FlashcardMode.VietnameseToChineseMultipleChoice,
+        testChapterRange
+      );
+      const correctIndex = flashcard.options!.find(o => o.text === '你好')!.index;
+      const wrongIndex = (correctIndex + 1) % 4;
+
+      const right = await FlashcardEngine.revealAnswer(testUserId, testUserId, flashcard.id, correctIndex);
+      const wrong = await FlashcardEngine.revealAnswer(testUserId, testUserId, flashcard.id, wrongIndex);
+
+      expect(right).toMatchObject({ correctOption: correctIndex, selectedOption: correctIndex, isCorrect: true });
+      expect(wrong).toMatchObject({ correctOption: correctIndex, selectedOption: wrongIndex, isCorrect: false });
+    });
+
+    it('should reject an option out of range', async () => {
+      const flashcard = await FlashcardEngine.getNextCard(
+        testUserId,
+        testUserId,
+        FlashcardMode.EnglishToChineseMultipleChoice,
+        testChapterRange
+      );
+
+      await expect(
+        FlashcardEngine.revealAnswer(testUserId, testUserId, flashcard.id, 4)
+      ).rejects.toThrow('Invalid option');
+    });
+
+    it('should reject a selected option for cards that are not multiple choice', async () => {
+      const flashcard = await FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.EnglishToChinese, testChapterRange);
+
+      expect(flashcard.options).toBeUndefined();
+      await expect(
+        FlashcardEngine.revealAnswer(testUserId, testUserId, flashcard.id, 0)
+      ).rejects.toThrow('Flashcard mode is not multiple choice');
+    });
+
+    it('should throw when the range has too few distinct words', async () => {
+      mockChapterFilter.getDistractorCandidates.mockResolvedValue(candidates.slice(0, 2));
+
+      await expect(
+        FlashcardEngine.getNextCard(testUserId, testUserId, FlashcardMode.EnglishToChineseMultipleChoice, testChapterRange)
+      ).rejects.toThrow('Not enough vocabulary for multiple choice');
+      expect(mockFlashcardSessionDAO.create).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Integration with ChapterFilter', () => {
     it('should use ChapterFilter to validate range before generating flashcard', async () => {
       // Arrange
@@ -347,14 +873,15 @@ describe('FlashcardEngine', () => {
 
       // Act
       await FlashcardEngine.getNextCard(
-        testUsername,
+        testUserId,
+        testUserId,
         FlashcardMode.ChineseToMeanings,
         testChapterRange
       );
 
       // Assert
-      expect(mockChapterFilter.validateRange).toHaveBeenCalledWith(testUsername, testChapterRange);
-      expect(mockChapterFilter.getVocabularyInRange).toHaveBeenCalledWith(testUsername, testChapterRange);
+      expect(mockChapterFilter.validateRange).toHaveBeenCalledWith(testUserId, testChapterRange);
+      expect(mockChapterFilter.getVocabularyInRange).toHaveBeenCalledWith(testUserId, testChapterRange, undefined);
     });
 
     it('should use ChapterFilter to get vocabulary IDs in range', async () => {
@@ -365,15 +892,17 @@ describe('FlashcardEngine', () => {
 
       // Act
       await FlashcardEngine.getNextCard(
-        testUsername,
+        testUserId,
+        testUserId,
         FlashcardMode.ChineseToMeanings,
         testChapterRange
       );
 
       // Assert
       expect(mockChapterFilter.getVocabularyInRange).toHaveBeenCalledWith(
-        testUsername,
-        testChapterRange
+        testUserId,
+        testChapterRange,
+        undefined
       );
     });
   });
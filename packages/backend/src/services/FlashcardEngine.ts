@@ -2,12 +2,29 @@
  * FlashcardEngine Service
  * 
  * Manages flashcard presentation logic and vocabulary selection.
- * Supports three flashcard modes: Chinese→Meanings, English→Chinese, Vietnamese→Chinese.
+ * Supports flashcard modes: Chinese→Meanings, English→Chinese, Vietnamese→Chinese,
+ * Audio→Meaning, Pinyin→Chinese and Hán-Việt→Chinese,
+ * plus typed-answer variants of English→Chinese and Vietnamese→Chinese graded by AnswerChecker,
+ * and multiple-choice variants of all three directions with distractors from DistractorSelector.
+ * Cards are picked by spaced repetition: due cards first, then new cards.
+ * In today's session (see StudyService) new cards are capped per day and the session ends when the queue is empty.
+ * Words that keep lapsing are flagged as leeches (see LeechDetector).
+ * Issued cards are stored in flashcard_sessions so they survive restarts.
+ * Review state and sessions belong to the learner, who may study someone else's vocabulary
+ * (a child studying their parent's words): each learner keeps their own schedule.
  */
 
 import { VocabularyEntryDAO, VocabularyEntry } from '../models/VocabularyEntry';
-import { ChapterFilter, ChapterRange } from './ChapterFilter';
-import { v4 as uuidv4 } from 'uuid';
+import { ReviewStateDAO, ReviewState, ReviewGrade } from '../models/ReviewState';
+import { FlashcardSessionDAO, FlashcardSession } from '../models/FlashcardSession';
+import { ChapterFilter, ChapterScope, OptionalField } from './ChapterFilter';
+import { DistractorSelector, OptionField } from './DistractorSelector';
+import { ReviewScheduler } from './ReviewScheduler';
+import { LeechDetector } from './LeechDetector';
+import { StudyService } from './StudyService';
+import { AnswerChecker, TypedAnswerCheck, TypedAnswerResult } from './AnswerChecker';
+import { ttsService } from './TTSService';
+import { config } from '../config/env';
 
 /**
  * Flashcard mode enumeration
@@ -15,15 +32,65 @@ import { v4 as uuidv4 } from 'uuid';
 export enum FlashcardMode {
   ChineseToMeanings = 'ChineseToMeanings',
   EnglishToChinese = 'EnglishToChinese',
-  VietnameseToChinese = 'VietnameseToChinese'
+  VietnameseToChinese = 'VietnameseToChinese',
+  EnglishToChineseTyped = 'EnglishToChineseTyped',
+  VietnameseToChineseTyped = 'VietnameseToChineseTyped',
+  ChineseToMeaningsMultipleChoice = 'ChineseToMeaningsMultipleChoice',
+  EnglishToChineseMultipleChoice = 'EnglishToChineseMultipleChoice',
+  VietnameseToChineseMultipleChoice = 'VietnameseToChineseMultipleChoice',
+  AudioToMeaning = 'AudioToMeaning',
+  PinyinToChinese = 'PinyinToChinese',
+  HanVietnameseToChinese = 'HanVietnameseToChinese'
 }
 
+/**
+ * Modes where the learner types the answer instead of grading themselves
+ */
+const TYPED_MODES: string[] = [FlashcardMode.EnglishToChineseTyped, FlashcardMode.VietnameseToChineseTyped];
+
+/**
+ * Multiple-choice modes and what their options show
+ */
+const MULTIPLE_CHOICE_FIELDS: Partial<Record<string, OptionField>> = {
+  [FlashcardMode.ChineseToMeaningsMultipleChoice]: 'meaning',
+  [FlashcardMode.EnglishToChineseMultipleChoice]: 'chinese',
+  [FlashcardMode.VietnameseToChineseMultipleChoice]: 'chinese'
+};
+
+/**
+ * Modes asking for a field a word may lack; only words where it is filled in are picked
+ */
+const QUESTION_FIELDS: Partial<Record<string, OptionalField>> = {
+  [FlashcardMode.EnglishToChinese]: 'englishMeaning',
+  [FlashcardMode.EnglishToChineseTyped]: 'englishMeaning',
+  [FlashcardMode.EnglishToChineseMultipleChoice]: 'englishMeaning',
+  [FlashcardMode.VietnameseToChinese]: 'modernVietnamese',
+  [FlashcardMode.VietnameseToChineseTyped]: 'modernVietnamese',
+  [FlashcardMode.VietnameseToChineseMultipleChoice]: 'modernVietnamese',
+  [FlashcardMode.HanVietnameseToChinese]: 'hanVietnamese'
+};
+
+/**
+ * Number of options on a multiple-choice card (the answer plus distractors)
+ */
+export const MULTIPLE_CHOICE_OPTION_COUNT = 4;
+
+/**
+ * Review grade given automatically for each typed answer result
+ */
+const TYPED_RESULT_GRADES: Record<TypedAnswerResult, ReviewGrade> = {
+  exact: 'good',
+  'tone-wrong': 'hard',
+  wrong: 'again'
+};
+
 /**
  * Flashcard question interface
  */
 export interface FlashcardQuestion {
   displayText: string;
-  fieldType: 'chinese' | 'english' | 'vietnamese';
+  fieldType: 'chinese' | 'english' | 'vietnamese' | 'audio' | 'pinyin' | 'hanVietnamese';
+  audioUrl?: string; // audio mode only; displayText is empty so the word is not shown
 }
 
 /**
@@ -36,8 +103,27 @@ export interface FlashcardAnswer {
   modernVietnamese?: string;
   englishMeaning?: string;
   learningNote?: string;
+  correctOption?: number;   // multiple-choice cards only
+  selectedOption?: number;  // when an option was submitted
+  isCorrect?: boolean;      // when an option was submitted
 }
 
+/**
+ * Option on a multiple-choice flashcard
+ */
+export interface FlashcardOption {
+  index: number;
+  text: string;
+}
+
+/**
+ * Why a card was picked:
+ * - due: previously reviewed and due for review now
+ * - new: never reviewed in this mode
+ * - practice: nothing due or new, extra practice on a random card
+ */
+export type FlashcardQueue = 'due' | 'new' | 'practice';
+
 /**
  * Flashcard interface
  */
@@ -46,81 +132,126 @@ export interface Flashcard {
   mode: FlashcardMode;
   question: FlashcardQuestion;
   vocabularyId: string;
+  queue: FlashcardQueue;
+  options?: FlashcardOption[]; // multiple-choice cards only
+}
+
+/**
+ * Result of checking a typed answer, with the review state it was graded into
+ */
+export interface TypedAnswerOutcome extends TypedAnswerCheck {
+  grade: ReviewGrade;
+  reviewState: ReviewState;
 }
 
 /**
  * FlashcardEngine class for managing flashcard presentation
  */
 export class FlashcardEngine {
-  private static flashcardCache: Map<string, VocabularyEntry> = new Map();
-
   /**
-   * Get next flashcard for specified mode and chapter range
-   * @param userId - Owner user ID
+   * Get next flashcard for specified mode and chapter range or selection
+   * @param ownerId - Owner of the vocabulary
+   * @param learnerId - User studying it, whose review state and daily limit are used
    * @param mode - Flashcard mode
-   * @param chapterRange - Chapter range for vocabulary selection
+   * @param chapterRange - Chapter range or selection (chapter lists, labels, favorites, exclusions)
+   * @param dailyNewLimit - Serve today's session only: due cards plus up to this many new cards per day (optional)
    * @returns Flashcard with question
    */
   static async getNextCard(
-    userId: number,
+    ownerId: number,
+    learnerId: number,
     mode: FlashcardMode,
-    chapterRange: ChapterRange
+    chapterRange: ChapterScope,
+    dailyNewLimit?: number
   ): Promise<Flashcard> {
     // Validate chapter range
-    const isValid = await ChapterFilter.validateRange(userId, chapterRange);
+    const isValid = await ChapterFilter.validateRange(ownerId, chapterRange);
     if (!isValid) {
       throw new Error('Invalid chapter range or no vocabulary available');
     }
 
-    // Get vocabulary IDs in range
-    const vocabularyIds = await ChapterFilter.getVocabularyInRange(userId, chapterRange);
+    // Get vocabulary IDs in range, leaving out words without the field the question shows
+    const vocabularyIds = await ChapterFilter.getVocabularyInRange(ownerId, chapterRange, QUESTION_FIELDS[mode]);
     
     if (vocabularyIds.length === 0) {
       throw new Error('No vocabulary found in specified chapter range');
     }
 
-    // Select random vocabulary ID
-    const randomIndex = Math.floor(Math.random() * vocabularyIds.length);
-    const selectedId = vocabularyIds[randomIndex];
+    // Pick due cards first, then new cards, then random practice
+    const reviewStates = await ReviewStateDAO.findByVocabularyIds(learnerId, mode, vocabularyIds);
+    const newCardsLeft = dailyNewLimit !== undefined
+      ? await StudyService.newCardsLeftToday(learnerId, mode, dailyNewLimit)
+      : undefined;
+    const selected = this.selectCard(vocabularyIds, reviewStates, newCardsLeft);
+    if (!selected) {
+      throw new Error("Today's session is complete");
+    }
+    const { vocabularyId: selectedId, queue } = selected;
 
     // Fetch vocabulary entry
-    const entry = await VocabularyEntryDAO.findById(userId, selectedId);
+    const entry = await VocabularyEntryDAO.findById(ownerId, selectedId);
     
     if (!entry) {
       throw new Error('Selected vocabulary entry not found');
     }
 
-    // Generate flashcard ID and cache the entry
-    const flashcardId = uuidv4();
-    this.flashcardCache.set(flashcardId, entry);
+    // Multiple-choice cards get shuffled options; the right index is kept on the server
+    const optionField = MULTIPLE_CHOICE_FIELDS[mode];
+    const choice = optionField
+      ? await this.buildOptions(ownerId, chapterRange, entry, optionField)
+      : undefined;
 
-    // Format question based on mode
-    const question = this.formatQuestion(entry, mode);
+    // Format question based on mode (before issuing, so a failed TTS call leaves no session behind)
+    const question = await this.formatQuestion(entry, mode);
 
-    return {
-      id: flashcardId,
+    // Drop sessions that were never graded, then issue a new one
+    await FlashcardSessionDAO.deleteExpired();
+    const session = await FlashcardSessionDAO.create(
+      learnerId,
+      { vocabularyId: entry.id, mode, correctOption: choice?.correctOption },
+      config.flashcard.sessionTtlHours
+    );
+
+    const flashcard: Flashcard = {
+      id: session.id,
       mode,
       question,
-      vocabularyId: entry.id
+      vocabularyId: entry.id,
+      queue
     };
+    if (choice) {
+      flashcard.options = choice.options;
+    }
+
+    return flashcard;
   }
 
   /**
    * Reveal answer for current flashcard
+   * @param ownerId - Owner of the vocabulary
+   * @param learnerId - Requesting learner (the flashcard must have been issued to them)
    * @param flashcardId - Flashcard ID
+   * @param selectedOption - Option chosen on a multiple-choice card (optional)
    * @returns Flashcard answer with mode-specific fields
    */
-  static async revealAnswer(flashcardId: string): Promise<FlashcardAnswer> {
-    // Retrieve cached vocabulary entry
-    const entry = this.flashcardCache.get(flashcardId);
-    
+  static async revealAnswer(ownerId: number, learnerId: number, flashcardId: string, selectedOption?: number): Promise<FlashcardAnswer> {
+    const session = await this.getOwnedSession(learnerId, flashcardId);
+
+    if (selectedOption !== undefined) {
+      if (session.correctOption === undefined) {
+        throw new Error('Flashcard mode is not multiple choice');
+      }
+      if (!Number.isInteger(selectedOption) || selectedOption < 0 || selectedOption >= MULTIPLE_CHOICE_OPTION_COUNT) {
+        throw new Error(`Invalid option. Must be between 0 and ${MULTIPLE_CHOICE_OPTION_COUNT - 1}`);
+      }
+    }
+
+    const entry = await VocabularyEntryDAO.findById(ownerId, session.vocabularyId);
     if (!entry) {
-      throw new Error('Flashcard not found or expired');
+      throw new Error('Flashcard vocabulary entry not found');
     }
 
-    // Format answer based on the flashcard mode (inferred from entry)
-    // Since we don't store mode with cache, we return all relevant fields
-    // and let the client decide what to display based on their mode
+    // Return all relevant fields and let the client decide what to display based on their mode
     const answer: FlashcardAnswer = {
       chinese: entry.chineseCharacter,
       pinyin: entry.pinyin,
@@ -130,48 +261,218 @@ export class FlashcardEngine {
       learningNote: entry.learningNote
     };
 
-    // Clean up cache after revealing answer
-    this.flashcardCache.delete(flashcardId);
+    if (session.correctOption !== undefined) {
+      answer.correctOption = session.correctOption;
+      if (selectedOption !== undefined) {
+        answer.selectedOption = selectedOption;
+        answer.isCorrect = selectedOption === session.correctOption;
+      }
+    }
 
+    // The session stays open until the card is graded (see gradeCard)
     return answer;
   }
 
+  /**
+   * Grade a flashcard and reschedule its next review
+   * Words that become leeches are marked as favorites in the owner's vocabulary.
+   * @param ownerId - Owner of the vocabulary
+   * @param learnerId - Learner the flashcard was issued to, whose review state is updated
+   * @param flashcardId - Flashcard ID
+   * @param grade - Review grade
+   * @returns Updated review state
+   */
+  static async gradeCard(ownerId: number, learnerId: number, flashcardId: string, grade: ReviewGrade): Promise<ReviewState> {
+    const session = await this.getOwnedSession(learnerId, flashcardId);
+
+    const previous = await ReviewStateDAO.find(learnerId, session.vocabularyId, session.mode);
+    const next = ReviewScheduler.schedule(learnerId, session.vocabularyId, session.mode, previous, grade);
+    await ReviewStateDAO.save(next);
+    await LeechDetector.handleReview(ownerId, next);
+
+    // A card can only be graded once
+    await FlashcardSessionDAO.delete(flashcardId);
+
+    return next;
+  }
+
+  /**
+   * Check a typed answer and grade the flashcard from the result
+   * exact → good, tone-wrong → hard, wrong → again
+   * @param ownerId - Owner of the vocabulary
+   * @param learnerId - Learner the flashcard was issued to
+   * @param flashcardId - Flashcard ID (must be a typed-answer mode)
+   * @param answer - Hanzi or pinyin typed by the learner
+   * @returns Check result and updated review state
+   */
+  static async checkTypedAnswer(ownerId: number, learnerId: number, flashcardId: string, answer: string): Promise<TypedAnswerOutcome> {
+    const session = await this.getOwnedSession(learnerId, flashcardId);
+
+    if (!TYPED_MODES.includes(session.mode)) {
+      throw new Error('Flashcard mode does not accept typed answers');
+    }
+
+    const entry = await VocabularyEntryDAO.findById(ownerId, session.vocabularyId);
+    if (!entry) {
+      throw new Error('Flashcard vocabulary entry not found');
+    }
+
+    const check = AnswerChecker.checkTypedAnswer(entry.chineseCharacter, entry.pinyin, answer);
+    const grade = TYPED_RESULT_GRADES[check.result];
+    const reviewState = await this.gradeCard(ownerId, learnerId, flashcardId, grade);
+
+    return { ...check, grade, reviewState };
+  }
+
+  /**
+   * Load an active flashcard session and check that it was issued to the learner
+   * @param userId - Requesting learner ID
+   * @param flashcardId - Flashcard ID
+   * @returns Flashcard session
+   */
+  private static async getOwnedSession(userId: number, flashcardId: string): Promise<FlashcardSession> {
+    const session = await FlashcardSessionDAO.findActiveById(flashcardId);
+
+    if (!session) {
+      throw new Error('Flashcard not found or expired');
+    }
+
+    if (session.userId !== userId) {
+      throw new Error('Flashcard does not belong to this user');
+    }
+
+    return session;
+  }
+
+  /**
+   * Build the options of a multiple-choice card
+   * @param userId - Owner user ID
+   * @param chapterRange - Chapter range or selection the distractors are drawn from
+   * @param entry - Vocabulary entry of the correct answer
+   * @param field - What the options show
+   * @returns Shuffled options and the index of the correct one
+   */
+  private static async buildOptions(
+    userId: number,
+    chapterRange: ChapterScope,
+    entry: VocabularyEntry,
+    field: OptionField
+  ): Promise<{ options: FlashcardOption[]; correctOption: number }> {
+    const candidates = await ChapterFilter.getDistractorCandidates(userId, chapterRange, entry.id);
+    const distractors = DistractorSelector.pick(entry, candidates, field, MULTIPLE_CHOICE_OPTION_COUNT - 1);
+
+    if (distractors.length < MULTIPLE_CHOICE_OPTION_COUNT - 1) {
+      throw new Error(`Not enough vocabulary for multiple choice (need ${MULTIPLE_CHOICE_OPTION_COUNT} distinct words in range)`);
+    }
+
+    const texts = [entry, ...distractors].map(word => DistractorSelector.optionText(word, field));
+
+    // Fisher-Yates shuffle of option positions; position of index 0 is the correct option
+    const order = texts.map((_, i) => i);
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+
+    return {
+      options: order.map((textIndex, index) => ({ index, text: texts[textIndex] })),
+      correctOption: order.indexOf(0)
+    };
+  }
+
+  /**
+   * Select the next card from the vocabulary in range
+   * @param vocabularyIds - Vocabulary IDs in range
+   * @param reviewStates - Review states of those IDs in the current mode
+   * @param newCardsLeft - New cards still allowed today; when set, no practice cards are served (today's session)
+   * @returns Selected vocabulary ID and the queue it came from, or null when today's session is complete
+   */
+  private static selectCard(
+    vocabularyIds: string[],
+    reviewStates: ReviewState[],
+    newCardsLeft?: number
+  ): { vocabularyId: string; queue: FlashcardQueue } | null {
+    const now = Date.now();
+
+    // Most overdue card first
+    const due = reviewStates
+      .filter(state => new Date(state.dueAt).getTime() <= now)
+      .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+    if (due.length > 0) {
+      return { vocabularyId: due[0].vocabularyId, queue: 'due' };
+    }
+
+    const reviewedIds = new Set(reviewStates.map(state => state.vocabularyId));
+    const unseen = vocabularyIds.filter(id => !reviewedIds.has(id));
+    if (unseen.length > 0 && (newCardsLeft === undefined || newCardsLeft > 0)) {
+      return { vocabularyId: unseen[Math.floor(Math.random() * unseen.length)], queue: 'new' };
+    }
+
+    if (newCardsLeft !== undefined) {
+      return null;
+    }
+
+    return {
+      vocabularyId: vocabularyIds[Math.floor(Math.random() * vocabularyIds.length)],
+      queue: 'practice'
+    };
+  }
+
   /**
    * Format question based on flashcard mode
    * @param entry - Vocabulary entry
    * @param mode - Flashcard mode
    * @returns Formatted question
    */
-  private static formatQuestion(entry: VocabularyEntry, mode: FlashcardMode): FlashcardQuestion {
+  private static async formatQuestion(entry: VocabularyEntry, mode: FlashcardMode): Promise<FlashcardQuestion> {
     switch (mode) {
       case FlashcardMode.ChineseToMeanings:
+      case FlashcardMode.ChineseToMeaningsMultipleChoice:
         return {
           displayText: entry.chineseCharacter,
           fieldType: 'chinese'
         };
       
       case FlashcardMode.EnglishToChinese:
+      case FlashcardMode.EnglishToChineseTyped:
+      case FlashcardMode.EnglishToChineseMultipleChoice:
         return {
           displayText: entry.englishMeaning || '',
           fieldType: 'english'
         };
       
       case FlashcardMode.VietnameseToChinese:
+      case FlashcardMode.VietnameseToChineseTyped:
+      case FlashcardMode.VietnameseToChineseMultipleChoice:
         return {
           displayText: entry.modernVietnamese || '',
           fieldType: 'vietnamese'
         };
+
+      case FlashcardMode.AudioToMeaning: {
+        const audio = await ttsService.pronounce(entry.chineseCharacter);
+        return {
+          displayText: '',
+          fieldType: 'audio',
+          audioUrl: audio.audioUrl
+        };
+      }
+
+      case FlashcardMode.PinyinToChinese:
+        return {
+          displayText: entry.pinyin,
+          fieldType: 'pinyin'
+        };
+
+      case FlashcardMode.HanVietnameseToChinese:
+        return {
+          displayText: entry.hanVietnamese || '',
+          fieldType: 'hanVietnamese'
+        };
       
       default:
         throw new Error(`Unsupported flashcard mode: ${mode}`);
     }
   }
 
-  /**
-   * Clear expired flashcards from cache
-   * This method can be called periodically to prevent memory leaks
-   */
-  static clearCache(): void {
-    this.flashcardCache.clear();
-  }
 }
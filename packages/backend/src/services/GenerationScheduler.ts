@@ -72,7 +72,7 @@ export class GenerationScheduler {
       const { getPool } = await import('../config/database');
       const pool = getPool();
       const [users]: any = await pool.query(
-        `SELECT DISTINCT au.id, au.username FROM vocabulary_entries ve JOIN auth_users au ON ve.user_id = au.id WHERE au.role IN ('admin', 'parent')`
+        `SELECT DISTINCT au.id, au.username FROM vocabulary_entries ve JOIN auth_users au ON ve.user_id = au.id WHERE au.role IN ('admin', 'parent') AND ve.deleted_at IS NULL`
       );
       
       console.log(`[GenerationScheduler] Generating sentences for ${users.length} users`);
@@ -0,0 +1,65 @@
+/**
+ * HanVietService Tests
+ *
+ * Unit tests for Hán-Việt readings from the bundled table.
+ */
+
+import { HanVietService } from './HanVietService';
+import { PRIMARY_READINGS, OTHER_READINGS } from './HanVietTable';
+
+describe('HanVietService', () => {
+  describe('readingsOf', () => {
+    it('should return the readings of a character, the most common first', () => {
+      expect(HanVietService.readingsOf('学')).toEqual(['học']);
+      expect(HanVietService.readingsOf('行')).toEqual(['hành', 'hàng', 'hạnh']);
+    });
+
+    it('should return nothing for a character missing from the table', () => {
+      expect(HanVietService.readingsOf('A')).toEqual([]);
+    });
+  });
+
+  describe('toHanViet', () => {
+    it('should read every character of a word', () => {
+      expect(HanVietService.toHanViet('学习')).toBe('học tập');
+      expect(HanVietService.toHanViet('中国')).toBe('trung quốc');
+    });
+
+    it('should write the pattern placeholder as an ellipsis', () => {
+      expect(HanVietService.toHanViet('越。。。越')).toBe('việt … việt');
+    });
+
+    it('should leave words with an unknown character blank', () => {
+      expect(HanVietService.toHanViet('学龘')).toBe('');
+      expect(HanVietService.toHanViet('OK')).toBe('');
+    });
+  });
+
+  describe('candidates', () => {
+    it('should offer every reading of a polyphone', () => {
+      expect(HanVietService.candidates('银行')).toEqual(['ngân hành', 'ngân hàng', 'ngân hạnh']);
+    });
+
+    it('should combine the readings of several polyphones, capped', () => {
+      const candidates = HanVietService.candidates('说说说');
+
+      expect(candidates[0]).toBe('thuyết thuyết thuyết');
+      expect(candidates.length).toBeLessThanOrEqual(10);
+      expect(new Set(candidates).size).toBe(candidates.length);
+    });
+
+    it('should return nothing when the word has a single reading', () => {
+      expect(HanVietService.candidates('学习')).toEqual([]);
+      expect(HanVietService.candidates('学龘')).toEqual([]);
+    });
+  });
+
+  describe('table', () => {
+    it('should list each character under a single primary reading', () => {
+      const characters = Object.values(PRIMARY_READINGS).flatMap(value => Array.from(value));
+
+      expect(new Set(characters).size).toBe(characters.length);
+      expect(Object.keys(OTHER_READINGS).filter(character => !characters.includes(character))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * HanVietService
+ *
+ * Hán-Việt readings looked up per character in the bundled table (HanVietTable), so `hanVietnamese` can be
+ * filled in without any translation service. A word is only read when every character of it is in the
+ * table; a partial reading would be worse than none for the parent checking it.
+ */
+
+import { PRIMARY_READINGS, OTHER_READINGS } from './HanVietTable';
+import { ExpressionService } from './ExpressionService';
+import { PinyinUtils } from './PinyinUtils';
+
+// Most whole-word readings offered for a word with several polyphones
+const MAX_READING_CANDIDATES = 10;
+
+/**
+ * Character → readings, the most common first
+ */
+const READINGS = new Map<string, string[]>();
+for (const [reading, characters] of Object.entries(PRIMARY_READINGS)) {
+  for (const character of Array.from(characters)) {
+    READINGS.set(character, [reading, ...(OTHER_READINGS[character] || [])]);
+  }
+}
+
+/**
+ * HanVietService class with static Hán-Việt lookups
+ */
+export class HanVietService {
+  /**
+   * Readings of a single character, the most common first
+   * @returns Empty array when the character is not in the table
+   */
+  static readingsOf(character: string): string[] {
+    return READINGS.get(character) || [];
+  }
+
+  /**
+   * Readings of each character of a word
+   * The 。。。 placeholder of patterns such as 越。。。越 reads "…"; other non-Chinese text is skipped.
+   * @returns null when a character is not in the table
+   */
+  private static syllableReadings(text: string): string[][] | null {
+    const syllables: string[][] = [];
+    const parts = text.split(ExpressionService.PATTERN_PLACEHOLDER);
+    for (let i = 0; i < parts.length; i++) {
+      if (i > 0) {
+        syllables.push(['…']);
+      }
+      for (const character of PinyinUtils.hanziCharacters(parts[i])) {
+        const readings = this.readingsOf(character);
+        if (readings.length === 0) {
+          return null;
+        }
+        syllables.push(readings);
+      }
+    }
+    return syllables.some(readings => readings[0] !== '…') ? syllables : null;
+  }
+
+  /**
+   * Hán-Việt reading of a word, with the most common reading of each character
+   * @returns Empty string when a character is not in the table
+   */
+  static toHanViet(text: string): string {
+    const syllables = this.syllableReadings(text);
+    return syllables ? syllables.map(readings => readings[0]).join(' ') : '';
+  }
+
+  /**
+   * Whole-word readings when a character has several, the most common first
+   * The list is capped; readings differing in fewer characters come earlier.
+   * @returns Empty array when the word has a single reading or a character is not in the table
+   */
+  static candidates(text: string): string[] {
+    const syllables = this.syllableReadings(text);
+    if (!syllables || syllables.every(readings => readings.length === 1)) {
+      return [];
+    }
+
+    let candidates = [syllables.map(readings => readings[0])];
+    syllables.forEach((readings, index) => {
+      const next = [...candidates];
+      for (const candidate of candidates) {
+        for (const reading of readings.slice(1)) {
+          if (next.length >= MAX_READING_CANDIDATES) break;
+          next.push(candidate.map((syllable, position) => (position === index ? reading : syllable)));
+        }
+      }
+      candidates = next;
+    });
+    return candidates.map(candidate => candidate.join(' '));
+  }
+}
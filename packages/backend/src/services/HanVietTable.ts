@@ -0,0 +1,1078 @@
+/**
+ * HanVietTable
+ *
+ * Bundled Hán-Việt readings of common simplified characters (HSK 1-4 and frequent surnames), used offline
+ * by HanVietService. Each character is listed once, under its most common reading; characters with
+ * several readings have the others in OTHER_READINGS.
+ *
+ * Readings are lowercase, in NFC, with the usual dictionary spelling (kỳ, lý, mỹ, hy).
+ */
+
+/**
+ * Reading → characters read that way first
+ */
+export const PRIMARY_READINGS: Record<string, string> = {
+  // A
+  'a': '阿啊',
+  'ai': '哀埃',
+  'ái': '爱',
+  'ác': '恶',
+  'an': '安',
+  'án': '案按',
+  'anh': '英婴樱',
+  'ảnh': '影',
+  'âm': '音阴',
+  'ẩm': '饮',
+  'ân': '恩',
+  'ẩn': '隐',
+  'ấn': '印',
+  'ấu': '幼',
+  'âu': '欧',
+
+  // B
+  'ba': '巴波吧',
+  'bá': '霸伯',
+  'bà': '婆',
+  'bả': '把',
+  'bách': '百柏',
+  'bạch': '白',
+  'bài': '排牌',
+  'bái': '拜',
+  'bại': '败',
+  'ban': '班般斑颁',
+  'bán': '半',
+  'bản': '本板版',
+  'bạn': '伴',
+  'bang': '邦帮',
+  'bàng': '旁傍',
+  'bảng': '榜',
+  'bao': '包胞',
+  'bào': '袍跑',
+  'báo': '报',
+  'bảo': '保宝堡',
+  'bạo': '暴',
+  'bát': '八',
+  'bạt': '拔',
+  'bắc': '北',
+  'băng': '冰',
+  'bằng': '朋凭',
+  'bần': '贫',
+  'bất': '不',
+  'bế': '闭',
+  'bệ': '陛',
+  'bệnh': '病',
+  'bi': '悲碑',
+  'bí': '秘',
+  'bì': '皮疲',
+  'bỉ': '彼鄙',
+  'bị': '被备',
+  'bích': '壁碧',
+  'biên': '边编',
+  'biến': '变',
+  'biển': '扁',
+  'biện': '辩辨办',
+  'biệt': '别',
+  'biểu': '表',
+  'binh': '兵',
+  'bình': '平评瓶苹',
+  'bính': '丙',
+  'bố': '布怖',
+  'bộ': '部步',
+  'bổ': '补',
+  'bối': '背辈贝',
+  'bội': '倍',
+  'bồi': '陪培赔',
+  'bôi': '杯',
+  'bôn': '奔',
+  'bồn': '盆',
+  'bốc': '卜',
+  'bộc': '仆',
+  'bổng': '棒',
+  'bùi': '裴',
+  'bức': '逼',
+  'bút': '笔',
+  'bưu': '邮',
+
+  // C
+  'ca': '歌哥',
+  'cá': '个',
+  'các': '各阁',
+  'cách': '格隔革',
+  'cai': '该',
+  'cái': '丐',
+  'cải': '改',
+  'cam': '甘',
+  'cảm': '感敢',
+  'can': '干肝竿',
+  'cản': '赶',
+  'cảng': '港',
+  'canh': '更耕',
+  'cảnh': '景境警',
+  'cao': '高膏糕',
+  'cáo': '告',
+  'cảo': '稿',
+  'cát': '吉割',
+  'căn': '根跟',
+  'cấm': '禁',
+  'cầm': '琴擒',
+  'cẩm': '锦',
+  'cân': '斤巾',
+  'cận': '近',
+  'cẩn': '谨',
+  'cấp': '级急给',
+  'cập': '及',
+  'cầu': '求球',
+  'cấu': '构购',
+  'cẩu': '狗苟',
+  'câu': '拘',
+  'cơ': '机基肌',
+  'cô': '姑孤',
+  'cổ': '古鼓股',
+  'cố': '故固顾',
+  'cốc': '谷',
+  'công': '工公功攻',
+  'cộng': '共',
+  'cống': '贡',
+  'cú': '句',
+  'cụ': '具',
+  'cục': '局',
+  'cúc': '菊',
+  'cung': '宫弓供恭',
+  'cùng': '穷',
+  'củng': '巩',
+  'cư': '居',
+  'cự': '巨拒距',
+  'cử': '举',
+  'cứ': '据',
+  'cực': '极',
+  'cước': '脚',
+  'cương': '刚',
+  'cứu': '救究',
+  'cửu': '九久',
+  'cữu': '舅',
+  'cựu': '旧',
+
+  // CH
+  'chẩm': '枕怎',
+  'châm': '针',
+  'chân': '真',
+  'chấn': '震振',
+  'chẩn': '诊',
+  'chất': '质',
+  'châu': '州洲珠',
+  'chi': '之支枝肢',
+  'chí': '志至',
+  'chỉ': '只止指纸址',
+  'chiêm': '占',
+  'chiến': '战',
+  'chiết': '折',
+  'chiêu': '招',
+  'chiếu': '照',
+  'chinh': '征',
+  'chính': '正政',
+  'chỉnh': '整',
+  'chu': '周舟朱',
+  'chú': '注铸',
+  'chủ': '主',
+  'chúc': '祝',
+  'chung': '终钟',
+  'chúng': '众',
+  'chủng': '种',
+  'chuẩn': '准',
+  'chuyên': '专',
+  'chuyển': '转',
+  'chủy': '嘴',
+  'chức': '职织',
+  'chưng': '蒸',
+  'chứng': '证症',
+  'chương': '章',
+  'chướng': '障',
+  'chưởng': '掌',
+
+  // D
+  'dã': '也野',
+  'dạ': '夜',
+  'danh': '名',
+  'dạng': '样',
+  'dao': '摇遥谣',
+  'dân': '民',
+  'dần': '寅',
+  'dẫn': '引',
+  'di': '姨移',
+  'dĩ': '以已',
+  'dị': '异',
+  'dịch': '易译役疫',
+  'diêm': '盐',
+  'diễm': '艳',
+  'diễn': '演',
+  'diện': '面',
+  'diệp': '叶',
+  'diệt': '灭',
+  'diệu': '妙',
+  'do': '由',
+  'doanh': '营赢',
+  'du': '游油悠',
+  'dụ': '诱',
+  'dục': '育欲浴',
+  'dung': '容',
+  'dũng': '勇',
+  'dụng': '用',
+  'duyên': '缘沿',
+  'duyệt': '阅',
+  'dư': '余',
+  'dữ': '与',
+  'dự': '预',
+  'dược': '药跃',
+  'dương': '洋阳羊杨',
+  'dưỡng': '养',
+
+  // Đ
+  'đa': '多',
+  'đà': '陀',
+  'đả': '打',
+  'đái': '戴',
+  'đài': '台',
+  'đại': '大代',
+  'đãi': '待',
+  'đàm': '谈',
+  'đảm': '担胆',
+  'đạm': '淡',
+  'đan': '丹',
+  'đán': '旦',
+  'đàn': '弹',
+  'đản': '但蛋',
+  'đảng': '党',
+  'đao': '刀',
+  'đào': '逃桃淘',
+  'đáo': '到',
+  'đảo': '岛倒',
+  'đạo': '道导盗',
+  'đáp': '答',
+  'đạt': '达',
+  'đắc': '得',
+  'đặc': '特',
+  'đăng': '登灯',
+  'đẳng': '等',
+  'đặng': '邓',
+  'đầu': '头投',
+  'đấu': '斗',
+  'đậu': '豆',
+  'đê': '低堤',
+  'đề': '题提',
+  'để': '底抵',
+  'đế': '帝',
+  'đệ': '弟第递',
+  'đích': '的',
+  'địch': '敌',
+  'địa': '地',
+  'điểm': '点',
+  'điếm': '店',
+  'điền': '田填',
+  'điển': '典',
+  'điện': '电殿',
+  'điệp': '叠蝶',
+  'điều': '条调',
+  'điếu': '钓',
+  'điểu': '鸟',
+  'đinh': '丁',
+  'đình': '停庭亭',
+  'đính': '订',
+  'đỉnh': '顶',
+  'định': '定',
+  'đoàn': '团',
+  'đoản': '短',
+  'đoạn': '段断',
+  'đoạt': '夺',
+  'đô': '都',
+  'đồ': '图途徒',
+  'đổ': '堵赌',
+  'đỗ': '杜',
+  'độ': '度渡',
+  'đốc': '督',
+  'độc': '读独毒',
+  'đối': '对',
+  'đội': '队',
+  'đông': '东冬',
+  'đồng': '同童铜',
+  'đổng': '懂',
+  'đống': '冻栋',
+  'động': '动洞',
+  'đột': '突',
+  'đơn': '单',
+  'đới': '带',
+  'đức': '德',
+  'đương': '当',
+  'đường': '堂唐糖塘',
+
+  // G
+  'gia': '家加嘉佳爷',
+  'giá': '价架驾嫁这',
+  'giả': '假者',
+  'giác': '觉角',
+  'giai': '皆阶',
+  'giải': '解',
+  'gian': '间奸艰',
+  'giản': '简',
+  'giảm': '减',
+  'giang': '江',
+  'giảng': '讲',
+  'giáng': '降',
+  'giao': '交郊',
+  'giáo': '教',
+  'giáp': '甲',
+  'giới': '界介戒',
+
+  // H
+  'hà': '河何荷',
+  'hạ': '下夏',
+  'hạch': '核',
+  'hài': '孩鞋',
+  'hải': '海',
+  'hại': '害',
+  'hàm': '含',
+  'hán': '汉',
+  'hàn': '寒韩',
+  'hãn': '汗',
+  'hạn': '限',
+  'hàng': '航',
+  'hạng': '项',
+  'hành': '行',
+  'hạnh': '幸杏',
+  'hảo': '好',
+  'hào': '豪',
+  'hạp': '盒',
+  'hát': '喝',
+  'hắc': '黑',
+  'hằng': '恒',
+  'hấp': '吸',
+  'hầu': '喉猴',
+  'hậu': '后厚候',
+  'hệ': '系',
+  'hy': '希稀',
+  'hý': '戏',
+  'hỷ': '喜',
+  'hiến': '宪献',
+  'hiền': '贤',
+  'hiểm': '险',
+  'hiện': '现',
+  'hiệp': '协',
+  'hiếu': '孝',
+  'hiểu': '晓',
+  'hiệu': '校效号',
+  'hình': '形型刑',
+  'hoa': '花华',
+  'hòa': '和禾',
+  'hỏa': '火',
+  'hóa': '化货',
+  'họa': '画祸',
+  'hoạch': '划',
+  'hoài': '怀',
+  'hoại': '坏',
+  'hoan': '欢',
+  'hoàn': '完还环',
+  'hoãn': '缓',
+  'hoán': '换唤',
+  'hoạn': '患',
+  'hoang': '荒慌',
+  'hoàng': '皇黄',
+  'hoạt': '活',
+  'hoặc': '或惑',
+  'học': '学',
+  'hô': '呼',
+  'hồ': '湖胡壶',
+  'hổ': '虎',
+  'hộ': '户护互',
+  'hối': '悔',
+  'hồi': '回',
+  'hội': '会',
+  'hôn': '婚昏',
+  'hồng': '红',
+  'hốt': '忽',
+  'hợp': '合',
+  'huấn': '训',
+  'hùng': '熊雄',
+  'huy': '挥辉',
+  'hủy': '毁',
+  'huyền': '玄',
+  'huyện': '县',
+  'huyết': '血',
+  'huynh': '兄',
+  'hư': '虚',
+  'hứa': '许',
+  'hưng': '兴',
+  'hương': '香乡',
+  'hướng': '向',
+  'hưởng': '享响',
+  'hưu': '休',
+  'hữu': '有友右',
+  'hựu': '又',
+
+  // I
+  'ích': '益',
+
+  // K
+  'kê': '鸡',
+  'kế': '计继',
+  'kết': '结',
+  'kỳ': '其期奇旗棋骑',
+  'ký': '记寄既',
+  'kỷ': '己纪几',
+  'kỹ': '技',
+  'kỵ': '忌',
+  'kích': '击激',
+  'kịch': '剧',
+  'kiểm': '检',
+  'kiếm': '剑',
+  'kiêm': '兼',
+  'kiên': '坚',
+  'kiến': '见建',
+  'kiện': '健件',
+  'kiều': '桥',
+  'kim': '金今',
+  'kinh': '经京惊',
+  'kính': '敬镜',
+
+  // KH
+  'khả': '可',
+  'khách': '客',
+  'khai': '开',
+  'khải': '凯',
+  'khán': '看',
+  'khang': '康',
+  'kháng': '抗',
+  'khánh': '庆',
+  'khảo': '考',
+  'khát': '渴',
+  'khẩu': '口',
+  'khấu': '扣',
+  'khi': '欺',
+  'khí': '气器汽弃',
+  'khiêm': '谦',
+  'khiếm': '欠',
+  'khiển': '遣',
+  'khiết': '洁',
+  'khiêu': '跳',
+  'khiếu': '叫',
+  'khoa': '科夸',
+  'khóa': '课',
+  'khoái': '快',
+  'khoan': '宽',
+  'khoản': '款',
+  'khoáng': '矿',
+  'khổ': '苦',
+  'khố': '裤库',
+  'khốc': '哭酷',
+  'khối': '块',
+  'không': '空',
+  'khổng': '孔',
+  'khống': '控',
+  'khởi': '起',
+  'khu': '区驱',
+  'khuyến': '劝',
+  'khuyết': '缺',
+  'khứ': '去',
+  'khước': '却',
+
+  // L
+  'la': '罗',
+  'lạc': '落乐络',
+  'lai': '来',
+  'lại': '赖',
+  'lam': '蓝',
+  'lãm': '览',
+  'lan': '兰',
+  'lạn': '烂',
+  'lang': '郎狼廊',
+  'lãng': '浪朗',
+  'lãnh': '冷领',
+  'lao': '劳牢',
+  'lão': '老',
+  'lạp': '拉',
+  'lâm': '林临',
+  'lân': '邻',
+  'lập': '立',
+  'lâu': '楼',
+  'lê': '黎',
+  'lễ': '礼',
+  'lệ': '例丽泪',
+  'lệnh': '令',
+  'ly': '离梨璃',
+  'lý': '理李里',
+  'lịch': '历',
+  'liên': '连联',
+  'liệt': '烈列',
+  'liễu': '了柳',
+  'liệu': '料',
+  'linh': '零灵铃',
+  'lộ': '路露',
+  'lỗ': '鲁',
+  'lôi': '雷',
+  'loại': '类',
+  'loạn': '乱',
+  'long': '龙',
+  'lộng': '弄',
+  'lợi': '利',
+  'lục': '六绿陆录',
+  'luân': '轮伦',
+  'luận': '论',
+  'luật': '律',
+  'lũy': '累',
+  'luyến': '恋',
+  'luyện': '练',
+  'lữ': '旅',
+  'lự': '虑',
+  'lực': '力',
+  'lương': '凉良粮梁',
+  'lưỡng': '两',
+  'lượng': '量亮',
+  'lưu': '流留刘',
+
+  // M
+  'ma': '麻摩磨妈吗么',
+  'mã': '马码',
+  'mạ': '骂',
+  'mãi': '买',
+  'mại': '卖',
+  'mãn': '满',
+  'mạn': '慢漫',
+  'mang': '忙茫',
+  'mao': '毛',
+  'mạo': '帽冒貌',
+  'mạt': '末',
+  'mậu': '贸',
+  'mẫu': '母',
+  'mê': '迷',
+  'mễ': '米',
+  'mệnh': '命',
+  'mi': '眉',
+  'mỹ': '美',
+  'miên': '眠棉绵',
+  'miễn': '免',
+  'miêu': '猫描苗',
+  'miếu': '庙',
+  'minh': '明',
+  'mô': '模',
+  'mộ': '墓慕',
+  'mộc': '木',
+  'mỗi': '每',
+  'môn': '门们',
+  'mộng': '梦',
+  'một': '没',
+  'muội': '妹',
+  'mục': '目牧',
+  'mưu': '谋',
+
+  // N
+  'na': '那哪',
+  'nam': '南男',
+  'nan': '难',
+  'nãi': '乃奶',
+  'nại': '耐',
+  'não': '脑恼',
+  'nạp': '纳',
+  'năng': '能',
+  'nâm': '您',
+  'nê': '泥',
+  'ni': '呢尼',
+  'niên': '年',
+  'niệm': '念',
+  'nô': '奴',
+  'nỗ': '努',
+  'nộ': '怒',
+  'nội': '内',
+  'noãn': '暖',
+  'nông': '农',
+  'nồng': '浓',
+  'nữ': '女',
+  'nương': '娘',
+
+  // NG
+  'ngã': '我',
+  'ngạ': '饿',
+  'ngạch': '额',
+  'ngạn': '岸',
+  'ngân': '银',
+  'ngận': '很',
+  'ngật': '吃',
+  'ngô': '吾吴',
+  'ngộ': '误悟遇',
+  'ngoạn': '玩',
+  'ngọa': '卧',
+  'ngoại': '外',
+  'ngọc': '玉',
+  'ngôn': '言',
+  'ngọ': '午',
+  'ngũ': '五',
+  'nguy': '危',
+  'nguyên': '原元源',
+  'nguyễn': '阮',
+  'nguyện': '愿',
+  'nguyệt': '月',
+  'ngư': '鱼渔',
+  'ngữ': '语',
+  'ngự': '御',
+  'ngưỡng': '仰',
+  'ngưu': '牛',
+
+  // NGH
+  'nghênh': '迎',
+  'nghệ': '艺',
+  'nghi': '宜疑仪',
+  'nghị': '议',
+  'nghĩa': '义',
+  'nghiêm': '严',
+  'nghiệm': '验',
+  'nghiên': '研',
+  'nghiệp': '业',
+
+  // NH
+  'nha': '牙',
+  'nhã': '雅',
+  'nhai': '街',
+  'nhàn': '闲',
+  'nhan': '颜',
+  'nhãn': '眼',
+  'nhân': '人因',
+  'nhẫn': '忍',
+  'nhận': '认',
+  'nhập': '入',
+  'nhất': '一',
+  'nhật': '日',
+  'nhi': '儿而',
+  'nhĩ': '耳尔你',
+  'nhị': '二',
+  'nhiên': '然燃',
+  'nhiễm': '染',
+  'nhiễu': '扰',
+  'nhiệt': '热',
+  'nho': '儒',
+  'nhu': '需柔',
+  'nhũ': '乳',
+  'nhục': '肉辱',
+  'nhuận': '润',
+  'như': '如',
+  'nhưng': '仍',
+  'nhược': '若弱',
+  'nhượng': '让',
+
+  // O, Ô
+  'ốc': '屋',
+  'ông': '翁',
+
+  // PH
+  'pha': '坡',
+  'phá': '破',
+  'phạm': '范犯',
+  'phàm': '凡',
+  'phan': '潘',
+  'phán': '判盼',
+  'phản': '反返',
+  'phạn': '饭',
+  'phát': '发',
+  'pháp': '法',
+  'phạt': '罚',
+  'phân': '分',
+  'phấn': '粉奋',
+  'phận': '份',
+  'phẩm': '品',
+  'phi': '非飞',
+  'phì': '肥',
+  'phí': '费',
+  'phiên': '翻番',
+  'phiền': '烦',
+  'phiến': '片',
+  'phiêu': '飘',
+  'phiếu': '票',
+  'phó': '副',
+  'phong': '风封峰丰',
+  'phòng': '房防',
+  'phóng': '放',
+  'phỏng': '访',
+  'phổ': '普谱',
+  'phu': '夫肤',
+  'phù': '扶符',
+  'phủ': '府否',
+  'phú': '富',
+  'phụ': '父妇附负辅',
+  'phúc': '福腹',
+  'phục': '服伏复',
+  'phùng': '冯',
+  'phương': '方芳',
+  'phường': '坊',
+
+  // Q
+  'quá': '过',
+  'quả': '果寡',
+  'quách': '郭',
+  'quái': '怪',
+  'quải': '拐',
+  'quan': '关观官',
+  'quán': '馆惯',
+  'quản': '管',
+  'quang': '光',
+  'quảng': '广',
+  'quân': '军均君',
+  'quần': '群裙',
+  'quận': '郡',
+  'quốc': '国',
+  'quy': '规归龟',
+  'quý': '贵季',
+  'quỷ': '鬼',
+  'quyền': '权拳',
+  'quyển': '卷',
+  'quyết': '决',
+
+  // S
+  'sa': '沙',
+  'sai': '差',
+  'sản': '产',
+  'sàng': '床',
+  'sáng': '创',
+  'sát': '察杀',
+  'sắc': '色',
+  'sâm': '森',
+  'sĩ': '士仕',
+  'siêu': '超',
+  'sinh': '生',
+  'sơ': '初',
+  'sở': '所楚',
+  'số': '数',
+  'sơn': '山',
+  'song': '双',
+  'sư': '师',
+  'sử': '史使',
+  'sự': '事',
+  'sương': '霜',
+
+  // T
+  'ta': '些',
+  'tả': '写左',
+  'tạ': '谢',
+  'tá': '借',
+  'tác': '作',
+  'tạc': '昨',
+  'tái': '再赛',
+  'tài': '才材财',
+  'tải': '载',
+  'tại': '在',
+  'tam': '三',
+  'tán': '散',
+  'tàn': '残',
+  'tàng': '藏',
+  'tảo': '早扫',
+  'táo': '燥',
+  'tào': '曹',
+  'tạo': '造',
+  'tạp': '杂',
+  'tăng': '增',
+  'tằng': '曾',
+  'tâm': '心',
+  'tầm': '寻',
+  'tân': '新宾',
+  'tầng': '层',
+  'tập': '习集',
+  'tất': '必',
+  'tẩu': '走',
+  'tây': '西',
+  'tẩy': '洗',
+  'tế': '细际',
+  'tệ': '弊币',
+  'tỷ': '比',
+  'tị': '鼻',
+  'tích': '积绩',
+  'tịch': '席夕',
+  'tiên': '先仙',
+  'tiền': '前钱',
+  'tiến': '进',
+  'tiện': '便',
+  'tiếp': '接',
+  'tiết': '节',
+  'tiêu': '消销',
+  'tiểu': '小',
+  'tiếu': '笑',
+  'tín': '信',
+  'tinh': '星精',
+  'tình': '情晴睛',
+  'tĩnh': '静',
+  'tính': '性',
+  'tỉnh': '省醒',
+  'tịnh': '并',
+  'tô': '租',
+  'tố': '素诉做',
+  'tổ': '组祖',
+  'tốc': '速',
+  'tộc': '族',
+  'tối': '最',
+  'tội': '罪',
+  'tôn': '尊孙',
+  'tống': '送宋',
+  'tổng': '总',
+  'tọa': '坐',
+  'toàn': '全',
+  'toán': '算',
+  'tòng': '从',
+  'tu': '修须',
+  'tú': '秀',
+  'tụ': '聚',
+  'túc': '足宿',
+  'tục': '续俗',
+  'tuế': '岁',
+  'tuần': '旬巡',
+  'tuy': '虽',
+  'tùy': '随',
+  'tuyến': '线',
+  'tuyển': '选',
+  'tuyết': '雪',
+  'tuyệt': '绝',
+  'tư': '私思资司姿',
+  'tứ': '四',
+  'tử': '子死紫',
+  'tự': '字自寺似序',
+  'từ': '词辞慈',
+  'tức': '息即',
+  'tương': '相将',
+  'tường': '墙详',
+  'tưởng': '想',
+  'tượng': '象像',
+  'tửu': '酒',
+  'tựu': '就',
+
+  // TH
+  'tha': '他她它',
+  'thả': '且',
+  'thái': '太态菜',
+  'tham': '参',
+  'thám': '探',
+  'thảm': '惨',
+  'thán': '叹',
+  'thản': '坦',
+  'thang': '汤',
+  'thanh': '青清声',
+  'thành': '成城诚',
+  'thao': '操',
+  'thảo': '草讨',
+  'thạch': '石',
+  'thâm': '深',
+  'thân': '身亲申伸',
+  'thần': '神晨臣',
+  'thận': '慎',
+  'thập': '十什',
+  'thất': '七室失',
+  'thấu': '透',
+  'thê': '妻梯',
+  'thế': '世势替',
+  'thể': '体',
+  'thi': '诗施',
+  'thí': '试',
+  'thị': '是市示视',
+  'thích': '适',
+  'thiên': '天千',
+  'thiện': '善',
+  'thiết': '切设铁',
+  'thiểu': '少',
+  'thiệu': '绍',
+  'thính': '听',
+  'thịnh': '盛',
+  'thỉnh': '请',
+  'thoại': '话',
+  'thoát': '脱',
+  'thố': '兔',
+  'thổ': '土吐',
+  'thôn': '村',
+  'thông': '通',
+  'thống': '统痛',
+  'thời': '时',
+  'thu': '秋收',
+  'thủ': '手首守取',
+  'thụ': '受树授售',
+  'thúc': '叔',
+  'thục': '熟',
+  'thuận': '顺',
+  'thuật': '术',
+  'thuế': '税',
+  'thùy': '谁',
+  'thủy': '水',
+  'thụy': '睡',
+  'thuyền': '船',
+  'thuyết': '说',
+  'thư': '书姐',
+  'thử': '此暑鼠',
+  'thứ': '次',
+  'thừa': '承乘',
+  'thức': '式识',
+  'thực': '食实植',
+  'thược': '钥',
+  'thương': '商伤',
+  'thường': '常',
+  'thưởng': '赏',
+  'thượng': '上尚',
+
+  // TR
+  'tra': '查',
+  'trà': '茶',
+  'trác': '桌',
+  'trạch': '择宅',
+  'trách': '责',
+  'trái': '债',
+  'trạm': '站',
+  'trang': '装庄',
+  'tráng': '壮',
+  'trạng': '状',
+  'tranh': '争',
+  'trảo': '找',
+  'trắc': '测侧',
+  'trầm': '沉',
+  'trân': '珍',
+  'trần': '陈',
+  'trận': '阵',
+  'tri': '知',
+  'trí': '智置致',
+  'trì': '持迟池',
+  'trị': '治值',
+  'triển': '展',
+  'triều': '朝潮',
+  'triệu': '兆召赵',
+  'trình': '程呈',
+  'trịnh': '郑',
+  'trợ': '助',
+  'trọng': '重仲',
+  'trú': '住驻昼',
+  'trúc': '竹',
+  'trung': '中忠',
+  'truyền': '传',
+  'trư': '猪',
+  'trừ': '除',
+  'trứ': '著',
+  'trực': '直',
+  'trước': '着',
+  'trương': '张',
+  'trường': '长场肠',
+  'trướng': '涨',
+  'trượng': '丈',
+
+  // U, Ư
+  'ủy': '委',
+  'úy': '慰畏',
+  'uy': '威',
+  'uyển': '碗',
+  'ứng': '应',
+  'ưu': '优忧',
+
+  // V
+  'văn': '文闻',
+  'vân': '云',
+  'vấn': '问',
+  'vận': '运',
+  'vãn': '晚',
+  'vạn': '万',
+  'vãng': '往',
+  'vật': '物',
+  'vệ': '卫',
+  'vi': '为违围微',
+  'vĩ': '伟尾',
+  'vị': '未味位谓',
+  'viên': '园员圆',
+  'viễn': '远',
+  'viện': '院',
+  'việt': '越',
+  'vinh': '荣',
+  'vĩnh': '永',
+  'vịnh': '泳',
+  'vô': '无',
+  'vong': '亡忘',
+  'võng': '网',
+  'vọng': '望',
+  'vu': '于',
+  'vũ': '雨舞武宇',
+  'vụ': '务雾',
+  'vực': '域',
+  'vương': '王',
+
+  // X
+  'xa': '车',
+  'xá': '舍',
+  'xã': '社',
+  'xạ': '射',
+  'xà': '蛇',
+  'xác': '确',
+  'xảo': '巧',
+  'xích': '赤尺',
+  'xuân': '春',
+  'xuất': '出',
+  'xúc': '触',
+  'xung': '冲',
+  'xuyên': '穿川',
+  'xứ': '处',
+  'xướng': '唱',
+
+  // Y
+  'y': '衣医依',
+  'ý': '意',
+  'ỷ': '椅',
+  'yên': '烟',
+  'yến': '燕宴',
+  'yêu': '腰妖',
+  'yếu': '要'
+};
+
+/**
+ * Further readings of characters that have several, after the one in PRIMARY_READINGS
+ */
+export const OTHER_READINGS: Record<string, string[]> = {
+  '行': ['hàng', 'hạnh'],
+  '长': ['trưởng'],
+  '乐': ['nhạc'],
+  '好': ['hiếu'],
+  '便': ['biện'],
+  '重': ['trùng'],
+  '觉': ['giáo'],
+  '着': ['trứ'],
+  '假': ['giá'],
+  '降': ['hàng'],
+  '要': ['yêu'],
+  '调': ['điệu'],
+  '相': ['tướng'],
+  '将': ['tướng'],
+  '少': ['thiếu'],
+  '易': ['dị'],
+  '为': ['vị'],
+  '分': ['phận'],
+  '兴': ['hứng'],
+  '当': ['đáng'],
+  '只': ['chích'],
+  '几': ['cơ'],
+  '中': ['trúng'],
+  '种': ['chúng'],
+  '参': ['sâm'],
+  '朝': ['triêu'],
+  '干': ['cán', 'càn'],
+  '你': ['nễ'],
+  '切': ['thế'],
+  '否': ['bĩ'],
+  '恶': ['ố'],
+  '度': ['đạc'],
+  '处': ['xử'],
+  '量': ['lương'],
+  '单': ['thiền'],
+  '校': ['giáo'],
+  '省': ['sảnh'],
+  '说': ['thuế', 'duyệt'],
+  '号': ['hào'],
+  '斗': ['đẩu'],
+  '带': ['đái'],
+  '句': ['câu'],
+  '复': ['phức'],
+  '面': ['miến'],
+  '难': ['nạn'],
+  '传': ['truyện'],
+  '弹': ['đạn'],
+  '数': ['sổ'],
+  '更': ['cánh'],
+  '和': ['họa'],
+  '教': ['giao'],
+  '舍': ['xả'],
+  '与': ['dự'],
+  '于': ['ư'],
+  '奇': ['cơ'],
+  '食': ['tự']
+};
@@ -0,0 +1,89 @@
+/**
+ * LeechDetector Tests
+ *
+ * Unit tests for leech detection and the automatic favorite flag.
+ */
+
+import { LeechDetector } from './LeechDetector';
+import { ReviewStateDAO, ReviewState } from '../models/ReviewState';
+import { VocabularyEntryDAO } from '../models/VocabularyEntry';
+
+jest.mock('../models/ReviewState');
+jest.mock('../models/VocabularyEntry');
+
+const mockReviewStateDAO = ReviewStateDAO as jest.Mocked<typeof ReviewStateDAO>;
+const mockVocabularyEntryDAO = VocabularyEntryDAO as jest.Mocked<typeof VocabularyEntryDAO>;
+
+describe('LeechDetector', () => {
+  const failedState: ReviewState = {
+    userId: 1,
+    vocabularyId: 'vocab-1',
+    mode: 'ChineseToMeanings',
+    easeFactor: 1.3,
+    intervalDays: 0,
+    repetitions: 0,
+    lapses: 4,
+    dueAt: new Date(),
+    lastGrade: 'again'
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.LEECH_LAPSE_THRESHOLD;
+    mockVocabularyEntryDAO.setFavorite.mockResolvedValue(true);
+  });
+
+  describe('isLeech', () => {
+    it('should use 4 lapses as the default threshold', () => {
+      expect(LeechDetector.isLeech({ ...failedState, lapses: 3 })).toBe(false);
+      expect(LeechDetector.isLeech({ ...failedState, lapses: 4 })).toBe(true);
+    });
+
+    it('should read the threshold from LEECH_LAPSE_THRESHOLD', () => {
+      process.env.LEECH_LAPSE_THRESHOLD = '6';
+
+      expect(LeechDetector.isLeech({ ...failedState, lapses: 5 })).toBe(false);
+      expect(LeechDetector.isLeech({ ...failedState, lapses: 6 })).toBe(true);
+    });
+  });
+
+  describe('handleReview', () => {
+    it('should mark a failed leech as favorite', async () => {
+      const marked = await LeechDetector.handleReview(1, failedState);
+
+      expect(marked).toBe(true);
+      expect(mockVocabularyEntryDAO.setFavorite).toHaveBeenCalledWith(1, 'vocab-1', true);
+    });
+
+    it("should mark the word in the owner's vocabulary when a child lapses on it", async () => {
+      const marked = await LeechDetector.handleReview(1, { ...failedState, userId: 2 });
+
+      expect(marked).toBe(true);
+      expect(mockVocabularyEntryDAO.setFavorite).toHaveBeenCalledWith(1, 'vocab-1', true);
+    });
+
+    it('should ignore words below the threshold', async () => {
+      const marked = await LeechDetector.handleReview(1, { ...failedState, lapses: 1 });
+
+      expect(marked).toBe(false);
+      expect(mockVocabularyEntryDAO.setFavorite).not.toHaveBeenCalled();
+    });
+
+    it('should ignore successful reviews of a leech', async () => {
+      const marked = await LeechDetector.handleReview(1, { ...failedState, lastGrade: 'good' });
+
+      expect(marked).toBe(false);
+      expect(mockVocabularyEntryDAO.setFavorite).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getReport', () => {
+    it('should list leeches with the configured threshold', async () => {
+      mockReviewStateDAO.findLeeches.mockResolvedValue([]);
+
+      await LeechDetector.getReport(1);
+
+      expect(mockReviewStateDAO.findLeeches).toHaveBeenCalledWith(1, 4);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * LeechDetector Service
+ *
+ * Detects "leeches": words the learner keeps failing. Every review graded 'again' counts as a lapse,
+ * whether or not the word had been learned, and a word becomes a leech once it lapses
+ * LEECH_LAPSE_THRESHOLD times in a flashcard mode.
+ * Leeches are marked as favorites, so ChapterFilter.getRandomCharacters and the phrase
+ * generator include them in every batch.
+ */
+
+import { ReviewStateDAO, ReviewState, Leech } from '../models/ReviewState';
+import { VocabularyEntryDAO } from '../models/VocabularyEntry';
+import { config } from '../config/env';
+
+/**
+ * LeechDetector class for leech detection and reporting
+ */
+export class LeechDetector {
+  /**
+   * Check whether a review state has lapsed often enough to be a leech
+   */
+  static isLeech(state: ReviewState): boolean {
+    return state.lapses >= config.flashcard.leechLapseThreshold;
+  }
+
+  /**
+   * Mark the word as favorite if this review made or kept it a leech
+   * Only failed reviews ('again') are checked, so a parent can unfavorite a leech
+   * without it being favorited again on the next successful review.
+   * @param ownerId - Owner of the vocabulary, whose entry is marked
+   * @param state - Learner's review state after grading
+   * @returns True if the word was marked as favorite
+   */
+  static async handleReview(ownerId: number, state: ReviewState): Promise<boolean> {
+    if (state.lastGrade !== 'again' || !this.isLeech(state)) {
+      return false;
+    }
+
+    const updated = await VocabularyEntryDAO.setFavorite(ownerId, state.vocabularyId, true);
+    if (updated) {
+      console.log(`[LeechDetector] Marked ${state.vocabularyId} as favorite for user ${ownerId} (${state.lapses} lapses of learner ${state.userId})`);
+    }
+    return updated;
+  }
+
+  /**
+   * List a learner's leeches, worst first
+   * @param userId - Learner user ID (the words may come from their parent's vocabulary)
+   */
+  static async getReport(userId: number): Promise<Leech[]> {
+    return ReviewStateDAO.findLeeches(userId, config.flashcard.leechLapseThreshold);
+  }
+}
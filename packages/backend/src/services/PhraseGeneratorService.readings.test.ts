@@ -0,0 +1,55 @@
+/**
+ * PhraseGeneratorService Reading Tests
+ *
+ * Unit tests for the stored word readings passed to the AI generator, used for the pinyin of the sentences.
+ */
+
+import { PhraseGeneratorService } from './PhraseGeneratorService';
+import { AITextGenerator } from './AITextGenerator';
+import { VocabularyEntryDAO } from '../models/VocabularyEntry';
+import { getPool } from '../config/database';
+
+jest.mock('../config/database');
+jest.mock('./AITextGenerator');
+jest.mock('../models/SentenceWord');
+jest.mock('../models/VocabularyEntry');
+
+const mockVocabularyEntryDAO = VocabularyEntryDAO as jest.Mocked<typeof VocabularyEntryDAO>;
+
+describe('PhraseGeneratorService word readings', () => {
+  const mockQuery = jest.fn();
+  const mockGenerate = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getPool as jest.Mock).mockReturnValue({ query: mockQuery });
+    (AITextGenerator as unknown as jest.Mock).mockImplementation(() => ({ generateForMultipleGroups: mockGenerate }));
+    mockGenerate.mockResolvedValue(new Map());
+
+    // One vocab group (chapters 1-2) and its words; 还 is entered twice with different readings
+    mockQuery
+      .mockResolvedValueOnce([[{ chapter: 2 }]])
+      .mockResolvedValueOnce([[
+        { chinese_character: '还', pinyin: 'hái', chapter: 1, is_favorite: 0 },
+        { chinese_character: '你好', pinyin: 'nǐ hǎo', chapter: 1, is_favorite: 1 },
+        { chinese_character: '还', pinyin: 'huán', chapter: 2, is_favorite: 0 }
+      ]]);
+  });
+
+  it("should read the words as the user's entries say, earliest chapter first", async () => {
+    const readings = new Map([['还', 'hái'], ['你好', 'nǐ hǎo']]);
+    mockVocabularyEntryDAO.findReadings.mockResolvedValue(readings);
+
+    await new PhraseGeneratorService().generateAllSentences(7);
+
+    expect(mockVocabularyEntryDAO.findReadings).toHaveBeenCalledWith(7, ['还', '你好']);
+    expect(mockGenerate.mock.calls[0][0][0].wordReadings).toBe(readings);
+  });
+
+  it('should keep the default readings for shared sentences, which belong to no user', async () => {
+    await new PhraseGeneratorService().generateAllSentences();
+
+    expect(mockVocabularyEntryDAO.findReadings).not.toHaveBeenCalled();
+    expect(mockGenerate.mock.calls[0][0][0].wordReadings).toEqual(new Map());
+  });
+});
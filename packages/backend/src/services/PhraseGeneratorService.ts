@@ -9,6 +9,8 @@
 import { getPool } from '../config/database';
 import { RowDataPacket, ResultSetHeader } from 'mysql2';
 import { AITextGenerator, GeneratedSentence } from './AITextGenerator';
+import { SentenceWordDAO } from '../models/SentenceWord';
+import { VocabularyEntryDAO } from '../models/VocabularyEntry';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -89,13 +91,14 @@ export class PhraseGeneratorService {
     if (userId) {
       query = `SELECT DISTINCT chapter 
        FROM vocabulary_entries 
-       WHERE user_id = ?
+       WHERE user_id = ? AND deleted_at IS NULL
        ORDER BY chapter DESC 
        LIMIT 2`;
       params = [userId];
     } else {
       query = `SELECT DISTINCT chapter 
        FROM vocabulary_entries 
+       WHERE deleted_at IS NULL
        ORDER BY chapter DESC 
        LIMIT 2`;
       params = [];
@@ -136,6 +139,7 @@ export class PhraseGeneratorService {
     const pool = getPool();
     const conn = connection || pool;
 
+    await SentenceWordDAO.unindexGroup(vocabGroupId, userId, connection);
     await conn.query(
       'DELETE FROM pre_generated_sentences WHERE vocab_group_id = ? AND user_id = ?',
       [vocabGroupId, userId]
@@ -154,9 +158,12 @@ export class PhraseGeneratorService {
     const pool = getPool();
     const conn = connection || pool;
 
+    // Generate UUID for each sentence
+    const stored = sentences.map(sentence => ({ ...sentence, id: uuidv4(), userId }));
+
     // Prepare batch insert
-    const values = sentences.map(sentence => [
-      uuidv4(), // Generate UUID for each sentence
+    const values = stored.map(sentence => [
+      sentence.id,
       userId,
       vocabGroupId,
       sentence.chineseText,
@@ -177,6 +184,9 @@ export class PhraseGeneratorService {
        VALUES ?`,
       [values]
     );
+
+    // Index the words of the sentences for the example sentences of each word
+    await SentenceWordDAO.index(stored, connection);
   }
 
   /**
@@ -272,6 +282,7 @@ export class PhraseGeneratorService {
           vocabGroupId: number;
           batches: string[][];
           allVocabCharacters: string[];
+          wordReadings: Map<string, string>;
         }> = [];
 
         for (const group of vocabGroups) {
@@ -281,12 +292,12 @@ export class PhraseGeneratorService {
           let vocabParams: any[];
           
           if (userId) {
-            vocabQuery = `SELECT chinese_character, chapter, is_favorite FROM vocabulary_entries 
-             WHERE user_id = ? AND chapter >= ? AND chapter <= ?`;
+            vocabQuery = `SELECT chinese_character, pinyin, chapter, is_favorite FROM vocabulary_entries 
+             WHERE user_id = ? AND chapter >= ? AND chapter <= ? AND deleted_at IS NULL`;
             vocabParams = [userId, group.chapterStart, group.chapterEndpoint];
           } else {
-            vocabQuery = `SELECT chinese_character, chapter, is_favorite FROM vocabulary_entries 
-             WHERE chapter >= ? AND chapter <= ?`;
+            vocabQuery = `SELECT chinese_character, pinyin, chapter, is_favorite FROM vocabulary_entries 
+             WHERE chapter >= ? AND chapter <= ? AND deleted_at IS NULL`;
             vocabParams = [group.chapterStart, group.chapterEndpoint];
           }
 
@@ -313,6 +324,12 @@ export class PhraseGeneratorService {
           // Build full vocab list (all characters in this group) for validation
           const allVocabCharacters = rows.map(row => row.chinese_character as string);
 
+          // Read the words in the sentences as the user's entries say (chosen readings of polyphones);
+          // shared sentences belong to no user and keep the default readings
+          const wordReadings = userId
+            ? await VocabularyEntryDAO.findReadings(userId, Array.from(new Set(allVocabCharacters)))
+            : new Map<string, string>();
+
           // Prepare 4 batches of 300 characters each, always including all favorites
           const batches: string[][] = [];
           for (let i = 0; i < 4; i++) {
@@ -338,7 +355,8 @@ export class PhraseGeneratorService {
           vocabGroupsData.push({
             vocabGroupId: group.id,
             batches,
-            allVocabCharacters
+            allVocabCharacters,
+            wordReadings
           });
         }
 
@@ -0,0 +1,118 @@
+/**
+ * PinyinUtils Tests
+ *
+ * Unit tests for parsing and formatting tone-marked and tone-numbered pinyin.
+ */
+
+import { PinyinUtils } from './PinyinUtils';
+
+describe('PinyinUtils', () => {
+  describe('parseSyllable', () => {
+    it('should parse tone marks', () => {
+      expect(PinyinUtils.parseSyllable('hǎo')).toEqual({ base: 'hao', tone: 3 });
+      expect(PinyinUtils.parseSyllable('lǜ')).toEqual({ base: 'lü', tone: 4 });
+    });
+
+    it('should parse tone numbers', () => {
+      expect(PinyinUtils.parseSyllable('ni3')).toEqual({ base: 'ni', tone: 3 });
+      expect(PinyinUtils.parseSyllable('lv4')).toEqual({ base: 'lü', tone: 4 });
+      expect(PinyinUtils.parseSyllable('lu:4')).toEqual({ base: 'lü', tone: 4 });
+    });
+
+    it('should treat syllables without a tone as neutral', () => {
+      expect(PinyinUtils.parseSyllable('ma')).toEqual({ base: 'ma', tone: 5 });
+      expect(PinyinUtils.parseSyllable('ma0')).toEqual({ base: 'ma', tone: 5 });
+    });
+  });
+
+  describe('splitSyllables', () => {
+    it('should split on spaces and apostrophes', () => {
+      expect(PinyinUtils.splitSyllables('nǐ hǎo')).toEqual(['nǐ', 'hǎo']);
+      expect(PinyinUtils.splitSyllables("xī'ān")).toEqual(['xī', 'ān']);
+    });
+
+    it('should split joined syllables after tone numbers', () => {
+      expect(PinyinUtils.splitSyllables('ni3hao3')).toEqual(['ni3', 'hao3']);
+    });
+  });
+
+  describe('toToneMarked', () => {
+    it('should place the tone mark on the right vowel', () => {
+      expect(PinyinUtils.toToneMarked({ base: 'hao', tone: 3 })).toBe('hǎo');
+      expect(PinyinUtils.toToneMarked({ base: 'dou', tone: 1 })).toBe('dōu');
+      expect(PinyinUtils.toToneMarked({ base: 'gui', tone: 4 })).toBe('guì');
+      expect(PinyinUtils.toToneMarked({ base: 'lü', tone: 4 })).toBe('lǜ');
+    });
+
+    it('should leave neutral tone syllables unmarked', () => {
+      expect(PinyinUtils.toToneMarked({ base: 'ma', tone: 5 })).toBe('ma');
+    });
+  });
+
+  describe('syllablesOf', () => {
+    it('should use the stored pinyin when it matches the characters', () => {
+      expect(PinyinUtils.syllablesOf('你好', 'nǐ hǎo')).toEqual([
+        { base: 'ni', tone: 3 },
+        { base: 'hao', tone: 3 }
+      ]);
+    });
+
+    it('should generate pinyin when none is stored', () => {
+      expect(PinyinUtils.syllablesOf('你好', '')).toEqual([
+        { base: 'ni', tone: 3 },
+        { base: 'hao', tone: 3 }
+      ]);
+    });
+  });
+
+  describe('toneMarkedSyllables', () => {
+    it('should read polyphones in the context of their word', () => {
+      expect(PinyinUtils.toneMarkedSyllables('银行')).toEqual(['yín', 'háng']);
+      expect(PinyinUtils.toneMarkedSyllables('行走')).toEqual(['xíng', 'zǒu']);
+      expect(PinyinUtils.toneMarkedSyllables('觉得')).toEqual(['jué', 'de']);
+      expect(PinyinUtils.toneMarkedSyllables('我们')).toEqual(['wǒ', 'men']);
+    });
+
+    it('should pass the placeholder of patterns through', () => {
+      expect(PinyinUtils.toneMarkedSyllables('越。。。越')).toEqual(['yuè', '。。。', 'yuè']);
+    });
+  });
+
+  describe('readingCandidates', () => {
+    it('should offer every reading of a polyphone on its own', () => {
+      expect(PinyinUtils.readingCandidates('得')).toEqual(['dé', 'děi', 'de']);
+      expect(PinyinUtils.readingCandidates('长')).toEqual(expect.arrayContaining(['cháng', 'zhǎng']));
+    });
+
+    it('should offer only the generated reading when the word settles it', () => {
+      expect(PinyinUtils.readingCandidates('觉得')).toEqual(['jué de']);
+      expect(PinyinUtils.readingChoices('长大')).toEqual([]);
+    });
+
+    it('should combine the readings of several polyphones, the generated one first', () => {
+      const candidates = PinyinUtils.readingCandidates('好了');
+      expect(candidates[0]).toBe('hǎo le');
+      expect(candidates).toEqual(expect.arrayContaining(['hǎo liǎo', 'hào le']));
+    });
+
+    it('should line choices up with the syllables around other text', () => {
+      expect(PinyinUtils.readingChoices('OK得')).toEqual([{ index: 1, character: '得', readings: ['dé', 'děi', 'de'] }]);
+    });
+  });
+
+  describe('sentencePinyin', () => {
+    it('should use the stored reading of vocabulary words', () => {
+      const readings = new Map([['长', 'zhǎng'], ['得', 'de']]);
+      expect(PinyinUtils.sentencePinyin('他长得很高。', readings)).toBe('tā zhǎng de hěn gāo 。');
+    });
+
+    it('should prefer the longest word and skip readings that do not fit', () => {
+      const readings = new Map([['银', 'yin2'], ['银行', 'yín háng'], ['行走', 'xing']]);
+      expect(PinyinUtils.sentencePinyin('去银行', readings)).toBe('qù yín háng');
+    });
+
+    it('should generate the rest word by word', () => {
+      expect(PinyinUtils.sentencePinyin('我们去银行了。')).toBe('wǒ men qù yín háng le 。');
+    });
+  });
+});
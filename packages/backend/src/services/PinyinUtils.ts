@@ -0,0 +1,291 @@
+/**
+ * PinyinUtils
+ *
+ * Helpers for working with tone-marked and tone-numbered pinyin.
+ * Tones are numbered 1-4, with 5 for the neutral tone.
+ *
+ * Pinyin is generated word by word: text is segmented into words first (Intl.Segmenter), so polyphones
+ * get the reading of the word they are in (银行 yínháng, 行走 xíngzǒu, 觉得 juéde).
+ */
+
+import pinyin from 'pinyin';
+
+/**
+ * A single pinyin syllable split into its toneless base and tone number
+ */
+export interface PinyinSyllable {
+  base: string;
+  tone: number;
+}
+
+/**
+ * A character that can be read more than one way where it stands
+ */
+export interface ReadingChoice {
+  index: number;        // position among the generated syllables
+  character: string;
+  readings: string[];   // tone-marked, the generated reading first
+}
+
+// Word segmentation used for context-aware readings; built into Node, no dictionary to install
+const SEGMENT = 'Intl.Segmenter' as const;
+
+// Most whole-word readings offered for a word with several polyphones
+const MAX_READING_CANDIDATES = 10;
+
+/**
+ * Tone-marked vowels and the plain vowel + tone they stand for
+ */
+const TONE_MARKS: Record<string, [string, number]> = {
+  'ā': ['a', 1], 'á': ['a', 2], 'ǎ': ['a', 3], 'à': ['a', 4],
+  'ē': ['e', 1], 'é': ['e', 2], 'ě': ['e', 3], 'è': ['e', 4],
+  'ī': ['i', 1], 'í': ['i', 2], 'ǐ': ['i', 3], 'ì': ['i', 4],
+  'ō': ['o', 1], 'ó': ['o', 2], 'ǒ': ['o', 3], 'ò': ['o', 4],
+  'ū': ['u', 1], 'ú': ['u', 2], 'ǔ': ['u', 3], 'ù': ['u', 4],
+  'ǖ': ['ü', 1], 'ǘ': ['ü', 2], 'ǚ': ['ü', 3], 'ǜ': ['ü', 4],
+  'ń': ['n', 2], 'ň': ['n', 3], 'ǹ': ['n', 4], 'ḿ': ['m', 2]
+};
+
+/**
+ * Plain vowels and their tone-marked forms for tones 1-4
+ */
+const MARKED_VOWELS: Record<string, string[]> = {
+  a: ['ā', 'á', 'ǎ', 'à'],
+  e: ['ē', 'é', 'ě', 'è'],
+  i: ['ī', 'í', 'ǐ', 'ì'],
+  o: ['ō', 'ó', 'ǒ', 'ò'],
+  u: ['ū', 'ú', 'ǔ', 'ù'],
+  'ü': ['ǖ', 'ǘ', 'ǚ', 'ǜ']
+};
+
+const HANZI_PATTERN = /[\u3400-\u9fff\uf900-\ufaff]/;
+const SEPARATOR_PATTERN = /[\s'’\-,.;，。；、]+/;
+const TOKEN_PATTERN = /[\u3400-\u9fff\uf900-\ufaff]|[^\u3400-\u9fff\uf900-\ufaff]+/g;
+
+/**
+ * PinyinUtils class with static pinyin helpers
+ */
+export class PinyinUtils {
+  /**
+   * Check whether text contains Chinese characters
+   */
+  static containsHanzi(text: string): boolean {
+    return HANZI_PATTERN.test(text);
+  }
+
+  /**
+   * Extract the Chinese characters of a text, dropping punctuation and latin letters
+   */
+  static hanziCharacters(text: string): string[] {
+    return Array.from(text).filter(char => HANZI_PATTERN.test(char));
+  }
+
+  /**
+   * Normalise the spelling of a toneless base: lowercase, "v" and "u:" written as "ü"
+   */
+  static normalizeBase(base: string): string {
+    return base.toLowerCase().replace(/u:/g, 'ü').replace(/v/g, 'ü');
+  }
+
+  /**
+   * Parse one syllable written with a tone mark ("hǎo") or a tone number ("hao3")
+   * A syllable without either is neutral tone (5).
+   */
+  static parseSyllable(syllable: string): PinyinSyllable {
+    let tone = 5;
+    let base = '';
+
+    for (const char of syllable.toLowerCase().normalize('NFC')) {
+      const marked = TONE_MARKS[char];
+      if (marked) {
+        base += marked[0];
+        tone = marked[1];
+      } else if (/[0-5]/.test(char)) {
+        tone = char === '0' ? 5 : parseInt(char, 10);
+      } else {
+        base += char;
+      }
+    }
+
+    return { base: this.normalizeBase(base), tone };
+  }
+
+  /**
+   * Split space-separated pinyin ("nǐ hǎo", "ni3 hao3", "ni3hao3") into syllables
+   */
+  static splitSyllables(text: string): string[] {
+    return text
+      .split(SEPARATOR_PATTERN)
+      .flatMap(token => token.match(/[^0-5]+[0-5]?/g) || [])
+      .filter(token => token.length > 0);
+  }
+
+  /**
+   * Format a syllable with a tone mark, e.g. ("hao", 3) → "hǎo"
+   * Follows the standard placement rule: a or e take the mark, then o in "ou", else the last vowel.
+   */
+  static toToneMarked(syllable: PinyinSyllable): string {
+    const base = this.normalizeBase(syllable.base);
+    if (syllable.tone < 1 || syllable.tone > 4) {
+      return base;
+    }
+
+    let index = base.search(/[ae]/);
+    if (index === -1) {
+      index = base.indexOf('ou');
+    }
+    if (index === -1) {
+      for (let i = base.length - 1; i >= 0; i--) {
+        if (MARKED_VOWELS[base[i]]) {
+          index = i;
+          break;
+        }
+      }
+    }
+    if (index === -1) {
+      return base;
+    }
+
+    return base.slice(0, index) + MARKED_VOWELS[base[index]][syllable.tone - 1] + base.slice(index + 1);
+  }
+
+  /**
+   * Format a syllable with a tone number, e.g. ("hao", 3) → "hao3"
+   */
+  static toToneNumbered(syllable: PinyinSyllable): string {
+    return `${this.normalizeBase(syllable.base)}${syllable.tone}`;
+  }
+
+  /**
+   * Strip tones from pinyin text, e.g. "nǐ hǎo" → "ni hao"
+   */
+  static stripTones(text: string): string {
+    return this.splitSyllables(text)
+      .map(syllable => this.parseSyllable(syllable).base)
+      .join(' ');
+  }
+
+  /**
+   * Generate the reading of each Chinese character with the pinyin library, in the context of its word
+   */
+  static readingsOf(hanzi: string): PinyinSyllable[] {
+    const characters = this.hanziCharacters(hanzi).join('');
+    if (characters.length === 0) {
+      return [];
+    }
+
+    return pinyin(characters, { style: pinyin.STYLE_TONE2, heteronym: false, segment: SEGMENT })
+      .map(readings => this.parseSyllable(readings[0]));
+  }
+
+  /**
+   * Generate tone-marked pinyin for text, one item per Chinese character
+   * Anything else (punctuation, latin letters, the 。。。 of patterns) is passed through as its own item.
+   */
+  static toneMarkedSyllables(text: string): string[] {
+    return pinyin(text, { style: pinyin.STYLE_TONE, heteronym: false, segment: SEGMENT })
+      .map(readings => readings[0]);
+  }
+
+  /**
+   * Find the characters of a word whose reading is ambiguous even within the word (得, 了, 长 on their own)
+   * Indexes line up with toneMarkedSyllables.
+   */
+  static readingChoices(text: string): ReadingChoice[] {
+    // The library gives one item per character and one per run of other text
+    const tokens = text.match(TOKEN_PATTERN) || [];
+    const generated = this.toneMarkedSyllables(text);
+    const candidates = pinyin(text, { style: pinyin.STYLE_TONE, heteronym: true, segment: SEGMENT });
+    if (tokens.length !== generated.length || candidates.length !== generated.length) {
+      return [];
+    }
+
+    const choices: ReadingChoice[] = [];
+    candidates.forEach((readings, index) => {
+      const unique = Array.from(new Set([generated[index], ...readings]));
+      if (HANZI_PATTERN.test(tokens[index]) && unique.length > 1) {
+        choices.push({ index, character: tokens[index], readings: unique });
+      }
+    });
+    return choices;
+  }
+
+  /**
+   * Whole-word readings built from the reading choices, the generated reading first
+   * The list is capped; readings differing in fewer characters come earlier.
+   */
+  static readingCandidates(text: string, format: (syllables: string[]) => string = syllables => syllables.join(' ')): string[] {
+    let candidates = [this.toneMarkedSyllables(text)];
+    for (const choice of this.readingChoices(text)) {
+      const next = [...candidates];
+      for (const candidate of candidates) {
+        for (const reading of choice.readings.slice(1)) {
+          if (next.length >= MAX_READING_CANDIDATES) break;
+          next.push(candidate.map((syllable, index) => (index === choice.index ? reading : syllable)));
+        }
+      }
+      candidates = next;
+    }
+    return candidates.map(format);
+  }
+
+  /**
+   * Generate tone-marked pinyin for a sentence, using the reading stored for each vocabulary word in it
+   * Stored readings are only used when they have one syllable per character; the longest word wins.
+   * @param text - Chinese sentence
+   * @param wordReadings - Vocabulary word → stored pinyin
+   */
+  static sentencePinyin(text: string, wordReadings: Map<string, string> = new Map()): string {
+    const readings = new Map<string, string[]>();
+    for (const [word, stored] of wordReadings) {
+      const characters = Array.from(word);
+      const syllables = this.splitSyllables(stored || '');
+      if (characters.length > 0 && characters.every(char => HANZI_PATTERN.test(char)) && syllables.length === characters.length) {
+        readings.set(word, syllables);
+      }
+    }
+    const longest = Math.max(0, ...Array.from(readings.keys()).map(word => Array.from(word).length));
+
+    const characters = Array.from(text);
+    const items: string[] = [];
+    let pending = '';
+    for (let i = 0; i < characters.length;) {
+      let matched: string[] | undefined;
+      let length = Math.min(longest, characters.length - i);
+      for (; length > 0 && !matched; length--) {
+        matched = readings.get(characters.slice(i, i + length).join(''));
+      }
+      if (matched) {
+        if (pending) items.push(...this.toneMarkedSyllables(pending));
+        pending = '';
+        items.push(...matched);
+        i += matched.length;
+      } else {
+        pending += characters[i];
+        i++;
+      }
+    }
+    if (pending) items.push(...this.toneMarkedSyllables(pending));
+
+    return items.join(' ');
+  }
+
+  /**
+   * Get the syllables of a vocabulary word
+   * Uses the stored pinyin when it has one syllable per character, otherwise generates it.
+   * @param chineseCharacter - Chinese word
+   * @param storedPinyin - Pinyin stored with the word (may be empty)
+   */
+  static syllablesOf(chineseCharacter: string, storedPinyin?: string): PinyinSyllable[] {
+    const characterCount = this.hanziCharacters(chineseCharacter).length;
+
+    if (storedPinyin && storedPinyin.trim().length > 0) {
+      const stored = this.splitSyllables(storedPinyin).map(syllable => this.parseSyllable(syllable));
+      if (stored.length === characterCount || characterCount === 0) {
+        return stored;
+      }
+    }
+
+    return this.readingsOf(chineseCharacter);
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * ReviewScheduler Tests
+ *
+ * Unit tests for the SM-2 style spaced-repetition scheduling logic.
+ */
+
+import { ReviewScheduler } from './ReviewScheduler';
+import { ReviewState } from '../models/ReviewState';
+
+describe('ReviewScheduler', () => {
+  const now = new Date('2026-01-01T08:00:00.000Z');
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  const learnedState: ReviewState = {
+    userId: 1,
+    vocabularyId: 'vocab-1',
+    mode: 'ChineseToMeanings',
+    easeFactor: 2.5,
+    intervalDays: 10,
+    repetitions: 3,
+    lapses: 0,
+    dueAt: now
+  };
+
+  describe('isValidGrade', () => {
+    it('should accept the four review grades', () => {
+      expect(ReviewScheduler.isValidGrade('again')).toBe(true);
+      expect(ReviewScheduler.isValidGrade('hard')).toBe(true);
+      expect(ReviewScheduler.isValidGrade('good')).toBe(true);
+      expect(ReviewScheduler.isValidGrade('easy')).toBe(true);
+    });
+
+    it('should reject anything else', () => {
+      expect(ReviewScheduler.isValidGrade('perfect')).toBe(false);
+      expect(ReviewScheduler.isValidGrade(3)).toBe(false);
+      expect(ReviewScheduler.isValidGrade(undefined)).toBe(false);
+    });
+  });
+
+  describe('schedule', () => {
+    it('should schedule a new card graded good for tomorrow', () => {
+      const state = ReviewScheduler.schedule(1, 'vocab-1', 'ChineseToMeanings', null, 'good', now);
+
+      expect(state.intervalDays).toBe(1);
+      expect(state.repetitions).toBe(1);
+      expect(state.easeFactor).toBe(2.5);
+      expect(state.dueAt.getTime()).toBe(now.getTime() + DAY_MS);
+      expect(state.lastGrade).toBe('good');
+      expect(state.lastReviewedAt).toEqual(now);
+    });
+
+    it('should schedule a new card graded easy further out than good', () => {
+      const easy = ReviewScheduler.schedule(1, 'vocab-1', 'ChineseToMeanings', null, 'easy', now);
+
+      expect(easy.intervalDays).toBe(4);
+      expect(easy.easeFactor).toBeCloseTo(2.65);
+    });
+
+    it('should grow the interval by the ease factor for a learned card', () => {
+      const state = ReviewScheduler.schedule(1, 'vocab-1', 'ChineseToMeanings', learnedState, 'good', now);
+
+      expect(state.intervalDays).toBe(25);
+      expect(state.repetitions).toBe(4);
+    });
+
+    it('should grow the interval slowly and lower the ease for hard', () => {
+      const state = ReviewScheduler.schedule(1, 'vocab-1', 'ChineseToMeanings', learnedState, 'hard', now);
+
+      expect(state.intervalDays).toBe(12);
+      expect(state.easeFactor).toBeCloseTo(2.35);
+    });
+
+    it('should reset a learned card graded again and count a lapse', () => {
+      const state = ReviewScheduler.schedule(1, 'vocab-1', 'ChineseToMeanings', learnedState, 'again', now);
+
+      expect(state.intervalDays).toBe(0);
+      expect(state.repetitions).toBe(0);
+      expect(state.lapses).toBe(1);
+      expect(state.easeFactor).toBeCloseTo(2.3);
+      // Comes back within the same session
+      expect(state.dueAt.getTime()).toBe(now.getTime() + 10 * 60 * 1000);
+    });
+
+    it('should count a lapse for a card failed the first time it is seen', () => {
+      const state = ReviewScheduler.schedule(1, 'vocab-1', 'ChineseToMeanings', null, 'again', now);
+
+      expect(state.lapses).toBe(1);
+    });
+
+    it('should count every failure of a card failed several times in a row', () => {
+      let state: ReviewState | null = null;
+      for (let i = 0; i < 4; i++) {
+        state = ReviewScheduler.schedule(1, 'vocab-1', 'ChineseToMeanings', state, 'again', now);
+      }
+
+      expect(state!.lapses).toBe(4);
+      expect(state!.repetitions).toBe(0);
+    });
+
+    it('should never let the ease factor drop below the minimum', () => {
+      let state: ReviewState | null = null;
+      for (let i = 0; i < 20; i++) {
+        state = ReviewScheduler.schedule(1, 'vocab-1', 'ChineseToMeanings', state, 'again', now);
+      }
+
+      expect(state!.easeFactor).toBe(1.3);
+    });
+
+    it('should keep the identity of the card', () => {
+      const state = ReviewScheduler.schedule(7, 'vocab-9', 'VietnameseToChinese', null, 'good', now);
+
+      expect(state.userId).toBe(7);
+      expect(state.vocabularyId).toBe('vocab-9');
+      expect(state.mode).toBe('VietnameseToChinese');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * ReviewScheduler Service
+ *
+ * SM-2 style spaced-repetition scheduling.
+ * Takes the previous review state of a card and a grade, and computes the next interval,
+ * ease factor and due date. Pure logic only - persistence lives in ReviewStateDAO.
+ */
+
+import { ReviewState, ReviewGrade } from '../models/ReviewState';
+
+/**
+ * Valid review grades, from worst to best recall
+ */
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MAX_EASE = 3.0;
+
+/** A failed card comes back in the same session, after this many minutes */
+const RELEARN_DELAY_MINUTES = 10;
+
+/** Extra interval multiplier applied when a card is graded "easy" */
+const EASY_BONUS = 1.3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * ReviewScheduler class for computing the next review of a card
+ */
+export class ReviewScheduler {
+  /**
+   * Check whether a value is a valid review grade
+   */
+  static isValidGrade(grade: unknown): grade is ReviewGrade {
+    return typeof grade === 'string' && REVIEW_GRADES.includes(grade as ReviewGrade);
+  }
+
+  /**
+   * Compute the next review state after grading a card
+   * @param userId - Owner user ID
+   * @param vocabularyId - Vocabulary entry ID
+   * @param mode - Flashcard mode the card was reviewed in
+   * @param previous - Previous review state, or null if the card has never been reviewed
+   * @param grade - Review grade
+   * @param now - Review time (defaults to current time)
+   * @returns New review state
+   */
+  static schedule(
+    userId: number,
+    vocabularyId: string,
+    mode: string,
+    previous: ReviewState | null,
+    grade: ReviewGrade,
+    now: Date = new Date()
+  ): ReviewState {
+    const easeFactor = previous ? previous.easeFactor : INITIAL_EASE;
+    const intervalDays = previous ? previous.intervalDays : 0;
+    const repetitions = previous ? previous.repetitions : 0;
+    const lapses = previous ? previous.lapses : 0;
+
+    let nextEase = easeFactor;
+    let nextInterval: number;
+    let nextRepetitions = repetitions + 1;
+    let nextLapses = lapses;
+
+    switch (grade) {
+      case 'again':
+        nextEase = easeFactor - 0.2;
+        nextInterval = 0;
+        nextRepetitions = 0;
+        // Every failure counts, also before the card was ever learned, so a word failed
+        // again and again from the start becomes a leech too
+        nextLapses = lapses + 1;
+        break;
+
+      case 'hard':
+        nextEase = easeFactor - 0.15;
+        nextInterval = repetitions === 0 ? 1 : Math.max(intervalDays + 1, Math.round(intervalDays * 1.2));
+        break;
+
+      case 'good':
+        if (repetitions === 0) {
+          nextInterval = 1;
+        } else if (repetitions === 1) {
+          nextInterval = 3;
+        } else {
+          nextInterval = Math.max(intervalDays + 1, Math.round(intervalDays * easeFactor));
+        }
+        break;
+
+      case 'easy':
+        nextEase = easeFactor + 0.15;
+        if (repetitions === 0) {
+          nextInterval = 4;
+        } else {
+          nextInterval = Math.max(intervalDays + 1, Math.round(intervalDays * easeFactor * EASY_BONUS));
+        }
+        break;
+
+      default:
+        throw new Error(`Unsupported review grade: ${grade}`);
+    }
+
+    nextEase = Math.min(MAX_EASE, Math.max(MIN_EASE, Math.round(nextEase * 100) / 100));
+
+    const dueAt = nextInterval === 0
+      ? new Date(now.getTime() + RELEARN_DELAY_MINUTES * 60 * 1000)
+      : new Date(now.getTime() + nextInterval * DAY_MS);
+
+    return {
+      userId,
+      vocabularyId,
+      mode,
+      easeFactor: nextEase,
+      intervalDays: nextInterval,
+      repetitions: nextRepetitions,
+      lapses: nextLapses,
+      dueAt,
+      lastGrade: grade,
+      lastReviewedAt: now
+    };
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * StrokeDataService Tests
+ *
+ * Unit tests for reading the bundled stroke data and building writing sheets.
+ */
+
+import { StrokeDataService } from './StrokeDataService';
+import { VocabularyEntryDAO, VocabularyEntry } from '../models/VocabularyEntry';
+
+jest.mock('../models/VocabularyEntry');
+
+const mockVocabularyEntryDAO = VocabularyEntryDAO as jest.Mocked<typeof VocabularyEntryDAO>;
+
+describe('StrokeDataService', () => {
+  const makeEntry = (chineseCharacter: string): VocabularyEntry => ({
+    id: 'vocab-1',
+    userId: 1,
+    username: 'testuser',
+    chineseCharacter,
+    pinyin: 'nǐ hǎo',
+    chapter: 1,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getCharacterStrokes', () => {
+    it('should read strokes, medians and radical strokes from the bundled data', async () => {
+      const strokes = await StrokeDataService.getCharacterStrokes('你');
+
+      expect(strokes).not.toBeNull();
+      expect(strokes!.character).toBe('你');
+      expect(strokes!.strokes).toHaveLength(7);
+      expect(strokes!.medians).toHaveLength(7);
+      expect(strokes!.strokes[0]).toMatch(/^M /);
+      expect(strokes!.radicalStrokes).toEqual([0, 1]);
+    });
+
+    it('should return null for anything but a single Chinese character', async () => {
+      expect(await StrokeDataService.getCharacterStrokes('你好')).toBeNull();
+      expect(await StrokeDataService.getCharacterStrokes('a')).toBeNull();
+      expect(await StrokeDataService.getCharacterStrokes('../package')).toBeNull();
+    });
+
+    it('should return null for a character without data', async () => {
+      // CJK Extension A character outside the dataset
+      expect(await StrokeDataService.getCharacterStrokes('㐀')).toBeNull();
+    });
+  });
+
+  describe('getWritingSheet', () => {
+    it('should return stroke data for every character of the word', async () => {
+      mockVocabularyEntryDAO.findById.mockResolvedValue(makeEntry('你好'));
+
+      const sheet = await StrokeDataService.getWritingSheet(1, 'vocab-1');
+
+      expect(sheet.chineseCharacter).toBe('你好');
+      expect(sheet.characters.map(c => c.character)).toEqual(['你', '好']);
+      expect(sheet.missing).toEqual([]);
+      expect(mockVocabularyEntryDAO.findById).toHaveBeenCalledWith(1, 'vocab-1');
+    });
+
+    it('should skip punctuation and list characters without data', async () => {
+      mockVocabularyEntryDAO.findById.mockResolvedValue(makeEntry('你，㐀'));
+
+      const sheet = await StrokeDataService.getWritingSheet(1, 'vocab-1');
+
+      expect(sheet.characters.map(c => c.character)).toEqual(['你']);
+      expect(sheet.missing).toEqual(['㐀']);
+    });
+
+    it('should throw for an unknown entry', async () => {
+      mockVocabularyEntryDAO.findById.mockResolvedValue(null);
+
+      await expect(StrokeDataService.getWritingSheet(1, 'missing')).rejects.toThrow('Vocabulary entry not found');
+    });
+  });
+});
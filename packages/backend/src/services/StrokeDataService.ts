@@ -0,0 +1,134 @@
+/**
+ * StrokeDataService
+ *
+ * Stroke-order data for writing practice, read from the bundled hanzi-writer-data package
+ * (derived from Make Me a Hanzi), so no network access is needed.
+ *
+ * Coordinates are in a 1024 x 1024 box with the y axis pointing up; to draw on a screen,
+ * map a point (x, y) to (x, 900 - y).
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { PinyinUtils } from './PinyinUtils';
+import { VocabularyEntryDAO } from '../models/VocabularyEntry';
+
+/**
+ * Stroke data of one character
+ */
+export interface CharacterStrokes {
+  character: string;
+  strokes: string[];        // SVG path outline of each stroke, in stroke order
+  medians: number[][][];    // centre line of each stroke as [x, y] points, in writing direction
+  radicalStrokes: number[]; // indexes of the strokes that make up the radical
+}
+
+/**
+ * Stroke data for every character of a vocabulary entry
+ */
+export interface WritingSheet {
+  vocabularyId: string;
+  chineseCharacter: string;
+  pinyin: string;
+  characters: CharacterStrokes[]; // one per character, in order (repeated characters repeat)
+  missing: string[];              // characters without stroke data
+}
+
+/**
+ * Stroke data file format of hanzi-writer-data
+ */
+interface StrokeDataFile {
+  strokes: string[];
+  medians: number[][][];
+  radStrokes?: number[];
+}
+
+// Radical forms of the CJK Radicals Supplement block, which the dataset has outlines for as well
+const RADICAL_FORM = /[\u2e80-\u2eff]/;
+
+/**
+ * StrokeDataService class for writing practice
+ */
+export class StrokeDataService {
+  private static dataDirectory: string | null = null;
+  private static cache = new Map<string, CharacterStrokes | null>();
+
+  /**
+   * Get the stroke data of a single character
+   * @param character - One Chinese character
+   * @returns Stroke data, or null when the dataset has no entry for it
+   */
+  static async getCharacterStrokes(character: string): Promise<CharacterStrokes | null> {
+    // Only single hanzi (or radical forms such as ⺮) are looked up, which also keeps the file name inside
+    // the data directory
+    if (Array.from(character).length !== 1 || !(PinyinUtils.containsHanzi(character) || RADICAL_FORM.test(character))) {
+      return null;
+    }
+
+    if (this.cache.has(character)) {
+      return this.cache.get(character)!;
+    }
+
+    let strokes: CharacterStrokes | null = null;
+    try {
+      const data: StrokeDataFile = JSON.parse(
+        await fs.readFile(path.join(this.getDataDirectory(), `${character}.json`), 'utf-8')
+      );
+      strokes = {
+        character,
+        strokes: data.strokes,
+        medians: data.medians,
+        radicalStrokes: data.radStrokes || []
+      };
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    this.cache.set(character, strokes);
+    return strokes;
+  }
+
+  /**
+   * Get the stroke data for every character of a vocabulary entry
+   * @param userId - Owner user ID
+   * @param vocabularyId - Vocabulary entry ID
+   */
+  static async getWritingSheet(userId: number, vocabularyId: string): Promise<WritingSheet> {
+    const entry = await VocabularyEntryDAO.findById(userId, vocabularyId);
+    if (!entry) {
+      throw new Error('Vocabulary entry not found');
+    }
+
+    const characters: CharacterStrokes[] = [];
+    const missing: string[] = [];
+
+    for (const character of PinyinUtils.hanziCharacters(entry.chineseCharacter)) {
+      const strokes = await this.getCharacterStrokes(character);
+      if (strokes) {
+        characters.push(strokes);
+      } else if (!missing.includes(character)) {
+        missing.push(character);
+      }
+    }
+
+    return {
+      vocabularyId: entry.id,
+      chineseCharacter: entry.chineseCharacter,
+      pinyin: entry.pinyin,
+      characters,
+      missing
+    };
+  }
+
+  /**
+   * Directory of the bundled stroke data files
+   */
+  private static getDataDirectory(): string {
+    if (!this.dataDirectory) {
+      this.dataDirectory = path.dirname(require.resolve('hanzi-writer-data/package.json'));
+    }
+    return this.dataDirectory;
+  }
+}
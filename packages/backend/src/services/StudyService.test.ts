@@ -0,0 +1,147 @@
+/**
+ * StudyService Tests
+ *
+ * Unit tests for today's queue counts and the daily new-word limit.
+ */
+
+import { StudyService } from './StudyService';
+import { ChapterFilter } from './ChapterFilter';
+import { ReviewStateDAO, ReviewState } from '../models/ReviewState';
+import { UserDAO, User } from '../models/User';
+import { config } from '../config/env';
+
+jest.mock('./ChapterFilter');
+jest.mock('../models/ReviewState');
+jest.mock('../models/User');
+
+const mockChapterFilter = ChapterFilter as jest.Mocked<typeof ChapterFilter>;
+const mockReviewStateDAO = ReviewStateDAO as jest.Mocked<typeof ReviewStateDAO>;
+const mockUserDAO = UserDAO as jest.Mocked<typeof UserDAO>;
+
+describe('StudyService', () => {
+  const makeUser = (id: number, dailyNewLimit: number | null, parentId: number | null = null): User => ({
+    id,
+    username: `user-${id}`,
+    secretPhraseHash: 'hash',
+    role: parentId ? 'child' : 'parent',
+    parentId,
+    dailyNewLimit,
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+  const reviewState = (vocabularyId: string, dueInMs: number): ReviewState => ({
+    userId: 1,
+    vocabularyId,
+    mode: 'ChineseToMeanings',
+    easeFactor: 2.5,
+    intervalDays: 1,
+    repetitions: 1,
+    lapses: 0,
+    dueAt: new Date(Date.now() + dueInMs)
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('startOfToday', () => {
+    it('should return midnight of the given day', () => {
+      const start = StudyService.startOfToday(new Date(2024, 4, 17, 15, 30));
+
+      expect(start).toEqual(new Date(2024, 4, 17, 0, 0, 0, 0));
+    });
+  });
+
+  describe('resolveDailyNewLimit', () => {
+    it("should use the owner's own limit when they study their own words", async () => {
+      await expect(StudyService.resolveDailyNewLimit(makeUser(1, 5), 1)).resolves.toBe(5);
+      expect(mockUserDAO.findById).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the configured default', async () => {
+      await expect(StudyService.resolveDailyNewLimit(makeUser(1, null), 1)).resolves.toBe(config.flashcard.dailyNewLimit);
+    });
+
+    it("should use a child's own limit when they study their parent's words", async () => {
+      mockUserDAO.findById.mockResolvedValue(makeUser(2, 3, 1));
+
+      const limit = await StudyService.resolveDailyNewLimit(makeUser(1, 10), 2);
+
+      expect(limit).toBe(3);
+      expect(mockUserDAO.findById).toHaveBeenCalledWith(2);
+    });
+
+    it("should not apply the owner's limit to another learner", async () => {
+      mockUserDAO.findById.mockResolvedValue({ ...makeUser(9, null), role: 'admin' });
+
+      const limit = await StudyService.resolveDailyNewLimit(makeUser(1, 10), 9);
+
+      expect(limit).toBe(config.flashcard.dailyNewLimit);
+      expect(mockUserDAO.findById).toHaveBeenCalledWith(9);
+    });
+  });
+
+  describe('getToday', () => {
+    beforeEach(() => {
+      mockChapterFilter.getVocabularyInRange.mockResolvedValue(['v1', 'v2', 'v3', 'v4', 'v5']);
+      mockReviewStateDAO.findByVocabularyIds.mockResolvedValue([
+        reviewState('v1', -60 * 1000),
+        reviewState('v2', -1000),
+        reviewState('v3', 86400 * 1000)
+      ]);
+    });
+
+    it('should count due reviews and the new words left under the limit', async () => {
+      mockReviewStateDAO.countCreatedSince.mockResolvedValue(1);
+
+      const summary = await StudyService.getToday(1, 1, 'ChineseToMeanings', { chapters: [3, 7] }, 2);
+
+      expect(summary).toEqual({
+        mode: 'ChineseToMeanings',
+        dueReviews: 2,
+        newIntroducedToday: 1,
+        dailyNewLimit: 2,
+        newAvailable: 2,
+        newRemaining: 1,
+        remaining: 3
+      });
+      expect(mockChapterFilter.getVocabularyInRange).toHaveBeenCalledWith(1, { chapters: [3, 7] });
+    });
+
+    it('should not offer more new words than are available', async () => {
+      mockReviewStateDAO.countCreatedSince.mockResolvedValue(0);
+
+      const summary = await StudyService.getToday(1, 1, 'ChineseToMeanings', {}, 20);
+
+      expect(summary.newRemaining).toBe(2);
+      expect(summary.remaining).toBe(4);
+    });
+
+    it("should count each child's new words against their own limit when siblings share a parent's words", async () => {
+      // Child 2 introduced three words today, child 3 none
+      mockReviewStateDAO.countCreatedSince.mockImplementation(async (userId) => (userId === 2 ? 3 : 0));
+
+      const first = await StudyService.getToday(1, 2, 'ChineseToMeanings', {}, 3);
+      const second = await StudyService.getToday(1, 3, 'ChineseToMeanings', {}, 3);
+
+      expect(first.newIntroducedToday).toBe(3);
+      expect(first.newRemaining).toBe(0);
+      expect(second.newIntroducedToday).toBe(0);
+      expect(second.newRemaining).toBe(2);
+      expect(mockChapterFilter.getVocabularyInRange).toHaveBeenCalledWith(1, {});
+      expect(mockReviewStateDAO.findByVocabularyIds).toHaveBeenCalledWith(2, 'ChineseToMeanings', ['v1', 'v2', 'v3', 'v4', 'v5']);
+      expect(mockReviewStateDAO.findByVocabularyIds).toHaveBeenCalledWith(3, 'ChineseToMeanings', ['v1', 'v2', 'v3', 'v4', 'v5']);
+    });
+
+    it('should offer no new words once the limit is reached', async () => {
+      mockReviewStateDAO.countCreatedSince.mockResolvedValue(25);
+
+      const summary = await StudyService.getToday(1, 1, 'ChineseToMeanings', {}, 20);
+
+      expect(summary.newRemaining).toBe(0);
+      expect(summary.remaining).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * StudyService
+ *
+ * Daily review queue ("today's session"): the reviews that are due plus a limited number of
+ * new words per day. The new-word limit is set per user, so parents can pace their children;
+ * users without their own limit get DAILY_NEW_CARD_LIMIT. Like the review schedule itself,
+ * the queue and the limit are kept per flashcard mode and per learner: children sharing their
+ * parent's words each count the new words they introduced themselves.
+ */
+
+import { ChapterFilter, ChapterScope } from './ChapterFilter';
+import { ReviewStateDAO } from '../models/ReviewState';
+import { User, UserDAO } from '../models/User';
+import { config } from '../config/env';
+
+/**
+ * Today's queue for one flashcard mode
+ */
+export interface TodaySummary {
+  mode: string;
+  dueReviews: number;         // words whose review is due now
+  newIntroducedToday: number; // words seen for the first time today
+  dailyNewLimit: number;
+  newAvailable: number;       // words in the selection never seen in this mode
+  newRemaining: number;       // new words that can still be introduced today
+  remaining: number;          // cards left in today's session
+}
+
+/**
+ * StudyService class for the daily review queue
+ */
+export class StudyService {
+  /**
+   * Start of the current day (server time)
+   */
+  static startOfToday(now: Date = new Date()): Date {
+    const start = new Date(now);
+    start.setHours(0, 0, 0, 0);
+    return start;
+  }
+
+  /**
+   * Resolve the daily new-word limit of the learner studying a user's vocabulary
+   * The limit always comes from the learner whose new words are counted, so a child studying their
+   * parent's words is paced by their own limit.
+   * @param owner - Owner of the vocabulary
+   * @param learnerId - User studying it
+   */
+  static async resolveDailyNewLimit(owner: User, learnerId: number): Promise<number> {
+    const learner = learnerId === owner.id ? owner : await UserDAO.findById(learnerId);
+    return learner?.dailyNewLimit ?? config.flashcard.dailyNewLimit;
+  }
+
+  /**
+   * Number of new words that can still be introduced today in one mode
+   * @param userId - Learner user ID
+   * @param mode - Flashcard mode
+   * @param dailyNewLimit - New words per day
+   */
+  static async newCardsLeftToday(userId: number, mode: string, dailyNewLimit: number): Promise<number> {
+    const introduced = await ReviewStateDAO.countCreatedSince(userId, mode, this.startOfToday());
+    return Math.max(0, dailyNewLimit - introduced);
+  }
+
+  /**
+   * Get today's queue for one mode
+   * @param ownerId - Owner of the vocabulary
+   * @param learnerId - User studying it, whose reviews and new words are counted
+   * @param mode - Flashcard mode
+   * @param scope - Chapter range or selection
+   * @param dailyNewLimit - New words per day
+   */
+  static async getToday(
+    ownerId: number,
+    learnerId: number,
+    mode: string,
+    scope: ChapterScope,
+    dailyNewLimit: number
+  ): Promise<TodaySummary> {
+    const vocabularyIds = await ChapterFilter.getVocabularyInRange(ownerId, scope);
+    const reviewStates = await ReviewStateDAO.findByVocabularyIds(learnerId, mode, vocabularyIds);
+    const newIntroducedToday = await ReviewStateDAO.countCreatedSince(learnerId, mode, this.startOfToday());
+
+    const now = Date.now();
+    const dueReviews = reviewStates.filter(state => new Date(state.dueAt).getTime() <= now).length;
+    const newAvailable = vocabularyIds.length - reviewStates.length;
+    const newRemaining = Math.min(newAvailable, Math.max(0, dailyNewLimit - newIntroducedToday));
+
+    return {
+      mode,
+      dueReviews,
+      newIntroducedToday,
+      dailyNewLimit,
+      newAvailable,
+      newRemaining,
+      remaining: dueReviews + newRemaining
+    };
+  }
+}
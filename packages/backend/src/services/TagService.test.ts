@@ -0,0 +1,108 @@
+/**
+ * TagService Tests
+ *
+ * Unit tests for tag name parsing, tag management and assigning tags to entries.
+ */
+
+import { TagService } from './TagService';
+import { TagDAO, Tag } from '../models/Tag';
+import { VocabularyEntryDAO, VocabularyEntry } from '../models/VocabularyEntry';
+
+jest.mock('../models/Tag');
+jest.mock('../models/VocabularyEntry');
+
+const mockTagDAO = TagDAO as jest.Mocked<typeof TagDAO>;
+const mockVocabularyEntryDAO = VocabularyEntryDAO as jest.Mocked<typeof VocabularyEntryDAO>;
+
+describe('TagService', () => {
+  const food: Tag = { id: 3, userId: 1, name: 'food', entryCount: 2, createdAt: new Date() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockVocabularyEntryDAO.findById.mockImplementation(async (_userId: number, id: string) =>
+      (id.startsWith('v') ? { id } as VocabularyEntry : null));
+    mockTagDAO.ensure.mockResolvedValue([3, 4]);
+  });
+
+  describe('parseNames', () => {
+    it('should split on commas, trim and drop repeats ignoring case', () => {
+      expect(TagService.parseNames('food, HSK2,,Food')).toEqual(['food', 'HSK2']);
+      expect(TagService.parseNames(['measure words', 'exam week 3, food'])).toEqual(['measure words', 'exam week 3', 'food']);
+    });
+
+    it('should reject names that are too long or not strings', () => {
+      expect(() => TagService.parseNames('x'.repeat(51))).toThrow('Invalid tag');
+      expect(() => TagService.parseNames([3])).toThrow('Invalid tag');
+    });
+  });
+
+  describe('create', () => {
+    it('should create a tag with the trimmed name', async () => {
+      mockTagDAO.create.mockResolvedValue(food);
+
+      await expect(TagService.create(1, ' food ')).resolves.toBe(food);
+      expect(mockTagDAO.create).toHaveBeenCalledWith(1, 'food');
+    });
+
+    it('should reject empty names and names with commas', async () => {
+      await expect(TagService.create(1, '  ')).rejects.toThrow('Invalid tag: name is required');
+      await expect(TagService.create(1, 'food, drinks')).rejects.toThrow('Invalid tag');
+      expect(mockTagDAO.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rename and delete', () => {
+    it('should return the renamed tag', async () => {
+      mockTagDAO.rename.mockResolvedValue(true);
+      mockTagDAO.findById.mockResolvedValue({ ...food, name: 'snacks' });
+
+      await expect(TagService.rename(1, 3, 'snacks')).resolves.toMatchObject({ name: 'snacks' });
+      expect(mockTagDAO.rename).toHaveBeenCalledWith(1, 3, 'snacks');
+    });
+
+    it('should throw when the tag does not exist', async () => {
+      mockTagDAO.rename.mockResolvedValue(false);
+      mockTagDAO.delete.mockResolvedValue(false);
+
+      await expect(TagService.rename(1, 9, 'snacks')).rejects.toThrow('Tag not found');
+      await expect(TagService.delete(1, 9)).rejects.toThrow('Tag not found');
+    });
+  });
+
+  describe('setEntryTags', () => {
+    it('should replace the tags of the entry', async () => {
+      mockTagDAO.findNamesByVocabularyIds.mockResolvedValue({ v1: ['food', 'HSK2'] });
+
+      await expect(TagService.setEntryTags(1, 'v1', ['food', 'HSK2'])).resolves.toEqual(['food', 'HSK2']);
+      expect(mockTagDAO.ensure).toHaveBeenCalledWith(1, ['food', 'HSK2']);
+      expect(mockTagDAO.setForEntry).toHaveBeenCalledWith('v1', [3, 4]);
+    });
+
+    it('should throw for an unknown entry', async () => {
+      await expect(TagService.setEntryTags(1, 'x1', ['food'])).rejects.toThrow('Vocabulary entry not found');
+      expect(mockTagDAO.setForEntry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assign', () => {
+    it('should add and remove tags on every entry', async () => {
+      mockTagDAO.ensure.mockResolvedValue([3]);
+      mockTagDAO.findByName.mockImplementation(async (_userId: number, name: string) =>
+        (name === 'HSK2' ? { ...food, id: 4, name } : null));
+
+      await expect(TagService.assign(1, ['v1', 'v2', 'v1'], { add: ['food'], remove: ['HSK2', 'unknown'] })).resolves.toBe(2);
+      expect(mockTagDAO.addToEntries).toHaveBeenCalledWith([3], ['v1', 'v2']);
+      expect(mockTagDAO.removeFromEntries).toHaveBeenCalledWith([4], ['v1', 'v2']);
+    });
+
+    it('should change nothing when an entry does not exist', async () => {
+      await expect(TagService.assign(1, ['v1', 'x1'], { add: ['food'] })).rejects.toThrow('Vocabulary entry x1 not found');
+      expect(mockTagDAO.addToEntries).not.toHaveBeenCalled();
+    });
+
+    it('should require entries and tags', async () => {
+      await expect(TagService.assign(1, [], { add: ['food'] })).rejects.toThrow('At least one entry is required');
+      await expect(TagService.assign(1, ['v1'], {})).rejects.toThrow('At least one tag');
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * TagService
+ *
+ * Free-form tags on vocabulary ("food", "HSK2", "measure words", "exam week 3") for themed review sets.
+ * Tags are created, renamed and deleted here and assigned to entries one by one or in bulk; filtering by
+ * tag goes through ChapterFilter (tags / excludeTags), so every study mode can use it.
+ */
+
+import { TagDAO, Tag } from '../models/Tag';
+import { VocabularyEntryDAO } from '../models/VocabularyEntry';
+
+/**
+ * Tag changes for many entries at once
+ */
+export interface TagAssignment {
+  add?: string[];
+  remove?: string[];
+}
+
+/**
+ * TagService class for tag management and assignment
+ */
+export class TagService {
+  static readonly MAX_NAME_LENGTH = 50;
+
+  /**
+   * Parse a list of tag names ("food, HSK2" or ['food', 'HSK2'])
+   * Names are trimmed and deduplicated ignoring case; empty names are dropped.
+   * @throws Error starting with "Invalid tag" when a name is too long or not a string
+   */
+  static parseNames(value: unknown): string[] {
+    const items = (Array.isArray(value) ? value : [value])
+      .flatMap(item => (typeof item === 'string' ? item.split(',') : [item]));
+
+    const names: string[] = [];
+    for (const item of items) {
+      if (typeof item !== 'string') {
+        throw new Error('Invalid tag: tags must be strings');
+      }
+      const name = item.trim();
+      if (name.length > this.MAX_NAME_LENGTH) {
+        throw new Error(`Invalid tag: "${name}" is longer than ${this.MAX_NAME_LENGTH} characters`);
+      }
+      if (name && !names.some(existing => existing.toLowerCase() === name.toLowerCase())) {
+        names.push(name);
+      }
+    }
+    return names;
+  }
+
+  /**
+   * List the tags of a user with the number of entries carrying each
+   */
+  static async list(userId: number): Promise<Tag[]> {
+    return TagDAO.findByUserId(userId);
+  }
+
+  /**
+   * Create a tag
+   * @throws Error when the name is invalid or already taken
+   */
+  static async create(userId: number, name: unknown): Promise<Tag> {
+    return TagDAO.create(userId, this.parseName(name));
+  }
+
+  /**
+   * Rename a tag; entries keep it under the new name
+   * @throws Error when the tag does not exist or the name is invalid or already taken
+   */
+  static async rename(userId: number, tagId: number, name: unknown): Promise<Tag> {
+    if (!(await TagDAO.rename(userId, tagId, this.parseName(name)))) {
+      throw new Error('Tag not found');
+    }
+
+    const renamed = await TagDAO.findById(userId, tagId);
+    if (!renamed) {
+      throw new Error('Tag not found');
+    }
+    return renamed;
+  }
+
+  /**
+   * Delete a tag and remove it from every entry; the entries themselves stay
+   */
+  static async delete(userId: number, tagId: number): Promise<void> {
+    if (!(await TagDAO.delete(userId, tagId))) {
+      throw new Error('Tag not found');
+    }
+  }
+
+  /**
+   * Replace the tags of an entry, creating tags that do not exist yet
+   * @returns The entry's tag names, alphabetically
+   */
+  static async setEntryTags(userId: number, vocabularyId: string, names: string[]): Promise<string[]> {
+    if (!(await VocabularyEntryDAO.findById(userId, vocabularyId))) {
+      throw new Error('Vocabulary entry not found');
+    }
+
+    await TagDAO.setForEntry(vocabularyId, await TagDAO.ensure(userId, names));
+    return (await TagDAO.findNamesByVocabularyIds([vocabularyId]))[vocabularyId] || [];
+  }
+
+  /**
+   * Add and remove tags on many entries, creating added tags that do not exist yet
+   * @returns Number of entries changed
+   * @throws Error when an entry does not exist; nothing is changed then
+   */
+  static async assign(userId: number, vocabularyIds: string[], assignment: TagAssignment): Promise<number> {
+    const ids = Array.from(new Set(vocabularyIds));
+    if (ids.length === 0) {
+      throw new Error('At least one entry is required');
+    }
+    const add = assignment.add || [];
+    const remove = assignment.remove || [];
+    if (add.length === 0 && remove.length === 0) {
+      throw new Error('At least one tag to add or remove is required');
+    }
+
+    for (const id of ids) {
+      if (!(await VocabularyEntryDAO.findById(userId, id))) {
+        throw new Error(`Vocabulary entry ${id} not found`);
+      }
+    }
+
+    await TagDAO.addToEntries(await TagDAO.ensure(userId, add), ids);
+    if (remove.length > 0) {
+      const removeIds: number[] = [];
+      for (const name of remove) {
+        const tag = await TagDAO.findByName(userId, name);
+        if (tag) removeIds.push(tag.id);
+      }
+      await TagDAO.removeFromEntries(removeIds, ids);
+    }
+    return ids.length;
+  }
+
+  /**
+   * Add tags to entries, e.g. every word of a batch upload
+   */
+  static async addToEntries(userId: number, vocabularyIds: string[], names: string[]): Promise<void> {
+    await TagDAO.addToEntries(await TagDAO.ensure(userId, names), vocabularyIds);
+  }
+
+  /**
+   * Validate a single tag name
+   */
+  private static parseName(name: unknown): string {
+    if (typeof name !== 'string' || name.includes(',')) {
+      throw new Error('Invalid tag: name must be a string without commas');
+    }
+    const [parsed] = this.parseNames(name);
+    if (!parsed) {
+      throw new Error('Invalid tag: name is required');
+    }
+    return parsed;
+  }
+}
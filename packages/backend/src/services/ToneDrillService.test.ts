@@ -0,0 +1,155 @@
+/**
+ * ToneDrillService Tests
+ *
+ * Unit tests for picking drill words, checking tones per syllable and tone pair,
+ * and aggregating tone pair stats.
+ */
+
+import { ToneDrillService } from './ToneDrillService';
+import { ChapterFilter } from './ChapterFilter';
+import { VocabularyEntryDAO, VocabularyEntry } from '../models/VocabularyEntry';
+import { ToneDrillResultDAO } from '../models/ToneDrillResult';
+
+jest.mock('./ChapterFilter');
+jest.mock('../models/VocabularyEntry');
+jest.mock('../models/ToneDrillResult');
+
+const mockChapterFilter = ChapterFilter as jest.Mocked<typeof ChapterFilter>;
+const mockVocabularyEntryDAO = VocabularyEntryDAO as jest.Mocked<typeof VocabularyEntryDAO>;
+const mockToneDrillResultDAO = ToneDrillResultDAO as jest.Mocked<typeof ToneDrillResultDAO>;
+
+describe('ToneDrillService', () => {
+  const makeEntry = (id: string, chineseCharacter: string, pinyin: string): VocabularyEntry => ({
+    id,
+    userId: 1,
+    username: 'parent',
+    chineseCharacter,
+    pinyin,
+    englishMeaning: 'meaning',
+    chapter: 1,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('tonePairs', () => {
+    it('should pair neighbouring syllables', () => {
+      expect(ToneDrillService.tonePairs([3, 3])).toEqual(['3-3']);
+      expect(ToneDrillService.tonePairs([1, 2, 3])).toEqual(['1-2', '2-3']);
+    });
+
+    it('should use the single tone of a one-syllable word', () => {
+      expect(ToneDrillService.tonePairs([4])).toEqual(['4']);
+    });
+  });
+
+  describe('getDrill', () => {
+    it('should pick words from the selection without revealing their tones', async () => {
+      mockChapterFilter.getVocabularyInRange.mockResolvedValue(['v1', 'v2']);
+      mockVocabularyEntryDAO.findByUserId.mockResolvedValue([
+        makeEntry('v1', '你好', 'nǐ hǎo'),
+        makeEntry('v2', '谢谢', ''),
+        makeEntry('v3', '再见', 'zài jiàn')
+      ]);
+
+      const items = await ToneDrillService.getDrill(1, { ranges: [{ start: 1, end: 2 }] }, 10);
+
+      expect(items.map(item => item.vocabularyId).sort()).toEqual(['v1', 'v2']);
+      expect(items.find(item => item.vocabularyId === 'v2')!.syllableCount).toBe(2);
+      expect(items[0]).not.toHaveProperty('pinyin');
+    });
+
+    it('should limit the number of words', async () => {
+      mockChapterFilter.getVocabularyInRange.mockResolvedValue(['v1', 'v2', 'v3']);
+      mockVocabularyEntryDAO.findByUserId.mockResolvedValue([
+        makeEntry('v1', '你好', 'nǐ hǎo'),
+        makeEntry('v2', '谢谢', 'xiè xie'),
+        makeEntry('v3', '再见', 'zài jiàn')
+      ]);
+
+      const items = await ToneDrillService.getDrill(1, {}, 2);
+
+      expect(items).toHaveLength(2);
+    });
+
+    it('should throw when the selection has no words', async () => {
+      mockChapterFilter.getVocabularyInRange.mockResolvedValue([]);
+      mockVocabularyEntryDAO.findByUserId.mockResolvedValue([makeEntry('v1', '你好', 'nǐ hǎo')]);
+
+      await expect(ToneDrillService.getDrill(1, {})).rejects.toThrow('No vocabulary found for tone drill');
+    });
+  });
+
+  describe('checkAnswer', () => {
+    it('should accept the tones of the stored pinyin and record them for the learner', async () => {
+      mockVocabularyEntryDAO.findById.mockResolvedValue(makeEntry('v1', '你好', 'nǐ hǎo'));
+
+      const result = await ToneDrillService.checkAnswer(1, 2, 'v1', [3, 3]);
+
+      expect(result.correct).toBe(true);
+      expect(result.pinyin).toBe('nǐ hǎo');
+      expect(result.tonePairs).toEqual([{ expected: '3-3', answered: '3-3', correct: true }]);
+      expect(mockVocabularyEntryDAO.findById).toHaveBeenCalledWith(1, 'v1');
+      expect(mockToneDrillResultDAO.record).toHaveBeenCalledWith(2, '3-3', '3-3');
+    });
+
+    it('should record a 3-3 word answered as 2-3 as a confusion', async () => {
+      mockVocabularyEntryDAO.findById.mockResolvedValue(makeEntry('v1', '你好', 'nǐ hǎo'));
+
+      const result = await ToneDrillService.checkAnswer(1, 2, 'v1', [2, 3]);
+
+      expect(result.correct).toBe(false);
+      expect(result.syllables[0]).toEqual({ pinyin: 'nǐ', expected: 3, given: 2, correct: false });
+      expect(result.syllables[1].correct).toBe(true);
+      expect(mockToneDrillResultDAO.record).toHaveBeenCalledWith(2, '3-3', '2-3');
+    });
+
+    it('should fall back to the pinyin library when no pinyin is stored', async () => {
+      mockVocabularyEntryDAO.findById.mockResolvedValue(makeEntry('v1', '谢谢', ''));
+
+      const result = await ToneDrillService.checkAnswer(1, 1, 'v1', [4, 4]);
+
+      expect(result.syllables.map(syllable => syllable.expected)).toEqual([4, 4]);
+    });
+
+    it('should throw when the number of tones does not match', async () => {
+      mockVocabularyEntryDAO.findById.mockResolvedValue(makeEntry('v1', '你好', 'nǐ hǎo'));
+
+      await expect(ToneDrillService.checkAnswer(1, 1, 'v1', [3])).rejects.toThrow('Expected 2 tones');
+      expect(mockToneDrillResultDAO.record).not.toHaveBeenCalled();
+    });
+
+    it('should throw for an unknown word', async () => {
+      mockVocabularyEntryDAO.findById.mockResolvedValue(null);
+
+      await expect(ToneDrillService.checkAnswer(1, 1, 'missing', [1])).rejects.toThrow('Vocabulary entry not found');
+    });
+  });
+
+  describe('getStats', () => {
+    it('should report accuracy and confusions per tone pair, weakest first', async () => {
+      mockToneDrillResultDAO.findByUserId.mockResolvedValue([
+        { userId: 2, expectedTones: '3-3', answeredTones: '3-3', count: 1 },
+        { userId: 2, expectedTones: '3-3', answeredTones: '2-3', count: 3 },
+        { userId: 2, expectedTones: '1', answeredTones: '1', count: 4 },
+        { userId: 2, expectedTones: '2-3', answeredTones: '3-3', count: 1 },
+        { userId: 2, expectedTones: '2-3', answeredTones: '2-3', count: 1 }
+      ]);
+
+      const stats = await ToneDrillService.getStats(2);
+
+      expect(stats.map(pair => pair.tonePair)).toEqual(['3-3', '2-3', '1']);
+      expect(stats[0]).toEqual({
+        tonePair: '3-3',
+        attempts: 4,
+        correct: 1,
+        accuracy: 0.25,
+        confusions: [{ answered: '2-3', count: 3 }]
+      });
+      expect(stats[2].accuracy).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * ToneDrillService
+ *
+ * Tone training: the learner hears a word and picks the tone of each syllable.
+ * The correct tones come from the stored pinyin, or from the pinyin library when it is empty
+ * (see PinyinUtils.syllablesOf). They are citation tones, so a 3-3 word is expected as 3-3
+ * even though it is spoken as 2-3; the stats then show how well the learner knows the sandhi.
+ *
+ * Answers are recorded per tone pair (every two neighbouring syllables, or the single tone of
+ * a one-syllable word) together with the pair the learner chose.
+ */
+
+import { ChapterFilter, ChapterScope } from './ChapterFilter';
+import { PinyinUtils } from './PinyinUtils';
+import { VocabularyEntryDAO } from '../models/VocabularyEntry';
+import { ToneDrillResultDAO } from '../models/ToneDrillResult';
+
+/**
+ * A word to drill (its tones are only revealed by checkAnswer)
+ */
+export interface ToneDrillItem {
+  vocabularyId: string;
+  chineseCharacter: string;
+  syllableCount: number;
+  englishMeaning?: string;
+  modernVietnamese?: string;
+}
+
+/**
+ * Result for one syllable
+ */
+export interface ToneSyllableResult {
+  pinyin: string;   // tone-marked syllable
+  expected: number;
+  given: number;
+  correct: boolean;
+}
+
+/**
+ * Result of one tone drill answer
+ */
+export interface ToneDrillResultSummary {
+  correct: boolean;
+  pinyin: string;
+  syllables: ToneSyllableResult[];
+  tonePairs: { expected: string; answered: string; correct: boolean }[];
+}
+
+/**
+ * Accuracy and confusions of one tone pair
+ */
+export interface TonePairStats {
+  tonePair: string;
+  attempts: number;
+  correct: number;
+  accuracy: number; // 0..1
+  confusions: { answered: string; count: number }[]; // wrong answers, most frequent first
+}
+
+/**
+ * ToneDrillService class for tone training
+ */
+export class ToneDrillService {
+  static readonly DEFAULT_COUNT = 10;
+
+  /**
+   * Split a word's tones into the pairs that are recorded
+   * @param tones - Tone of each syllable (1-4, 5 for neutral)
+   * @returns "a-b" for every two neighbouring syllables, or the single tone of a one-syllable word
+   */
+  static tonePairs(tones: number[]): string[] {
+    if (tones.length === 1) {
+      return [String(tones[0])];
+    }
+
+    const pairs: string[] = [];
+    for (let i = 0; i < tones.length - 1; i++) {
+      pairs.push(`${tones[i]}-${tones[i + 1]}`);
+    }
+    return pairs;
+  }
+
+  /**
+   * Pick random words for a drill
+   * @param userId - Owner user ID
+   * @param scope - Chapter range or selection
+   * @param count - Number of words
+   */
+  static async getDrill(userId: number, scope: ChapterScope, count: number = this.DEFAULT_COUNT): Promise<ToneDrillItem[]> {
+    const ids = new Set(await ChapterFilter.getVocabularyInRange(userId, scope));
+    const items = (await VocabularyEntryDAO.findByUserId(userId))
+      .filter(entry => ids.has(entry.id))
+      .map(entry => ({
+        vocabularyId: entry.id,
+        chineseCharacter: entry.chineseCharacter,
+        syllableCount: PinyinUtils.syllablesOf(entry.chineseCharacter, entry.pinyin).length,
+        englishMeaning: entry.englishMeaning,
+        modernVietnamese: entry.modernVietnamese
+      }))
+      .filter(item => item.syllableCount > 0);
+
+    if (items.length === 0) {
+      throw new Error('No vocabulary found for tone drill');
+    }
+
+    // Fisher-Yates shuffle
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+
+    return items.slice(0, count);
+  }
+
+  /**
+   * Check the tones chosen for a word and record them per tone pair
+   * @param ownerId - Owner of the vocabulary
+   * @param learnerId - User whose results are recorded
+   * @param vocabularyId - Vocabulary entry ID
+   * @param tones - Chosen tone of each syllable (1-4, 5 for neutral)
+   */
+  static async checkAnswer(ownerId: number, learnerId: number, vocabularyId: string, tones: number[]): Promise<ToneDrillResultSummary> {
+    const entry = await VocabularyEntryDAO.findById(ownerId, vocabularyId);
+    if (!entry) {
+      throw new Error('Vocabulary entry not found');
+    }
+
+    const expected = PinyinUtils.syllablesOf(entry.chineseCharacter, entry.pinyin);
+    if (tones.length !== expected.length) {
+      throw new Error(`Expected ${expected.length} tones for "${entry.chineseCharacter}"`);
+    }
+
+    const syllables = expected.map((syllable, i) => ({
+      pinyin: PinyinUtils.toToneMarked(syllable),
+      expected: syllable.tone,
+      given: tones[i],
+      correct: syllable.tone === tones[i]
+    }));
+
+    const expectedPairs = this.tonePairs(expected.map(syllable => syllable.tone));
+    const answeredPairs = this.tonePairs(tones);
+    const tonePairs = expectedPairs.map((pair, i) => ({
+      expected: pair,
+      answered: answeredPairs[i],
+      correct: pair === answeredPairs[i]
+    }));
+
+    for (const pair of tonePairs) {
+      await ToneDrillResultDAO.record(learnerId, pair.expected, pair.answered);
+    }
+
+    return {
+      correct: syllables.every(syllable => syllable.correct),
+      pinyin: syllables.map(syllable => syllable.pinyin).join(' '),
+      syllables,
+      tonePairs
+    };
+  }
+
+  /**
+   * Get a learner's accuracy per tone pair, weakest pair first
+   * @param learnerId - User whose results are reported
+   */
+  static async getStats(learnerId: number): Promise<TonePairStats[]> {
+    const results = await ToneDrillResultDAO.findByUserId(learnerId);
+    const byPair = new Map<string, TonePairStats>();
+
+    for (const result of results) {
+      let stats = byPair.get(result.expectedTones);
+      if (!stats) {
+        stats = { tonePair: result.expectedTones, attempts: 0, correct: 0, accuracy: 0, confusions: [] };
+        byPair.set(result.expectedTones, stats);
+      }
+
+      stats.attempts += result.count;
+      if (result.answeredTones === result.expectedTones) {
+        stats.correct += result.count;
+      } else {
+        stats.confusions.push({ answered: result.answeredTones, count: result.count });
+      }
+    }
+
+    const stats = Array.from(byPair.values());
+    for (const pair of stats) {
+      pair.accuracy = pair.attempts > 0 ? pair.correct / pair.attempts : 0;
+      pair.confusions.sort((a, b) => b.count - a.count);
+    }
+
+    return stats.sort((a, b) => a.accuracy - b.accuracy || b.attempts - a.attempts);
+  }
+}
@@ -153,6 +153,40 @@ describe('TranslationService', () => {
     });
   });
 
+  describe('offline dictionary', () => {
+    const env = { ...process.env };
+
+    beforeEach(() => {
+      delete process.env.GOOGLE_TRANSLATE_API_KEY;
+      delete process.env.GOOGLE_AI_API_KEY;
+      delete process.env.TRANSLATION_PROVIDER;
+      delete process.env.USE_MOCK_TRANSLATIONS;
+    });
+
+    afterEach(() => {
+      process.env = { ...env };
+    });
+
+    it('should look English meanings of words up in the dictionary first', async () => {
+      await expect(service.translateToEnglish('你好')).resolves.toBe('hello; hi');
+      expect(mockTranslate.translate).not.toHaveBeenCalled();
+    });
+
+    it('should use the reading to pick the meaning of a polyphone', async () => {
+      await expect(service.translateToEnglish('得', 'děi')).resolves.toMatch(/must/);
+    });
+
+    it('should fall back to the dictionary when Google Translate is not available', async () => {
+      process.env.TRANSLATION_PROVIDER = 'google';
+
+      await expect(service.translateToEnglish('学习')).resolves.toMatch(/^to learn/);
+    });
+
+    it('should keep the mock translation for text the dictionary does not know', async () => {
+      await expect(service.translateToEnglish('我喜欢喝茶')).resolves.toBe('[English translation of: 我喜欢喝茶]');
+    });
+  });
+
   describe('Edge cases', () => {
     it('should handle empty string translation', async () => {
       const emptyText = '';
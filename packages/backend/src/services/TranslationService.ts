@@ -1,8 +1,13 @@
 import { v2 } from '@google-cloud/translate';
+import { config } from '../config/env';
+import { CedictDictionary } from './CedictDictionary';
 
 /**
  * Translation Service using Google Cloud Translation API with fallback to mock translations
  * Provides methods to translate Chinese text to Vietnamese and English
+ *
+ * English meanings of dictionary words come from the bundled CC-CEDICT (CedictDictionary): first, or only
+ * when Google Translate is unavailable with TRANSLATION_PROVIDER=google. Vietnamese has no offline source.
  */
 export class TranslationService {
   private translate: v2.Translate | null = null;
@@ -65,6 +70,19 @@ export class TranslationService {
     }
   }
 
+  /**
+   * English gloss from the offline dictionary
+   * @returns null when the word is not in the dictionary or the dictionary cannot be read
+   */
+  private async lookUpEnglish(text: string, pinyin?: string): Promise<string | null> {
+    try {
+      return await CedictDictionary.gloss(text, pinyin);
+    } catch (error: any) {
+      console.error('[Translation] Dictionary lookup failed:', error?.message || error);
+      return null;
+    }
+  }
+
   /**
    * Add delay between requests to avoid rate limiting
    */
@@ -109,19 +127,32 @@ export class TranslationService {
 
   /**
    * Translate Chinese text to English
+   * @param pinyin - Reading of the text, to pick the right dictionary meaning of a polyphone
    */
-  async translateToEnglish(chineseText: string): Promise<string> {
+  async translateToEnglish(chineseText: string, pinyin?: string): Promise<string> {
+    this.initialize(); // Lazy initialization
+
+    const dictionaryFirst = config.translation.provider === 'dictionary';
+    if (dictionaryFirst) {
+      const gloss = await this.lookUpEnglish(chineseText, pinyin);
+      if (gloss) {
+        return gloss;
+      }
+    }
+
+    // Without Google Translate the dictionary is the fallback, unless it was already asked
+    const fallback = async () =>
+      (!dictionaryFirst && await this.lookUpEnglish(chineseText, pinyin)) || this.mockTranslate(chineseText, 'en');
+
     try {
-      this.initialize(); // Lazy initialization
-      
       if (!this.translate || this.useMockOnly) {
-        return this.mockTranslate(chineseText, 'en');
+        return await fallback();
       }
 
-      // If too many consecutive failures, use mock temporarily
+      // If too many consecutive failures, use the fallback temporarily
       if (this.consecutiveFailures >= this.MAX_FAILURES) {
-        console.log('[Translation] Too many failures, using mock translation for English');
-        return this.mockTranslate(chineseText, 'en');
+        console.log('[Translation] Too many failures, using fallback translation for English');
+        return await fallback();
       }
 
       console.log(`[Translation] Translating to English: ${chineseText}`);
@@ -138,7 +169,7 @@ export class TranslationService {
       this.consecutiveFailures++;
       console.error('[Translation] Translation to English failed:', error?.message || error);
       console.log(`[Translation] Consecutive failures: ${this.consecutiveFailures}/${this.MAX_FAILURES}`);
-      return this.mockTranslate(chineseText, 'en');
+      return await fallback();
     }
   }
 
@@ -0,0 +1,159 @@
+/**
+ * TrashService Tests
+ *
+ * Unit tests for the vocabulary trash: listing, restore and purging.
+ */
+
+import { TrashService } from './TrashService';
+import { VocabularyEntryDAO, VocabularyEntry } from '../models/VocabularyEntry';
+import { getPool } from '../config/database';
+import { ReviewStateDAO } from '../models/ReviewState';
+import { FlashcardSessionDAO } from '../models/FlashcardSession';
+import { TagDAO } from '../models/Tag';
+
+jest.mock('../models/VocabularyEntry');
+jest.mock('../config/database');
+jest.mock('../models/ReviewState');
+jest.mock('../models/FlashcardSession');
+jest.mock('../models/Tag');
+jest.mock('../models/VocabularyCharacter');
+jest.mock('../models/VocabularyRevision');
+
+const mockVocabularyEntryDAO = VocabularyEntryDAO as jest.Mocked<typeof VocabularyEntryDAO>;
+
+describe('TrashService', () => {
+  const makeEntry = (id: string, deletedAt?: Date): VocabularyEntry => ({
+    id,
+    userId: 1,
+    username: 'parent',
+    chineseCharacter: '你好',
+    pinyin: 'nǐ hǎo',
+    chapter: 1,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    deletedAt
+  });
+
+  const originalRetention = process.env.VOCABULARY_TRASH_RETENTION_DAYS;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.VOCABULARY_TRASH_RETENTION_DAYS;
+  });
+
+  afterAll(() => {
+    if (originalRetention === undefined) {
+      delete process.env.VOCABULARY_TRASH_RETENTION_DAYS;
+    } else {
+      process.env.VOCABULARY_TRASH_RETENTION_DAYS = originalRetention;
+    }
+  });
+
+  describe('list', () => {
+    it('should list the trash with the purge date of each entry', async () => {
+      mockVocabularyEntryDAO.findDeleted.mockResolvedValue([makeEntry('v1', new Date('2026-03-01T12:00:00Z'))]);
+
+      const trash = await TrashService.list(1);
+
+      expect(mockVocabularyEntryDAO.findDeleted).toHaveBeenCalledWith(1);
+      expect(trash.retentionDays).toBe(30);
+      expect(trash.entries[0]).toMatchObject({ id: 'v1', purgeAt: new Date('2026-03-31T12:00:00Z') });
+    });
+
+    it('should use the configured retention period', async () => {
+      process.env.VOCABULARY_TRASH_RETENTION_DAYS = '7';
+      mockVocabularyEntryDAO.findDeleted.mockResolvedValue([makeEntry('v1', new Date('2026-03-01T12:00:00Z'))]);
+
+      const trash = await TrashService.list(1);
+
+      expect(trash.retentionDays).toBe(7);
+      expect(trash.entries[0].purgeAt).toEqual(new Date('2026-03-08T12:00:00Z'));
+    });
+  });
+
+  describe('restore', () => {
+    it('should restore each entry once', async () => {
+      mockVocabularyEntryDAO.restoreDeleted.mockImplementation(async (_userId, id) => makeEntry(id));
+
+      const restored = await TrashService.restore(1, ['v1', 'v2', 'v1'], 5);
+
+      expect(restored.map(entry => entry.id)).toEqual(['v1', 'v2']);
+      expect(mockVocabularyEntryDAO.restoreDeleted).toHaveBeenCalledTimes(2);
+      expect(mockVocabularyEntryDAO.restoreDeleted).toHaveBeenCalledWith(1, 'v1', 5);
+    });
+
+    it('should throw for an entry that is not in the trash', async () => {
+      mockVocabularyEntryDAO.restoreDeleted.mockResolvedValue(null);
+
+      await expect(TrashService.restore(1, ['v9'])).rejects.toThrow('Vocabulary entry v9 not found in the trash');
+    });
+
+    it('should require at least one entry', async () => {
+      await expect(TrashService.restore(1, [])).rejects.toThrow('At least one entry is required');
+    });
+  });
+
+  describe('purge', () => {
+    it('should purge the given entries', async () => {
+      mockVocabularyEntryDAO.purge.mockResolvedValue(2);
+
+      expect(await TrashService.purge(1, ['v1', 'v2'])).toBe(2);
+      expect(mockVocabularyEntryDAO.purge).toHaveBeenCalledWith(1, ['v1', 'v2']);
+    });
+
+    it('should empty the whole trash', async () => {
+      mockVocabularyEntryDAO.findDeleted.mockResolvedValue([makeEntry('v1', new Date()), makeEntry('v2', new Date())]);
+      mockVocabularyEntryDAO.purge.mockResolvedValue(2);
+
+      expect(await TrashService.purge(1, 'all')).toBe(2);
+      expect(mockVocabularyEntryDAO.purge).toHaveBeenCalledWith(1, ['v1', 'v2']);
+    });
+  });
+
+  describe('purged rows', () => {
+    // The real data access layer, with the tables it cleans up after mocked
+    const { VocabularyEntryDAO: ActualVocabularyEntryDAO } =
+      jest.requireActual<typeof import('../models/VocabularyEntry')>('../models/VocabularyEntry');
+    const query = jest.fn();
+
+    beforeEach(() => {
+      (getPool as jest.Mock).mockReturnValue({ query });
+      query.mockReset();
+    });
+
+    it('should remove the review states and flashcard sessions of purged entries', async () => {
+      query
+        .mockResolvedValueOnce([[{ id: 'v1' }, { id: 'v2' }]])
+        .mockResolvedValueOnce([{ affectedRows: 2 }]);
+
+      expect(await ActualVocabularyEntryDAO.purge(1, ['v1', 'v2'])).toBe(2);
+      expect(TagDAO.unlink).toHaveBeenCalledWith(['v1', 'v2']);
+      expect(ReviewStateDAO.deleteForVocabulary).toHaveBeenCalledWith(['v1', 'v2']);
+      expect(FlashcardSessionDAO.deleteForVocabulary).toHaveBeenCalledWith(['v1', 'v2']);
+    });
+
+    it('should remove the review states and flashcard sessions of all words of a user', async () => {
+      query.mockResolvedValueOnce([{ affectedRows: 5 }]);
+
+      expect(await ActualVocabularyEntryDAO.deleteAllForUser(1)).toBe(5);
+      expect(ReviewStateDAO.deleteAllForUser).toHaveBeenCalledWith(1);
+      expect(FlashcardSessionDAO.deleteAllForUser).toHaveBeenCalledWith(1);
+      expect(TagDAO.deleteAllForUser).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('purgeExpired', () => {
+    it('should purge entries deleted before the retention period', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-04-30T00:00:00Z'));
+      process.env.VOCABULARY_TRASH_RETENTION_DAYS = '10';
+      mockVocabularyEntryDAO.purgeDeletedBefore.mockResolvedValue(3);
+
+      try {
+        expect(await TrashService.purgeExpired()).toBe(3);
+        expect(mockVocabularyEntryDAO.purgeDeletedBefore).toHaveBeenCalledWith(new Date('2026-04-20T00:00:00Z'));
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * TrashService
+ *
+ * Trash bin for deleted vocabulary. Deleting an entry only moves it to the trash, where it can be
+ * restored until it is purged: by hand, or automatically once it has been in the trash for
+ * VOCABULARY_TRASH_RETENTION_DAYS (30 by default).
+ */
+
+import * as cron from 'node-cron';
+import { VocabularyEntryDAO, VocabularyEntry } from '../models/VocabularyEntry';
+import { config } from '../config/env';
+
+/**
+ * An entry in the trash with the time it will be purged automatically
+ */
+export interface TrashedEntry extends VocabularyEntry {
+  purgeAt: Date;
+}
+
+/**
+ * A user's trash
+ */
+export interface TrashListing {
+  retentionDays: number;
+  entries: TrashedEntry[];  // most recently deleted first
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * TrashService class for trash listing, restore and purging
+ */
+export class TrashService {
+  /**
+   * List the entries in a user's trash
+   * @param userId - Owner user ID
+   */
+  static async list(userId: number): Promise<TrashListing> {
+    const retentionDays = config.vocabulary.trashRetentionDays;
+    const entries = await VocabularyEntryDAO.findDeleted(userId);
+
+    return {
+      retentionDays,
+      entries: entries.map(entry => ({
+        ...entry,
+        purgeAt: new Date(new Date(entry.deletedAt!).getTime() + retentionDays * DAY_MS)
+      }))
+    };
+  }
+
+  /**
+   * Take entries out of the trash
+   * @param userId - Owner user ID
+   * @param ids - Entry IDs
+   * @param changedBy - User restoring the entries, for the edit history
+   * @returns The restored entries
+   * @throws Error when an entry is not in the trash; the entries before it are restored
+   */
+  static async restore(userId: number, ids: string[], changedBy?: number): Promise<VocabularyEntry[]> {
+    if (ids.length === 0) {
+      throw new Error('At least one entry is required');
+    }
+
+    const restored: VocabularyEntry[] = [];
+    for (const id of Array.from(new Set(ids))) {
+      const entry = await VocabularyEntryDAO.restoreDeleted(userId, id, changedBy);
+      if (!entry) {
+        throw new Error(`Vocabulary entry ${id} not found in the trash`);
+      }
+      restored.push(entry);
+    }
+    return restored;
+  }
+
+  /**
+   * Remove entries from the trash for good
+   * @param userId - Owner user ID
+   * @param ids - Entry IDs, or 'all' to empty the trash
+   * @returns Number of entries purged
+   */
+  static async purge(userId: number, ids: string[] | 'all'): Promise<number> {
+    const purgeIds = ids === 'all'
+      ? (await VocabularyEntryDAO.findDeleted(userId)).map(entry => entry.id)
+      : ids;
+    return VocabularyEntryDAO.purge(userId, purgeIds);
+  }
+
+  /**
+   * Purge every entry that has been in the trash longer than the retention period
+   * @returns Number of entries purged
+   */
+  static async purgeExpired(): Promise<number> {
+    const cutoff = new Date(Date.now() - config.vocabulary.trashRetentionDays * DAY_MS);
+    return VocabularyEntryDAO.purgeDeletedBefore(cutoff);
+  }
+
+  /**
+   * Purge expired entries now and every night at 03:30 UTC
+   */
+  static startAutoPurge(): cron.ScheduledTask {
+    const run = async () => {
+      try {
+        const purged = await this.purgeExpired();
+        if (purged > 0) console.log(`[TrashService] Purged ${purged} vocabulary entries from the trash`);
+      } catch (error) {
+        console.error('[TrashService] Failed to purge the trash:', error);
+      }
+    };
+
+    void run();
+    return cron.schedule('30 3 * * *', run);
+  }
+}
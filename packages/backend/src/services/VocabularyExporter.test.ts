@@ -0,0 +1,113 @@
+/**
+ * VocabularyExporter Tests
+ *
+ * Unit tests for exporting vocabulary as CSV, Anki packages and PDF sheets.
+ */
+
+import JSZip from 'jszip';
+import initSqlJs from 'sql.js';
+import { VocabularyExporter } from './VocabularyExporter';
+import { ChapterFilter } from './ChapterFilter';
+import { VocabularyEntryDAO, VocabularyEntry } from '../models/VocabularyEntry';
+
+jest.mock('./ChapterFilter');
+jest.mock('../models/VocabularyEntry');
+
+const mockChapterFilter = ChapterFilter as jest.Mocked<typeof ChapterFilter>;
+const mockVocabularyEntryDAO = VocabularyEntryDAO as jest.Mocked<typeof VocabularyEntryDAO>;
+
+describe('VocabularyExporter', () => {
+  const makeEntry = (id: string, chineseCharacter: string, pinyin: string, chapter: number, extra: Partial<VocabularyEntry> = {}): VocabularyEntry => ({
+    id,
+    userId: 1,
+    username: 'parent',
+    chineseCharacter,
+    pinyin,
+    chapter,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...extra
+  });
+
+  const entries = [
+    makeEntry('v1', '你好', 'nǐ hǎo', 1, { hanVietnamese: 'nễ hảo', modernVietnamese: 'xin chào', englishMeaning: 'hello', chapterLabel: 'Greetings' }),
+    makeEntry('v2', '谢谢', 'xiè xie', 2, { englishMeaning: 'thanks, "thank you"', learningNote: 'line one\nline two' })
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('exportVocabulary', () => {
+    it('should export only the words of the selection, ordered by chapter', async () => {
+      mockChapterFilter.getVocabularyInRange.mockResolvedValue(['v2', 'v3']);
+      mockVocabularyEntryDAO.findByUserId.mockResolvedValue([
+        entries[1],
+        makeEntry('v3', '再见', 'zài jiàn', 1),
+        entries[0]
+      ]);
+
+      const file = await VocabularyExporter.exportVocabulary(1, 'parent', { favoritesOnly: true }, 'csv');
+
+      expect(mockChapterFilter.getVocabularyInRange).toHaveBeenCalledWith(1, { favoritesOnly: true });
+      expect(file.filename).toBe('parent-vocabulary-chapters-1-2.csv');
+      expect(file.contentType).toBe('text/csv; charset=utf-8');
+      const lines = file.data.toString('utf8').split('\r\n');
+      expect(lines[1]).toMatch(/^再见,/);
+      expect(lines[2]).toMatch(/^谢谢,/);
+      expect(lines).toHaveLength(4);
+    });
+
+    it('should throw when the selection has no words', async () => {
+      mockChapterFilter.getVocabularyInRange.mockResolvedValue([]);
+      mockVocabularyEntryDAO.findByUserId.mockResolvedValue(entries);
+
+      await expect(VocabularyExporter.exportVocabulary(1, 'parent', {}, 'pdf')).rejects.toThrow('No vocabulary found for export');
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should write a header row the importer recognises and quote special characters', () => {
+      const csv = VocabularyExporter.toCsv(entries).toString('utf8');
+
+      expect(csv.startsWith('\uFEFFHanzi,Pinyin,Hán Việt,Vietnamese,English,Note,Chapter,Label\r\n')).toBe(true);
+      expect(csv).toContain('你好,nǐ hǎo,nễ hảo,xin chào,hello,,1,Greetings\r\n');
+      expect(csv).toContain('谢谢,xiè xie,,,"thanks, ""thank you""","line one\nline two",2,\r\n');
+    });
+  });
+
+  describe('toApkg', () => {
+    it('should write one note and card per word into a named deck', async () => {
+      const zip = await JSZip.loadAsync(await VocabularyExporter.toApkg(entries, 'parent vocabulary'));
+      const SQL = await initSqlJs();
+      const db = new SQL.Database(await zip.file('collection.anki2')!.async('uint8array'));
+
+      const [notes] = db.exec('SELECT guid, flds, tags, sfld FROM notes ORDER BY id');
+      expect(notes.values).toEqual([
+        ['v1', '你好\x1fnǐ hǎo\x1fnễ hảo\x1fxin chào\x1fhello\x1f', ' chapter_1 Greetings ', '你好'],
+        ['v2', '谢谢\x1fxiè xie\x1f\x1f\x1fthanks, "thank you"\x1fline one<br>line two', ' chapter_2 ', '谢谢']
+      ]);
+
+      const [cards] = db.exec('SELECT COUNT(*), COUNT(DISTINCT did) FROM cards');
+      expect(cards.values[0]).toEqual([2, 1]);
+
+      const [col] = db.exec('SELECT decks, models FROM col');
+      const decks = Object.values(JSON.parse(String(col.values[0][0]))) as { name: string }[];
+      expect(decks.map(deck => deck.name)).toContain('parent vocabulary');
+      const models = Object.values(JSON.parse(String(col.values[0][1]))) as { flds: { name: string }[] }[];
+      expect(models[0].flds.map(field => field.name)).toEqual(['Hanzi', 'Pinyin', 'HanViet', 'Vietnamese', 'English', 'Note']);
+
+      db.close();
+      expect(zip.file('media')).not.toBeNull();
+    });
+  });
+
+  describe('toPdf', () => {
+    it('should write a PDF document', async () => {
+      const pdf = await VocabularyExporter.toPdf(entries, 'parent vocabulary - chapters 1-2');
+
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+      expect(pdf.length).toBeGreaterThan(1000);
+    });
+  });
+});
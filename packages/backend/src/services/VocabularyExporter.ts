@@ -0,0 +1,377 @@
+/**
+ * VocabularyExporter
+ *
+ * Exports a chapter selection of vocabulary as:
+ * - CSV: one row per word, with the column names the importer recognises
+ * - Anki package (.apkg): one "Chinese" note per word (hanzi on the front), tagged with its chapter and label
+ * - PDF: a printable vocabulary sheet with pinyin and meanings
+ *
+ * The PDF needs no CJK font: characters are drawn from the stroke outlines of hanzi-writer-data
+ * (see StrokeDataService) and the other text uses the bundled DejaVu Sans, which covers pinyin
+ * tone marks and Vietnamese.
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import JSZip from 'jszip';
+import initSqlJs, { SqlJsStatic } from 'sql.js';
+import PDFDocument from 'pdfkit';
+import { ChapterFilter, ChapterScope } from './ChapterFilter';
+import { StrokeDataService } from './StrokeDataService';
+import { VocabularyEntryDAO, VocabularyEntry } from '../models/VocabularyEntry';
+
+export type ExportFormat = 'csv' | 'apkg' | 'pdf';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'apkg', 'pdf'];
+
+/**
+ * An exported file
+ */
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  data: Buffer;
+}
+
+const CSV_COLUMNS: [string, (entry: VocabularyEntry) => string | number | undefined][] = [
+  ['Hanzi', entry => entry.chineseCharacter],
+  ['Pinyin', entry => entry.pinyin],
+  ['Hán Việt', entry => entry.hanVietnamese],
+  ['Vietnamese', entry => entry.modernVietnamese],
+  ['English', entry => entry.englishMeaning],
+  ['Note', entry => entry.learningNote],
+  ['Chapter', entry => entry.chapter],
+  ['Label', entry => entry.chapterLabel]
+];
+
+const ANKI_FIELDS = ['Hanzi', 'Pinyin', 'HanViet', 'Vietnamese', 'English', 'Note'];
+
+const ANKI_SCHEMA = `
+  CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+    ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null,
+    models text not null, decks text not null, dconf text not null, tags text not null);
+  CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null,
+    usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null,
+    flags integer not null, data text not null);
+  CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null,
+    mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null,
+    ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null,
+    odue integer not null, odid integer not null, flags integer not null, data text not null);
+  CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+    ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+  CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+  CREATE INDEX ix_notes_usn on notes (usn);
+  CREATE INDEX ix_cards_usn on cards (usn);
+  CREATE INDEX ix_revlog_usn on revlog (usn);
+  CREATE INDEX ix_cards_nid on cards (nid);
+  CREATE INDEX ix_cards_sched on cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid on revlog (cid);
+  CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+// Fixed note type ID so that packages exported at different times share one note type in Anki
+const ANKI_MODEL_ID = 1700000000001;
+
+const PDF_FONT = path.join(path.dirname(require.resolve('dejavu-fonts-ttf/package.json')), 'ttf', 'DejaVuSans.ttf');
+const PDF_FONT_BOLD = path.join(path.dirname(require.resolve('dejavu-fonts-ttf/package.json')), 'ttf', 'DejaVuSans-Bold.ttf');
+
+/**
+ * VocabularyExporter class for vocabulary exports
+ */
+export class VocabularyExporter {
+  private static sqlJs: Promise<SqlJsStatic> | null = null;
+
+  /**
+   * Export the words of a chapter selection
+   * @param userId - Owner user ID
+   * @param username - Owner username (used in file names and titles)
+   * @param scope - Chapter range or selection
+   * @param format - csv, apkg or pdf
+   */
+  static async exportVocabulary(userId: number, username: string, scope: ChapterScope, format: ExportFormat): Promise<ExportFile> {
+    const ids = new Set(await ChapterFilter.getVocabularyInRange(userId, scope));
+    const entries = (await VocabularyEntryDAO.findByUserId(userId))
+      .filter(entry => ids.has(entry.id))
+      .sort((a, b) => a.chapter - b.chapter);
+
+    if (entries.length === 0) {
+      throw new Error('No vocabulary found for export');
+    }
+
+    const title = this.describeSelection(username, entries);
+    const basename = title.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '').toLowerCase();
+
+    switch (format) {
+      case 'csv':
+        return { filename: `${basename}.csv`, contentType: 'text/csv; charset=utf-8', data: this.toCsv(entries) };
+      case 'apkg':
+        return { filename: `${basename}.apkg`, contentType: 'application/octet-stream', data: await this.toApkg(entries, title) };
+      case 'pdf':
+        return { filename: `${basename}.pdf`, contentType: 'application/pdf', data: await this.toPdf(entries, title) };
+      default:
+        throw new Error(`Unsupported export format "${format}"`);
+    }
+  }
+
+  /**
+   * Write entries as CSV (UTF-8 with BOM so spreadsheet apps detect the encoding)
+   * @param entries - Vocabulary entries
+   */
+  static toCsv(entries: VocabularyEntry[]): Buffer {
+    const quote = (value: string | number | undefined): string => {
+      const text = value === undefined || value === null ? '' : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const lines = [
+      CSV_COLUMNS.map(([name]) => quote(name)).join(','),
+      ...entries.map(entry => CSV_COLUMNS.map(([, value]) => quote(value(entry))).join(','))
+    ];
+
+    return Buffer.from('\uFEFF' + lines.join('\r\n') + '\r\n', 'utf8');
+  }
+
+  /**
+   * Write entries as an Anki package
+   * Notes use the vocabulary ID as their GUID, so importing a newer export updates the notes.
+   * @param entries - Vocabulary entries
+   * @param deckName - Name of the deck created in Anki
+   */
+  static async toApkg(entries: VocabularyEntry[], deckName: string): Promise<Buffer> {
+    if (!this.sqlJs) {
+      this.sqlJs = initSqlJs();
+    }
+    const SQL = await this.sqlJs;
+    const db = new SQL.Database();
+
+    try {
+      const now = Date.now();
+      const seconds = Math.floor(now / 1000);
+      const deckId = now;
+
+      db.run(ANKI_SCHEMA);
+      db.run(
+        'INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)',
+        [
+          seconds,
+          now,
+          now,
+          JSON.stringify({ nextPos: entries.length + 1, curDeck: deckId, curModel: ANKI_MODEL_ID }),
+          JSON.stringify({ [ANKI_MODEL_ID]: this.ankiModel(deckId, seconds) }),
+          JSON.stringify({
+            1: this.ankiDeck(1, 'Default', seconds),
+            [deckId]: this.ankiDeck(deckId, deckName, seconds)
+          }),
+          JSON.stringify({ 1: this.ankiDeckConfig(seconds) }),
+          '{}'
+        ]
+      );
+
+      entries.forEach((entry, i) => {
+        const noteId = now + i;
+        const fields = [
+          entry.chineseCharacter,
+          entry.pinyin,
+          entry.hanVietnamese,
+          entry.modernVietnamese,
+          entry.englishMeaning,
+          entry.learningNote
+        ].map(value => this.escapeHtml(value || '').replace(/\r?\n/g, '<br>'));
+        const tags = [`chapter_${entry.chapter}`, ...(entry.chapterLabel ? [entry.chapterLabel.trim().replace(/\s+/g, '_')] : [])];
+        const checksum = parseInt(crypto.createHash('sha1').update(entry.chineseCharacter).digest('hex').slice(0, 8), 16);
+
+        db.run(
+          'INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')',
+          [noteId, entry.id, ANKI_MODEL_ID, seconds, ` ${tags.join(' ')} `, fields.join('\x1f'), entry.chineseCharacter, checksum]
+        );
+        db.run(
+          'INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')',
+          [noteId, noteId, deckId, seconds, i + 1]
+        );
+      });
+
+      const zip = new JSZip();
+      zip.file('collection.anki2', db.export());
+      zip.file('media', '{}');
+      return await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Write entries as a printable A4 vocabulary sheet
+   * @param entries - Vocabulary entries
+   * @param title - Sheet title
+   */
+  static async toPdf(entries: VocabularyEntry[], title: string): Promise<Buffer> {
+    const doc = new PDFDocument({ size: 'A4', margin: 40, info: { Title: title } });
+    const chunks: Buffer[] = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    const finished = new Promise<Buffer>(resolve => doc.on('end', () => resolve(Buffer.concat(chunks))));
+
+    doc.registerFont('text', PDF_FONT);
+    doc.registerFont('bold', PDF_FONT_BOLD);
+
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+    const hanziSize = 22;
+    const hanziWidth = 130;
+    const pinyinWidth = 100;
+    const meaningWidth = width - hanziWidth - pinyinWidth;
+
+    const meaningOf = (entry: VocabularyEntry) => [
+      entry.hanVietnamese ? entry.hanVietnamese.toUpperCase() : '',
+      entry.modernVietnamese || '',
+      entry.englishMeaning || ''
+    ].filter(line => line.length > 0).join('\n');
+
+    doc.font('bold').fontSize(16).text(title, left, doc.y);
+    doc.moveDown(0.5);
+
+    let chapter: number | null = null;
+    for (const entry of entries) {
+      doc.font('text').fontSize(10);
+      const meaning = meaningOf(entry);
+      const rowHeight = Math.max(
+        hanziSize + 8,
+        doc.heightOfString(entry.pinyin || '', { width: pinyinWidth - 8 }) + 8,
+        doc.heightOfString(meaning, { width: meaningWidth }) + 8
+      );
+      const needsHeading = entry.chapter !== chapter;
+
+      if (doc.y + rowHeight + (needsHeading ? 24 : 0) > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+      }
+
+      if (needsHeading) {
+        chapter = entry.chapter;
+        doc.moveDown(0.3);
+        doc.font('bold').fontSize(12)
+          .text(`Chapter ${entry.chapter}${entry.chapterLabel ? ` – ${entry.chapterLabel}` : ''}`, left, doc.y);
+        doc.moveDown(0.3);
+      }
+
+      const top = doc.y;
+      await this.drawHanzi(doc, entry.chineseCharacter, left, top + 4, hanziSize, hanziWidth - 8);
+      doc.font('text').fontSize(10).fillColor('black');
+      doc.text(entry.pinyin || '', left + hanziWidth, top + 4, { width: pinyinWidth - 8 });
+      doc.text(meaning, left + hanziWidth + pinyinWidth, top + 4, { width: meaningWidth });
+
+      doc.moveTo(left, top + rowHeight).lineTo(left + width, top + rowHeight).lineWidth(0.5).strokeColor('#cccccc').stroke();
+      doc.x = left;
+      doc.y = top + rowHeight;
+    }
+
+    doc.end();
+    return await finished;
+  }
+
+  /**
+   * Draw a word from its stroke outlines (a grey box for characters without stroke data)
+   */
+  private static async drawHanzi(doc: PDFKit.PDFDocument, word: string, x: number, y: number, size: number, maxWidth: number): Promise<void> {
+    const characters = Array.from(word);
+    const scale = Math.min(size, maxWidth / Math.max(characters.length, 1)) / 1024;
+    const advance = 1024 * scale;
+
+    for (let i = 0; i < characters.length; i++) {
+      const left = x + i * advance;
+      const data = await StrokeDataService.getCharacterStrokes(characters[i]);
+
+      doc.save();
+      if (data) {
+        // Stroke data has y pointing up with the baseline at 900
+        doc.translate(left, y + 900 * scale).scale(scale, -scale);
+        for (const stroke of data.strokes) {
+          doc.path(stroke).fill('black');
+        }
+      } else {
+        doc.rect(left + advance * 0.1, y + advance * 0.1, advance * 0.8, advance * 0.8).lineWidth(0.5).strokeColor('#999999').stroke();
+      }
+      doc.restore();
+    }
+  }
+
+  /**
+   * Title of an export, e.g. "alice vocabulary - chapters 1-3"
+   */
+  private static describeSelection(username: string, entries: VocabularyEntry[]): string {
+    const chapters = entries.map(entry => entry.chapter);
+    const first = Math.min(...chapters);
+    const last = Math.max(...chapters);
+    return `${username} vocabulary - ${first === last ? `chapter ${first}` : `chapters ${first}-${last}`}`;
+  }
+
+  private static escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  private static ankiModel(deckId: number, seconds: number) {
+    const back = ['Pinyin', 'HanViet', 'Vietnamese', 'English', 'Note']
+      .map(field => `{{#${field}}}<div class="${field.toLowerCase()}">{{${field}}}</div>{{/${field}}}`)
+      .join('\n');
+
+    return {
+      id: ANKI_MODEL_ID,
+      name: 'Chinese Vocabulary',
+      type: 0,
+      mod: seconds,
+      usn: -1,
+      sortf: 0,
+      did: deckId,
+      tmpls: [{
+        name: 'Recognition',
+        ord: 0,
+        qfmt: '<div class="hanzi">{{Hanzi}}</div>',
+        afmt: `{{FrontSide}}\n<hr id="answer">\n${back}`,
+        did: null,
+        bqfmt: '',
+        bafmt: ''
+      }],
+      flds: ANKI_FIELDS.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+      css: '.card { font-family: arial; font-size: 20px; text-align: center; }\n.hanzi { font-size: 48px; }\n.note { font-size: 14px; color: #666; }',
+      latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+      latexPost: '\\end{document}',
+      tags: [],
+      vers: [],
+      req: [[0, 'any', [0]]]
+    };
+  }
+
+  private static ankiDeck(id: number, name: string, seconds: number) {
+    return {
+      id,
+      name,
+      mod: seconds,
+      usn: -1,
+      lrnToday: [0, 0],
+      revToday: [0, 0],
+      newToday: [0, 0],
+      timeToday: [0, 0],
+      collapsed: false,
+      desc: '',
+      dyn: 0,
+      conf: 1,
+      extendNew: 10,
+      extendRev: 50
+    };
+  }
+
+  private static ankiDeckConfig(seconds: number) {
+    return {
+      id: 1,
+      name: 'Default',
+      mod: seconds,
+      usn: 0,
+      maxTaken: 60,
+      autoplay: true,
+      timer: 0,
+      replayq: true,
+      dyn: false,
+      new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+      rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, bury: true, minSpace: 1 },
+      lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 }
+    };
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * VocabularyHistory Tests
+ *
+ * Unit tests for the edit history and restoring entries to an earlier revision.
+ */
+
+import { VocabularyHistory } from './VocabularyHistory';
+import { VocabularyEntryDAO, VocabularyEntry } from '../models/VocabularyEntry';
+import { VocabularyRevisionDAO, VocabularyRevision, snapshotOf, diffSnapshots } from '../models/VocabularyRevision';
+
+jest.mock('../models/VocabularyEntry');
+jest.mock('../models/VocabularyRevision', () => ({
+  ...jest.requireActual('../models/VocabularyRevision'),
+  VocabularyRevisionDAO: {
+    findByVocabularyId: jest.fn(),
+    findById: jest.fn()
+  }
+}));
+
+const mockVocabularyEntryDAO = VocabularyEntryDAO as jest.Mocked<typeof VocabularyEntryDAO>;
+const mockVocabularyRevisionDAO = VocabularyRevisionDAO as jest.Mocked<typeof VocabularyRevisionDAO>;
+
+describe('VocabularyHistory', () => {
+  const makeEntry = (overrides: Partial<VocabularyEntry> = {}): VocabularyEntry => ({
+    id: 'v1',
+    userId: 1,
+    username: 'parent',
+    chineseCharacter: '你好',
+    pinyin: 'nǐ hǎo',
+    englishMeaning: 'hello',
+    learningNote: 'Written by hand',
+    chapter: 1,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  });
+
+  const revision: VocabularyRevision = {
+    id: 5,
+    vocabularyId: 'v1',
+    userId: 1,
+    changedBy: 2,
+    changedByUsername: 'child',
+    action: 'update',
+    changes: { learningNote: { from: 'Written by hand', to: null } },
+    snapshot: snapshotOf(makeEntry()),
+    createdAt: new Date()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('snapshots', () => {
+    it('should store empty fields as null', () => {
+      expect(snapshotOf(makeEntry({ hanVietnamese: '' }))).toEqual({
+        chineseCharacter: '你好',
+        pinyin: 'nǐ hǎo',
+        hanVietnamese: null,
+        modernVietnamese: null,
+        englishMeaning: 'hello',
+        learningNote: 'Written by hand',
+        chapter: 1,
+        chapterLabel: null
+      });
+    });
+
+    it('should list only the changed fields', () => {
+      const before = snapshotOf(makeEntry());
+      const after = snapshotOf(makeEntry({ learningNote: undefined, chapter: 2, isFavorite: true }));
+
+      expect(diffSnapshots(before, after)).toEqual({
+        learningNote: { from: 'Written by hand', to: null },
+        chapter: { from: 1, to: 2 }
+      });
+    });
+  });
+
+  describe('getHistory', () => {
+    it('should return the revisions of the entry', async () => {
+      mockVocabularyRevisionDAO.findByVocabularyId.mockResolvedValue([revision]);
+
+      expect(await VocabularyHistory.getHistory(1, 'v1')).toEqual([revision]);
+      expect(mockVocabularyRevisionDAO.findByVocabularyId).toHaveBeenCalledWith(1, 'v1');
+    });
+
+    it('should return an empty history for an unchanged entry', async () => {
+      mockVocabularyRevisionDAO.findByVocabularyId.mockResolvedValue([]);
+      mockVocabularyEntryDAO.findById.mockResolvedValue(makeEntry());
+
+      expect(await VocabularyHistory.getHistory(1, 'v1')).toEqual([]);
+    });
+
+    it('should throw for an unknown entry', async () => {
+      mockVocabularyRevisionDAO.findByVocabularyId.mockResolvedValue([]);
+      mockVocabularyEntryDAO.findById.mockResolvedValue(null);
+
+      await expect(VocabularyHistory.getHistory(1, 'missing')).rejects.toThrow('Vocabulary entry not found');
+    });
+  });
+
+  describe('restore', () => {
+    it('should write every field of the snapshot back and record it as a restore', async () => {
+      const restored = makeEntry();
+      mockVocabularyRevisionDAO.findById.mockResolvedValue(revision);
+      mockVocabularyEntryDAO.update.mockResolvedValue(restored);
+
+      const result = await VocabularyHistory.restore(1, 'v1', 5, 3);
+
+      expect(mockVocabularyRevisionDAO.findById).toHaveBeenCalledWith(1, 'v1', 5);
+      expect(mockVocabularyEntryDAO.update).toHaveBeenCalledWith(1, 'v1', {
+        chineseCharacter: '你好',
+        pinyin: 'nǐ hǎo',
+        hanVietnamese: '',
+        modernVietnamese: '',
+        englishMeaning: 'hello',
+        learningNote: 'Written by hand',
+        chapter: 1,
+        chapterLabel: ''
+      }, 3, 'restore');
+      expect(result).toBe(restored);
+    });
+
+    it('should throw for an unknown revision', async () => {
+      mockVocabularyRevisionDAO.findById.mockResolvedValue(null);
+
+      await expect(VocabularyHistory.restore(1, 'v1', 99)).rejects.toThrow('Revision not found');
+      expect(mockVocabularyEntryDAO.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw when the entry was deleted', async () => {
+      mockVocabularyRevisionDAO.findById.mockResolvedValue(revision);
+      mockVocabularyEntryDAO.update.mockResolvedValue(null);
+
+      await expect(VocabularyHistory.restore(1, 'v1', 5)).rejects.toThrow('Vocabulary entry not found');
+    });
+  });
+});
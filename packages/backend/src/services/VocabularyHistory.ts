@@ -0,0 +1,63 @@
+/**
+ * VocabularyHistory Service
+ *
+ * Edit history and undo for vocabulary entries. `VocabularyEntryDAO` records a revision for every update
+ * or delete that changes an entry; restoring a revision puts the entry back the way it was before that
+ * change, which undoes it and every later change. The restore is itself recorded, so it can be undone too.
+ */
+
+import { VocabularyEntryDAO, VocabularyEntry, VocabularyInput } from '../models/VocabularyEntry';
+import { VocabularyRevisionDAO, VocabularyRevision } from '../models/VocabularyRevision';
+
+/**
+ * VocabularyHistory class for entry history and restores
+ */
+export class VocabularyHistory {
+  /**
+   * Get the history of an entry, newest change first
+   * The history of an entry in the trash is kept until the entry is purged.
+   * @param userId - Owner user ID
+   * @param vocabularyId - Entry ID
+   * @throws Error when the entry neither exists nor has a history
+   */
+  static async getHistory(userId: number, vocabularyId: string): Promise<VocabularyRevision[]> {
+    const revisions = await VocabularyRevisionDAO.findByVocabularyId(userId, vocabularyId);
+    if (revisions.length === 0 && !(await VocabularyEntryDAO.findById(userId, vocabularyId))) {
+      throw new Error('Vocabulary entry not found');
+    }
+    return revisions;
+  }
+
+  /**
+   * Put an entry back to its content before a revision
+   * @param userId - Owner user ID
+   * @param vocabularyId - Entry ID
+   * @param revisionId - Revision to undo, together with all later ones
+   * @param changedBy - User restoring the entry, for the history
+   * @returns The restored entry
+   */
+  static async restore(userId: number, vocabularyId: string, revisionId: number, changedBy: number | null = null): Promise<VocabularyEntry> {
+    const revision = await VocabularyRevisionDAO.findById(userId, vocabularyId, revisionId);
+    if (!revision) {
+      throw new Error('Revision not found');
+    }
+
+    const { snapshot } = revision;
+    const updates: Partial<VocabularyInput> = {
+      chineseCharacter: String(snapshot.chineseCharacter ?? ''),
+      pinyin: String(snapshot.pinyin ?? ''),
+      hanVietnamese: String(snapshot.hanVietnamese ?? ''),
+      modernVietnamese: String(snapshot.modernVietnamese ?? ''),
+      englishMeaning: String(snapshot.englishMeaning ?? ''),
+      learningNote: String(snapshot.learningNote ?? ''),
+      chapter: Number(snapshot.chapter),
+      chapterLabel: String(snapshot.chapterLabel ?? '')
+    };
+
+    const restored = await VocabularyEntryDAO.update(userId, vocabularyId, updates, changedBy, 'restore');
+    if (!restored) {
+      throw new Error('Vocabulary entry not found; entries in the trash must be restored from the trash first');
+    }
+    return restored;
+  }
+}
@@ -0,0 +1,327 @@
+/**
+ * VocabularyImporter Tests
+ *
+ * Unit tests for parsing CSV/TSV/Anki files, suggesting a column mapping,
+ * and building and importing vocabulary entries.
+ */
+
+import JSZip from 'jszip';
+import initSqlJs from 'sql.js';
+import { VocabularyImporter, ImportTable } from './VocabularyImporter';
+import { VocabularyEntryDAO, VocabularyEntry } from '../models/VocabularyEntry';
+import { vocabularyManager } from './VocabularyManager';
+import { DuplicateService } from './DuplicateService';
+import { TagService } from './TagService';
+import { ExampleSentenceService } from './ExampleSentenceService';
+
+jest.mock('../models/VocabularyEntry');
+jest.mock('./DuplicateService');
+jest.mock('./TagService');
+jest.mock('./ExampleSentenceService');
+jest.mock('./VocabularyManager', () => {
+  // Readings are filled in by the real manager; only translating entries is mocked
+  const { VocabularyManager } = jest.requireActual('./VocabularyManager');
+  const manager = new VocabularyManager();
+  return { vocabularyManager: { createEntry: jest.fn(), fillReadings: manager.fillReadings.bind(manager) } };
+});
+
+const mockVocabularyEntryDAO = VocabularyEntryDAO as jest.Mocked<typeof VocabularyEntryDAO>;
+const mockCreateEntry = vocabularyManager.createEntry as jest.Mock;
+const mockDuplicateService = DuplicateService as jest.Mocked<typeof DuplicateService>;
+
+/**
+ * Build a minimal .apkg with one note type and the given notes
+ */
+async function makeApkg(fieldNames: string[], notes: { fields: string[]; tags?: string }[]): Promise<Buffer> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  db.run('CREATE TABLE col (id INTEGER PRIMARY KEY, models TEXT)');
+  db.run('CREATE TABLE notes (id INTEGER PRIMARY KEY, mid INTEGER, flds TEXT, tags TEXT)');
+  const models = { 1001: { name: 'Chinese', flds: fieldNames.map((name, ord) => ({ name, ord })) } };
+  db.run('INSERT INTO col (id, models) VALUES (1, ?)', [JSON.stringify(models)]);
+  notes.forEach((note, i) => {
+    db.run('INSERT INTO notes (id, mid, flds, tags) VALUES (?, 1001, ?, ?)', [i + 1, note.fields.join('\x1f'), note.tags || '']);
+  });
+
+  const zip = new JSZip();
+  zip.file('collection.anki21', db.export());
+  zip.file('media', '{}');
+  db.close();
+  return await zip.generateAsync({ type: 'nodebuffer' });
+}
+
+describe('VocabularyImporter', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('parseDelimited', () => {
+    it('should handle quoted cells with delimiters, quotes and line breaks', () => {
+      const rows = VocabularyImporter.parseDelimited('你好,"hello, hi","say ""hi""\nto someone"\r\n\r\n谢谢,thanks,\n', ',');
+
+      expect(rows).toEqual([
+        ['你好', 'hello, hi', 'say "hi"\nto someone'],
+        ['谢谢', 'thanks', '']
+      ]);
+    });
+  });
+
+  describe('stripHtml', () => {
+    it('should remove tags, sounds and entities', () => {
+      expect(VocabularyImporter.stripHtml('<b>hello</b>&nbsp;&amp; bye<br>[sound:ni.mp3]<div>again</div>'))
+        .toBe('hello & bye\nagain');
+    });
+  });
+
+  describe('parseFile', () => {
+    it('should read a CSV file with a header row', async () => {
+      const table = await VocabularyImporter.parseFile(Buffer.from('\uFEFFHanzi,Pinyin,English\n你好,nǐ hǎo,hello\n'), 'list.csv');
+
+      expect(table).toEqual({
+        format: 'csv',
+        headers: ['Hanzi', 'Pinyin', 'English'],
+        rows: [['你好', 'nǐ hǎo', 'hello']],
+        hasHeader: true
+      });
+    });
+
+    it('should detect a CSV file without a header row', async () => {
+      const table = await VocabularyImporter.parseFile(Buffer.from('你好;hello\n谢谢;thanks'), 'list.csv');
+
+      expect(table.hasHeader).toBe(false);
+      expect(table.headers).toEqual(['Column 1', 'Column 2']);
+      expect(table.rows).toHaveLength(2);
+    });
+
+    it('should read a TSV file', async () => {
+      const table = await VocabularyImporter.parseFile(Buffer.from('chữ Hán\tnghĩa\n学习\thọc tập'), 'list.tsv');
+
+      expect(table.format).toBe('tsv');
+      expect(table.rows).toEqual([['学习', 'học tập']]);
+    });
+
+    it('should read an Anki text export with its header lines', async () => {
+      const text = '#separator:tab\n#html:true\n#tags column:3\n你好\t<b>hello</b>\tlesson1\n';
+      const table = await VocabularyImporter.parseFile(Buffer.from(text), 'deck.txt');
+
+      expect(table.format).toBe('anki-text');
+      expect(table.headers).toEqual(['Column 1', 'Column 2', 'Tags']);
+      expect(table.rows).toEqual([['你好', 'hello', 'lesson1']]);
+    });
+
+    it('should read the notes of an Anki package', async () => {
+      const apkg = await makeApkg(['Hanzi', 'Meaning'], [
+        { fields: ['你好', 'hello<br>hi'], tags: ' hsk1 ' },
+        { fields: ['谢谢', 'thanks'] }
+      ]);
+
+      const table = await VocabularyImporter.parseFile(apkg, 'deck.apkg');
+
+      expect(table.format).toBe('apkg');
+      expect(table.headers).toEqual(['Hanzi', 'Meaning', 'Tags']);
+      expect(table.rows).toEqual([['你好', 'hello\nhi', 'hsk1'], ['谢谢', 'thanks', '']]);
+    });
+
+    it('should reject files that are not zip archives as Anki packages', async () => {
+      await expect(VocabularyImporter.parseFile(Buffer.from('nope'), 'deck.apkg')).rejects.toThrow('Invalid Anki package');
+    });
+
+    it('should reject unsupported file types', async () => {
+      await expect(VocabularyImporter.parseFile(Buffer.from('x'), 'list.xlsx')).rejects.toThrow('Unsupported file type');
+    });
+  });
+
+  describe('suggestMapping', () => {
+    it('should map columns from English, Vietnamese and Chinese header names', () => {
+      const table: ImportTable = {
+        format: 'csv',
+        headers: ['汉字', 'Pinyin', 'Hán Việt', 'Nghĩa', 'English meaning', 'Ghi chú', 'Bài', 'Label'],
+        rows: [],
+        hasHeader: true
+      };
+
+      expect(VocabularyImporter.suggestMapping(table)).toEqual({
+        chineseCharacter: 0,
+        pinyin: 1,
+        hanVietnamese: 2,
+        modernVietnamese: 3,
+        englishMeaning: 4,
+        learningNote: 5,
+        chapter: 6,
+        chapterLabel: 7
+      });
+    });
+
+    it('should find the hanzi column from its contents when there is no header', () => {
+      const table: ImportTable = {
+        format: 'csv',
+        headers: ['Column 1', 'Column 2'],
+        rows: [['hello', '你好'], ['thanks', '谢谢']],
+        hasHeader: false
+      };
+
+      expect(VocabularyImporter.suggestMapping(table)).toEqual({ chineseCharacter: 1 });
+    });
+  });
+
+  describe('buildEntries', () => {
+    const table: ImportTable = {
+      format: 'csv',
+      headers: ['Hanzi', 'English', 'Chapter'],
+      rows: [['你好', 'hello', '3'], ['hello', 'no hanzi', '1'], ['谢谢', '', ''], ['再见', 'bye', 'one']],
+      hasHeader: true
+    };
+
+    it('should keep the mapped values and report rows that cannot be imported', () => {
+      const { rows, errors } = VocabularyImporter.buildEntries(
+        table,
+        { chineseCharacter: 0, englishMeaning: 1, chapter: 2 },
+        { chapter: 1, chapterLabel: 'Imported' }
+      );
+
+      expect(rows).toEqual([
+        { row: 2, entry: expect.objectContaining({ chineseCharacter: '你好', englishMeaning: 'hello', chapter: 3, chapterLabel: 'Imported' }) },
+        { row: 4, entry: expect.objectContaining({ chineseCharacter: '谢谢', englishMeaning: undefined, chapter: 1 }) }
+      ]);
+      expect(errors).toEqual([
+        { row: 3, error: 'No Chinese characters' },
+        { row: 5, error: 'Invalid chapter "one"' }
+      ]);
+    });
+
+    it('should report rows without a chapter when there is no default', () => {
+      const { errors } = VocabularyImporter.buildEntries(table, { chineseCharacter: 0 });
+
+      expect(errors.filter(error => error.error === 'No chapter')).toHaveLength(3);
+    });
+
+    it('should require a hanzi column', () => {
+      expect(() => VocabularyImporter.buildEntries(table, { englishMeaning: 1 })).toThrow('must be mapped to the Chinese characters');
+    });
+
+    it('should reject columns outside the table', () => {
+      expect(() => VocabularyImporter.buildEntries(table, { chineseCharacter: 0, pinyin: 7 })).toThrow('Invalid column for pinyin');
+    });
+  });
+
+  describe('importTable', () => {
+    const table: ImportTable = {
+      format: 'csv',
+      headers: ['Hanzi', 'Vietnamese'],
+      rows: [['你好', 'xin chào'], ['bad', '']],
+      hasHeader: true
+    };
+
+    beforeEach(() => {
+      mockDuplicateService.check.mockResolvedValue({ outcome: 'create', existing: [] });
+    });
+
+    it('should save the file values as they are and fill in only the pinyin and Hán-Việt', async () => {
+      mockVocabularyEntryDAO.create.mockResolvedValue({ id: 'v1' } as VocabularyEntry);
+
+      const summary = await VocabularyImporter.importTable(1, 'parent', table, { chineseCharacter: 0, modernVietnamese: 1 }, { chapter: 2 });
+
+      expect(mockVocabularyEntryDAO.create).toHaveBeenCalledWith(1, 'parent', expect.objectContaining({
+        chineseCharacter: '你好',
+        pinyin: 'nǐ hǎo',
+        hanVietnamese: 'nhĩ hảo',
+        modernVietnamese: 'xin chào',
+        englishMeaning: undefined,
+        chapter: 2
+      }));
+      expect(mockCreateEntry).not.toHaveBeenCalled();
+      expect(summary).toEqual({
+        total: 2,
+        imported: 1,
+        updated: 0,
+        skipped: 0,
+        failed: 1,
+        results: [
+          { row: 2, chineseCharacter: '你好', success: true, status: 'created', id: 'v1' },
+          { row: 3, chineseCharacter: '', success: false, error: 'No Chinese characters' }
+        ]
+      });
+    });
+
+    it('should refresh the pinyin of the sentences using a created word', async () => {
+      mockVocabularyEntryDAO.create.mockResolvedValue({ id: 'v1', chineseCharacter: '你好' } as VocabularyEntry);
+
+      await VocabularyImporter.importTable(1, 'parent', table, { chineseCharacter: 0, modernVietnamese: 1 }, { chapter: 2 });
+
+      expect(ExampleSentenceService.refreshPinyin).toHaveBeenCalledWith(1, '你好');
+    });
+
+    it('should read the placeholder of a pattern as in manually added words', async () => {
+      mockVocabularyEntryDAO.create.mockResolvedValue({ id: 'v1' } as VocabularyEntry);
+      const patterns: ImportTable = { ...table, rows: [['越。。。越', '']] };
+
+      await VocabularyImporter.importTable(1, 'parent', patterns, { chineseCharacter: 0 }, { chapter: 2 });
+
+      expect(mockVocabularyEntryDAO.create).toHaveBeenCalledWith(1, 'parent', expect.objectContaining({
+        chineseCharacter: '越。。。越',
+        pinyin: 'yuè … yuè'
+      }));
+    });
+
+    it('should translate missing meanings when asked to', async () => {
+      mockCreateEntry.mockResolvedValue({ id: 'v1' });
+
+      await VocabularyImporter.importTable(1, 'parent', table, { chineseCharacter: 0, modernVietnamese: 1 }, { chapter: 2 }, { autoTranslate: true });
+
+      expect(mockCreateEntry).toHaveBeenCalledWith(1, 'parent', expect.objectContaining({ modernVietnamese: 'xin chào' }));
+      expect(mockVocabularyEntryDAO.create).not.toHaveBeenCalled();
+    });
+
+    it('should resolve words that already exist with the duplicate action', async () => {
+      const existing = { id: 'old', chineseCharacter: '你好' } as VocabularyEntry;
+      mockDuplicateService.check.mockResolvedValue({ outcome: 'updated', existing: [existing], entry: existing });
+
+      const summary = await VocabularyImporter.importTable(1, 'parent', table, { chineseCharacter: 0, modernVietnamese: 1 }, { chapter: 2 }, { onDuplicate: 'update', changedBy: 7 });
+
+      expect(mockDuplicateService.check).toHaveBeenCalledWith(1, expect.objectContaining({ chineseCharacter: '你好' }), 'update', 7);
+      expect(mockVocabularyEntryDAO.create).not.toHaveBeenCalled();
+      expect(summary.updated).toBe(1);
+      expect(summary.results[0]).toEqual({ row: 2, chineseCharacter: '你好', success: true, status: 'updated', id: 'old' });
+    });
+
+    it('should tag every imported word, including existing words that were skipped', async () => {
+      mockVocabularyEntryDAO.create.mockResolvedValue({ id: 'v1' } as VocabularyEntry);
+      mockDuplicateService.check
+        .mockResolvedValueOnce({ outcome: 'create', existing: [] })
+        .mockResolvedValueOnce({ outcome: 'skipped', existing: [], entry: { id: 'old' } as VocabularyEntry });
+      const twoWords: ImportTable = { ...table, rows: [['你好', 'xin chào'], ['谢谢', 'cảm ơn']] };
+
+      await VocabularyImporter.importTable(1, 'parent', twoWords, { chineseCharacter: 0 }, { chapter: 1 }, { tags: ['food'] });
+
+      expect(TagService.addToEntries).toHaveBeenCalledWith(1, ['v1', 'old'], ['food']);
+    });
+
+    it('should skip words repeated in the file unless keeping both', async () => {
+      mockVocabularyEntryDAO.create.mockResolvedValue({ id: 'v1' } as VocabularyEntry);
+      const repeated: ImportTable = { ...table, rows: [['你好', 'xin chào'], ['你好', 'chào']] };
+
+      const skipping = await VocabularyImporter.importTable(1, 'parent', repeated, { chineseCharacter: 0 }, { chapter: 1 });
+      expect(skipping).toMatchObject({ imported: 1, skipped: 1 });
+      expect(mockDuplicateService.check).toHaveBeenCalledWith(1, expect.anything(), 'skip', undefined);
+
+      const keeping = await VocabularyImporter.importTable(1, 'parent', repeated, { chineseCharacter: 0 }, { chapter: 1 }, { onDuplicate: 'keepBoth' });
+      expect(keeping).toMatchObject({ imported: 2, skipped: 0 });
+    });
+
+    it('should record entries that fail to save', async () => {
+      mockVocabularyEntryDAO.create.mockRejectedValue(new Error('Data too long'));
+
+      const summary = await VocabularyImporter.importTable(1, 'parent', table, { chineseCharacter: 0 }, { chapter: 1 });
+
+      expect(summary.imported).toBe(0);
+      expect(summary.results[0]).toEqual({ row: 2, chineseCharacter: '你好', success: false, error: 'Data too long' });
+    });
+
+    it('should refuse files with too many rows', async () => {
+      const big: ImportTable = { ...table, rows: Array(VocabularyImporter.MAX_ROWS + 1).fill(['你']) };
+
+      await expect(VocabularyImporter.importTable(1, 'parent', big, { chineseCharacter: 0 }, { chapter: 1 }))
+        .rejects.toThrow('Maximum');
+    });
+  });
+});
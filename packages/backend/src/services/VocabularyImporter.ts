@@ -0,0 +1,600 @@
+/**
+ * VocabularyImporter
+ *
+ * Imports vocabulary lists from files: CSV, TSV, Anki "Notes in Plain Text" exports and
+ * Anki packages (.apkg). A file is first parsed into a table of text cells, then a column
+ * mapping says which column holds which vocabulary field.
+ *
+ * Values present in the file are kept as they are; only missing fields are filled in
+ * (pinyin and Hán-Việt always, meanings only when auto-translation is requested), so curated meanings
+ * survive the import.
+ */
+
+import path from 'path';
+import JSZip from 'jszip';
+import initSqlJs, { SqlJsStatic } from 'sql.js';
+import { VocabularyEntryDAO, VocabularyInput, VocabularyEntry } from '../models/VocabularyEntry';
+import { vocabularyManager } from './VocabularyManager';
+import { PinyinUtils } from './PinyinUtils';
+import { DuplicateService, DuplicateAction } from './DuplicateService';
+import { ExpressionService } from './ExpressionService';
+import { TagService } from './TagService';
+import { ExampleSentenceService } from './ExampleSentenceService';
+
+export type ImportFormat = 'csv' | 'tsv' | 'anki-text' | 'apkg';
+
+/**
+ * Vocabulary fields a column can be mapped to
+ */
+export type ImportField =
+  | 'chineseCharacter'
+  | 'pinyin'
+  | 'hanVietnamese'
+  | 'modernVietnamese'
+  | 'englishMeaning'
+  | 'learningNote'
+  | 'chapter'
+  | 'chapterLabel';
+
+export const IMPORT_FIELDS: ImportField[] = [
+  'chineseCharacter',
+  'pinyin',
+  'hanVietnamese',
+  'modernVietnamese',
+  'englishMeaning',
+  'learningNote',
+  'chapter',
+  'chapterLabel'
+];
+
+/**
+ * Column index (0-based) of each mapped field
+ */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+/**
+ * A parsed import file
+ */
+export interface ImportTable {
+  format: ImportFormat;
+  headers: string[];
+  rows: string[][];
+  hasHeader: boolean;
+}
+
+/**
+ * Values used when a row has no chapter or label column
+ */
+export interface ImportDefaults {
+  chapter?: number;
+  chapterLabel?: string;
+}
+
+/**
+ * How rows are saved
+ */
+export interface ImportOptions {
+  autoTranslate?: boolean;         // translate missing Vietnamese/English meanings (pinyin and Hán-Việt are always filled in)
+  onDuplicate?: DuplicateAction;   // words that already exist, or repeat in the file (default skip)
+  changedBy?: number;              // user importing, for the edit history of updated words
+  tags?: string[];                 // tags added to every imported word, including skipped existing words
+}
+
+/**
+ * A row that could be turned into a vocabulary entry
+ */
+export interface ImportRow {
+  row: number; // 1-based line number in the file (data rows only for .apkg)
+  entry: VocabularyInput;
+}
+
+/**
+ * A row that could not be imported
+ */
+export interface ImportRowError {
+  row: number;
+  error: string;
+}
+
+/**
+ * Outcome of an import
+ */
+export interface ImportSummary {
+  total: number;
+  imported: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  results: {
+    row: number;
+    chineseCharacter: string;
+    success: boolean;
+    status?: 'created' | 'updated' | 'skipped';
+    id?: string;
+    error?: string;
+  }[];
+}
+
+/**
+ * Header keywords per field, checked in this order (Hán-Việt before Vietnamese, label before chapter)
+ * Headers are compared lowercase without diacritics or spaces.
+ */
+const HEADER_KEYWORDS: [ImportField, string[]][] = [
+  ['hanVietnamese', ['hanviet', 'sinovietnamese', '汉越', '漢越']],
+  ['pinyin', ['pinyin', '拼音', 'reading']],
+  ['chapterLabel', ['label', 'lessonname', 'chaptername', 'tags', 'deck']],
+  ['chapter', ['chapter', 'lesson', 'bai', 'unit', '课']],
+  ['learningNote', ['note', 'ghichu', 'comment', 'mnemonic', '备注']],
+  ['modernVietnamese', ['vietnamese', 'tiengviet', 'nghia', 'viet', '越南']],
+  ['englishMeaning', ['english', 'meaning', 'definition', 'translation', 'gloss', 'back', '英文']],
+  ['chineseCharacter', ['hanzi', 'chinese', 'character', 'simplified', 'word', 'front', 'chuhan', '汉字', '中文', '词']]
+];
+
+/**
+ * Anki bookkeeping columns that are never suggested
+ */
+const IGNORED_HEADERS = ['notetype', 'guid'];
+
+const SEPARATOR_NAMES: Record<string, string> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+  space: ' ',
+  pipe: '|',
+  colon: ':'
+};
+
+/**
+ * VocabularyImporter class for file imports
+ */
+export class VocabularyImporter {
+  static readonly MAX_ROWS = 2000;
+  static readonly PREVIEW_ROWS = 10;
+
+  private static sqlJs: Promise<SqlJsStatic> | null = null;
+
+  /**
+   * Parse an uploaded file into a table
+   * @param buffer - File contents
+   * @param filename - Original file name (its extension picks the format)
+   * @param hasHeader - Whether the first row holds column names (detected when omitted)
+   */
+  static async parseFile(buffer: Buffer, filename: string, hasHeader?: boolean): Promise<ImportTable> {
+    const extension = path.extname(filename).toLowerCase();
+
+    if (extension === '.apkg' || extension === '.colpkg') {
+      return await this.parseAnkiPackage(buffer);
+    }
+
+    const text = buffer.toString('utf8').replace(/^\uFEFF/, '');
+
+    if (/^#(separator|html|columns|tags column|deck column|notetype column|guid column):/m.test(text.slice(0, 500))) {
+      return this.parseAnkiText(text);
+    }
+
+    if (extension === '.csv') {
+      return this.toTable('csv', this.parseDelimited(text, this.detectCsvDelimiter(text)), hasHeader);
+    }
+
+    if (extension === '.tsv' || extension === '.txt') {
+      return this.toTable('tsv', this.parseDelimited(text, '\t'), hasHeader);
+    }
+
+    throw new Error(`Unsupported file type "${extension || filename}". Use .csv, .tsv, .txt or .apkg`);
+  }
+
+  /**
+   * Split delimited text into rows of cells (RFC 4180 quoting, blank lines skipped)
+   * @param text - File text
+   * @param delimiter - Cell delimiter
+   */
+  static parseDelimited(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    const endRow = () => {
+      row.push(cell);
+      if (row.some(value => value.trim().length > 0)) {
+        rows.push(row);
+      }
+      row = [];
+      cell = '';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"' && cell.length === 0) {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        endRow();
+      } else {
+        cell += char;
+      }
+    }
+
+    if (cell.length > 0 || row.length > 0) {
+      endRow();
+    }
+
+    return rows;
+  }
+
+  /**
+   * Turn Anki field HTML into plain text
+   * @param html - Field contents
+   */
+  static stripHtml(html: string): string {
+    return html
+      .replace(/\[sound:[^\]]*\]/g, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(div|p|li)>/gi, '\n')
+      .replace(/<[^>]*>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+      .replace(/&amp;/g, '&')
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n{2,}/g, '\n')
+      .trim();
+  }
+
+  /**
+   * Guess which column holds which field from the header names and, for the hanzi column,
+   * from the cell contents
+   * @param table - Parsed file
+   */
+  static suggestMapping(table: ImportTable): ColumnMapping {
+    const mapping: ColumnMapping = {};
+    const used = new Set<number>();
+    const normalized = table.headers.map(header => header
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/đ/gi, 'd')
+      .toLowerCase()
+      .replace(/[\s_\-./()]+/g, ''));
+
+    if (table.hasHeader || table.format === 'apkg' || table.format === 'anki-text') {
+      for (const [field, keywords] of HEADER_KEYWORDS) {
+        const column = normalized.findIndex((header, i) =>
+          !used.has(i) && !IGNORED_HEADERS.includes(header) && keywords.some(keyword => header.includes(keyword)));
+        if (column !== -1) {
+          mapping[field] = column;
+          used.add(column);
+        }
+      }
+    }
+
+    if (mapping.chineseCharacter === undefined) {
+      const sample = table.rows.slice(0, this.PREVIEW_ROWS);
+      const column = table.headers.findIndex((_, i) =>
+        !used.has(i) && sample.length > 0 && sample.every(row => PinyinUtils.containsHanzi(row[i] || '')));
+      if (column !== -1) {
+        mapping.chineseCharacter = column;
+      }
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Build vocabulary entries from the rows of a table
+   * @param table - Parsed file
+   * @param mapping - Column of each field (chineseCharacter is required)
+   * @param defaults - Chapter and label for rows without one
+   */
+  static buildEntries(table: ImportTable, mapping: ColumnMapping, defaults: ImportDefaults = {}): { rows: ImportRow[]; errors: ImportRowError[] } {
+    if (mapping.chineseCharacter === undefined) {
+      throw new Error('A column must be mapped to the Chinese characters');
+    }
+
+    for (const field of Object.keys(mapping) as ImportField[]) {
+      const column = mapping[field];
+      if (!IMPORT_FIELDS.includes(field) || !Number.isInteger(column) || column! < 0 || column! >= table.headers.length) {
+        throw new Error(`Invalid column for ${field}`);
+      }
+    }
+
+    const firstRow = table.format === 'apkg' ? 1 : (table.hasHeader ? 2 : 1);
+    const rows: ImportRow[] = [];
+    const errors: ImportRowError[] = [];
+
+    table.rows.forEach((cells, index) => {
+      const row = firstRow + index;
+      const value = (field: ImportField): string | undefined => {
+        const column = mapping[field];
+        const cell = column !== undefined ? (cells[column] || '').trim() : '';
+        return cell.length > 0 ? cell : undefined;
+      };
+
+      const chineseCharacter = value('chineseCharacter');
+      if (!chineseCharacter || !PinyinUtils.containsHanzi(chineseCharacter)) {
+        errors.push({ row, error: 'No Chinese characters' });
+        return;
+      }
+      try {
+        ExpressionService.validate(chineseCharacter);
+      } catch (validationError) {
+        errors.push({ row, error: (validationError as Error).message });
+        return;
+      }
+
+      let chapter = defaults.chapter;
+      const chapterCell = value('chapter');
+      if (chapterCell !== undefined) {
+        const digits = chapterCell.match(/\d+/);
+        if (!digits) {
+          errors.push({ row, error: `Invalid chapter "${chapterCell}"` });
+          return;
+        }
+        chapter = parseInt(digits[0], 10);
+      }
+
+      if (chapter === undefined) {
+        errors.push({ row, error: 'No chapter' });
+        return;
+      }
+
+      rows.push({
+        row,
+        entry: {
+          chineseCharacter,
+          pinyin: value('pinyin'),
+          hanVietnamese: value('hanVietnamese'),
+          modernVietnamese: value('modernVietnamese'),
+          englishMeaning: value('englishMeaning'),
+          learningNote: value('learningNote'),
+          chapter,
+          chapterLabel: value('chapterLabel') || defaults.chapterLabel
+        }
+      });
+    });
+
+    return { rows, errors };
+  }
+
+  /**
+   * Create vocabulary entries for the rows of a table
+   * @param userId - Owner user ID
+   * @param username - Owner username
+   * @param table - Parsed file
+   * @param mapping - Column of each field
+   * @param defaults - Chapter and label for rows without one
+   * @param options - Auto-translation, duplicate handling and tags
+   */
+  static async importTable(
+    userId: number,
+    username: string,
+    table: ImportTable,
+    mapping: ColumnMapping,
+    defaults: ImportDefaults = {},
+    options: ImportOptions = {}
+  ): Promise<ImportSummary> {
+    if (table.rows.length > this.MAX_ROWS) {
+      throw new Error(`Maximum ${this.MAX_ROWS} rows per import`);
+    }
+
+    const onDuplicate = options.onDuplicate || 'skip';
+    const { rows, errors } = this.buildEntries(table, mapping, defaults);
+    const results: ImportSummary['results'] = errors.map(error => ({
+      row: error.row,
+      chineseCharacter: '',
+      success: false,
+      error: error.error
+    }));
+
+    // A word repeated in the file is only checked against the vocabulary once; the rest are skipped
+    const seen = new Set<string>();
+    const toSave: ImportRow[] = [];
+    for (const row of rows) {
+      if (onDuplicate !== 'keepBoth' && seen.has(row.entry.chineseCharacter)) {
+        results.push({ row: row.row, chineseCharacter: row.entry.chineseCharacter, success: true, status: 'skipped' });
+      } else {
+        seen.add(row.entry.chineseCharacter);
+        toSave.push(row);
+      }
+    }
+
+    const BATCH_SIZE = 10;
+    for (let i = 0; i < toSave.length; i += BATCH_SIZE) {
+      const batch = toSave.slice(i, i + BATCH_SIZE);
+      results.push(...await Promise.all(batch.map(async ({ row, entry }) => {
+        try {
+          const duplicate = await DuplicateService.check(userId, entry, onDuplicate, options.changedBy);
+          if (duplicate.outcome === 'skipped' || duplicate.outcome === 'updated') {
+            return { row, chineseCharacter: entry.chineseCharacter, success: true, status: duplicate.outcome, id: duplicate.entry?.id };
+          }
+
+          // createEntry refreshes the pinyin of the sentences using the word itself
+          let created: VocabularyEntry;
+          if (options.autoTranslate) {
+            created = await vocabularyManager.createEntry(userId, username, entry);
+          } else {
+            created = await VocabularyEntryDAO.create(userId, username, vocabularyManager.fillReadings(entry));
+            await ExampleSentenceService.refreshPinyin(userId, created.chineseCharacter);
+          }
+          return { row, chineseCharacter: entry.chineseCharacter, success: true, status: 'created' as const, id: created.id };
+        } catch (error) {
+          return {
+            row,
+            chineseCharacter: entry.chineseCharacter,
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          };
+        }
+      })));
+    }
+
+    if (options.tags && options.tags.length > 0) {
+      const ids = results.map(result => result.id).filter((id): id is string => !!id);
+      await TagService.addToEntries(userId, ids, options.tags);
+    }
+
+    results.sort((a, b) => a.row - b.row);
+    const count = (status: string) => results.filter(result => result.status === status).length;
+
+    return {
+      total: table.rows.length,
+      imported: count('created'),
+      updated: count('updated'),
+      skipped: count('skipped'),
+      failed: results.filter(result => !result.success).length,
+      results
+    };
+  }
+
+  /**
+   * Turn parsed rows into a table, taking the header from the first row when there is one
+   */
+  private static toTable(format: ImportFormat, rows: string[][], hasHeader?: boolean): ImportTable {
+    if (rows.length === 0) {
+      throw new Error('The file has no rows');
+    }
+
+    const header = hasHeader ?? !rows[0].some(cell => PinyinUtils.containsHanzi(cell));
+    const dataRows = header ? rows.slice(1) : rows;
+    const width = Math.max(...rows.map(row => row.length));
+    const headers = Array.from({ length: width }, (_, i) =>
+      header && rows[0][i]?.trim() ? rows[0][i].trim() : `Column ${i + 1}`);
+
+    return { format, headers, rows: dataRows, hasHeader: header };
+  }
+
+  /**
+   * Pick the delimiter of a .csv file (some spreadsheet locales save with semicolons)
+   */
+  private static detectCsvDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/, 1)[0];
+    const count = (char: string) => firstLine.split(char).length - 1;
+    if (count(';') > count(',')) return ';';
+    if (count('\t') > count(',')) return '\t';
+    return ',';
+  }
+
+  /**
+   * Parse an Anki "Notes in Plain Text" export and its #key:value header lines
+   */
+  private static parseAnkiText(text: string): ImportTable {
+    const lines = text.split(/\r?\n/);
+    let separator = '\t';
+    let html = false;
+    let columns: string | null = null;
+    const namedColumns: Record<number, string> = {};
+    let start = 0;
+
+    while (start < lines.length && lines[start].startsWith('#')) {
+      const match = lines[start].match(/^#([^:]+):(.*)$/);
+      start++;
+      if (!match) continue;
+
+      const [, key, value] = match;
+      if (key === 'separator') {
+        separator = SEPARATOR_NAMES[value.trim().toLowerCase()] ?? value;
+      } else if (key === 'html') {
+        html = value.trim() === 'true';
+      } else if (key === 'columns') {
+        columns = value;
+      } else if (key.endsWith(' column')) {
+        const name = key.replace(/ column$/, '');
+        namedColumns[parseInt(value, 10) - 1] = name.charAt(0).toUpperCase() + name.slice(1);
+      }
+    }
+
+    const rows = this.parseDelimited(lines.slice(start).join('\n'), separator)
+      .map(row => html ? row.map(cell => this.stripHtml(cell)) : row.map(cell => cell.trim()));
+    if (rows.length === 0) {
+      throw new Error('The file has no rows');
+    }
+
+    const headerCells = columns !== null ? this.parseDelimited(columns, separator)[0] || [] : [];
+    const width = Math.max(headerCells.length, ...rows.map(row => row.length));
+    const headers = Array.from({ length: width }, (_, i) =>
+      headerCells[i]?.trim() || namedColumns[i] || `Column ${i + 1}`);
+
+    return { format: 'anki-text', headers, rows, hasHeader: false };
+  }
+
+  /**
+   * Read the notes of an Anki package
+   * Columns are the fields of the most used note type, followed by the note tags.
+   */
+  private static async parseAnkiPackage(buffer: Buffer): Promise<ImportTable> {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(buffer);
+    } catch {
+      throw new Error('Invalid Anki package: not a zip file');
+    }
+
+    const collection = zip.file('collection.anki21') || zip.file('collection.anki2');
+    if (!collection) {
+      throw new Error('Invalid Anki package: no collection found');
+    }
+    if (collection.name === 'collection.anki2' && zip.file('collection.anki21b')) {
+      throw new Error('Unsupported Anki package format: export again with "Support older Anki versions" checked');
+    }
+
+    if (!this.sqlJs) {
+      this.sqlJs = initSqlJs();
+    }
+    const SQL = await this.sqlJs;
+    const db = new SQL.Database(await collection.async('uint8array'));
+
+    try {
+      const [models] = db.exec('SELECT models FROM col');
+      const noteTypes: Record<string, { flds: { name: string; ord: number }[] }> =
+        models ? JSON.parse(String(models.values[0][0])) : {};
+
+      const [notes] = db.exec('SELECT mid, flds, tags FROM notes ORDER BY id');
+      if (!notes || notes.values.length === 0) {
+        throw new Error('The Anki package has no notes');
+      }
+
+      const usage = new Map<string, number>();
+      for (const [mid] of notes.values) {
+        usage.set(String(mid), (usage.get(String(mid)) || 0) + 1);
+      }
+      const mainType = Array.from(usage.entries()).sort((a, b) => b[1] - a[1])[0][0];
+      const fieldNames = (noteTypes[mainType]?.flds || [])
+        .sort((a, b) => a.ord - b.ord)
+        .map(field => field.name);
+
+      const rows = notes.values.map(([, flds, tags]) => [
+        ...String(flds).split('\x1f').map(field => this.stripHtml(field)),
+        String(tags || '').trim()
+      ]);
+      const width = Math.max(fieldNames.length, ...rows.map(row => row.length - 1));
+      const headers = [
+        ...Array.from({ length: width }, (_, i) => fieldNames[i] || `Field ${i + 1}`),
+        'Tags'
+      ];
+
+      return {
+        format: 'apkg',
+        headers,
+        rows: rows.map(row => [...row.slice(0, -1), ...Array(width - (row.length - 1)).fill(''), row[row.length - 1]]),
+        hasHeader: false
+      };
+    } finally {
+      db.close();
+    }
+  }
+}
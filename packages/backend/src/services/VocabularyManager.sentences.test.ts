@@ -0,0 +1,63 @@
+/**
+ * VocabularyManager Sentence Pinyin Tests
+ *
+ * Unit tests for keeping the pinyin of the generated sentences in step with the readings of created and edited words.
+ */
+
+import { VocabularyManager } from './VocabularyManager';
+import { VocabularyEntryDAO, VocabularyEntry } from '../models/VocabularyEntry';
+import { TranslationService } from './TranslationService';
+import { ExampleSentenceService } from './ExampleSentenceService';
+
+jest.mock('../models/VocabularyEntry');
+jest.mock('./TranslationService');
+jest.mock('./ExampleSentenceService');
+
+const mockVocabularyEntryDAO = VocabularyEntryDAO as jest.Mocked<typeof VocabularyEntryDAO>;
+
+describe('VocabularyManager sentence pinyin', () => {
+  let manager: VocabularyManager;
+
+  const makeEntry = (pinyin: string): VocabularyEntry => ({
+    id: 'v1',
+    userId: 1,
+    username: 'parent',
+    chineseCharacter: '还',
+    pinyin,
+    modernVietnamese: 'còn',
+    englishMeaning: 'still',
+    chapter: 1,
+    createdAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01')
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    manager = new VocabularyManager(new TranslationService());
+  });
+
+  it('should refresh the pinyin of the sentences using a created word', async () => {
+    mockVocabularyEntryDAO.create.mockResolvedValue(makeEntry('hái'));
+
+    await manager.createEntry(1, 'parent', { chineseCharacter: '还', pinyin: 'hái', modernVietnamese: 'còn', englishMeaning: 'still', chapter: 1 });
+
+    expect(ExampleSentenceService.refreshPinyin).toHaveBeenCalledWith(1, '还');
+  });
+
+  it('should refresh the pinyin of the sentences when an edit changes the reading', async () => {
+    mockVocabularyEntryDAO.findById.mockResolvedValue(makeEntry('hái'));
+    mockVocabularyEntryDAO.update.mockResolvedValue(makeEntry('huán'));
+
+    await manager.updateEntry(1, 'v1', { pinyin: 'huán' });
+
+    expect(ExampleSentenceService.refreshPinyin).toHaveBeenCalledWith(1, '还');
+  });
+
+  it('should leave the sentences alone when an edit keeps the reading', async () => {
+    mockVocabularyEntryDAO.update.mockResolvedValue(makeEntry('hái'));
+
+    await manager.updateEntry(1, 'v1', { learningNote: 'also huán: to return' });
+
+    expect(ExampleSentenceService.refreshPinyin).not.toHaveBeenCalled();
+  });
+});
@@ -8,17 +8,33 @@
 import { VocabularyEntryDAO, VocabularyInput, VocabularyEntry } from '../models/VocabularyEntry';
 import { TranslationService } from './TranslationService';
 import { ChapterRange } from './ChapterFilter';
-import pinyin from 'pinyin';
+import { DuplicateService, DuplicateAction } from './DuplicateService';
+import { ExpressionService } from './ExpressionService';
+import { PinyinUtils } from './PinyinUtils';
+import { HanVietService } from './HanVietService';
+import { ExampleSentenceService } from './ExampleSentenceService';
 
 /**
  * Translation preview interface for manual translation before save
  */
 export interface TranslationPreview {
   pinyin: string;
+  pinyinCandidates: string[]; // whole-word readings when a character has several, the generated one first
+  hanVietnamese: string;
+  hanVietnameseCandidates: string[]; // likewise, from the bundled Hán-Việt table
   modernVietnamese: string;
   englishMeaning: string;
 }
 
+/**
+ * Outcome of sharing a chapter
+ */
+export interface ShareResult {
+  copied: number;
+  skipped: number; // words the target user already had
+  updated: number; // existing words updated with the shared values
+}
+
 /**
  * VocabularyManager class for managing vocabulary entries
  * All methods use userId (number) for user isolation.
@@ -35,7 +51,11 @@ export class VocabularyManager {
    */
   async createEntry(userId: number, username: string, entry: VocabularyInput): Promise<VocabularyEntry> {
     const entryWithTranslations = await this.applyAutoTranslation(entry) as VocabularyInput;
-    return await VocabularyEntryDAO.create(userId, username, entryWithTranslations);
+    const created = await VocabularyEntryDAO.create(userId, username, entryWithTranslations);
+
+    // Sentences already using the word are read as the new entry says
+    await ExampleSentenceService.refreshPinyin(userId, created.chineseCharacter);
+    return created;
   }
 
   /**
@@ -64,17 +84,26 @@ export class VocabularyManager {
 
   /**
    * Update existing vocabulary entry with automatic translation for missing fields
+   * @param changedBy - User making the change, for the edit history
    */
-  async updateEntry(userId: number, entryId: string, updates: Partial<VocabularyInput>): Promise<VocabularyEntry | null> {
+  async updateEntry(userId: number, entryId: string, updates: Partial<VocabularyInput>, changedBy?: number): Promise<VocabularyEntry | null> {
     const updatesWithTranslations = await this.applyAutoTranslation(updates) as Partial<VocabularyInput>;
-    return await VocabularyEntryDAO.update(userId, entryId, updatesWithTranslations);
+    const before = updates.pinyin !== undefined ? await VocabularyEntryDAO.findById(userId, entryId) : null;
+    const updated = await VocabularyEntryDAO.update(userId, entryId, updatesWithTranslations, changedBy);
+
+    // A new reading (e.g. another reading of a polyphone) carries over to the sentences using the word
+    if (updated && before && before.pinyin !== updated.pinyin) {
+      await ExampleSentenceService.refreshPinyin(userId, updated.chineseCharacter);
+    }
+    return updated;
   }
 
   /**
    * Delete vocabulary entry
+   * @param changedBy - User deleting the entry, for the edit history
    */
-  async deleteEntry(userId: number, entryId: string): Promise<boolean> {
-    return await VocabularyEntryDAO.delete(userId, entryId);
+  async deleteEntry(userId: number, entryId: string, changedBy?: number): Promise<boolean> {
+    return await VocabularyEntryDAO.delete(userId, entryId, changedBy);
   }
 
   /**
@@ -84,20 +113,25 @@ export class VocabularyManager {
     chineseCharacter: string,
     existingPinyin?: string,
     existingVietnamese?: string,
-    existingEnglish?: string
+    existingEnglish?: string,
+    existingHanVietnamese?: string
   ): Promise<TranslationPreview> {
     const result: TranslationPreview = {
       pinyin: existingPinyin || '',
+      pinyinCandidates: [],
+      hanVietnamese: existingHanVietnamese || HanVietService.toHanViet(chineseCharacter),
+      hanVietnameseCandidates: HanVietService.candidates(chineseCharacter),
       modernVietnamese: existingVietnamese || '',
       englishMeaning: existingEnglish || ''
     };
 
     if (!existingPinyin) {
-      const pinyinArray = pinyin(chineseCharacter, {
-        style: pinyin.STYLE_TONE,
-        heteronym: false
-      });
-      result.pinyin = pinyinArray.map(p => p[0]).join(' ');
+      result.pinyin = this.toPinyin(chineseCharacter);
+    }
+
+    const candidates = PinyinUtils.readingCandidates(chineseCharacter, syllables => this.formatPinyin(syllables));
+    if (candidates.length > 1) {
+      result.pinyinCandidates = candidates;
     }
 
     const needsVietnamese = !existingVietnamese;
@@ -106,14 +140,14 @@ export class VocabularyManager {
     if (needsVietnamese && needsEnglish) {
       const [modernVietnamese, englishMeaning] = await Promise.all([
         this.translationService.translateToVietnamese(chineseCharacter),
-        this.translationService.translateToEnglish(chineseCharacter)
+        this.translationService.translateToEnglish(chineseCharacter, result.pinyin)
       ]);
       result.modernVietnamese = modernVietnamese;
       result.englishMeaning = englishMeaning;
     } else if (needsVietnamese) {
       result.modernVietnamese = await this.translationService.translateToVietnamese(chineseCharacter);
     } else if (needsEnglish) {
-      result.englishMeaning = await this.translationService.translateToEnglish(chineseCharacter);
+      result.englishMeaning = await this.translationService.translateToEnglish(chineseCharacter, result.pinyin);
     }
 
     return result;
@@ -121,15 +155,20 @@ export class VocabularyManager {
 
   /**
    * Share chapter vocabulary from one user to another
+   * Words the target user already has are resolved with `onDuplicate` (skipped by default).
+   * @param changedBy - User sharing the chapter, for the edit history of updated words
    */
-  async shareChapter(sourceUserId: number, targetUserId: number, targetUsername: string, chapter: number): Promise<number> {
+  async shareChapter(
+    sourceUserId: number,
+    targetUserId: number,
+    targetUsername: string,
+    chapter: number,
+    onDuplicate: DuplicateAction = 'skip',
+    changedBy?: number
+  ): Promise<ShareResult> {
     const sourceEntries = await VocabularyEntryDAO.findByUserId(sourceUserId, chapter, chapter);
-    
-    if (sourceEntries.length === 0) {
-      return 0;
-    }
+    const result: ShareResult = { copied: 0, skipped: 0, updated: 0 };
 
-    let copiedCount = 0;
     for (const entry of sourceEntries) {
       const newEntry: VocabularyInput = {
         chineseCharacter: entry.chineseCharacter,
@@ -141,11 +180,18 @@ export class VocabularyManager {
         chapter: entry.chapter
       };
 
-      await VocabularyEntryDAO.createShared(targetUserId, targetUsername, newEntry, entry.username);
-      copiedCount++;
+      const duplicate = await DuplicateService.check(targetUserId, newEntry, onDuplicate, changedBy);
+      if (duplicate.outcome === 'skipped') {
+        result.skipped++;
+      } else if (duplicate.outcome === 'updated') {
+        result.updated++;
+      } else {
+        await VocabularyEntryDAO.createShared(targetUserId, targetUsername, newEntry, entry.username);
+        result.copied++;
+      }
     }
 
-    return copiedCount;
+    return result;
   }
 
   /**
@@ -195,6 +241,13 @@ export class VocabularyManager {
     return await VocabularyEntryDAO.getRandomByChapterLabel(userId, chapterLabel);
   }
 
+  /**
+   * Get a random vocabulary entry carrying a tag
+   */
+  async getRandomByTag(userId: number, tag: string): Promise<VocabularyEntry | null> {
+    return await VocabularyEntryDAO.getRandomByTag(userId, tag);
+  }
+
   /**
    * Get a random favorite vocabulary entry by chapter label
    */
@@ -203,11 +256,27 @@ export class VocabularyManager {
   }
 
   /**
-   * Apply automatic translation for missing fields
+   * Tone-marked pinyin of a word, chengyu or pattern, read in context (see PinyinUtils)
    */
-  private async applyAutoTranslation(
-    entry: VocabularyInput | Partial<VocabularyInput>
-  ): Promise<VocabularyInput | Partial<VocabularyInput>> {
+  private toPinyin(chineseCharacter: string): string {
+    return this.formatPinyin(PinyinUtils.toneMarkedSyllables(chineseCharacter));
+  }
+
+  /**
+   * Join generated syllables
+   * The 。。。 placeholder of patterns such as 越。。。越 is written as "…" (yuè … yuè).
+   */
+  private formatPinyin(syllables: string[]): string {
+    return syllables
+      .map(syllable => syllable === ExpressionService.PATTERN_PLACEHOLDER ? '…' : syllable)
+      .join(' ');
+  }
+
+  /**
+   * Fill in missing pinyin and Hán-Việt, without calling the translation service
+   * Used on its own for imports that keep the file's meanings as they are.
+   */
+  fillReadings<T extends VocabularyInput | Partial<VocabularyInput>>(entry: T): T {
     if (!entry.chineseCharacter) {
       return entry;
     }
@@ -215,13 +284,32 @@ export class VocabularyManager {
     const result = { ...entry };
 
     if (!entry.pinyin) {
-      const pinyinArray = pinyin(entry.chineseCharacter, {
-        style: pinyin.STYLE_TONE,
-        heteronym: false
-      });
-      result.pinyin = pinyinArray.map(p => p[0]).join(' ');
+      result.pinyin = this.toPinyin(entry.chineseCharacter);
     }
 
+    // Hán-Việt comes from the bundled table; words with a character missing from it stay blank
+    if (!entry.hanVietnamese) {
+      const hanVietnamese = HanVietService.toHanViet(entry.chineseCharacter);
+      if (hanVietnamese) {
+        result.hanVietnamese = hanVietnamese;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Apply automatic translation for missing fields
+   */
+  private async applyAutoTranslation(
+    entry: VocabularyInput | Partial<VocabularyInput>
+  ): Promise<VocabularyInput | Partial<VocabularyInput>> {
+    if (!entry.chineseCharacter) {
+      return entry;
+    }
+
+    const result = this.fillReadings(entry);
+
     const needsVietnamese = entry.modernVietnamese === undefined || entry.modernVietnamese === '';
     const needsEnglish = entry.englishMeaning === undefined || entry.englishMeaning === '';
 
@@ -232,14 +320,14 @@ export class VocabularyManager {
     if (needsVietnamese && needsEnglish) {
       const [modernVietnamese, englishMeaning] = await Promise.all([
         this.translationService.translateToVietnamese(entry.chineseCharacter),
-        this.translationService.translateToEnglish(entry.chineseCharacter)
+        this.translationService.translateToEnglish(entry.chineseCharacter, result.pinyin)
       ]);
       result.modernVietnamese = modernVietnamese;
       result.englishMeaning = englishMeaning;
     } else if (needsVietnamese) {
       result.modernVietnamese = await this.translationService.translateToVietnamese(entry.chineseCharacter);
     } else if (needsEnglish) {
-      result.englishMeaning = await this.translationService.translateToEnglish(entry.chineseCharacter);
+      result.englishMeaning = await this.translationService.translateToEnglish(entry.chineseCharacter, result.pinyin);
     }
 
     return result;
@@ -0,0 +1,236 @@
+/**
+ * VocabularySearch Tests
+ *
+ * Unit tests for search parsing, tone-insensitive pinyin matching and cursor pagination.
+ */
+
+import { VocabularySearch } from './VocabularySearch';
+import { VocabularyEntryDAO, VocabularyEntry } from '../models/VocabularyEntry';
+import { TagDAO } from '../models/Tag';
+
+jest.mock('../models/VocabularyEntry');
+jest.mock('../models/Tag');
+
+const mockVocabularyEntryDAO = VocabularyEntryDAO as jest.Mocked<typeof VocabularyEntryDAO>;
+const mockTagDAO = TagDAO as jest.Mocked<typeof TagDAO>;
+
+describe('VocabularySearch', () => {
+  const makeEntry = (id: string, pinyin: string, chapter: number): VocabularyEntry => ({
+    id,
+    userId: 1,
+    username: 'parent',
+    chineseCharacter: '字',
+    pinyin,
+    chapter,
+    createdAt: new Date('2026-01-01T10:00:00Z'),
+    updatedAt: new Date('2026-02-01T10:00:00Z')
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockVocabularyEntryDAO.count.mockResolvedValue(0);
+    mockVocabularyEntryDAO.findPage.mockResolvedValue([]);
+    mockTagDAO.findNamesByVocabularyIds.mockResolvedValue({});
+  });
+
+  describe('isSearchRequest', () => {
+    it('should detect search parameters', () => {
+      expect(VocabularySearch.isSearchRequest({ q: 'hao' })).toBe(true);
+      expect(VocabularySearch.isSearchRequest({ limit: '50' })).toBe(true);
+      expect(VocabularySearch.isSearchRequest({ pinyin: 'ni' })).toBe(true);
+    });
+
+    it('should keep plain chapter requests on the full list', () => {
+      expect(VocabularySearch.isSearchRequest({})).toBe(false);
+      expect(VocabularySearch.isSearchRequest({ chapterStart: '1', chapterEnd: '3' })).toBe(false);
+      expect(VocabularySearch.isSearchRequest({ chapterLabel: 'HSK 1' })).toBe(false);
+    });
+  });
+
+  describe('normalizePinyin', () => {
+    it('should drop tones, tone numbers and spaces', () => {
+      expect(VocabularySearch.normalizePinyin('Nǐ hǎo')).toBe('nihao');
+      expect(VocabularySearch.normalizePinyin('ni3 hao3')).toBe('nihao');
+      expect(VocabularySearch.normalizePinyin("xī'ān")).toBe('xian');
+    });
+
+    it('should write ü, v and u: as u', () => {
+      expect(VocabularySearch.normalizePinyin('lǜ')).toBe('lu');
+      expect(VocabularySearch.normalizePinyin('lv4')).toBe('lu');
+      expect(VocabularySearch.normalizePinyin('nu:3')).toBe('nu');
+    });
+  });
+
+  describe('parseQuery', () => {
+    it('should apply the defaults', () => {
+      expect(VocabularySearch.parseQuery({ q: ' hao ' })).toEqual({
+        q: 'hao',
+        fields: {},
+        favorite: undefined,
+        selection: {},
+        sort: 'chapter',
+        order: 'asc',
+        limit: 100,
+        cursor: undefined
+      });
+    });
+
+    it('should read field filters, favorite and the chapter selection', () => {
+      const query = VocabularySearch.parseQuery({
+        englishMeaning: 'good',
+        pinyin: 'hao',
+        favorite: 'false',
+        chapterStart: '2',
+        chapterEnd: '4',
+        chapterLabel: 'HSK 1',
+        sort: 'createdAt',
+        order: 'desc',
+        limit: '20'
+      });
+
+      expect(query.fields).toEqual({ pinyin: 'hao', englishMeaning: 'good' });
+      expect(query.favorite).toBe(false);
+      expect(query.selection).toEqual({ chapterLabels: ['HSK 1'], ranges: [{ start: 2, end: 4 }] });
+      expect(query).toMatchObject({ sort: 'createdAt', order: 'desc', limit: 20 });
+    });
+
+    it.each([
+      [{ sort: 'meaning' }, 'sort must be one of'],
+      [{ order: 'up' }, 'order must be asc or desc'],
+      [{ limit: '0' }, 'limit must be between'],
+      [{ limit: '501' }, 'limit must be between'],
+      [{ favorite: 'yes' }, 'favorite must be true or false'],
+      [{ q: ['a', 'b'] }, 'q must be a single value'],
+      [{ cursor: 'not-a-cursor' }, 'cursor is malformed'],
+      [{ chapters: 'x' }, 'Invalid chapter selection']
+    ])('should reject %j', (input, message) => {
+      expect(() => VocabularySearch.parseQuery(input)).toThrow(message);
+    });
+  });
+
+  describe('search', () => {
+    it('should search every field through the full-text index with a tone-insensitive pinyin match', async () => {
+      await VocabularySearch.search([1], VocabularySearch.parseQuery({ q: 'Nǐ hǎo' }));
+
+      const [userIds, clause, orderBy, limit] = mockVocabularyEntryDAO.findPage.mock.calls[0];
+      expect(userIds).toEqual([1]);
+      expect(clause.sql).toBe(
+        ' AND MATCH(chinese_character, pinyin_letters, han_vietnamese, modern_vietnamese, english_meaning, learning_note) AGAINST (? IN BOOLEAN MODE)'
+      );
+      expect(clause.params).toEqual(['"Nǐ hǎo" "nihao"']);
+      expect(clause.sql).not.toContain('LIKE');
+      expect(clause.sql).not.toContain('REGEXP_REPLACE');
+      expect(orderBy).toBe('chapter ASC, pinyin ASC, id ASC');
+      expect(limit).toBe(101);
+      expect(mockVocabularyEntryDAO.count).toHaveBeenCalledWith([1], clause);
+    });
+
+    it('should drop double quotes from the full-text phrase', async () => {
+      await VocabularySearch.search([1], VocabularySearch.parseQuery({ q: '你"好' }));
+
+      const [, clause] = mockVocabularyEntryDAO.findPage.mock.calls[0];
+      expect(clause.params).toEqual(['"你 好"']);
+    });
+
+    it('should match a single character with LIKE in every field', async () => {
+      await VocabularySearch.search([1], VocabularySearch.parseQuery({ q: '_' }));
+
+      const [, clause] = mockVocabularyEntryDAO.findPage.mock.calls[0];
+      expect(clause.sql).toBe(
+        ' AND (chinese_character LIKE ? OR han_vietnamese LIKE ? OR modern_vietnamese LIKE ? OR english_meaning LIKE ? OR learning_note LIKE ?)'
+      );
+      expect(clause.params).toEqual(Array(5).fill('%\\_%'));
+    });
+
+    it('should filter pinyin on the stored pinyin letters', async () => {
+      await VocabularySearch.search([1], VocabularySearch.parseQuery({ pinyin: 'ni3 hao3' }));
+
+      const [, clause] = mockVocabularyEntryDAO.findPage.mock.calls[0];
+      expect(clause.sql).toBe(' AND pinyin_letters LIKE ?');
+      expect(clause.params).toEqual(['%nihao%']);
+    });
+
+    it('should combine field filters, favorite and the chapter selection', async () => {
+      await VocabularySearch.search([1, 2], VocabularySearch.parseQuery({ englishMeaning: 'good', favorite: 'true', chapters: '3' }));
+
+      const [userIds, clause] = mockVocabularyEntryDAO.findPage.mock.calls[0];
+      expect(userIds).toEqual([1, 2]);
+      expect(clause.sql).toBe(' AND english_meaning LIKE ? AND is_favorite = ? AND chapter IN (?)');
+      expect(clause.params).toEqual(['%good%', 1, 3]);
+    });
+
+    it('should return the total and a cursor when there are more entries', async () => {
+      mockVocabularyEntryDAO.findPage.mockResolvedValue([makeEntry('a', 'hǎo', 1), makeEntry('b', 'nǐ', 1), makeEntry('c', 'wǒ', 2)]);
+      mockVocabularyEntryDAO.count.mockResolvedValue(7);
+
+      const page = await VocabularySearch.search([1], VocabularySearch.parseQuery({ limit: '2' }));
+
+      expect(page.entries.map(entry => entry.id)).toEqual(['a', 'b']);
+      expect(page.total).toBe(7);
+      expect(page.nextCursor).toEqual(expect.any(String));
+    });
+
+    it('should attach the tags of the entries on the page', async () => {
+      mockVocabularyEntryDAO.findPage.mockResolvedValue([makeEntry('a', 'hǎo', 1), makeEntry('b', 'nǐ', 1)]);
+      mockTagDAO.findNamesByVocabularyIds.mockResolvedValue({ a: ['food', 'HSK2'] });
+
+      const page = await VocabularySearch.search([1], VocabularySearch.parseQuery({ limit: '2' }));
+
+      expect(mockTagDAO.findNamesByVocabularyIds).toHaveBeenCalledWith(['a', 'b']);
+      expect(page.entries.map(entry => entry.tags)).toEqual([['food', 'HSK2'], []]);
+    });
+
+    it('should not return a cursor on the last page', async () => {
+      mockVocabularyEntryDAO.findPage.mockResolvedValue([makeEntry('a', 'hǎo', 1)]);
+      mockVocabularyEntryDAO.count.mockResolvedValue(1);
+
+      const page = await VocabularySearch.search([1], VocabularySearch.parseQuery({ limit: '2' }));
+
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it('should continue after the cursor entry', async () => {
+      mockVocabularyEntryDAO.findPage.mockResolvedValue([makeEntry('a', 'hǎo', 1), makeEntry('b', 'nǐ', 1)]);
+      const first = await VocabularySearch.search([1], VocabularySearch.parseQuery({ limit: '1' }));
+
+      mockVocabularyEntryDAO.findPage.mockClear();
+      await VocabularySearch.search([1], VocabularySearch.parseQuery({ limit: '1', cursor: first.nextCursor! }));
+
+      const [, clause] = mockVocabularyEntryDAO.findPage.mock.calls[0];
+      expect(clause.sql).toBe(' AND ((chapter > ?) OR (chapter = ? AND pinyin > ?) OR (chapter = ? AND pinyin = ? AND id > ?))');
+      expect(clause.params).toEqual([1, 1, 'hǎo', 1, 'hǎo', 'a']);
+      expect(mockVocabularyEntryDAO.count).toHaveBeenCalledWith([1], { sql: '', params: [] });
+    });
+
+    it('should page descending dates with the cursor values as dates', async () => {
+      mockVocabularyEntryDAO.findPage.mockResolvedValue([makeEntry('a', 'hǎo', 1), makeEntry('b', 'nǐ', 1)]);
+      const first = await VocabularySearch.search([1], VocabularySearch.parseQuery({ sort: 'createdAt', order: 'desc', limit: '1' }));
+
+      mockVocabularyEntryDAO.findPage.mockClear();
+      await VocabularySearch.search([1], VocabularySearch.parseQuery({ sort: 'createdAt', order: 'desc', limit: '1', cursor: first.nextCursor! }));
+
+      const [, clause, orderBy] = mockVocabularyEntryDAO.findPage.mock.calls[0];
+      expect(orderBy).toBe('created_at DESC, id DESC');
+      expect(clause.sql).toBe(' AND ((created_at < ?) OR (created_at = ? AND id < ?))');
+      expect(clause.params).toEqual([new Date('2026-01-01T10:00:00Z'), new Date('2026-01-01T10:00:00Z'), 'a']);
+    });
+
+    it.each([
+      ['a chapter that is not a number', { sort: 'chapter', order: 'asc', values: ['1', 'hǎo', 'a'] }, {}],
+      ['an object in place of a string', { sort: 'chapter', order: 'asc', values: [1, { $gt: '' }, 'a'] }, {}],
+      ['an ID that is not a string', { sort: 'pinyin', order: 'asc', values: ['hǎo', 7] }, { sort: 'pinyin' }],
+      ['a date that cannot be read', { sort: 'createdAt', order: 'asc', values: ['yesterday', 'a'] }, { sort: 'createdAt' }]
+    ])('should reject a cursor with %s', (_description, cursor, query) => {
+      const encoded = Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+      expect(() => VocabularySearch.parseQuery({ ...query, cursor: encoded })).toThrow('Invalid search: cursor is malformed');
+    });
+
+    it('should reject a cursor from another sort order', async () => {
+      mockVocabularyEntryDAO.findPage.mockResolvedValue([makeEntry('a', 'hǎo', 1), makeEntry('b', 'nǐ', 1)]);
+      const first = await VocabularySearch.search([1], VocabularySearch.parseQuery({ limit: '1' }));
+
+      expect(() => VocabularySearch.parseQuery({ sort: 'pinyin', cursor: first.nextCursor! })).toThrow('different sort order');
+    });
+  });
+});
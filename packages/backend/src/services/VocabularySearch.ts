@@ -0,0 +1,351 @@
+/**
+ * VocabularySearch Service
+ *
+ * Server-side search, sorting and cursor pagination for the vocabulary list, so large vocabularies
+ * are not sent to the client in one piece.
+ *
+ * - Search (q) matches hanzi, pinyin, Hán-Việt, Vietnamese, English and notes through the ngram
+ *   full-text index of vocabulary_entries. Pinyin is matched on pinyin_letters, the stored pinyin
+ *   without spaces, apostrophes or tone numbers ("nihao", "ni hao" and "ni3hao3" all find 你好); tone
+ *   marks and accents are ignored by the table collation. Single characters are shorter than an ngram
+ *   token and are matched with LIKE instead.
+ * - Field filters narrow a single field with LIKE (pinyin on pinyin_letters); tags narrow the chapter selection.
+ * - Pages are keyset-paginated: the cursor holds the sort values of the last entry, so pages stay
+ *   stable while words are added and each page is an index range scan.
+ */
+
+import { VocabularyEntryDAO, VocabularyEntry } from '../models/VocabularyEntry';
+import { TagDAO } from '../models/Tag';
+import { ChapterFilter, ChapterSelection } from './ChapterFilter';
+
+export type VocabularySortField = 'chapter' | 'chineseCharacter' | 'pinyin' | 'createdAt' | 'updatedAt';
+
+export const SORT_FIELDS: VocabularySortField[] = ['chapter', 'chineseCharacter', 'pinyin', 'createdAt', 'updatedAt'];
+
+export type SortOrder = 'asc' | 'desc';
+
+export type SearchField = 'chineseCharacter' | 'pinyin' | 'hanVietnamese' | 'modernVietnamese' | 'englishMeaning' | 'learningNote';
+
+export const SEARCH_FIELDS: SearchField[] = ['chineseCharacter', 'pinyin', 'hanVietnamese', 'modernVietnamese', 'englishMeaning', 'learningNote'];
+
+/**
+ * Parsed search request
+ */
+export interface VocabularySearchQuery {
+  q?: string;
+  fields: Partial<Record<SearchField, string>>;
+  favorite?: boolean;
+  selection: ChapterSelection;
+  sort: VocabularySortField;
+  order: SortOrder;
+  limit: number;
+  cursor?: string;
+}
+
+/**
+ * One page of search results
+ */
+export interface VocabularyPage {
+  entries: VocabularyEntry[];
+  total: number;              // all matches, not just this page
+  nextCursor: string | null;  // null on the last page
+}
+
+interface SqlClause {
+  sql: string;
+  params: unknown[];
+}
+
+/**
+ * Sort columns of each sort field; the entry ID is always the final tie-breaker
+ */
+const SORT_COLUMNS: Record<VocabularySortField, { column: string; key: keyof VocabularyEntry; type: 'number' | 'string' | 'date' }[]> = {
+  chapter: [{ column: 'chapter', key: 'chapter', type: 'number' }, { column: 'pinyin', key: 'pinyin', type: 'string' }],
+  chineseCharacter: [{ column: 'chinese_character', key: 'chineseCharacter', type: 'string' }],
+  pinyin: [{ column: 'pinyin', key: 'pinyin', type: 'string' }],
+  createdAt: [{ column: 'created_at', key: 'createdAt', type: 'date' }],
+  updatedAt: [{ column: 'updated_at', key: 'updatedAt', type: 'date' }]
+};
+
+const FIELD_COLUMNS: Record<SearchField, string> = {
+  chineseCharacter: 'chinese_character',
+  pinyin: 'pinyin',
+  hanVietnamese: 'han_vietnamese',
+  modernVietnamese: 'modern_vietnamese',
+  englishMeaning: 'english_meaning',
+  learningNote: 'learning_note'
+};
+
+// Columns of the ngram full-text index (see database.ts), in index order as MATCH requires
+const TEXT_COLUMNS = 'chinese_character, pinyin_letters, han_vietnamese, modern_vietnamese, english_meaning, learning_note';
+
+// Token size of the ngram parser (ngram_token_size); shorter search texts cannot use the full-text index
+const NGRAM_TOKEN_SIZE = 2;
+
+const SEARCH_KEYS = ['q', 'sort', 'order', 'limit', 'cursor', 'favorite', ...SEARCH_FIELDS];
+
+/**
+ * Escape the LIKE wildcards of a search term and wrap it for a substring match
+ */
+function containing(text: string): string {
+  return `%${text.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+/**
+ * Quote a search text as a boolean-mode phrase (double quotes cannot be escaped inside one)
+ */
+function phrase(text: string): string {
+  return `"${text.replace(/"/g, ' ')}"`;
+}
+
+/**
+ * VocabularySearch class for paginated vocabulary queries
+ */
+export class VocabularySearch {
+  static readonly DEFAULT_LIMIT = 100;
+  static readonly MAX_LIMIT = 500;
+
+  /**
+   * Whether a list request asks for a search page rather than the whole vocabulary
+   */
+  static isSearchRequest(query: Record<string, unknown>): boolean {
+    return SEARCH_KEYS.some(key => query[key] !== undefined);
+  }
+
+  /**
+   * Reduce pinyin to lowercase toneless letters: "Nǐ hǎo", "ni3 hao3" and "nihao" all become "nihao"
+   * ü (also written v or u:) becomes u, which the collation matches against ü.
+   */
+  static normalizePinyin(text: string): string {
+    return text
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/u:/g, 'u')
+      .replace(/v/g, 'u')
+      .replace(/[^a-z]/g, '');
+  }
+
+  /**
+   * Parse a search request from query parameters
+   *
+   * Accepted keys (all optional):
+   * - q: text searched in every field
+   * - chineseCharacter, pinyin, hanVietnamese, modernVietnamese, englishMeaning, learningNote: per-field filters
+   * - favorite: true/false
+   * - chapter selection keys (chapters, ranges, chapterLabel, tags, favoritesOnly, exclusions) and chapterStart/chapterEnd
+   * - sort: chapter | chineseCharacter | pinyin | createdAt | updatedAt (default chapter, then pinyin)
+   * - order: asc | desc (default asc)
+   * - limit: 1-500 (default 100)
+   * - cursor: nextCursor of the previous page
+   * @throws Error starting with "Invalid search" or "Invalid chapter selection" when a value is malformed
+   */
+  static parseQuery(query: Record<string, unknown>): VocabularySearchQuery {
+    const text = (key: string): string | undefined => {
+      const value = query[key];
+      if (value === undefined) return undefined;
+      if (typeof value !== 'string') throw new Error(`Invalid search: ${key} must be a single value`);
+      return value.trim() || undefined;
+    };
+
+    const sort = (text('sort') || 'chapter') as VocabularySortField;
+    if (!SORT_FIELDS.includes(sort)) {
+      throw new Error(`Invalid search: sort must be one of ${SORT_FIELDS.join(', ')}`);
+    }
+
+    const order = (text('order') || 'asc') as SortOrder;
+    if (order !== 'asc' && order !== 'desc') {
+      throw new Error('Invalid search: order must be asc or desc');
+    }
+
+    const limitText = text('limit');
+    const limit = limitText === undefined ? this.DEFAULT_LIMIT : Number(limitText);
+    if (!Number.isInteger(limit) || limit < 1 || limit > this.MAX_LIMIT) {
+      throw new Error(`Invalid search: limit must be between 1 and ${this.MAX_LIMIT}`);
+    }
+
+    const favoriteText = text('favorite');
+    if (favoriteText !== undefined && favoriteText !== 'true' && favoriteText !== 'false') {
+      throw new Error('Invalid search: favorite must be true or false');
+    }
+
+    const fields: Partial<Record<SearchField, string>> = {};
+    for (const field of SEARCH_FIELDS) {
+      const value = text(field);
+      if (value !== undefined) fields[field] = value;
+    }
+
+    const selection = ChapterFilter.parseSelection(query);
+    const chapterStart = text('chapterStart');
+    const chapterEnd = text('chapterEnd');
+    if (chapterStart !== undefined && chapterEnd !== undefined) {
+      const start = Number(chapterStart);
+      const end = Number(chapterEnd);
+      if (!Number.isInteger(start) || !Number.isInteger(end) || start > end) {
+        throw new Error('Invalid search: chapterStart and chapterEnd must be numbers with chapterStart <= chapterEnd');
+      }
+      selection.ranges = [...(selection.ranges || []), { start, end }];
+    }
+
+    const cursor = text('cursor');
+    if (cursor !== undefined) {
+      this.decodeCursor(cursor, sort, order);
+    }
+
+    return {
+      q: text('q'),
+      fields,
+      favorite: favoriteText === undefined ? undefined : favoriteText === 'true',
+      selection,
+      sort,
+      order,
+      limit,
+      cursor
+    };
+  }
+
+  /**
+   * Find one page of matching entries
+   * @param userIds - Owner user IDs (a child also sees the parent's words)
+   * @param query - Parsed search request
+   */
+  static async search(userIds: number[], query: VocabularySearchQuery): Promise<VocabularyPage> {
+    const filter = this.buildFilterClause(query);
+    const columns = [...SORT_COLUMNS[query.sort].map(spec => spec.column), 'id'];
+    const direction = query.order === 'desc' ? 'DESC' : 'ASC';
+
+    let page: SqlClause = filter;
+    if (query.cursor) {
+      const after = this.buildCursorClause(columns, this.decodeCursor(query.cursor, query.sort, query.order), query.order);
+      page = { sql: filter.sql + after.sql, params: [...filter.params, ...after.params] };
+    }
+
+    // One extra row tells whether there is a next page
+    const [rows, total] = await Promise.all([
+      VocabularyEntryDAO.findPage(userIds, page, columns.map(column => `${column} ${direction}`).join(', '), query.limit + 1),
+      VocabularyEntryDAO.count(userIds, filter)
+    ]);
+
+    const entries = rows.slice(0, query.limit);
+    const tags = await TagDAO.findNamesByVocabularyIds(entries.map(entry => entry.id));
+    entries.forEach(entry => { entry.tags = tags[entry.id] || []; });
+
+    const last = entries[entries.length - 1];
+    return {
+      entries,
+      total,
+      nextCursor: rows.length > query.limit && last ? this.encodeCursor(last, query.sort, query.order) : null
+    };
+  }
+
+  /**
+   * Conditions for the search text, field filters and chapter selection
+   */
+  private static buildFilterClause(query: VocabularySearchQuery): SqlClause {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    const matchField = (field: SearchField, value: string): { sql: string; params: unknown[] } | null => {
+      if (field === 'pinyin') {
+        const letters = this.normalizePinyin(value);
+        return letters ? { sql: 'pinyin_letters LIKE ?', params: [containing(letters)] } : null;
+      }
+      return { sql: `${FIELD_COLUMNS[field]} LIKE ?`, params: [containing(value)] };
+    };
+
+    if (query.q && Array.from(query.q).length >= NGRAM_TOKEN_SIZE) {
+      // Either the text itself or its pinyin letters, as a phrase in any indexed column
+      const letters = this.normalizePinyin(query.q);
+      const phrases = letters && letters !== query.q ? [phrase(query.q), phrase(letters)] : [phrase(query.q)];
+      conditions.push(`MATCH(${TEXT_COLUMNS}) AGAINST (? IN BOOLEAN MODE)`);
+      params.push(phrases.join(' '));
+    } else if (query.q) {
+      const alternatives = SEARCH_FIELDS
+        .map(field => matchField(field, query.q!))
+        .filter((match): match is { sql: string; params: unknown[] } => match !== null);
+      conditions.push(`(${alternatives.map(match => match.sql).join(' OR ')})`);
+      alternatives.forEach(match => params.push(...match.params));
+    }
+
+    for (const field of SEARCH_FIELDS) {
+      const value = query.fields[field];
+      const match = value !== undefined ? matchField(field, value) : null;
+      if (match) {
+        conditions.push(match.sql);
+        params.push(...match.params);
+      }
+    }
+
+    if (query.favorite !== undefined) {
+      conditions.push('is_favorite = ?');
+      params.push(query.favorite ? 1 : 0);
+    }
+
+    const scope = ChapterFilter.buildScopeClause(query.selection);
+    return {
+      sql: conditions.map(condition => ` AND ${condition}`).join('') + scope.sql,
+      params: [...params, ...scope.params]
+    };
+  }
+
+  /**
+   * Keyset condition for the rows after the cursor:
+   * (a > ?) OR (a = ? AND b > ?) OR (a = ? AND b = ? AND id > ?), with < for descending order
+   */
+  private static buildCursorClause(columns: string[], values: unknown[], order: SortOrder): SqlClause {
+    const comparison = order === 'desc' ? '<' : '>';
+    const alternatives: string[] = [];
+    const params: unknown[] = [];
+
+    columns.forEach((column, i) => {
+      const equal = columns.slice(0, i).map(previous => `${previous} = ?`);
+      alternatives.push(`(${[...equal, `${column} ${comparison} ?`].join(' AND ')})`);
+      params.push(...values.slice(0, i + 1));
+    });
+
+    return { sql: ` AND (${alternatives.join(' OR ')})`, params };
+  }
+
+  private static encodeCursor(entry: VocabularyEntry, sort: VocabularySortField, order: SortOrder): string {
+    const values = SORT_COLUMNS[sort].map(spec => {
+      const value = entry[spec.key];
+      return spec.type === 'date' ? new Date(value as Date).toISOString() : value;
+    });
+    return Buffer.from(JSON.stringify({ sort, order, values: [...values, entry.id] })).toString('base64url');
+  }
+
+  /**
+   * Read the sort values (entry ID last) from a cursor
+   * @throws Error when the cursor is malformed or was made for another sort
+   */
+  private static decodeCursor(cursor: string, sort: VocabularySortField, order: SortOrder): unknown[] {
+    let decoded: { sort?: unknown; order?: unknown; values?: unknown };
+    try {
+      decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new Error('Invalid search: cursor is malformed');
+    }
+
+    if (!decoded || typeof decoded !== 'object') {
+      throw new Error('Invalid search: cursor is malformed');
+    }
+    if (decoded.sort !== sort || decoded.order !== order) {
+      throw new Error('Invalid search: cursor belongs to a different sort order');
+    }
+
+    const specs = SORT_COLUMNS[sort];
+    if (!Array.isArray(decoded.values) || decoded.values.length !== specs.length + 1) {
+      throw new Error('Invalid search: cursor is malformed');
+    }
+
+    // Each value must have the type of its column; the entry ID last is a string
+    const types = [...specs.map(spec => spec.type), 'string'];
+    return decoded.values.map((value, i) => {
+      const type = types[i];
+      if (type === 'number' && typeof value === 'number' && Number.isFinite(value)) return value;
+      if (type === 'string' && typeof value === 'string') return value;
+      if (type === 'date' && typeof value === 'string' && !isNaN(new Date(value).getTime())) return new Date(value);
+      throw new Error('Invalid search: cursor is malformed');
+    });
+  }
+}
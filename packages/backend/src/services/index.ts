@@ -1,6 +1,6 @@
 export { TranslationService, translationService } from './TranslationService';
 export { AITextGenerator, aiTextGenerator } from './AITextGenerator';
 export { TTSService, ttsService, AudioData } from './TTSService';
-export { ChapterFilter, ChapterRange } from './ChapterFilter';
+export { ChapterFilter, ChapterRange, ChapterSelection, ChapterScope } from './ChapterFilter';
 export { VocabularyManager, vocabularyManager, TranslationPreview } from './VocabularyManager';
 export { DatabaseBackupManager, BackupFile, RestoreResult, ValidationResult } from './DatabaseBackupManager';
@@ -13,6 +13,10 @@ import PhrasesPage from './pages/PhrasesPage';
 import VietnamesePhrases from './pages/EnglishPhrasesPage';
 import FlashcardPage from './pages/FlashcardPage';
 import ChapterFlashcardPage from './pages/ChapterFlashcardPage';
+import WritingPracticePage from './pages/WritingPracticePage';
+import ToneDrillPage from './pages/ToneDrillPage';
+import ClozePage from './pages/ClozePage';
+import LeechReportPage from './pages/LeechReportPage';
 import ImagenWorkspaceDetailPage from './pages/ImagenWorkspaceDetailPage';
 import AdminPanelPage from './pages/AdminPanelPage';
 
@@ -235,6 +239,52 @@ function Navigation() {
                   📖 Flashcards (Chapters)
                 </Link>
               </li>
+              <li>
+                <Link
+                  to="/writing"
+                  onClick={closeMenu}
+                  style={styles.navLink}
+                  onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#f8f9fa'}
+                  onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                >
+                  ✍️ Writing Practice
+                </Link>
+              </li>
+              <li>
+                <Link
+                  to="/tone-drill"
+                  onClick={closeMenu}
+                  style={styles.navLink}
+                  onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#f8f9fa'}
+                  onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                >
+                  🎵 Tone Drill
+                </Link>
+              </li>
+              <li>
+                <Link
+                  to="/cloze"
+                  onClick={closeMenu}
+                  style={styles.navLink}
+                  onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#f8f9fa'}
+                  onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                >
+                  🧩 Fill the Gap
+                </Link>
+              </li>
+              {(user.role === 'admin' || user.role === 'parent') && (
+                <li>
+                  <Link
+                    to="/leeches"
+                    onClick={closeMenu}
+                    style={styles.navLink}
+                    onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#f8f9fa'}
+                    onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                  >
+                    🩹 Leech Report
+                  </Link>
+                </li>
+              )}
               {user?.role === 'admin' && (
                 <li>
                   <Link
@@ -344,6 +394,38 @@ function AppContent() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/writing"
+            element={
+              <ProtectedRoute>
+                <WritingPracticePage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/tone-drill"
+            element={
+              <ProtectedRoute>
+                <ToneDrillPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/cloze"
+            element={
+              <ProtectedRoute>
+                <ClozePage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/leeches"
+            element={
+              <ProtectedRoute requiredRoles={['admin', 'parent']}>
+                <LeechReportPage />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/admin"
             element={
@@ -76,25 +76,120 @@ export interface VocabularyEntry {
   createdAt: string;
   updatedAt: string;
   sharedFrom?: string;
+  deletedAt?: string;
+  tags?: string[];
 }
 
 export interface TranslationPreview {
   pinyin: string;
+  pinyinCandidates: string[]; // readings to choose from when a character has several
+  hanVietnamese: string;
+  hanVietnameseCandidates: string[];
   modernVietnamese: string;
   englishMeaning: string;
 }
 
+export type VocabularySortField = 'chapter' | 'chineseCharacter' | 'pinyin' | 'createdAt' | 'updatedAt';
+
+// Server-side search; every text filter is a substring match, pinyin ignores tones
+export interface VocabularySearchParams {
+  q?: string;
+  chineseCharacter?: string;
+  pinyin?: string;
+  hanVietnamese?: string;
+  modernVietnamese?: string;
+  englishMeaning?: string;
+  learningNote?: string;
+  favorite?: boolean;
+  chapters?: string;
+  chapterLabel?: string;
+  tags?: string;        // comma-separated; words carrying any of them
+  sort?: VocabularySortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+export interface VocabularyPage {
+  entries: VocabularyEntry[];
+  total: number;
+  nextCursor: string | null;
+}
+
+// Free-form tag such as "food" or "exam week 3"
+export interface Tag {
+  id: number;
+  name: string;
+  entryCount: number;
+  createdAt: string;
+}
+
+// What to do when an added word already exists in the vocabulary
+export type DuplicateAction = 'skip' | 'update' | 'keepBoth';
+
+export interface DuplicateGroup {
+  chineseCharacter: string;
+  entries: VocabularyEntry[];
+}
+
+export interface CharacterLookup {
+  character: string;
+  entries: VocabularyEntry[];     // entries of the character itself
+  expressions: VocabularyEntry[]; // words, chengyu and patterns containing it
+}
+
+export type RevisionField = 'chineseCharacter' | 'pinyin' | 'hanVietnamese' | 'modernVietnamese' | 'englishMeaning' | 'learningNote' | 'chapter' | 'chapterLabel';
+
+// One recorded change of an entry; snapshot is the content before the change
+export interface VocabularyRevision {
+  id: number;
+  vocabularyId: string;
+  changedBy: number | null;
+  changedByUsername: string | null;
+  action: 'update' | 'delete' | 'undelete' | 'restore';
+  changes: Partial<Record<RevisionField, { from: string | number | null; to: string | number | null }>>;
+  snapshot: Record<RevisionField, string | number | null>;
+  createdAt: string;
+}
+
+// Stored practice sentence using a word; newWordCount counts its other words not yet met by the word's chapter
+export interface ExampleSentence {
+  id: string;
+  chineseText: string;
+  pinyin: string;
+  englishMeaning?: string;
+  modernVietnamese?: string;
+  usedCharacters: string[];
+  newWordCount: number;
+}
+
+export interface TrashListing {
+  retentionDays: number;
+  entries: (VocabularyEntry & { deletedAt: string; purgeAt: string })[];
+}
+
+export interface ShareResult {
+  success: boolean;
+  copiedCount: number;
+  skippedCount: number;
+  updatedCount: number;
+}
+
 export const vocabularyApi = {
   getAll: (username: string, chapterStart?: number, chapterEnd?: number) =>
     apiClient.get<VocabularyEntry[]>(`/${username}/vocabulary`, {
       params: { chapterStart, chapterEnd },
     }),
 
+  search: (username: string, params: VocabularySearchParams) =>
+    apiClient.get<VocabularyPage>(`/${username}/vocabulary`, { params }),
+
   getById: (username: string, id: string) =>
     apiClient.get<VocabularyEntry>(`/${username}/vocabulary/${id}`),
 
-  create: (username: string, data: Partial<VocabularyEntry>) =>
-    apiClient.post<VocabularyEntry>(`/${username}/vocabulary`, data),
+  // Without onDuplicate an existing word is answered with 409 { error, existing }
+  create: (username: string, data: Partial<VocabularyEntry>, onDuplicate?: DuplicateAction) =>
+    apiClient.post<VocabularyEntry>(`/${username}/vocabulary`, { ...data, onDuplicate }),
 
   update: (username: string, id: string, data: Partial<VocabularyEntry>) =>
     apiClient.put<VocabularyEntry>(`/${username}/vocabulary/${id}`, data),
@@ -102,12 +197,13 @@ export const vocabularyApi = {
   delete: (username: string, id: string) =>
     apiClient.delete(`/${username}/vocabulary/${id}`),
 
-  previewTranslation: (username: string, chineseCharacter: string, pinyin?: string, modernVietnamese?: string, englishMeaning?: string) =>
+  previewTranslation: (username: string, chineseCharacter: string, pinyin?: string, modernVietnamese?: string, englishMeaning?: string, hanVietnamese?: string) =>
     apiClient.post<TranslationPreview>(`/${username}/vocabulary/translate`, {
       chineseCharacter,
       pinyin,
       modernVietnamese,
       englishMeaning,
+      hanVietnamese,
     }),
 
   getChapters: (username: string) =>
@@ -121,10 +217,11 @@ export const vocabularyApi = {
       params: { chapterLabel }
     }),
 
-  share: (username: string, sourceUsername: string, chapter: number) =>
-    apiClient.post(`/${username}/vocabulary/share`, {
+  share: (username: string, sourceUsername: string, chapter: number, onDuplicate?: DuplicateAction) =>
+    apiClient.post<ShareResult>(`/${username}/vocabulary/share`, {
       sourceUsername,
       chapter,
+      onDuplicate,
     }),
 
   getSharedSources: (chapter: number) =>
@@ -139,8 +236,64 @@ export const vocabularyApi = {
   deleteUser: (username: string) =>
     apiClient.delete(`/vocabulary/users/${username}`),
 
-  batchUpload: (username: string, characters: string, chapter: number, chapterLabel?: string) =>
-    apiClient.post(`/${username}/vocabulary/batch`, { characters, chapter, chapterLabel }),
+  // Tags go on every word of the batch, including existing words that were skipped
+  batchUpload: (username: string, characters: string, chapter: number, chapterLabel?: string, onDuplicate?: DuplicateAction, tags?: string[]) =>
+    apiClient.post(`/${username}/vocabulary/batch`, { characters, chapter, chapterLabel, onDuplicate, tags }),
+
+  lookupCharacter: (username: string, character: string) =>
+    apiClient.get<CharacterLookup>(`/${username}/vocabulary/characters/${encodeURIComponent(character)}`),
+
+  getDuplicates: (username: string) =>
+    apiClient.get<DuplicateGroup[]>(`/${username}/vocabulary/duplicates`),
+
+  // Merges into the entry with the earliest chapter
+  merge: (username: string, ids: string[]) =>
+    apiClient.post<VocabularyEntry>(`/${username}/vocabulary/merge`, { ids }),
+
+  // Deleted entries stay in the trash until purged, by hand or after the retention period
+  getTrash: (username: string) =>
+    apiClient.get<TrashListing>(`/${username}/vocabulary/trash`),
+
+  restoreFromTrash: (username: string, ids: string[]) =>
+    apiClient.post<{ restored: VocabularyEntry[] }>(`/${username}/vocabulary/trash/restore`, { ids }),
+
+  // Without ids the whole trash is emptied
+  purgeTrash: (username: string, ids?: string[]) =>
+    apiClient.post<{ purged: number }>(`/${username}/vocabulary/trash/purge`, ids ? { ids } : { all: true }),
+
+  // Replaces the entry's tags; missing tags are created
+  setTags: (username: string, id: string, tags: string[]) =>
+    apiClient.put<{ tags: string[] }>(`/${username}/vocabulary/${id}/tags`, { tags }),
+
+  assignTags: (username: string, ids: string[], add: string[], remove: string[] = []) =>
+    apiClient.post<{ updated: number }>(`/${username}/vocabulary/tags`, { ids, add, remove }),
+
+  // Newest change first
+  // Easiest sentences using the word first
+  getExamples: (username: string, id: string, limit?: number) =>
+    apiClient.get<{ examples: ExampleSentence[] }>(`/${username}/vocabulary/${id}/examples`, { params: { limit } }),
+
+  getHistory: (username: string, id: string) =>
+    apiClient.get<{ revisions: VocabularyRevision[] }>(`/${username}/vocabulary/${id}/history`),
+
+  // Puts the entry back the way it was before the revision
+  restoreRevision: (username: string, id: string, revisionId: number) =>
+    apiClient.post<VocabularyEntry>(`/${username}/vocabulary/${id}/history/${revisionId}/restore`),
+};
+
+export const tagApi = {
+  list: (username: string) =>
+    apiClient.get<{ tags: Tag[] }>(`/${username}/tags`),
+
+  create: (username: string, name: string) =>
+    apiClient.post<Tag>(`/${username}/tags`, { name }),
+
+  rename: (username: string, id: number, name: string) =>
+    apiClient.put<Tag>(`/${username}/tags/${id}`, { name }),
+
+  // Removes the tag from every word; the words stay
+  delete: (username: string, id: number) =>
+    apiClient.delete(`/${username}/tags/${id}`),
 };
 
 export const adminApi = {
@@ -181,3 +334,319 @@ export const ttsApi = {
       params: { text },
     }),
 };
+
+export interface DeckFilter {
+  chapterStart?: number;
+  chapterEnd?: number;
+  chapterLabel?: string;
+  tag?: string;
+  favoritesOnly?: boolean;
+}
+
+export interface DeckSummary {
+  id: string;
+  filter: DeckFilter;
+  position: number;
+  total: number;
+  round: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DeckCard {
+  deck: DeckSummary;
+  entry: VocabularyEntry | null;
+}
+
+const sameDeckFilter = (a: DeckFilter, b: DeckFilter) =>
+  (a.chapterLabel ?? null) === (b.chapterLabel ?? null) &&
+  (a.tag ?? null) === (b.tag ?? null) &&
+  (a.chapterStart ?? null) === (b.chapterStart ?? null) &&
+  (a.chapterEnd ?? null) === (b.chapterEnd ?? null) &&
+  !!a.favoritesOnly === !!b.favoritesOnly;
+
+export const deckApi = {
+  create: (username: string, filter: DeckFilter) =>
+    apiClient.post<DeckSummary>(`/${username}/decks`, filter),
+
+  list: (username: string) =>
+    apiClient.get<DeckSummary[]>(`/${username}/decks`),
+
+  get: (username: string, id: string) =>
+    apiClient.get<DeckCard>(`/${username}/decks/${id}`),
+
+  next: (username: string, id: string) =>
+    apiClient.post<DeckCard>(`/${username}/decks/${id}/next`),
+
+  previous: (username: string, id: string) =>
+    apiClient.post<DeckCard>(`/${username}/decks/${id}/previous`),
+
+  delete: (username: string, id: string) =>
+    apiClient.delete(`/${username}/decks/${id}`),
+
+  // Resume the most recently used deck with the same filter (e.g. started on another device), or create one
+  resumeOrCreate: async (username: string, filter: DeckFilter): Promise<DeckSummary> => {
+    const decks = await apiClient.get<DeckSummary[]>(`/${username}/decks`);
+    const existing = decks.data.find(deck => sameDeckFilter(deck.filter, filter));
+    if (existing) return existing;
+    const created = await apiClient.post<DeckSummary>(`/${username}/decks`, filter);
+    return created.data;
+  },
+};
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface TodaySummary {
+  mode: string;
+  dueReviews: number;
+  newIntroducedToday: number;
+  dailyNewLimit: number;
+  newAvailable: number;
+  newRemaining: number;
+  remaining: number;
+}
+
+export interface StudySettings {
+  username: string;
+  dailyNewLimit: number | null;
+  defaultDailyNewLimit: number;
+}
+
+// Chapter selection as query parameters (see ChapterFilter.parseSelection on the server)
+export interface ChapterSelectionParams {
+  chapters?: string;
+  ranges?: string;
+  chapterLabel?: string;
+  tags?: string;
+  favoritesOnly?: boolean;
+}
+
+export const studyApi = {
+  today: (username: string, mode: string, selection: ChapterSelectionParams) =>
+    apiClient.get<TodaySummary>(`/${username}/study/today`, {
+      params: { mode, ...selection },
+    }),
+
+  // Next card of today's session; 404 "Today's session is complete" when the queue is empty
+  nextCard: (username: string, mode: string, selection: ChapterSelectionParams) =>
+    apiClient.get<{ id: string; vocabularyId: string; queue: 'due' | 'new' | 'practice' }>(`/${username}/flashcard/next`, {
+      params: { mode, session: 'today', ...selection },
+    }),
+
+  grade: (username: string, flashcardId: string, grade: ReviewGrade) =>
+    apiClient.post(`/${username}/flashcard/${flashcardId}/grade`, { grade }),
+
+  getSettings: (username: string) =>
+    apiClient.get<StudySettings>(`/${username}/study/settings`),
+
+  updateSettings: (username: string, dailyNewLimit: number | null) =>
+    apiClient.put<StudySettings>(`/${username}/study/settings`, { dailyNewLimit }),
+};
+
+// A word the learner keeps failing, with its worst lapse count across modes
+export interface Leech {
+  vocabularyId: string;
+  chineseCharacter: string;
+  pinyin: string;
+  englishMeaning?: string;
+  modernVietnamese?: string;
+  chapter: number;
+  isFavorite: boolean;
+  lapses: number;
+  modes: string[];
+  lastReviewedAt?: string;
+}
+
+export interface LeechReport {
+  username: string;
+  threshold: number;
+  leeches: Leech[];
+}
+
+export const leechApi = {
+  // Leeches of a learner (parents for themselves and their children, admins for anyone)
+  getReport: (username: string) =>
+    apiClient.get<LeechReport>(`/${username}/flashcard/leeches`),
+};
+
+export type ClozeHintLanguage = 'english' | 'vietnamese';
+
+export interface ClozeCard {
+  sentenceId: string;
+  vocabularyId: string;
+  clozeText: string;
+  blankLength: number;
+  hint: string;
+  hintLanguage: ClozeHintLanguage;
+}
+
+export interface ClozeResult {
+  correct: boolean;
+  check: {
+    result: 'exact' | 'tone-wrong' | 'wrong';
+    answerType: 'hanzi' | 'pinyin';
+    correctChinese: string;
+    correctPinyin: string;
+  };
+  chineseText: string;
+  pinyin: string;
+  englishMeaning?: string;
+  modernVietnamese?: string;
+}
+
+export const clozeApi = {
+  // Sentence with a word from the selection blanked out (or the given word, with vocabularyId)
+  next: (username: string, hint: ClozeHintLanguage, selection: ChapterSelectionParams, vocabularyId?: string) =>
+    apiClient.get<ClozeCard>(`/${username}/cloze/next`, {
+      params: { hint, vocabularyId, ...selection },
+    }),
+
+  check: (username: string, card: ClozeCard, answer: string) =>
+    apiClient.post<ClozeResult>(`/${username}/cloze/check`, {
+      sentenceId: card.sentenceId,
+      vocabularyId: card.vocabularyId,
+      answer,
+    }),
+};
+
+// Stroke data in Make Me a Hanzi coordinates: a 1024 x 1024 box with the y axis pointing up from 900
+export interface CharacterStrokes {
+  character: string;
+  strokes: string[];
+  medians: number[][][];
+  radicalStrokes: number[];
+}
+
+export interface WritingSheet {
+  vocabularyId: string;
+  chineseCharacter: string;
+  pinyin: string;
+  characters: CharacterStrokes[];
+  missing: string[];
+}
+
+export const writingApi = {
+  getSheet: (username: string, vocabularyId: string) =>
+    apiClient.get<WritingSheet>(`/${username}/vocabulary/${vocabularyId}/strokes`),
+
+  getCharacter: (character: string) =>
+    apiClient.get<CharacterStrokes>(`/strokes/${encodeURIComponent(character)}`),
+};
+
+export interface ToneDrillItem {
+  vocabularyId: string;
+  chineseCharacter: string;
+  syllableCount: number;
+  englishMeaning?: string;
+  modernVietnamese?: string;
+}
+
+export interface ToneDrillResult {
+  correct: boolean;
+  pinyin: string;
+  syllables: { pinyin: string; expected: number; given: number; correct: boolean }[];
+  tonePairs: { expected: string; answered: string; correct: boolean }[];
+}
+
+export interface TonePairStats {
+  tonePair: string;
+  attempts: number;
+  correct: number;
+  accuracy: number;
+  confusions: { answered: string; count: number }[];
+}
+
+export const toneDrillApi = {
+  // Words come from the vocabulary owner (children use their parent's username)
+  getDrill: (username: string, selection: ChapterSelectionParams, count?: number) =>
+    apiClient.get<ToneDrillItem[]>(`/${username}/tone-drill`, {
+      params: { count, ...selection },
+    }),
+
+  // Tones 1-4, 5 for neutral; recorded for the signed-in learner
+  check: (username: string, vocabularyId: string, tones: number[]) =>
+    apiClient.post<ToneDrillResult>(`/${username}/tone-drill/check`, { vocabularyId, tones }),
+
+  // Stats of a learner (their own username)
+  getStats: (username: string) =>
+    apiClient.get<TonePairStats[]>(`/${username}/tone-drill/stats`),
+};
+
+export type ImportField =
+  | 'chineseCharacter'
+  | 'pinyin'
+  | 'hanVietnamese'
+  | 'modernVietnamese'
+  | 'englishMeaning'
+  | 'learningNote'
+  | 'chapter'
+  | 'chapterLabel';
+
+// Column index (0-based) of each mapped field
+export type ImportMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportOptions {
+  mapping?: ImportMapping;
+  hasHeader?: boolean;
+  chapter?: number;
+  chapterLabel?: string;
+  autoTranslate?: boolean;
+  onDuplicate?: DuplicateAction;
+  tags?: string[];
+}
+
+export interface ImportPreview {
+  format: 'csv' | 'tsv' | 'anki-text' | 'apkg';
+  headers: string[];
+  hasHeader: boolean;
+  mapping: ImportMapping;
+  rowCount: number;
+  sampleRows: string[][];
+  entries: { row: number; entry: Omit<VocabularyEntry, 'id' | 'username' | 'pinyin' | 'createdAt' | 'updatedAt'> & { pinyin?: string } }[];
+  errors: { row: number; error: string }[];
+}
+
+export interface ImportSummary {
+  total: number;
+  imported: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  results: { row: number; chineseCharacter: string; success: boolean; status?: 'created' | 'updated' | 'skipped'; id?: string; error?: string }[];
+}
+
+const toImportForm = (file: File, options: ImportOptions) => {
+  const form = new FormData();
+  form.append('file', file);
+  if (options.mapping) form.append('mapping', JSON.stringify(options.mapping));
+  if (options.hasHeader !== undefined) form.append('hasHeader', String(options.hasHeader));
+  if (options.chapter) form.append('chapter', String(options.chapter));
+  if (options.chapterLabel) form.append('chapterLabel', options.chapterLabel);
+  if (options.autoTranslate) form.append('autoTranslate', 'true');
+  if (options.onDuplicate) form.append('onDuplicate', options.onDuplicate);
+  if (options.tags && options.tags.length > 0) form.append('tags', options.tags.join(','));
+  return form;
+};
+
+export const importApi = {
+  // CSV, TSV, Anki text export (.txt) or Anki package (.apkg)
+  preview: (username: string, file: File, options: ImportOptions = {}) =>
+    apiClient.post<ImportPreview>(`/${username}/vocabulary/import/preview`, toImportForm(file, options), {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    }),
+
+  importFile: (username: string, file: File, options: ImportOptions) =>
+    apiClient.post<ImportSummary>(`/${username}/vocabulary/import`, toImportForm(file, options), {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    }),
+};
+
+export type ExportFormat = 'csv' | 'apkg' | 'pdf';
+
+export const exportApi = {
+  download: (username: string, format: ExportFormat, selection: ChapterSelectionParams) =>
+    apiClient.get<Blob>(`/${username}/vocabulary/export`, {
+      params: { format, ...selection },
+      responseType: 'blob',
+    }),
+};
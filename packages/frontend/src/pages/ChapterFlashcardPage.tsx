@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { apiClient } from '../api/client';
+import { useState, useEffect, useRef } from 'react';
+import { apiClient, deckApi, DeckFilter, DeckSummary, studyApi, tagApi, Tag, vocabularyApi, ChapterSelectionParams, ExampleSentence, ReviewGrade, TodaySummary } from '../api/client';
 import { useAuth } from '../context/AuthContext';
 import { useChildEditProtection } from '../hooks/useChildEditProtection';
 
@@ -20,6 +20,17 @@ interface VocabularyEntry {
   updatedAt: string;
 }
 
+type Algorithm = 'random' | 'shuffled' | 'today';
+
+// Flashcard mode whose review schedule today's session follows (the page shows Chinese and reveals the meanings)
+const TODAY_MODE = 'ChineseToMeanings';
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string; color: string }[] = [
+  { grade: 'again', label: 'Again', color: '#dc3545' },
+  { grade: 'hard', label: 'Hard', color: '#fd7e14' },
+  { grade: 'good', label: 'Good', color: '#28a745' },
+  { grade: 'easy', label: 'Easy', color: '#17a2b8' }
+];
+
 export default function ChapterFlashcardPage() {
   const { user } = useAuth();
   const showEditProtection = useChildEditProtection();
@@ -29,8 +40,12 @@ export default function ChapterFlashcardPage() {
   const [availableChapters, setAvailableChapters] = useState<number[]>([]);
   const [availableChapterLabels, setAvailableChapterLabels] = useState<string[]>([]);
   const [selectedChapterLabel, setSelectedChapterLabel] = useState<string | null>(null);
+  const [availableTags, setAvailableTags] = useState<Tag[]>([]);
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
   const [currentWord, setCurrentWord] = useState<VocabularyEntry | null>(null);
   const [showDetails, setShowDetails] = useState(false);
+  const [examples, setExamples] = useState<ExampleSentence[]>([]);
+  const currentWordIdRef = useRef<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [playing, setPlaying] = useState(false);
@@ -40,9 +55,11 @@ export default function ChapterFlashcardPage() {
   const [favoriteAction, setFavoriteAction] = useState<'favorite' | 'unfavorite'>('favorite');
   const [isEditing, setIsEditing] = useState(false);
   const [editedWord, setEditedWord] = useState<VocabularyEntry | null>(null);
-  const [algorithm, setAlgorithm] = useState<'random' | 'shuffled'>('random');
-  const [shuffledWords, setShuffledWords] = useState<VocabularyEntry[]>([]);
-  const [currentIndex, setCurrentIndex] = useState(0);
+  const [algorithm, setAlgorithm] = useState<Algorithm>('random');
+  const [deck, setDeck] = useState<DeckSummary | null>(null);
+  const [todayCardId, setTodayCardId] = useState<string | null>(null);
+  const [todaySummary, setTodaySummary] = useState<TodaySummary | null>(null);
+  const [sessionComplete, setSessionComplete] = useState(false);
 
   // Fetch parent username for child users
   useEffect(() => {
@@ -71,9 +88,14 @@ export default function ChapterFlashcardPage() {
     if (user && (parentUsername !== null || user.role !== 'child')) {
       fetchAvailableChapters();
       fetchAvailableChapterLabels();
+      fetchAvailableTags();
     }
   }, [user, parentUsername]);
 
+  useEffect(() => {
+    currentWordIdRef.current = currentWord?.id ?? null;
+  }, [currentWord]);
+
   // Get the username to use for API calls
   const usernameForAPI = parentUsername || user?.username;
 
@@ -103,62 +125,72 @@ export default function ChapterFlashcardPage() {
     }
   };
 
-  const fetchRandomWord = async () => {
+  const fetchAvailableTags = async () => {
+    if (!usernameForAPI) return;
+    try {
+      const response = await tagApi.list(usernameForAPI);
+      setAvailableTags(response.data.tags);
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+    }
+  };
+
+  const fetchRandomWord = async (resetDeck = false) => {
     if (!usernameForAPI) return;
     setLoading(true);
     setError(null);
     setShowDetails(false);
+    setExamples([]);
     setNoWords(false);
+    setSessionComplete(false);
     
     try {
-      if (algorithm === 'shuffled') {
-        // Shuffled algorithm: fetch all words once and serve in order
-        if (shuffledWords.length === 0 || currentIndex >= shuffledWords.length) {
-          // Fetch all words
-          let url = `/${usernameForAPI}/vocabulary`;
-          const params = new URLSearchParams();
-          
-          if (selectedChapterLabel) {
-            params.append('chapterLabel', selectedChapterLabel);
-          } else {
-            params.append('chapterStart', chapterStart.toString());
-            params.append('chapterEnd', chapterEnd.toString());
-          }
-          
-          if (params.toString()) {
-            url += `?${params.toString()}`;
-          }
-          
-          const response = await apiClient.get<VocabularyEntry[]>(url);
-          
-          if (response.data.length === 0) {
-            setNoWords(true);
-            if (selectedChapterLabel) {
-              setError(`No words found with chapter label "${selectedChapterLabel}". Please select a different label or chapters.`);
-            } else {
-              setError(`No words found in chapters ${chapterStart}-${chapterEnd}. Please select different chapters.`);
-            }
-            setLoading(false);
-            return;
-          }
-          
-          // Shuffle the array
-          const shuffled = [...response.data].sort(() => Math.random() - 0.5);
-          setShuffledWords(shuffled);
-          setCurrentIndex(0);
-          setCurrentWord(shuffled[0]);
-          setShowSettings(false);
-        } else {
-          // Serve next word from shuffled list
-          setCurrentWord(shuffledWords[currentIndex]);
-          setCurrentIndex(currentIndex + 1);
+      if (algorithm === 'today') {
+        // Today's session: due reviews plus new words up to the daily limit, graded until the queue is empty
+        // A tag takes precedence over the chapter label, and the label over the chapter range
+        const selection: ChapterSelectionParams = selectedTag
+          ? { tags: selectedTag }
+          : selectedChapterLabel
+            ? { chapterLabel: selectedChapterLabel }
+            : { ranges: `${chapterStart}-${chapterEnd}` };
+        try {
+          const card = await studyApi.nextCard(usernameForAPI, TODAY_MODE, selection);
+          const word = await vocabularyApi.getById(usernameForAPI, card.data.vocabularyId);
+          setTodayCardId(card.data.id);
+          setCurrentWord(word.data as VocabularyEntry);
+        } catch (err: any) {
+          if (err.response?.data?.error !== "Today's session is complete") throw err;
+          setTodayCardId(null);
+          setCurrentWord(null);
+          setSessionComplete(true);
+        }
+        const summary = await studyApi.today(usernameForAPI, TODAY_MODE, selection);
+        setTodaySummary(summary.data);
+        setShowSettings(false);
+      } else if (algorithm === 'shuffled') {
+        // Shuffled algorithm: the server keeps the shuffled order and cursor, so the deck resumes on any device
+        let deckId = resetDeck ? undefined : deck?.id;
+        if (!deckId) {
+          const filter: DeckFilter = selectedTag
+            ? { tag: selectedTag }
+            : selectedChapterLabel
+              ? { chapterLabel: selectedChapterLabel }
+              : { chapterStart, chapterEnd };
+          deckId = (await deckApi.resumeOrCreate(usernameForAPI, filter)).id;
         }
+
+        const response = await deckApi.next(usernameForAPI, deckId);
+        setDeck(response.data.deck);
+        setCurrentWord(response.data.entry as VocabularyEntry);
+        setShowSettings(false);
       } else {
         // Random algorithm: fetch random word each time
         let url = `/${usernameForAPI}/vocabulary/chapters/random`;
         const params = new URLSearchParams();
         
-        if (selectedChapterLabel) {
+        if (selectedTag) {
+          params.append('tag', selectedTag);
+        } else if (selectedChapterLabel) {
           params.append('chapterLabel', selectedChapterLabel);
         } else {
           params.append('chapterStart', chapterStart.toString());
@@ -176,7 +208,9 @@ export default function ChapterFlashcardPage() {
     } catch (err: any) {
       if (err.response?.status === 404) {
         setNoWords(true);
-        if (selectedChapterLabel) {
+        if (selectedTag) {
+          setError(`No words found with tag "${selectedTag}". Please select a different tag.`);
+        } else if (selectedChapterLabel) {
           setError(`No words found with chapter label "${selectedChapterLabel}". Please select a different label or chapters.`);
         } else {
           setError(`No words found in chapters ${chapterStart}-${chapterEnd}. Please select different chapters.`);
@@ -194,20 +228,55 @@ export default function ChapterFlashcardPage() {
       setError('Start chapter must be less than or equal to end chapter');
       return;
     }
-    // Reset shuffled state when starting
-    setShuffledWords([]);
-    setCurrentIndex(0);
-    fetchRandomWord();
+    // Resume or start the deck for the selected chapters
+    setDeck(null);
+    setTodaySummary(null);
+    fetchRandomWord(true);
   };
 
-  const handleShowDetails = () => {
+  const handleShowDetails = async () => {
     setShowDetails(true);
+    if (!currentWord || !usernameForAPI) return;
+    const wordId = currentWord.id;
+    try {
+      const response = await vocabularyApi.getExamples(usernameForAPI, wordId, 3);
+      // Drop the examples if the card changed while they were loading
+      if (currentWordIdRef.current !== wordId) return;
+      setExamples(response.data.examples);
+    } catch (err) {
+      console.error('Error fetching example sentences:', err);
+    }
   };
 
   const handleNext = () => {
     fetchRandomWord();
   };
 
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!todayCardId || !usernameForAPI) return;
+
+    try {
+      await studyApi.grade(usernameForAPI, todayCardId, grade);
+      fetchRandomWord();
+    } catch (err: any) {
+      alert(err.response?.data?.error || 'Failed to grade word');
+    }
+  };
+
+  const handlePrevious = async () => {
+    if (!deck || !usernameForAPI) return;
+    setShowDetails(false);
+    setExamples([]);
+
+    try {
+      const response = await deckApi.previous(usernameForAPI, deck.id);
+      setDeck(response.data.deck);
+      setCurrentWord(response.data.entry as VocabularyEntry);
+    } catch (err: any) {
+      alert(err.response?.data?.error || 'Failed to load previous word');
+    }
+  };
+
   const handlePronounce = () => {
     if (!currentWord) return;
 
@@ -263,9 +332,8 @@ export default function ChapterFlashcardPage() {
     setShowSettings(true);
     setCurrentWord(null);
     setError(null);
-    // Reset shuffled state when changing settings
-    setShuffledWords([]);
-    setCurrentIndex(0);
+    // Forget the current deck when changing settings
+    setDeck(null);
   };
 
   const handleToggleFavorite = async () => {
@@ -392,10 +460,37 @@ export default function ChapterFlashcardPage() {
             </div>
           </div>
 
+          {availableTags.length > 0 && (
+            <div style={{ marginBottom: '20px' }}>
+              <label style={{ display: 'block', marginBottom: '8px', fontWeight: 'bold' }}>
+                Tag:
+              </label>
+              <select
+                value={selectedTag || ''}
+                onChange={(e) => setSelectedTag(e.target.value || null)}
+                style={{
+                  width: '100%',
+                  padding: '10px',
+                  fontSize: '16px',
+                  borderRadius: '6px',
+                  border: '1px solid #dee2e6'
+                }}
+              >
+                <option value="">No Tag Filter</option>
+                {availableTags.map(tag => (
+                  <option key={tag.id} value={tag.name}>{tag.name} ({tag.entryCount})</option>
+                ))}
+              </select>
+              <div style={{ fontSize: '13px', color: '#666', marginTop: '5px' }}>
+                Review a themed set (takes precedence over chapter label and range)
+              </div>
+            </div>
+          )}
+
           <div style={{ 
             marginBottom: '20px',
-            opacity: selectedChapterLabel ? 0.5 : 1,
-            pointerEvents: selectedChapterLabel ? 'none' : 'auto'
+            opacity: selectedTag || selectedChapterLabel ? 0.5 : 1,
+            pointerEvents: selectedTag || selectedChapterLabel ? 'none' : 'auto'
           }}>
             <label style={{ display: 'block', marginBottom: '8px', fontWeight: 'bold' }}>
               Start Chapter:
@@ -403,7 +498,7 @@ export default function ChapterFlashcardPage() {
             <select
               value={chapterStart}
               onChange={(e) => setChapterStart(parseInt(e.target.value))}
-              disabled={!!selectedChapterLabel}
+              disabled={!!(selectedTag || selectedChapterLabel)}
               style={{
                 width: '100%',
                 padding: '10px',
@@ -420,8 +515,8 @@ export default function ChapterFlashcardPage() {
 
           <div style={{ 
             marginBottom: '25px',
-            opacity: selectedChapterLabel ? 0.5 : 1,
-            pointerEvents: selectedChapterLabel ? 'none' : 'auto'
+            opacity: selectedTag || selectedChapterLabel ? 0.5 : 1,
+            pointerEvents: selectedTag || selectedChapterLabel ? 'none' : 'auto'
           }}>
             <label style={{ display: 'block', marginBottom: '8px', fontWeight: 'bold' }}>
               End Chapter:
@@ -429,7 +524,7 @@ export default function ChapterFlashcardPage() {
             <select
               value={chapterEnd}
               onChange={(e) => setChapterEnd(parseInt(e.target.value))}
-              disabled={!!selectedChapterLabel}
+              disabled={!!(selectedTag || selectedChapterLabel)}
               style={{
                 width: '100%',
                 padding: '10px',
@@ -450,7 +545,7 @@ export default function ChapterFlashcardPage() {
             </label>
             <select
               value={algorithm}
-              onChange={(e) => setAlgorithm(e.target.value as 'random' | 'shuffled')}
+              onChange={(e) => setAlgorithm(e.target.value as Algorithm)}
               style={{
                 width: '100%',
                 padding: '10px',
@@ -461,11 +556,14 @@ export default function ChapterFlashcardPage() {
             >
               <option value="random">🎲 Random (may repeat)</option>
               <option value="shuffled">🔀 Shuffled Order (covers all)</option>
+              <option value="today">📅 Today's Session (due reviews + new words)</option>
             </select>
             <div style={{ fontSize: '13px', color: '#666', marginTop: '5px' }}>
               {algorithm === 'random' 
                 ? 'Each word is randomly selected - words may repeat before all are seen'
-                : 'All words shuffled once - each word shown exactly once per pass'}
+                : algorithm === 'shuffled'
+                  ? 'All words shuffled once - each word shown exactly once per pass'
+                  : 'Words due for review plus a daily limit of new words - grade each word to schedule it'}
             </div>
           </div>
 
@@ -537,6 +635,37 @@ export default function ChapterFlashcardPage() {
         </div>
       )}
 
+      {sessionComplete && !loading && !error && !showSettings && (
+        <div style={{
+          padding: '20px',
+          backgroundColor: '#d4edda',
+          color: '#155724',
+          border: '1px solid #c3e6cb',
+          borderRadius: '8px',
+          marginBottom: '20px',
+          textAlign: 'center',
+          maxWidth: '500px'
+        }}>
+          <div style={{ marginBottom: '15px' }}>
+            🎉 Today's session is complete! Come back tomorrow for your next reviews and new words.
+          </div>
+          <button
+            onClick={handleChangeSettings}
+            style={{
+              padding: '10px 20px',
+              backgroundColor: '#007bff',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '16px'
+            }}
+          >
+            Change Chapters
+          </button>
+        </div>
+      )}
+
       {!loading && !error && currentWord && !showSettings && (
         <div style={{
           width: '100%',
@@ -559,9 +688,14 @@ export default function ChapterFlashcardPage() {
             fontSize: '13px'
           }}>
             <strong>Chapters {chapterStart}-{chapterEnd}</strong>
-            {algorithm === 'shuffled' && shuffledWords.length > 0 && (
+            {algorithm === 'shuffled' && deck && (
+              <span style={{ marginLeft: '8px', color: '#666' }}>
+                • {deck.position}/{deck.total} words{deck.round > 1 ? ` (round ${deck.round})` : ''}
+              </span>
+            )}
+            {algorithm === 'today' && todaySummary && (
               <span style={{ marginLeft: '8px', color: '#666' }}>
-                • {currentIndex}/{shuffledWords.length} words
+                • {todaySummary.remaining} left today ({todaySummary.dueReviews} due, {todaySummary.newRemaining} new)
               </span>
             )}
             {' | '}
@@ -630,6 +764,21 @@ export default function ChapterFlashcardPage() {
                       </div>
                     )}
 
+                    {examples.length > 0 && (
+                      <div style={{ marginBottom: '10px' }}>
+                        <strong style={{ fontSize: '12px', color: '#666' }}>Examples:</strong>
+                        {examples.map(example => (
+                          <div key={example.id} style={{ marginTop: '5px', lineHeight: '1.4' }}>
+                            <div style={{ fontSize: '16px' }}>{example.chineseText}</div>
+                            <div style={{ fontSize: '12px', color: '#666' }}>{example.pinyin}</div>
+                            {(example.englishMeaning || example.modernVietnamese) && (
+                              <div style={{ fontSize: '12px', color: '#888' }}>{example.englishMeaning || example.modernVietnamese}</div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
                     <div style={{ marginBottom: '10px', paddingTop: '8px', borderTop: '1px solid #dee2e6' }}>
                       <strong style={{ fontSize: '12px', color: '#666' }}>Chapter:</strong>
                       <div style={{ fontSize: '14px', marginTop: '3px' }}>
@@ -980,28 +1129,75 @@ export default function ChapterFlashcardPage() {
               )}
             </div>
 
-          {/* Next Button */}
-          <div style={{ display: 'flex', justifyContent: 'center', width: '100%', marginTop: '10px' }}>
-            <button
-              onClick={handleNext}
-              disabled={isEditing}
-              style={{
-                padding: '10px 30px',
-                backgroundColor: isEditing ? '#6c757d' : '#17a2b8',
-                color: 'white',
-                border: 'none',
-                borderRadius: '8px',
-                cursor: isEditing ? 'not-allowed' : 'pointer',
-                fontSize: 'clamp(14px, 4vw, 16px)',
-                fontWeight: 'bold',
-                width: '100%',
-                maxWidth: '300px',
-                opacity: isEditing ? 0.6 : 1
-              }}
-            >
-              {isEditing ? 'Save or Cancel Edit First' : 'Next Word'}
-            </button>
-          </div>
+          {/* Grade Buttons (today's session) */}
+          {algorithm === 'today' && showDetails && (
+            <div style={{ display: 'flex', justifyContent: 'center', gap: '8px', width: '100%', marginTop: '10px', flexWrap: 'wrap' }}>
+              {GRADE_BUTTONS.map(({ grade, label, color }) => (
+                <button
+                  key={grade}
+                  onClick={() => handleGrade(grade)}
+                  disabled={isEditing}
+                  style={{
+                    padding: '10px 16px',
+                    backgroundColor: color,
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '8px',
+                    cursor: isEditing ? 'not-allowed' : 'pointer',
+                    fontSize: 'clamp(14px, 4vw, 16px)',
+                    fontWeight: 'bold',
+                    opacity: isEditing ? 0.6 : 1
+                  }}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Previous/Next Buttons */}
+          {algorithm !== 'today' && (
+            <div style={{ display: 'flex', justifyContent: 'center', gap: '10px', width: '100%', marginTop: '10px' }}>
+              {algorithm === 'shuffled' && deck && deck.position > 1 && (
+                <button
+                  onClick={handlePrevious}
+                  disabled={isEditing}
+                  style={{
+                    padding: '10px 16px',
+                    backgroundColor: '#6c757d',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '8px',
+                    cursor: isEditing ? 'not-allowed' : 'pointer',
+                    fontSize: 'clamp(14px, 4vw, 16px)',
+                    fontWeight: 'bold',
+                    opacity: isEditing ? 0.6 : 1
+                  }}
+                >
+                  ← Previous
+                </button>
+              )}
+              <button
+                onClick={handleNext}
+                disabled={isEditing}
+                style={{
+                  padding: '10px 30px',
+                  backgroundColor: isEditing ? '#6c757d' : '#17a2b8',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '8px',
+                  cursor: isEditing ? 'not-allowed' : 'pointer',
+                  fontSize: 'clamp(14px, 4vw, 16px)',
+                  fontWeight: 'bold',
+                  width: '100%',
+                  maxWidth: '300px',
+                  opacity: isEditing ? 0.6 : 1
+                }}
+              >
+                {isEditing ? 'Save or Cancel Edit First' : 'Next Word'}
+              </button>
+            </div>
+          )}
         </div>
       )}
 
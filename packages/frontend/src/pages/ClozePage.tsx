@@ -0,0 +1,256 @@
+import { useState, useEffect } from 'react';
+import { apiClient, clozeApi, ClozeCard, ClozeHintLanguage, ClozeResult } from '../api/client';
+import { useAuth } from '../context/AuthContext';
+
+const HINT_LANGUAGES: { value: ClozeHintLanguage; label: string }[] = [
+  { value: 'english', label: 'English hint' },
+  { value: 'vietnamese', label: 'Vietnamese hint' }
+];
+
+export default function ClozePage() {
+  const { user } = useAuth();
+  const [parentUsername, setParentUsername] = useState<string | null>(null);
+  const [availableChapters, setAvailableChapters] = useState<number[]>([]);
+  const [chapterStart, setChapterStart] = useState(1);
+  const [chapterEnd, setChapterEnd] = useState(1);
+  const [hintLanguage, setHintLanguage] = useState<ClozeHintLanguage>('english');
+  const [card, setCard] = useState<ClozeCard | null>(null);
+  const [answer, setAnswer] = useState('');
+  const [result, setResult] = useState<ClozeResult | null>(null);
+  const [score, setScore] = useState(0);
+  const [answered, setAnswered] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch parent username for child users
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchParentUsername = async () => {
+      if (user.role === 'child' && user.parentId) {
+        try {
+          const response = await apiClient.get(`/admin/users/${user.parentId}`, {
+            headers: { 'Authorization': `Bearer ${localStorage.getItem('auth_token')}` }
+          });
+          setParentUsername(response.data.username);
+        } catch (error) {
+          console.error('Failed to fetch parent username:', error);
+          setParentUsername(null);
+        }
+      } else {
+        setParentUsername(null);
+      }
+    };
+
+    fetchParentUsername();
+  }, [user]);
+
+  // Get the username to use for API calls
+  const usernameForAPI = parentUsername || user?.username;
+
+  useEffect(() => {
+    if (!user || (user.role === 'child' && parentUsername === null) || !usernameForAPI) return;
+
+    const fetchChapters = async () => {
+      try {
+        const response = await apiClient.get<number[]>(`/${usernameForAPI}/vocabulary/chapters`);
+        setAvailableChapters(response.data);
+        if (response.data.length > 0) {
+          const latestChapter = Math.max(...response.data);
+          setChapterStart(latestChapter);
+          setChapterEnd(latestChapter);
+        }
+      } catch (err) {
+        console.error('Error fetching chapters:', err);
+      }
+    };
+
+    fetchChapters();
+  }, [user, parentUsername]);
+
+  const fetchCard = async () => {
+    if (!usernameForAPI) return;
+    if (chapterStart > chapterEnd) {
+      setError('Start chapter must be less than or equal to end chapter');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setResult(null);
+    setAnswer('');
+    try {
+      const response = await clozeApi.next(usernameForAPI, hintLanguage, { ranges: `${chapterStart}-${chapterEnd}` });
+      setCard(response.data);
+    } catch (err: any) {
+      setCard(null);
+      setError(err.response?.data?.error || 'Failed to load a sentence');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStart = () => {
+    setScore(0);
+    setAnswered(0);
+    fetchCard();
+  };
+
+  const handleCheck = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!card || !usernameForAPI || !answer.trim() || result) return;
+
+    setChecking(true);
+    try {
+      const response = await clozeApi.check(usernameForAPI, card, answer.trim());
+      setResult(response.data);
+      setAnswered(answered + 1);
+      if (response.data.correct) setScore(score + 1);
+    } catch (err: any) {
+      alert(err.response?.data?.error || 'Failed to check answer');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const selectStyle = { padding: '8px', fontSize: '16px', borderRadius: '6px', border: '1px solid #dee2e6' };
+
+  let resultMessage = '';
+  if (result) {
+    if (result.check.result === 'exact') resultMessage = '✓ Correct!';
+    else if (result.check.result === 'tone-wrong') resultMessage = `✗ Check the tones: ${result.check.correctPinyin}`;
+    else resultMessage = `✗ It is ${result.check.correctChinese} (${result.check.correctPinyin})`;
+  }
+
+  return (
+    <div style={{ padding: '20px', display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+      <h1 style={{ marginBottom: '15px', fontSize: 'clamp(22px, 5vw, 28px)' }}>🧩 Fill the Gap</h1>
+
+      {/* Exercise settings */}
+      <div style={{ display: 'flex', gap: '10px', alignItems: 'center', flexWrap: 'wrap', justifyContent: 'center', marginBottom: '20px' }}>
+        <label style={{ fontWeight: 'bold' }}>Chapters:</label>
+        <select value={chapterStart} onChange={(e) => setChapterStart(parseInt(e.target.value, 10))} style={selectStyle}>
+          {availableChapters.map(ch => <option key={ch} value={ch}>{ch}</option>)}
+        </select>
+        <span>to</span>
+        <select value={chapterEnd} onChange={(e) => setChapterEnd(parseInt(e.target.value, 10))} style={selectStyle}>
+          {availableChapters.map(ch => <option key={ch} value={ch}>{ch}</option>)}
+        </select>
+        <select value={hintLanguage} onChange={(e) => setHintLanguage(e.target.value as ClozeHintLanguage)} style={selectStyle}>
+          {HINT_LANGUAGES.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+        </select>
+        <button
+          onClick={handleStart}
+          disabled={loading}
+          style={{
+            padding: '10px 20px',
+            backgroundColor: '#007bff',
+            color: 'white',
+            border: 'none',
+            borderRadius: '8px',
+            cursor: loading ? 'not-allowed' : 'pointer',
+            fontSize: '16px',
+            fontWeight: 'bold'
+          }}
+        >
+          {card ? 'Restart' : 'Start'}
+        </button>
+      </div>
+
+      {error && (
+        <div style={{
+          padding: '12px',
+          backgroundColor: '#f8d7da',
+          color: '#721c24',
+          border: '1px solid #f5c6cb',
+          borderRadius: '6px',
+          marginBottom: '20px'
+        }}>
+          {error}
+        </div>
+      )}
+
+      {/* Current sentence */}
+      {card && (
+        <div style={{ width: '100%', maxWidth: '600px', textAlign: 'center' }}>
+          <div style={{ fontSize: '14px', color: '#666', marginBottom: '10px' }}>
+            Score {score} of {answered}
+          </div>
+
+          <div style={{ fontSize: 'clamp(24px, 7vw, 36px)', marginBottom: '10px', lineHeight: 1.4 }}>
+            {result ? result.chineseText : card.clozeText}
+          </div>
+          {result && (
+            <div style={{ fontSize: '16px', color: '#666', marginBottom: '5px' }}>{result.pinyin}</div>
+          )}
+          {result && (result.englishMeaning || result.modernVietnamese) && (
+            <div style={{ fontSize: '15px', color: '#888', marginBottom: '10px' }}>
+              {hintLanguage === 'vietnamese'
+                ? result.modernVietnamese || result.englishMeaning
+                : result.englishMeaning || result.modernVietnamese}
+            </div>
+          )}
+
+          <div style={{ fontSize: '15px', color: '#666', marginBottom: '15px' }}>
+            Hint: {card.hint} ({card.blankLength} {card.blankLength === 1 ? 'character' : 'characters'})
+          </div>
+
+          <form onSubmit={handleCheck} style={{ display: 'flex', gap: '10px', justifyContent: 'center', flexWrap: 'wrap' }}>
+            <input
+              type="text"
+              value={answer}
+              onChange={(e) => setAnswer(e.target.value)}
+              disabled={!!result}
+              placeholder="Hanzi or pinyin"
+              autoFocus
+              style={{ padding: '10px', fontSize: '18px', borderRadius: '6px', border: '1px solid #dee2e6', width: '200px' }}
+            />
+            {!result && (
+              <button
+                type="submit"
+                disabled={checking || !answer.trim()}
+                style={{
+                  padding: '10px 30px',
+                  backgroundColor: !answer.trim() ? '#6c757d' : '#28a745',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '8px',
+                  cursor: checking || !answer.trim() ? 'not-allowed' : 'pointer',
+                  fontSize: '18px',
+                  fontWeight: 'bold'
+                }}
+              >
+                Check
+              </button>
+            )}
+          </form>
+
+          {result && (
+            <>
+              <div style={{ fontSize: '18px', fontWeight: 'bold', color: result.correct ? '#28a745' : '#dc3545', margin: '15px 0 10px' }}>
+                {resultMessage}
+              </div>
+              <button
+                onClick={fetchCard}
+                disabled={loading}
+                style={{
+                  padding: '12px 40px',
+                  backgroundColor: '#17a2b8',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '8px',
+                  cursor: loading ? 'not-allowed' : 'pointer',
+                  fontSize: '18px',
+                  fontWeight: 'bold'
+                }}
+              >
+                Next Sentence
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { apiClient } from '../api/client';
+import { useState, useEffect, useRef } from 'react';
+import { apiClient, deckApi, DeckFilter, DeckSummary, studyApi, vocabularyApi, ChapterSelectionParams, ExampleSentence, ReviewGrade, TodaySummary } from '../api/client';
 import { useAuth } from '../context/AuthContext';
 import { useChildEditProtection } from '../hooks/useChildEditProtection';
 
@@ -20,12 +20,25 @@ interface VocabularyEntry {
   updatedAt: string;
 }
 
+type Algorithm = 'random' | 'shuffled' | 'today';
+
+// Flashcard mode whose review schedule today's session follows (the page shows Chinese and reveals the meanings)
+const TODAY_MODE = 'ChineseToMeanings';
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string; color: string }[] = [
+  { grade: 'again', label: 'Again', color: '#dc3545' },
+  { grade: 'hard', label: 'Hard', color: '#fd7e14' },
+  { grade: 'good', label: 'Good', color: '#28a745' },
+  { grade: 'easy', label: 'Easy', color: '#17a2b8' }
+];
+
 export default function FlashcardPage() {
   const { user } = useAuth();
   const showEditProtection = useChildEditProtection();
   const [parentUsername, setParentUsername] = useState<string | null>(null);
   const [currentWord, setCurrentWord] = useState<VocabularyEntry | null>(null);
   const [showDetails, setShowDetails] = useState(false);
+  const [examples, setExamples] = useState<ExampleSentence[]>([]);
+  const currentWordIdRef = useRef<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [playing, setPlaying] = useState(false);
@@ -39,9 +52,11 @@ export default function FlashcardPage() {
   const [availableChapterLabels, setAvailableChapterLabels] = useState<string[]>([]);
   const [isEditing, setIsEditing] = useState(false);
   const [editedWord, setEditedWord] = useState<VocabularyEntry | null>(null);
-  const [algorithm, setAlgorithm] = useState<'random' | 'shuffled'>('random');
-  const [shuffledWords, setShuffledWords] = useState<VocabularyEntry[]>([]);
-  const [currentIndex, setCurrentIndex] = useState(0);
+  const [algorithm, setAlgorithm] = useState<Algorithm>('random');
+  const [deck, setDeck] = useState<DeckSummary | null>(null);
+  const [todayCardId, setTodayCardId] = useState<string | null>(null);
+  const [todaySummary, setTodaySummary] = useState<TodaySummary | null>(null);
+  const [sessionComplete, setSessionComplete] = useState(false);
 
   // Fetch parent username for child users
   useEffect(() => {
@@ -74,6 +89,10 @@ export default function FlashcardPage() {
     }
   }, [user, parentUsername]);
 
+  useEffect(() => {
+    currentWordIdRef.current = currentWord?.id ?? null;
+  }, [currentWord]);
+
   // Get the username to use for API calls
   const usernameForAPI = parentUsername || user?.username;
 
@@ -97,57 +116,60 @@ export default function FlashcardPage() {
     }
   };
 
-  const fetchRandomFavorite = async () => {
+  // Favorites in the chapter filter, as a chapter selection for today's session
+  const todaySelection = (): ChapterSelectionParams => {
+    const selection: ChapterSelectionParams = { favoritesOnly: true };
+    if (chapterLabel) {
+      selection.chapterLabel = chapterLabel;
+    } else if (chapterStart !== null && chapterEnd !== null) {
+      selection.ranges = `${chapterStart}-${chapterEnd}`;
+    }
+    return selection;
+  };
+
+  const fetchRandomFavorite = async (resetDeck = false, currentAlgorithm: Algorithm = algorithm) => {
     if (!usernameForAPI) return;
     setLoading(true);
     setError(null);
     setShowDetails(false);
+    setExamples([]);
     setNoFavorites(false);
+    setSessionComplete(false);
     
     try {
-      if (algorithm === 'shuffled') {
-        // Shuffled algorithm: fetch all words once and serve in order
-        if (shuffledWords.length === 0 || currentIndex >= shuffledWords.length) {
-          // Fetch all favorites
-          let url = `/${usernameForAPI}/vocabulary/favorites`;
-          const params = new URLSearchParams();
-          
+      if (currentAlgorithm === 'today') {
+        // Today's session: due reviews plus new words up to the daily limit, graded until the queue is empty
+        const selection = todaySelection();
+        try {
+          const card = await studyApi.nextCard(usernameForAPI, TODAY_MODE, selection);
+          const word = await vocabularyApi.getById(usernameForAPI, card.data.vocabularyId);
+          setTodayCardId(card.data.id);
+          setCurrentWord(word.data as VocabularyEntry);
+        } catch (err: any) {
+          if (err.response?.data?.error !== "Today's session is complete") throw err;
+          setTodayCardId(null);
+          setCurrentWord(null);
+          setSessionComplete(true);
+        }
+        const summary = await studyApi.today(usernameForAPI, TODAY_MODE, selection);
+        setTodaySummary(summary.data);
+      } else if (currentAlgorithm === 'shuffled') {
+        // Shuffled algorithm: the server keeps the shuffled order and cursor, so the deck resumes on any device
+        let deckId = resetDeck ? undefined : deck?.id;
+        if (!deckId) {
+          const filter: DeckFilter = { favoritesOnly: true };
           if (chapterLabel) {
-            params.append('chapterLabel', chapterLabel);
+            filter.chapterLabel = chapterLabel;
           } else if (chapterStart !== null && chapterEnd !== null) {
-            params.append('chapterStart', chapterStart.toString());
-            params.append('chapterEnd', chapterEnd.toString());
-          }
-          
-          if (params.toString()) {
-            url += `?${params.toString()}`;
+            filter.chapterStart = chapterStart;
+            filter.chapterEnd = chapterEnd;
           }
-          
-          const response = await apiClient.get<VocabularyEntry[]>(url);
-          
-          if (response.data.length === 0) {
-            setNoFavorites(true);
-            if (chapterLabel) {
-              setError(`No favorite words found with chapter label "${chapterLabel}". Try a different label or remove the filter.`);
-            } else if (chapterStart !== null && chapterEnd !== null) {
-              setError(`No favorite words found in chapters ${chapterStart}-${chapterEnd}. Try different chapters or remove the filter.`);
-            } else {
-              setError('No favorite words found. Please mark some words as favorites first.');
-            }
-            setLoading(false);
-            return;
-          }
-          
-          // Shuffle the array
-          const shuffled = [...response.data].sort(() => Math.random() - 0.5);
-          setShuffledWords(shuffled);
-          setCurrentIndex(0);
-          setCurrentWord(shuffled[0]);
-        } else {
-          // Serve next word from shuffled list
-          setCurrentWord(shuffledWords[currentIndex]);
-          setCurrentIndex(currentIndex + 1);
+          deckId = (await deckApi.resumeOrCreate(usernameForAPI, filter)).id;
         }
+
+        const response = await deckApi.next(usernameForAPI, deckId);
+        setDeck(response.data.deck);
+        setCurrentWord(response.data.entry as VocabularyEntry);
       } else {
         // Random algorithm: fetch random word each time
         let url = `/${usernameForAPI}/vocabulary/favorites/random`;
@@ -185,8 +207,18 @@ export default function FlashcardPage() {
     }
   };
 
-  const handleShowDetails = () => {
+  const handleShowDetails = async () => {
     setShowDetails(true);
+    if (!currentWord || !usernameForAPI) return;
+    const wordId = currentWord.id;
+    try {
+      const response = await vocabularyApi.getExamples(usernameForAPI, wordId, 3);
+      // Drop the examples if the card changed while they were loading
+      if (currentWordIdRef.current !== wordId) return;
+      setExamples(response.data.examples);
+    } catch (err) {
+      console.error('Error fetching example sentences:', err);
+    }
   };
 
   const handleEdit = () => {
@@ -230,16 +262,40 @@ export default function FlashcardPage() {
     fetchRandomFavorite();
   };
 
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!todayCardId || !usernameForAPI) return;
+
+    try {
+      await studyApi.grade(usernameForAPI, todayCardId, grade);
+      fetchRandomFavorite();
+    } catch (err: any) {
+      alert(err.response?.data?.error || 'Failed to grade word');
+    }
+  };
+
+  const handlePrevious = async () => {
+    if (!deck || !usernameForAPI) return;
+    setShowDetails(false);
+    setExamples([]);
+
+    try {
+      const response = await deckApi.previous(usernameForAPI, deck.id);
+      setDeck(response.data.deck);
+      setCurrentWord(response.data.entry as VocabularyEntry);
+    } catch (err: any) {
+      alert(err.response?.data?.error || 'Failed to load previous word');
+    }
+  };
+
   const handleApplyFilter = () => {
     if (chapterStart !== null && chapterEnd !== null && chapterStart > chapterEnd) {
       alert('Start chapter must be less than or equal to end chapter');
       return;
     }
     setShowChapterFilter(false);
-    // Reset shuffled list when filter changes
-    setShuffledWords([]);
-    setCurrentIndex(0);
-    fetchRandomFavorite();
+    // Start a different deck when the filter changes
+    setDeck(null);
+    fetchRandomFavorite(true);
   };
 
   const handleClearFilter = () => {
@@ -247,11 +303,10 @@ export default function FlashcardPage() {
     setChapterEnd(null);
     setChapterLabel(null);
     setShowChapterFilter(false);
-    // Reset shuffled list when filter changes
-    setShuffledWords([]);
-    setCurrentIndex(0);
+    // Start a different deck when the filter changes
+    setDeck(null);
     // Trigger fetch after state updates
-    setTimeout(() => fetchRandomFavorite(), 0);
+    setTimeout(() => fetchRandomFavorite(true), 0);
   };
 
   const handleUnfavorite = async () => {
@@ -373,12 +428,12 @@ export default function FlashcardPage() {
           <select
             value={algorithm}
             onChange={(e) => {
-              const newAlgorithm = e.target.value as 'random' | 'shuffled';
+              const newAlgorithm = e.target.value as Algorithm;
               setAlgorithm(newAlgorithm);
-              setShuffledWords([]);
-              setCurrentIndex(0);
-              if (newAlgorithm === 'shuffled') {
-                fetchRandomFavorite();
+              setDeck(null);
+              setTodaySummary(null);
+              if (newAlgorithm !== 'random') {
+                fetchRandomFavorite(true, newAlgorithm);
               }
             }}
             style={{
@@ -392,16 +447,38 @@ export default function FlashcardPage() {
           >
             <option value="random">🎲 Random</option>
             <option value="shuffled">🔀 Shuffled Order</option>
+            <option value="today">📅 Today's Session</option>
           </select>
           
-          {algorithm === 'shuffled' && shuffledWords.length > 0 && (
+          {algorithm === 'shuffled' && deck && (
+            <span style={{ fontSize: '13px', color: '#666' }}>
+              {deck.position}/{deck.total}{deck.round > 1 ? ` (round ${deck.round})` : ''}
+            </span>
+          )}
+
+          {algorithm === 'today' && todaySummary && (
             <span style={{ fontSize: '13px', color: '#666' }}>
-              {currentIndex}/{shuffledWords.length}
+              {todaySummary.remaining} left today ({todaySummary.dueReviews} due, {todaySummary.newRemaining} new)
             </span>
           )}
         </div>
       )}
 
+      {sessionComplete && !loading && !error && (
+        <div style={{
+          padding: '20px',
+          backgroundColor: '#d4edda',
+          color: '#155724',
+          border: '1px solid #c3e6cb',
+          borderRadius: '8px',
+          marginBottom: '20px',
+          textAlign: 'center',
+          maxWidth: '500px'
+        }}>
+          🎉 Today's session is complete! Come back tomorrow for your next reviews and new words.
+        </div>
+      )}
+
       {loading && (
         <div style={{ textAlign: 'center', padding: '20px', flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
           <div style={{ fontSize: '18px', color: '#666' }}>Loading...</div>
@@ -500,6 +577,21 @@ export default function FlashcardPage() {
                     </div>
                   )}
 
+                  {examples.length > 0 && (
+                    <div style={{ marginBottom: '15px' }}>
+                      <strong style={{ fontSize: '14px', color: '#666' }}>Examples:</strong>
+                      {examples.map(example => (
+                        <div key={example.id} style={{ marginTop: '5px', lineHeight: '1.4' }}>
+                          <div style={{ fontSize: '18px' }}>{example.chineseText}</div>
+                          <div style={{ fontSize: '14px', color: '#666' }}>{example.pinyin}</div>
+                          {(example.englishMeaning || example.modernVietnamese) && (
+                            <div style={{ fontSize: '14px', color: '#888' }}>{example.englishMeaning || example.modernVietnamese}</div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
                   <div style={{ marginBottom: '15px', paddingTop: '10px', borderTop: '1px solid #dee2e6' }}>
                     <strong style={{ fontSize: '14px', color: '#666' }}>Chapter:</strong>
                     <div style={{ fontSize: '16px', marginTop: '5px' }}>
@@ -850,28 +942,75 @@ export default function FlashcardPage() {
             )}
           </div>
 
-          {/* Next Button */}
-          <div style={{ display: 'flex', justifyContent: 'center', width: '100%', marginTop: '10px' }}>
-            <button
-              onClick={handleNext}
-              disabled={isEditing}
-              style={{
-                padding: '12px 40px',
-                backgroundColor: isEditing ? '#6c757d' : '#17a2b8',
-                color: 'white',
-                border: 'none',
-                borderRadius: '8px',
-                cursor: isEditing ? 'not-allowed' : 'pointer',
-                fontSize: 'clamp(15px, 4vw, 18px)',
-                fontWeight: 'bold',
-                width: '100%',
-                maxWidth: '300px',
-                opacity: isEditing ? 0.6 : 1
-              }}
-            >
-              {isEditing ? 'Save or Cancel Edit First' : 'Next Word'}
-            </button>
-          </div>
+          {/* Grade Buttons (today's session) */}
+          {algorithm === 'today' && showDetails && (
+            <div style={{ display: 'flex', justifyContent: 'center', gap: '8px', width: '100%', marginTop: '10px', flexWrap: 'wrap' }}>
+              {GRADE_BUTTONS.map(({ grade, label, color }) => (
+                <button
+                  key={grade}
+                  onClick={() => handleGrade(grade)}
+                  disabled={isEditing}
+                  style={{
+                    padding: '12px 18px',
+                    backgroundColor: color,
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '8px',
+                    cursor: isEditing ? 'not-allowed' : 'pointer',
+                    fontSize: 'clamp(14px, 4vw, 16px)',
+                    fontWeight: 'bold',
+                    opacity: isEditing ? 0.6 : 1
+                  }}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Previous/Next Buttons */}
+          {algorithm !== 'today' && (
+            <div style={{ display: 'flex', justifyContent: 'center', gap: '10px', width: '100%', marginTop: '10px' }}>
+              {algorithm === 'shuffled' && deck && deck.position > 1 && (
+                <button
+                  onClick={handlePrevious}
+                  disabled={isEditing}
+                  style={{
+                    padding: '12px 20px',
+                    backgroundColor: '#6c757d',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '8px',
+                    cursor: isEditing ? 'not-allowed' : 'pointer',
+                    fontSize: 'clamp(15px, 4vw, 18px)',
+                    fontWeight: 'bold',
+                    opacity: isEditing ? 0.6 : 1
+                  }}
+                >
+                  ← Previous
+                </button>
+              )}
+              <button
+                onClick={handleNext}
+                disabled={isEditing}
+                style={{
+                  padding: '12px 40px',
+                  backgroundColor: isEditing ? '#6c757d' : '#17a2b8',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '8px',
+                  cursor: isEditing ? 'not-allowed' : 'pointer',
+                  fontSize: 'clamp(15px, 4vw, 18px)',
+                  fontWeight: 'bold',
+                  width: '100%',
+                  maxWidth: '300px',
+                  opacity: isEditing ? 0.6 : 1
+                }}
+              >
+                {isEditing ? 'Save or Cancel Edit First' : 'Next Word'}
+              </button>
+            </div>
+          )}
         </div>
       )}
 
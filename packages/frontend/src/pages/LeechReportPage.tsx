@@ -0,0 +1,136 @@
+import { useState, useEffect } from 'react';
+import { leechApi, LeechReport } from '../api/client';
+import { useAuth } from '../context/AuthContext';
+
+// "EnglishToChineseTyped" -> "English To Chinese Typed"
+function formatMode(mode: string): string {
+  return mode.replace(/([a-z])([A-Z])/g, '$1 $2');
+}
+
+export default function LeechReportPage() {
+  const { user } = useAuth();
+  const [learner, setLearner] = useState('');
+  const [report, setReport] = useState<LeechReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start with the parent's own report; a child's username can be entered instead
+  useEffect(() => {
+    if (!user) return;
+    setLearner(user.username);
+    fetchReport(user.username);
+  }, [user]);
+
+  const fetchReport = async (username: string) => {
+    if (!username) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await leechApi.getReport(username);
+      setReport(response.data);
+    } catch (err: any) {
+      setReport(null);
+      setError(err.response?.data?.error || 'Failed to load leech report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    fetchReport(learner.trim());
+  };
+
+  return (
+    <div style={{ padding: '20px', display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+      <h1 style={{ marginBottom: '15px', fontSize: 'clamp(22px, 5vw, 28px)' }}>🩹 Leech Report</h1>
+
+      <form onSubmit={handleSubmit} style={{ display: 'flex', gap: '10px', alignItems: 'center', flexWrap: 'wrap', justifyContent: 'center', marginBottom: '20px' }}>
+        <label htmlFor="leech-learner" style={{ fontWeight: 'bold' }}>Learner:</label>
+        <input
+          id="leech-learner"
+          type="text"
+          value={learner}
+          onChange={(e) => setLearner(e.target.value)}
+          placeholder="Your or your child's username"
+          style={{ padding: '8px', fontSize: '16px', borderRadius: '6px', border: '1px solid #dee2e6' }}
+        />
+        <button
+          type="submit"
+          disabled={loading || !learner.trim()}
+          style={{
+            padding: '10px 20px',
+            backgroundColor: '#007bff',
+            color: 'white',
+            border: 'none',
+            borderRadius: '8px',
+            cursor: loading ? 'not-allowed' : 'pointer',
+            fontSize: '16px',
+            fontWeight: 'bold'
+          }}
+        >
+          {loading ? 'Loading...' : 'Show Report'}
+        </button>
+      </form>
+
+      {error && (
+        <div style={{
+          padding: '12px',
+          backgroundColor: '#f8d7da',
+          color: '#721c24',
+          border: '1px solid #f5c6cb',
+          borderRadius: '6px',
+          marginBottom: '20px'
+        }}>
+          {error}
+        </div>
+      )}
+
+      {report && (
+        <div style={{ width: '100%', maxWidth: '800px' }}>
+          <h2 style={{ fontSize: '18px', marginBottom: '10px' }}>
+            Words {report.username} keeps forgetting (worst first)
+          </h2>
+          {report.leeches.length === 0 ? (
+            <div style={{ color: '#666' }}>No leeches yet.</div>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+              <thead>
+                <tr style={{ backgroundColor: '#f8f9fa' }}>
+                  <th style={{ padding: '8px', textAlign: 'left' }}>Word</th>
+                  <th style={{ padding: '8px', textAlign: 'left' }}>Meaning</th>
+                  <th style={{ padding: '8px', textAlign: 'right' }}>Chapter</th>
+                  <th style={{ padding: '8px', textAlign: 'right' }}>Lapses</th>
+                  <th style={{ padding: '8px', textAlign: 'left' }}>Modes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.leeches.map(leech => (
+                  <tr key={leech.vocabularyId} style={{ borderTop: '1px solid #dee2e6' }}>
+                    <td style={{ padding: '8px' }}>
+                      <div style={{ fontSize: '20px' }}>{leech.isFavorite ? '⭐ ' : ''}{leech.chineseCharacter}</div>
+                      <div style={{ color: '#666' }}>{leech.pinyin}</div>
+                    </td>
+                    <td style={{ padding: '8px', color: '#666' }}>
+                      {leech.englishMeaning || leech.modernVietnamese || '—'}
+                    </td>
+                    <td style={{ padding: '8px', textAlign: 'right' }}>{leech.chapter}</td>
+                    <td style={{ padding: '8px', textAlign: 'right', fontWeight: 'bold' }}>{leech.lapses}</td>
+                    <td style={{ padding: '8px', color: '#666' }}>
+                      {leech.modes.map(formatMode).join(', ')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <div style={{ fontSize: '12px', color: '#666', marginTop: '8px' }}>
+            A word is listed once it was failed {report.threshold} times in a mode. Leeches are added to the favorites
+            so they come up in every practice batch; ⭐ shows the ones still marked.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -22,6 +22,19 @@ interface SentenceResponse {
   generationTimestamp: string;
 }
 
+interface CharacterDecomposition {
+  character: string;
+  radical: string | null;
+  strokeCount: number | null;
+  components: string[];
+}
+
+interface SharedComponentWord {
+  chineseCharacter: string;
+  pinyin: string;
+  sharedComponents: string[];
+}
+
 interface CharacterInfo {
   chineseCharacter: string;
   pinyin: string;
@@ -30,6 +43,8 @@ interface CharacterInfo {
   englishMeaning?: string;
   isFavorite?: boolean;
   chapter?: number;
+  characters?: CharacterDecomposition[];
+  sharedComponentWords?: SharedComponentWord[];
 }
 
 export default function PhrasesPage() {
@@ -1152,6 +1167,18 @@ export default function PhrasesPage() {
                         <tr key={index}>
                           <td style={{ padding: '8px 6px', border: '1px solid #dee2e6', fontSize: '18px' }}>
                             {char.chineseCharacter}
+                            {char.characters?.map(part => (
+                              <div key={part.character} style={{ fontSize: '12px', color: '#666' }}>
+                                {part.components.length > 0 ? `${part.character} = ${part.components.join(' + ')}` : part.character}
+                                {part.radical && ` · radical ${part.radical}`}
+                                {part.strokeCount !== null && ` · ${part.strokeCount} strokes`}
+                              </div>
+                            ))}
+                            {char.sharedComponentWords && char.sharedComponentWords.length > 0 && (
+                              <div style={{ fontSize: '12px', color: '#666' }}>
+                                Same parts: {char.sharedComponentWords.map(word => `${word.chineseCharacter} (${word.sharedComponents.join(', ')})`).join(', ')}
+                              </div>
+                            )}
                           </td>
                           <td style={{ padding: '8px 6px', border: '1px solid #dee2e6' }}>{char.pinyin || 'N/A'}</td>
                           <td style={{ padding: '8px 6px', border: '1px solid #dee2e6' }}>{char.hanVietnamese || 'N/A'}</td>
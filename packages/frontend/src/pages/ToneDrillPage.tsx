@@ -0,0 +1,390 @@
+import { useState, useEffect } from 'react';
+import { apiClient, toneDrillApi, ToneDrillItem, ToneDrillResult, TonePairStats } from '../api/client';
+import { useAuth } from '../context/AuthContext';
+
+// Tone buttons: 1-4 and 5 for the neutral tone
+const TONES: { tone: number; mark: string; label: string }[] = [
+  { tone: 1, mark: 'ā', label: '1st' },
+  { tone: 2, mark: 'á', label: '2nd' },
+  { tone: 3, mark: 'ǎ', label: '3rd' },
+  { tone: 4, mark: 'à', label: '4th' },
+  { tone: 5, mark: 'a', label: 'neutral' }
+];
+
+const DRILL_SIZES = [5, 10, 20];
+
+function formatTones(tones: string): string {
+  return tones.replace(/5/g, '0');
+}
+
+export default function ToneDrillPage() {
+  const { user } = useAuth();
+  const [parentUsername, setParentUsername] = useState<string | null>(null);
+  const [availableChapters, setAvailableChapters] = useState<number[]>([]);
+  const [chapterStart, setChapterStart] = useState(1);
+  const [chapterEnd, setChapterEnd] = useState(1);
+  const [drillSize, setDrillSize] = useState(10);
+  const [items, setItems] = useState<ToneDrillItem[]>([]);
+  const [index, setIndex] = useState(0);
+  const [tones, setTones] = useState<(number | null)[]>([]);
+  const [result, setResult] = useState<ToneDrillResult | null>(null);
+  const [score, setScore] = useState(0);
+  const [stats, setStats] = useState<TonePairStats[] | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const current = items[index] ?? null;
+  const finished = items.length > 0 && index >= items.length;
+
+  // Fetch parent username for child users
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchParentUsername = async () => {
+      if (user.role === 'child' && user.parentId) {
+        try {
+          const response = await apiClient.get(`/admin/users/${user.parentId}`, {
+            headers: { 'Authorization': `Bearer ${localStorage.getItem('auth_token')}` }
+          });
+          setParentUsername(response.data.username);
+        } catch (error) {
+          console.error('Failed to fetch parent username:', error);
+          setParentUsername(null);
+        }
+      } else {
+        setParentUsername(null);
+      }
+    };
+
+    fetchParentUsername();
+  }, [user]);
+
+  // Get the username to use for API calls
+  const usernameForAPI = parentUsername || user?.username;
+
+  useEffect(() => {
+    if (!user || (user.role === 'child' && parentUsername === null) || !usernameForAPI) return;
+
+    const fetchChapters = async () => {
+      try {
+        const response = await apiClient.get<number[]>(`/${usernameForAPI}/vocabulary/chapters`);
+        setAvailableChapters(response.data);
+        if (response.data.length > 0) {
+          const latestChapter = Math.max(...response.data);
+          setChapterStart(latestChapter);
+          setChapterEnd(latestChapter);
+        }
+      } catch (err) {
+        console.error('Error fetching chapters:', err);
+      }
+    };
+
+    fetchChapters();
+  }, [user, parentUsername]);
+
+  // Play each new word as soon as it is shown
+  useEffect(() => {
+    if (current) handlePlay();
+  }, [current]);
+
+  const handlePlay = () => {
+    if (!current) return;
+
+    if (!('speechSynthesis' in window)) {
+      alert('Text-to-speech is not supported in your browser');
+      return;
+    }
+
+    setPlaying(true);
+    window.speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(current.chineseCharacter);
+    utterance.lang = 'zh-CN';
+    utterance.rate = 0.7;
+    utterance.onend = () => setPlaying(false);
+    utterance.onerror = () => setPlaying(false);
+    window.speechSynthesis.speak(utterance);
+  };
+
+  const handleStart = async () => {
+    if (!usernameForAPI) return;
+    if (chapterStart > chapterEnd) {
+      setError('Start chapter must be less than or equal to end chapter');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setStats(null);
+    try {
+      const response = await toneDrillApi.getDrill(usernameForAPI, { ranges: `${chapterStart}-${chapterEnd}` }, drillSize);
+      setItems(response.data);
+      setIndex(0);
+      setScore(0);
+      setResult(null);
+      setTones(Array(response.data[0]?.syllableCount ?? 0).fill(null));
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to start tone drill');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleChooseTone = (syllable: number, tone: number) => {
+    if (result) return;
+    const next = [...tones];
+    next[syllable] = tone;
+    setTones(next);
+  };
+
+  const handleCheck = async () => {
+    if (!current || !usernameForAPI || tones.some(tone => tone === null)) return;
+
+    try {
+      const response = await toneDrillApi.check(usernameForAPI, current.vocabularyId, tones as number[]);
+      setResult(response.data);
+      if (response.data.correct) setScore(score + 1);
+    } catch (err: any) {
+      alert(err.response?.data?.error || 'Failed to check tones');
+    }
+  };
+
+  const handleNext = () => {
+    const nextIndex = index + 1;
+    setIndex(nextIndex);
+    setResult(null);
+    setTones(Array(items[nextIndex]?.syllableCount ?? 0).fill(null));
+    if (nextIndex >= items.length) fetchStats();
+  };
+
+  const fetchStats = async () => {
+    if (!user) return;
+    try {
+      const response = await toneDrillApi.getStats(user.username);
+      setStats(response.data);
+    } catch (err) {
+      console.error('Error fetching tone stats:', err);
+    }
+  };
+
+  const selectStyle = { padding: '8px', fontSize: '16px', borderRadius: '6px', border: '1px solid #dee2e6' };
+
+  return (
+    <div style={{ padding: '20px', display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+      <h1 style={{ marginBottom: '15px', fontSize: 'clamp(22px, 5vw, 28px)' }}>🎵 Tone Drill</h1>
+
+      {/* Drill settings */}
+      {(items.length === 0 || finished) && (
+        <div style={{ display: 'flex', gap: '10px', alignItems: 'center', flexWrap: 'wrap', justifyContent: 'center', marginBottom: '20px' }}>
+          <label style={{ fontWeight: 'bold' }}>Chapters:</label>
+          <select value={chapterStart} onChange={(e) => setChapterStart(parseInt(e.target.value, 10))} style={selectStyle}>
+            {availableChapters.map(ch => <option key={ch} value={ch}>{ch}</option>)}
+          </select>
+          <span>to</span>
+          <select value={chapterEnd} onChange={(e) => setChapterEnd(parseInt(e.target.value, 10))} style={selectStyle}>
+            {availableChapters.map(ch => <option key={ch} value={ch}>{ch}</option>)}
+          </select>
+          <select value={drillSize} onChange={(e) => setDrillSize(parseInt(e.target.value, 10))} style={selectStyle}>
+            {DRILL_SIZES.map(size => <option key={size} value={size}>{size} words</option>)}
+          </select>
+          <button
+            onClick={handleStart}
+            disabled={loading}
+            style={{
+              padding: '10px 20px',
+              backgroundColor: '#007bff',
+              color: 'white',
+              border: 'none',
+              borderRadius: '8px',
+              cursor: loading ? 'not-allowed' : 'pointer',
+              fontSize: '16px',
+              fontWeight: 'bold'
+            }}
+          >
+            {finished ? 'Drill Again' : 'Start Drill'}
+          </button>
+          <button
+            onClick={fetchStats}
+            style={{
+              padding: '10px 20px',
+              backgroundColor: '#6c757d',
+              color: 'white',
+              border: 'none',
+              borderRadius: '8px',
+              cursor: 'pointer',
+              fontSize: '16px'
+            }}
+          >
+            📊 My Tone Stats
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div style={{
+          padding: '12px',
+          backgroundColor: '#f8d7da',
+          color: '#721c24',
+          border: '1px solid #f5c6cb',
+          borderRadius: '6px',
+          marginBottom: '20px'
+        }}>
+          {error}
+        </div>
+      )}
+
+      {/* Current word */}
+      {current && (
+        <div style={{ width: '100%', maxWidth: '500px', textAlign: 'center' }}>
+          <div style={{ fontSize: '14px', color: '#666', marginBottom: '10px' }}>
+            Word {index + 1} of {items.length} • Score {score}
+          </div>
+
+          <div style={{ fontSize: 'clamp(48px, 15vw, 72px)', marginBottom: '5px' }}>{current.chineseCharacter}</div>
+          {current.englishMeaning && (
+            <div style={{ fontSize: '15px', color: '#666', marginBottom: '10px' }}>{current.englishMeaning}</div>
+          )}
+
+          <button
+            onClick={handlePlay}
+            disabled={playing}
+            style={{
+              padding: '8px 20px',
+              backgroundColor: '#17a2b8',
+              color: 'white',
+              border: 'none',
+              borderRadius: '8px',
+              cursor: playing ? 'not-allowed' : 'pointer',
+              fontSize: '16px',
+              marginBottom: '20px'
+            }}
+          >
+            {playing ? '🔊 Playing...' : '🔊 Listen Again'}
+          </button>
+
+          {/* One row of tone buttons per syllable */}
+          {tones.map((chosen, syllable) => {
+            const checked = result?.syllables[syllable];
+            return (
+              <div key={syllable} style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px', marginBottom: '10px', flexWrap: 'wrap' }}>
+                <span style={{ width: '70px', fontSize: '14px', color: '#666' }}>
+                  {checked ? checked.pinyin : `Syllable ${syllable + 1}`}
+                </span>
+                {TONES.map(({ tone, mark, label }) => {
+                  const isChosen = chosen === tone;
+                  let backgroundColor = isChosen ? '#007bff' : 'white';
+                  if (checked && tone === checked.expected) backgroundColor = '#28a745';
+                  else if (checked && isChosen) backgroundColor = '#dc3545';
+                  return (
+                    <button
+                      key={tone}
+                      onClick={() => handleChooseTone(syllable, tone)}
+                      title={`${label} tone`}
+                      style={{
+                        width: '52px',
+                        padding: '8px 0',
+                        fontSize: '18px',
+                        borderRadius: '6px',
+                        border: '1px solid #dee2e6',
+                        backgroundColor,
+                        color: backgroundColor === 'white' ? '#333' : 'white',
+                        cursor: result ? 'default' : 'pointer'
+                      }}
+                    >
+                      {mark}
+                    </button>
+                  );
+                })}
+              </div>
+            );
+          })}
+
+          {result && (
+            <div style={{ fontSize: '18px', fontWeight: 'bold', color: result.correct ? '#28a745' : '#dc3545', margin: '10px 0' }}>
+              {result.correct ? '✓ Correct!' : `✗ It is ${result.pinyin}`}
+            </div>
+          )}
+
+          {!result ? (
+            <button
+              onClick={handleCheck}
+              disabled={tones.some(tone => tone === null)}
+              style={{
+                padding: '12px 40px',
+                backgroundColor: tones.some(tone => tone === null) ? '#6c757d' : '#28a745',
+                color: 'white',
+                border: 'none',
+                borderRadius: '8px',
+                cursor: tones.some(tone => tone === null) ? 'not-allowed' : 'pointer',
+                fontSize: '18px',
+                fontWeight: 'bold',
+                marginTop: '10px'
+              }}
+            >
+              Check
+            </button>
+          ) : (
+            <button
+              onClick={handleNext}
+              style={{
+                padding: '12px 40px',
+                backgroundColor: '#17a2b8',
+                color: 'white',
+                border: 'none',
+                borderRadius: '8px',
+                cursor: 'pointer',
+                fontSize: '18px',
+                fontWeight: 'bold',
+                marginTop: '10px'
+              }}
+            >
+              {index + 1 < items.length ? 'Next Word' : 'Finish'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {finished && (
+        <div style={{ fontSize: '20px', fontWeight: 'bold', marginBottom: '20px' }}>
+          🎉 {score} of {items.length} words correct
+        </div>
+      )}
+
+      {/* Stats per tone pair */}
+      {stats && (
+        <div style={{ width: '100%', maxWidth: '500px' }}>
+          <h2 style={{ fontSize: '18px', marginBottom: '10px' }}>Tone pairs (weakest first)</h2>
+          {stats.length === 0 ? (
+            <div style={{ color: '#666' }}>No tone drill results yet.</div>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+              <thead>
+                <tr style={{ backgroundColor: '#f8f9fa' }}>
+                  <th style={{ padding: '8px', textAlign: 'left' }}>Tones</th>
+                  <th style={{ padding: '8px', textAlign: 'right' }}>Correct</th>
+                  <th style={{ padding: '8px', textAlign: 'left' }}>Often heard as</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.map(pair => (
+                  <tr key={pair.tonePair} style={{ borderTop: '1px solid #dee2e6' }}>
+                    <td style={{ padding: '8px' }}>{formatTones(pair.tonePair)}</td>
+                    <td style={{ padding: '8px', textAlign: 'right' }}>
+                      {Math.round(pair.accuracy * 100)}% ({pair.correct}/{pair.attempts})
+                    </td>
+                    <td style={{ padding: '8px', color: '#666' }}>
+                      {pair.confusions.slice(0, 2).map(c => `${formatTones(c.answered)} (${c.count}×)`).join(', ') || '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <div style={{ fontSize: '12px', color: '#666', marginTop: '8px' }}>
+            Tones are as written in pinyin (0 = neutral), so 3-3 words like 你好 count as 3-3 even though they are spoken 2-3.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,57 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useParams } from 'react-router-dom';
-import { vocabularyApi, VocabularyEntry } from '../api/client';
+import { vocabularyApi, VocabularyEntry, VocabularySearchParams, VocabularySortField, VocabularyRevision, RevisionField, TrashListing, DuplicateAction, DuplicateGroup, importApi, ImportField, ImportMapping, ImportPreview, exportApi, ExportFormat, tagApi, Tag } from '../api/client';
 import { useAuth } from '../context/AuthContext';
 import { useChildEditProtection } from '../hooks/useChildEditProtection';
 import { getInputProps } from '../hooks/useKeyboardLanguage';
 
+const DUPLICATE_ACTION_LABELS: { action: DuplicateAction; label: string }[] = [
+  { action: 'skip', label: 'Skip them' },
+  { action: 'update', label: 'Update the existing entry' },
+  { action: 'keepBoth', label: 'Keep both' },
+];
+
+const SORT_FIELD_LABELS: { field: VocabularySortField; label: string }[] = [
+  { field: 'chapter', label: 'Chapter, then pinyin' },
+  { field: 'pinyin', label: 'Pinyin' },
+  { field: 'chineseCharacter', label: 'Chinese' },
+  { field: 'createdAt', label: 'Date added' },
+  { field: 'updatedAt', label: 'Last edited' },
+];
+
+const REVISION_FIELD_LABELS: Record<RevisionField, string> = {
+  chineseCharacter: 'Chinese',
+  pinyin: 'Pinyin',
+  hanVietnamese: 'Hán-Việt',
+  modernVietnamese: 'Vietnamese',
+  englishMeaning: 'English',
+  learningNote: 'Note',
+  chapter: 'Chapter',
+  chapterLabel: 'Chapter Label',
+};
+
+const REVISION_ACTION_LABELS: Record<VocabularyRevision['action'], string> = {
+  update: 'Edited',
+  delete: 'Moved to the trash',
+  undelete: 'Restored from the trash',
+  restore: 'Restored',
+};
+
+// Entries fetched per page, and the pause after typing before searching
+const PAGE_SIZE = 100;
+const SEARCH_DELAY_MS = 300;
+
+const IMPORT_FIELD_LABELS: { field: ImportField; label: string }[] = [
+  { field: 'chineseCharacter', label: 'Chinese (required)' },
+  { field: 'pinyin', label: 'Pinyin' },
+  { field: 'hanVietnamese', label: 'Hán-Việt' },
+  { field: 'modernVietnamese', label: 'Vietnamese' },
+  { field: 'englishMeaning', label: 'English' },
+  { field: 'learningNote', label: 'Note' },
+  { field: 'chapter', label: 'Chapter' },
+  { field: 'chapterLabel', label: 'Chapter Label' },
+];
+
 interface VocabularyManagementProps {
   username?: string;
 }
@@ -17,20 +64,57 @@ export default function VocabularyManagement({ username: propUsername }: Vocabul
   // Use prop username if provided, otherwise try params, otherwise use current user's username
   const username = propUsername || paramUsername || user?.username;
   const [entries, setEntries] = useState<VocabularyEntry[]>([]);
+  const [totalEntries, setTotalEntries] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [searchText, setSearchText] = useState('');
+  const [sortField, setSortField] = useState<VocabularySortField>('chapter');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+  const searchRequestRef = useRef(0);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editForm, setEditForm] = useState<Partial<VocabularyEntry>>({});
+  const [editTags, setEditTags] = useState('');
   const [loading, setLoading] = useState(false);
   const [showBatchUpload, setShowBatchUpload] = useState(false);
   const [batchText, setBatchText] = useState('');
   const [batchChapter, setBatchChapter] = useState<string>('1');
   const [batchChapterLabel, setBatchChapterLabel] = useState<string>('');
   const [batchUploading, setBatchUploading] = useState(false);
-  const [batchResult, setBatchResult] = useState<{ success: number; failed: number; total: number } | null>(null);
+  const [batchOnDuplicate, setBatchOnDuplicate] = useState<DuplicateAction>('skip');
+  const [batchTags, setBatchTags] = useState('');
+  const [batchResult, setBatchResult] = useState<{ success: number; failed: number; total: number; skipped: number; updated: number } | null>(null);
+  const [showFileImport, setShowFileImport] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [importMapping, setImportMapping] = useState<ImportMapping>({});
+  const [importHasHeader, setImportHasHeader] = useState<boolean | undefined>(undefined);
+  const [importChapter, setImportChapter] = useState<string>('1');
+  const [importChapterLabel, setImportChapterLabel] = useState<string>('');
+  const [importAutoTranslate, setImportAutoTranslate] = useState(false);
+  const [importOnDuplicate, setImportOnDuplicate] = useState<DuplicateAction>('skip');
+  const [importTags, setImportTags] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [importResult, setImportResult] = useState<{ imported: number; updated: number; skipped: number; failed: number; total: number; errors: string[] } | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroup[]>([]);
+  const [merging, setMerging] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [trash, setTrash] = useState<TrashListing | null>(null);
+  const [historyEntry, setHistoryEntry] = useState<VocabularyEntry | null>(null);
+  const [revisions, setRevisions] = useState<VocabularyRevision[]>([]);
+  const [restoring, setRestoring] = useState(false);
+  const historyPanelRef = useRef<HTMLDivElement>(null);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [availableChapters, setAvailableChapters] = useState<number[]>([]);
   const [availableChapterLabels, setAvailableChapterLabels] = useState<string[]>([]);
   const [selectedChapter, setSelectedChapter] = useState<number | null>(null);
   const [selectedChapterLabel, setSelectedChapterLabel] = useState<string | null>(null);
+  const [availableTags, setAvailableTags] = useState<Tag[]>([]);
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [showTags, setShowTags] = useState(false);
+  const [newTagName, setNewTagName] = useState('');
   const [batchEditMode, setBatchEditMode] = useState(false);
   const [batchEditForms, setBatchEditForms] = useState<Map<string, Partial<VocabularyEntry>>>(new Map());
   const [showScrollTop, setShowScrollTop] = useState(false);
@@ -76,11 +160,19 @@ export default function VocabularyManagement({ username: propUsername }: Vocabul
   useEffect(() => {
     loadChapters();
     loadChapterLabels();
+    loadTags();
   }, [username]);
 
+  // Bring the history panel into view when opened from a row further down
+  useEffect(() => {
+    historyPanelRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [historyEntry?.id]);
+
+  // Search again shortly after the filters or sort change
   useEffect(() => {
-    loadEntries();
-  }, [username, selectedChapter, selectedChapterLabel]);
+    const timeout = setTimeout(() => loadEntries(), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [username, selectedChapter, selectedChapterLabel, showFavoritesOnly, selectedTag, columnFilters, searchText, sortField, sortOrder]);
 
   const loadChapters = async () => {
     if (!username) return;
@@ -108,26 +200,79 @@ export default function VocabularyManagement({ username: propUsername }: Vocabul
     }
   };
 
+  const loadTags = async () => {
+    if (!username) return;
+    try {
+      const response = await tagApi.list(username);
+      setAvailableTags(response.data.tags);
+    } catch (error) {
+      console.error('Failed to load tags:', error);
+    }
+  };
+
+  // Search parameters for the current filters and sort
+  const buildSearchParams = (): VocabularySearchParams => {
+    let favorite: boolean | undefined;
+    if (showFavoritesOnly || columnFilters.favorite === 'favorites') {
+      favorite = true;
+    } else if (columnFilters.favorite === 'non-favorites') {
+      favorite = false;
+    }
+
+    return {
+      q: searchText.trim() || undefined,
+      chineseCharacter: columnFilters.chinese || undefined,
+      pinyin: columnFilters.pinyin || undefined,
+      hanVietnamese: columnFilters.hanVietnamese || undefined,
+      modernVietnamese: columnFilters.modernVietnamese || undefined,
+      englishMeaning: columnFilters.english || undefined,
+      learningNote: columnFilters.note || undefined,
+      favorite,
+      // Chapter label takes precedence over the chapter number
+      chapterLabel: selectedChapterLabel || undefined,
+      chapters: !selectedChapterLabel && selectedChapter ? String(selectedChapter) : undefined,
+      tags: selectedTag || undefined,
+      sort: sortField,
+      order: sortOrder,
+      limit: PAGE_SIZE,
+    };
+  };
+
   const loadEntries = async () => {
     if (!username) return;
+    // Responses of searches overtaken by a newer one are dropped
+    const requestId = ++searchRequestRef.current;
     setLoading(true);
     try {
-      let response;
-      if (selectedChapterLabel) {
-        // Filter by chapter label (takes precedence)
-        response = await vocabularyApi.getByChapterLabel(username, selectedChapterLabel);
-      } else if (selectedChapter) {
-        // Filter by chapter number
-        response = await vocabularyApi.getAll(username, selectedChapter, selectedChapter);
-      } else {
-        // No filter
-        response = await vocabularyApi.getAll(username);
-      }
-      setEntries(response.data);
+      const response = await vocabularyApi.search(username, buildSearchParams());
+      if (requestId !== searchRequestRef.current) return;
+      setEntries(response.data.entries);
+      setTotalEntries(response.data.total);
+      setNextCursor(response.data.nextCursor);
     } catch (error) {
       console.error('Failed to load vocabulary:', error);
     } finally {
-      setLoading(false);
+      if (requestId === searchRequestRef.current) {
+        setLoading(false);
+        setHasLoaded(true);
+      }
+    }
+  };
+
+  const loadMoreEntries = async () => {
+    if (!username || !nextCursor) return;
+    const requestId = searchRequestRef.current;
+    setLoadingMore(true);
+    try {
+      const response = await vocabularyApi.search(username, { ...buildSearchParams(), cursor: nextCursor });
+      if (requestId !== searchRequestRef.current) return;
+      setEntries(prevEntries => [...prevEntries, ...response.data.entries]);
+      setTotalEntries(response.data.total);
+      setNextCursor(response.data.nextCursor);
+    } catch (error) {
+      console.error('Failed to load more vocabulary:', error);
+    } finally {
+      setLoadingMore(false);
     }
   };
 
@@ -135,18 +280,27 @@ export default function VocabularyManagement({ username: propUsername }: Vocabul
     if (showEditProtection('edit')) return;
     setEditingId(entry.id);
     setEditForm(entry);
+    setEditTags((entry.tags || []).join(', '));
   };
 
   const handleSave = async () => {
     if (!username || !editingId) return;
     try {
       await vocabularyApi.update(username, editingId, editForm);
+
+      // Tags are saved separately, and only when they changed
+      let tags = editForm.tags;
+      if (editTags !== (editForm.tags || []).join(', ')) {
+        const tagNames = editTags.split(',').map(name => name.trim()).filter(Boolean);
+        tags = (await vocabularyApi.setTags(username, editingId, tagNames)).data.tags;
+        loadTags();
+      }
       
       // Update the local state with the saved changes
       setEntries(prevEntries =>
         prevEntries.map(e =>
           e.id === editingId
-            ? { ...e, ...editForm }
+            ? { ...e, ...editForm, tags }
             : e
         )
       );
@@ -163,10 +317,11 @@ export default function VocabularyManagement({ username: propUsername }: Vocabul
 
   const handleDelete = async (id: string) => {
     if (showEditProtection('delete')) return;
-    if (!username || !confirm('Delete this entry?')) return;
+    if (!username || !confirm('Move this entry to the trash?')) return;
     try {
       await vocabularyApi.delete(username, id);
       loadEntries();
+      if (showTrash) loadTrash();
     } catch (error) {
       console.error('Failed to delete entry:', error);
     }
@@ -186,17 +341,21 @@ export default function VocabularyManagement({ username: propUsername }: Vocabul
     setBatchResult(null);
     try {
       console.log('Sending batch upload request:', { username, batchText, batchChapter: chapterNum, batchChapterLabel });
-      const response = await vocabularyApi.batchUpload(username, batchText, chapterNum, batchChapterLabel || undefined);
+      const tags = batchTags.split(',').map(name => name.trim()).filter(Boolean);
+      const response = await vocabularyApi.batchUpload(username, batchText, chapterNum, batchChapterLabel || undefined, batchOnDuplicate, tags.length > 0 ? tags : undefined);
       console.log('Batch upload response:', response.data);
       setBatchResult({
         success: response.data.success,
         failed: response.data.failed,
         total: response.data.total,
+        skipped: response.data.skipped,
+        updated: response.data.updated,
       });
       setBatchText('');
       setBatchChapterLabel(''); // Clear chapter label after upload
       loadChapters(); // Reload chapters in case new chapter was added
       loadChapterLabels(); // Reload chapter labels in case new label was added
+      loadTags();
       loadEntries();
     } catch (error: any) {
       console.error('Failed to batch upload:', error);
@@ -208,6 +367,306 @@ export default function VocabularyManagement({ username: propUsername }: Vocabul
     }
   };
 
+  const loadImportPreview = async (file: File, mapping?: ImportMapping, hasHeader?: boolean) => {
+    if (!username) return;
+
+    setImporting(true);
+    setImportResult(null);
+    try {
+      const response = await importApi.preview(username, file, {
+        mapping,
+        hasHeader,
+        chapter: parseInt(importChapter) || undefined,
+        chapterLabel: importChapterLabel || undefined,
+      });
+      setImportPreview(response.data);
+      setImportMapping(response.data.mapping);
+      setImportHasHeader(response.data.hasHeader);
+    } catch (error: any) {
+      console.error('Failed to preview import:', error);
+      const errorMsg = error.response?.data?.error || error.message || 'Unknown error';
+      alert(`Import preview failed: ${errorMsg}`);
+      setImportPreview(null);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleImportFileChange = (file: File | null) => {
+    setImportFile(file);
+    setImportPreview(null);
+    setImportMapping({});
+    setImportHasHeader(undefined);
+    if (file) loadImportPreview(file);
+  };
+
+  const handleImportMappingChange = (field: ImportField, column: string) => {
+    const mapping = { ...importMapping };
+    if (column === '') {
+      delete mapping[field];
+    } else {
+      mapping[field] = parseInt(column);
+    }
+    setImportMapping(mapping);
+    if (importFile) loadImportPreview(importFile, mapping, importHasHeader);
+  };
+
+  const handleFileImport = async () => {
+    if (!username || !importFile || importMapping.chineseCharacter === undefined) return;
+
+    setImporting(true);
+    setImportResult(null);
+    try {
+      const response = await importApi.importFile(username, importFile, {
+        mapping: importMapping,
+        hasHeader: importHasHeader,
+        chapter: parseInt(importChapter) || undefined,
+        chapterLabel: importChapterLabel || undefined,
+        autoTranslate: importAutoTranslate,
+        onDuplicate: importOnDuplicate,
+        tags: importTags.split(',').map(name => name.trim()).filter(Boolean),
+      });
+      setImportResult({
+        imported: response.data.imported,
+        updated: response.data.updated,
+        skipped: response.data.skipped,
+        failed: response.data.failed,
+        total: response.data.total,
+        errors: response.data.results
+          .filter(result => !result.success)
+          .map(result => `Row ${result.row}${result.chineseCharacter ? ` (${result.chineseCharacter})` : ''}: ${result.error}`),
+      });
+      setImportFile(null);
+      setImportPreview(null);
+      loadChapters();
+      loadChapterLabels();
+      loadTags();
+      loadEntries();
+    } catch (error: any) {
+      console.error('Failed to import file:', error);
+      const errorMsg = error.response?.data?.error || error.message || 'Unknown error';
+      alert(`Import failed: ${errorMsg}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const loadDuplicates = async () => {
+    if (!username) return;
+    try {
+      const response = await vocabularyApi.getDuplicates(username);
+      setDuplicateGroups(response.data);
+    } catch (error) {
+      console.error('Failed to load duplicates:', error);
+    }
+  };
+
+  const handleToggleDuplicates = () => {
+    if (!showDuplicates) loadDuplicates();
+    setShowDuplicates(!showDuplicates);
+  };
+
+  const loadTrash = async () => {
+    if (!username) return;
+    try {
+      const response = await vocabularyApi.getTrash(username);
+      setTrash(response.data);
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+    }
+  };
+
+  const handleToggleTrash = () => {
+    if (!showTrash) loadTrash();
+    setShowTrash(!showTrash);
+  };
+
+  const handleRestoreFromTrash = async (id: string) => {
+    if (showEditProtection('edit')) return;
+    if (!username) return;
+    try {
+      await vocabularyApi.restoreFromTrash(username, [id]);
+      loadTrash();
+      loadChapters();
+      loadChapterLabels();
+      loadEntries();
+    } catch (error: any) {
+      console.error('Failed to restore entry:', error);
+      const errorMsg = error.response?.data?.error || error.message || 'Unknown error';
+      alert(`Restore failed: ${errorMsg}`);
+    }
+  };
+
+  const handlePurge = async (id?: string) => {
+    if (showEditProtection('delete')) return;
+    if (!username) return;
+    if (!confirm(id ? 'Delete this entry for good? This cannot be undone.' : 'Empty the trash? This cannot be undone.')) return;
+    try {
+      await vocabularyApi.purgeTrash(username, id ? [id] : undefined);
+      loadTrash();
+    } catch (error: any) {
+      console.error('Failed to purge trash:', error);
+      const errorMsg = error.response?.data?.error || error.message || 'Unknown error';
+      alert(`Delete failed: ${errorMsg}`);
+    }
+  };
+
+  const handleMerge = async (group: DuplicateGroup) => {
+    if (showEditProtection('edit')) return;
+    if (!username) return;
+    if (!confirm(`Merge ${group.entries.length} entries of ${group.chineseCharacter} into the one in chapter ${group.entries[0].chapter}? Meanings and notes are combined and review progress is kept.`)) return;
+
+    setMerging(true);
+    try {
+      await vocabularyApi.merge(username, group.entries.map(entry => entry.id));
+      loadDuplicates();
+      loadEntries();
+    } catch (error: any) {
+      console.error('Failed to merge entries:', error);
+      const errorMsg = error.response?.data?.error || error.message || 'Unknown error';
+      alert(`Merge failed: ${errorMsg}`);
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const loadHistory = async (entry: VocabularyEntry) => {
+    if (!username) return;
+    try {
+      const response = await vocabularyApi.getHistory(username, entry.id);
+      setRevisions(response.data.revisions);
+    } catch (error) {
+      console.error('Failed to load history:', error);
+    }
+  };
+
+  const handleShowHistory = (entry: VocabularyEntry) => {
+    if (historyEntry?.id === entry.id) {
+      setHistoryEntry(null);
+      return;
+    }
+    setHistoryEntry(entry);
+    setRevisions([]);
+    loadHistory(entry);
+  };
+
+  const handleRestore = async (revision: VocabularyRevision) => {
+    if (showEditProtection('edit')) return;
+    if (!username || !historyEntry) return;
+    if (!confirm(`Put ${historyEntry.chineseCharacter} back the way it was before this change? Later changes are undone too.`)) return;
+
+    setRestoring(true);
+    try {
+      const response = await vocabularyApi.restoreRevision(username, historyEntry.id, revision.id);
+      setEntries(prevEntries => prevEntries.map(e => (e.id === historyEntry.id ? response.data : e)));
+      setHistoryEntry(response.data);
+      loadHistory(response.data);
+    } catch (error: any) {
+      console.error('Failed to restore entry:', error);
+      const errorMsg = error.response?.data?.error || error.message || 'Unknown error';
+      alert(`Restore failed: ${errorMsg}`);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!username) return;
+
+    setExporting(true);
+    try {
+      // Export what the chapter, label and favorites filters currently show
+      const response = await exportApi.download(username, format, {
+        chapters: !selectedChapterLabel && selectedChapter ? String(selectedChapter) : undefined,
+        chapterLabel: selectedChapterLabel || undefined,
+        tags: selectedTag || undefined,
+        favoritesOnly: showFavoritesOnly || undefined,
+      });
+      const disposition = response.headers['content-disposition'] || '';
+      const filename = decodeURIComponent(disposition.match(/filename\*=UTF-8''([^;]+)/)?.[1] || `vocabulary.${format}`);
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error('Failed to export vocabulary:', error);
+      const errorMsg = error.response?.status === 404 ? 'No vocabulary to export' : (error.message || 'Unknown error');
+      alert(`Export failed: ${errorMsg}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleCreateTag = async () => {
+    if (showEditProtection('edit')) return;
+    if (!username || !newTagName.trim()) return;
+    try {
+      await tagApi.create(username, newTagName.trim());
+      setNewTagName('');
+      loadTags();
+    } catch (error: any) {
+      console.error('Failed to create tag:', error);
+      const errorMsg = error.response?.data?.error || error.message || 'Unknown error';
+      alert(`Creating the tag failed: ${errorMsg}`);
+    }
+  };
+
+  const handleRenameTag = async (tag: Tag) => {
+    if (showEditProtection('edit')) return;
+    if (!username) return;
+    const name = prompt(`Rename the tag "${tag.name}" to:`, tag.name);
+    if (!name || name.trim() === tag.name) return;
+    try {
+      await tagApi.rename(username, tag.id, name.trim());
+      if (selectedTag === tag.name) setSelectedTag(name.trim());
+      loadTags();
+      loadEntries();
+    } catch (error: any) {
+      console.error('Failed to rename tag:', error);
+      const errorMsg = error.response?.data?.error || error.message || 'Unknown error';
+      alert(`Renaming the tag failed: ${errorMsg}`);
+    }
+  };
+
+  const handleDeleteTag = async (tag: Tag) => {
+    if (showEditProtection('delete')) return;
+    if (!username) return;
+    if (!confirm(`Delete the tag "${tag.name}"? It is removed from ${tag.entryCount} entries; the entries themselves stay.`)) return;
+    try {
+      await tagApi.delete(username, tag.id);
+      if (selectedTag === tag.name) setSelectedTag(null);
+      loadTags();
+      loadEntries();
+    } catch (error: any) {
+      console.error('Failed to delete tag:', error);
+      const errorMsg = error.response?.data?.error || error.message || 'Unknown error';
+      alert(`Deleting the tag failed: ${errorMsg}`);
+    }
+  };
+
+  // Add or remove tags on every selected entry
+  const handleAssignTags = async (mode: 'add' | 'remove') => {
+    if (showEditProtection('edit')) return;
+    if (!username || selectedIds.size === 0) return;
+    const input = prompt(mode === 'add'
+      ? `Tags to add to ${selectedIds.size} entries (comma separated):`
+      : `Tags to remove from ${selectedIds.size} entries (comma separated):`);
+    const names = (input || '').split(',').map(name => name.trim()).filter(Boolean);
+    if (names.length === 0) return;
+    try {
+      const ids = Array.from(selectedIds);
+      await (mode === 'add' ? vocabularyApi.assignTags(username, ids, names) : vocabularyApi.assignTags(username, ids, [], names));
+      loadTags();
+      loadEntries();
+    } catch (error: any) {
+      console.error('Failed to assign tags:', error);
+      const errorMsg = error.response?.data?.error || error.message || 'Unknown error';
+      alert(`Tagging failed: ${errorMsg}`);
+    }
+  };
+
   const toggleSelection = (id: string) => {
     const newSelected = new Set(selectedIds);
     if (newSelected.has(id)) {
@@ -228,7 +687,7 @@ export default function VocabularyManagement({ username: propUsername }: Vocabul
 
   const handleBatchDelete = async () => {
     if (!username || selectedIds.size === 0) return;
-    if (!confirm(`Delete ${selectedIds.size} selected entries?`)) return;
+    if (!confirm(`Move ${selectedIds.size} selected entries to the trash?`)) return;
     
     try {
       const deletePromises = Array.from(selectedIds).map(id => 
@@ -237,6 +696,7 @@ export default function VocabularyManagement({ username: propUsername }: Vocabul
       await Promise.all(deletePromises);
       setSelectedIds(new Set());
       loadEntries();
+      if (showTrash) loadTrash();
     } catch (error) {
       console.error('Failed to batch delete:', error);
       alert('Some entries failed to delete');
@@ -341,65 +801,13 @@ export default function VocabularyManagement({ username: propUsername }: Vocabul
     }
   };
 
-  if (loading) return <div>Loading...</div>;
+  // Only show the spinner page before the first results, so filter inputs keep focus while searching
+  if (loading && !hasLoaded) return <div>Loading...</div>;
 
-  // Filter entries based on batch edit mode and favorites filter
-  let displayedEntries = batchEditMode 
+  // Filtering and sorting happen on the server; batch edit shows just the selected entries
+  const displayedEntries = batchEditMode
     ? entries.filter(e => selectedIds.has(e.id))
     : entries;
-  
-  // Apply favorites filter (from button - kept for backward compatibility)
-  if (showFavoritesOnly) {
-    displayedEntries = displayedEntries.filter(e => e.isFavorite);
-  }
-
-  // Apply column filters
-  if (columnFilters.favorite === 'favorites') {
-    displayedEntries = displayedEntries.filter(e => e.isFavorite);
-  } else if (columnFilters.favorite === 'non-favorites') {
-    displayedEntries = displayedEntries.filter(e => !e.isFavorite);
-  }
-  
-  if (columnFilters.chinese) {
-    displayedEntries = displayedEntries.filter(e => 
-      e.chineseCharacter.toLowerCase().includes(columnFilters.chinese.toLowerCase())
-    );
-  }
-  if (columnFilters.pinyin) {
-    displayedEntries = displayedEntries.filter(e => 
-      e.pinyin.toLowerCase().includes(columnFilters.pinyin.toLowerCase())
-    );
-  }
-  if (columnFilters.hanVietnamese) {
-    displayedEntries = displayedEntries.filter(e => 
-      e.hanVietnamese?.toLowerCase().includes(columnFilters.hanVietnamese.toLowerCase())
-    );
-  }
-  if (columnFilters.modernVietnamese) {
-    displayedEntries = displayedEntries.filter(e => 
-      e.modernVietnamese?.toLowerCase().includes(columnFilters.modernVietnamese.toLowerCase())
-    );
-  }
-  if (columnFilters.english) {
-    displayedEntries = displayedEntries.filter(e => 
-      e.englishMeaning?.toLowerCase().includes(columnFilters.english.toLowerCase())
-    );
-  }
-  if (columnFilters.note) {
-    displayedEntries = displayedEntries.filter(e => 
-      e.learningNote?.toLowerCase().includes(columnFilters.note.toLowerCase())
-    );
-  }
-
-  // Sort entries by chapter first, then alphabetically by Pinyin within each chapter
-  displayedEntries = displayedEntries.sort((a, b) => {
-    // First sort by chapter
-    if (a.chapter !== b.chapter) {
-      return a.chapter - b.chapter;
-    }
-    // Then sort alphabetically by Pinyin within the same chapter
-    return a.pinyin.localeCompare(b.pinyin, 'zh-CN');
-  });
 
   return (
     <div className="vocabulary-management">
@@ -443,6 +851,19 @@ export default function VocabularyManagement({ username: propUsername }: Vocabul
             ))}
           </select>
         </label>
+        <label style={{ marginRight: '15px', opacity: selectedTag ? 1 : 0.7 }}>
+          Filter by Tag:
+          <select
+            value={selectedTag || ''}
+            onChange={(e) => setSelectedTag(e.target.value || null)}
+            style={{ marginLeft: '10px' }}
+          >
+            <option value="">No Tag Filter</option>
+            {availableTags.map(tag => (
+              <option key={tag.id} value={tag.name}>{tag.name} ({tag.entryCount})</option>
+            ))}
+          </select>
+        </label>
       </div>
 
       <div style={{ marginBottom: '20px' }}>
@@ -465,7 +886,9 @@ export default function VocabularyManagement({ username: propUsername }: Vocabul
             // Clear all filters
             setSelectedChapter(null);
             setSelectedChapterLabel(null);
+            setSelectedTag(null);
             setShowFavoritesOnly(false);
+            setSearchText('');
             setColumnFilters({
               favorite: 'all',
               chinese: '',
@@ -486,19 +909,66 @@ export default function VocabularyManagement({ username: propUsername }: Vocabul
             cursor: 'pointer',
             fontWeight: 'bold'
           }}
-          title="Clear all filters (chapter, favorites, and column filters)"
+          title="Clear all filters (search, chapter, tag, favorites, and column filters)"
         >
           🗑️ Clear All Filters
         </button>
         <span style={{ color: '#666', fontSize: '14px', marginLeft: '15px' }}>
-          ({displayedEntries.length} {showFavoritesOnly ? 'favorites' : 'entries'})
+          ({entries.length} of {totalEntries} {showFavoritesOnly ? 'favorites' : 'entries'}{loading ? ', searching…' : ''})
         </span>
       </div>
+
+      <div style={{ marginBottom: '20px' }}>
+        <input
+          type="search"
+          value={searchText}
+          onChange={(e) => setSearchText(e.target.value)}
+          placeholder="Search Chinese, pinyin, Vietnamese, English or notes"
+          style={{ width: '360px', padding: '5px' }}
+        />
+        <label style={{ marginLeft: '15px' }}>
+          Sort by:
+          <select
+            value={sortField}
+            onChange={(e) => setSortField(e.target.value as VocabularySortField)}
+            style={{ marginLeft: '10px' }}
+          >
+            {SORT_FIELD_LABELS.map(({ field, label }) => (
+              <option key={field} value={field}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={() => setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')}
+          style={{ marginLeft: '10px' }}
+          title="Change the sort direction"
+        >
+          {sortOrder === 'asc' ? '↑ Ascending' : '↓ Descending'}
+        </button>
+      </div>
       
       <div style={{ marginBottom: '20px' }}>
         <button onClick={() => setShowBatchUpload(!showBatchUpload)}>
           {showBatchUpload ? 'Hide Batch Upload' : 'Batch Upload'}
         </button>
+        <button onClick={() => setShowFileImport(!showFileImport)} style={{ marginLeft: '10px' }}>
+          {showFileImport ? 'Hide File Import' : 'Import File'}
+        </button>
+        <button onClick={handleToggleDuplicates} style={{ marginLeft: '10px' }}>
+          {showDuplicates ? 'Hide Duplicates' : 'Find Duplicates'}
+        </button>
+        <button onClick={handleToggleTrash} style={{ marginLeft: '10px' }}>
+          {showTrash ? 'Hide Trash' : '🗑️ Trash'}
+        </button>
+        <button onClick={() => setShowTags(!showTags)} style={{ marginLeft: '10px' }}>
+          {showTags ? 'Hide Tags' : '🏷️ Tags'}
+        </button>
+        <span style={{ marginLeft: '15px' }} title="Exports the words of the current chapter, label, tag and favorites filters">
+          Export:
+          <button onClick={() => handleExport('csv')} disabled={exporting} style={{ marginLeft: '5px' }}>CSV</button>
+          <button onClick={() => handleExport('apkg')} disabled={exporting} style={{ marginLeft: '5px' }}>Anki</button>
+          <button onClick={() => handleExport('pdf')} disabled={exporting} style={{ marginLeft: '5px' }}>🖨️ PDF</button>
+        </span>
         {selectedIds.size > 0 && !batchEditMode && (
           <>
             <button 
@@ -507,6 +977,12 @@ export default function VocabularyManagement({ username: propUsername }: Vocabul
             >
               Batch Edit ({selectedIds.size})
             </button>
+            <button onClick={() => handleAssignTags('add')} style={{ marginLeft: '10px' }}>
+              Add Tags ({selectedIds.size})
+            </button>
+            <button onClick={() => handleAssignTags('remove')} style={{ marginLeft: '10px' }}>
+              Remove Tags ({selectedIds.size})
+            </button>
             <button 
               onClick={handleBatchDelete}
               style={{ marginLeft: '10px', backgroundColor: '#dc3545', color: 'white' }}
@@ -570,6 +1046,31 @@ export default function VocabularyManagement({ username: propUsername }: Vocabul
                 {...getInputProps('en')}
               />
             </label>
+            <label style={{ flex: '0 1 auto' }}>
+              Words that already exist:
+              <select
+                value={batchOnDuplicate}
+                onChange={(e) => setBatchOnDuplicate(e.target.value as DuplicateAction)}
+                style={{ marginLeft: '10px' }}
+                disabled={batchUploading}
+              >
+                {DUPLICATE_ACTION_LABELS.map(({ action, label }) => (
+                  <option key={action} value={action}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label style={{ flex: '0 1 auto' }}>
+              Tags (optional):
+              <input
+                type="text"
+                value={batchTags}
+                onChange={(e) => setBatchTags(e.target.value)}
+                style={{ marginLeft: '10px', width: 'clamp(150px, 100%, 250px)', boxSizing: 'border-box' }}
+                disabled={batchUploading}
+                placeholder="e.g., food, exam week 3"
+                {...getInputProps('en')}
+              />
+            </label>
           </div>
           <button 
             onClick={handleBatchUpload} 
@@ -580,11 +1081,307 @@ export default function VocabularyManagement({ username: propUsername }: Vocabul
           {batchResult && (
             <div style={{ marginTop: '10px', padding: '10px', backgroundColor: '#f0f0f0', borderRadius: '3px' }}>
               <strong>Upload Complete:</strong> {batchResult.success} succeeded, {batchResult.failed} failed out of {batchResult.total} total
+              {(batchResult.skipped > 0 || batchResult.updated > 0) && ` (${batchResult.skipped} already existed and were skipped, ${batchResult.updated} updated)`}
+            </div>
+          )}
+        </div>
+      )}
+
+      {showFileImport && (
+        <div style={{ marginBottom: '20px', padding: '15px', border: '1px solid #ccc', borderRadius: '5px' }}>
+          <h3>Import Vocabulary File</h3>
+          <p>CSV, TSV, Anki text export (.txt) or Anki package (.apkg). Meanings in the file are kept as they are.</p>
+          <input
+            type="file"
+            accept=".csv,.tsv,.txt,.apkg"
+            onChange={(e) => handleImportFileChange(e.target.files?.[0] || null)}
+            disabled={importing}
+            style={{ marginBottom: '10px' }}
+          />
+          <div style={{ marginBottom: '10px', display: 'flex', flexWrap: 'wrap', gap: '15px' }}>
+            <label style={{ flex: '0 1 auto' }}>
+              Default Chapter:
+              <input
+                type="number"
+                value={importChapter}
+                onChange={(e) => setImportChapter(e.target.value)}
+                style={{ marginLeft: '10px', width: 'clamp(60px, 100%, 100px)', boxSizing: 'border-box' }}
+                disabled={importing}
+              />
+            </label>
+            <label style={{ flex: '0 1 auto' }}>
+              Default Chapter Label (optional):
+              <input
+                type="text"
+                value={importChapterLabel}
+                onChange={(e) => setImportChapterLabel(e.target.value)}
+                style={{ marginLeft: '10px', width: 'clamp(150px, 100%, 250px)', boxSizing: 'border-box' }}
+                disabled={importing}
+                {...getInputProps('en')}
+              />
+            </label>
+            <label style={{ flex: '0 1 auto' }}>
+              <input
+                type="checkbox"
+                checked={importAutoTranslate}
+                onChange={(e) => setImportAutoTranslate(e.target.checked)}
+                disabled={importing}
+              />
+              Translate missing meanings
+            </label>
+            <label style={{ flex: '0 1 auto' }}>
+              Words that already exist:
+              <select
+                value={importOnDuplicate}
+                onChange={(e) => setImportOnDuplicate(e.target.value as DuplicateAction)}
+                style={{ marginLeft: '10px' }}
+                disabled={importing}
+              >
+                {DUPLICATE_ACTION_LABELS.map(({ action, label }) => (
+                  <option key={action} value={action}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label style={{ flex: '0 1 auto' }}>
+              Tags (optional):
+              <input
+                type="text"
+                value={importTags}
+                onChange={(e) => setImportTags(e.target.value)}
+                style={{ marginLeft: '10px', width: 'clamp(150px, 100%, 250px)', boxSizing: 'border-box' }}
+                disabled={importing}
+                placeholder="e.g., food, exam week 3"
+                {...getInputProps('en')}
+              />
+            </label>
+          </div>
+
+          {importPreview && importFile && (
+            <>
+              <div style={{ marginBottom: '10px' }}>
+                <strong>{importPreview.rowCount}</strong> rows ({importPreview.format})
+                {(importPreview.format === 'csv' || importPreview.format === 'tsv') && (
+                  <label style={{ marginLeft: '15px' }}>
+                    <input
+                      type="checkbox"
+                      checked={importHasHeader ?? false}
+                      onChange={(e) => {
+                        setImportHasHeader(e.target.checked);
+                        loadImportPreview(importFile, undefined, e.target.checked);
+                      }}
+                      disabled={importing}
+                    />
+                    First row is a header
+                  </label>
+                )}
+              </div>
+              <div style={{ marginBottom: '10px', display: 'flex', flexWrap: 'wrap', gap: '10px' }}>
+                {IMPORT_FIELD_LABELS.map(({ field, label }) => (
+                  <label key={field} style={{ flex: '0 1 auto' }}>
+                    {label}:
+                    <select
+                      value={importMapping[field] ?? ''}
+                      onChange={(e) => handleImportMappingChange(field, e.target.value)}
+                      style={{ marginLeft: '5px' }}
+                      disabled={importing}
+                    >
+                      <option value="">—</option>
+                      {importPreview.headers.map((header, i) => (
+                        <option key={i} value={i}>{header}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px', marginBottom: '10px' }}>
+                <thead>
+                  <tr>
+                    <th style={{ border: '1px solid #ddd', padding: '4px' }}>Row</th>
+                    {IMPORT_FIELD_LABELS.map(({ field, label }) => (
+                      <th key={field} style={{ border: '1px solid #ddd', padding: '4px' }}>{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {importPreview.entries.map(({ row, entry }) => (
+                    <tr key={row}>
+                      <td style={{ border: '1px solid #ddd', padding: '4px' }}>{row}</td>
+                      {IMPORT_FIELD_LABELS.map(({ field }) => (
+                        <td key={field} style={{ border: '1px solid #ddd', padding: '4px', whiteSpace: 'pre-wrap' }}>
+                          {entry[field] ?? ''}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {importPreview.errors.length > 0 && (
+                <div style={{ marginBottom: '10px', color: '#dc3545', fontSize: '13px' }}>
+                  {importPreview.errors.length} rows will be skipped:{' '}
+                  {importPreview.errors.slice(0, 5).map(error => `row ${error.row} (${error.error})`).join(', ')}
+                  {importPreview.errors.length > 5 && ', …'}
+                </div>
+              )}
+              <button
+                onClick={handleFileImport}
+                disabled={importing || importMapping.chineseCharacter === undefined}
+              >
+                {importing ? 'Importing...' : `Import ${importPreview.rowCount - importPreview.errors.length} rows`}
+              </button>
+            </>
+          )}
+          {importResult && (
+            <div style={{ marginTop: '10px', padding: '10px', backgroundColor: '#f0f0f0', borderRadius: '3px' }}>
+              <strong>Import Complete:</strong> {importResult.imported} imported, {importResult.updated} updated, {importResult.skipped} skipped, {importResult.failed} failed out of {importResult.total} total
+              {importResult.errors.length > 0 && (
+                <ul style={{ margin: '5px 0 0', fontSize: '12px' }}>
+                  {importResult.errors.slice(0, 20).map(error => <li key={error}>{error}</li>)}
+                </ul>
+              )}
             </div>
           )}
         </div>
       )}
 
+      {showDuplicates && (
+        <div style={{ marginBottom: '20px', padding: '15px', border: '1px solid #ccc', borderRadius: '5px' }}>
+          <h3>Duplicate Words</h3>
+          {duplicateGroups.length === 0 ? (
+            <p>No word appears more than once.</p>
+          ) : (
+            <>
+              <p>Merging keeps the entry with the earliest chapter, combines the meanings and notes, and moves the review progress onto it.</p>
+              {duplicateGroups.map(group => (
+                <div key={group.chineseCharacter} style={{ marginBottom: '10px', paddingBottom: '10px', borderBottom: '1px solid #eee' }}>
+                  <strong style={{ fontSize: '18px' }}>{group.chineseCharacter}</strong>
+                  <button
+                    onClick={() => handleMerge(group)}
+                    disabled={merging}
+                    style={{ marginLeft: '10px' }}
+                  >
+                    Merge {group.entries.length} entries
+                  </button>
+                  <ul style={{ margin: '5px 0 0', fontSize: '13px' }}>
+                    {group.entries.map(entry => (
+                      <li key={entry.id}>
+                        Chapter {entry.chapter}{entry.chapterLabel ? ` (${entry.chapterLabel})` : ''}: {entry.pinyin}
+                        {entry.englishMeaning ? ` - ${entry.englishMeaning}` : ''}
+                        {entry.modernVietnamese ? ` / ${entry.modernVietnamese}` : ''}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+
+      {showTags && (
+        <div style={{ marginBottom: '20px', padding: '15px', border: '1px solid #ccc', borderRadius: '5px' }}>
+          <h3>Tags</h3>
+          <p style={{ fontSize: '13px', color: '#666' }}>Tag words for themed review sets. Click a tag to show its words.</p>
+          <div style={{ marginBottom: '10px' }}>
+            <input
+              type="text"
+              value={newTagName}
+              onChange={(e) => setNewTagName(e.target.value)}
+              placeholder="New tag"
+              maxLength={50}
+              {...getInputProps('en')}
+            />
+            <button onClick={handleCreateTag} disabled={!newTagName.trim()} style={{ marginLeft: '5px', fontSize: '12px' }}>Add Tag</button>
+          </div>
+          {availableTags.length === 0 ? (
+            <p>No tags yet.</p>
+          ) : (
+            <ul style={{ margin: 0, paddingLeft: '20px', fontSize: '13px' }}>
+              {availableTags.map(tag => (
+                <li key={tag.id} style={{ marginBottom: '6px' }}>
+                  <button
+                    onClick={() => setSelectedTag(selectedTag === tag.name ? null : tag.name)}
+                    style={{ fontSize: '12px', fontWeight: selectedTag === tag.name ? 'bold' : 'normal' }}
+                    title="Show the words with this tag"
+                  >
+                    {tag.name}
+                  </button>
+                  <span style={{ color: '#666' }}> {tag.entryCount} {tag.entryCount === 1 ? 'entry' : 'entries'}</span>
+                  <button onClick={() => handleRenameTag(tag)} style={{ marginLeft: '10px', fontSize: '12px' }}>Rename</button>
+                  <button onClick={() => handleDeleteTag(tag)} style={{ marginLeft: '5px', fontSize: '12px' }}>Delete</button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {showTrash && trash && (
+        <div style={{ marginBottom: '20px', padding: '15px', border: '1px solid #ccc', borderRadius: '5px' }}>
+          <h3>
+            Trash
+            {trash.entries.length > 0 && (
+              <button onClick={() => handlePurge()} style={{ marginLeft: '10px', fontSize: '12px', backgroundColor: '#dc3545', color: 'white' }}>
+                Empty Trash
+              </button>
+            )}
+          </h3>
+          <p style={{ fontSize: '13px', color: '#666' }}>Deleted words are kept for {trash.retentionDays} days and then removed for good.</p>
+          {trash.entries.length === 0 ? (
+            <p>The trash is empty.</p>
+          ) : (
+            <ul style={{ margin: 0, paddingLeft: '20px', fontSize: '13px' }}>
+              {trash.entries.map(entry => (
+                <li key={entry.id} style={{ marginBottom: '6px' }}>
+                  <strong style={{ fontSize: '16px' }}>{entry.chineseCharacter}</strong> {entry.pinyin}
+                  {entry.englishMeaning ? ` - ${entry.englishMeaning}` : ''} (chapter {entry.chapter})
+                  <span style={{ color: '#666' }}>
+                    {' '}deleted {new Date(entry.deletedAt).toLocaleDateString()}, removed after {new Date(entry.purgeAt).toLocaleDateString()}
+                  </span>
+                  <button onClick={() => handleRestoreFromTrash(entry.id)} style={{ marginLeft: '10px', fontSize: '12px' }}>Restore</button>
+                  <button onClick={() => handlePurge(entry.id)} style={{ marginLeft: '5px', fontSize: '12px' }}>Delete for good</button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {historyEntry && (
+        <div ref={historyPanelRef} style={{ marginBottom: '20px', padding: '15px', border: '1px solid #ccc', borderRadius: '5px' }}>
+          <h3>
+            History of {historyEntry.chineseCharacter}
+            <button onClick={() => setHistoryEntry(null)} style={{ marginLeft: '10px', fontSize: '12px' }}>Close</button>
+          </h3>
+          {revisions.length === 0 ? (
+            <p>This entry has not been changed since it was added.</p>
+          ) : (
+            revisions.map(revision => (
+              <div key={revision.id} style={{ marginBottom: '10px', paddingBottom: '10px', borderBottom: '1px solid #eee', fontSize: '13px' }}>
+                <strong>{REVISION_ACTION_LABELS[revision.action]}</strong>
+                {' '}{new Date(revision.createdAt).toLocaleString()}
+                {revision.changedByUsername ? ` by ${revision.changedByUsername}` : ''}
+                <button
+                  onClick={() => handleRestore(revision)}
+                  disabled={restoring || revision.action === 'delete' || revision.action === 'undelete'}
+                  style={{ marginLeft: '10px', fontSize: '12px' }}
+                  title="Undo this change and every later one"
+                >
+                  Restore version before this
+                </button>
+                <ul style={{ margin: '5px 0 0' }}>
+                  {(Object.keys(revision.changes) as RevisionField[]).map(field => (
+                    <li key={field} style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                      {REVISION_FIELD_LABELS[field]}: <del style={{ color: '#dc3545' }}>{revision.changes[field]?.from ?? '-'}</del>
+                      {' → '}<span style={{ color: '#28a745' }}>{revision.changes[field]?.to ?? '-'}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
       <div style={{ marginBottom: '20px' }}>
       <table style={{
         width: '100%',
@@ -1016,10 +1813,16 @@ export default function VocabularyManagement({ username: propUsername }: Vocabul
                   <td>{entry.modernVietnamese || '-'}</td>
                   <td>{entry.englishMeaning || '-'}</td>
                   <td style={{ display: isSmallScreen ? 'none' : 'table-cell' }}>{entry.chapter}</td>
-                  <td style={{ display: isSmallScreen ? 'none' : 'table-cell' }}>{entry.chapterLabel || '-'}</td>
+                  <td style={{ display: isSmallScreen ? 'none' : 'table-cell' }}>
+                    {entry.chapterLabel || '-'}
+                    {entry.tags && entry.tags.length > 0 && (
+                      <div style={{ fontSize: '11px', color: '#0056b3' }}>🏷️ {entry.tags.join(', ')}</div>
+                    )}
+                  </td>
                   <td style={{ display: isSmallScreen ? 'none' : 'table-cell', fontSize: '11px', color: '#666', maxHeight: '80px', overflow: 'auto', whiteSpace: 'pre-wrap', wordBreak: 'break-word', padding: '8px 4px' }}>{entry.learningNote || '-'}</td>
                   <td>
                     <button onClick={() => handleEdit(entry)} style={{ marginRight: '3px', padding: '2px 6px', fontSize: '11px' }}>Edit</button>
+                    <button onClick={() => handleShowHistory(entry)} style={{ marginRight: '3px', padding: '2px 6px', fontSize: '11px' }} title="Edit history">Hist</button>
                     <button onClick={() => handleDelete(entry.id)} style={{ backgroundColor: '#dc3545', color: 'white', padding: '2px 6px', fontSize: '11px' }}>Del</button>
                   </td>
                 </>
@@ -1034,6 +1837,9 @@ export default function VocabularyManagement({ username: propUsername }: Vocabul
                     </div>
                     <div>
                       <strong>Label:</strong> {entry.chapterLabel || '-'}
+                      {entry.tags && entry.tags.length > 0 && (
+                        <div style={{ color: '#0056b3', marginTop: '4px' }}>🏷️ {entry.tags.join(', ')}</div>
+                      )}
                     </div>
                     <div>
                       <strong>Note:</strong> <span style={{ color: '#666', whiteSpace: 'pre-wrap', wordBreak: 'break-word', display: 'block', marginTop: '4px' }}>{entry.learningNote || '-'}</span>
@@ -1073,6 +1879,21 @@ export default function VocabularyManagement({ username: propUsername }: Vocabul
                       {...getInputProps('vi')}
                     />
                   </div>
+                  {!batchEditMode && (
+                    <div>
+                      <label style={{ display: 'block', marginBottom: '4px', fontWeight: 'bold', fontSize: '12px' }}>
+                        Tags:
+                      </label>
+                      <input
+                        type="text"
+                        value={editTags}
+                        onChange={(e) => setEditTags(e.target.value)}
+                        style={{ width: '100%', padding: '6px', fontSize: '12px', boxSizing: 'border-box' }}
+                        placeholder="Comma separated, e.g., food, HSK2"
+                        {...getInputProps('en')}
+                      />
+                    </div>
+                  )}
                 </td>
               </tr>
             )}
@@ -1082,6 +1903,14 @@ export default function VocabularyManagement({ username: propUsername }: Vocabul
       </table>
       </div>
 
+      {nextCursor && !batchEditMode && (
+        <div style={{ textAlign: 'center', margin: '15px 0' }}>
+          <button onClick={loadMoreEntries} disabled={loadingMore}>
+            {loadingMore ? 'Loading...' : `Load more (${totalEntries - entries.length} remaining)`}
+          </button>
+        </div>
+      )}
+
       {/* Mobile Edit Modal - shows a fixed overlay on small screens */}
       {editingId && isSmallScreen && (
         <>
@@ -51,8 +51,11 @@ export default function VocabularySharing() {
     
     setLoading(true);
     try {
-      await vocabularyApi.share(username, selectedSource, selectedChapter);
-      alert('Vocabulary imported successfully!');
+      const response = await vocabularyApi.share(username, selectedSource, selectedChapter, 'skip');
+      const { copiedCount, skippedCount } = response.data;
+      alert(skippedCount > 0
+        ? `Imported ${copiedCount} words, skipped ${skippedCount} you already have.`
+        : 'Vocabulary imported successfully!');
     } catch (error) {
       console.error('Failed to import vocabulary:', error);
       alert('Failed to import vocabulary');
@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
-import { vocabularyApi } from '../api/client';
+import { vocabularyApi, VocabularyEntry } from '../api/client';
+
+// Same limit as the server: words, chengyu and patterns such as 越。。。越
+const MAX_CHINESE_LENGTH = 64;
 import { apiClient } from '../api/client';
 import { getInputProps } from '../hooks/useKeyboardLanguage';
 
@@ -19,6 +22,9 @@ export default function VocabularyUpload() {
   });
   const [loading, setLoading] = useState(false);
   const [audioPlaying, setAudioPlaying] = useState(false);
+  const [expressions, setExpressions] = useState<VocabularyEntry[]>([]);
+  const [pinyinCandidates, setPinyinCandidates] = useState<string[]>([]);
+  const [hanVietnameseCandidates, setHanVietnameseCandidates] = useState<string[]>([]);
 
   // Fetch latest chapter on mount
   useEffect(() => {
@@ -40,6 +46,27 @@ export default function VocabularyUpload() {
     fetchLatestChapter();
   }, [username]);
 
+  // For a single character, show the words and patterns it already appears in
+  useEffect(() => {
+    const character = form.chineseCharacter.trim();
+    if (!username || Array.from(character).length !== 1) {
+      setExpressions([]);
+      return;
+    }
+
+    let cancelled = false;
+    vocabularyApi.lookupCharacter(username, character)
+      .then(response => {
+        if (!cancelled) setExpressions(response.data.expressions);
+      })
+      .catch(() => {
+        if (!cancelled) setExpressions([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [username, form.chineseCharacter]);
+
   const handlePronounce = () => {
     if (!form.chineseCharacter) {
       alert('Please enter a Chinese character first');
@@ -85,15 +112,19 @@ export default function VocabularyUpload() {
         form.chineseCharacter,
         form.pinyin,
         form.modernVietnamese,
-        form.englishMeaning
+        form.englishMeaning,
+        form.hanVietnamese
       );
       // Only fill in blank fields
       setForm({
         ...form,
         pinyin: form.pinyin || response.data.pinyin,
+        hanVietnamese: form.hanVietnamese || response.data.hanVietnamese,
         modernVietnamese: form.modernVietnamese || response.data.modernVietnamese,
         englishMeaning: form.englishMeaning || response.data.englishMeaning,
       });
+      setPinyinCandidates(response.data.pinyinCandidates || []);
+      setHanVietnameseCandidates(response.data.hanVietnameseCandidates || []);
     } catch (error: any) {
       console.error('Failed to preview translation:', error);
       const errorMessage = error.response?.data?.error || error.message || 'Unknown error';
@@ -107,8 +138,23 @@ export default function VocabularyUpload() {
     if (!username) return;
     setLoading(true);
     try {
-      await vocabularyApi.create(username, form);
-      alert('Vocabulary entry created!');
+      try {
+        await vocabularyApi.create(username, form);
+        alert('Vocabulary entry created!');
+      } catch (error: any) {
+        if (error.response?.status !== 409) throw error;
+        // The word already exists: let the user decide what to do with it
+        const chapters = (error.response.data.existing as VocabularyEntry[]).map(entry => entry.chapter).join(', ');
+        if (confirm(`${form.chineseCharacter} is already in chapter ${chapters}. Update the existing entry with these values?`)) {
+          await vocabularyApi.create(username, form, 'update');
+          alert('Existing entry updated!');
+        } else if (confirm(`Add ${form.chineseCharacter} again anyway?`)) {
+          await vocabularyApi.create(username, form, 'keepBoth');
+          alert('Vocabulary entry created!');
+        } else {
+          return;
+        }
+      }
       
       // Keep the same chapter for next entry
       const currentChapter = form.chapter;
@@ -123,6 +169,8 @@ export default function VocabularyUpload() {
         chapter: currentChapter,
         chapterLabel: currentChapterLabel,
       });
+      setPinyinCandidates([]);
+      setHanVietnameseCandidates([]);
     } catch (error) {
       console.error('Failed to create entry:', error);
       alert('Failed to create entry');
@@ -141,8 +189,12 @@ export default function VocabularyUpload() {
             value={form.chineseCharacter}
             onChange={(e) => {
               setForm({ ...form, chineseCharacter: e.target.value });
+              setPinyinCandidates([]);
+              setHanVietnameseCandidates([]);
             }}
             {...getInputProps('zh')}
+            maxLength={MAX_CHINESE_LENGTH}
+            placeholder="字, 词, 成语 or pattern like 越。。。越"
             required
           />
           <button 
@@ -153,6 +205,11 @@ export default function VocabularyUpload() {
           >
             🔊 {audioPlaying ? 'Playing...' : 'Pronounce'}
           </button>
+          {expressions.length > 0 && (
+            <div style={{ fontSize: '13px', color: '#666', marginTop: '5px' }}>
+              Appears in: {expressions.map(entry => `${entry.chineseCharacter} (ch. ${entry.chapter})`).join(', ')}
+            </div>
+          )}
         </div>
         <div>
           <label>Pinyin:</label>
@@ -161,6 +218,22 @@ export default function VocabularyUpload() {
             onChange={(e) => setForm({ ...form, pinyin: e.target.value })}
             {...getInputProps('zh')}
           />
+          {pinyinCandidates.length > 0 && (
+            <div style={{ fontSize: '13px', color: '#666', marginTop: '5px' }}>
+              Readings:{' '}
+              {pinyinCandidates.map(candidate => (
+                <button
+                  key={candidate}
+                  type="button"
+                  onClick={() => setForm({ ...form, pinyin: candidate })}
+                  disabled={form.pinyin === candidate}
+                  style={{ marginLeft: '5px' }}
+                >
+                  {candidate}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
         <div>
           <label>Han Vietnamese:</label>
@@ -169,6 +242,22 @@ export default function VocabularyUpload() {
             onChange={(e) => setForm({ ...form, hanVietnamese: e.target.value })}
             {...getInputProps('vi')}
           />
+          {hanVietnameseCandidates.length > 0 && (
+            <div style={{ fontSize: '13px', color: '#666', marginTop: '5px' }}>
+              Readings:{' '}
+              {hanVietnameseCandidates.map(candidate => (
+                <button
+                  key={candidate}
+                  type="button"
+                  onClick={() => setForm({ ...form, hanVietnamese: candidate })}
+                  disabled={form.hanVietnamese === candidate}
+                  style={{ marginLeft: '5px' }}
+                >
+                  {candidate}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
         <div>
           <label>Modern Vietnamese:</label>
@@ -0,0 +1,544 @@
+import { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { apiClient, vocabularyApi, writingApi, CharacterStrokes, VocabularyEntry, WritingSheet } from '../api/client';
+import { useAuth } from '../context/AuthContext';
+
+type Point = [number, number];
+
+const CANVAS_SIZE = 300;
+// Stroke data uses a 1024 x 1024 box with the y axis pointing up from 900
+const DATA_SIZE = 1024;
+const BASELINE = 900;
+// How far (in data units) a drawn stroke may be from the expected one and still count
+const MATCH_DISTANCE = 180;
+const ENDPOINT_DISTANCE = 250;
+const MISTAKES_BEFORE_HINT = 3;
+const STROKE_PAUSE_MS = 200;
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1]);
+}
+
+function pathLength(points: Point[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += distance(points[i - 1], points[i]);
+  }
+  return length;
+}
+
+// The part of a polyline up to the given length
+function truncate(points: Point[], length: number): Point[] {
+  const result: Point[] = [points[0]];
+  let remaining = length;
+  for (let i = 1; i < points.length && remaining > 0; i++) {
+    const segment = distance(points[i - 1], points[i]);
+    if (segment <= remaining) {
+      result.push(points[i]);
+    } else {
+      const t = remaining / segment;
+      result.push([
+        points[i - 1][0] + (points[i][0] - points[i - 1][0]) * t,
+        points[i - 1][1] + (points[i][1] - points[i - 1][1]) * t
+      ]);
+    }
+    remaining -= segment;
+  }
+  return result;
+}
+
+// Evenly spaced points along a polyline
+function resample(points: Point[], count: number): Point[] {
+  const total = pathLength(points);
+  if (total === 0) return Array(count).fill(points[0]);
+  return Array.from({ length: count }, (_, i) => {
+    const part = truncate(points, (total * i) / (count - 1));
+    return part[part.length - 1];
+  });
+}
+
+// A drawn stroke matches when it starts and ends near the expected stroke and follows its shape in the same direction
+function matchesStroke(drawn: Point[], median: Point[]): boolean {
+  if (drawn.length < 2 || pathLength(drawn) < 20) return false;
+  if (distance(drawn[0], median[0]) > ENDPOINT_DISTANCE) return false;
+  if (distance(drawn[drawn.length - 1], median[median.length - 1]) > ENDPOINT_DISTANCE) return false;
+
+  const a = resample(drawn, 12);
+  const b = resample(median, 12);
+  const average = a.reduce((sum, point, i) => sum + distance(point, b[i]), 0) / a.length;
+  return average <= MATCH_DISTANCE;
+}
+
+interface CharacterView {
+  completed: number;                                 // strokes drawn in full
+  outline: boolean;                                  // show the remaining strokes in light grey
+  hint?: number | null;                              // stroke to highlight after repeated mistakes
+  animating?: { index: number; progress: number };   // stroke being animated (0..1)
+  drawn?: Point[];                                   // stroke the learner is drawing
+}
+
+function drawCharacter(canvas: HTMLCanvasElement | null, character: CharacterStrokes, view: CharacterView) {
+  const ctx = canvas?.getContext('2d');
+  if (!ctx) return;
+  const scale = CANVAS_SIZE / DATA_SIZE;
+
+  // Practice grid (米字格)
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, CANVAS_SIZE, CANVAS_SIZE);
+  ctx.strokeStyle = '#f1c0c0';
+  ctx.lineWidth = 1;
+  ctx.setLineDash([4, 4]);
+  ctx.beginPath();
+  ctx.moveTo(0, 0); ctx.lineTo(CANVAS_SIZE, CANVAS_SIZE);
+  ctx.moveTo(CANVAS_SIZE, 0); ctx.lineTo(0, CANVAS_SIZE);
+  ctx.moveTo(CANVAS_SIZE / 2, 0); ctx.lineTo(CANVAS_SIZE / 2, CANVAS_SIZE);
+  ctx.moveTo(0, CANVAS_SIZE / 2); ctx.lineTo(CANVAS_SIZE, CANVAS_SIZE / 2);
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  // Strokes, in data coordinates
+  ctx.setTransform(scale, 0, 0, -scale, 0, BASELINE * scale);
+  character.strokes.forEach((stroke, i) => {
+    const path = new Path2D(stroke);
+    if (i < view.completed) {
+      ctx.fillStyle = '#333';
+    } else if (i === view.hint) {
+      ctx.fillStyle = '#f5a623';
+    } else if (view.outline) {
+      ctx.fillStyle = '#e6e6e6';
+    } else {
+      return;
+    }
+    ctx.fill(path);
+  });
+
+  if (view.animating) {
+    // Reveal the stroke along its centre line, clipped to its outline
+    const median = character.medians[view.animating.index] as Point[];
+    const visible = truncate(median, pathLength(median) * view.animating.progress);
+    ctx.save();
+    ctx.clip(new Path2D(character.strokes[view.animating.index]));
+    ctx.strokeStyle = '#333';
+    ctx.lineWidth = 250;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    visible.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  if (view.drawn && view.drawn.length > 1) {
+    ctx.strokeStyle = '#007bff';
+    ctx.lineWidth = 8 / scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    view.drawn.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+    ctx.stroke();
+  }
+}
+
+export default function WritingPracticePage() {
+  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [parentUsername, setParentUsername] = useState<string | null>(null);
+  const [availableChapters, setAvailableChapters] = useState<number[]>([]);
+  const [chapter, setChapter] = useState<number | null>(null);
+  const [words, setWords] = useState<VocabularyEntry[]>([]);
+  const [sheet, setSheet] = useState<WritingSheet | null>(null);
+  const [characterIndex, setCharacterIndex] = useState(0);
+  const [mode, setMode] = useState<'view' | 'practice'>('view');
+  const [completedStrokes, setCompletedStrokes] = useState(0);
+  const [mistakes, setMistakes] = useState(0);
+  const [strokeMistakes, setStrokeMistakes] = useState(0);
+  const [showOutline, setShowOutline] = useState(true);
+  const [animating, setAnimating] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const animationRef = useRef<number | null>(null);
+  const drawnRef = useRef<Point[] | null>(null);
+
+  const vocabularyId = searchParams.get('id');
+  const current = sheet?.characters[characterIndex] ?? null;
+  const finished = mode === 'practice' && current !== null && completedStrokes >= current.strokes.length;
+  const hintStroke = strokeMistakes >= MISTAKES_BEFORE_HINT ? completedStrokes : null;
+
+  // Fetch parent username for child users
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchParentUsername = async () => {
+      if (user.role === 'child' && user.parentId) {
+        try {
+          const response = await apiClient.get(`/admin/users/${user.parentId}`, {
+            headers: { 'Authorization': `Bearer ${localStorage.getItem('auth_token')}` }
+          });
+          setParentUsername(response.data.username);
+        } catch (error) {
+          console.error('Failed to fetch parent username:', error);
+          setParentUsername(null);
+        }
+      } else {
+        setParentUsername(null);
+      }
+    };
+
+    fetchParentUsername();
+  }, [user]);
+
+  // Get the username to use for API calls
+  const usernameForAPI = parentUsername || user?.username;
+  const ready = !!user && (parentUsername !== null || user.role !== 'child');
+
+  useEffect(() => {
+    if (!ready || !usernameForAPI) return;
+
+    const fetchChapters = async () => {
+      try {
+        const response = await apiClient.get<number[]>(`/${usernameForAPI}/vocabulary/chapters`);
+        setAvailableChapters(response.data);
+        if (response.data.length > 0 && chapter === null) {
+          setChapter(Math.max(...response.data));
+        }
+      } catch (err) {
+        console.error('Error fetching chapters:', err);
+      }
+    };
+
+    fetchChapters();
+  }, [ready, usernameForAPI]);
+
+  useEffect(() => {
+    if (!ready || !usernameForAPI || chapter === null) return;
+
+    vocabularyApi.getAll(usernameForAPI, chapter, chapter)
+      .then(response => setWords(response.data))
+      .catch(err => console.error('Error fetching words:', err));
+  }, [ready, usernameForAPI, chapter]);
+
+  useEffect(() => {
+    if (!ready || !usernameForAPI || !vocabularyId) return;
+
+    const fetchSheet = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await writingApi.getSheet(usernameForAPI, vocabularyId);
+        setSheet(response.data);
+        selectCharacter(0);
+        if (response.data.characters.length === 0) {
+          setError(`No stroke data for "${response.data.chineseCharacter}"`);
+        }
+      } catch (err: any) {
+        setSheet(null);
+        setError(err.response?.data?.error || 'Failed to load stroke data');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSheet();
+  }, [ready, usernameForAPI, vocabularyId]);
+
+  // Stop any animation when leaving the page
+  useEffect(() => () => stopAnimation(), []);
+
+  const redraw = (drawn?: Point[]) => {
+    if (!current) return;
+    drawCharacter(canvasRef.current, current, {
+      completed: mode === 'practice' ? completedStrokes : current.strokes.length,
+      outline: showOutline,
+      hint: hintStroke,
+      drawn
+    });
+  };
+
+  useEffect(() => {
+    if (!animating) redraw();
+  }, [current, mode, completedStrokes, strokeMistakes, showOutline, animating]);
+
+  const stopAnimation = () => {
+    if (animationRef.current !== null) {
+      cancelAnimationFrame(animationRef.current);
+      animationRef.current = null;
+    }
+    setAnimating(false);
+  };
+
+  const selectCharacter = (index: number) => {
+    stopAnimation();
+    setCharacterIndex(index);
+    setMode('view');
+    setCompletedStrokes(0);
+    setMistakes(0);
+    setStrokeMistakes(0);
+  };
+
+  const handleAnimate = () => {
+    if (!current) return;
+    stopAnimation();
+    setMode('view');
+
+    // Longer strokes take longer to write
+    const durations = current.medians.map(median => Math.max(300, pathLength(median as Point[]) * 1.2));
+    const start = performance.now();
+
+    const frame = (now: number) => {
+      let elapsed = now - start;
+      let index = 0;
+      while (index < durations.length && elapsed > durations[index] + STROKE_PAUSE_MS) {
+        elapsed -= durations[index] + STROKE_PAUSE_MS;
+        index++;
+      }
+
+      if (index >= durations.length) {
+        animationRef.current = null;
+        setAnimating(false);
+        return;
+      }
+
+      drawCharacter(canvasRef.current, current, {
+        completed: index,
+        outline: true,
+        animating: { index, progress: Math.min(1, elapsed / durations[index]) }
+      });
+      animationRef.current = requestAnimationFrame(frame);
+    };
+
+    setAnimating(true);
+    animationRef.current = requestAnimationFrame(frame);
+  };
+
+  const handlePractice = () => {
+    stopAnimation();
+    setMode('practice');
+    setCompletedStrokes(0);
+    setMistakes(0);
+    setStrokeMistakes(0);
+  };
+
+  const toDataPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return [
+      ((e.clientX - rect.left) / rect.width) * DATA_SIZE,
+      BASELINE - ((e.clientY - rect.top) / rect.height) * DATA_SIZE
+    ];
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (mode !== 'practice' || animating || finished) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawnRef.current = [toDataPoint(e)];
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawnRef.current) return;
+    drawnRef.current.push(toDataPoint(e));
+    redraw(drawnRef.current);
+  };
+
+  const handlePointerUp = () => {
+    const drawn = drawnRef.current;
+    drawnRef.current = null;
+    if (!drawn || !current) return;
+
+    if (matchesStroke(drawn, current.medians[completedStrokes] as Point[])) {
+      setCompletedStrokes(completedStrokes + 1);
+      setStrokeMistakes(0);
+    } else {
+      setMistakes(mistakes + 1);
+      setStrokeMistakes(strokeMistakes + 1);
+      redraw();
+    }
+  };
+
+  const handleSelectWord = (id: string) => {
+    setSearchParams({ id });
+  };
+
+  return (
+    <div style={{ padding: '20px', display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+      <h1 style={{ marginBottom: '15px', fontSize: 'clamp(22px, 5vw, 28px)' }}>✍️ Writing Practice</h1>
+
+      {/* Word picker */}
+      <div style={{ display: 'flex', gap: '10px', alignItems: 'center', flexWrap: 'wrap', justifyContent: 'center', marginBottom: '15px' }}>
+        <label style={{ fontWeight: 'bold' }}>Chapter:</label>
+        <select
+          value={chapter ?? ''}
+          onChange={(e) => setChapter(parseInt(e.target.value, 10))}
+          style={{ padding: '8px', fontSize: '16px', borderRadius: '6px', border: '1px solid #dee2e6' }}
+        >
+          {availableChapters.map(ch => (
+            <option key={ch} value={ch}>Chapter {ch}</option>
+          ))}
+        </select>
+      </div>
+
+      <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', justifyContent: 'center', maxWidth: '600px', marginBottom: '20px' }}>
+        {words.map(word => (
+          <button
+            key={word.id}
+            onClick={() => handleSelectWord(word.id)}
+            style={{
+              padding: '6px 12px',
+              fontSize: '20px',
+              borderRadius: '6px',
+              border: word.id === vocabularyId ? '2px solid #007bff' : '1px solid #dee2e6',
+              backgroundColor: word.id === vocabularyId ? '#e7f3ff' : 'white',
+              cursor: 'pointer'
+            }}
+          >
+            {word.chineseCharacter}
+          </button>
+        ))}
+      </div>
+
+      {loading && <div style={{ fontSize: '18px', color: '#666' }}>Loading...</div>}
+
+      {error && !loading && (
+        <div style={{
+          padding: '12px',
+          backgroundColor: '#f8d7da',
+          color: '#721c24',
+          border: '1px solid #f5c6cb',
+          borderRadius: '6px',
+          marginBottom: '20px'
+        }}>
+          {error}
+        </div>
+      )}
+
+      {!vocabularyId && !loading && (
+        <div style={{ color: '#666' }}>Pick a word to practise writing it.</div>
+      )}
+
+      {sheet && current && !loading && (
+        <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '12px', width: '100%', maxWidth: '400px' }}>
+          <div style={{ fontSize: '18px', color: '#666' }}>{sheet.pinyin}</div>
+
+          {/* Characters of the word */}
+          {sheet.characters.length > 1 && (
+            <div style={{ display: 'flex', gap: '6px' }}>
+              {sheet.characters.map((character, i) => (
+                <button
+                  key={i}
+                  onClick={() => selectCharacter(i)}
+                  style={{
+                    padding: '4px 10px',
+                    fontSize: '22px',
+                    borderRadius: '6px',
+                    border: i === characterIndex ? '2px solid #007bff' : '1px solid #dee2e6',
+                    backgroundColor: i === characterIndex ? '#e7f3ff' : 'white',
+                    cursor: 'pointer'
+                  }}
+                >
+                  {character.character}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {sheet.missing.length > 0 && (
+            <div style={{ fontSize: '13px', color: '#856404' }}>
+              No stroke data for: {sheet.missing.join(' ')}
+            </div>
+          )}
+
+          <canvas
+            ref={canvasRef}
+            width={CANVAS_SIZE}
+            height={CANVAS_SIZE}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            style={{
+              width: '100%',
+              maxWidth: `${CANVAS_SIZE}px`,
+              aspectRatio: '1',
+              border: '2px solid #dc3545',
+              borderRadius: '4px',
+              backgroundColor: 'white',
+              touchAction: 'none',
+              cursor: mode === 'practice' ? 'crosshair' : 'default'
+            }}
+          />
+
+          <div style={{ fontSize: '14px', color: '#666', minHeight: '20px' }}>
+            {mode === 'practice' && !finished && (
+              <>Stroke {completedStrokes + 1} of {current.strokes.length}{mistakes > 0 ? ` • ${mistakes} mistake${mistakes === 1 ? '' : 's'}` : ''}</>
+            )}
+            {finished && (
+              <span style={{ color: '#28a745', fontWeight: 'bold' }}>
+                ✓ {current.character} written{mistakes === 0 ? ' without mistakes!' : ` with ${mistakes} mistake${mistakes === 1 ? '' : 's'}`}
+              </span>
+            )}
+            {mode === 'view' && `${current.strokes.length} strokes`}
+          </div>
+
+          <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap', justifyContent: 'center' }}>
+            <button
+              onClick={handleAnimate}
+              style={{
+                padding: '10px 18px',
+                backgroundColor: '#17a2b8',
+                color: 'white',
+                border: 'none',
+                borderRadius: '8px',
+                cursor: 'pointer',
+                fontSize: '16px',
+                fontWeight: 'bold'
+              }}
+            >
+              ▶ Stroke Order
+            </button>
+            <button
+              onClick={handlePractice}
+              style={{
+                padding: '10px 18px',
+                backgroundColor: '#28a745',
+                color: 'white',
+                border: 'none',
+                borderRadius: '8px',
+                cursor: 'pointer',
+                fontSize: '16px',
+                fontWeight: 'bold'
+              }}
+            >
+              {mode === 'practice' ? '↺ Restart' : '✍️ Practice'}
+            </button>
+            {finished && characterIndex < sheet.characters.length - 1 && (
+              <button
+                onClick={() => selectCharacter(characterIndex + 1)}
+                style={{
+                  padding: '10px 18px',
+                  backgroundColor: '#007bff',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '8px',
+                  cursor: 'pointer',
+                  fontSize: '16px',
+                  fontWeight: 'bold'
+                }}
+              >
+                Next Character →
+              </button>
+            )}
+          </div>
+
+          <label style={{ fontSize: '14px', display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <input
+              type="checkbox"
+              checked={showOutline}
+              onChange={(e) => setShowOutline(e.target.checked)}
+            />
+            Show outline while practising
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}